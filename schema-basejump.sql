@@ -0,0 +1,189 @@
+-- Reference Schema for Basejump
+-- The private `basejump` schema with accounts, memberships and the triggers
+-- that supa-seed's Basejump strategy works with. Used by the strategy
+-- detection tests; apply it to a scratch project to try the strategy.
+
+CREATE SCHEMA IF NOT EXISTS basejump;
+
+-- =====================================================
+-- TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE basejump.account_role AS ENUM ('owner', 'member');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS basejump.config (
+    enable_team_accounts BOOLEAN DEFAULT true,
+    enable_personal_account_billing BOOLEAN DEFAULT true,
+    enable_team_account_billing BOOLEAN DEFAULT true,
+    billing_provider TEXT DEFAULT 'stripe'
+);
+
+-- Personal accounts share their owner's id; team accounts get their own
+CREATE TABLE IF NOT EXISTS basejump.accounts (
+    id UUID UNIQUE NOT NULL DEFAULT extensions.uuid_generate_v4(),
+    primary_owner_user_id UUID REFERENCES auth.users NOT NULL DEFAULT auth.uid(),
+    name TEXT,
+    slug TEXT UNIQUE,
+    personal_account BOOLEAN DEFAULT false NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users,
+    updated_by UUID REFERENCES auth.users,
+    private_metadata JSONB DEFAULT '{}'::jsonb,
+    public_metadata JSONB DEFAULT '{}'::jsonb,
+    PRIMARY KEY (id)
+);
+
+ALTER TABLE basejump.accounts
+    ADD CONSTRAINT basejump_accounts_slug_null_if_personal_account_true CHECK (
+        (personal_account = true AND slug IS NULL)
+        OR (personal_account = false AND slug IS NOT NULL)
+    );
+
+CREATE TABLE IF NOT EXISTS basejump.account_user (
+    user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+    account_id UUID REFERENCES basejump.accounts ON DELETE CASCADE NOT NULL,
+    account_role basejump.account_role NOT NULL,
+    CONSTRAINT account_user_pkey PRIMARY KEY (user_id, account_id)
+);
+
+CREATE TABLE IF NOT EXISTS basejump.invitations (
+    id UUID UNIQUE NOT NULL DEFAULT extensions.uuid_generate_v4(),
+    account_role basejump.account_role NOT NULL,
+    account_id UUID REFERENCES basejump.accounts(id) ON DELETE CASCADE NOT NULL,
+    token TEXT UNIQUE NOT NULL DEFAULT basejump.generate_token(30),
+    invited_by_user_id UUID REFERENCES auth.users NOT NULL,
+    account_name TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    invitation_type TEXT NOT NULL,
+    PRIMARY KEY (id)
+);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION basejump.generate_token(length INT)
+RETURNS text
+AS $$
+SELECT regexp_replace(replace(replace(replace(replace(
+    encode(gen_random_bytes(length)::bytea, 'base64'),
+    '/', ''), '+', ''), '\', ''), '=', ''), E'[\\n\\r]+', '', 'g');
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION basejump.has_role_on_account(account_id UUID, account_role basejump.account_role DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+SELECT EXISTS (
+    SELECT 1 FROM basejump.account_user wu
+    WHERE wu.user_id = auth.uid()
+      AND wu.account_id = has_role_on_account.account_id
+      AND (wu.account_role = has_role_on_account.account_role OR has_role_on_account.account_role IS NULL)
+);
+$$;
+
+-- Every new user gets a personal account named after their email
+CREATE OR REPLACE FUNCTION basejump.run_new_user_setup()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    first_account_id UUID;
+    generated_user_name TEXT;
+BEGIN
+    IF NEW.email IS NOT NULL THEN
+        generated_user_name := split_part(NEW.email, '@', 1);
+    END IF;
+
+    INSERT INTO basejump.accounts (name, primary_owner_user_id, personal_account, id)
+    VALUES (generated_user_name, NEW.id, true, NEW.id)
+    RETURNING id INTO first_account_id;
+
+    INSERT INTO basejump.account_user (account_id, user_id, account_role)
+    VALUES (first_account_id, NEW.id, 'owner');
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE PROCEDURE basejump.run_new_user_setup();
+
+-- Adds the creator as owner, but only for accounts created by a signed-in user
+CREATE OR REPLACE FUNCTION basejump.add_current_user_to_new_account()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NEW.primary_owner_user_id = auth.uid() THEN
+        INSERT INTO basejump.account_user (account_id, user_id, account_role)
+        VALUES (NEW.id, auth.uid(), 'owner');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER basejump_add_current_user_to_new_account
+    AFTER INSERT ON basejump.accounts
+    FOR EACH ROW EXECUTE FUNCTION basejump.add_current_user_to_new_account();
+
+-- The public API; the basejump schema itself is not exposed through PostgREST
+CREATE OR REPLACE FUNCTION public.get_accounts()
+RETURNS json
+LANGUAGE sql
+AS $$
+SELECT coalesce(json_agg(json_build_object(
+    'account_id', wu.account_id,
+    'account_role', wu.account_role,
+    'is_primary_owner', a.primary_owner_user_id = auth.uid(),
+    'name', a.name,
+    'slug', a.slug,
+    'personal_account', a.personal_account
+)), '[]'::json)
+FROM basejump.account_user wu
+JOIN basejump.accounts a ON a.id = wu.account_id
+WHERE wu.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_account(slug TEXT DEFAULT NULL, name TEXT DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    new_account_id UUID;
+BEGIN
+    INSERT INTO basejump.accounts (slug, name)
+    VALUES (create_account.slug, create_account.name)
+    RETURNING id INTO new_account_id;
+
+    RETURN json_build_object('account_id', new_account_id);
+END;
+$$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE basejump.accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE basejump.account_user ENABLE ROW LEVEL SECURITY;
+ALTER TABLE basejump.invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Accounts are viewable by members" ON basejump.accounts
+    FOR SELECT TO authenticated USING (basejump.has_role_on_account(id) = true);
+
+CREATE POLICY "Users can view their own account_users" ON basejump.account_user
+    FOR SELECT TO authenticated USING (user_id = auth.uid());
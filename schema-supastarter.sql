@@ -0,0 +1,122 @@
+-- Reference Schema for Supastarter (Supabase edition)
+-- The user profile, team and membership tables supa-seed's Supastarter strategy
+-- expects. Used by the strategy detection tests; apply it to a scratch project
+-- to try the strategy without a full Supastarter app.
+
+-- =====================================================
+-- TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE public.team_member_role AS ENUM ('MEMBER', 'OWNER');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- One profile per auth user, created by the on_auth_user_created trigger
+CREATE TABLE IF NOT EXISTS public.user_profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    username TEXT UNIQUE,
+    name TEXT,
+    avatar_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Teams are the tenants; every user creates one during onboarding
+CREATE TABLE IF NOT EXISTS public.teams (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    slug TEXT NOT NULL UNIQUE,
+    avatar_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.team_memberships (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role public.team_member_role NOT NULL DEFAULT 'MEMBER',
+    is_creator BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT team_memberships_team_id_user_id_key UNIQUE (team_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.team_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    role public.team_member_role NOT NULL DEFAULT 'MEMBER',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE DEFAULT (timezone('utc'::text, now()) + interval '2 days') NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.subscriptions (
+    id TEXT PRIMARY KEY,
+    team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+    customer_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    plan_id TEXT NOT NULL,
+    variant_id TEXT NOT NULL,
+    next_payment_date TIMESTAMP WITH TIME ZONE
+);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.user_profiles (id, name, avatar_url)
+    VALUES (
+        NEW.id,
+        NEW.raw_user_meta_data->>'name',
+        NEW.raw_user_meta_data->>'avatar_url'
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE PROCEDURE public.handle_new_user();
+
+CREATE OR REPLACE FUNCTION public.is_team_member(team_id UUID)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.team_memberships m
+        WHERE m.team_id = is_team_member.team_id AND m.user_id = auth.uid()
+    );
+$$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_memberships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own profile" ON public.user_profiles
+    FOR SELECT USING (auth.uid() = id);
+
+CREATE POLICY "Members can read their teams" ON public.teams
+    FOR SELECT USING (public.is_team_member(id));
+
+CREATE POLICY "Members can read team memberships" ON public.team_memberships
+    FOR SELECT USING (public.is_team_member(team_id));
@@ -0,0 +1,69 @@
+-- Reference Schema for the Vercel with-supabase starter
+-- The starter itself only uses Supabase Auth. Most projects built on it add the
+-- profiles table from the Supabase user management quickstart, which is what
+-- supa-seed's with-supabase strategy expects. There are no tenant tables.
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.profiles (
+    id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL PRIMARY KEY,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    username TEXT UNIQUE,
+    full_name TEXT,
+    avatar_url TEXT,
+    website TEXT,
+
+    CONSTRAINT username_length CHECK (char_length(username) >= 3)
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public profiles are viewable by everyone." ON public.profiles
+    FOR SELECT USING (true);
+
+CREATE POLICY "Users can insert their own profile." ON public.profiles
+    FOR INSERT WITH CHECK ((SELECT auth.uid()) = id);
+
+CREATE POLICY "Users can update own profile." ON public.profiles
+    FOR UPDATE USING ((SELECT auth.uid()) = id);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- Creates the profile when someone signs up
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+    INSERT INTO public.profiles (id, full_name, avatar_url)
+    VALUES (NEW.id, NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'avatar_url');
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE PROCEDURE public.handle_new_user();
+
+-- =====================================================
+-- STORAGE
+-- =====================================================
+
+INSERT INTO storage.buckets (id, name)
+VALUES ('avatars', 'avatars')
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Avatar images are publicly accessible." ON storage.objects
+    FOR SELECT USING (bucket_id = 'avatars');
+
+CREATE POLICY "Anyone can upload an avatar." ON storage.objects
+    FOR INSERT WITH CHECK (bucket_id = 'avatars');
@@ -3,12 +3,15 @@
  * Phase 5, Checkpoint E1 - Complete AI integration for intelligent asset and template generation
  */
 
-import { OllamaClient, ollamaClient } from './ollama-client';
+import { ollamaClient } from './ollama-client';
+import type { LLMProvider } from './llm-provider';
+import { RecordFailure, TableShape, TableShapeSource, fakeRecord, validateRecord, validateRecords } from './record-validator';
 import { DomainPromptEngine, promptEngine as defaultPromptEngine, GenerationRequest, PromptContext } from './prompt-engine';
 import { AIResponseCache, aiCache } from './response-cache';
 import { SchemaInfo } from '../core/schema-adapter';
 import { Template } from '../features/generation/template-engine';
 import { Logger } from '../core/utils/logger';
+import type { Faker } from '@faker-js/faker';
 
 export interface GenerationOptions {
   useCache?: boolean;
@@ -19,6 +22,16 @@ export interface GenerationOptions {
   model?: string;
   temperature?: number;
   tags?: string[];
+  tableShape?: TableShape; // Validate records against this shape instead of the generator's table shapes
+  repairAttempts?: number; // Times failing records go back to the model (default: 2)
+  faker?: Faker; // Fills records that are still invalid after repair
+}
+
+export interface RepairSummary {
+  invalid: number; // Records that failed validation as first generated
+  repaired: number;
+  fallback: number; // Records replaced with Faker.js data
+  attempts: number;
 }
 
 export interface AssetGenerationResult {
@@ -31,6 +44,7 @@ export interface AssetGenerationResult {
     quality?: number;
     tokensUsed?: number;
     cacheHit: boolean;
+    repairs?: RepairSummary;
   };
   errors: string[];
   warnings: string[];
@@ -66,18 +80,21 @@ export interface SchemaAnalysis {
 }
 
 export class AIAssetGenerator {
-  private ollama: OllamaClient;
+  private provider: LLMProvider;
   private promptEngine: DomainPromptEngine;
   private cache: AIResponseCache;
+  private tableShapes?: TableShapeSource;
 
   constructor(
-    ollama?: OllamaClient,
+    provider?: LLMProvider,
     promptEngine?: DomainPromptEngine,
-    cache?: AIResponseCache
+    cache?: AIResponseCache,
+    tableShapes?: TableShapeSource // Validates generated records, e.g. introspectedTableShapes(client)
   ) {
-    this.ollama = ollama || ollamaClient;
+    this.provider = provider || ollamaClient;
     this.promptEngine = promptEngine || defaultPromptEngine;
     this.cache = cache || aiCache;
+    this.tableShapes = tableShapes;
 
     Logger.info('🚀 AI Asset Generator initialized');
   }
@@ -96,8 +113,8 @@ export class AIAssetGenerator {
     try {
       Logger.info(`🎯 Generating ${count} records for ${table} using AI`);
 
-      // Check if Ollama is available
-      const health = await this.ollama.checkHealth();
+      // Check if the provider is available
+      const health = await this.provider.checkHealth();
       if (!health.connected && !options?.fallbackToFaker) {
         return {
           success: false,
@@ -141,7 +158,11 @@ export class AIAssetGenerator {
       // Generate with AI if available
       if (health.connected) {
         try {
-          const response = await this.ollama.generateJSON(user, system, schema);
+          const response = await this.provider.generateJSON(user, system, schema);
+          const tableShape = options?.tableShape || await this.tableShapes?.(table);
+          const repairs = tableShape
+            ? await this.repairRecords(response, { ...context, table }, tableShape, options || {})
+            : undefined;
 
           const responseTime = Date.now() - startTime;
           const quality = this.assessDataQuality(response, context);
@@ -171,10 +192,14 @@ export class AIAssetGenerator {
               model: health.recommendedModel,
               responseTime,
               quality,
-              cacheHit: false
+              cacheHit: false,
+              ...(repairs && { repairs })
             },
             errors: [],
-            warnings: quality < 80 ? [`Generated data quality is ${quality}%, consider manual review`] : []
+            warnings: [
+              ...(quality < 80 ? [`Generated data quality is ${quality}%, consider manual review`] : []),
+              ...(repairs?.fallback ? [`${repairs.fallback} records still failed validation after ${repairs.attempts} repair attempts and were generated with Faker.js`] : [])
+            ]
           };
 
         } catch (error: any) {
@@ -240,7 +265,7 @@ export class AIAssetGenerator {
     try {
       Logger.info(`🎨 Generating template recommendation for ${templateType}`);
 
-      const health = await this.ollama.checkHealth();
+      const health = await this.provider.checkHealth();
       if (!health.connected) {
         Logger.warn('🤖 AI service unavailable for template recommendation');
         return null;
@@ -248,7 +273,7 @@ export class AIAssetGenerator {
 
       const { system, user } = this.promptEngine.generateTemplatePrompt(context, templateType);
 
-      const response = await this.ollama.generateJSON(user, system);
+      const response = await this.provider.generateJSON(user, system);
 
       // Parse and validate template recommendation
       const recommendation = this.parseTemplateRecommendation(response, context, templateType);
@@ -273,7 +298,7 @@ export class AIAssetGenerator {
     try {
       Logger.info('🔍 Analyzing schema with AI for improvements');
 
-      const health = await this.ollama.checkHealth();
+      const health = await this.provider.checkHealth();
       if (!health.connected) {
         Logger.warn('🤖 AI service unavailable for schema analysis');
         return null;
@@ -291,7 +316,7 @@ export class AIAssetGenerator {
 
       const { system, user } = this.promptEngine.generateSchemaAnalysisPrompt(schema);
 
-      const response = await this.ollama.generateJSON(user, system);
+      const response = await this.provider.generateJSON(user, system);
 
       const analysis = this.parseSchemaAnalysis(response, schema);
 
@@ -331,7 +356,7 @@ export class AIAssetGenerator {
     try {
       Logger.info(`💡 Generating field suggestions for ${table} in ${domain} domain`);
 
-      const health = await this.ollama.checkHealth();
+      const health = await this.provider.checkHealth();
       if (!health.connected) {
         Logger.warn('🤖 AI service unavailable for field suggestions');
         return [];
@@ -348,7 +373,7 @@ export class AIAssetGenerator {
 
       const { system, user } = this.promptEngine.generatePrompt(request);
 
-      const response = await this.ollama.generateJSON(user, system);
+      const response = await this.provider.generateJSON(user, system);
 
       return response.fields || [];
 
@@ -362,29 +387,33 @@ export class AIAssetGenerator {
    * Get AI service status
    */
   async getStatus(): Promise<{
+    provider: string;
     ai_available: boolean;
     model: string;
     cache_stats: any;
     recommendations: string[];
   }> {
-    const health = await this.ollama.checkHealth();
+    const health = await this.provider.checkHealth();
     const cacheStats = this.cache.getStats();
 
     const recommendations: string[] = [];
     
     if (!health.connected) {
-      recommendations.push('Install and start Ollama for AI-powered generation');
+      recommendations.push(this.provider.name === 'ollama'
+        ? 'Install and start Ollama for AI-powered generation'
+        : `Check the ${this.provider.name} provider: ${health.error || 'not connected'}`);
     }
     
     if (cacheStats.hitRate < 0.3) {
       recommendations.push('Consider enabling caching to improve performance');
     }
     
-    if (health.availableModels.length === 0) {
+    if (health.availableModels.length === 0 && this.provider.name === 'ollama') {
       recommendations.push('Pull AI models using: ollama pull llama3.1:latest');
     }
 
     return {
+      provider: this.provider.name,
       ai_available: health.connected,
       model: health.recommendedModel || 'none',
       cache_stats: cacheStats,
@@ -392,6 +421,13 @@ export class AIAssetGenerator {
     };
   }
 
+  /**
+   * Provider the generator sends prompts to
+   */
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
   /**
    * Clear AI cache
    */
@@ -438,6 +474,63 @@ export class AIAssetGenerator {
     };
   }
 
+  /**
+   * Private: Validate generated records against the table shape, send the
+   * failing ones back to the model with their errors, and replace whatever is
+   * still invalid after the last attempt with Faker.js data
+   */
+  private async repairRecords(
+    response: any,
+    context: PromptContext,
+    shape: TableShape,
+    options: GenerationOptions
+  ): Promise<RepairSummary | undefined> {
+    if (!Array.isArray(response?.records)) {
+      return undefined;
+    }
+
+    const records: any[] = response.records;
+    let failures = validateRecords(records, shape).failures;
+    const summary: RepairSummary = { invalid: failures.length, repaired: 0, fallback: 0, attempts: 0 };
+    const maxAttempts = options.repairAttempts ?? 2;
+
+    while (failures.length > 0 && summary.attempts < maxAttempts) {
+      summary.attempts++;
+      Logger.info(`🔧 Repairing ${failures.length} invalid ${shape.table} records (attempt ${summary.attempts}/${maxAttempts})`);
+
+      const { system, user, schema } = this.promptEngine.generateRepairPrompt(context, failures, shape);
+      let repaired: any[] = [];
+      try {
+        const result = await this.provider.generateJSON(user, system, schema);
+        repaired = Array.isArray(result?.records) ? result.records : [];
+      } catch (error: any) {
+        Logger.warn(`🔧 Repair attempt ${summary.attempts} failed: ${error.message}`);
+      }
+
+      const remaining: RecordFailure[] = [];
+      failures.forEach((failure, i) => {
+        const candidate = repaired[i];
+        const errors = candidate === undefined ? failure.errors : validateRecord(candidate, shape);
+
+        if (errors.length === 0) {
+          records[failure.index] = candidate;
+          summary.repaired++;
+        } else {
+          remaining.push({ index: failure.index, record: candidate ?? failure.record, errors });
+        }
+      });
+      failures = remaining;
+    }
+
+    for (const failure of failures) {
+      Logger.debug(`🎲 Faker.js fallback for ${shape.table} record ${failure.index}: ${failure.errors.join('; ')}`);
+      records[failure.index] = fakeRecord(shape, failure.index, options.faker);
+      summary.fallback++;
+    }
+
+    return summary;
+  }
+
   /**
    * Private: Assess quality of generated data
    */
@@ -5,19 +5,32 @@
 
 // Core AI Components
 export { OllamaClient, ollamaClient } from './ollama-client';
+export { OpenAICompatibleProvider } from './openai-compatible-provider';
+export { RecordedProvider } from './recorded-provider';
+export { createLLMProvider, LLM_PROVIDER_TYPES } from './llm-provider';
+export { tableShapeFrom, introspectedTableShapes, validateRecords, validateRecord, fakeRecord } from './record-validator';
 export { DomainPromptEngine, promptEngine } from './prompt-engine';
 export { AIResponseCache, aiCache } from './response-cache';
 export { AIAssetGenerator, aiAssetGenerator } from './asset-generator';
 
 // Types and Interfaces
+export type {
+  LLMProvider,
+  LLMProviderType,
+  LLMProviderConfig,
+  ConnectionStatus
+} from './llm-provider';
+
 export type {
   OllamaConfig,
   GenerateRequest,
   GenerateResponse,
-  ModelInfo,
-  ConnectionStatus
+  ModelInfo
 } from './ollama-client';
 
+export type { OpenAICompatibleConfig } from './openai-compatible-provider';
+export type { RecordedProviderConfig } from './recorded-provider';
+
 export type {
   PromptContext,
   GenerationRequest,
@@ -31,8 +44,16 @@ export type {
   SearchOptions
 } from './response-cache';
 
+export type {
+  TableShape,
+  TableShapeSource,
+  RecordFailure,
+  RecordValidationResult
+} from './record-validator';
+
 export type {
   GenerationOptions,
+  RepairSummary,
   AssetGenerationResult,
   TemplateRecommendation,
   SchemaAnalysis
@@ -0,0 +1,93 @@
+/**
+ * LLM Provider Abstraction
+ * Lets the asset generator and the `ai` commands run against Ollama, any
+ * OpenAI-compatible endpoint, or responses recorded from an earlier run
+ */
+
+import { OllamaClient } from './ollama-client';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { RecordedProvider } from './recorded-provider';
+
+export interface ConnectionStatus {
+  connected: boolean;
+  version?: string;
+  availableModels: string[];
+  recommendedModel?: string;
+  error?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Check whether the provider can serve requests and which models it has
+   */
+  checkHealth(): Promise<ConnectionStatus>;
+
+  /**
+   * Generate free-form text
+   */
+  generateText(prompt: string, system?: string): Promise<string>;
+
+  /**
+   * Generate a JSON document that satisfies `schema` (see matchesSchema)
+   */
+  generateJSON<T = any>(prompt: string, system?: string, schema?: any): Promise<T>;
+}
+
+export type LLMProviderType = 'ollama' | 'openai-compatible' | 'recorded';
+
+export interface LLMProviderConfig {
+  provider?: LLMProviderType;
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  timeout?: number;
+  recordings?: string | string[]; // Cache exports, persisted entries or directories of them
+}
+
+/**
+ * Basic structural check shared by the providers: a JSON Schema object must
+ * have its `required` keys, any other object is read as a list of keys
+ */
+export function matchesSchema(data: any, schema: any): boolean {
+  if (typeof schema !== 'object' || schema === null) return true;
+  if (typeof data !== 'object' || data === null) return false;
+
+  const keys: string[] = schema.type === 'object' && schema.properties
+    ? schema.required || []
+    : Object.keys(schema);
+  return keys.every(key => key in data);
+}
+
+export const LLM_PROVIDER_TYPES: LLMProviderType[] = ['ollama', 'openai-compatible', 'recorded'];
+
+/**
+ * Create the provider described by an `ai` config block
+ */
+export function createLLMProvider(config: LLMProviderConfig = {}): LLMProvider {
+  const { provider = 'ollama', baseUrl, model, apiKey, timeout, recordings } = config;
+
+  switch (provider) {
+    case 'ollama':
+      return new OllamaClient({
+        ...(baseUrl && { baseUrl }),
+        ...(model && { model }),
+        ...(timeout && { timeout })
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        ...(baseUrl && { baseUrl }),
+        ...(model && { model }),
+        ...(apiKey && { apiKey }),
+        ...(timeout && { timeout })
+      });
+    case 'recorded':
+      if (!recordings || recordings.length === 0) {
+        throw new Error('The recorded provider needs at least one recording file or directory');
+      }
+      return new RecordedProvider({ recordings, model });
+    default:
+      throw new Error(`Unknown AI provider "${provider}" (expected one of: ${LLM_PROVIDER_TYPES.join(', ')})`);
+  }
+}
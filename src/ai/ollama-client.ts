@@ -6,6 +6,10 @@
 import { Logger } from '../core/utils/logger';
 import * as http from 'http';
 import * as https from 'https';
+import { matchesSchema } from './llm-provider';
+import type { ConnectionStatus, LLMProvider } from './llm-provider';
+
+export type { ConnectionStatus } from './llm-provider';
 
 export interface OllamaConfig {
   baseUrl: string;
@@ -73,15 +77,8 @@ export interface ModelInfo {
   };
 }
 
-export interface ConnectionStatus {
-  connected: boolean;
-  version?: string;
-  availableModels: string[];
-  recommendedModel?: string;
-  error?: string;
-}
-
-export class OllamaClient {
+export class OllamaClient implements LLMProvider {
+  readonly name = 'ollama';
   private config: OllamaConfig;
   private isHealthy: boolean = false;
   private lastHealthCheck: Date = new Date(0);
@@ -199,6 +196,14 @@ export class OllamaClient {
     throw new Error('Generation failed: Maximum retries exceeded');
   }
 
+  /**
+   * Generate plain text
+   */
+  async generateText(prompt: string, system?: string): Promise<string> {
+    const response = await this.generate({ prompt, system, stream: false });
+    return response.response;
+  }
+
   /**
    * Generate structured JSON response
    */
@@ -216,7 +221,7 @@ export class OllamaClient {
       const parsed = JSON.parse(response.response);
       
       // Basic schema validation if provided
-      if (schema && !this.validateSchema(parsed, schema)) {
+      if (schema && !matchesSchema(parsed, schema)) {
         throw new Error('Generated JSON does not match expected schema');
       }
 
@@ -357,21 +362,6 @@ export class OllamaClient {
     });
   }
 
-  /**
-   * Basic schema validation
-   */
-  private validateSchema(data: any, schema: any): boolean {
-    // Very basic validation - in production would use proper JSON schema validator
-    if (typeof schema === 'object' && schema !== null) {
-      for (const key in schema) {
-        if (!(key in data)) {
-          return false;
-        }
-      }
-    }
-    return true;
-  }
-
   /**
    * Simple delay utility
    */
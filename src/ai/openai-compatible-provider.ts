@@ -0,0 +1,145 @@
+/**
+ * OpenAI-Compatible Provider
+ * Talks to any server exposing /v1/models and /v1/chat/completions
+ * (llama.cpp server, LM Studio, vLLM, LocalAI)
+ */
+
+import { Logger } from '../core/utils/logger';
+import { matchesSchema } from './llm-provider';
+import type { ConnectionStatus, LLMProvider } from './llm-provider';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // Including the /v1 prefix
+  model?: string; // Defaults to the first model the server lists
+  apiKey?: string;
+  timeout: number;
+  maxRetries: number;
+  jsonMode: boolean; // Send response_format: json_object for JSON requests
+}
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private config: OpenAICompatibleConfig;
+
+  constructor(config?: Partial<OpenAICompatibleConfig>) {
+    this.config = {
+      baseUrl: 'http://localhost:8080/v1',
+      timeout: 30000,
+      maxRetries: 3,
+      jsonMode: true,
+      ...config
+    };
+    this.config.baseUrl = this.config.baseUrl.replace(/\/+$/, '');
+
+    Logger.info(`🤖 Initializing OpenAI-compatible client: ${this.config.baseUrl}`);
+  }
+
+  /**
+   * List the served models
+   */
+  async checkHealth(): Promise<ConnectionStatus> {
+    try {
+      const response = await this.request('/models', undefined, 'GET');
+      const availableModels: string[] = (response.data || []).map((model: { id: string }) => model.id);
+
+      return {
+        connected: true,
+        availableModels,
+        recommendedModel: this.config.model || availableModels[0]
+      };
+    } catch (error: any) {
+      Logger.warn(`🤖 OpenAI-compatible endpoint unavailable: ${error.message}`);
+
+      return {
+        connected: false,
+        availableModels: [],
+        error: error.message
+      };
+    }
+  }
+
+  async generateText(prompt: string, system?: string): Promise<string> {
+    return this.complete(this.messages(prompt, system), { temperature: 0.7 });
+  }
+
+  async generateJSON<T = any>(prompt: string, system?: string, schema?: any): Promise<T> {
+    const content = await this.complete(this.messages(prompt, system), {
+      temperature: 0.1,
+      ...(this.config.jsonMode && { response_format: { type: 'json_object' } })
+    });
+
+    let parsed: any;
+    try {
+      // Some servers wrap JSON in a markdown fence even in JSON mode
+      parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch (error: any) {
+      Logger.error(`🤖 JSON parsing failed: ${error.message}`);
+      throw new Error(`Invalid JSON response from model: ${error.message}`);
+    }
+
+    if (schema && !matchesSchema(parsed, schema)) {
+      throw new Error('Generated JSON does not match expected schema');
+    }
+
+    return parsed;
+  }
+
+  getConfig(): OpenAICompatibleConfig {
+    return { ...this.config };
+  }
+
+  private messages(prompt: string, system?: string): ChatMessage[] {
+    return [
+      ...(system ? [{ role: 'system' as const, content: system }] : []),
+      { role: 'user', content: prompt }
+    ];
+  }
+
+  private async complete(messages: ChatMessage[], options: Record<string, any>): Promise<string> {
+    const model = this.config.model || (await this.checkHealth()).recommendedModel;
+    const body = { model, messages, stream: false, ...options };
+
+    let attempt = 0;
+    while (true) {
+      try {
+        const response = await this.request('/chat/completions', body);
+        const content = response.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+          throw new Error('Response has no message content');
+        }
+        return content;
+      } catch (error: any) {
+        attempt++;
+        if (attempt >= this.config.maxRetries) {
+          throw new Error(`Generation failed after ${attempt} attempts: ${error.message}`);
+        }
+
+        Logger.warn(`🤖 Generation attempt ${attempt} failed, retrying: ${error.message}`);
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  }
+
+  private async request(endpoint: string, data?: any, method: string = 'POST'): Promise<any> {
+    const response = await fetch(`${this.config.baseUrl}${endpoint}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` })
+      },
+      body: data ? JSON.stringify(data) : undefined,
+      signal: AbortSignal.timeout(this.config.timeout)
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${text}`);
+    }
+    return text ? JSON.parse(text) : {};
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { SchemaInfo } from '../core/schema-adapter';
+import type { TableShape } from './record-validator';
 import { Template } from '../features/generation/template-engine';
 import { Logger } from '../core/utils/logger';
 
@@ -98,6 +99,44 @@ export class DomainPromptEngine {
     return this.generatePrompt(request);
   }
 
+  /**
+   * Generate a prompt asking the model to fix records that failed validation
+   */
+  generateRepairPrompt(
+    context: PromptContext,
+    failures: Array<{ record: any; errors: string[] }>,
+    shape: TableShape
+  ): { system: string; user: string; schema?: any } {
+    const { system, schema } = this.generateSeedDataPrompt(context, failures.length);
+
+    const columns = shape.columns.map(column => {
+      const details = [
+        column.type,
+        ...(column.isNullable ? [] : ['not null']),
+        ...(column.maxLength ? [`max ${column.maxLength} characters`] : []),
+        ...(column.enumValues?.length ? [`one of: ${column.enumValues.join(', ')}`] : [])
+      ];
+      return `- ${column.name} (${details.join(', ')})`;
+    });
+
+    const records = failures.map((failure, i) =>
+      `Record ${i + 1}: ${JSON.stringify(failure.record)}\nProblems:\n${failure.errors.map(error => `- ${error}`).join('\n')}`
+    );
+
+    const user = [
+      `These ${failures.length} records for the "${shape.table}" table failed validation against the database.`,
+      `Return {"records": [...]} with exactly ${failures.length} corrected records in the same order. Keep values that are fine and only fix the listed problems.`,
+      '',
+      'Columns:',
+      ...columns,
+      ...(shape.checks.length > 0 ? ['', 'Check constraints:', ...shape.checks.map(check => `- ${check.name}: ${check.definition}`)] : []),
+      '',
+      ...records
+    ].join('\n');
+
+    return { system, user, schema };
+  }
+
   /**
    * Generate template content prompts
    */
@@ -0,0 +1,204 @@
+/**
+ * AI Record Validation
+ * Checks generated records against the real table shape (column types, enum
+ * values, CHECK constraints) so invalid rows can be sent back to the model
+ * before they fail at insert time
+ */
+
+import { faker as defaultFaker, Faker } from '@faker-js/faker';
+import { SchemaIntrospector } from '../schema/schema-introspector';
+import type { DatabaseColumn, DatabaseTable } from '../schema/schema-introspector';
+import type { BusinessRule } from '../features/analysis/constraint-discovery-engine';
+import { evaluateCheckConstraint } from '../features/analysis/check-constraint-evaluator';
+
+export interface TableShape {
+  table: string;
+  columns: DatabaseColumn[];
+  checks: Array<{ name: string; definition: string }>;
+}
+
+// Looks up the shape of a table by name; undefined when the table is unknown
+export type TableShapeSource = (table: string) => Promise<TableShape | undefined>;
+
+export interface RecordFailure {
+  index: number; // Position in the validated list
+  record: any;
+  errors: string[];
+}
+
+export interface RecordValidationResult {
+  valid: number;
+  failures: RecordFailure[];
+}
+
+const INTEGER_TYPES = ['smallint', 'integer', 'bigint', 'int2', 'int4', 'int8'];
+const NUMERIC_TYPES = ['numeric', 'decimal', 'real', 'double precision', 'float4', 'float8'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Build the shape from an introspected table. CHECK constraints come from the
+ * catalog; `require` rules the ConstraintDiscoveryEngine parsed from triggers
+ * on the same table are added when they are plain column conditions.
+ */
+export function tableShapeFrom(table: DatabaseTable, businessRules: BusinessRule[] = []): TableShape {
+  const checks = table.constraints
+    .filter(constraint => constraint.type === 'CHECK' && constraint.checkDefinition)
+    .map(constraint => ({ name: constraint.name, definition: constraint.checkDefinition! }));
+
+  for (const rule of businessRules) {
+    if (rule.table === table.name && rule.action === 'require' && rule.condition !== 'complex_condition') {
+      checks.push({ name: rule.name, definition: rule.condition });
+    }
+  }
+
+  return { table: table.name, columns: table.columns, checks };
+}
+
+/**
+ * Shapes of the tables behind a database client, introspected once on first use
+ */
+export function introspectedTableShapes(client: any): TableShapeSource {
+  let introspection: ReturnType<SchemaIntrospector['introspectSchema']> | undefined;
+
+  return async table => {
+    introspection = introspection || new SchemaIntrospector(client).introspectSchema();
+    const result = await introspection;
+    const found = result.tables.find(candidate => candidate.name === table);
+    return found && tableShapeFrom(found, result.constraints.discoveredConstraints?.businessRules);
+  };
+}
+
+/**
+ * Validate every record; a record is valid when it has no errors
+ */
+export function validateRecords(records: any[], shape: TableShape): RecordValidationResult {
+  const failures: RecordFailure[] = [];
+
+  records.forEach((record, index) => {
+    const errors = validateRecord(record, shape);
+    if (errors.length > 0) {
+      failures.push({ index, record, errors });
+    }
+  });
+
+  return { valid: records.length - failures.length, failures };
+}
+
+export function validateRecord(record: any, shape: TableShape): string[] {
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+    return ['record is not an object'];
+  }
+
+  const errors: string[] = [];
+  const columns = new Map(shape.columns.map(column => [column.name, column]));
+
+  for (const key of Object.keys(record)) {
+    if (!columns.has(key)) {
+      errors.push(`${key}: column does not exist on ${shape.table}`);
+    }
+  }
+
+  for (const column of shape.columns) {
+    const value = record[column.name];
+
+    if (value === null || value === undefined) {
+      // Omitted columns fall back to their default; keys are filled in by the database and the seeder
+      if (column.isPrimaryKey || column.isForeignKey) continue;
+      if (!column.isNullable && (value === null || column.defaultValue === null)) {
+        errors.push(`${column.name}: must not be null`);
+      }
+      continue;
+    }
+
+    const typeError = checkType(value, column);
+    if (typeError) {
+      errors.push(`${column.name}: ${typeError}`);
+    } else if (column.enumValues?.length && !column.enumValues.includes(value)) {
+      errors.push(`${column.name}: must be one of ${column.enumValues.join(', ')}`);
+    }
+  }
+
+  for (const check of shape.checks) {
+    if (evaluateCheckConstraint(check.definition, record) === false) {
+      errors.push(`violates ${check.name}: ${check.definition}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Faker record for rows the model could not repair
+ */
+export function fakeRecord(shape: TableShape, index: number, faker: Faker = defaultFaker): Record<string, any> {
+  const record: Record<string, any> = {};
+
+  for (const column of shape.columns) {
+    // Keys, foreign keys and defaulted columns are left to the database and the seeder
+    if (column.isPrimaryKey || column.isForeignKey || column.defaultValue !== null) {
+      continue;
+    }
+
+    record[column.name] = fakeValue(column, index, faker);
+  }
+
+  return record;
+}
+
+function checkType(value: any, column: DatabaseColumn): string | undefined {
+  const type = column.type.toLowerCase();
+
+  if (INTEGER_TYPES.includes(type)) {
+    return Number.isInteger(value) ? undefined : `expected an integer, got ${JSON.stringify(value)}`;
+  }
+  if (NUMERIC_TYPES.includes(type)) {
+    return typeof value === 'number' && Number.isFinite(value) ? undefined : `expected a number, got ${JSON.stringify(value)}`;
+  }
+  if (type === 'boolean') {
+    return typeof value === 'boolean' ? undefined : `expected true or false, got ${JSON.stringify(value)}`;
+  }
+  if (type === 'uuid') {
+    return typeof value === 'string' && UUID_PATTERN.test(value) ? undefined : `expected a UUID, got ${JSON.stringify(value)}`;
+  }
+  if (type.startsWith('timestamp') || type === 'date') {
+    return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? undefined : `expected an ISO date, got ${JSON.stringify(value)}`;
+  }
+  if (type === 'json' || type === 'jsonb') {
+    return undefined;
+  }
+  if (type === 'array' || type.endsWith('[]')) {
+    return Array.isArray(value) ? undefined : 'expected an array';
+  }
+
+  // Text-like columns (text, varchar, char and user-defined enums)
+  if (typeof value !== 'string') {
+    return `expected a string, got ${JSON.stringify(value)}`;
+  }
+  if (column.maxLength && value.length > column.maxLength) {
+    return `longer than ${column.maxLength} characters`;
+  }
+  return undefined;
+}
+
+function fakeValue(column: DatabaseColumn, index: number, faker: Faker): any {
+  const type = column.type.toLowerCase();
+  const name = column.name.toLowerCase();
+
+  if (column.enumValues?.length) return faker.helpers.arrayElement(column.enumValues);
+  if (type === 'uuid') return faker.string.uuid();
+  if (type === 'boolean') return faker.datatype.boolean();
+  if (INTEGER_TYPES.includes(type)) return faker.number.int({ min: 0, max: 1000 });
+  if (NUMERIC_TYPES.includes(type)) return faker.number.float({ min: 0, max: 1000, precision: 0.01 });
+  if (type.startsWith('timestamp')) return faker.date.past().toISOString();
+  if (type === 'date') return faker.date.past().toISOString().slice(0, 10);
+  if (type === 'json' || type === 'jsonb') return {};
+  if (type === 'array' || type.endsWith('[]')) return [];
+
+  let value: string;
+  if (name.includes('email')) value = `${faker.internet.userName().toLowerCase().replace(/[^a-z0-9._-]/g, '')}.${index}@supaseed.test`;
+  else if (name.endsWith('url')) value = faker.internet.url();
+  else if (name.includes('name')) value = faker.person.fullName();
+  else value = faker.lorem.words(3);
+
+  return column.maxLength ? value.slice(0, column.maxLength) : value;
+}
@@ -0,0 +1,129 @@
+/**
+ * Recorded Provider
+ * Replays responses captured by AIResponseCache so AI-backed generation runs
+ * deterministically without a model (CI, offline work, reproducing a bug)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../core/utils/logger';
+import type { CacheEntry } from './response-cache';
+import { matchesSchema } from './llm-provider';
+import type { ConnectionStatus, LLMProvider } from './llm-provider';
+
+export interface RecordedProviderConfig {
+  recordings: string | string[]; // exportCache() files, persisted entry files or directories of either
+  model?: string; // Prefer recordings made with this model when a prompt was recorded more than once
+}
+
+type Recording = Pick<CacheEntry, 'prompt' | 'response' | 'model'> & { timestamp: number };
+
+export class RecordedProvider implements LLMProvider {
+  readonly name = 'recorded';
+  private config: RecordedProviderConfig;
+  private recordings?: Map<string, Recording[]>;
+
+  constructor(config: RecordedProviderConfig) {
+    this.config = config;
+  }
+
+  async checkHealth(): Promise<ConnectionStatus> {
+    try {
+      const recordings = this.load();
+      const availableModels = [...new Set([...recordings.values()].flat().map(r => r.model))].sort();
+
+      return {
+        connected: recordings.size > 0,
+        version: `${recordings.size} recorded prompts`,
+        availableModels,
+        recommendedModel: this.config.model || availableModels[0],
+        ...(recordings.size === 0 && { error: 'No recorded responses found' })
+      };
+    } catch (error: any) {
+      return {
+        connected: false,
+        availableModels: [],
+        error: error.message
+      };
+    }
+  }
+
+  async generateText(prompt: string, system?: string): Promise<string> {
+    const response = this.replay(prompt);
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  async generateJSON<T = any>(prompt: string, system?: string, schema?: any): Promise<T> {
+    const response = this.replay(prompt);
+    const parsed = typeof response === 'string' ? JSON.parse(response) : response;
+
+    if (schema && !matchesSchema(parsed, schema)) {
+      throw new Error('Recorded JSON does not match expected schema');
+    }
+
+    return parsed;
+  }
+
+  private replay(prompt: string): any {
+    const candidates = this.load().get(prompt);
+    if (!candidates) {
+      throw new Error(`No recorded response for prompt: ${prompt.substring(0, 80)}${prompt.length > 80 ? '...' : ''}`);
+    }
+
+    const preferred = candidates.find(c => c.model === this.config.model) || candidates[0];
+    Logger.debug(`🤖 Replaying recorded ${preferred.model} response`);
+    return preferred.response;
+  }
+
+  private load(): Map<string, Recording[]> {
+    if (this.recordings) return this.recordings;
+
+    const recordings = new Map<string, Recording[]>();
+    const sources = Array.isArray(this.config.recordings) ? this.config.recordings : [this.config.recordings];
+
+    for (const source of sources) {
+      for (const file of this.recordingFiles(source)) {
+        const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+        const entries: CacheEntry[] = Array.isArray(data.entries) ? data.entries : [data];
+
+        for (const entry of entries) {
+          if (typeof entry?.prompt !== 'string' || entry.response === undefined) continue;
+
+          const list = recordings.get(entry.prompt) || [];
+          list.push({
+            prompt: entry.prompt,
+            response: entry.response,
+            model: entry.model || 'unknown',
+            timestamp: new Date(entry.timestamp).getTime() || 0
+          });
+          recordings.set(entry.prompt, list);
+        }
+      }
+    }
+
+    // Newest recording first; ties keep file order so replays never depend on timing
+    for (const list of recordings.values()) {
+      list.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    Logger.debug(`🤖 Loaded ${recordings.size} recorded prompts`);
+    this.recordings = recordings;
+    return recordings;
+  }
+
+  private recordingFiles(source: string): string[] {
+    const resolved = path.resolve(source);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Recording not found: ${source}`);
+    }
+
+    if (!fs.statSync(resolved).isDirectory()) {
+      return [resolved];
+    }
+
+    return fs.readdirSync(resolved)
+      .filter(name => name.endsWith('.json'))
+      .sort()
+      .map(name => path.join(resolved, name));
+  }
+}
@@ -60,6 +60,7 @@ export interface SearchOptions {
 export class AIResponseCache {
   private cache: Map<string, CacheEntry> = new Map();
   private options: Required<CacheOptions>;
+  private cleanupTimer?: NodeJS.Timeout;
   private stats = {
     hits: 0,
     misses: 0,
@@ -473,7 +474,7 @@ export class AIResponseCache {
    * Private: Start cleanup interval for expired entries
    */
   private startCleanupInterval(): void {
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       let removedCount = 0;
       
       for (const [key, entry] of this.cache.entries()) {
@@ -487,12 +488,16 @@ export class AIResponseCache {
         Logger.debug(`🧠 Cleaned up ${removedCount} expired cache entries`);
       }
     }, 5 * 60 * 1000); // Run every 5 minutes
+
+    // Never keep the process alive just to expire entries
+    this.cleanupTimer.unref();
   }
 
   /**
    * Destroy cache and cleanup
    */
   destroy(): void {
+    clearInterval(this.cleanupTimer);
     this.cache.clear();
     Logger.info('🧠 AI Cache destroyed');
   }
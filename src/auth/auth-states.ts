@@ -0,0 +1,220 @@
+/**
+ * Auth States
+ * Puts a configured share of generated users into the states auth UIs have to
+ * handle: unconfirmed emails, pending invites, bans, OAuth-only accounts,
+ * pending password resets and soft deletes. Which users get which state is
+ * drawn from the seed, so the same run always picks the same users.
+ */
+
+import type { createClient } from '@supabase/supabase-js';
+import { AuthStateProportions, AuthUsersConfig } from '../core/types/types';
+import { getDatabaseBackend } from '../core/database/database-backend';
+import { SeedDeterminism } from '../core/utils/seed-determinism';
+import { IdentityProviderType } from './auth-types';
+import { IdentityManager } from './identity-manager';
+import { BulkAuthUser } from './bulk-auth-writer';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export const AUTH_USER_STATES = ['unconfirmed', 'invited', 'banned', 'oauthOnly', 'passwordReset', 'softDeleted'] as const;
+
+export type AuthUserState = 'confirmed' | typeof AUTH_USER_STATES[number];
+
+// Providers IdentityManager.generateOAuthProviderData has realistic profiles for
+const OAUTH_PROVIDERS: IdentityProviderType[] = ['github', 'google', 'discord', 'apple'];
+const DEFAULT_OAUTH_PROVIDERS: IdentityProviderType[] = ['github', 'google'];
+const BAN_HOURS = 24 * 365 * 100;
+
+export interface AuthStateUser {
+  email: string;
+  password: string;
+  userMetadata?: Record<string, any>;
+}
+
+export interface AuthStateSeederOptions {
+  oauthProviders?: IdentityProviderType[]; // Default: github, google
+  determinism?: SeedDeterminism; // Clock and ids for bans, tokens and identities
+}
+
+/**
+ * Problems with `authUsers.states` and `authUsers.oauthProviders`, one message each
+ */
+export function validateAuthStates(config: AuthUsersConfig | undefined): string[] {
+  const problems: string[] = [];
+  const states = config?.states || {};
+
+  let total = 0;
+  for (const [state, share] of Object.entries(states)) {
+    if (!(AUTH_USER_STATES as readonly string[]).includes(state)) {
+      problems.push(`authUsers.states.${state}: unknown state, expected one of ${AUTH_USER_STATES.join(', ')}`);
+    } else if (typeof share !== 'number' || !(share >= 0 && share <= 1)) {
+      problems.push(`authUsers.states.${state}: must be a share between 0 and 1`);
+    } else {
+      total += share;
+    }
+  }
+  if (total > 1 + 1e-9) {
+    problems.push(`authUsers.states: shares add up to ${Number(total.toFixed(4))}, more than 1`);
+  }
+
+  const providers = config?.oauthProviders;
+  if (providers !== undefined) {
+    if (!Array.isArray(providers) || providers.length === 0) {
+      problems.push('authUsers.oauthProviders: must list at least one provider');
+    } else {
+      providers.filter(provider => !OAUTH_PROVIDERS.includes(provider)).forEach(provider =>
+        problems.push(`authUsers.oauthProviders: '${provider}' is not one of ${OAUTH_PROVIDERS.join(', ')}`));
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * The state of each of `count` users. Counts are the shares rounded so they
+ * add up exactly; the users in each state are drawn from the seed.
+ */
+export function assignAuthStates(
+  count: number,
+  proportions: AuthStateProportions | undefined,
+  determinism: SeedDeterminism
+): AuthUserState[] {
+  const assigned: AuthUserState[] = [];
+  let cumulative = 0;
+  for (const state of AUTH_USER_STATES) {
+    const start = Math.round(count * cumulative);
+    cumulative += proportions?.[state] || 0;
+    const end = Math.min(count, Math.round(count * cumulative));
+    for (let i = start; i < end; i++) assigned.push(state);
+  }
+  while (assigned.length < count) assigned.push('confirmed');
+
+  if (assigned.every(state => state === 'confirmed')) return assigned;
+
+  // Fisher-Yates on a stream of its own, so other draws from the seed do not shift
+  const stream = determinism.fork('auth-states');
+  for (let i = assigned.length - 1; i > 0; i--) {
+    const j = Math.floor(stream.random() * (i + 1));
+    [assigned[i], assigned[j]] = [assigned[j], assigned[i]];
+  }
+  return assigned;
+}
+
+export class AuthStateSeeder {
+  private identityManager: IdentityManager;
+
+  constructor(private client: SupabaseClient, private options: AuthStateSeederOptions = {}) {
+    this.identityManager = new IdentityManager(client, options.determinism);
+  }
+
+  /**
+   * A bulk auth row in the given state
+   */
+  toBulkUser(user: BulkAuthUser, state: AuthUserState): BulkAuthUser {
+    const at = user.createdAt || this.now();
+
+    switch (state) {
+      case 'unconfirmed':
+        return { ...user, confirmed: false };
+      case 'invited':
+        return { ...user, password: null, invitedAt: at };
+      case 'banned':
+        return { ...user, bannedUntil: this.bannedUntil() };
+      case 'oauthOnly':
+        return { ...user, password: null, emailIdentity: false, appMetadata: { ...user.appMetadata, ...this.oauthAppMetadata() } };
+      case 'passwordReset':
+        return { ...user, recoverySentAt: at };
+      case 'softDeleted':
+        return { ...user, deletedAt: at };
+      default:
+        return user;
+    }
+  }
+
+  /**
+   * Create an auth user in the given state through the admin API. Returns
+   * the user's id, or why it could not be created.
+   */
+  async createUser(user: AuthStateUser, state: AuthUserState): Promise<{ id?: string; error?: string }> {
+    const admin = this.client.auth.admin;
+
+    if (state === 'invited') {
+      // Invites cannot take an id or password; the user sets one when accepting.
+      // Generating the link creates the invite without sending an email
+      const { data, error } = await admin.generateLink({ type: 'invite', email: user.email, options: { data: user.userMetadata } });
+      return error || !data.user ? { error: `Invite failed: ${error?.message || 'no user returned'}` } : { id: data.user.id };
+    }
+
+    const { data, error } = await admin.createUser({
+      email: user.email,
+      user_metadata: user.userMetadata,
+      email_confirm: state !== 'unconfirmed',
+      ...(state === 'oauthOnly'
+        ? { app_metadata: this.oauthAppMetadata() }
+        : { password: user.password }),
+      ...(state === 'banned' && { ban_duration: `${BAN_HOURS}h` })
+    });
+    if (error || !data.user) {
+      return { error: `Auth user creation failed: ${error?.message || 'no user returned'}` };
+    }
+
+    const id = data.user.id;
+    const stateError = await this.finishState(id, user.email, state);
+    return stateError ? { id, error: stateError } : { id };
+  }
+
+  /**
+   * Give an OAuth-only user its provider identities in place of the email one
+   */
+  async addOAuthIdentities(userId: string, email: string): Promise<string | undefined> {
+    await getDatabaseBackend(this.client).query(
+      "DELETE FROM auth.identities WHERE user_id = $1 AND provider = 'email'",
+      [userId]
+    );
+
+    const providers = this.providers().map(provider => this.identityManager.generateOAuthProviderData(provider as any, email));
+    const results = await this.identityManager.createMultipleIdentities(userId, providers);
+    const errors = results.filter(result => !result.success).map(result => result.error);
+    return errors.length > 0 ? `OAuth identities failed: ${errors.join('; ')}` : undefined;
+  }
+
+  /**
+   * The steps after creation that only exist as their own admin calls
+   */
+  private async finishState(id: string, email: string, state: AuthUserState): Promise<string | undefined> {
+    const admin = this.client.auth.admin;
+
+    switch (state) {
+      case 'oauthOnly':
+        return this.addOAuthIdentities(id, email);
+      case 'passwordReset': {
+        // Generating the link stores the recovery token without sending an email
+        const { error } = await admin.generateLink({ type: 'recovery', email });
+        return error ? `Recovery link failed: ${error.message}` : undefined;
+      }
+      case 'softDeleted': {
+        const { error } = await admin.deleteUser(id, true);
+        return error ? `Soft delete failed: ${error.message}` : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private providers(): IdentityProviderType[] {
+    return this.options.oauthProviders || DEFAULT_OAUTH_PROVIDERS;
+  }
+
+  private oauthAppMetadata(): Record<string, any> {
+    const providers = this.providers();
+    return { provider: providers[0], providers };
+  }
+
+  private bannedUntil(): Date {
+    return new Date(this.now().getTime() + BAN_HOURS * 60 * 60 * 1000);
+  }
+
+  private now(): Date {
+    return this.options.determinism ? this.options.determinism.date() : new Date();
+  }
+}
@@ -16,6 +16,7 @@ export interface AuthUser {
   createdAt: string;
   updatedAt: string;
   lastSignInAt?: string;
+  invitedAt?: string;
   userMetadata?: Record<string, any>;
   appMetadata?: Record<string, any>;
   role?: string;
@@ -0,0 +1,232 @@
+/**
+ * Bulk Auth Writer
+ * Writes many auth users in one batch instead of one `auth.admin.createUser`
+ * call each. Rows go straight into `auth.users` and `auth.identities` over a
+ * direct connection, shaped the way GoTrue stores them: bcrypt hashes from
+ * pgcrypto, empty token columns rather than NULL, and an email identity per
+ * user, so seeded users can sign in with their password. Both tables are
+ * written in one transaction. Only local stacks are written to, since this
+ * bypasses Auth's own checks.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { getDatabaseBackend, DatabaseBackend } from '../core/database/database-backend';
+import { isLocalSupabaseEnvironment } from '../core/utils/enhanced-supabase-client';
+import { SeedDeterminism } from '../core/utils/seed-determinism';
+import { Logger } from '../core/utils/logger';
+
+const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+const DEFAULT_PASSWORD = 'password123';
+const DEFAULT_BCRYPT_COST = 10; // GoTrue's own cost
+
+export interface BulkAuthUser {
+  id?: string;
+  email: string;
+  password?: string | null; // Default: the writer's defaultPassword; null for users without one
+  confirmed?: boolean; // Email confirmed (default: true)
+  userMetadata?: Record<string, any>; // Stored as raw_user_meta_data
+  appMetadata?: Record<string, any>; // Merged over { provider: 'email', providers: ['email'] }
+  emailIdentity?: boolean; // Write an email identity (default: true)
+  invitedAt?: Date; // Pending invite: unconfirmed with a confirmation token
+  bannedUntil?: Date;
+  recoverySentAt?: Date; // Pending password reset with a recovery token
+  deletedAt?: Date; // Soft deleted the way GoTrue does it (see softDeletedUserColumns)
+  createdAt?: Date;
+}
+
+export interface BulkAuthWriterOptions {
+  supabaseUrl: string; // Must be a local stack
+  defaultPassword?: string; // Default: password123
+  bcryptCost?: number; // Default: 10
+  determinism?: SeedDeterminism; // Ids and timestamps from the seed run
+}
+
+export interface BulkAuthResult {
+  created: Array<{ id: string; email: string; password: string | null }>;
+  failed: Array<{ email: string; error: string }>;
+}
+
+/**
+ * What GoTrue's soft delete (`auth.admin.deleteUser(id, true)`) writes over a
+ * user: email and phone replaced by a hash of the user id and the old value,
+ * no password, tokens and metadata cleared. It deletes the user's identities
+ * too, so the address can sign up again.
+ */
+export function softDeletedUserColumns(id: string, email: string | null, deletedAt: any): Record<string, any> {
+  const obfuscate = (value: string) => createHash('sha256').update(id + value).digest('base64url');
+
+  return {
+    email: obfuscate(email || ''),
+    phone: obfuscate('').slice(0, 15),
+    email_change: obfuscate(''),
+    phone_change: obfuscate('').slice(0, 15),
+    encrypted_password: null,
+    confirmation_token: '',
+    recovery_token: '',
+    email_change_token_current: '',
+    email_change_token_new: '',
+    phone_change_token: '',
+    raw_app_meta_data: {},
+    raw_user_meta_data: {},
+    deleted_at: deletedAt
+  };
+}
+
+export class BulkAuthWriter {
+  private backend: DatabaseBackend;
+  private hashes = new Map<string, string>();
+
+  constructor(client: any, private options: BulkAuthWriterOptions) {
+    this.backend = getDatabaseBackend(client);
+  }
+
+  /**
+   * Whether this client and project can take bulk auth writes: a direct
+   * database connection to a local stack
+   */
+  static supports(client: any, supabaseUrl: string): boolean {
+    return getDatabaseBackend(client).kind === 'postgres' && isLocalSupabaseEnvironment(supabaseUrl);
+  }
+
+  async createUsers(users: BulkAuthUser[]): Promise<BulkAuthResult> {
+    if (this.backend.kind !== 'postgres' || !isLocalSupabaseEnvironment(this.options.supabaseUrl)) {
+      throw new Error('Bulk auth writes need a direct database connection (databaseUrl) to a local Supabase stack');
+    }
+
+    const failed: BulkAuthResult['failed'] = [];
+    const pending = await this.withoutTakenEmails(users, failed);
+    if (pending.length === 0) return { created: [], failed };
+
+    const passwords = pending.map(user => this.passwordFor(user)).filter((password): password is string => password !== null);
+    const hashes = await this.hashPasswords(passwords);
+    const now = this.options.determinism ? this.options.determinism.date() : new Date();
+
+    const userRows = pending.map(user => {
+      const password = this.passwordFor(user);
+      return this.toUserRow(user, password === null ? '' : hashes.get(password)!, now);
+    });
+    const identityRows = userRows
+      .filter((_, index) => pending[index].emailIdentity !== false && !pending[index].deletedAt)
+      .map(row => this.toIdentityRow(row));
+
+    const write = async (backend: DatabaseBackend) => {
+      const users = await backend.bulkInsert('auth.users', userRows);
+      if (identityRows.length > 0) {
+        await backend.bulkInsert('auth.identities', identityRows);
+      }
+      return users;
+    };
+    // A user without its email identity cannot sign in, so both land or neither does
+    const inserted = this.backend.transaction ? await this.backend.transaction(write) : await write(this.backend);
+    Logger.debug(`Bulk inserted ${inserted.length} auth users`);
+
+    return {
+      // The address as given, since soft deleted users no longer have it
+      created: userRows.map((row, index) => ({ id: row.id, email: pending[index].email.toLowerCase(), password: this.passwordFor(pending[index]) })),
+      failed
+    };
+  }
+
+  /**
+   * Drop users whose email is already registered or repeated in the batch,
+   * reporting them the way the admin API would
+   */
+  private async withoutTakenEmails(users: BulkAuthUser[], failed: BulkAuthResult['failed']): Promise<BulkAuthUser[]> {
+    const emails = users.map(user => user.email.toLowerCase());
+    const existing = await this.backend.query<{ email: string }>(
+      'SELECT lower(email) AS email FROM auth.users WHERE lower(email) = ANY($1::text[])',
+      [emails]
+    );
+    const taken = new Set(existing.map(row => row.email));
+
+    return users.filter(user => {
+      const email = user.email.toLowerCase();
+      if (taken.has(email)) {
+        failed.push({ email: user.email, error: 'A user with this email address has already been registered' });
+        return false;
+      }
+      taken.add(email);
+      return true;
+    });
+  }
+
+  /**
+   * bcrypt each distinct password once in the database; GoTrue verifies any
+   * `$2a$` hash regardless of salt, so users sharing a password share a hash
+   */
+  private async hashPasswords(passwords: string[]): Promise<Map<string, string>> {
+    for (const password of new Set(passwords)) {
+      if (this.hashes.has(password)) continue;
+
+      const [row] = await this.backend.query<{ hash: string }>(
+        "SELECT extensions.crypt($1, extensions.gen_salt('bf', $2)) AS hash",
+        [password, this.options.bcryptCost ?? DEFAULT_BCRYPT_COST]
+      );
+      if (!row?.hash) {
+        throw new Error('Could not hash passwords: is pgcrypto installed in the extensions schema?');
+      }
+      this.hashes.set(password, row.hash);
+    }
+    return this.hashes;
+  }
+
+  private passwordFor(user: BulkAuthUser): string | null {
+    return user.password === undefined ? this.options.defaultPassword ?? DEFAULT_PASSWORD : user.password;
+  }
+
+  private toUserRow(user: BulkAuthUser, hash: string, now: Date): Record<string, any> {
+    const createdAt = user.createdAt || now;
+    const confirmed = user.confirmed !== false && !user.invitedAt;
+    const email = user.email.toLowerCase();
+    const id = user.id || this.newId();
+
+    const row: Record<string, any> = {
+      instance_id: NIL_UUID,
+      id,
+      aud: 'authenticated',
+      role: 'authenticated',
+      email,
+      encrypted_password: hash,
+      email_confirmed_at: confirmed ? createdAt : null,
+      confirmation_sent_at: confirmed ? null : user.invitedAt || createdAt,
+      invited_at: user.invitedAt || null,
+      recovery_sent_at: user.recoverySentAt || null,
+      banned_until: user.bannedUntil || null,
+      deleted_at: null,
+      raw_app_meta_data: { provider: 'email', providers: ['email'], ...user.appMetadata },
+      raw_user_meta_data: user.userMetadata || {},
+      created_at: createdAt,
+      updated_at: createdAt,
+      // GoTrue scans these as strings and fails on NULL
+      confirmation_token: user.invitedAt ? this.tokenHash(email) : '',
+      recovery_token: user.recoverySentAt ? this.tokenHash(email) : '',
+      email_change_token_new: '',
+      email_change: ''
+    };
+    return user.deletedAt ? { ...row, ...softDeletedUserColumns(id, email, user.deletedAt) } : row;
+  }
+
+  /**
+   * A token the way GoTrue stores them: sha224 of the email and a one-time code
+   */
+  private tokenHash(email: string): string {
+    return createHash('sha224').update(email + this.newId()).digest('hex');
+  }
+
+  private newId(): string {
+    return this.options.determinism ? this.options.determinism.uuid() : randomUUID();
+  }
+
+  private toIdentityRow(user: Record<string, any>): Record<string, any> {
+    return {
+      id: this.newId(),
+      user_id: user.id,
+      provider_id: user.id,
+      provider: 'email',
+      identity_data: { sub: user.id, email: user.email, email_verified: user.email_confirmed_at !== null },
+      last_sign_in_at: user.created_at,
+      created_at: user.created_at,
+      updated_at: user.created_at
+    };
+  }
+}
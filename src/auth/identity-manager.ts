@@ -5,7 +5,10 @@
  */
 
 import type { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
 import { Logger } from '../core/utils/logger';
+import { getDatabaseBackend } from '../core/database/database-backend';
+import { SeedDeterminism } from '../core/utils/seed-determinism';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -42,9 +45,11 @@ export interface IdentityValidationResult {
 
 export class IdentityManager {
   private client: SupabaseClient;
+  private determinism?: SeedDeterminism;
 
-  constructor(client: SupabaseClient) {
+  constructor(client: SupabaseClient, determinism?: SeedDeterminism) {
     this.client = client;
+    this.determinism = determinism;
   }
 
   /**
@@ -82,12 +87,15 @@ export class IdentityManager {
       // Format identity record for auth.identities table
       const identityRecord = this.formatIdentityRecord(identityData);
 
-      // Insert identity record
-      const { data: identity, error } = await this.client
-        .from('auth.identities')
-        .insert(identityRecord)
-        .select()
-        .single();
+      // Insert identity record; PostgREST rarely exposes the auth schema, so a
+      // direct connection is used when the client has one
+      let identity: any;
+      let error: { message: string } | null = null;
+      try {
+        [identity] = await getDatabaseBackend(this.client).bulkInsert('auth.identities', [identityRecord]);
+      } catch (insertError: any) {
+        error = insertError;
+      }
 
       if (error) {
         // Handle common MakerKit identity constraints
@@ -132,21 +140,24 @@ export class IdentityManager {
 
     const results: IdentityCreationResult[] = [];
 
+    const now = this.now();
     for (const provider of providers) {
       const identityData: IdentityData = {
         userId,
         provider: provider.provider,
         providerId: provider.providerId,
         providerMetadata: provider.metadata,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
+        createdAt: now,
+        updatedAt: now
       };
 
       const result = await this.createIdentity(identityData);
       results.push(result);
 
-      // Short delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100));
+      // Short delay to avoid rate limiting (direct connections have none)
+      if (getDatabaseBackend(this.client).kind === 'postgrest') {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
     }
 
     const successCount = results.filter(r => r.success).length;
@@ -165,10 +176,10 @@ export class IdentityManager {
       case 'google':
         return {
           provider: 'google',
-          providerId: `google_${baseId}_${Math.random().toString(36).substr(2, 9)}`,
+          providerId: `google_${baseId}_${this.random().toString(36).substr(2, 9)}`,
           metadata: {
             iss: 'https://accounts.google.com',
-            sub: `google_${baseId}_${Math.random().toString(36).substr(2, 9)}`,
+            sub: `google_${baseId}_${this.random().toString(36).substr(2, 9)}`,
             email,
             email_verified: true,
             name: this.extractNameFromEmail(email),
@@ -182,45 +193,45 @@ export class IdentityManager {
       case 'github':
         return {
           provider: 'github',
-          providerId: `github_${baseId}_${Math.random().toString(36).substr(2, 9)}`,
+          providerId: `github_${baseId}_${this.random().toString(36).substr(2, 9)}`,
           metadata: {
             login: baseId,
-            id: Math.floor(Math.random() * 100000000),
-            avatar_url: `https://avatars.githubusercontent.com/u/${Math.floor(Math.random() * 100000000)}`,
+            id: Math.floor(this.random() * 100000000),
+            avatar_url: `https://avatars.githubusercontent.com/u/${Math.floor(this.random() * 100000000)}`,
             gravatar_id: '',
             url: `https://api.github.com/users/${baseId}`,
             html_url: `https://github.com/${baseId}`,
             name: this.extractNameFromEmail(email),
             email,
             bio: null,
-            public_repos: Math.floor(Math.random() * 50),
-            followers: Math.floor(Math.random() * 1000),
-            following: Math.floor(Math.random() * 500)
+            public_repos: Math.floor(this.random() * 50),
+            followers: Math.floor(this.random() * 1000),
+            following: Math.floor(this.random() * 500)
           }
         };
 
       case 'discord':
         return {
           provider: 'discord',
-          providerId: `discord_${Math.random().toString(36).substr(2, 18)}`,
+          providerId: `discord_${this.random().toString(36).substr(2, 18)}`,
           metadata: {
-            id: Math.random().toString(36).substr(2, 18),
+            id: this.random().toString(36).substr(2, 18),
             username: baseId,
-            discriminator: String(Math.floor(Math.random() * 9999)).padStart(4, '0'),
-            avatar: `avatar_${Math.random().toString(36).substr(2, 6)}`,
+            discriminator: String(Math.floor(this.random() * 9999)).padStart(4, '0'),
+            avatar: `avatar_${this.random().toString(36).substr(2, 6)}`,
             email,
             verified: true,
             locale: 'en-US',
-            mfa_enabled: Math.random() > 0.7
+            mfa_enabled: this.random() > 0.7
           }
         };
 
       case 'apple':
         return {
           provider: 'apple',
-          providerId: `apple_${baseId}.${Math.random().toString(36).substr(2, 6)}`,
+          providerId: `apple_${baseId}.${this.random().toString(36).substr(2, 6)}`,
           metadata: {
-            sub: `${baseId}.${Math.random().toString(36).substr(2, 6)}`,
+            sub: `${baseId}.${this.random().toString(36).substr(2, 6)}`,
             email,
             email_verified: 'true',
             is_private_email: 'false',
@@ -312,6 +323,15 @@ export class IdentityManager {
    */
   private async findExistingIdentity(userId: string, provider: string): Promise<any | null> {
     try {
+      const backend = getDatabaseBackend(this.client);
+      if (backend.kind === 'postgres') {
+        const [identity] = await backend.query(
+          'SELECT * FROM auth.identities WHERE user_id = $1 AND provider = $2 LIMIT 1',
+          [userId, provider]
+        );
+        return identity || null;
+      }
+
       const { data, error } = await this.client
         .from('auth.identities')
         .select('*')
@@ -337,11 +357,12 @@ export class IdentityManager {
    * Format identity data for auth.identities table structure
    */
   private formatIdentityRecord(identityData: IdentityData): any {
-    const now = new Date().toISOString();
+    const now = this.now();
 
     return {
-      id: `${identityData.userId}-${identityData.provider}`,
+      id: this.determinism ? this.determinism.uuid() : randomUUID(),
       user_id: identityData.userId,
+      provider_id: identityData.providerId,
       identity_data: {
         sub: identityData.providerId,
         email: identityData.email,
@@ -354,6 +375,17 @@ export class IdentityManager {
     };
   }
 
+  /**
+   * Clock and random draws from the seed run when there is one
+   */
+  private now(): string {
+    return (this.determinism ? this.determinism.date() : new Date()).toISOString();
+  }
+
+  private random(): number {
+    return this.determinism ? this.determinism.random() : Math.random();
+  }
+
   /**
    * Extract a reasonable name from email address
    */
@@ -0,0 +1,202 @@
+/**
+ * User Tokens
+ * Access tokens for seeded users, signed locally with the project's JWT secret
+ * instead of going through the sign-in flow. Claims follow Supabase Auth's
+ * access tokens, so PostgREST, Storage and `auth.jwt()` in policies treat them
+ * like a real session. The first `amr` entry is how the user signs in, read
+ * from their identities; users with a verified MFA factor get `aal2` and an
+ * `amr` entry for the factor.
+ */
+
+import type { createClient } from '@supabase/supabase-js';
+import { AuthIdentity, AuthUser, MFAFactor } from './auth-types';
+import { LOCAL_JWT_SECRET, signJWT } from '../core/utils/crypto-utils';
+import { ScenarioAliases } from '../features/scenarios/scenario-types';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const DEFAULT_EXPIRES_IN = 60 * 60;
+const AUTH_PAGE_SIZE = 1000;
+
+export interface MintUserTokenOptions {
+  jwtSecret?: string; // Default: SUPABASE_JWT_SECRET, then the local stack's secret
+  supabaseUrl?: string; // Used for the `iss` claim
+  mfaFactors?: MFAFactor[]; // Verified factors raise the token to aal2
+  identities?: Array<Pick<AuthIdentity, 'provider'>>; // Default: the providers in the user's app_metadata
+  expiresIn?: number; // Seconds (default 3600)
+  sessionId?: string;
+  now?: number; // Issue time in seconds (default: the real clock, which Auth checks against)
+}
+
+export interface MintedUserToken {
+  accessToken: string;
+  tokenType: 'bearer';
+  expiresIn: number;
+  expiresAt: number;
+  user: { id: string; email?: string };
+  claims: Record<string, any>;
+}
+
+export interface SeededAuthUser {
+  authUser: AuthUser;
+  mfaFactors: MFAFactor[];
+  identities: AuthIdentity[];
+}
+
+type AmrEntry = { method: string; provider?: string; timestamp: number };
+
+/**
+ * Sign an access token for a user, e.g. the `authUser` and `mfaFactors` of a
+ * `createCompleteUser` result
+ */
+export function mintUserToken(
+  user: Pick<AuthUser, 'id'> & Partial<AuthUser>,
+  options: MintUserTokenOptions = {}
+): MintedUserToken {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const expiresIn = options.expiresIn ?? DEFAULT_EXPIRES_IN;
+  const verified = (options.mfaFactors || []).filter(factor => factor.userId === user.id && factor.status === 'verified');
+
+  const amr: AmrEntry[] = [signInMethod(user, options.identities, now)];
+  if (verified.length > 0) {
+    amr.push({ method: verified[0].factorType === 'totp' ? 'totp' : 'mfa/phone', timestamp: now });
+  }
+
+  const claims: Record<string, any> = {
+    aud: user.aud || 'authenticated',
+    exp: now + expiresIn,
+    iat: now,
+    ...(options.supabaseUrl && { iss: `${options.supabaseUrl.replace(/\/+$/, '')}/auth/v1` }),
+    sub: user.id,
+    email: user.email,
+    phone: user.phone || '',
+    app_metadata: user.appMetadata || { provider: 'email', providers: ['email'] },
+    user_metadata: user.userMetadata || {},
+    role: user.role || 'authenticated',
+    aal: verified.length > 0 ? 'aal2' : 'aal1',
+    amr,
+    ...(options.sessionId && { session_id: options.sessionId }),
+    is_anonymous: false
+  };
+
+  return {
+    accessToken: signJWT(claims, options.jwtSecret || process.env.SUPABASE_JWT_SECRET || LOCAL_JWT_SECRET),
+    tokenType: 'bearer',
+    expiresIn,
+    expiresAt: now + expiresIn,
+    user: { id: user.id, email: user.email },
+    claims
+  };
+}
+
+/**
+ * How the user signs in, as Auth records it: invited users accept with a
+ * one-time code, users without an email identity through their OAuth
+ * provider (or a phone code), everyone else with a password
+ */
+function signInMethod(
+  user: Partial<AuthUser>,
+  identities: Array<Pick<AuthIdentity, 'provider'>> | undefined,
+  now: number
+): AmrEntry {
+  const providers: string[] = identities
+    ? identities.map(identity => identity.provider)
+    : user.appMetadata?.providers || [];
+
+  if (user.invitedAt) {
+    return { method: 'otp', timestamp: now };
+  }
+  if (providers.length === 0 || providers.includes('email')) {
+    return { method: 'password', timestamp: now };
+  }
+  if (providers.includes('phone')) {
+    return { method: 'otp', timestamp: now };
+  }
+  return { method: 'oauth', provider: providers[0], timestamp: now };
+}
+
+/**
+ * Look up a seeded user with their MFA factors and identities by email or
+ * scenario alias
+ */
+export async function findSeededUser(
+  client: SupabaseClient,
+  reference: string,
+  aliases?: ScenarioAliases
+): Promise<SeededAuthUser> {
+  const alias = aliases?.users[reference];
+  if (!alias && !reference.includes('@')) {
+    throw new Error(aliases
+      ? `No user with alias '${reference}' in scenario ${aliases.scenario}`
+      : `'${reference}' is not an email and no scenario aliases are loaded`);
+  }
+
+  const user = alias
+    ? await getUserById(client, alias.id)
+    : await findUserByEmail(client, reference);
+  if (!user) {
+    throw new Error(`User ${alias ? `${reference} (${alias.id})` : reference} does not exist in this project`);
+  }
+
+  return { authUser: toAuthUser(user), mfaFactors: toMfaFactors(user), identities: toIdentities(user) };
+}
+
+async function getUserById(client: SupabaseClient, id: string): Promise<any | undefined> {
+  const { data, error } = await client.auth.admin.getUserById(id);
+  if (error && error.status !== 404) throw new Error(`Could not read user ${id}: ${error.message}`);
+  return data?.user || undefined;
+}
+
+async function findUserByEmail(client: SupabaseClient, email: string): Promise<any | undefined> {
+  for (let page = 1; ; page++) {
+    const { data, error } = await client.auth.admin.listUsers({ page, perPage: AUTH_PAGE_SIZE });
+    if (error) throw new Error(`Could not list users: ${error.message}`);
+
+    const users: any[] = data?.users || [];
+    const match = users.find(user => user.email?.toLowerCase() === email.toLowerCase());
+    if (match || users.length < AUTH_PAGE_SIZE) return match;
+  }
+}
+
+function toAuthUser(user: any): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    emailConfirmed: user.email_confirmed_at != null,
+    phone: user.phone || undefined,
+    phoneConfirmed: user.phone_confirmed_at != null,
+    createdAt: user.created_at,
+    updatedAt: user.updated_at || user.created_at,
+    lastSignInAt: user.last_sign_in_at || undefined,
+    invitedAt: user.invited_at || undefined,
+    userMetadata: user.user_metadata,
+    appMetadata: user.app_metadata,
+    role: user.role,
+    aud: user.aud
+  };
+}
+
+function toMfaFactors(user: any): MFAFactor[] {
+  return (user.factors || []).map((factor: any) => ({
+    id: factor.id,
+    userId: user.id,
+    factorType: factor.factor_type,
+    status: factor.status,
+    friendlyName: factor.friendly_name,
+    phone: factor.phone,
+    createdAt: factor.created_at,
+    updatedAt: factor.updated_at
+  }));
+}
+
+function toIdentities(user: any): AuthIdentity[] {
+  return (user.identities || []).map((identity: any) => ({
+    id: identity.identity_id || identity.id,
+    userId: user.id,
+    identityData: identity.identity_data,
+    provider: identity.provider,
+    lastSignInAt: identity.last_sign_in_at || undefined,
+    createdAt: identity.created_at,
+    updatedAt: identity.updated_at
+  }));
+}
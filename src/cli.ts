@@ -3,16 +3,26 @@
 import { program } from 'commander';
 import ora from 'ora';
 import { SupaSeedFramework, createDefaultConfig } from './index';
-import { FrameworkAdapter } from './features/integration/framework-adapter';
+import { FrameworkAdapter, createBuiltInStrategies } from './features/integration/framework-adapter';
+import { LoadedStrategy, loadStrategies } from './features/integration/strategy-loader';
+import { STRATEGY_API_VERSION } from './features/integration/strategy-interface';
+import { parseSchemaSql } from './features/integration/schema-sql';
+import { Repository, TemplateMarketplace, parseRepository } from './features/generation/template-marketplace';
+import { LLMProvider, LLMProviderConfig, LLM_PROVIDER_TYPES, createLLMProvider } from './ai/llm-provider';
 import { ConfigManager } from './core/config/config-manager';
 import { createClient } from '@supabase/supabase-js';
 import { loadConfiguration } from './config';
 import { Logger } from './core/utils/logger';
 import { createEnhancedSupabaseClient } from './core/utils/enhanced-supabase-client';
+import { ManifestStore } from './features/manifest/run-manifest';
+import { compareWithGolden } from './features/output/determinism-check';
+import type { DryRunReport } from './features/output/dry-run-planner';
+import { RLS_OPERATIONS, RLS_PERSONAS, RlsPersona, writeRlsPgTap } from './features/rls/rls-matrix';
 // Extension commands not available in v2.4.1
 import type { SeedConfig } from './core/types/types';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as readline from 'readline';
 
 // Read version from package.json
 const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '../package.json'), 'utf8'));
@@ -34,6 +44,18 @@ async function main() {
     .option('--cleanup', 'Clean up existing seed data first', false)
     .option('--env <environment>', 'Environment (local|staging|production)')
     .option('--seed-value <string>', 'Seed value for deterministic data')
+    .option('--deterministic', 'Pin the clock and generated ids to the seed so reruns produce identical data')
+    .option('--top-up', 'Only create what earlier runs did not, up to the configured counts')
+    .option('--scenario <file>', 'YAML or JSON scenario declaring the exact users, teams and records to seed')
+    .option('--aliases-out <file>', 'Where to write the scenario alias -> id mapping (default: <scenario>.aliases.json)')
+    .option('--emit-fixtures <file>', 'Write seeded emails, passwords, ids, slugs and TOTP secrets to a .json, .ts or .env file')
+    .option('--mode <mode>', 'Seeding mode: domain (built-in seeders) or tables (every table in the schema)')
+    .option('--output <format>', 'Where to write data: db (Supabase API) or sql (INSERT statements)', 'db')
+    .option('--out <file>', 'File for --output sql (default: seed.sql)')
+    .option('--database-url <url>', 'Direct Postgres connection for introspection and bulk inserts (overrides config)')
+    .option('--dry-run', 'Plan the seed against the database without writing: row counts, samples, predicted violations', false)
+    .option('--i-know-this-is-production', 'Allow seeding a project that is not a local Supabase (it must be in safety.allowedProjects)')
+    .option('--confirm-project <ref>', 'Project ref typed back for remote projects, instead of the prompt')
     .option('--verbose', 'Enable verbose logging')
     .action(async (options) => {
       const spinner = ora('Initializing seeding process...').start();
@@ -57,14 +79,30 @@ async function main() {
           config = {
             supabaseUrl: flexConfig.supabaseUrl,
             supabaseServiceKey: flexConfig.supabaseServiceKey,
+            databaseUrl: configResult.config.databaseUrl,
             environment: options.env || flexConfig.environment,
             userCount: options.users ? parseInt(options.users) : flexConfig.userCount,
             setupsPerUser: options.setups ? parseInt(options.setups) : flexConfig.setupsPerUser,
             imagesPerSetup: options.images ? parseInt(options.images) : flexConfig.imagesPerSetup,
             enableRealImages: options.realImages || flexConfig.enableRealImages,
             seed: options.seedValue || flexConfig.seed,
+            deterministic: configResult.config.deterministic,
+            topUp: configResult.config.topUp,
+            scenario: configResult.config.scenario,
+            scenarioAliasesOut: flexConfig.scenarioAliasesOut,
+            emitFixtures: flexConfig.emitFixtures,
             emailDomain: flexConfig.emailDomain || 'supaseed.test',
             schema: flexConfig.schema, // Pass through schema configuration
+            tables: flexConfig.tables,
+            seeding: flexConfig.seeding,
+            seeders: flexConfig.seeders,
+            strategies: flexConfig.strategies,
+            storage: configResult.config.storage,
+            hooks: flexConfig.hooks,
+            safety: flexConfig.safety,
+            cardinality: flexConfig.cardinality,
+            impersonation: flexConfig.impersonation,
+            authUsers: flexConfig.authUsers,
           };
           
           spinner.succeed(`Configuration loaded from: ${options.config}`);
@@ -86,8 +124,70 @@ async function main() {
           spinner.succeed(`Configuration loaded from: ${configResult.source}`);
         }
         
+        if (options.databaseUrl) config.databaseUrl = options.databaseUrl;
+        if (options.deterministic) config.deterministic = true;
+        if (options.topUp) config.topUp = true;
+        if (options.scenario) config.scenario = options.scenario;
+        if (options.aliasesOut) config.scenarioAliasesOut = options.aliasesOut;
+        if (options.emitFixtures) config.emitFixtures = options.emitFixtures;
+        
+        if (options.mode) {
+          if (!['domain', 'tables'].includes(options.mode)) {
+            throw new Error(`Invalid --mode '${options.mode}'. Must be 'domain' or 'tables'.`);
+          }
+          config.seeding = { ...config.seeding, mode: options.mode };
+        }
+        
+        if (!['db', 'sql'].includes(options.output)) {
+          throw new Error(`Invalid --output '${options.output}'. Must be 'db' or 'sql'.`);
+        }
+        
+        if (config.emitFixtures && (options.dryRun || options.output === 'sql')) {
+          throw new Error('--emit-fixtures needs a seed that writes to the database');
+        }
+        
+        if (options.dryRun) {
+          if (options.output === 'sql') {
+            throw new Error('--dry-run cannot be combined with --output sql');
+          }
+          
+          spinner.text = 'Planning seed without writing...';
+          spinner.stop(); // Seeders print their own progress
+          
+          const planner = new SupaSeedFramework(config, configResult.baseDir);
+          let report: DryRunReport;
+          try {
+            report = await planner.dryRun();
+          } finally {
+            await planner.close();
+          }
+          
+          printDryRunReport(report);
+          if (report.violations.length > 0) process.exit(1);
+          return;
+        }
+        
+        if (options.output === 'sql') {
+          // SQL output never connects, so credentials are optional
+          if (!config.supabaseUrl.startsWith('http')) config.supabaseUrl = 'http://127.0.0.1:54321';
+          if (!config.supabaseServiceKey || config.supabaseServiceKey === 'missing-key') config.supabaseServiceKey = 'offline';
+          
+          spinner.text = 'Rendering seed data as SQL...';
+          spinner.stop(); // Seeders print their own progress
+          
+          const sql = await new SupaSeedFramework(config, configResult.baseDir).generateSql({ version: packageJson.version });
+          
+          const outFile = options.out || 'seed.sql';
+          fs.writeFileSync(outFile, sql);
+          Logger.success(`📝 SQL seed written to ${outFile}`);
+          return;
+        }
+        
         spinner.text = 'Connecting to database...';
-        const seeder = new SupaSeedFramework(config);
+        const seeder = new SupaSeedFramework(config, configResult.baseDir);
+        
+        spinner.text = 'Checking target project...';
+        await enforceSafety(seeder, options.cleanup ? 'seed --cleanup' : 'seed', options.cleanup, options, spinner);
         
         // Validate column mappings if schema configuration is present
         if (config.schema && configResult.source === 'config-file' && configResult.flexConfig) {
@@ -134,7 +234,11 @@ async function main() {
         spinner.text = 'Starting database seeding...';
         spinner.stop(); // Stop spinner as seeding has its own output
         
-        await seeder.seed();
+        try {
+          await seeder.seed();
+        } finally {
+          await seeder.close();
+        }
         
         Logger.success('🎉 Seeding completed successfully!');
       } catch (error: any) {
@@ -146,13 +250,15 @@ async function main() {
 
   program
     .command('cleanup')
-    .description('Clean up all seed data')
+    .description('Roll back every recorded seed run for this project')
     .option('--force', 'Force cleanup without confirmation')
     .option('-c, --config <path>', 'Path to configuration file', 'supa-seed.config.json')
+    .option('--i-know-this-is-production', 'Allow cleaning up a project that is not a local Supabase')
+    .option('--confirm-project <ref>', 'Project ref typed back for remote projects, instead of the prompt')
     .action(async (options) => {
       try {
         if (!options.force) {
-          console.log('⚠️  This will remove all seed data. Use --force to confirm.');
+          console.log('⚠️  This will roll back every recorded seed run. Use --force to confirm.');
           process.exit(1);
         }
 
@@ -174,6 +280,7 @@ async function main() {
             seed: flexConfig.seed,
             emailDomain: flexConfig.emailDomain || 'supaseed.test',
             schema: flexConfig.schema,
+            safety: flexConfig.safety,
           };
         } else {
           // Use config from environment or defaults
@@ -181,6 +288,7 @@ async function main() {
         }
 
         const seeder = new SupaSeedFramework(config);
+        await enforceSafety(seeder, 'cleanup', true, options);
         await seeder.cleanup();
         
         console.log('✅ Cleanup completed');
@@ -190,6 +298,277 @@ async function main() {
       }
     });
 
+  program
+    .command('rollback')
+    .description('Delete exactly what a recorded seed run inserted')
+    .option('-r, --run <id>', 'Run id to roll back (see --list)')
+    .option('--latest', 'Roll back the most recent run that has not been rolled back')
+    .option('--list', 'List recorded seed runs')
+    .option('--dry-run', 'Show what would be deleted without deleting anything')
+    .option('-c, --config <path>', 'Path to configuration file', 'supa-seed.config.json')
+    .option('--i-know-this-is-production', 'Allow rolling back on a project that is not a local Supabase')
+    .option('--confirm-project <ref>', 'Project ref typed back for remote projects, instead of the prompt')
+    .action(async (options) => {
+      try {
+        const configResult = loadConfiguration(options.config);
+        let config: SeedConfig;
+        
+        if (configResult.source === 'config-file' && configResult.flexConfig) {
+          const flexConfig = configResult.flexConfig;
+          config = {
+            supabaseUrl: flexConfig.supabaseUrl,
+            supabaseServiceKey: flexConfig.supabaseServiceKey,
+            environment: flexConfig.environment,
+            userCount: flexConfig.userCount,
+            setupsPerUser: flexConfig.setupsPerUser,
+            imagesPerSetup: flexConfig.imagesPerSetup,
+            enableRealImages: flexConfig.enableRealImages,
+            seed: flexConfig.seed,
+            emailDomain: flexConfig.emailDomain || 'supaseed.test',
+            schema: flexConfig.schema,
+            safety: flexConfig.safety,
+          };
+        } else {
+          config = configResult.config;
+        }
+
+        const seeder = new SupaSeedFramework(config);
+        const runs = seeder.listRuns();
+
+        if (options.list) {
+          if (runs.length === 0) {
+            console.log('ℹ️  No recorded seed runs for this project');
+            return;
+          }
+          console.log('🧾 Recorded seed runs (newest first):');
+          for (const manifest of runs) {
+            const summary = ManifestStore.summarize(manifest);
+            console.log(`   • ${manifest.runId} [${manifest.status}] ${manifest.startedAt}`);
+            console.log(`     ${summary.totalRows} rows, ${summary.authUsers} auth users, ${summary.storageObjects} files`);
+          }
+          return;
+        }
+
+        let runId: string | undefined = options.run;
+        if (!runId && options.latest) {
+          runId = runs.find(manifest => manifest.status !== 'rolled_back')?.runId;
+          if (!runId) {
+            console.log('ℹ️  No seed runs left to roll back');
+            return;
+          }
+        }
+
+        if (!runId) {
+          console.log('⚠️  Specify a run with --run <id> or use --latest. Use --list to see recorded runs.');
+          process.exit(1);
+        }
+
+        if (!options.dryRun) {
+          await enforceSafety(seeder, `rollback --run ${runId}`, true, options);
+        }
+
+        const result = await seeder.rollback(runId, { dryRun: options.dryRun });
+
+        console.log(`\n⏪ ${result.dryRun ? 'Rollback plan' : 'Rollback'} for ${result.runId}:`);
+        console.log(`   Order (${result.orderSource.replace('_', ' ')}): ${result.deletionOrder.join(' → ') || 'none'}`);
+        Object.entries(result.deletedRows).forEach(([table, count]) => {
+          console.log(`   • ${table}: ${count} rows`);
+        });
+        console.log(`   • storage objects: ${result.storageObjectsRemoved}`);
+        console.log(`   • auth users: ${result.authUsersDeleted}`);
+
+        if (!result.success) {
+          console.log('\n⚠️  Errors:');
+          result.errors.forEach(error => console.log(`   • ${error}`));
+          process.exit(1);
+        }
+
+        console.log(`\n✅ Rollback ${result.dryRun ? 'plan complete' : 'completed'}`);
+      } catch (error: any) {
+        console.error('❌ Rollback failed:', error.message || error);
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('verify-determinism')
+    .description('Generate twice without writing and check that the same seed gives identical data')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('--seed-value <string>', 'Seed value to check (overrides config)')
+    .option('--mode <mode>', 'Seeding mode: domain or tables (overrides config)')
+    .option('--golden <file>', 'Compare the rendered SQL with this file, creating it if missing')
+    .option('--update-golden', 'Rewrite the golden file instead of comparing', false)
+    .action(async (options) => {
+      try {
+        const configResult = loadConfiguration(options.config);
+        const config: SeedConfig = { ...configResult.config };
+        if (options.seedValue) config.seed = options.seedValue;
+        if (options.mode) {
+          if (!['domain', 'tables'].includes(options.mode)) {
+            throw new Error(`Invalid --mode '${options.mode}'. Must be 'domain' or 'tables'.`);
+          }
+          config.seeding = { ...config.seeding, mode: options.mode };
+        }
+        
+        // Nothing is written, so credentials are optional
+        if (!config.supabaseUrl.startsWith('http')) config.supabaseUrl = 'http://127.0.0.1:54321';
+        if (!config.supabaseServiceKey || config.supabaseServiceKey === 'missing-key') config.supabaseServiceKey = 'offline';
+        
+        console.log(`🔁 Generating twice with seed "${config.seed}"...`);
+        const report = await new SupaSeedFramework(config, configResult.baseDir).verifyDeterminism();
+        
+        console.log(`\n📊 ${report.rows} rows in ${report.tables} tables (fingerprint ${report.fingerprint.slice(0, 12)})`);
+        
+        if (!report.deterministic) {
+          console.log(`\n❌ ${report.differenceCount} values differ between runs:`);
+          report.differences.forEach(difference => {
+            const where = difference.column !== undefined
+              ? `${difference.table}[${difference.row}].${difference.column}`
+              : difference.table;
+            console.log(`   • ${where}: ${JSON.stringify(difference.first)} ≠ ${JSON.stringify(difference.second)}`);
+          });
+          if (report.differenceCount > report.differences.length) {
+            console.log(`   … and ${report.differenceCount - report.differences.length} more`);
+          }
+          process.exit(1);
+        }
+        
+        console.log('✅ Both runs produced identical data');
+        
+        if (options.golden) {
+          const golden = compareWithGolden(report.sql, options.golden, options.updateGolden);
+          if (golden.status === 'changed') {
+            console.log(`\n❌ Output differs from golden file ${options.golden}:`);
+            golden.changedLines.forEach(change => {
+              console.log(`   line ${change.line}:`);
+              console.log(`     - ${change.expected ?? '(missing)'}`);
+              console.log(`     + ${change.actual ?? '(missing)'}`);
+            });
+            console.log('   Rerun with --update-golden if the change is intended');
+            process.exit(1);
+          }
+          console.log(`✅ Golden file ${options.golden} ${golden.status}`);
+        }
+      } catch (error: any) {
+        console.error('❌ Determinism check failed:', error.message || error);
+        process.exit(1);
+      }
+    });
+
+  const rlsCommand = program
+    .command('rls')
+    .description('Row level security checks against seeded data');
+
+  rlsCommand
+    .command('matrix')
+    .description('Probe seeded rows as anon, owner, team member and outsider and show who can select, insert, update and delete them')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('--database-url <url>', 'Direct Postgres connection the probes run on (overrides config)')
+    .option('--tables <names...>', 'Only probe these tables')
+    .option('--pgtap <dir>', 'Write pgTAP tests pinning the observed matrix, e.g. to supabase/tests')
+    .option('--json', 'Print the report as JSON')
+    .option('--fail-on-leak', 'Exit with an error when a tenant-scoped row is reachable across tenants')
+    .action(async (options) => {
+      let seeder: SupaSeedFramework | undefined;
+      try {
+        const config: SeedConfig = { ...loadConfiguration(options.config).config };
+        if (options.databaseUrl) config.databaseUrl = options.databaseUrl;
+
+        seeder = new SupaSeedFramework(config);
+        const report = await seeder.rlsMatrix({ tables: options.tables });
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          const mark = (allowed: boolean | null | undefined) => allowed === undefined ? '-' : allowed === null ? '?' : allowed ? '✓' : '✗';
+          const labels: Record<RlsPersona, string> = { anon: 'anon', owner: 'owner', member: 'team member', outsider: 'outsider' };
+
+          for (const matrix of report.tables) {
+            const tenant = matrix.tenantColumn ? ` (${matrix.tenantColumn} ${matrix.tenantId})` : '';
+            console.log(`\n🔐 ${matrix.table}${tenant}`);
+            console.log(`   ${''.padEnd(12)} ${RLS_OPERATIONS.map(operation => operation.padEnd(7)).join('')}`);
+            for (const persona of RLS_PERSONAS) {
+              const cells = RLS_OPERATIONS.map(operation =>
+                mark(matrix.probes.find(probe => probe.persona === persona && probe.operation === operation)?.allowed).padEnd(7)
+              );
+              console.log(`   ${labels[persona].padEnd(12)} ${cells.join('')}`);
+            }
+            matrix.probes.filter(probe => probe.detail).forEach(probe => {
+              console.log(`   ? ${probe.persona} ${probe.operation}: ${probe.detail}`);
+            });
+          }
+
+          report.skipped.forEach(({ table, reason }) => console.log(`\n⏭️  ${table}: ${reason}`));
+          console.log('\n   ✓ allowed  ✗ denied  ? inconclusive  - no such seeded user');
+
+          if (report.leaks.length > 0) {
+            console.log(`\n🚨 ${report.leaks.length} cross-tenant leak(s):`);
+            report.leaks.forEach(leak => {
+              console.log(`   • ${leak.table}: ${labels[leak.persona]} can ${leak.operations.join(', ')} a row of ${leak.tenantColumn} ${leak.tenantId}`);
+            });
+          } else {
+            console.log('\n✅ No cross-tenant leaks found');
+          }
+        }
+
+        if (options.pgtap) {
+          const files = writeRlsPgTap(report, options.pgtap);
+          console.log(`\n🧪 Wrote ${files.length} pgTAP file(s) to ${options.pgtap}`);
+        }
+
+        if (options.failOnLeak && report.leaks.length > 0) {
+          process.exit(1);
+        }
+      } catch (error: any) {
+        console.error('❌ RLS matrix failed:', error.message || error);
+        process.exit(1);
+      } finally {
+        await seeder?.close();
+      }
+    });
+
+  program
+    .command('tokens')
+    .description('Sign an access token for a seeded user without signing in')
+    .requiredOption('-u, --user <email|alias>', 'Seeded user email, or an alias of the configured scenario')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('--aliases <file>', 'Scenario aliases file (default: the one the configured scenario wrote)')
+    .option('--jwt-secret <secret>', 'Project JWT secret (default: SUPABASE_JWT_SECRET, or the local stack\'s secret)')
+    .option('--expires-in <seconds>', 'Token lifetime in seconds', '3600')
+    .option('--json', 'Print the token with its expiry and claims as JSON')
+    .action(async (options) => {
+      try {
+        const config: SeedConfig = { ...loadConfiguration(options.config).config };
+        const expiresIn = parseInt(options.expiresIn, 10);
+        if (!Number.isInteger(expiresIn) || expiresIn <= 0) {
+          throw new Error(`Invalid --expires-in '${options.expiresIn}'. Must be a positive number of seconds.`);
+        }
+
+        const token = await new SupaSeedFramework(config).mintUserToken(options.user, {
+          aliasesFile: options.aliases,
+          jwtSecret: options.jwtSecret,
+          expiresIn
+        });
+
+        if (options.json) {
+          console.log(JSON.stringify({
+            access_token: token.accessToken,
+            token_type: token.tokenType,
+            expires_in: token.expiresIn,
+            expires_at: token.expiresAt,
+            user: token.user,
+            claims: token.claims
+          }, null, 2));
+        } else {
+          // Only the token on stdout, so it can be captured with $(supa-seed tokens --user ...)
+          console.log(token.accessToken);
+        }
+      } catch (error: any) {
+        console.error('❌ Token minting failed:', error.message || error);
+        process.exit(1);
+      }
+    });
+
   program
     .command('status')
     .description('Check seeding status')
@@ -861,12 +1240,34 @@ async function main() {
     .command('ai')
     .description('AI integration management commands');
 
-  aiCommand
+  const aiProviderOptions = (command: any) => command
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('--provider <provider>', `LLM provider (${LLM_PROVIDER_TYPES.join(', ')})`)
+    .option('--base-url <url>', 'Provider URL (OpenAI-compatible URLs include /v1)')
+    .option('--ollama-url <url>', 'Ollama service URL (same as --provider ollama --base-url <url>)')
+    .option('--api-key <key>', 'API key for OpenAI-compatible endpoints')
+    .option('--recording <path...>', 'AI cache exports or directories replayed by the recorded provider');
+
+  const createAIProvider = (options: any): LLMProvider => {
+    const configured: LLMProviderConfig = fs.existsSync(options.config)
+      ? loadConfiguration(options.config).config.ai || {}
+      : {};
+    return createLLMProvider({
+      ...configured,
+      ...(options.ollamaUrl && { provider: 'ollama', baseUrl: options.ollamaUrl }),
+      ...(options.provider && { provider: options.provider }),
+      ...(options.baseUrl && { baseUrl: options.baseUrl }),
+      ...(options.model && { model: options.model }),
+      ...(options.apiKey && { apiKey: options.apiKey }),
+      ...(options.recording && { recordings: options.recording })
+    });
+  };
+
+  aiProviderOptions(aiCommand
     .command('status')
-    .description('Check AI service status and connectivity')
-    .option('--ollama-url <url>', 'Ollama service URL', 'http://localhost:11434')
+    .description('Check AI service status and connectivity'))
     .option('--verbose', 'Enable verbose logging')
-    .action(async (options) => {
+    .action(async (options: any) => {
       const spinner = ora('Checking AI service status...').start();
       
       try {
@@ -874,58 +1275,48 @@ async function main() {
           Logger.setVerbose(true);
         }
 
-        // Test Ollama connectivity
-        try {
-          const response = await fetch(`${options.ollamaUrl}/api/version`);
-          if (response.ok) {
-            const data = await response.json();
-            spinner.succeed('AI service status check completed!');
-            
-            console.log('\n🤖 AI Service Status:');
-            console.log('✅ AI service available');
-            console.log(`🔗 Ollama URL: ${options.ollamaUrl}`);
-            console.log(`📦 Version: ${data.version || 'Unknown'}`);
-            
-            // Test model availability
-            try {
-              const modelsResponse = await fetch(`${options.ollamaUrl}/api/tags`);
-              if (modelsResponse.ok) {
-                const modelsData = await modelsResponse.json();
-                const models = modelsData.models || [];
-                console.log(`🎯 Available models: ${models.length}`);
-                if (models.length > 0) {
-                  models.slice(0, 3).forEach((model: any) => {
-                    console.log(`  • ${model.name}`);
-                  });
-                  if (models.length > 3) {
-                    console.log(`  • ... and ${models.length - 3} more`);
-                  }
-                } else {
-                  console.log('⚠️  No models found. Run: ollama pull llama3.1:latest');
-                }
-              }
-            } catch (error) {
-              console.log('⚠️  Could not fetch model list');
-            }
-            
-            console.log('🚀 Response time: <500ms');
-            
-          } else {
-            throw new Error(`HTTP ${response.status}`);
-          }
-        } catch (error: any) {
+        const provider = createAIProvider(options);
+        const health = await provider.checkHealth();
+
+        if (!health.connected) {
           spinner.fail('AI service unavailable');
           console.log('\n❌ AI Service Status:');
           console.log('❌ AI service unavailable');
-          console.log(`🔗 Ollama URL: ${options.ollamaUrl}`);
-          console.log(`❌ Error: ${error.message}`);
+          console.log(`🔌 Provider: ${provider.name}`);
+          console.log(`❌ Error: ${health.error}`);
           console.log('\n💡 Troubleshooting:');
-          console.log('1. Start Ollama: ollama serve');
-          console.log('2. Install a model: ollama pull llama3.1:latest');
-          console.log('3. Check firewall settings');
+          if (provider.name === 'ollama') {
+            console.log('1. Start Ollama: ollama serve');
+            console.log('2. Install a model: ollama pull llama3.1:latest');
+            console.log('3. Check firewall settings');
+          } else if (provider.name === 'recorded') {
+            console.log('1. Export a cache recorded against a live model (.supa-seed/ai-cache)');
+            console.log('2. Pass it with --recording <file> or the ai.recordings config key');
+          } else {
+            console.log('1. Start the server (llama.cpp: llama-server -m <model.gguf>, LM Studio: Developer > Start Server)');
+            console.log('2. Check the URL includes /v1, e.g. --base-url http://localhost:1234/v1');
+          }
           process.exit(1);
         }
 
+        spinner.succeed('AI service status check completed!');
+        console.log('\n🤖 AI Service Status:');
+        console.log('✅ AI service available');
+        console.log(`🔌 Provider: ${provider.name}`);
+        if (health.version) {
+          console.log(`📦 Version: ${health.version}`);
+        }
+        console.log(`🎯 Available models: ${health.availableModels.length}`);
+        health.availableModels.slice(0, 3).forEach(model => console.log(`  • ${model}`));
+        if (health.availableModels.length > 3) {
+          console.log(`  • ... and ${health.availableModels.length - 3} more`);
+        }
+        if (health.recommendedModel) {
+          console.log(`⭐ Model in use: ${health.recommendedModel}`);
+        } else if (provider.name === 'ollama') {
+          console.log('⚠️  No models found. Run: ollama pull llama3.1:latest');
+        }
+
       } catch (error: any) {
         spinner.fail('AI status check failed');
         Logger.error('Error:', error.message);
@@ -933,56 +1324,46 @@ async function main() {
       }
     });
 
-  aiCommand
+  aiProviderOptions(aiCommand
     .command('test')
-    .description('Test AI generation capabilities')
-    .option('--model <model>', 'Model to test with', 'llama3.1:latest')
-    .option('--ollama-url <url>', 'Ollama service URL', 'http://localhost:11434')
+    .description('Test AI generation capabilities'))
+    .option('--model <model>', 'Model to test with (default: the provider\'s configured model)')
+    .option('--prompt <prompt>', 'Prompt to send', 'Generate a brief outdoor gear description for a hiking backpack')
     .option('--verbose', 'Enable verbose logging')
-    .action(async (options) => {
+    .action(async (options: any) => {
       const spinner = ora('Testing AI generation...').start();
+      let provider: LLMProvider | undefined;
       
       try {
         if (options.verbose) {
           Logger.setVerbose(true);
         }
 
-        const testPrompt = 'Generate a brief outdoor gear description for a hiking backpack';
-        
-        const response = await fetch(`${options.ollamaUrl}/api/generate`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: options.model,
-            prompt: testPrompt,
-            stream: false
-          })
-        });
+        provider = createAIProvider(options);
+        const text = await provider.generateText(options.prompt);
 
-        if (response.ok) {
-          const data = await response.json();
-          spinner.succeed('AI generation test completed!');
-          
-          console.log('\n🧪 AI Generation Test Results:');
-          console.log('✅ AI generation working');
+        spinner.succeed('AI generation test completed!');
+        console.log('\n🧪 AI Generation Test Results:');
+        console.log('✅ AI generation working');
+        console.log(`🔌 Provider: ${provider.name}`);
+        if (options.model) {
           console.log(`🎯 Model: ${options.model}`);
-          console.log(`📝 Test prompt: "${testPrompt}"`);
-          console.log('\n📄 Generated response:');
-          console.log(`"${data.response?.trim() || 'No response generated'}"`);
-          
-        } else {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
+        console.log(`📝 Test prompt: "${options.prompt}"`);
+        console.log('\n📄 Generated response:');
+        console.log(`"${text.trim() || 'No response generated'}"`);
 
       } catch (error: any) {
         spinner.fail('AI generation test failed');
         console.log('\n❌ AI Generation Test Results:');
         console.log('❌ AI generation failed');
         console.log(`❌ Error: ${error.message}`);
-        console.log('\n💡 Troubleshooting:');
-        console.log(`1. Check model exists: ollama list`);
-        console.log(`2. Pull model if missing: ollama pull ${options.model}`);
-        console.log('3. Verify Ollama is running: ollama serve');
+        if (provider?.name === 'ollama') {
+          console.log('\n💡 Troubleshooting:');
+          console.log(`1. Check model exists: ollama list`);
+          console.log(`2. Pull model if missing: ollama pull ${options.model || 'llama3.1:latest'}`);
+          console.log('3. Verify Ollama is running: ollama serve');
+        }
         process.exit(1);
       }
     });
@@ -1016,11 +1397,201 @@ async function main() {
       }
     });
 
+  // Framework strategy commands
+  const frameworkCommand = program
+    .command('framework')
+    .description('Framework strategy management commands');
+
+  frameworkCommand
+    .command('list')
+    .description('List the built-in strategies and those loaded through the strategies config key')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('--schema <file>', 'Also score every strategy against a schema SQL file (e.g. schema-basejump.sql)')
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (options) => {
+      try {
+        if (options.verbose) {
+          Logger.setVerbose(true);
+        }
+
+        const configResult = loadConfiguration(options.config);
+        const specs: string[] = configResult.flexConfig?.strategies || configResult.config.strategies || [];
+        const schema = options.schema ? parseSchemaSql(fs.readFileSync(options.schema, 'utf8')) : undefined;
+
+        const entries: LoadedStrategy[] = createBuiltInStrategies().map(strategy => ({ strategy, source: 'built-in' }));
+        const failures: Array<{ spec: string; message: string }> = [];
+        for (const spec of specs) {
+          try {
+            entries.push(...loadStrategies(spec, configResult.baseDir));
+          } catch (error: any) {
+            failures.push({ spec, message: error.message });
+          }
+        }
+
+        console.log(`\n🧩 Framework Strategies (strategy API ${STRATEGY_API_VERSION}):`);
+        for (const { strategy, source } of entries) {
+          const replaces = source !== 'built-in' && entries.some(other => other.source === 'built-in' && other.strategy.name === strategy.name);
+          const details = [
+            `priority ${strategy.getPriority()}`,
+            source,
+            ...(strategy.apiVersion ? [`API ${strategy.apiVersion}`] : []),
+            ...(replaces ? ['replaces built-in'] : [])
+          ];
+          let line = `  • ${strategy.name} (${details.join(', ')})`;
+
+          if (schema) {
+            const detection = await strategy.detect(schema);
+            line += ` - ${(detection.confidence * 100).toFixed(0)}% match`;
+          }
+          console.log(line);
+        }
+
+        if (failures.length > 0) {
+          console.log('\n❌ Strategies that could not be loaded:');
+          failures.forEach(({ spec, message }) => console.log(`  • ${spec}: ${message}`));
+          process.exit(1);
+        }
+
+      } catch (error: any) {
+        Logger.error('Failed to list strategies:', error.message);
+        process.exit(1);
+      }
+    });
+
+  // Template marketplace commands
+  const templatesCommand = program
+    .command('templates')
+    .description('Search, install and remove template packages from the templateRepositories config key');
+
+  const createMarketplace = (options: { config: string; repository?: string[] }) => {
+    const configResult = loadConfiguration(options.config);
+    const configured: Repository[] = configResult.flexConfig?.templateRepositories || configResult.config.templateRepositories || [];
+    const adHoc = (options.repository || []).map(url => parseRepository(url));
+    return new TemplateMarketplace({ repositories: [...configured, ...adHoc] });
+  };
+
+  templatesCommand
+    .command('search [terms...]')
+    .description('Search the configured repositories for template packages')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('-r, --repository <url...>', 'Also search a directory, git repository or npm tarball')
+    .option('--category <category>', 'Only packages with templates in this category')
+    .option('--author <author>', 'Only packages by this author')
+    .option('--tag <tag...>', 'Only packages with all of these tags')
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (terms: string[], options) => {
+      try {
+        if (options.verbose) {
+          Logger.setVerbose(true);
+        }
+
+        const marketplace = createMarketplace(options);
+        const packages = await marketplace.search({
+          terms: terms.join(' '),
+          category: options.category,
+          author: options.author,
+          tags: options.tag
+        });
+
+        if (packages.length === 0) {
+          console.log('\n📦 No template packages found');
+          return;
+        }
+
+        console.log(`\n📦 Template Packages (${packages.length}):`);
+        for (const pkg of packages) {
+          console.log(`  • ${pkg.id}@${pkg.version} - ${pkg.description} (${pkg.author}, ${pkg.templates.length} templates)`);
+        }
+
+      } catch (error: any) {
+        Logger.error('Template search failed:', error.message);
+        process.exit(1);
+      }
+    });
+
+  templatesCommand
+    .command('install <package>')
+    .description('Install a template package (id or id@range) into .supa-seed/templates')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('-r, --repository <url...>', 'Also install from a directory, git repository or npm tarball')
+    .option('--from <name>', 'Only install from the repository with this name')
+    .option('--force', 'Reinstall even when the locked version matches')
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (spec: string, options) => {
+      const spinner = ora(`Installing ${spec}...`).start();
+
+      try {
+        if (options.verbose) {
+          Logger.setVerbose(true);
+        }
+
+        const installed = await createMarketplace(options).install(spec, { force: options.force, repository: options.from });
+        spinner.succeed(`Installed ${installed.id}@${installed.version}`);
+        console.log(`  Source: ${installed.resolved}`);
+        console.log(`  Integrity: ${installed.integrity}`);
+
+      } catch (error: any) {
+        spinner.fail(`Failed to install ${spec}`);
+        Logger.error('Error:', error.message);
+        process.exit(1);
+      }
+    });
+
+  templatesCommand
+    .command('uninstall <package>')
+    .description('Remove an installed template package')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (id: string, options) => {
+      try {
+        if (options.verbose) {
+          Logger.setVerbose(true);
+        }
+
+        if (!(await createMarketplace(options).uninstall(id))) {
+          console.log(`\n📦 ${id} is not installed`);
+        }
+
+      } catch (error: any) {
+        Logger.error('Template uninstall failed:', error.message);
+        process.exit(1);
+      }
+    });
+
+  templatesCommand
+    .command('list')
+    .description('List installed template packages from templates-lock.json')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (options) => {
+      try {
+        if (options.verbose) {
+          Logger.setVerbose(true);
+        }
+
+        const installed = createMarketplace(options).list();
+        if (installed.length === 0) {
+          console.log('\n📦 No template packages installed');
+          return;
+        }
+
+        console.log(`\n📦 Installed Template Packages (${installed.length}):`);
+        for (const entry of installed) {
+          console.log(`  • ${entry.id}@${entry.version} (${entry.repository.name}, installed ${entry.installedAt})`);
+        }
+
+      } catch (error: any) {
+        Logger.error('Failed to list templates:', error.message);
+        process.exit(1);
+      }
+    });
+
   program
     .command('analyze-relationships')
     .description('Analyze database relationships and dependencies')
     .option('--url <url>', 'Supabase URL (overrides env var)')
     .option('--key <key>', 'Supabase service role key (overrides env var)')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
     .option('--verbose', 'Enable verbose logging')
     .option('--show-graph', 'Show complete dependency graph')
     .option('--tables <tables>', 'Comma-separated list of specific tables to analyze')
@@ -1046,7 +1617,8 @@ async function main() {
         const client = createEnhancedSupabaseClient(supabaseUrl, supabaseKey);
         
         spinner.text = 'Initializing SupaSeed with strategy detection...';
-        const frameworkAdapter = new FrameworkAdapter(client as any);
+        const configResult = loadConfiguration(options.config);
+        const frameworkAdapter = new FrameworkAdapter(client as any, configResult.config, { baseDir: configResult.baseDir });
         await frameworkAdapter.initialize();
         
         const strategy = frameworkAdapter.getActiveStrategy();
@@ -1154,6 +1726,7 @@ async function main() {
     .description('Detect and analyze junction tables for many-to-many relationships')
     .option('--url <url>', 'Supabase URL (overrides env var)')
     .option('--key <key>', 'Supabase service role key (overrides env var)')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
     .option('--verbose', 'Enable verbose logging')
     .option('--show-patterns', 'Show detected relationship patterns')
     .action(async (options) => {
@@ -1178,7 +1751,8 @@ async function main() {
         const client = createEnhancedSupabaseClient(supabaseUrl, supabaseKey);
         
         spinner.text = 'Initializing SupaSeed with strategy detection...';
-        const frameworkAdapter = new FrameworkAdapter(client as any);
+        const configResult = loadConfiguration(options.config);
+        const frameworkAdapter = new FrameworkAdapter(client as any, configResult.config, { baseDir: configResult.baseDir });
         await frameworkAdapter.initialize();
         
         const strategy = frameworkAdapter.getActiveStrategy();
@@ -1262,6 +1836,7 @@ async function main() {
     .description('Calculate optimal seeding order based on dependencies')
     .option('--url <url>', 'Supabase URL (overrides env var)')
     .option('--key <key>', 'Supabase service role key (overrides env var)')
+    .option('-c, --config <file>', 'Configuration file path', 'supa-seed.config.json')
     .option('--verbose', 'Enable verbose logging')
     .option('--show-phases', 'Show seeding phases for parallel execution')
     .action(async (options) => {
@@ -1286,7 +1861,8 @@ async function main() {
         const client = createEnhancedSupabaseClient(supabaseUrl, supabaseKey);
         
         spinner.text = 'Initializing SupaSeed with strategy detection...';
-        const frameworkAdapter = new FrameworkAdapter(client as any);
+        const configResult = loadConfiguration(options.config);
+        const frameworkAdapter = new FrameworkAdapter(client as any, configResult.config, { baseDir: configResult.baseDir });
         await frameworkAdapter.initialize();
         
         const strategy = frameworkAdapter.getActiveStrategy();
@@ -1460,7 +2036,7 @@ async function main() {
 
         // Initialize framework adapter
         const client = createEnhancedSupabaseClient(config.supabaseUrl, config.supabaseServiceKey);
-        const adapter = new FrameworkAdapter(client as any, config);
+        const adapter = new FrameworkAdapter(client as any, configResult.config, { baseDir: configResult.baseDir });
         await adapter.initialize();
 
         const strategy = adapter.getActiveStrategy();
@@ -1588,7 +2164,7 @@ async function main() {
 
         // Initialize framework adapter
         const client = createEnhancedSupabaseClient(config.supabaseUrl, config.supabaseServiceKey);
-        const adapter = new FrameworkAdapter(client as any, config);
+        const adapter = new FrameworkAdapter(client as any, configResult.config, { baseDir: configResult.baseDir });
         await adapter.initialize();
 
         const strategy = adapter.getActiveStrategy();
@@ -1699,7 +2275,7 @@ async function main() {
 
         // Initialize framework adapter
         const client = createEnhancedSupabaseClient(config.supabaseUrl, config.supabaseServiceKey);
-        const adapter = new FrameworkAdapter(client as any, config);
+        const adapter = new FrameworkAdapter(client as any, configResult.config, { baseDir: configResult.baseDir });
         await adapter.initialize();
 
         const strategy = adapter.getActiveStrategy();
@@ -1782,4 +2358,91 @@ async function main() {
   await program.parseAsync(process.argv);
 }
 
+/**
+ * Stop unless the production guard lets the command run against the configured project
+ */
+async function enforceSafety(
+  seeder: SupaSeedFramework,
+  command: string,
+  destructive: boolean,
+  options: { iKnowThisIsProduction?: boolean; confirmProject?: string },
+  spinner?: ReturnType<typeof ora>
+): Promise<void> {
+  const decision = await seeder.checkSafety({
+    command,
+    destructive,
+    acknowledgedProduction: options.iKnowThisIsProduction,
+    confirmation: options.confirmProject,
+    prompt: process.stdin.isTTY
+      ? question => {
+          spinner?.stop();
+          return askQuestion(question);
+        }
+      : undefined
+  });
+
+  if (!decision.allowed) {
+    throw new Error(`Refusing to run ${command} against ${decision.target}:\n${decision.reasons.map(reason => `   • ${reason}`).join('\n')}`);
+  }
+  if (!decision.local) {
+    Logger.warn(`Running ${command} against ${decision.projectRef} (confirmed, logged to the audit log)`);
+  }
+  if (spinner && !spinner.isSpinning) {
+    spinner.start();
+  }
+}
+
+function askQuestion(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => rl.question(question, answer => {
+    rl.close();
+    resolve(answer);
+  }));
+}
+
+function printDryRunReport(report: DryRunReport): void {
+  console.log('\n🧪 Dry run: nothing was written to the database');
+  
+  if (report.schemaError) {
+    console.log(`⚠️  Schema introspection failed, constraints were not checked: ${report.schemaError}`);
+  }
+  
+  console.log('\n📋 Execution order:');
+  report.executionOrder.forEach((table, index) => console.log(`   ${index + 1}. ${table}`));
+  
+  console.log('\n📊 Rows per table:');
+  report.tables.forEach(plan => {
+    const flagged = plan.violations > 0 ? ` (${plan.violations} predicted violations)` : '';
+    console.log(`   • ${plan.table}: ${plan.rows}${flagged}`);
+    plan.sample.forEach(row => console.log(`       ${JSON.stringify(row)}`));
+  });
+  
+  if (report.skippedUploads > 0) {
+    console.log(`\n🖼️  ${report.skippedUploads} storage uploads would be made`);
+  }
+  
+  if (report.rls.length > 0) {
+    console.log('\n🔒 RLS findings:');
+    report.rls.forEach(finding => {
+      console.log(`   • [${finding.severity}] ${finding.table}: ${finding.description}`);
+      console.log(`     ${finding.recommendation}`);
+    });
+  }
+  
+  if (report.violations.length === 0) {
+    console.log('\n✅ No constraint violations predicted');
+    return;
+  }
+  
+  console.log(`\n❌ ${report.violations.length} constraint violations predicted:`);
+  report.violations.slice(0, 20).forEach(violation => {
+    const where = violation.field ? `${violation.table}[${violation.row}].${violation.field}` : `${violation.table}[${violation.row}]`;
+    console.log(`   • ${where} ${violation.constraint}: ${violation.message}`);
+    if (violation.suggestedFix) console.log(`     💡 ${violation.suggestedFix}`);
+  });
+  if (report.violations.length > 20) {
+    console.log(`   … and ${report.violations.length - 20} more`);
+  }
+}
+
 main().catch(console.error); 
\ No newline at end of file
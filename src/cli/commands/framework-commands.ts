@@ -6,10 +6,12 @@ import type { createClient } from '@supabase/supabase-js';
 import { FrameworkAdapter } from '../../features/integration/framework-adapter';
 import { createEnhancedSupabaseClient } from '../../core/utils/enhanced-supabase-client';
 import { Logger } from '../../core/utils/logger';
+import { loadConfiguration } from '../../config';
 
 export interface FrameworkCommandOptions {
   url?: string;
   key?: string;
+  config?: string; // Config file whose strategies are registered
   verbose?: boolean;
   framework?: string;
 }
@@ -28,7 +30,9 @@ export class FrameworkCommands {
     try {
       console.log('🔍 Detecting framework and analyzing strategies...\n');
 
-      const adapter = new FrameworkAdapter(client, undefined, {
+      const loaded = options.config ? loadConfiguration(options.config) : undefined;
+      const adapter = new FrameworkAdapter(client, loaded?.config, {
+        baseDir: loaded?.baseDir,
         debug: options.verbose || false,
         frameworkOverride: options.framework
       });
@@ -105,7 +109,9 @@ export class FrameworkCommands {
     try {
       console.log(`🧪 Testing strategy: ${strategyName}\n`);
 
-      const adapter = new FrameworkAdapter(client, undefined, {
+      const loaded = options.config ? loadConfiguration(options.config) : undefined;
+      const adapter = new FrameworkAdapter(client, loaded?.config, {
+        baseDir: loaded?.baseDir,
         debug: options.verbose || false
       });
 
@@ -190,7 +196,9 @@ export class FrameworkCommands {
     try {
       console.log('📋 Available Framework Strategies:\n');
 
-      const adapter = new FrameworkAdapter(client, undefined, {
+      const loaded = options.config ? loadConfiguration(options.config) : undefined;
+      const adapter = new FrameworkAdapter(client, loaded?.config, {
+        baseDir: loaded?.baseDir,
         debug: options.verbose || false
       });
 
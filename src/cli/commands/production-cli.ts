@@ -231,11 +231,13 @@ export class ProductionCLI {
       .addCommand(
         new Command('detect')
           .description('Detect framework and show strategy information')
+          .option('-c, --config <file>', 'Configuration file whose strategies are registered')
           .option('--framework <name>', 'Override framework detection')
           .action(async (options) => {
             await this.handleCommand('framework-detect', async () => {
               await FrameworkCommands.detectFramework({
                 ...this.getConnectionOptions(),
+                config: options.config,
                 verbose: this.config.verbose,
                 framework: options.framework
               });
@@ -245,10 +247,12 @@ export class ProductionCLI {
       .addCommand(
         new Command('test <strategy>')
           .description('Test a specific strategy')
+          .option('-c, --config <file>', 'Configuration file whose strategies are registered')
           .action(async (strategy, options) => {
             await this.handleCommand('framework-test', async () => {
               await FrameworkCommands.testStrategy(strategy, {
                 ...this.getConnectionOptions(),
+                config: options.config,
                 verbose: this.config.verbose
               });
             });
@@ -257,10 +261,12 @@ export class ProductionCLI {
       .addCommand(
         new Command('list')
           .description('List all available strategies')
-          .action(async () => {
+          .option('-c, --config <file>', 'Configuration file whose strategies are registered')
+          .action(async (options) => {
             await this.handleCommand('framework-list', async () => {
               await FrameworkCommands.listStrategies({
                 ...this.getConnectionOptions(),
+                config: options.config,
                 verbose: this.config.verbose
               });
             });
@@ -274,12 +280,14 @@ export class ProductionCLI {
       .addCommand(
         new Command('test')
           .description('Test storage connectivity and permissions')
+          .option('-c, --config <file>', 'Configuration file whose strategies are registered')
           .option('--framework <name>', 'Override framework detection')
           .option('--bucket <name>', 'Specify bucket name')
           .action(async (options) => {
             await this.handleCommand('storage-test', async () => {
               await StorageCommands.testStorage({
                 ...this.getConnectionOptions(),
+                config: options.config,
                 verbose: this.config.verbose,
                 framework: options.framework,
                 bucket: options.bucket
@@ -290,6 +298,7 @@ export class ProductionCLI {
       .addCommand(
         new Command('generate')
           .description('Generate and upload test media files')
+          .option('-c, --config <file>', 'Configuration file whose strategies are registered')
           .option('--setup-id <id>', 'Setup ID for media generation')
           .option('--account-id <id>', 'Account ID for media generation')
           .option('--count <number>', 'Number of media files to generate', '3')
@@ -301,6 +310,7 @@ export class ProductionCLI {
             await this.handleCommand('storage-generate', async () => {
               await StorageCommands.generateMedia({
                 ...this.getConnectionOptions(),
+                config: options.config,
                 verbose: this.config.verbose,
                 setupId: options.setupId,
                 accountId: options.accountId,
@@ -316,11 +326,13 @@ export class ProductionCLI {
       .addCommand(
         new Command('config')
           .description('Show storage configuration for framework')
+          .option('-c, --config <file>', 'Configuration file whose strategies are registered')
           .option('--framework <name>', 'Override framework detection')
           .action(async (options) => {
             await this.handleCommand('storage-config', async () => {
               await StorageCommands.showConfig({
                 ...this.getConnectionOptions(),
+                config: options.config,
                 verbose: this.config.verbose,
                 framework: options.framework
               });
@@ -7,12 +7,14 @@ import { FrameworkAdapter } from '../../features/integration/framework-adapter';
 import { StorageIntegrationManager } from '../../features/generation/storage/storage-integration-manager';
 import { createEnhancedSupabaseClient } from '../../core/utils/enhanced-supabase-client';
 import { Logger } from '../../core/utils/logger';
+import { loadConfiguration } from '../../config';
 import { StorageConfigUtils } from '../../core/config/storage-config';
 import type { StorageConfig } from '../../features/generation/storage/storage-types';
 
 export interface StorageCommandOptions {
   url?: string;
   key?: string;
+  config?: string; // Config file whose strategies are registered
   verbose?: boolean;
   framework?: string;
   bucket?: string;
@@ -49,7 +51,9 @@ export class StorageCommands {
       console.log('🔍 Testing storage connectivity and permissions...\n');
 
       // Initialize framework adapter to get proper configuration
-      const adapter = new FrameworkAdapter(client, undefined, {
+      const loaded = options.config ? loadConfiguration(options.config) : undefined;
+      const adapter = new FrameworkAdapter(client, loaded?.config, {
+        baseDir: loaded?.baseDir,
         debug: options.verbose || false,
         frameworkOverride: options.framework
       });
@@ -70,7 +74,8 @@ export class StorageCommands {
       // Initialize storage manager
       const storageManager = new StorageIntegrationManager(client, { 
         ...storageConfig, 
-        bucketName 
+        bucketName,
+        seed: loaded?.config.seed
       });
 
       // Test permissions
@@ -152,7 +157,9 @@ export class StorageCommands {
       console.log(`🖼️  Generating ${count} media files for setup: ${setupId}\n`);
 
       // Initialize framework adapter
-      const adapter = new FrameworkAdapter(client, undefined, {
+      const loaded = options.config ? loadConfiguration(options.config) : undefined;
+      const adapter = new FrameworkAdapter(client, loaded?.config, {
+        baseDir: loaded?.baseDir,
         debug: options.verbose || false,
         frameworkOverride: options.framework
       });
@@ -271,7 +278,9 @@ export class StorageCommands {
       console.log('⚙️  Storage Configuration Analysis\n');
 
       // Initialize framework adapter
-      const adapter = new FrameworkAdapter(client, undefined, {
+      const loaded = options.config ? loadConfiguration(options.config) : undefined;
+      const adapter = new FrameworkAdapter(client, loaded?.config, {
+        baseDir: loaded?.baseDir,
         debug: options.verbose || false,
         frameworkOverride: options.framework
       });
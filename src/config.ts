@@ -1,6 +1,6 @@
 import { config as dotenvConfig } from 'dotenv';
 import { readFileSync, existsSync } from 'fs';
-import { resolve } from 'path';
+import { dirname, resolve } from 'path';
 import { Logger } from './core/utils/logger';
 import { FlexibleSeedConfig } from './core/types/config-types';
 import { SeedConfig } from './core/types/types';
@@ -9,6 +9,7 @@ export interface ConfigLoadResult {
   config: SeedConfig;
   source: 'config-file' | 'environment' | 'defaults';
   flexConfig?: FlexibleSeedConfig;
+  baseDir: string; // Where files and packages named in the config resolve from
 }
 
 export function loadConfiguration(configPath?: string): ConfigLoadResult {
@@ -45,21 +46,41 @@ export function loadConfiguration(configPath?: string): ConfigLoadResult {
       const config: SeedConfig = {
         supabaseUrl: flexConfig.supabaseUrl,
         supabaseServiceKey: flexConfig.supabaseServiceKey,
+        databaseUrl: flexConfig.databaseUrl || process.env.SUPABASE_DB_URL,
         environment: flexConfig.environment,
         userCount: flexConfig.userCount,
         setupsPerUser: flexConfig.setupsPerUser,
         imagesPerSetup: flexConfig.imagesPerSetup,
         enableRealImages: flexConfig.enableRealImages,
         seed: flexConfig.seed,
+        deterministic: flexConfig.deterministic || process.env.SUPA_SEED_DETERMINISTIC === 'true',
+        topUp: flexConfig.topUp || process.env.SUPA_SEED_TOP_UP === 'true',
+        // Named in the config file, so it is relative to that file rather than to where the CLI runs
+        scenario: flexConfig.scenario && resolve(dirname(resolvedPath), flexConfig.scenario),
+        scenarioAliasesOut: flexConfig.scenarioAliasesOut,
+        emitFixtures: flexConfig.emitFixtures,
         emailDomain: flexConfig.emailDomain,
         domain: flexConfig.domain,
         createStandardTestEmails: flexConfig.createStandardTestEmails,
+        tables: flexConfig.tables,
+        seeding: flexConfig.seeding,
+        seeders: flexConfig.seeders,
+        strategies: flexConfig.strategies,
+        templateRepositories: flexConfig.templateRepositories,
+        ai: flexConfig.ai,
+        storage: flexConfig.storage && { fixtures: flexConfig.storage.fixtures },
+        hooks: flexConfig.hooks,
+        safety: flexConfig.safety,
+        cardinality: flexConfig.cardinality,
+        impersonation: flexConfig.impersonation,
+        authUsers: flexConfig.authUsers,
       };
       
       return {
         config,
         source: 'config-file',
-        flexConfig
+        flexConfig,
+        baseDir: dirname(resolvedPath)
       };
       
     } catch (error: any) {
@@ -100,7 +121,8 @@ function loadFromEnvironment(): ConfigLoadResult {
     
     return {
       config,
-      source: 'defaults'
+      source: 'defaults',
+      baseDir: process.cwd()
     };
   }
   
@@ -109,12 +131,15 @@ function loadFromEnvironment(): ConfigLoadResult {
   const config: SeedConfig = {
     supabaseUrl,
     supabaseServiceKey,
+    databaseUrl: process.env.SUPABASE_DB_URL,
     environment: (process.env.NODE_ENV as 'local' | 'staging' | 'production') || 'local',
     userCount: parseInt(process.env.SUPA_SEED_USER_COUNT || '10'),
     setupsPerUser: parseInt(process.env.SUPA_SEED_SETUPS_PER_USER || '3'),
     imagesPerSetup: parseInt(process.env.SUPA_SEED_IMAGES_PER_SETUP || '3'),
     enableRealImages: process.env.SUPA_SEED_ENABLE_REAL_IMAGES === 'true',
     seed: process.env.SUPA_SEED_SEED_VALUE || 'supa-seed-2025',
+    deterministic: process.env.SUPA_SEED_DETERMINISTIC === 'true',
+    topUp: process.env.SUPA_SEED_TOP_UP === 'true',
     emailDomain: process.env.SUPA_SEED_EMAIL_DOMAIN || 'supaseed.test',
     domain: process.env.SUPA_SEED_DOMAIN,
     createStandardTestEmails: process.env.SUPA_SEED_CREATE_STANDARD_EMAILS === 'true',
@@ -122,7 +147,8 @@ function loadFromEnvironment(): ConfigLoadResult {
   
   return {
     config,
-    source: 'environment'
+    source: 'environment',
+    baseDir: process.cwd()
   };
 }
 
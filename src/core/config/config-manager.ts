@@ -622,6 +622,7 @@ export class ConfigManager {
     try {
       // Initialize framework adapter
       const frameworkAdapter = new FrameworkAdapter(client, config, {
+        baseDir: path.dirname(this.configPath),
         enableSchemaCache: this.options.enableSchemaEvolution,
         frameworkOverride: config?.frameworkStrategy?.manualOverride,
         debug: config?.frameworkStrategy?.enabled
@@ -8,6 +8,7 @@ import type { createClient } from '@supabase/supabase-js';
 import { ExtendedSeedConfig, FlexibleSeedConfig } from '../types/config-types';
 import { SchemaAdapter } from '../schema-adapter';
 import { FrameworkAdapter } from '../../features/integration/framework-adapter';
+import { validateColumnGenerators } from '../../features/generation/column-generators';
 import { Logger } from '../utils/logger';
 import type {
   LayeredConfiguration,
@@ -207,12 +208,15 @@ export interface LayeredPerformanceValidation {
 export class ConfigValidator {
   private client: SupabaseClient;
   private schemaAdapter: SchemaAdapter;
-  private frameworkAdapter: FrameworkAdapter;
+  private baseDir?: string;
 
-  constructor(client: SupabaseClient) {
+  /**
+   * `baseDir` is the validated config's directory, where its `strategies` resolve from
+   */
+  constructor(client: SupabaseClient, baseDir?: string) {
     this.client = client;
+    this.baseDir = baseDir;
     this.schemaAdapter = new SchemaAdapter(client);
-    this.frameworkAdapter = new FrameworkAdapter(client);
   }
 
   /**
@@ -256,6 +260,11 @@ export class ConfigValidator {
       errors.push(...relationshipValidation.errors);
       warnings.push(...relationshipValidation.warnings);
 
+      // 7. Table column generator validation
+      const columnValidation = this.validateTableColumns(config);
+      errors.push(...columnValidation.errors);
+      warnings.push(...columnValidation.warnings);
+
       // Calculate validation score
       const totalChecks = 50; // Approximate number of validation checks
       const failedChecks = errors.length + (warnings.length * 0.5);
@@ -369,9 +378,10 @@ export class ConfigValidator {
     }
 
     try {
-      // Initialize framework adapter for validation
-      await this.frameworkAdapter.initialize();
-      const availableStrategies = this.frameworkAdapter.getAvailableStrategies();
+      // Initialize framework adapter for validation, with the config's own strategies
+      const frameworkAdapter = new FrameworkAdapter(this.client, config, { baseDir: this.baseDir });
+      await frameworkAdapter.initialize();
+      const availableStrategies = frameworkAdapter.getAvailableStrategies();
 
       // Validate manual override
       if (config.frameworkStrategy.manualOverride) {
@@ -589,6 +599,28 @@ export class ConfigValidator {
     };
   }
 
+  /**
+   * Validate the tables.<name>.columns generator declarations
+   */
+  private validateTableColumns(config: ExtendedSeedConfig): ValidationResult {
+    const errors = validateColumnGenerators(config.tables);
+    const warnings: string[] = [];
+
+    for (const [tableName, tableConfig] of Object.entries(config.tables || {})) {
+      if (tableConfig?.columns && Object.keys(tableConfig.columns).length > 0 && config.seeding?.mode !== 'tables') {
+        warnings.push(`tables.${tableName}.columns only applies in seeding.mode "tables"`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      recommendations: [],
+      score: 0
+    };
+  }
+
   /**
    * Validate custom relationships configuration
    */
@@ -0,0 +1,236 @@
+/**
+ * Catalog Client
+ * Wraps a Supabase client so that catalog reads are answered by a direct
+ * database backend instead of PostgREST, which does not expose
+ * information_schema or pg_catalog and only knows the RPCs a project installed.
+ *
+ * - from('information_schema.*') and from('pg_*') become plain SELECTs
+ * - rpc('exec_sql'), rpc('get_foreign_keys_detailed') and rpc('get_enum_values')
+ *   run their SQL directly, so callers work on a stock Supabase stack
+ *
+ * Everything else passes straight through to the wrapped client.
+ */
+
+import { DATABASE_BACKEND, DatabaseBackend } from './database-backend';
+
+type RpcHandler = (backend: DatabaseBackend, args: Record<string, any>) => Promise<any[]>;
+
+const REFERENTIAL_ACTION = (column: string) => `
+  CASE ${column}
+    WHEN 'c' THEN 'CASCADE'
+    WHEN 'n' THEN 'SET NULL'
+    WHEN 'd' THEN 'SET DEFAULT'
+    WHEN 'r' THEN 'RESTRICT'
+    ELSE 'NO ACTION'
+  END`;
+
+export const FOREIGN_KEYS_QUERY = `
+  SELECT
+    c.conname AS constraint_name,
+    src_ns.nspname AS table_schema,
+    src.relname AS table_name,
+    src_col.attname AS column_name,
+    dst_ns.nspname AS foreign_table_schema,
+    dst.relname AS foreign_table_name,
+    dst_col.attname AS foreign_column_name,
+    ${REFERENTIAL_ACTION('c.confupdtype')} AS update_rule,
+    ${REFERENTIAL_ACTION('c.confdeltype')} AS delete_rule,
+    c.condeferrable AS is_deferrable,
+    c.condeferred AS initially_deferred,
+    NOT src_col.attnotnull AS is_nullable
+  FROM pg_constraint c
+  JOIN pg_class src ON src.oid = c.conrelid
+  JOIN pg_namespace src_ns ON src_ns.oid = src.relnamespace
+  JOIN pg_class dst ON dst.oid = c.confrelid
+  JOIN pg_namespace dst_ns ON dst_ns.oid = dst.relnamespace
+  CROSS JOIN LATERAL unnest(c.conkey, c.confkey) AS k(src_attnum, dst_attnum)
+  JOIN pg_attribute src_col ON src_col.attrelid = c.conrelid AND src_col.attnum = k.src_attnum
+  JOIN pg_attribute dst_col ON dst_col.attrelid = c.confrelid AND dst_col.attnum = k.dst_attnum
+  WHERE c.contype = 'f'
+    AND src_ns.nspname = ANY($1)
+  ORDER BY src.relname, c.conname
+`;
+
+export const ENUM_VALUES_QUERY = `
+  SELECT e.enumlabel
+  FROM pg_enum e
+  JOIN pg_type t ON t.oid = e.enumtypid
+  WHERE t.typname = $1
+  ORDER BY e.enumsortorder
+`;
+
+const CATALOG_RPCS: Record<string, RpcHandler> = {
+  exec_sql: (backend, args) => backend.query(args.sql || args.query, args.params || []),
+  get_foreign_keys_detailed: (backend, args) => backend.query(FOREIGN_KEYS_QUERY, [args.schema_names || ['public']]),
+  get_enum_values: (backend, args) => backend.query(ENUM_VALUES_QUERY, [args.enum_name])
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Route a client's catalog reads through a direct backend
+ */
+export function withDatabaseBackend<T extends object>(client: T, backend: DatabaseBackend): T {
+  return new Proxy(client, {
+    get(target, prop) {
+      if (prop === DATABASE_BACKEND) {
+        return backend;
+      }
+
+      const value = Reflect.get(target, prop);
+
+      if (prop === 'from' && typeof value === 'function') {
+        return (relation: string) => isCatalogRelation(relation)
+          ? new CatalogQuery(backend, relation)
+          : value.call(target, relation);
+      }
+
+      if (prop === 'rpc' && typeof value === 'function') {
+        return (fn: string, args: Record<string, any> = {}, options?: any) => {
+          const handler = CATALOG_RPCS[fn];
+          return handler ? respond(() => handler(backend, args)) : value.call(target, fn, args, options);
+        };
+      }
+
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+export function isCatalogRelation(relation: string): boolean {
+  return relation.startsWith('information_schema.') || relation.startsWith('pg_catalog.') || relation.startsWith('pg_');
+}
+
+/**
+ * Minimal PostgREST-style query builder over a catalog view. Supports the
+ * filters introspection code uses; anything unsupported fails like an
+ * unknown PostgREST relation would, so callers take their existing fallbacks.
+ */
+export class CatalogQuery implements PromiseLike<{ data: any; error: any }> {
+  private columns = '*';
+  private conditions: string[] = [];
+  private params: any[] = [];
+  private ordering: string[] = [];
+  private rowLimit?: number;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+  private invalid?: string;
+
+  constructor(private backend: DatabaseBackend, private relation: string) {
+    if (!relation.includes('.')) {
+      this.relation = `pg_catalog.${relation}`;
+    }
+    if (!this.relation.split('.').every(part => IDENTIFIER.test(part))) {
+      this.invalid = `Invalid catalog relation: ${relation}`;
+    }
+  }
+
+  select(columns = '*'): this {
+    const list = columns.split(',').map(column => column.trim()).filter(Boolean);
+    if (list.length === 0 || list.includes('*')) {
+      this.columns = '*';
+    } else {
+      this.columns = list.map(column => this.identifier(column)).join(', ');
+    }
+    return this;
+  }
+
+  eq(column: string, value: any): this { return this.where(column, '=', value); }
+  neq(column: string, value: any): this { return this.where(column, '<>', value); }
+  gt(column: string, value: any): this { return this.where(column, '>', value); }
+  gte(column: string, value: any): this { return this.where(column, '>=', value); }
+  lt(column: string, value: any): this { return this.where(column, '<', value); }
+  lte(column: string, value: any): this { return this.where(column, '<=', value); }
+  like(column: string, pattern: string): this { return this.where(column, 'LIKE', pattern, '::text'); }
+  ilike(column: string, pattern: string): this { return this.where(column, 'ILIKE', pattern, '::text'); }
+
+  in(column: string, values: any[]): this {
+    this.params.push(values);
+    this.conditions.push(`${this.identifier(column)}::text = ANY($${this.params.length}::text[])`);
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.conditions.push(`${this.identifier(column)} IS ${value === null ? 'NULL' : value ? 'TRUE' : 'FALSE'}`);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push(`${this.identifier(column)} ${options.ascending === false ? 'DESC' : 'ASC'}`);
+    return this;
+  }
+
+  limit(count: number): this {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  toSql(): { sql: string; params: any[] } {
+    let sql = `SELECT ${this.columns} FROM ${this.relation}`;
+    if (this.conditions.length) sql += ` WHERE ${this.conditions.join(' AND ')}`;
+    if (this.ordering.length) sql += ` ORDER BY ${this.ordering.join(', ')}`;
+    if (this.rowLimit !== undefined) sql += ` LIMIT ${Math.max(0, Math.floor(this.rowLimit))}`;
+    return { sql, params: this.params };
+  }
+
+  then<TResult1 = { data: any; error: any }, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: any }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private async execute(): Promise<{ data: any; error: any }> {
+    if (this.invalid) {
+      return { data: null, error: { message: this.invalid, code: '42P01' } };
+    }
+
+    const { sql, params } = this.toSql();
+    const result = await respond(() => this.backend.query(sql, params));
+    if (result.error || this.cardinality === 'many') {
+      return result;
+    }
+
+    const rows: any[] = result.data;
+    if (rows.length > 1 || (rows.length === 0 && this.cardinality === 'single')) {
+      return {
+        data: null,
+        error: { message: `JSON object requested, ${rows.length} rows returned`, code: 'PGRST116' }
+      };
+    }
+    return { data: rows[0] ?? null, error: null };
+  }
+
+  private where(column: string, operator: string, value: any, cast = ''): this {
+    this.params.push(value);
+    this.conditions.push(`${this.identifier(column)}${cast} ${operator} $${this.params.length}`);
+    return this;
+  }
+
+  private identifier(column: string): string {
+    if (!IDENTIFIER.test(column)) {
+      this.invalid = `Unsupported column expression: ${column}`;
+    }
+    return `"${column.replace(/"/g, '""')}"`;
+  }
+}
+
+/**
+ * Run a backend call and shape the outcome like a PostgREST response
+ */
+async function respond(run: () => Promise<any[]>): Promise<{ data: any; error: any }> {
+  try {
+    return { data: await run(), error: null };
+  } catch (error: any) {
+    return { data: null, error: { message: error.message, code: error.code } };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Database Backend
+ * Common interface for raw SQL and bulk inserts. Clients created with a
+ * `databaseUrl` carry a PostgresBackend that talks straight to Postgres;
+ * every other client is served through PostgREST, where raw SQL only works
+ * if the project has installed the `exec_sql` RPC.
+ */
+
+export type DatabaseBackendKind = 'postgres' | 'postgrest';
+
+export interface DatabaseBackend {
+  readonly kind: DatabaseBackendKind;
+  /**
+   * Run a parameterised SQL statement and return its rows
+   */
+  query<T = Record<string, any>>(sql: string, params?: any[]): Promise<T[]>;
+  /**
+   * Insert many rows at once and return them as stored (with generated keys)
+   */
+  bulkInsert(table: string, rows: Record<string, any>[]): Promise<Record<string, any>[]>;
+  /**
+   * Run statements on one connection in a transaction that is always rolled
+   * back. Only direct connections support this.
+   */
+  rolledBack?<T>(work: (query: DatabaseQuery) => Promise<T>): Promise<T>;
+  /**
+   * Run work against a backend bound to one connection in a transaction that
+   * commits when the work succeeds. Only direct connections support this.
+   */
+  transaction?<T>(work: (backend: DatabaseBackend) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+export type DatabaseQuery = <T = Record<string, any>>(sql: string, params?: any[]) => Promise<T[]>;
+
+// Property under which a client exposes its direct backend (see withDatabaseBackend)
+export const DATABASE_BACKEND = Symbol.for('supa-seed.databaseBackend');
+
+/**
+ * Backend for clients without a direct connection. Queries need the optional
+ * `exec_sql` RPC; inserts go through the regular `from().insert()` API.
+ */
+export class PostgrestBackend implements DatabaseBackend {
+  readonly kind = 'postgrest' as const;
+
+  constructor(private client: any) {}
+
+  async query<T = Record<string, any>>(sql: string, params: any[] = []): Promise<T[]> {
+    const { data, error } = await this.client.rpc('exec_sql', { sql, params });
+    if (error) {
+      throw new Error(`exec_sql failed: ${error.message}`);
+    }
+    return (Array.isArray(data) ? data : []) as T[];
+  }
+
+  async bulkInsert(table: string, rows: Record<string, any>[]): Promise<Record<string, any>[]> {
+    if (rows.length === 0) return [];
+
+    const { data, error } = await this.client.from(table).insert(rows).select();
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data as Record<string, any>[]) || rows;
+  }
+
+  async close(): Promise<void> {
+    // The Supabase client holds no connections of its own
+  }
+}
+
+/**
+ * The backend behind a client: its direct Postgres connection if it has one,
+ * otherwise PostgREST
+ */
+export function getDatabaseBackend(client: any): DatabaseBackend {
+  return (client && client[DATABASE_BACKEND]) || new PostgrestBackend(client);
+}
+
+/**
+ * Close the direct connection behind a client, if any, so the process can exit
+ */
+export async function closeDatabaseBackend(client: any): Promise<void> {
+  const backend: DatabaseBackend | undefined = client && client[DATABASE_BACKEND];
+  if (backend) {
+    await backend.close();
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Postgres Backend
+ * Direct connection used when a `databaseUrl` is configured. Catalog queries
+ * run as plain SQL and bulk inserts stream rows through `COPY`, so neither
+ * depends on RPCs being installed in the project.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Logger } from '../utils/logger';
+import { DatabaseBackend, DatabaseQuery } from './database-backend';
+
+const COLUMN_TYPES_QUERY = `
+  SELECT a.attname AS name, format_type(a.atttypid, a.atttypmod) AS type
+  FROM pg_attribute a
+  WHERE a.attrelid = $1::regclass
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+`;
+
+export interface PostgresBackendOptions {
+  /**
+   * Run every statement on one connection held for the backend's lifetime, so
+   * session settings (`SET`, `set_config(..., false)`) made by one query apply
+   * to the inserts after it. Transactions then take turns on that connection.
+   */
+  singleConnection?: boolean;
+}
+
+export class PostgresBackend implements DatabaseBackend {
+  readonly kind = 'postgres' as const;
+  private pool: Pool;
+  private columnTypes = new Map<string, Map<string, string>>();
+  private session?: Promise<PoolClient>;
+  private sessionTurn: Promise<unknown> = Promise.resolve();
+
+  constructor(connection: string | Pool, private options: PostgresBackendOptions = {}) {
+    this.pool = typeof connection === 'string'
+      ? new Pool({ connectionString: connection, max: 4, allowExitOnIdle: true })
+      : connection;
+  }
+
+  async query<T = Record<string, any>>(sql: string, params: any[] = []): Promise<T[]> {
+    const result = this.options.singleConnection
+      ? await (await this.acquire()).query(sql, params)
+      : await this.pool.query(sql, params);
+    return result.rows as T[];
+  }
+
+  /**
+   * Insert the rows in one transaction of their own (see copyRows)
+   */
+  async bulkInsert(table: string, rows: Record<string, any>[]): Promise<Record<string, any>[]> {
+    if (rows.length === 0) return [];
+    return this.transaction(backend => backend.bulkInsert(table, rows));
+  }
+
+  async transaction<T>(work: (backend: DatabaseBackend) => Promise<T>): Promise<T> {
+    return this.exclusive(() => this.runTransaction(work));
+  }
+
+  async rolledBack<T>(work: (query: DatabaseQuery) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const connection = await this.acquire();
+      try {
+        await connection.query('BEGIN');
+        return await work(async (sql, params = []) => (await connection.query(sql, params)).rows);
+      } finally {
+        await connection.query('ROLLBACK').catch(() => undefined);
+        this.release(connection);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.session) {
+      (await this.session).release();
+      this.session = undefined;
+    }
+    await this.pool.end();
+  }
+
+  private async runTransaction<T>(work: (backend: DatabaseBackend) => Promise<T>): Promise<T> {
+    const connection = await this.acquire();
+    try {
+      await connection.query('BEGIN');
+      const result = await work({
+        kind: this.kind,
+        query: async (sql, params = []) => (await connection.query(sql, params)).rows,
+        bulkInsert: (table, rows) => this.copyRows(connection, table, rows),
+        close: async () => undefined
+      });
+      await connection.query('COMMIT');
+      return result;
+    } catch (error) {
+      await connection.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      this.release(connection);
+    }
+  }
+
+  /**
+   * A connection of its own from the pool, or the held one with singleConnection
+   */
+  private acquire(): Promise<PoolClient> {
+    if (!this.options.singleConnection) {
+      return this.pool.connect();
+    }
+    this.session ??= this.pool.connect();
+    return this.session;
+  }
+
+  private release(connection: PoolClient): void {
+    if (!this.options.singleConnection) {
+      connection.release();
+    }
+  }
+
+  /**
+   * With singleConnection, transactions wait for the one before them to end so
+   * their BEGIN and COMMIT never interleave on the shared connection
+   */
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    if (!this.options.singleConnection) {
+      return work();
+    }
+    const result = this.sessionTurn.then(work);
+    this.sessionTurn = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * COPY the rows into a staging table shaped like the target, then move them
+   * across with INSERT ... RETURNING so generated keys come back like they do
+   * from PostgREST. Rows are copied in groups that set the same columns, so a
+   * column a row leaves out gets its default rather than NULL; the inserted
+   * rows come back in the order they were given.
+   */
+  private async copyRows(connection: PoolClient, table: string, rows: Record<string, any>[]): Promise<Record<string, any>[]> {
+    const groups = new Map<string, { columns: string[]; indexes: number[] }>();
+    rows.forEach((row, index) => {
+      const columns = Object.keys(row).filter(key => row[key] !== undefined);
+      const key = JSON.stringify([...columns].sort());
+      if (!groups.has(key)) groups.set(key, { columns, indexes: [] });
+      groups.get(key)!.indexes.push(index);
+    });
+
+    const inserted: Record<string, any>[] = new Array(rows.length);
+    for (const { columns, indexes } of groups.values()) {
+      const result = await this.copyGroup(connection, table, columns, indexes.map(index => rows[index]));
+      result.forEach((row, position) => { inserted[indexes[position]] = row; });
+    }
+    return inserted;
+  }
+
+  private async copyGroup(
+    connection: PoolClient,
+    table: string,
+    columns: string[],
+    rows: Record<string, any>[]
+  ): Promise<Record<string, any>[]> {
+    if (columns.length === 0) {
+      throw new Error(`Cannot bulk insert into ${table}: rows have no columns`);
+    }
+
+    const target = quoteTable(table);
+    const columnList = columns.map(quoteIdentifier).join(', ');
+    const types = await this.getColumnTypes(table);
+    const staging = 'supa_seed_copy';
+
+    await connection.query(
+      `CREATE TEMP TABLE ${staging} ON COMMIT DROP AS SELECT ${columnList} FROM ${target} WITH NO DATA`
+    );
+
+    const lines = rows.map(row => columns.map(column => toCsvField(row[column], types.get(column))).join(',') + '\n');
+    await pipeline(
+      Readable.from(lines),
+      connection.query(copyFrom(`COPY ${staging} (${columnList}) FROM STDIN WITH (FORMAT csv)`))
+    );
+
+    const result = await connection.query(
+      `INSERT INTO ${target} (${columnList}) SELECT ${columnList} FROM ${staging} RETURNING *`
+    );
+    // Dropped now so a later insert in the same transaction can stage again
+    await connection.query(`DROP TABLE ${staging}`);
+
+    Logger.debug(`COPY inserted ${result.rowCount} rows into ${table}`);
+    return result.rows;
+  }
+
+  private async getColumnTypes(table: string): Promise<Map<string, string>> {
+    if (!this.columnTypes.has(table)) {
+      const rows = await this.query<{ name: string; type: string }>(COLUMN_TYPES_QUERY, [quoteTable(table)]);
+      this.columnTypes.set(table, new Map(rows.map(row => [row.name, row.type] as [string, string])));
+    }
+    return this.columnTypes.get(table)!;
+  }
+}
+
+/**
+ * Render one value as a CSV field. Unquoted empty fields are NULL in COPY's
+ * CSV format, so every non-null value is quoted to keep '' distinct from NULL.
+ */
+export function toCsvField(value: any, columnType?: string): string {
+  if (value === null || value === undefined) return '';
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Array.isArray(value) && columnType?.endsWith('[]')) {
+    // Postgres array columns take array literals; anything else gets JSON
+    text = `{${value.map(item => item === null ? 'NULL' : `"${String(item).replace(/["\\]/g, '\\$&')}"`).join(',')}}`;
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function quoteTable(table: string): string {
+  return table.split('.').map(quoteIdentifier).join('.');
+}
@@ -1,6 +1,7 @@
 import type { createClient } from '@supabase/supabase-js';
 import { Logger } from './utils/logger';
 import { isServiceRoleKey, isLocalSupabaseEnvironment } from './utils/enhanced-supabase-client';
+import type { SeedDeterminism } from './utils/seed-determinism';
 
 class JWTAuthenticationError extends Error {
   constructor(message: string) {
@@ -55,6 +56,7 @@ export class SchemaAdapter {
     schema?: any;
   };
   private supabaseUrl: string;
+  private determinism?: SeedDeterminism;
 
   constructor(private client: SupabaseClient, configOverride?: any, supabaseUrl?: string, private supabaseKey?: string) {
     this.configOverride = configOverride;
@@ -62,6 +64,22 @@ export class SchemaAdapter {
     this.supabaseUrl = supabaseUrl || process.env.SUPABASE_URL || 'http://127.0.0.1:54321';
   }
 
+  /**
+   * Take ids and timestamps for created users from the seed run instead of
+   * this.newId() and the wall clock
+   */
+  useDeterminism(determinism: SeedDeterminism): void {
+    this.determinism = determinism;
+  }
+
+  private newId(): string {
+    return this.determinism ? this.determinism.uuid() : crypto.randomUUID();
+  }
+
+  private timestamp(): string {
+    return (this.determinism ? this.determinism.date() : new Date()).toISOString();
+  }
+
   /**
    * Check if this is a local Supabase environment
    */
@@ -252,6 +270,9 @@ export class SchemaAdapter {
     username?: string;
     bio?: string;
     picture_url?: string;
+    password?: string; // Default: password123
+    metadata?: Record<string, any>; // Extra user_metadata for the auth user
+    authUserExists?: boolean; // The auth user was already written, e.g. by BulkAuthWriter
   }): Promise<{ id: string; success: boolean; error?: string }> {
     const strategy = this.getUserCreationStrategy();
     
@@ -489,19 +510,23 @@ Technical details: ${error.message}
     username?: string;
     bio?: string;
     picture_url?: string;
+    password?: string; // Default: password123
+    metadata?: Record<string, any>; // Extra user_metadata for the auth user
+    authUserExists?: boolean; // The auth user was already written, e.g. by BulkAuthWriter
   }): Promise<{ id: string; success: boolean; error?: string }> {
     // Original supa-seed logic - create auth user then account
-    const userId = userData.id || crypto.randomUUID();
+    const userId = userData.id || this.newId();
 
-    // Create auth user
-    const { error: authError } = await this.client.auth.admin.createUser({
+    // Create auth user, unless it was bulk inserted already
+    const { error: authError } = userData.authUserExists ? { error: null } : await this.client.auth.admin.createUser({
       id: userId,
       email: userData.email,
-      password: 'password123',
+      password: userData.password || 'password123',
       email_confirm: true,
       user_metadata: {
         full_name: userData.name,
         username: userData.username,
+        ...userData.metadata
       }
     });
 
@@ -513,8 +538,8 @@ Technical details: ${error.message}
     const accountData: any = {
       email: userData.email,
       name: userData.name,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
+      created_at: this.timestamp(),
+      updated_at: this.timestamp(),
     };
 
     // Add optional fields if provided - MakerKit accounts table structure
@@ -582,18 +607,22 @@ Technical details: ${error.message}
     username?: string;
     bio?: string;
     picture_url?: string;
+    password?: string; // Default: password123
+    metadata?: Record<string, any>; // Extra user_metadata for the auth user
+    authUserExists?: boolean; // The auth user was already written, e.g. by BulkAuthWriter
   }): Promise<{ id: string; success: boolean; error?: string }> {
     // Makerkit pattern: auth user + profile + account/team
-    const userId = userData.id || crypto.randomUUID();
+    const userId = userData.id || this.newId();
 
-    // Create auth user
-    const { error: authError } = await this.client.auth.admin.createUser({
+    // Create auth user, unless it was bulk inserted already
+    const { error: authError } = userData.authUserExists ? { error: null } : await this.client.auth.admin.createUser({
       id: userId,
       email: userData.email,
-      password: 'password123',
+      password: userData.password || 'password123',
       email_confirm: true,
       user_metadata: {
         full_name: userData.name,
+        ...userData.metadata
       }
     });
 
@@ -611,7 +640,7 @@ Technical details: ${error.message}
     // Build profile data with only columns that exist
     const profileData: any = {
       id: userId,
-      updated_at: new Date().toISOString(),
+      updated_at: this.timestamp(),
     };
 
     // Add email field if column exists and data provided
@@ -665,7 +694,7 @@ Technical details: ${error.message}
         const { error: accountError } = await this.client
           .from('accounts')
           .insert({
-            id: crypto.randomUUID(),
+            id: this.newId(),
             name: `${userData.name}'s Account`,
             primary_owner_user_id: userId,
             slug: null, // CRITICAL: MakerKit constraint requires slug = null for personal accounts
@@ -741,18 +770,22 @@ Technical details: ${error.message}
     username?: string;
     bio?: string;
     picture_url?: string;
+    password?: string; // Default: password123
+    metadata?: Record<string, any>; // Extra user_metadata for the auth user
+    authUserExists?: boolean; // The auth user was already written, e.g. by BulkAuthWriter
   }): Promise<{ id: string; success: boolean; error?: string }> {
     // Generic profiles pattern: auth user + profile
-    const userId = userData.id || crypto.randomUUID();
+    const userId = userData.id || this.newId();
 
-    // Create auth user
-    const { error: authError } = await this.client.auth.admin.createUser({
+    // Create auth user, unless it was bulk inserted already
+    const { error: authError } = userData.authUserExists ? { error: null } : await this.client.auth.admin.createUser({
       id: userId,
       email: userData.email,
-      password: 'password123',
+      password: userData.password || 'password123',
       email_confirm: true,
       user_metadata: {
         full_name: userData.name,
+        ...userData.metadata
       }
     });
 
@@ -770,8 +803,8 @@ Technical details: ${error.message}
     // Build profile data with only columns that exist
     const profileData: any = {
       id: userId,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
+      created_at: this.timestamp(),
+      updated_at: this.timestamp(),
     };
 
     // Add email field if column exists and data provided
@@ -951,6 +984,13 @@ Technical details: ${error.message}
     }
   }
 
+  /**
+   * Table whose rows are keyed by the auth user's id for the user creation strategy
+   */
+  getUserTableName(): 'accounts' | 'profiles' {
+    return this.getUserCreationStrategy() === 'simple-accounts' ? 'accounts' : 'profiles';
+  }
+
   /**
    * Get the appropriate table name for setups/content based on schema
    */
@@ -1,17 +1,31 @@
 import type { createClient } from '@supabase/supabase-js';
 import type { Faker } from '@faker-js/faker';
+import type { SeedRunRecorder } from '../../features/manifest/run-manifest';
+import type { SeededInventory } from '../../features/manifest/seeded-inventory';
+import type { FixtureCollector } from '../../features/fixtures/fixture-collector';
+import type { SeedHookRunner } from '../../features/hooks/seed-hook-runner';
+import type { UserImpersonator } from '../../features/rls/user-impersonator';
+import type { IdentityProviderType } from '../../auth/auth-types';
+import type { SelectionOptions } from '../../features/generation/assets/selection-strategies';
+import { SeedDeterminism } from '../utils/seed-determinism';
 
 export type SupabaseClient = ReturnType<typeof createClient>;
 
 export interface SeedConfig {
   supabaseUrl: string;
   supabaseServiceKey: string;
+  databaseUrl?: string; // Direct Postgres connection for catalog queries and COPY bulk inserts
   environment: 'local' | 'staging' | 'production';
   userCount: number;
   setupsPerUser: number;
   imagesPerSetup: number;
   enableRealImages: boolean;
   seed: string; // For deterministic fake data
+  deterministic?: boolean; // Pin the clock and generated IDs so the same seed always produces the same data
+  topUp?: boolean; // Count rows earlier runs seeded and only insert what is missing to reach the configured counts
+  scenario?: string; // YAML or JSON file declaring the exact users, teams and records to seed
+  scenarioAliasesOut?: string; // Where to write the scenario's alias -> id mapping (default: <scenario>.aliases.json)
+  emitFixtures?: string; // Write the credentials and ids a seed created to this .json, .ts or .env file
   emailDomain?: string; // Domain for test emails (default: supaseed.test)
   domain?: string; // Domain configuration (generic, outdoor, ecommerce, saas, etc.)
   createStandardTestEmails?: boolean; // Create MakerKit standard test emails (default: false)
@@ -80,32 +94,206 @@ export interface SeedConfig {
   
   // Table-specific configuration
   tables?: {
-    setups?: {
-      count?: number;
+    setups?: TableSeedConfig & {
       categories?: string[]; // User-provided categories for setup generation
     };
-    users?: {
-      count?: number;
-    };
-    posts?: {
-      count?: number;
+    users?: TableSeedConfig;
+    posts?: TableSeedConfig & {
       categories?: string[];
     };
-    gear?: {
-      count?: number;
+    gear?: TableSeedConfig & {
       forceGeneration?: boolean; // Create variants if needed to reach exact count
       categoryStrategy?: 'enum' | 'fk' | 'auto'; // How to handle categories (default: 'auto')
       categoryMapping?: Record<string, string>; // Map gear types to enum values
       enumCategories?: string[]; // Valid enum values for direct insertion
       skipCategoryTableCreation?: boolean; // Skip creating separate category tables
     };
+    // Any other table seeded by the table pipeline
+    [table: string]: TableSeedConfig | undefined;
+  };
+
+  // Generic table-driven seeding
+  seeding?: {
+    mode?: 'domain' | 'tables'; // 'tables' seeds every table in the schema (default: 'domain')
+    defaultCount?: number; // Rows per table without an explicit count (default: 10)
+    includeTables?: string[]; // Only seed these tables
+    excludeTables?: string[]; // Never seed these tables
+    batchSize?: number; // Rows per insert request (default: 100)
+  };
+
+  // Domain plugins (auth, users, base-data, setups, gear, media)
+  seeders?: {
+    enabled?: string[]; // Plugins to run, in order
+    skip?: string[]; // Plugins to leave out
+  };
+
+  // Extra framework strategies: local files ('./seed/my-strategy.ts') or npm packages
+  strategies?: string[];
+
+  // Where `supa-seed templates` looks for template packages
+  templateRepositories?: Array<{ name: string; type: 'local' | 'git' | 'npm'; url: string; ref?: string }>;
+
+  // LLM provider for AI generation and the `ai` commands (default: Ollama on localhost)
+  ai?: {
+    provider?: 'ollama' | 'openai-compatible' | 'recorded';
+    baseUrl?: string;
+    model?: string;
+    apiKey?: string;
+    timeout?: number;
+    recordings?: string | string[]; // Cache exports replayed by the recorded provider
   };
+
+  // Local files uploaded to Storage and referenced from seeded rows
+  storage?: {
+    fixtures?: StorageFixtureConfig[];
+  };
+
+  // SQL files or functions run before/after the run and around tables in table mode
+  hooks?: SeedHooksConfig;
+
+  // Remote projects each environment may target, and where guard decisions are logged
+  safety?: SafetyConfig;
+
+  // Child rows per parent row, keyed 'parent.child' (e.g. 'users.setups', 'setups.setup_items')
+  cardinality?: Record<string, CardinalitySpec>;
+
+  // Insert the rows a seeded user owns as that user instead of the service role, so RLS applies
+  impersonation?: ImpersonationConfig;
+
+  // How generated auth users are written
+  authUsers?: AuthUsersConfig;
+}
+
+export interface TableSeedConfig {
+  count?: number;
+  columns?: Record<string, ColumnGeneratorSpec>; // Declared generators; other columns are detected
+}
+
+/**
+ * Uploads local files for the rows of one table. Templates take the row's
+ * columns plus {{uuid}}, {{n}} and {{file.name}}, {{file.ext}}, {{file.size}},
+ * {{file.type}}; attachment values can also use {{file.path}} and {{file.url}}.
+ */
+export interface StorageFixtureConfig {
+  files: string; // Glob of local files, e.g. './fixtures/avatars/**/*.png'
+  bucket: string;
+  path: string; // Object path template, e.g. '{{account_id}}/{{uuid}}.png'
+  table: string; // Rows the files belong to (rows this run inserted, or every row without a manifest)
+  column?: string; // Set this column on each row to the uploaded file
+  value?: 'url' | 'path'; // What `column` stores (default: 'url')
+  filesPerRow?: number; // Files per row (default: 1)
+  overwrite?: boolean; // Replace objects already at a rendered path (default: false, reported as an error)
+  attachments?: {
+    table: string; // Insert one row per uploaded file into this table
+    values: Record<string, string>; // Column -> template, e.g. { setup_id: '{{id}}', storage_path: '{{file.path}}' }
+  };
+}
+
+/**
+ * Local Supabase URLs are always allowed. Any other project must be listed for
+ * the configured environment and confirmed on the command line.
+ */
+export interface SafetyConfig {
+  allowedProjects?: Partial<Record<SeedConfig['environment'], string[]>>; // Project URLs or refs, e.g. { staging: ['abcdefghijklmnop'] }
+  auditLog?: string; // Guard decisions, one JSON line each (default: .supa-seed/audit.log)
+}
+
+/**
+ * Rows whose owner column holds a seeded user's id are inserted with a client
+ * acting as that user. Inserts the table's policies refuse are reported as
+ * violations after the run.
+ */
+export interface ImpersonationConfig {
+  auth?: 'jwt' | 'sign-in'; // Mint tokens with the JWT secret (default), or sign in with the seeded password
+  jwtSecret?: string; // 'jwt' only (default: SUPABASE_JWT_SECRET, then the local stack's secret)
+  anonKey?: string; // apikey of per-user clients (default: SUPABASE_ANON_KEY; 'jwt' mints one otherwise)
+  password?: string; // 'sign-in' only (default: testUserPassword)
+  ownerColumns?: string[]; // Columns naming the owning user (default: user_id, owner_id, account_id, created_by, author_id, profile_id)
+  tables?: string[]; // Only impersonate writes to these tables (default: every table)
+  failOnViolation?: boolean; // Fail the run when any insert was refused (default: false)
+}
+
+export interface AuthUsersConfig {
+  bulkInsert?: boolean; // Write auth.users and auth.identities in one batch (local stacks with databaseUrl only)
+  states?: AuthStateProportions; // Share of generated users in each state; the rest are confirmed
+  oauthProviders?: IdentityProviderType[]; // Identities of oauthOnly users (default: github, google)
+}
+
+/**
+ * Shares of generated users, each between 0 and 1 and together at most 1
+ */
+export interface AuthStateProportions {
+  unconfirmed?: number; // Signed up, email not confirmed
+  invited?: number; // Invite pending, no password yet
+  banned?: number; // banned_until in the far future
+  oauthOnly?: number; // OAuth identities only, no password (needs databaseUrl)
+  passwordReset?: number; // Recovery token pending
+  softDeleted?: number; // deleted_at set
+}
+
+/**
+ * How many child rows one parent row gets. A number is a fixed count; the
+ * distributions draw a count per parent from the run's seed, rounded and
+ * clamped to [min, max].
+ */
+export type CardinalitySpec =
+  | number
+  | { distribution: 'poisson'; mean: number; min?: number; max?: number }
+  | { distribution: 'zipf'; max: number; exponent?: number; min?: number } // P(k) falls off as k^-exponent (default 1.2) from min (default 1)
+  | { distribution: 'normal'; mean: number; stdDev: number; min?: number; max?: number }
+  | { distribution: 'histogram'; weights: Record<string, number> }; // Count -> relative weight, e.g. { "0": 30, "1": 50, "10": 5 }
+
+/**
+ * Hooks run at fixed points of a seed run, e.g. to refresh materialized views,
+ * call a function that backfills derived tables, or set session settings.
+ * Table hooks fire when the table pipeline reaches the table, whether or not
+ * it inserts rows there.
+ */
+export interface SeedHooksConfig {
+  beforeRun?: SeedHookConfig[];
+  afterRun?: SeedHookConfig[];
+  beforeTable?: SeedHookConfig[];
+  afterTable?: SeedHookConfig[];
+}
+
+export interface SeedHookConfig {
+  sql?: string; // SQL file to run, e.g. './seed/refresh-stats.sql'
+  function?: string; // Module exporting the hook: './seed/hooks.ts' (default export) or './seed/hooks.ts#backfill'
+  tables?: string[]; // Table hooks only: tables it runs for (default: every table)
+  optional?: boolean; // Log a failure and carry on instead of stopping (default: false)
+}
+
+export type SeedHookPoint = keyof SeedHooksConfig;
+
+/**
+ * Signature of `function` hooks
+ */
+export type SeedHookFunction = (context: SeedContext, event: { point: SeedHookPoint; table?: string }) => void | Promise<void>;
+
+/**
+ * How to fill one column. The string form is 'faker:person.firstName',
+ * 'sequence', 'enum', 'ref:accounts.id' or 'template:"{{first_name}}-{{n}}"';
+ * the object form adds options to any of these, or declares weighted choices.
+ */
+export type ColumnGeneratorSpec = string | ColumnGeneratorOptions;
+
+export interface ColumnGeneratorOptions {
+  generator?: string; // Same syntax as the string form
+  args?: any[]; // Arguments passed to a faker method
+  start?: number; // First sequence value (default: 1)
+  step?: number; // Sequence increment (default: 1)
+  values?: any[]; // Enum values (default: the column's database enum)
+  weights?: number[]; // Relative weights for enum values
+  choices?: Record<string, number> | Array<{ value: any; weight?: number }>; // Weighted choices
+  value?: any; // The same value for every row
+  nullRatio?: number; // Share of rows left NULL, from 0 to 1
 }
 
 export interface SeedStats {
   usersCreated: number;
   setupsCreated: number;
   imagesUploaded: number;
+  tableRowsCreated?: Record<string, number>; // Rows created per table by the table pipeline
   startTime: Date;
 }
 
@@ -115,16 +303,38 @@ export interface SeedContext {
   faker: Faker;
   cache: Map<string, any>; // For caching created entities
   stats: SeedStats;
+  manifest?: SeedRunRecorder; // Records inserted rows for precise rollback
+  determinism?: SeedDeterminism; // Seeded random, UUIDs and clock for everything outside faker
+  seeded?: SeededInventory; // Rows earlier runs created, set for top-up runs
+  fixtures?: FixtureCollector; // Collects credentials and ids when fixtures are emitted
+  hooks?: SeedHookRunner; // Runs the configured hooks, set while seeders run
+  impersonation?: UserImpersonator; // Writes owned rows as their user, set for seed runs with `impersonation`
 }
 
 export abstract class SeedModule {
+  private assetDeterminism?: SeedDeterminism;
+
   constructor(protected context: SeedContext) {
     // Initialize faker with consistent seed
     this.context.faker.seed(this.hashSeed(context.config.seed + this.constructor.name));
+    this.context.determinism ??= new SeedDeterminism(context.config.seed, { pinned: context.config.deterministic });
   }
 
   abstract seed(): Promise<void>;
 
+  protected get determinism(): SeedDeterminism {
+    return this.context.determinism!;
+  }
+
+  /**
+   * Options for AssetSelectionEngine that draw from this run's stream and
+   * weigh asset ages against the run clock instead of the wall clock
+   */
+  protected assetSelectionOptions(options: SelectionOptions = {}): SelectionOptions {
+    const stream = this.assetDeterminism ??= this.determinism.fork(`assets-${this.constructor.name}`);
+    return { ...options, random: () => stream.random(), now: stream.now() };
+  }
+
   protected hashSeed(str: string): number {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
@@ -275,6 +485,7 @@ export interface ImageGenerationOptions {
   height: number;
   category: string;
   style?: 'realistic' | 'stock' | 'generated';
+  fileId?: string; // Unique part of the generated file name (default: Date.now())
 }
 
 export interface GeneratedImage {
@@ -1,16 +1,3 @@
-import { createHash, randomBytes } from 'crypto';
-
-/**
- * Hash a password for seeding purposes
- * Note: In production, Supabase handles password hashing automatically
- */
-export function hashPassword(password: string): string {
-  const salt = randomBytes(16).toString('hex');
-  const hash = createHash('sha256');
-  hash.update(password + salt);
-  return hash.digest('hex') + ':' + salt;
-}
-
 /**
  * Generate a secure random password for test users
  */
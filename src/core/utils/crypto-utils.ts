@@ -4,17 +4,20 @@
  * Part of Task 1.2: Add MFA Factor Support
  */
 
-import { createHash, randomBytes } from 'crypto';
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+// JWT secret of every `supabase start` stack
+export const LOCAL_JWT_SECRET = 'super-secret-jwt-token-with-at-least-32-characters-long';
 
 /**
- * Generate a secure TOTP secret
+ * Generate a secure TOTP secret. Seeded runs pass their own random source.
  */
-export function generateTOTPSecret(length: number = 32): string {
+export function generateTOTPSecret(length: number = 32, random: () => number = Math.random): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'; // Base32 characters
   let secret = '';
   
   for (let i = 0; i < length; i++) {
-    secret += chars.charAt(Math.floor(Math.random() * chars.length));
+    secret += chars.charAt(Math.floor(random() * chars.length));
   }
   
   return secret;
@@ -76,13 +79,6 @@ export function generateSecureString(length: number): string {
   return randomBytes(Math.ceil(length / 2)).toString('hex').slice(0, length);
 }
 
-/**
- * Hash password for testing (simple implementation)
- */
-export function hashPassword(password: string): string {
-  return createHash('sha256').update(password).digest('hex');
-}
-
 /**
  * Generate realistic phone number for testing
  */
@@ -95,15 +91,23 @@ export function generateTestPhoneNumber(countryCode: string = '+1'): string {
 }
 
 /**
- * Generate JWT-like token for testing
+ * Generate a signed JWT for testing, by default with the local stack's secret
+ * so `supabase start` accepts it
+ */
+export function generateTestJWT(payload: Record<string, any>, secret: string = LOCAL_JWT_SECRET): string {
+  return signJWT(payload, secret);
+}
+
+/**
+ * Sign an HS256 JWT with a shared secret, the way Supabase Auth signs access tokens
  */
-export function generateTestJWT(payload: Record<string, any>): string {
+export function signJWT(payload: Record<string, any>, secret: string): string {
   const header = { alg: 'HS256', typ: 'JWT' };
   
   const encodedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
   const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
-  const signature = createHash('sha256')
-    .update(encodedHeader + '.' + encodedPayload + 'test-secret')
+  const signature = createHmac('sha256', secret)
+    .update(encodedHeader + '.' + encodedPayload)
     .digest('base64url');
   
   return `${encodedHeader}.${encodedPayload}.${signature}`;
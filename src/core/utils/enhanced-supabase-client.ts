@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { Logger } from './logger';
+import { PostgresBackend } from '../database/postgres-backend';
+import { withDatabaseBackend } from '../database/catalog-client';
 
 /**
  * Enhanced Supabase client creator that handles JWT validation issues in local environments.
@@ -11,8 +13,25 @@ import { Logger } from './logger';
  * 1. Detecting local Supabase environments
  * 2. Using enhanced client options that handle both anon and service role keys consistently
  * 3. Providing fallback authentication mechanisms for development
+ *
+ * Pass `databaseUrl` in the options to also open a direct Postgres connection.
+ * Catalog queries and introspection RPCs are then answered by Postgres itself,
+ * and getDatabaseBackend(client) returns a backend with COPY-based bulk inserts.
+ * `singleConnection` keeps that backend on one connection (see PostgresBackend).
  */
 export function createEnhancedSupabaseClient(url: string, key: string, options?: any) {
+  const { databaseUrl, singleConnection, ...clientOptions } = options || {};
+  const client = createSupabaseClient(url, key, clientOptions);
+
+  if (!databaseUrl) {
+    return client;
+  }
+
+  Logger.debug('Using direct Postgres connection for catalog queries and bulk inserts');
+  return withDatabaseBackend(client, new PostgresBackend(databaseUrl, { singleConnection }));
+}
+
+function createSupabaseClient(url: string, key: string, options: any) {
   // Detect local Supabase environment
   const isLocal = url.includes('127.0.0.1') || url.includes('localhost') || url.includes(':54321');
   
@@ -63,11 +82,16 @@ export function isServiceRoleKey(token: string): boolean {
   }
 }
 
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]', '::1', 'host.docker.internal'];
+
 /**
- * Check if this is a local Supabase environment
+ * Check if this is a local Supabase environment: the URL's host, not just
+ * any part of it, must be this machine. Works for API and Postgres URLs.
  */
 export function isLocalSupabaseEnvironment(url: string): boolean {
-  return url.includes('127.0.0.1') || 
-         url.includes('localhost') ||
-         url.includes(':54321'); // Default local Supabase port
+  try {
+    return LOCAL_HOSTS.includes(new URL(url).hostname.toLowerCase());
+  } catch {
+    return false;
+  }
 }
\ No newline at end of file
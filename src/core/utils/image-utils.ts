@@ -1,24 +1,35 @@
 import { ImageGenerationOptions, GeneratedImage } from '../types/types';
+import { encodePNG } from '../../features/generation/storage/image-encoders';
+import { renderProceduralImage, tintPalette } from '../../features/generation/storage/procedural-image-renderer';
+
+const CATEGORY_COLORS: Record<string, string> = {
+  outdoor: '#4A7C59',
+  gear: '#8B4513',
+  vehicle: '#2F4F4F',
+  profile: '#6B6B6B',
+};
 
 /**
- * Generate a placeholder image buffer for seeding
- * In a real implementation, this could connect to AI image generation or stock photo APIs
+ * Generate a placeholder image for seeding: an initials avatar for profiles,
+ * otherwise a category-tinted gradient or pattern, rendered from the file id
  */
 export async function generatePlaceholderImage(options: ImageGenerationOptions): Promise<GeneratedImage> {
   const { width, height, category } = options;
+  const seed = `${category}:${options.fileId ?? Date.now()}`;
   
-  // For now, we'll create a simple colored rectangle as a placeholder
-  // In production, you could integrate with:
-  // - Unsplash API for stock photos
-  // - DALL-E or Midjourney for AI-generated images
-  // - Local photo collections
-  
-  const canvas = createMockCanvas(width, height, category);
-  const buffer = await canvasToBuffer(canvas);
+  const raster = renderProceduralImage({
+    width,
+    height,
+    seed,
+    palette: tintPalette(CATEGORY_COLORS[category] || CATEGORY_COLORS.profile),
+    style: category === 'profile' ? 'avatar' : options.style === 'generated' ? 'pattern' : 'gradient',
+    text: category,
+  });
+  const buffer = encodePNG(raster);
   
   return {
     buffer,
-    filename: `${category}_${width}x${height}_${Date.now()}.png`,
+    filename: `${category}_${width}x${height}_${options.fileId ?? Date.now()}.png`,
     mimetype: 'image/png',
     size: buffer.length,
   };
@@ -53,7 +64,7 @@ export async function downloadUnsplashImage(query: string, options: ImageGenerat
     
     return {
       buffer,
-      filename: `unsplash_${query.replace(/\s+/g, '_')}_${Date.now()}.jpg`,
+      filename: `unsplash_${query.replace(/\s+/g, '_')}_${options.fileId ?? Date.now()}.jpg`,
       mimetype: 'image/jpeg',
       size: buffer.length,
     };
@@ -87,69 +98,6 @@ export async function optimizeImage(buffer: Buffer, options: Partial<ImageGenera
   return buffer;
 }
 
-/**
- * Create a mock canvas for placeholder generation
- */
-function createMockCanvas(width: number, height: number, category: string): HTMLCanvasElement {
-  // This is a simplified mock implementation
-  // In a real Node.js environment, you might use node-canvas
-  
-  const colors: Record<string, string> = {
-    outdoor: '#4A7C59',
-    gear: '#8B4513',
-    vehicle: '#2F4F4F',
-    profile: '#6B6B6B',
-  };
-  
-  const color = colors[category] || '#6B6B6B';
-  
-  // Mock canvas object for type compatibility
-  return {
-    width,
-    height,
-    getContext: () => ({
-      fillStyle: color,
-      fillRect: () => {},
-      fillText: () => {},
-      font: '16px Arial',
-      textAlign: 'center',
-      textBaseline: 'middle',
-    }),
-  } as any;
-}
-
-/**
- * Convert mock canvas to buffer
- */
-async function canvasToBuffer(canvas: HTMLCanvasElement): Promise<Buffer> {
-  // Create a simple PNG-like buffer for seeding
-  // In production, use proper canvas-to-buffer conversion
-  
-  const width = canvas.width;
-  const height = canvas.height;
-  const pixelCount = width * height;
-  
-  // Create a minimal PNG-like structure
-  const headerSize = 100; // Approximate PNG header size
-  const dataSize = pixelCount * 4; // RGBA
-  const bufferSize = headerSize + dataSize;
-  
-  const buffer = Buffer.alloc(bufferSize);
-  
-  // Fill with mock PNG header
-  buffer.write('PNG', 1);
-  
-  // Fill rest with mock pixel data
-  for (let i = headerSize; i < bufferSize; i += 4) {
-    buffer[i] = 100;     // R
-    buffer[i + 1] = 150; // G
-    buffer[i + 2] = 200; // B
-    buffer[i + 3] = 255; // A
-  }
-  
-  return buffer;
-}
-
 /**
  * Generate appropriate search terms for different gear categories
  */
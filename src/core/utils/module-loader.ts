@@ -0,0 +1,55 @@
+/**
+ * Module Loader
+ * Requires user code named in config: local files (`./seed/hooks.ts`) resolved
+ * from the config's directory, or installed npm packages. TypeScript files are
+ * loaded through tsx when we are not already running under a TypeScript loader.
+ */
+
+import path from 'path';
+
+const TYPESCRIPT_FILE = /\.[cm]?ts$/;
+
+/**
+ * Require a config-named module; `label` names it in errors ("Strategy", "Hook")
+ */
+export function requireUserModule(spec: string, baseDir: string, label: string): any {
+  const modulePath = resolveUserModule(spec, baseDir, label);
+  if (TYPESCRIPT_FILE.test(modulePath)) {
+    registerTypeScript(spec, baseDir, label);
+  }
+
+  try {
+    return require(modulePath);
+  } catch (error: any) {
+    throw new Error(`Failed to load ${label.toLowerCase()} '${spec}': ${error.message}`);
+  }
+}
+
+function resolveUserModule(spec: string, baseDir: string, label: string): string {
+  const isPath = spec.startsWith('.') || path.isAbsolute(spec);
+
+  try {
+    return isPath
+      ? require.resolve(path.resolve(baseDir, spec))
+      : require.resolve(spec, { paths: [baseDir] });
+  } catch {
+    throw new Error(isPath
+      ? `${label} file '${spec}' not found (resolved from ${baseDir})`
+      : `${label} package '${spec}' is not installed (npm install ${spec})`);
+  }
+}
+
+/**
+ * TypeScript modules need a loader unless we already run under one (tsx, ts-jest)
+ */
+function registerTypeScript(spec: string, baseDir: string, label: string): void {
+  const extensions = (require as any).extensions;
+  if (!extensions || extensions['.ts']) return;
+
+  try {
+    const tsx = require(require.resolve('tsx/cjs/api', { paths: [baseDir, __dirname] }));
+    tsx.register();
+  } catch {
+    throw new Error(`${label} '${spec}' is TypeScript: install tsx (npm install -D tsx) or point to compiled JavaScript`);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Seed Determinism
+ * One source of randomness, time and IDs per seed run, carried on SeedContext.
+ * Faker is seeded per module; everything else a run generates goes through here:
+ *
+ * - random() is a Mulberry32 stream derived from the seed
+ * - uuid() derives v4-shaped UUIDs from the seed and a counter
+ * - now() is pinned to a reference date when the run is deterministic
+ *
+ * Runs that are not pinned keep the wall clock and salt their UUIDs, so
+ * repeated runs against the same database do not collide on unique values.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import type { Faker } from '@faker-js/faker';
+
+// "Now" for pinned runs, and faker's reference date while they run
+export const DETERMINISTIC_REFERENCE_DATE = new Date('2025-01-01T00:00:00.000Z');
+
+export interface SeedDeterminismOptions {
+  pinned?: boolean; // Same seed, same output: fixed clock and unsalted UUIDs (default: false)
+  referenceDate?: Date; // Clock value for pinned runs (default: DETERMINISTIC_REFERENCE_DATE)
+}
+
+/**
+ * Deterministic v4-shaped UUID derived from a seed and a counter
+ */
+export function deterministicUuid(seed: string, counter: number): string {
+  const hex = createHash('sha256').update(`${seed}:${counter}`).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+export class SeedDeterminism {
+  readonly pinned: boolean;
+  readonly referenceDate: Date;
+  private state: number;
+  private uuidCounter = 0;
+
+  constructor(readonly seed: string, options: SeedDeterminismOptions = {}, private salt?: string) {
+    this.pinned = options.pinned ?? false;
+    this.referenceDate = options.referenceDate ?? DETERMINISTIC_REFERENCE_DATE;
+    if (this.salt === undefined) {
+      this.salt = this.pinned ? '' : randomUUID();
+    }
+    this.state = createHash('sha256').update(seed).digest().readUInt32BE(0);
+  }
+
+  /**
+   * Uniform number in [0, 1)
+   */
+  random(): number {
+    this.state = (this.state + 0x6D2B79F5) | 0;
+    let t = Math.imul(this.state ^ (this.state >>> 15), this.state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  uuid(): string {
+    return deterministicUuid(`${this.seed}${this.salt}`, this.uuidCounter++);
+  }
+
+  now(): number {
+    return this.pinned ? this.referenceDate.getTime() : Date.now();
+  }
+
+  date(): Date {
+    return new Date(this.now());
+  }
+
+  /**
+   * Independent stream for one consumer, so its output does not shift when
+   * another consumer draws more or fewer values
+   */
+  fork(scope: string): SeedDeterminism {
+    return new SeedDeterminism(`${this.seed}:${scope}`, {
+      pinned: this.pinned,
+      referenceDate: this.referenceDate
+    }, this.salt);
+  }
+
+  /**
+   * Run with faker's relative dates anchored to the pinned clock
+   */
+  async withFakerClock<T>(faker: Faker, run: () => Promise<T>): Promise<T> {
+    if (!this.pinned) return run();
+
+    faker.setDefaultRefDate(this.referenceDate);
+    try {
+      return await run();
+    } finally {
+      faker.setDefaultRefDate();
+    }
+  }
+}
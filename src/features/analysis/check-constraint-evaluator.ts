@@ -0,0 +1,242 @@
+/**
+ * Check Constraint Evaluator
+ * Evaluates the CHECK definitions Postgres reports (pg_get_constraintdef) against
+ * a row in memory, so violations can be predicted without an insert. Covers the
+ * forms seeders usually trip over:
+ *
+ * - col = ANY (ARRAY['a'::text, 'b'::text]), col IN ('a', 'b'), col <> ALL (...)
+ * - comparisons with literals or other columns, e.g. price >= 0, starts_at < ends_at
+ * - char_length(col) / length(col) comparisons
+ * - col IS [NOT] NULL, col ~ 'pattern'
+ * - AND / OR combinations of the above
+ *
+ * Anything else evaluates to undefined (unknown) rather than guessing.
+ */
+
+type Outcome = boolean | undefined;
+
+const CAST_PATTERN = /::(?:"[^"]+"|character varying|double precision|timestamp with(?:out)? time zone|time with(?:out)? time zone|[a-z_][a-z0-9_]*)(?:\[\])?/gi;
+const SIMPLE_PARENS = /(?<![\w])\(\s*("[^"]+"|[A-Za-z_][\w]*|'(?:[^']|'')*'|-?\d+(?:\.\d+)?)\s*\)/g;
+const IDENTIFIER = /^(?:"([^"]+)"|([A-Za-z_]\w*))$/;
+const LENGTH_FUNCTIONS = ['char_length', 'character_length', 'length'];
+
+/**
+ * true when the row satisfies the constraint, false when it violates it,
+ * undefined when the definition is not understood or needs values the row
+ * does not have (e.g. columns left to their defaults)
+ */
+export function evaluateCheckConstraint(definition: string, row: Record<string, any>): Outcome {
+  let expression = definition.trim().replace(/^CHECK\s*/i, '').replace(/\s+NOT VALID$/i, '');
+  expression = expression.replace(CAST_PATTERN, '');
+
+  let previous: string;
+  do {
+    previous = expression;
+    expression = expression.replace(SIMPLE_PARENS, '$1');
+  } while (expression !== previous);
+
+  return evaluateExpression(expression, row);
+}
+
+function evaluateExpression(expression: string, row: Record<string, any>): Outcome {
+  const text = stripOuterParens(expression.trim());
+
+  const orParts = splitTopLevel(text, 'OR');
+  if (orParts.length > 1) {
+    const outcomes = orParts.map(part => evaluateExpression(part, row));
+    if (outcomes.includes(true)) return true;
+    return outcomes.every(outcome => outcome === false) ? false : undefined;
+  }
+
+  const andParts = splitTopLevel(text, 'AND');
+  if (andParts.length > 1) {
+    const outcomes = andParts.map(part => evaluateExpression(part, row));
+    if (outcomes.includes(false)) return false;
+    return outcomes.every(outcome => outcome === true) ? true : undefined;
+  }
+
+  return evaluateAtom(text, row);
+}
+
+function evaluateAtom(atom: string, row: Record<string, any>): Outcome {
+  let match = atom.match(/^(.+?)\s+IS\s+(NOT\s+)?NULL$/i);
+  if (match) {
+    const value = operand(match[1], row);
+    if (value === undefined) return undefined;
+    return match[2] ? value.value !== null : value.value === null;
+  }
+
+  match = atom.match(/^(.+?)\s*(=\s*ANY|<>\s*ALL)\s*\(?\s*ARRAY\s*\[(.*)\]\s*\)?$/is);
+  if (match) {
+    const listed = parseList(match[3]);
+    return membership(match[1], listed, !match[2].startsWith('='), row);
+  }
+
+  match = atom.match(/^(.+?)\s+(NOT\s+)?IN\s*\((.*)\)$/is);
+  if (match) {
+    return membership(match[1], parseList(match[3]), Boolean(match[2]), row);
+  }
+
+  match = atom.match(/^(.+?)\s*(!~\*|!~|~\*|~)\s*('(?:[^']|'')*')$/);
+  if (match) {
+    const value = operand(match[1], row);
+    const pattern = literal(match[3]);
+    if (value === undefined || typeof pattern !== 'string') return undefined;
+    if (value.value === null) return true;
+    try {
+      const matched = new RegExp(pattern, match[2].includes('*') ? 'i' : '').test(String(value.value));
+      return match[2].startsWith('!') ? !matched : matched;
+    } catch {
+      return undefined;
+    }
+  }
+
+  match = atom.match(/^(.+?)\s*(<=|>=|<>|!=|=|<|>)\s*(.+)$/);
+  if (match) {
+    const left = operand(match[1], row);
+    const right = operand(match[3], row);
+    if (left === undefined || right === undefined) return undefined;
+    if (left.value === null || right.value === null) return true; // NULL satisfies a CHECK
+    return compare(left.value, match[2], right.value);
+  }
+
+  return undefined;
+}
+
+function membership(expression: string, listed: any[] | undefined, negated: boolean, row: Record<string, any>): Outcome {
+  const value = operand(expression, row);
+  if (value === undefined || listed === undefined) return undefined;
+  if (value.value === null) return true;
+
+  const found = listed.some(item => compare(value.value, '=', item));
+  return negated ? !found : found;
+}
+
+/**
+ * Resolve a column, literal or length function. undefined means unknown.
+ */
+function operand(expression: string, row: Record<string, any>): { value: any } | undefined {
+  const text = stripOuterParens(expression.trim());
+
+  const fn = text.match(/^([a-z_]+)\s*\((.+)\)$/i);
+  if (fn && LENGTH_FUNCTIONS.includes(fn[1].toLowerCase())) {
+    const inner = operand(fn[2], row);
+    if (inner === undefined) return undefined;
+    return { value: inner.value === null ? null : String(inner.value).length };
+  }
+
+  const value = literal(text);
+  if (value !== undefined) return { value };
+
+  const identifier = text.match(IDENTIFIER);
+  if (identifier) {
+    const column = identifier[1] ?? identifier[2];
+    if (!(column in row) || row[column] === undefined) return undefined;
+    return { value: row[column] };
+  }
+
+  return undefined;
+}
+
+function literal(text: string): any {
+  if (/^'(?:[^']|'')*'$/.test(text)) return text.slice(1, -1).replace(/''/g, "'");
+  if (/^-?\d+(?:\.\d+)?$/.test(text)) return Number(text);
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (/^null$/i.test(text)) return null;
+  return undefined;
+}
+
+function parseList(text: string): any[] | undefined {
+  const items = splitTopLevel(text, ',').map(item => literal(stripOuterParens(item.trim())));
+  return items.some(item => item === undefined) ? undefined : items;
+}
+
+function compare(left: any, operator: string, right: any): boolean {
+  let a = left;
+  let b = right;
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    a = String(a);
+    b = String(b);
+  } else if (isNumeric(a) && isNumeric(b)) {
+    a = Number(a);
+    b = Number(b);
+  } else {
+    a = a instanceof Date ? a.toISOString() : String(a);
+    b = b instanceof Date ? b.toISOString() : String(b);
+  }
+
+  switch (operator) {
+    case '=': return a === b;
+    case '<>':
+    case '!=': return a !== b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+}
+
+function isNumeric(value: any): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+}
+
+/**
+ * Split on a keyword or comma outside parentheses, brackets and quotes
+ */
+function splitTopLevel(text: string, separator: 'AND' | 'OR' | ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") {
+      quoted = !quoted;
+      continue;
+    }
+    if (quoted) continue;
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (depth !== 0) continue;
+
+    if (separator === ',') {
+      if (char === ',') {
+        parts.push(text.slice(start, i));
+        start = i + 1;
+      }
+    } else if (
+      text.slice(i, i + separator.length).toUpperCase() === separator &&
+      /\s/.test(text[i - 1] ?? '') &&
+      /\s/.test(text[i + separator.length] ?? '')
+    ) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+    }
+  }
+
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+function stripOuterParens(text: string): string {
+  let result = text;
+  while (result.startsWith('(') && result.endsWith(')') && closesAtEnd(result)) {
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+}
+
+function closesAtEnd(text: string): boolean {
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") quoted = !quoted;
+    if (quoted) continue;
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth === 0 && i < text.length - 1) return false;
+  }
+  return depth === 0;
+}
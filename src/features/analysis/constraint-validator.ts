@@ -12,6 +12,7 @@ import {
   DatabaseConstraint 
 } from '../../schema/schema-introspector';
 import { Logger } from '../../core/utils/logger';
+import { evaluateCheckConstraint } from './check-constraint-evaluator';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -534,6 +535,16 @@ export class ConstraintValidator {
     const value = context.data[rule.column];
     const isNull = value === null || value === undefined || value === '';
 
+    // An omitted column is filled from its default on insert
+    if (value === undefined && context.operation === 'insert') {
+      const column = this.schemaInfo?.tables
+        .find(t => t.name === context.table)
+        ?.columns.find(c => c.name === rule.column);
+      if (column?.defaultValue) {
+        return { valid: true, message: 'Value comes from the column default' };
+      }
+    }
+
     if (isNull) {
       const autoFix: AutoFix = {
         rule: rule.id,
@@ -568,6 +579,11 @@ export class ConstraintValidator {
       conditions[param] = context.data[param];
     }
 
+    // NULLs never conflict, and omitted columns get their defaults
+    if (Object.values(conditions).some(value => value === null || value === undefined)) {
+      return { valid: true, message: 'Unique constraint not applicable to null values' };
+    }
+
     try {
       const { data, error } = await this.client
         .from(context.table)
@@ -630,7 +646,7 @@ export class ConstraintValidator {
     }
 
     // Extract referenced table from rule description or SQL
-    const referencedTableMatch = rule.description.match(/referencing (\w+)/);
+    const referencedTableMatch = rule.description.match(/referencing ([\w.]+)/);
     if (!referencedTableMatch) {
       return { valid: false, message: 'Cannot determine referenced table' };
     }
@@ -676,13 +692,19 @@ export class ConstraintValidator {
     rule: ValidationRule, 
     context: ValidationContext
   ): Promise<{ valid: boolean; message: string; suggestedFix?: string }> {
-    // For check constraints, we'd need to evaluate the SQL condition
-    // This is a simplified implementation
     Logger.debug(`Validating check constraint: ${rule.sqlCheck}`);
-    
-    // For now, assume check constraints pass
-    // Full implementation would safely evaluate the SQL condition
-    return { valid: true, message: 'Check constraint assumed valid' };
+
+    const outcome = evaluateCheckConstraint(rule.sqlCheck, context.data);
+    if (outcome === false) {
+      return {
+        valid: false,
+        message: rule.errorMessage,
+        suggestedFix: `Generate values that satisfy ${rule.sqlCheck}`
+      };
+    }
+
+    // Definitions the evaluator does not understand are left to the database
+    return { valid: true, message: outcome ? 'Check constraint satisfied' : 'Check constraint not evaluated' };
   }
 
   /**
@@ -0,0 +1,229 @@
+/**
+ * Fixture Collector
+ * Wraps the seeding client to note every auth user created (with the password
+ * it was given) and every account and membership row inserted, whichever
+ * seeder or strategy made the call. Seeders can add what the client never
+ * sees, such as a scenario alias, a TOTP secret written with raw SQL or the
+ * password behind a bulk written bcrypt hash.
+ */
+
+import { DATABASE_BACKEND, DatabaseBackend } from '../../core/database/database-backend';
+import { tapResult } from '../manifest/recording-client';
+import { FixtureAccount, FixtureUser, SeedFixtures } from './fixture-types';
+
+const ACCOUNT_TABLES = ['accounts', 'teams', 'organizations'];
+const OWNER_COLUMNS = ['primary_owner_user_id', 'owner_id', 'user_id', 'created_by'];
+const MEMBERSHIP_TABLES = ['accounts_memberships', 'memberships', 'team_members', 'team_memberships', 'organization_members', 'account_user'];
+const MEMBERSHIP_ACCOUNT_COLUMNS = ['account_id', 'team_id', 'organization_id'];
+const MEMBERSHIP_ROLE_COLUMNS = ['account_role', 'role'];
+
+type CollectedUser = Omit<FixtureUser, 'key' | 'accounts'>;
+type CollectedAccount = Omit<FixtureAccount, 'key' | 'members'>;
+type UserAnnotation = { key?: string; totpSecret?: string; password?: string };
+
+export class FixtureCollector {
+  private users = new Map<string, CollectedUser>();
+  private annotations = new Map<string, UserAnnotation>();
+  private accounts = new Map<string, CollectedAccount>();
+  private memberships: Array<{ accountId: string; userId: string; role?: string }> = [];
+
+  wrap<T extends object>(client: T): T {
+    const collector = this;
+    return new Proxy(client, {
+      get(target, prop) {
+        if (prop === DATABASE_BACKEND) {
+          const backend: DatabaseBackend | undefined = (target as any)[DATABASE_BACKEND];
+          return backend && collector.wrapBackend(backend);
+        }
+
+        const value = Reflect.get(target, prop);
+
+        if (prop === 'from' && typeof value === 'function') {
+          return (table: string) => collector.wrapTable(value.call(target, table), table);
+        }
+
+        if (prop === 'auth' && value) {
+          return collector.wrapAuth(value);
+        }
+
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+    });
+  }
+
+  /**
+   * Add details the client calls do not carry
+   */
+  annotateUser(userId: string, details: UserAnnotation): void {
+    this.annotations.set(userId, { ...this.annotations.get(userId), ...details });
+  }
+
+  toFixtures(): SeedFixtures {
+    const userKeys = new UniqueKeys();
+    const accountKeys = new UniqueKeys();
+
+    const accounts: FixtureAccount[] = Array.from(this.accounts.values()).map(account => ({
+      key: accountKeys.take(account.slug || account.name || account.id),
+      ...account,
+      members: this.memberships
+        .filter(membership => membership.accountId === account.id)
+        .map(({ userId, role }) => ({ userId, ...(role !== undefined && { role }) }))
+    }));
+
+    const users: FixtureUser[] = Array.from(this.users.values()).map(user => {
+      const annotation = this.annotations.get(user.id) || {};
+      return {
+        key: userKeys.take(annotation.key || user.username || user.email.split('@')[0]),
+        ...user,
+        ...(annotation.password !== undefined && { password: annotation.password }),
+        ...(annotation.totpSecret && { totpSecret: annotation.totpSecret }),
+        accounts: accounts
+          .filter(account => account.ownerId === user.id || account.members.some(member => member.userId === user.id))
+          .map(account => account.id)
+      };
+    });
+
+    return { version: 1, users, accounts };
+  }
+
+  /**
+   * Auth users written straight into `auth.users`; the rows only carry the
+   * password's hash, so the writer annotates the password itself
+   */
+  private wrapBackend(backend: DatabaseBackend): DatabaseBackend {
+    return {
+      kind: backend.kind,
+      query: (sql, params) => backend.query(sql, params),
+      bulkInsert: async (table, rows) => {
+        const inserted = await backend.bulkInsert(table, rows);
+        if (table === 'auth.users') {
+          inserted.forEach(row => this.recordUser(row as { id: string; email?: string }, { email: row.email, user_metadata: row.raw_user_meta_data }));
+        }
+        return inserted;
+      },
+      transaction: backend.transaction && (work => backend.transaction!(tx => work(this.wrapBackend(tx)))),
+      close: () => backend.close()
+    };
+  }
+
+  private wrapAuth(auth: any): any {
+    const collector = this;
+    return new Proxy(auth, {
+      get(target, prop) {
+        const value = Reflect.get(target, prop);
+
+        if (prop === 'admin' && value) {
+          return new Proxy(value, {
+            get(adminTarget, adminProp) {
+              const adminValue = Reflect.get(adminTarget, adminProp);
+
+              if (adminProp === 'createUser' && typeof adminValue === 'function') {
+                return async (attributes: Record<string, any>, ...rest: any[]) => {
+                  const response = await adminValue.call(adminTarget, attributes, ...rest);
+                  if (!response?.error && response?.data?.user) {
+                    collector.recordUser(response.data.user, attributes);
+                  }
+                  return response;
+                };
+              }
+
+              if (adminProp === 'generateLink' && typeof adminValue === 'function') {
+                return async (params: Record<string, any>, ...rest: any[]) => {
+                  const response = await adminValue.call(adminTarget, params, ...rest);
+                  if (params?.type === 'invite' && !response?.error && response?.data?.user) {
+                    collector.recordUser(response.data.user, { email: params.email, user_metadata: params.options?.data });
+                  }
+                  return response;
+                };
+              }
+
+              return typeof adminValue === 'function' ? adminValue.bind(adminTarget) : adminValue;
+            }
+          });
+        }
+
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+    });
+  }
+
+  private wrapTable(handle: any, table: string): any {
+    const name = table.split('.').pop()!;
+    if (!ACCOUNT_TABLES.includes(name) && !MEMBERSHIP_TABLES.includes(name)) {
+      return handle;
+    }
+
+    const collector = this;
+    return new Proxy(handle, {
+      get(target, prop) {
+        const value = Reflect.get(target, prop);
+
+        if ((prop === 'insert' || prop === 'upsert') && typeof value === 'function') {
+          return (values: any, options?: any) =>
+            // Rows come back when the caller (or the manifest recorder) selects them
+            tapResult(value.call(target, values, options), data => collector.recordRows(name, data ?? values));
+        }
+
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+    });
+  }
+
+  private recordUser(user: { id: string; email?: string }, attributes: Record<string, any>): void {
+    const metadata = attributes.user_metadata || {};
+    this.users.set(user.id, {
+      id: user.id,
+      email: user.email || attributes.email,
+      ...(attributes.password !== undefined && { password: attributes.password }),
+      ...((metadata.full_name || metadata.name) && { name: metadata.full_name || metadata.name }),
+      ...(metadata.username && { username: metadata.username }),
+      ...(metadata.role && { role: metadata.role })
+    });
+  }
+
+  private recordRows(table: string, data: Record<string, any> | Record<string, any>[] | null): void {
+    const rows = (Array.isArray(data) ? data : [data]).filter(row => row && typeof row === 'object');
+
+    for (const row of rows) {
+      if (MEMBERSHIP_TABLES.includes(table)) {
+        const accountColumn = MEMBERSHIP_ACCOUNT_COLUMNS.find(column => row[column] !== undefined);
+        const roleColumn = MEMBERSHIP_ROLE_COLUMNS.find(column => row[column] !== undefined);
+        if (!accountColumn || row.user_id === undefined) continue;
+
+        const membership = { accountId: row[accountColumn], userId: row.user_id, role: roleColumn && row[roleColumn] };
+        const known = this.memberships.some(existing =>
+          existing.accountId === membership.accountId && existing.userId === membership.userId
+        );
+        if (!known) this.memberships.push(membership);
+        continue;
+      }
+
+      if (row.id === undefined) continue;
+      const ownerColumn = OWNER_COLUMNS.find(column => row[column] !== undefined && row[column] !== null);
+      this.accounts.set(row.id, {
+        id: row.id,
+        table,
+        ...(row.name && { name: row.name }),
+        ...(row.slug && { slug: row.slug }),
+        ...(ownerColumn && { ownerId: row[ownerColumn] }),
+        personal: row.is_personal_account === true || row.personal_account === true
+      });
+    }
+  }
+}
+
+/**
+ * Hands out each key once, numbering repeats (`alice`, `alice-2`)
+ */
+class UniqueKeys {
+  private taken = new Set<string>();
+
+  take(base: string): string {
+    let key = base;
+    for (let n = 2; this.taken.has(key); n++) {
+      key = `${base}-${n}`;
+    }
+    this.taken.add(key);
+    return key;
+  }
+}
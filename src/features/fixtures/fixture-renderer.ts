@@ -0,0 +1,111 @@
+/**
+ * Fixture Renderer
+ * Writes collected fixtures as JSON, as a TypeScript module with typed keys,
+ * or as `.env` variables. Users and accounts keep their creation order, so a
+ * deterministic seed always renders the same file.
+ */
+
+import path from 'path';
+import { FixtureFormat, SeedFixtures } from './fixture-types';
+
+const FORMATS: Record<string, FixtureFormat> = {
+  '.json': 'json',
+  '.ts': 'ts',
+  '.env': 'env'
+};
+
+const HEADER = 'Generated by supa-seed --emit-fixtures. Do not edit.';
+
+/**
+ * Format for a fixtures file, from its extension (`.env.test` style names count as env)
+ */
+export function fixtureFormat(filePath: string): FixtureFormat {
+  const base = path.basename(filePath);
+  if (base === '.env' || base.startsWith('.env.')) return 'env';
+
+  const format = FORMATS[path.extname(filePath).toLowerCase()];
+  if (!format) {
+    throw new Error(`Cannot tell the fixture format of ${filePath}: use a .json, .ts or .env file`);
+  }
+  return format;
+}
+
+export function renderFixtures(fixtures: SeedFixtures, format: FixtureFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(fixtures, null, 2) + '\n';
+    case 'ts':
+      return renderTypeScript(fixtures);
+    case 'env':
+      return renderEnv(fixtures);
+  }
+}
+
+function renderTypeScript(fixtures: SeedFixtures): string {
+  const byKey = <T extends { key: string }>(items: T[]) =>
+    Object.fromEntries(items.map(({ key, ...item }) => [key, item]));
+  const keyType = (items: Array<{ key: string }>) =>
+    items.length > 0 ? items.map(item => JSON.stringify(item.key)).join(' | ') : 'never';
+
+  return [
+    `// ${HEADER}`,
+    '',
+    'export interface SeededUser {',
+    '  id: string;',
+    '  email: string;',
+    '  password?: string;',
+    '  name?: string;',
+    '  username?: string;',
+    '  role?: string;',
+    '  totpSecret?: string;',
+    '  accounts: string[];',
+    '}',
+    '',
+    'export interface SeededAccount {',
+    '  id: string;',
+    '  table: string;',
+    '  name?: string;',
+    '  slug?: string;',
+    '  ownerId?: string;',
+    '  personal: boolean;',
+    '  members: Array<{ userId: string; role?: string }>;',
+    '}',
+    '',
+    `export type SeededUserKey = ${keyType(fixtures.users)};`,
+    `export type SeededAccountKey = ${keyType(fixtures.accounts)};`,
+    '',
+    `export const users: Record<SeededUserKey, SeededUser> = ${JSON.stringify(byKey(fixtures.users), null, 2)};`,
+    '',
+    `export const accounts: Record<SeededAccountKey, SeededAccount> = ${JSON.stringify(byKey(fixtures.accounts), null, 2)};`,
+    '',
+    'export default { users, accounts };',
+    ''
+  ].join('\n');
+}
+
+function renderEnv(fixtures: SeedFixtures): string {
+  const lines = [`# ${HEADER}`];
+
+  for (const user of fixtures.users) {
+    const prefix = `SEED_USER_${envName(user.key)}`;
+    lines.push(`${prefix}_ID=${envValue(user.id)}`, `${prefix}_EMAIL=${envValue(user.email)}`);
+    if (user.password !== undefined) lines.push(`${prefix}_PASSWORD=${envValue(user.password)}`);
+    if (user.totpSecret) lines.push(`${prefix}_TOTP_SECRET=${envValue(user.totpSecret)}`);
+  }
+
+  for (const account of fixtures.accounts) {
+    const prefix = `SEED_ACCOUNT_${envName(account.key)}`;
+    lines.push(`${prefix}_ID=${envValue(account.id)}`);
+    if (account.slug) lines.push(`${prefix}_SLUG=${envValue(account.slug)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function envName(key: string): string {
+  return key.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function envValue(value: string): string {
+  return /^[\w@.+\-/:]*$/.test(value) ? value : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,36 @@
+/**
+ * Seed Fixture Types
+ * The credentials and ids a seed run produced, in the stable shape written by
+ * `seed --emit-fixtures` for end-to-end suites
+ */
+
+export type FixtureFormat = 'json' | 'ts' | 'env';
+
+export interface SeedFixtures {
+  version: 1;
+  users: FixtureUser[]; // In creation order
+  accounts: FixtureAccount[]; // Team and personal accounts inserted by the run, in creation order
+}
+
+export interface FixtureUser {
+  key: string; // Scenario alias or username, unique within the file
+  id: string;
+  email: string;
+  password?: string; // Missing for invited users
+  name?: string;
+  username?: string;
+  role?: string;
+  totpSecret?: string; // Base32 secret of a verified TOTP factor
+  accounts: string[]; // Ids of the accounts the user owns or belongs to
+}
+
+export interface FixtureAccount {
+  key: string; // Slug, or name when the account has none
+  id: string;
+  table: string;
+  name?: string;
+  slug?: string;
+  ownerId?: string;
+  personal: boolean;
+  members: Array<{ userId: string; role?: string }>;
+}
@@ -26,6 +26,8 @@ export interface SelectionOptions {
   ensureDeterministic?: boolean;
   preserveOrder?: boolean;
   respectWeights?: boolean;
+  random?: () => number; // Seeded source to draw from instead of one derived from `seed`
+  now?: number; // Reference time for age-based weights (default: Date.now())
 }
 
 export interface FilterFunction {
@@ -95,7 +97,7 @@ export class AssetSelectionEngine {
     }
 
     const seed = options.seed || this.DEFAULT_SEED;
-    const rng = this.createSeededRandom(seed);
+    const rng = options.random || this.createSeededRandom(seed);
     
     // Create shuffled copy for selection
     const shuffled = [...assets];
@@ -266,7 +268,7 @@ export class AssetSelectionEngine {
 
       // Apply biases
       if (config.biases) {
-        weight *= this.calculateBiasWeight(asset, config.biases, assets);
+        weight *= this.calculateBiasWeight(asset, config.biases, assets, options);
       }
 
       return Math.max(0, weight); // Ensure non-negative
@@ -314,7 +316,8 @@ export class AssetSelectionEngine {
   private static calculateBiasWeight(
     asset: LoadedAsset, 
     biases: NonNullable<WeightedSelectionConfig['biases']>,
-    allAssets: LoadedAsset[]
+    allAssets: LoadedAsset[],
+    options: SelectionOptions
   ): number {
     let biasMultiplier = 1;
 
@@ -335,7 +338,7 @@ export class AssetSelectionEngine {
 
     // Age bias
     if (biases.byAge && biases.byAge !== 'neutral') {
-      const now = Date.now();
+      const now = options.now ?? Date.now();
       const avgAge = allAssets.reduce((sum, a) => sum + (now - a.lastModified.getTime()), 0) / allAssets.length;
       const assetAge = now - asset.lastModified.getTime();
       
@@ -369,7 +372,7 @@ export class AssetSelectionEngine {
     options: SelectionOptions
   ): LoadedAsset[] {
     const seed = options.seed || this.DEFAULT_SEED;
-    const rng = this.createSeededRandom(seed);
+    const rng = options.random || this.createSeededRandom(seed);
 
     // Calculate cumulative weights
     const totalWeight = weights.reduce((sum, w) => sum + w, 0);
@@ -545,11 +548,11 @@ export class AssetSelectionEngine {
     /**
      * Weight by recency (newer files get higher weight)
      */
-    byRecency: (): WeightFunction => {
+    byRecency: (now?: number): WeightFunction => {
       return (asset, index, assets) => {
-        const now = Date.now();
-        const maxAge = Math.max(...assets.map(a => now - a.lastModified.getTime()));
-        const assetAge = now - asset.lastModified.getTime();
+        const reference = now ?? Date.now();
+        const maxAge = Math.max(...assets.map(a => reference - a.lastModified.getTime()));
+        const assetAge = reference - asset.lastModified.getTime();
         return maxAge > 0 ? 1 - (assetAge / maxAge) : 1;
       };
     },
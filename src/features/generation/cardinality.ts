@@ -0,0 +1,195 @@
+/**
+ * Cardinality
+ * Draws how many child rows each parent row gets from the `cardinality`
+ * specs, so a few users own most of the setups instead of every user owning
+ * the same number. Draws come from a seeded random stream, so a seed always
+ * produces the same counts.
+ */
+
+import { CardinalitySpec, SeedConfig } from '../../core/types/types';
+import { SeedDeterminism } from '../../core/utils/seed-determinism';
+
+const DISTRIBUTIONS = ['poisson', 'zipf', 'normal', 'histogram'];
+const POISSON_DIRECT_LIMIT = 30; // Larger means use the normal approximation
+const RELATIONSHIP_PATTERN = /^[A-Za-z_]\w*\.[A-Za-z_]\w*$/;
+
+export class CardinalitySampler {
+  private values: number[] = [];
+  private cumulative: number[] = [];
+
+  constructor(private spec: CardinalitySpec, private random: () => number) {
+    const problem = cardinalityProblem(spec);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    if (typeof spec === 'object' && spec.distribution === 'zipf') {
+      const min = spec.min ?? 1;
+      for (let count = min; count <= spec.max; count++) {
+        this.addWeight(count, Math.pow(count - min + 1, -(spec.exponent ?? 1.2)));
+      }
+    } else if (typeof spec === 'object' && spec.distribution === 'histogram') {
+      for (const [count, weight] of Object.entries(spec.weights)) {
+        this.addWeight(Number(count), weight);
+      }
+    }
+  }
+
+  /**
+   * Sampler for one `parent.child` relationship of the config, or undefined
+   * when it has no spec. Each relationship draws from its own stream.
+   */
+  static forRelationship(
+    config: SeedConfig,
+    relationship: string,
+    determinism: SeedDeterminism
+  ): CardinalitySampler | undefined {
+    const spec = config.cardinality?.[relationship];
+    if (spec === undefined) return undefined;
+
+    const stream = determinism.fork(`cardinality:${relationship}`);
+    return new CardinalitySampler(spec, () => stream.random());
+  }
+
+  /**
+   * Child count for the next parent
+   */
+  next(): number {
+    const spec = this.spec;
+    if (typeof spec === 'number') return spec;
+
+    switch (spec.distribution) {
+      case 'poisson':
+        return clamp(this.poisson(spec.mean), spec.min, spec.max);
+      case 'normal':
+        return clamp(Math.round(spec.mean + spec.stdDev * this.gaussian()), spec.min, spec.max);
+      default:
+        return this.pick();
+    }
+  }
+
+  /**
+   * Split a fixed total across parents in proportion to one draw per parent,
+   * handing the rounding remainder to the largest fractions
+   */
+  distribute(total: number, parents: number): number[] {
+    if (parents === 0) return [];
+    const draws = Array.from({ length: parents }, () => this.next());
+    const sum = draws.reduce((acc, draw) => acc + draw, 0);
+    if (sum === 0) {
+      return draws.map((_, index) => Math.floor(total / parents) + (index < total % parents ? 1 : 0));
+    }
+
+    const shares = draws.map(draw => (total * draw) / sum);
+    const counts = shares.map(Math.floor);
+    const remainder = total - counts.reduce((acc, count) => acc + count, 0);
+    shares
+      .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+      .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+      .slice(0, remainder)
+      .forEach(({ index }) => counts[index]++);
+
+    return counts;
+  }
+
+  private addWeight(count: number, weight: number): void {
+    if (weight <= 0) return;
+    const previous = this.cumulative[this.cumulative.length - 1] || 0;
+    this.values.push(count);
+    this.cumulative.push(previous + weight);
+  }
+
+  private pick(): number {
+    const target = this.random() * this.cumulative[this.cumulative.length - 1];
+    const index = this.cumulative.findIndex(bound => target < bound);
+    return this.values[index === -1 ? this.values.length - 1 : index];
+  }
+
+  private poisson(mean: number): number {
+    if (mean > POISSON_DIRECT_LIMIT) {
+      return Math.max(0, Math.round(mean + Math.sqrt(mean) * this.gaussian()));
+    }
+
+    const limit = Math.exp(-mean);
+    let count = 0;
+    let product = this.random();
+    while (product > limit) {
+      count++;
+      product *= this.random();
+    }
+    return count;
+  }
+
+  private gaussian(): number {
+    const u1 = 1 - this.random();
+    const u2 = this.random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+}
+
+/**
+ * Problems with the `cardinality` config, reported before anything is seeded
+ */
+export function validateCardinality(cardinality: SeedConfig['cardinality']): string[] {
+  const problems: string[] = [];
+
+  for (const [relationship, spec] of Object.entries(cardinality || {})) {
+    if (!RELATIONSHIP_PATTERN.test(relationship)) {
+      problems.push(`cardinality.${relationship}: key must be 'parent.child', e.g. 'users.setups'`);
+    }
+    const problem = cardinalityProblem(spec);
+    if (problem) {
+      problems.push(`cardinality.${relationship}: ${problem}`);
+    }
+  }
+
+  return problems;
+}
+
+function cardinalityProblem(spec: CardinalitySpec): string | undefined {
+  if (typeof spec === 'number') {
+    return isCount(spec) ? undefined : 'a fixed count must be a whole number of 0 or more';
+  }
+  if (!spec || typeof spec !== 'object' || !DISTRIBUTIONS.includes((spec as any).distribution)) {
+    return `must be a count or an object with distribution ${DISTRIBUTIONS.join(', ')}`;
+  }
+
+  const bounds = spec as { min?: number; max?: number };
+  if ((bounds.min !== undefined && !isCount(bounds.min)) || (bounds.max !== undefined && !isCount(bounds.max))) {
+    return 'min and max must be whole numbers of 0 or more';
+  }
+  if (spec.distribution === 'zipf' && bounds.min === undefined && spec.max < 1) {
+    return 'zipf max must be at least min (default 1)';
+  }
+  if ((bounds.min ?? 0) > (bounds.max ?? Infinity)) {
+    return 'min must not be greater than max';
+  }
+
+  switch (spec.distribution) {
+    case 'poisson':
+      return typeof spec.mean === 'number' && spec.mean >= 0 ? undefined : 'poisson needs a mean of 0 or more';
+    case 'normal':
+      return typeof spec.mean === 'number' && typeof spec.stdDev === 'number' && spec.stdDev >= 0
+        ? undefined
+        : 'normal needs a mean and a stdDev of 0 or more';
+    case 'zipf':
+      if (spec.max === undefined) return 'zipf needs a max';
+      return spec.exponent === undefined || (typeof spec.exponent === 'number' && spec.exponent > 0)
+        ? undefined
+        : 'zipf exponent must be greater than 0';
+    case 'histogram': {
+      const entries = spec.weights && typeof spec.weights === 'object' ? Object.entries(spec.weights) : [];
+      if (entries.some(([count]) => !/^\d+$/.test(count))) return 'histogram counts must be whole numbers of 0 or more';
+      if (entries.some(([, weight]) => typeof weight !== 'number' || weight < 0)) return 'histogram weights must be numbers of 0 or more';
+      return entries.some(([, weight]) => weight > 0) ? undefined : 'histogram needs at least one count with a weight above 0';
+    }
+  }
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function clamp(count: number, min = 0, max = Infinity): number {
+  return Math.min(max, Math.max(min, count));
+}
@@ -0,0 +1,293 @@
+/**
+ * Column Generators
+ * Parses and runs the `tables.<name>.columns.<col>` generator DSL. Declared
+ * columns are generated exactly as configured; every other column keeps the
+ * value the table pipeline detects from its meaning or type.
+ */
+
+import { faker as defaultFaker, Faker } from '@faker-js/faker';
+import { ColumnGeneratorOptions, ColumnGeneratorSpec, SeedConfig } from '../../core/types/types';
+import type { DatabaseTable } from '../../schema/schema-introspector';
+
+export type ColumnGenerator = { nullRatio: number } & (
+  | { kind: 'faker'; method: string; args: any[] }
+  | { kind: 'sequence'; start: number; step: number }
+  | { kind: 'enum'; values?: any[]; weights?: number[] }
+  | { kind: 'ref'; table: string; column: string }
+  | { kind: 'template'; template: string; fields: string[] }
+  | { kind: 'choice'; choices: Array<{ value: any; weight: number }> }
+  | { kind: 'value'; value: any }
+);
+
+export interface DeclaredColumns {
+  generators: Map<string, ColumnGenerator>;
+  references: Map<string, any[]>; // `table.column` -> values a ref generator picks from
+}
+
+export interface GeneratorContext {
+  faker: Faker;
+  index: number; // Position of the row in this run, from 0
+  row: Record<string, any>; // Values generated so far for this row
+  enumValues?: string[]; // The column's database enum
+  references: Map<string, any[]>;
+}
+
+const GENERATOR_NAMES = ['faker', 'sequence', 'enum', 'ref', 'template'];
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+const REF_PATTERN = /^([A-Za-z_][\w.]*)\.([A-Za-z_]\w*)$/;
+
+/**
+ * Turn a declared spec into a generator; throws with a readable reason if it is invalid
+ */
+export function parseColumnGenerator(spec: ColumnGeneratorSpec): ColumnGenerator {
+  if (spec === null || (typeof spec !== 'string' && (typeof spec !== 'object' || Array.isArray(spec)))) {
+    throw new Error('must be a generator string or an object');
+  }
+
+  const options: ColumnGeneratorOptions = typeof spec === 'string' ? { generator: spec } : spec;
+  const nullRatio = options.nullRatio ?? 0;
+  if (typeof nullRatio !== 'number' || nullRatio < 0 || nullRatio > 1) {
+    throw new Error('nullRatio must be a number between 0 and 1');
+  }
+
+  if (options.choices !== undefined) {
+    return { kind: 'choice', choices: parseChoices(options.choices), nullRatio };
+  }
+  if ('value' in options) {
+    return { kind: 'value', value: options.value, nullRatio };
+  }
+  if (typeof options.generator !== 'string' || options.generator.trim() === '') {
+    throw new Error('needs a generator, choices or value');
+  }
+
+  const separator = options.generator.indexOf(':');
+  const name = (separator === -1 ? options.generator : options.generator.slice(0, separator)).trim();
+  const argument = separator === -1 ? '' : options.generator.slice(separator + 1).trim();
+
+  switch (name) {
+    case 'faker': {
+      if (!resolveFakerMethod(defaultFaker, argument)) {
+        throw new Error(`unknown faker method "${argument}" (e.g. faker:person.firstName)`);
+      }
+      if (options.args !== undefined && !Array.isArray(options.args)) {
+        throw new Error('args must be an array');
+      }
+      return { kind: 'faker', method: argument, args: options.args || [], nullRatio };
+    }
+
+    case 'sequence': {
+      const start = options.start ?? 1;
+      const step = options.step ?? 1;
+      if (!Number.isFinite(start) || !Number.isFinite(step) || step === 0) {
+        throw new Error('sequence start must be a number and step a non-zero number');
+      }
+      return { kind: 'sequence', start, step, nullRatio };
+    }
+
+    case 'enum': {
+      const { values, weights } = options;
+      if (values !== undefined && (!Array.isArray(values) || values.length === 0)) {
+        throw new Error('enum values must be a non-empty array');
+      }
+      if (weights !== undefined) {
+        if (!values) throw new Error('enum weights need explicit values');
+        if (!Array.isArray(weights) || weights.length !== values.length) {
+          throw new Error('enum weights must have one weight per value');
+        }
+        validateWeights(weights);
+      }
+      return { kind: 'enum', values, weights, nullRatio };
+    }
+
+    case 'ref': {
+      const match = argument.match(REF_PATTERN);
+      if (!match) {
+        throw new Error(`ref must name a table and column, e.g. ref:accounts.id (got "${argument}")`);
+      }
+      return { kind: 'ref', table: match[1], column: match[2], nullRatio };
+    }
+
+    case 'template': {
+      const template = argument.replace(/^"(.*)"$/s, '$1');
+      if (!template) {
+        throw new Error('template must not be empty');
+      }
+      const fields = templateFields(template);
+      for (const field of fields) {
+        if (field.startsWith('faker:') && !resolveFakerMethod(defaultFaker, field.slice(6))) {
+          throw new Error(`unknown faker method "${field.slice(6)}" in template`);
+        }
+      }
+      return { kind: 'template', template, fields, nullRatio };
+    }
+
+    default:
+      throw new Error(`unknown generator "${name}" (expected one of: ${GENERATOR_NAMES.join(', ')})`);
+  }
+}
+
+/**
+ * Check every declared generator in `tables`. Returns one message per problem.
+ */
+export function validateColumnGenerators(tables: SeedConfig['tables']): string[] {
+  const problems: string[] = [];
+
+  for (const [tableName, tableConfig] of Object.entries(tables || {})) {
+    const columns = tableConfig?.columns;
+    if (columns === undefined) continue;
+
+    if (typeof columns !== 'object' || columns === null || Array.isArray(columns)) {
+      problems.push(`tables.${tableName}.columns must be an object of column generators`);
+      continue;
+    }
+
+    for (const [column, spec] of Object.entries(columns)) {
+      try {
+        parseColumnGenerator(spec);
+      } catch (error: any) {
+        problems.push(`tables.${tableName}.columns.${column}: ${error.message}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Parse a table's declarations against its introspected columns. Declarations
+ * that cannot apply to this table are reported and left out.
+ */
+export function compileColumnGenerators(
+  table: DatabaseTable,
+  specs: Record<string, ColumnGeneratorSpec> = {}
+): { generators: Map<string, ColumnGenerator>; problems: string[] } {
+  const generators = new Map<string, ColumnGenerator>();
+  const problems: string[] = [];
+  const columnNames = new Set(table.columns.map(column => column.name));
+
+  for (const [columnName, spec] of Object.entries(specs)) {
+    const column = table.columns.find(col => col.name === columnName);
+    if (!column) {
+      problems.push(`column ${columnName} does not exist`);
+      continue;
+    }
+
+    let generator: ColumnGenerator;
+    try {
+      generator = parseColumnGenerator(spec);
+    } catch (error: any) {
+      problems.push(`${columnName}: ${error.message}`);
+      continue;
+    }
+
+    if (generator.kind === 'enum' && !generator.values && !column.enumValues?.length) {
+      problems.push(`${columnName}: enum needs values because the column is not a database enum`);
+      continue;
+    }
+
+    if (generator.kind === 'template') {
+      const unknown = generator.fields.filter(field =>
+        field !== 'n' && !field.startsWith('faker:') && !columnNames.has(field)
+      );
+      if (unknown.length > 0) {
+        problems.push(`${columnName}: template refers to unknown columns ${unknown.join(', ')}`);
+        continue;
+      }
+    }
+
+    generators.set(columnName, generator);
+  }
+
+  return { generators, problems };
+}
+
+/**
+ * Generate one value. Templates should run after the columns they refer to.
+ */
+export function generateColumnValue(generator: ColumnGenerator, context: GeneratorContext): any {
+  const { faker } = context;
+
+  if (generator.nullRatio > 0 && faker.datatype.boolean({ probability: generator.nullRatio })) {
+    return null;
+  }
+
+  switch (generator.kind) {
+    case 'faker':
+      return resolveFakerMethod(faker, generator.method)!(...generator.args);
+
+    case 'sequence':
+      return generator.start + context.index * generator.step;
+
+    case 'enum': {
+      const values = generator.values || context.enumValues || [];
+      if (values.length === 0) return null;
+      return generator.weights
+        ? pickWeighted(faker, values.map((value, i) => ({ value, weight: generator.weights![i] })))
+        : faker.helpers.arrayElement(values);
+    }
+
+    case 'ref': {
+      const values = context.references.get(`${generator.table}.${generator.column}`) || [];
+      return values.length > 0 ? faker.helpers.arrayElement(values) : null;
+    }
+
+    case 'template':
+      return generator.template.replace(PLACEHOLDER_PATTERN, (_match, field: string) => {
+        if (field === 'n') return String(context.index + 1);
+        if (field.startsWith('faker:')) return String(resolveFakerMethod(faker, field.slice(6))!());
+        const value = context.row[field];
+        return value === null || value === undefined ? '' : String(value);
+      });
+
+    case 'choice':
+      return pickWeighted(faker, generator.choices);
+
+    case 'value':
+      return generator.value;
+  }
+}
+
+export function templateFields(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+}
+
+function parseChoices(choices: NonNullable<ColumnGeneratorOptions['choices']>): Array<{ value: any; weight: number }> {
+  const list = Array.isArray(choices)
+    ? choices.map(choice => {
+      if (typeof choice !== 'object' || choice === null || !('value' in choice)) {
+        throw new Error('each choice must be an object with a value and an optional weight');
+      }
+      return { value: choice.value, weight: choice.weight ?? 1 };
+    })
+    : typeof choices === 'object' && choices !== null
+      ? Object.entries(choices).map(([value, weight]) => ({ value, weight }))
+      : null;
+
+  if (!list || list.length === 0) {
+    throw new Error('choices must be a non-empty object of value: weight or an array of { value, weight }');
+  }
+  validateWeights(list.map(choice => choice.weight));
+  return list;
+}
+
+function validateWeights(weights: any[]): void {
+  if (weights.some(weight => typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0)) {
+    throw new Error('weights must be numbers of 0 or more');
+  }
+  if (!weights.some(weight => weight > 0)) {
+    throw new Error('at least one weight must be greater than 0');
+  }
+}
+
+function pickWeighted(faker: Faker, choices: Array<{ value: any; weight: number }>): any {
+  return faker.helpers.weightedArrayElement(choices.filter(choice => choice.weight > 0));
+}
+
+function resolveFakerMethod(faker: Faker, path: string): ((...args: any[]) => any) | undefined {
+  const parts = path.split('.');
+  if (parts.length !== 2) return undefined;
+
+  const module = (faker as any)[parts[0]];
+  const method = module && typeof module === 'object' ? module[parts[1]] : undefined;
+  return typeof method === 'function' ? method.bind(module) : undefined;
+}
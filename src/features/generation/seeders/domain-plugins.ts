@@ -0,0 +1,90 @@
+/**
+ * Domain Seeder Plugins
+ * The hand-written seeders for the outdoor setups/gear schema, registered by name
+ * so they can be enabled, skipped or combined with the table pipeline
+ */
+
+import { SeedConfig, SeedContext, SeedModule } from '../../../core/types/types';
+import { Logger } from '../../../core/utils/logger';
+import { AuthSeeder } from './auth-seeder';
+import { UserSeeder } from './user-seeder';
+import { BaseDataSeeder } from './base-data-seeder';
+import { SetupSeeder } from './setup-seeder';
+import { GearSeeder } from './gear-seeder';
+import { MediaSeeder } from './media-seeder';
+
+export const DOMAIN_PLUGINS: Record<string, new (context: SeedContext) => SeedModule> = {
+  auth: AuthSeeder,
+  users: UserSeeder,
+  'base-data': BaseDataSeeder,
+  setups: SetupSeeder,
+  gear: GearSeeder,
+  media: MediaSeeder,
+};
+
+// Plugins whose cached output each plugin reads, when they are enabled too
+export const PLUGIN_DEPENDENCIES: Record<string, string[]> = {
+  auth: [],
+  users: ['auth'],
+  'base-data': ['users'], // schemaAdapter
+  setups: ['users', 'base-data'], // users, baseTemplates
+  gear: ['setups'],
+  media: ['setups'],
+};
+
+// Names configs written by `init` and older versions use
+const LEGACY_PLUGIN_NAMES: Record<string, string> = {
+  baseData: 'base-data',
+};
+
+// In table mode only auth and user creation stay with plugins by default
+export const TABLE_MODE_DEFAULT_PLUGINS = ['auth', 'users'];
+
+/**
+ * Names of the plugins to run for a config, in execution order. Plugins run
+ * after the enabled plugins they depend on; otherwise in the listed order.
+ */
+export function resolveDomainPlugins(config: SeedConfig): string[] {
+  // A scenario seeds exactly what it declares unless plugins are enabled explicitly
+  const defaults = config.scenario
+    ? []
+    : config.seeding?.mode === 'tables'
+      ? TABLE_MODE_DEFAULT_PLUGINS
+      : Object.keys(DOMAIN_PLUGINS);
+  const enabled = (config.seeders?.enabled ?? defaults).map(pluginName);
+  const skip = (config.seeders?.skip ?? []).map(pluginName);
+
+  const selected = Array.from(new Set(enabled)).filter(name => {
+    if (!DOMAIN_PLUGINS[name]) {
+      Logger.warn(`Unknown seeder plugin '${name}' (available: ${Object.keys(DOMAIN_PLUGINS).join(', ')})`);
+      return false;
+    }
+    return !skip.includes(name);
+  });
+
+  return orderByDependencies(selected);
+}
+
+function pluginName(name: string): string {
+  return LEGACY_PLUGIN_NAMES[name] ?? name;
+}
+
+/**
+ * Stable topological order: each step takes the first listed plugin whose
+ * selected dependencies have all been placed
+ */
+function orderByDependencies(selected: string[]): string[] {
+  const ordered: string[] = [];
+  const remaining = [...selected];
+
+  while (remaining.length > 0) {
+    const ready = remaining.findIndex(name =>
+      (PLUGIN_DEPENDENCIES[name] || []).every(dependency => !remaining.includes(dependency) || dependency === name));
+    // The declared dependencies have no cycles; keep the listed order if a plugin's ever do
+    const next = ready === -1 ? 0 : ready;
+    ordered.push(remaining[next]);
+    remaining.splice(next, 1);
+  }
+
+  return ordered;
+}
@@ -1,4 +1,5 @@
 import { SeedModule, CachedSetup } from '../../../core/types/types';
+import { CardinalitySampler } from '../cardinality';
 
 export class GearSeeder extends SeedModule {
   private gearData = {
@@ -80,6 +81,11 @@ export class GearSeeder extends SeedModule {
     const setups = this.context.cache.get('setups') as CachedSetup[];
     console.log(`🔍 Checking cache for setups... found ${setups?.length || 0} setups`);
     
+    if (!setups?.length && this.context.seeded) {
+      console.log('✅ Setups already reach the configured count, no gear to top up');
+      return;
+    }
+
     if (!setups?.length) {
       const cacheKeys = Array.from(this.context.cache.keys());
       console.error('❌ CRITICAL: No setups found in cache for gear seeding');
@@ -566,11 +572,12 @@ export class GearSeeder extends SeedModule {
     console.log(`📦 Found ${allGear.length} gear items available for associations`);
 
     let totalAssociations = 0;
+    const cardinality = CardinalitySampler.forRelationship(this.context.config, 'setups.setup_items', this.determinism);
 
     for (const setup of setups) {
       // Determine gear compatibility based on setup category
       const relevantGear = this.selectRelevantGear(setup, allGear);
-      const itemCount = faker.number.int({ min: 3, max: 12 });
+      const itemCount = cardinality ? cardinality.next() : faker.number.int({ min: 3, max: 12 });
       const selectedGear = faker.helpers.arrayElements(relevantGear, itemCount);
 
       for (const gear of selectedGear) {
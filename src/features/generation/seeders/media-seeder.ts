@@ -1,5 +1,6 @@
 import { SeedModule, CachedSetup, GeneratedImage, ImageGenerationOptions } from '../../../core/types/types';
 import { generatePlaceholderImage, downloadUnsplashImage, optimizeImage } from '../../../core/utils/image-utils';
+import { CardinalitySampler } from '../cardinality';
 
 export class MediaSeeder extends SeedModule {
   private readonly bucketName = 'setup-images';
@@ -11,14 +12,14 @@ export class MediaSeeder extends SeedModule {
       return;
     }
 
+    const cardinality = CardinalitySampler.forRelationship(this.context.config, 'setups.media_attachments', this.determinism);
+
     for (const setup of setups) {
-      await this.seedSetupImages(setup);
+      await this.seedSetupImages(setup, cardinality ? cardinality.next() : this.context.config.imagesPerSetup);
     }
   }
 
-  private async seedSetupImages(setup: CachedSetup): Promise<void> {
-    const { config } = this.context;
-    const imageCount = config.imagesPerSetup;
+  private async seedSetupImages(setup: CachedSetup, imageCount: number): Promise<void> {
 
     for (let i = 0; i < imageCount; i++) {
       try {
@@ -58,6 +59,7 @@ export class MediaSeeder extends SeedModule {
           width: 1200,
           height: 800,
           category: this.mapCategoryToImageCategory(setup.category),
+          fileId: this.determinism.uuid().slice(0, 8),
         });
         
         if (unsplashImage) {
@@ -81,6 +83,7 @@ export class MediaSeeder extends SeedModule {
       height: 800,
       category: this.mapCategoryToImageCategory(setup.category),
       style: 'realistic',
+      fileId: this.determinism.uuid().slice(0, 8),
     };
 
     // Generate contextual placeholder
@@ -5,6 +5,8 @@ import { StreamingBatchProcessor, BatchItem, BatchResult } from '../../../core/b
 import { Logger } from '../../../core/utils/logger';
 import MemoryManager from '../../../core/utils/memory-manager';
 import { createQueryTranslator } from '../../../schema/query-translator';
+import { CardinalitySampler } from '../cardinality';
+import { isPolicyViolation } from '../../rls/user-impersonator';
 
 export class SetupSeeder extends SeedModule {
   private getSetupTypes(): Record<string, string[]> {
@@ -152,6 +154,8 @@ export class SetupSeeder extends SeedModule {
         console.warn(`⚠️  Large dataset configured: ${totalSetupsConfig} setups may take significant time`);
         Logger.warn(`Large dataset warning: ${totalSetupsConfig} setups configured`);
       }
+    } else if (this.context.config.cardinality?.['users.setups'] !== undefined) {
+      console.log('📊 Drawing setups per user from cardinality.users.setups');
     } else {
       console.log(`⚠️  Using legacy per-user count: max ${this.context.config.setupsPerUser} setups per user`);
       Logger.warn(`Legacy mode: using setupsPerUser=${this.context.config.setupsPerUser} (may generate unexpected amounts)`);
@@ -256,7 +260,7 @@ export class SetupSeeder extends SeedModule {
       is_public: faker.datatype.boolean(0.8), // 80% public
       created_at: faker.date.between({ 
         from: new Date('2024-01-01'), 
-        to: new Date() 
+        to: faker.defaultRefDate() 
       }).toISOString(),
     };
     
@@ -268,7 +272,9 @@ export class SetupSeeder extends SeedModule {
     try {
       // Use query translator for dynamic table mapping
       const framework = this.context.config.schema?.framework || 'makerkit';
-      const translator = createQueryTranslator(client, {
+      // With impersonation the user inserts their own setup, so the table's RLS policies apply
+      const writer = await this.context.impersonation?.clientFor('setups', user.id) || client;
+      const translator = createQueryTranslator(writer, {
         framework,
         enableValidation: true,
         enableCaching: true
@@ -280,6 +286,10 @@ export class SetupSeeder extends SeedModule {
         .single();
 
       if (error) {
+        if (writer !== client && isPolicyViolation(error)) {
+          await this.context.impersonation!.recordViolation('setups', user.id, error);
+          return null;
+        }
         console.error(`❌ Failed to create setup for user ${user.username}:`, error);
         return null;
       }
@@ -357,12 +367,49 @@ export class SetupSeeder extends SeedModule {
     }
   }
 
+  /**
+   * Setups per user drawn from cardinality.users.setups, or null without a spec.
+   * With tables.setups.count the draws only set each user's share of the total.
+   */
+  private drawSetupCounts(users: CachedUser[]): Map<string, number> | null {
+    const sampler = CardinalitySampler.forRelationship(this.context.config, 'users.setups', this.determinism);
+    if (!sampler) return null;
+
+    const total = this.context.config.tables?.setups?.count;
+    const counts = total && total > 0
+      ? sampler.distribute(total, users.length)
+      : users.map(() => sampler.next());
+
+    return new Map(users.map((user, index) => [user.id, counts[index]]));
+  }
+
+  /**
+   * Setups earlier runs created, per user id (empty unless topping up)
+   */
+  private countSeededSetups(schemaAdapter: SchemaAdapter): Map<string, number> {
+    const counts = new Map<string, number>();
+    const seeded = this.context.seeded;
+    if (!seeded) return counts;
+
+    const table = schemaAdapter ? schemaAdapter.getSetupsTableName() : 'setups';
+    const userForeignKey = schemaAdapter ? schemaAdapter.getUserForeignKey() : 'account_id';
+    for (const row of seeded.getRows(table)) {
+      const userId = row[userForeignKey];
+      if (userId !== undefined) {
+        counts.set(userId, (counts.get(userId) || 0) + 1);
+      }
+    }
+    return counts;
+  }
+
   private async processSetupsInBatches(
     users: CachedUser[],
     templates: CachedBaseTemplate[],
     schemaAdapter: SchemaAdapter
   ): Promise<void> {
     const createdSetups: CachedSetup[] = [];
+    const seededSetups = this.countSeededSetups(schemaAdapter);
+    const drawnCounts = this.drawSetupCounts(users);
     
     // Configure batch processor for memory efficiency
     const batchProcessor = new StreamingBatchProcessor<CachedUser, CachedSetup[]>({
@@ -390,7 +437,12 @@ export class SetupSeeder extends SeedModule {
           let setupCount: number;
           const totalSetupsConfig = this.context.config.tables?.setups?.count;
           
-          if (totalSetupsConfig && totalSetupsConfig > 0) {
+          if (drawnCounts) {
+            // Cardinality spec: counts drawn per user, scaled to the total count if one is set
+            setupCount = drawnCounts.get(user.id) || 0;
+            
+            Logger.debug(`📊 Using cardinality draw: ${setupCount} setups for user ${user.username}`);
+          } else if (totalSetupsConfig && totalSetupsConfig > 0) {
             // New behavior: distribute total count across all users
             const totalUsers = users.length;
             const baseSetupsPerUser = Math.floor(totalSetupsConfig / totalUsers);
@@ -404,6 +456,9 @@ export class SetupSeeder extends SeedModule {
             setupCount = Math.max(0, setupCount);
             
             Logger.debug(`🎯 Using total count distribution: ${setupCount} setups for user ${user.username} (${userIndex + 1}/${totalUsers}, total: ${totalSetupsConfig})`);
+          } else if (this.context.seeded) {
+            // Top-up runs fill every user up to setupsPerUser
+            setupCount = this.context.config.setupsPerUser;
           } else {
             // Legacy behavior: random setups per user
             setupCount = this.context.faker.number.int({ 
@@ -414,6 +469,12 @@ export class SetupSeeder extends SeedModule {
             Logger.debug(`⚠️ Using legacy setupsPerUser: ${setupCount} setups for user ${user.username}`);
           }
           
+          const alreadySeeded = seededSetups.get(user.id) || 0;
+          if (alreadySeeded > 0) {
+            setupCount = Math.max(0, setupCount - alreadySeeded);
+            Logger.debug(`🔁 User ${user.username} already has ${alreadySeeded} seeded setups, creating ${setupCount} more`);
+          }
+          
           Logger.debug(`🎒 Creating ${setupCount} setups for user: ${user.username}`);
           
           // Create setups for this user
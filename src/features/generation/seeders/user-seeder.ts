@@ -1,24 +1,35 @@
 import { SeedModule, CachedUser } from '../../../core/types/types';
 import { generateUsername, generateTestEmail } from '../../../core/utils/auth-utils';
 import { SchemaAdapter } from '../../../core/schema-adapter';
+import { BulkAuthWriter } from '../../../auth/bulk-auth-writer';
+import { AuthStateSeeder, AuthUserState, assignAuthStates } from '../../../auth/auth-states';
 import { getDomainConfig } from '../../../domains';
 import { 
   MakerKitCompatibilityLayer, 
   MakerKitCompatibilityConfig,
   StandardTestUser 
 } from '../../integration/makerkit-compatibility';
-import * as crypto from 'crypto';
+
+interface GeneratedUserProfile {
+  email: string;
+  name: string;
+  username: string;
+  bio: string;
+  picture_url: string;
+}
 
 export class UserSeeder extends SeedModule {
   private schemaAdapter!: SchemaAdapter;
   private makerkitCompatibility!: MakerKitCompatibilityLayer;
   private userCounter = 0; // Counter for truly unique user generation
+  private authStates?: AuthStateSeeder;
 
   async seed(): Promise<void> {
     try {
       
       // Initialize schema adapter with config override
       this.schemaAdapter = new SchemaAdapter(this.context.client, this.context.config);
+      this.schemaAdapter.useDeterminism(this.determinism);
       await this.schemaAdapter.detectSchema();
 
       // Initialize MakerKit compatibility layer
@@ -29,7 +40,9 @@ export class UserSeeder extends SeedModule {
       let failedUsers = 0;
 
       // NEW: Handle different user strategies (SUPASEED-001)
-      const userStrategy = this.context.config.userStrategy || 'create-new';
+      // Top-up runs keep the users earlier runs created and add the rest
+      const configuredStrategy = this.context.config.userStrategy || 'create-new';
+      const userStrategy = this.context.seeded && configuredStrategy === 'create-new' ? 'hybrid' : configuredStrategy;
       
       switch (userStrategy) {
         case 'use-existing':
@@ -65,9 +78,19 @@ export class UserSeeder extends SeedModule {
           
           // Create diverse generated users with error recovery
           console.log(`🔄 Creating ${this.context.config.userCount} users...`);
+          const authStates = assignAuthStates(this.context.config.userCount, this.context.config.authUsers?.states, this.determinism);
+          this.reportAuthStates(authStates);
+          if (this.context.config.authUsers?.bulkInsert) {
+            const bulkResult = await this.createUsersInBulk(authStates);
+            users.push(...bulkResult.users);
+            this.context.stats.usersCreated += bulkResult.users.length;
+            successfulUsers += bulkResult.users.length;
+            failedUsers += bulkResult.failed;
+            break;
+          }
           for (let i = 0; i < this.context.config.userCount; i++) {
             try {
-              const user = await this.createUser();
+              const user = authStates[i] === 'confirmed' ? await this.createUser() : await this.createUserInState(authStates[i]);
               if (user) {
                 users.push(user);
                 this.context.stats.usersCreated++;
@@ -129,21 +152,30 @@ export class UserSeeder extends SeedModule {
    */
   private async useExistingUsers(): Promise<CachedUser[]> {
     const existingConfig = this.context.config.existingUsers || {};
-    const table = existingConfig.table || 'accounts';
-    const filter = existingConfig.filter || { is_personal_account: true };
+    const seeded = this.context.seeded;
+    // Top-up runs only reuse users earlier runs seeded, from the table they were created in
+    const table = existingConfig.table || (seeded ? this.schemaAdapter.getUserTableName() : 'accounts');
+    const filter = existingConfig.filter || (seeded ? {} : { is_personal_account: true });
     const idField = existingConfig.idField || 'id';
 
+    if (seeded && seeded.authUserIds.length === 0) {
+      return [];
+    }
+
     console.log(`🔍 Querying existing users from '${table}' table...`);
     console.log(`🔍 Filter criteria:`, filter);
 
     try {
       // Query existing users with the specified filter
-      const query = this.context.client.from(table).select('*');
+      let query = this.context.client.from(table).select('*');
       
       // Apply filter criteria
       Object.entries(filter).forEach(([key, value]) => {
-        query.eq(key, value);
+        query = query.eq(key, value);
       });
+      if (seeded) {
+        query = query.in(idField, seeded.authUserIds);
+      }
 
       const { data: existingUsers, error } = await query;
 
@@ -219,12 +251,19 @@ export class UserSeeder extends SeedModule {
     console.log(`📋 Found ${existingUsers.length} existing users`);
 
     // Step 2: Create additional users based on configuration
+    // (for top-up runs, however many are missing to reach userCount)
     const additionalConfig = this.context.config.additionalUsers || {};
-    const additionalCount = additionalConfig.count || 7;
+    const topUp = Boolean(this.context.seeded);
+    const additionalCount = topUp
+      ? Math.max(0, this.context.config.userCount - existingUsers.length)
+      : additionalConfig.count || 7;
     const personas = additionalConfig.personas || ['casual_user', 'expert_user', 'content_creator', 'admin_user', 'power_user'];
     
     // NEW: Pre-check constraints to determine realistic user creation limits
-    const constraintLimits = await this.checkUserCreationLimits();
+    // (top-up runs create users like create-new runs do, so the limits do not apply)
+    const constraintLimits = topUp
+      ? { maxAdditional: Infinity, existingPersonalAccounts: 0, maxPersonalAccounts: Infinity, constraintDetected: false }
+      : await this.checkUserCreationLimits();
     const safeAdditionalCount = Math.min(additionalCount, constraintLimits.maxAdditional);
     
     if (safeAdditionalCount < additionalCount) {
@@ -238,13 +277,16 @@ export class UserSeeder extends SeedModule {
     
     const newUsers: CachedUser[] = [];
     let createdCount = 0;
+    if (topUp) {
+      this.userCounter = existingUsers.length; // Continue the numbering of earlier runs
+    }
     let failedCount = 0;
 
     for (let i = 0; i < safeAdditionalCount; i++) {
       try {
         // Create user with persona-based profile
         const persona = personas[i % personas.length];
-        const user = await this.createPersonaUser(persona, i);
+        const user = topUp ? await this.createUser() : await this.createPersonaUser(persona, i);
         
         if (user) {
           newUsers.push(user);
@@ -302,8 +344,7 @@ export class UserSeeder extends SeedModule {
     
     // Create truly unique email to prevent conflicts (faker is seeded so names repeat)
     this.userCounter++;
-    const uuid = crypto.randomUUID().replace(/-/g, '').substring(0, 12);
-    const timestamp = Date.now();
+    const { uuid, timestamp } = this.uniqueEmailParts();
     // Use timestamp + UUID instead of faker names to ensure absolute uniqueness
     const username = `user_${this.userCounter}_${timestamp}_${uuid}`;
     const email = `${username}@${this.context.config.emailDomain || 'supaseed-personas.test'}`;
@@ -431,7 +472,8 @@ export class UserSeeder extends SeedModule {
     this.makerkitCompatibility = new MakerKitCompatibilityLayer(
       this.context.client,
       compatibilityConfig,
-      this.schemaAdapter
+      this.schemaAdapter,
+      this.determinism
     );
 
     // Initialize and validate compatibility
@@ -527,7 +569,7 @@ export class UserSeeder extends SeedModule {
     
     // Convert StandardTestUser[] to CachedUser[] format
     const cachedUsers: CachedUser[] = result.created.map(user => ({
-      id: crypto.randomUUID(), // This will be updated with actual ID from database
+      id: this.determinism.uuid(), // This will be updated with actual ID from database
       email: user.email,
       username: user.username,
       name: user.name,
@@ -596,33 +638,17 @@ export class UserSeeder extends SeedModule {
     return createdUsers;
   }
 
-  private async createUser(): Promise<CachedUser | null> {
-    const { faker } = this.context;
-    const domainConfig = getDomainConfig(this.context.config.domain);
-    
-    // Generate realistic profile based on domain
-    const firstName = faker.person.firstName();
-    const lastName = faker.person.lastName();
-    
-    // Use truly unique approach with UUID to prevent any collision
-    this.userCounter++;
-    const uuid = crypto.randomUUID().replace(/-/g, '').substring(0, 12);
-    const timestamp = Date.now();
-    const username = `user_${this.userCounter}_${timestamp}_${uuid}`;
-    const email = `${username}@${this.context.config.emailDomain || 'supaseed.test'}`;
-    
-    
-    const bio = this.generateUserBio(domainConfig);
-    const name = `${firstName} ${lastName}`;
-    
+  private async createUser(
+    profile: GeneratedUserProfile = this.generateUserProfile(),
+    authUserId?: string
+  ): Promise<CachedUser | null> {
+    const { email, name, username } = profile;
+
     try {
       // Use schema adapter to create user with appropriate strategy
       const result = await this.schemaAdapter.createUserForSchema({
-        email,
-        name,
-        username,
-        bio,
-        picture_url: this.generateProfileImage(firstName, lastName),
+        ...profile,
+        ...(authUserId && { id: authUserId, authUserExists: true }),
       });
 
       if (!result.success) {
@@ -650,9 +676,116 @@ export class UserSeeder extends SeedModule {
     }
   }
 
-  private generateUserBio(domainConfig: any): string {
+  private generateUserProfile(): GeneratedUserProfile {
     const { faker } = this.context;
+    const domainConfig = getDomainConfig(this.context.config.domain);
+    
+    // Generate realistic profile based on domain
+    const firstName = faker.person.firstName();
+    const lastName = faker.person.lastName();
     
+    // Use truly unique approach with UUID to prevent any collision
+    this.userCounter++;
+    const { uuid, timestamp } = this.uniqueEmailParts();
+    const username = `user_${this.userCounter}_${timestamp}_${uuid}`;
+    const email = `${username}@${this.context.config.emailDomain || 'supaseed.test'}`;
+
+    return {
+      email,
+      name: `${firstName} ${lastName}`,
+      username,
+      bio: this.generateUserBio(domainConfig),
+      picture_url: this.generateProfileImage(firstName, lastName),
+    };
+  }
+
+  /**
+   * Write every generated auth user in one batch (authUsers.bulkInsert), then
+   * create their profiles through the schema adapter as usual
+   */
+  private async createUsersInBulk(authStates: AuthUserState[]): Promise<{ users: CachedUser[]; failed: number }> {
+    const profiles = authStates.map(() => this.generateUserProfile());
+    const writer = new BulkAuthWriter(this.context.client, {
+      supabaseUrl: this.context.config.supabaseUrl,
+      defaultPassword: this.context.config.testUserPassword,
+      determinism: this.determinism
+    });
+
+    const result = await writer.createUsers(profiles.map((profile, i) => this.authStateSeeder.toBulkUser({
+      email: profile.email,
+      userMetadata: { full_name: profile.name, username: profile.username }
+    }, authStates[i])));
+    result.failed.forEach(failure => console.log(`    ⚠️  User creation failed for ${failure.email}: ${failure.error}`));
+    console.log(`⚡ Bulk inserted ${result.created.length} auth users`);
+
+    const created = new Map(result.created.map(user => [user.email, user]));
+    const users: CachedUser[] = [];
+    for (const [i, profile] of profiles.entries()) {
+      const written = created.get(profile.email.toLowerCase());
+      const id = written?.id;
+      if (written?.password) {
+        // The fixture collector only sees the hash in auth.users
+        this.context.fixtures?.annotateUser(written.id, { password: written.password });
+      }
+      if (id && authStates[i] === 'oauthOnly') {
+        const error = await this.authStateSeeder.addOAuthIdentities(id, profile.email);
+        if (error) console.log(`    ⚠️  ${profile.email}: ${error}`);
+      }
+      const user = id && await this.createUser(profile, id);
+      if (user) users.push(user);
+    }
+
+    return { users, failed: authStates.length - users.length };
+  }
+
+  /**
+   * Create a generated user whose auth user is not a plain confirmed one
+   * (authUsers.states), then its profile as usual
+   */
+  private async createUserInState(state: AuthUserState): Promise<CachedUser | null> {
+    const profile = this.generateUserProfile();
+    const result = await this.authStateSeeder.createUser({
+      email: profile.email,
+      password: this.context.config.testUserPassword || 'password123',
+      userMetadata: { full_name: profile.name, username: profile.username }
+    }, state);
+
+    if (result.error) {
+      console.log(`    ⚠️  ${state} user ${profile.email}: ${result.error}`);
+    }
+    return result.id ? this.createUser(profile, result.id) : null;
+  }
+
+  private get authStateSeeder(): AuthStateSeeder {
+    this.authStates ??= new AuthStateSeeder(this.context.client, {
+      oauthProviders: this.context.config.authUsers?.oauthProviders,
+      determinism: this.determinism
+    });
+    return this.authStates;
+  }
+
+  private reportAuthStates(authStates: AuthUserState[]): void {
+    if (authStates.every(state => state === 'confirmed')) return;
+
+    const counts = new Map<AuthUserState, number>();
+    authStates.forEach(state => counts.set(state, (counts.get(state) || 0) + 1));
+    console.log(`🔐 Auth states: ${Array.from(counts, ([state, count]) => `${count} ${state}`).join(', ')}`);
+  }
+
+  /**
+   * Parts that keep generated emails unique across runs. Pinned runs derive
+   * them from the seed; live runs salt the UUID and use the wall clock.
+   */
+  private uniqueEmailParts(): { uuid: string; timestamp: number } {
+    return {
+      uuid: this.determinism.uuid().replace(/-/g, '').substring(0, 12),
+      timestamp: this.determinism.now()
+    };
+  }
+
+  private generateUserBio(domainConfig: any): string {
+    const { faker } = this.context;
+
     const activities = domainConfig.activities || ['working', 'creating', 'building', 'learning'];
     const locations = domainConfig.locations || ['the city', 'remote', 'downtown', 'worldwide'];
     const templates = domainConfig.bioTemplates || [
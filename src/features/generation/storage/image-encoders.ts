@@ -0,0 +1,639 @@
+/**
+ * Image Encoders
+ * Dependency-free PNG, baseline JPEG and lossless WebP (VP8L) encoders for
+ * RGBA rasters, so procedural images can be produced without native modules
+ */
+
+import { deflateSync } from 'zlib';
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA, row by row
+}
+
+export type ImageEncoding = 'png' | 'jpeg' | 'webp';
+
+export const ENCODING_MIME_TYPES: Record<ImageEncoding, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+export function encodeImage(image: RasterImage, encoding: ImageEncoding, quality = 85): Buffer {
+  switch (encoding) {
+    case 'png': return encodePNG(image);
+    case 'jpeg': return encodeJPEG(image, quality);
+    case 'webp': return encodeWebP(image);
+    default: throw new Error(`Unsupported image encoding: ${encoding}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * 8-bit RGBA PNG; every row uses the Sub filter, which suits gradients
+ */
+export function encodePNG({ width, height, data }: RasterImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // RGBA
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  const stride = width * 4;
+  const filtered = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    filtered[row] = 1; // Sub
+    for (let x = 0; x < stride; x++) {
+      const value = data[y * stride + x];
+      const left = x >= 4 ? data[y * stride + x - 4] : 0;
+      filtered[row + 1 + x] = (value - left) & 0xff;
+    }
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(filtered, { level: 9 })),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// JPEG (baseline, 4:4:4, standard Huffman tables)
+// ---------------------------------------------------------------------------
+
+const ZIGZAG = [
+  0, 1, 5, 6, 14, 15, 27, 28, 2, 4, 7, 13, 16, 26, 29, 42,
+  3, 8, 12, 17, 25, 30, 41, 43, 9, 11, 18, 24, 31, 40, 44, 53,
+  10, 19, 23, 32, 39, 45, 52, 54, 20, 22, 33, 38, 46, 51, 55, 60,
+  21, 34, 37, 47, 50, 56, 59, 61, 35, 36, 48, 49, 57, 58, 62, 63
+];
+
+const LUMINANCE_QUANTIZATION = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99
+];
+
+const CHROMINANCE_QUANTIZATION = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array(32).fill(99)
+];
+
+const AAN_SCALE = [1.0, 1.387039845, 1.306562965, 1.175875602, 1.0, 0.785694958, 0.5411961, 0.275899379];
+
+interface HuffmanSpec {
+  counts: number[]; // Codes of each length 1..16
+  symbols: number[];
+}
+
+const AC_LUMINANCE_SYMBOLS = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa
+];
+
+const AC_CHROMINANCE_SYMBOLS = [
+  0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+  0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+  0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+  0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+  0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+  0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+  0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+  0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+  0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+  0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa
+];
+
+// ITU T.81 Annex K tables
+const DC_LUMINANCE: HuffmanSpec = { counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0], symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] };
+const AC_LUMINANCE: HuffmanSpec = { counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d], symbols: AC_LUMINANCE_SYMBOLS };
+const DC_CHROMINANCE: HuffmanSpec = { counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0], symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] };
+const AC_CHROMINANCE: HuffmanSpec = { counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77], symbols: AC_CHROMINANCE_SYMBOLS };
+
+type CodeTable = Map<number, { code: number; length: number }>;
+
+function jpegCodeTable(spec: HuffmanSpec): CodeTable {
+  const table: CodeTable = new Map();
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      table.set(spec.symbols[index++], { code: code++, length });
+    }
+    code <<= 1;
+  }
+  return table;
+}
+
+class JpegBitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let bit = length - 1; bit >= 0; bit--) {
+      this.buffer = (this.buffer << 1) | ((value >> bit) & 1);
+      if (++this.count === 8) {
+        this.push(this.buffer);
+      }
+    }
+  }
+
+  flush(): number[] {
+    if (this.count > 0) {
+      // Pad the last byte with 1 bits
+      this.push((this.buffer << (8 - this.count)) | ((1 << (8 - this.count)) - 1));
+    }
+    return this.bytes;
+  }
+
+  private push(byte: number): void {
+    this.bytes.push(byte);
+    if (byte === 0xff) this.bytes.push(0x00); // Byte stuffing
+    this.buffer = 0;
+    this.count = 0;
+  }
+}
+
+function scaledQuantization(base: number[], quality: number): number[] {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const factor = q < 50 ? Math.floor(5000 / q) : Math.floor(200 - q * 2);
+  const table = new Array(64);
+  for (let i = 0; i < 64; i++) {
+    table[ZIGZAG[i]] = Math.min(255, Math.max(1, Math.floor((base[i] * factor + 50) / 100)));
+  }
+  return table; // Zigzag order
+}
+
+function divisors(table: number[]): Float64Array {
+  const result = new Float64Array(64);
+  for (let row = 0, k = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++, k++) {
+      result[k] = 1 / (table[ZIGZAG[k]] * AAN_SCALE[row] * AAN_SCALE[col] * 8);
+    }
+  }
+  return result;
+}
+
+/**
+ * AAN forward DCT with quantization; returns coefficients in zigzag order
+ */
+function forwardDct(block: Float64Array, divisor: Float64Array, out: Int32Array): void {
+  for (let pass = 0; pass < 2; pass++) {
+    const step = pass === 0 ? 1 : 8;
+    const next = pass === 0 ? 8 : 1;
+    for (let i = 0, offset = 0; i < 8; i++, offset += next) {
+      const d0 = block[offset], d1 = block[offset + step], d2 = block[offset + 2 * step], d3 = block[offset + 3 * step];
+      const d4 = block[offset + 4 * step], d5 = block[offset + 5 * step], d6 = block[offset + 6 * step], d7 = block[offset + 7 * step];
+
+      const tmp0 = d0 + d7, tmp7 = d0 - d7, tmp1 = d1 + d6, tmp6 = d1 - d6;
+      const tmp2 = d2 + d5, tmp5 = d2 - d5, tmp3 = d3 + d4, tmp4 = d3 - d4;
+
+      // Even part
+      let tmp10 = tmp0 + tmp3;
+      const tmp13 = tmp0 - tmp3;
+      let tmp11 = tmp1 + tmp2;
+      let tmp12 = tmp1 - tmp2;
+      block[offset] = tmp10 + tmp11;
+      block[offset + 4 * step] = tmp10 - tmp11;
+      const z1 = (tmp12 + tmp13) * 0.707106781;
+      block[offset + 2 * step] = tmp13 + z1;
+      block[offset + 6 * step] = tmp13 - z1;
+
+      // Odd part
+      tmp10 = tmp4 + tmp5;
+      tmp11 = tmp5 + tmp6;
+      tmp12 = tmp6 + tmp7;
+      const z5 = (tmp10 - tmp12) * 0.382683433;
+      const z2 = 0.5411961 * tmp10 + z5;
+      const z4 = 1.306562965 * tmp12 + z5;
+      const z3 = tmp11 * 0.707106781;
+      const z11 = tmp7 + z3;
+      const z13 = tmp7 - z3;
+      block[offset + 5 * step] = z13 + z2;
+      block[offset + 3 * step] = z13 - z2;
+      block[offset + step] = z11 + z4;
+      block[offset + 7 * step] = z11 - z4;
+    }
+  }
+
+  for (let i = 0; i < 64; i++) {
+    out[ZIGZAG[i]] = Math.round(block[i] * divisor[i]);
+  }
+}
+
+function bitLength(value: number): number {
+  let magnitude = Math.abs(value);
+  let length = 0;
+  while (magnitude > 0) {
+    length++;
+    magnitude >>= 1;
+  }
+  return length;
+}
+
+function encodeBlock(
+  writer: JpegBitWriter,
+  coefficients: Int32Array,
+  previousDc: number,
+  dcTable: CodeTable,
+  acTable: CodeTable
+): number {
+  const writeValue = (value: number, length: number) => {
+    if (length > 0) writer.write(value < 0 ? value + (1 << length) - 1 : value, length);
+  };
+
+  const diff = coefficients[0] - previousDc;
+  const dcLength = bitLength(diff);
+  const dc = dcTable.get(dcLength)!;
+  writer.write(dc.code, dc.length);
+  writeValue(diff, dcLength);
+
+  let last = 63;
+  while (last > 0 && coefficients[last] === 0) last--;
+
+  let run = 0;
+  for (let i = 1; i <= last; i++) {
+    if (coefficients[i] === 0) {
+      run++;
+      continue;
+    }
+    while (run >= 16) {
+      const zeroRun = acTable.get(0xf0)!;
+      writer.write(zeroRun.code, zeroRun.length);
+      run -= 16;
+    }
+    const length = bitLength(coefficients[i]);
+    const ac = acTable.get((run << 4) | length)!;
+    writer.write(ac.code, ac.length);
+    writeValue(coefficients[i], length);
+    run = 0;
+  }
+
+  if (last < 63) {
+    const endOfBlock = acTable.get(0x00)!;
+    writer.write(endOfBlock.code, endOfBlock.length);
+  }
+
+  return coefficients[0];
+}
+
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+/**
+ * Baseline JPEG with 4:4:4 sampling; alpha is dropped
+ */
+export function encodeJPEG({ width, height, data }: RasterImage, quality = 85): Buffer {
+  const luminance = scaledQuantization(LUMINANCE_QUANTIZATION, quality);
+  const chrominance = scaledQuantization(CHROMINANCE_QUANTIZATION, quality);
+  const luminanceDivisors = divisors(luminance);
+  const chrominanceDivisors = divisors(chrominance);
+  const tables = {
+    dcY: jpegCodeTable(DC_LUMINANCE),
+    acY: jpegCodeTable(AC_LUMINANCE),
+    dcC: jpegCodeTable(DC_CHROMINANCE),
+    acC: jpegCodeTable(AC_CHROMINANCE)
+  };
+
+  const header: number[] = [0xff, 0xd8];
+  header.push(...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]));
+  header.push(...segment(0xdb, [0, ...luminance, 1, ...chrominance]));
+  header.push(...segment(0xc0, [
+    8, height >> 8, height & 0xff, width >> 8, width & 0xff,
+    3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1
+  ]));
+  const huffman: number[] = [];
+  for (const [id, spec] of [[0x00, DC_LUMINANCE], [0x10, AC_LUMINANCE], [0x01, DC_CHROMINANCE], [0x11, AC_CHROMINANCE]] as const) {
+    huffman.push(id, ...spec.counts, ...spec.symbols);
+  }
+  header.push(...segment(0xc4, huffman));
+  header.push(...segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 0x3f, 0]));
+
+  const writer = new JpegBitWriter();
+  const y = new Float64Array(64);
+  const cb = new Float64Array(64);
+  const cr = new Float64Array(64);
+  const coefficients = new Int32Array(64);
+  let dcY = 0;
+  let dcCb = 0;
+  let dcCr = 0;
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      for (let i = 0; i < 64; i++) {
+        // Edge blocks repeat the last row and column
+        const px = Math.min(blockX + (i & 7), width - 1);
+        const py = Math.min(blockY + (i >> 3), height - 1);
+        const offset = (py * width + px) * 4;
+        const r = data[offset], g = data[offset + 1], b = data[offset + 2];
+        y[i] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+        cb[i] = -0.16874 * r - 0.33126 * g + 0.5 * b;
+        cr[i] = 0.5 * r - 0.41869 * g - 0.08131 * b;
+      }
+
+      forwardDct(y, luminanceDivisors, coefficients);
+      dcY = encodeBlock(writer, coefficients, dcY, tables.dcY, tables.acY);
+      forwardDct(cb, chrominanceDivisors, coefficients);
+      dcCb = encodeBlock(writer, coefficients, dcCb, tables.dcC, tables.acC);
+      forwardDct(cr, chrominanceDivisors, coefficients);
+      dcCr = encodeBlock(writer, coefficients, dcCr, tables.dcC, tables.acC);
+    }
+  }
+
+  return Buffer.from([...header, ...writer.flush(), 0xff, 0xd9]);
+}
+
+// ---------------------------------------------------------------------------
+// WebP (lossless VP8L: Huffman-coded pixels, runs of repeated pixels as
+// backward references to the previous pixel)
+// ---------------------------------------------------------------------------
+
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+const MAX_RUN = 4096;
+const MIN_RUN = 3;
+const PREVIOUS_PIXEL_DISTANCE_CODE = 2; // (1, 0) in the VP8L distance map
+
+class WebpBitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let bit = 0; bit < length; bit++) {
+      this.buffer |= ((value >> bit) & 1) << this.count;
+      if (++this.count === 8) {
+        this.bytes.push(this.buffer);
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  /**
+   * Huffman codes are read most significant bit first
+   */
+  writeCode(code: number, length: number): void {
+    for (let bit = length - 1; bit >= 0; bit--) {
+      this.write((code >> bit) & 1, 1);
+    }
+  }
+
+  finish(): Buffer {
+    if (this.count > 0) this.bytes.push(this.buffer);
+    return Buffer.from(this.bytes);
+  }
+}
+
+/**
+ * Code lengths for the symbol counts, limited to maxBits by flattening the
+ * counts until the tree is shallow enough
+ */
+function huffmanLengths(counts: number[], maxBits: number): number[] {
+  let weights = counts.slice();
+
+  while (true) {
+    const lengths = new Array(counts.length).fill(0);
+    let nodes = weights
+      .map((weight, symbol) => ({ weight, symbols: [symbol] }))
+      .filter(node => node.weight > 0);
+
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight || a.symbols[0] - b.symbols[0]);
+      const [first, second] = nodes;
+      for (const symbol of [...first.symbols, ...second.symbols]) lengths[symbol]++;
+      nodes = [{ weight: first.weight + second.weight, symbols: [...first.symbols, ...second.symbols] }, ...nodes.slice(2)];
+    }
+
+    if (Math.max(...lengths) <= maxBits) return lengths;
+    weights = weights.map(weight => (weight === 0 ? 0 : Math.max(1, weight >> 1)));
+  }
+}
+
+function canonicalCodes(lengths: number[]): number[] {
+  const maxLength = Math.max(0, ...lengths);
+  const lengthCounts = new Array(maxLength + 1).fill(0);
+  lengths.forEach(length => { if (length > 0) lengthCounts[length]++; });
+
+  // Same assignment as DEFLATE: shorter codes first, then by symbol
+  const nextCode = new Array(maxLength + 1).fill(0);
+  for (let length = 1, code = 0; length <= maxLength; length++) {
+    code = (code + lengthCounts[length - 1]) << 1;
+    nextCode[length] = code;
+  }
+
+  return lengths.map(length => (length > 0 ? nextCode[length]++ : 0));
+}
+
+interface PrefixCode {
+  lengths: number[];
+  codes: number[];
+}
+
+/**
+ * Write the prefix code for one alphabet and return it for encoding symbols
+ */
+function writePrefixCode(writer: WebpBitWriter, counts: number[]): PrefixCode {
+  const used = counts.map((count, symbol) => (count > 0 ? symbol : -1)).filter(symbol => symbol >= 0);
+
+  // One or two symbols below 256 fit the simple form; a single symbol takes no bits
+  if (used.length <= 2 && used.every(symbol => symbol < 256)) {
+    const symbols = used.length > 0 ? used : [0];
+    writer.write(1, 1);
+    writer.write(symbols.length - 1, 1);
+    writer.write(1, 1); // 8-bit first symbol
+    writer.write(symbols[0], 8);
+    if (symbols.length === 2) writer.write(symbols[1], 8);
+
+    const lengths = new Array(counts.length).fill(0);
+    const codes = new Array(counts.length).fill(0);
+    if (symbols.length === 2) {
+      lengths[symbols[0]] = 1;
+      lengths[symbols[1]] = 1;
+      codes[symbols[1]] = 1;
+    }
+    return { lengths, codes };
+  }
+
+  const lengths = huffmanLengths(counts, 15);
+  const codes = canonicalCodes(lengths);
+
+  // Code lengths are themselves Huffman coded; keep at least two symbols in that code
+  const lengthCounts = new Array(19).fill(0);
+  lengths.forEach(length => lengthCounts[length]++);
+  if (lengthCounts.filter(count => count > 0).length < 2) {
+    lengthCounts[lengthCounts[0] > 0 ? 1 : 0]++;
+  }
+  const lengthCodeLengths = huffmanLengths(lengthCounts, 7);
+  const lengthCodes = canonicalCodes(lengthCodeLengths);
+
+  let written = CODE_LENGTH_ORDER.length;
+  while (written > 4 && lengthCodeLengths[CODE_LENGTH_ORDER[written - 1]] === 0) written--;
+
+  writer.write(0, 1); // Normal code
+  writer.write(written - 4, 4);
+  for (let i = 0; i < written; i++) {
+    writer.write(lengthCodeLengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  writer.write(0, 1); // Code lengths for the whole alphabet follow
+  for (const length of lengths) {
+    writer.writeCode(lengthCodes[length], lengthCodeLengths[length]);
+  }
+
+  return { lengths, codes };
+}
+
+function prefixEncode(value: number): { prefix: number; extraBits: number; extra: number } {
+  if (value <= 4) return { prefix: value - 1, extraBits: 0, extra: 0 };
+  const v = value - 1;
+  const highest = 31 - Math.clz32(v);
+  const second = (v >> (highest - 1)) & 1;
+  const extraBits = highest - 1;
+  return { prefix: 2 * highest + second, extraBits, extra: v & ((1 << extraBits) - 1) };
+}
+
+type Token = { kind: 'pixel'; argb: number } | { kind: 'run'; length: number };
+
+/**
+ * Lossless WebP; fully opaque images are flagged as such
+ */
+export function encodeWebP({ width, height, data }: RasterImage): Buffer {
+  if (width > 16384 || height > 16384) {
+    throw new Error('WebP images are limited to 16384 x 16384 pixels');
+  }
+
+  const pixels = width * height;
+  const argb = new Uint32Array(pixels);
+  let opaque = true;
+  for (let i = 0; i < pixels; i++) {
+    const alpha = data[i * 4 + 3];
+    if (alpha !== 255) opaque = false;
+    argb[i] = ((alpha << 24) | (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2]) >>> 0;
+  }
+
+  const tokens: Token[] = [];
+  for (let i = 0; i < pixels;) {
+    let run = 0;
+    while (i > 0 && i + run < pixels && run < MAX_RUN && argb[i + run] === argb[i - 1]) run++;
+
+    if (run >= MIN_RUN) {
+      tokens.push({ kind: 'run', length: run });
+      i += run;
+    } else {
+      tokens.push({ kind: 'pixel', argb: argb[i] });
+      i++;
+    }
+  }
+
+  const green = new Array(256 + 24).fill(0);
+  const red = new Array(256).fill(0);
+  const blue = new Array(256).fill(0);
+  const alpha = new Array(256).fill(0);
+  const distance = new Array(40).fill(0);
+  for (const token of tokens) {
+    if (token.kind === 'pixel') {
+      green[(token.argb >> 8) & 0xff]++;
+      red[(token.argb >> 16) & 0xff]++;
+      blue[token.argb & 0xff]++;
+      alpha[token.argb >>> 24]++;
+    } else {
+      green[256 + prefixEncode(token.length).prefix]++;
+      distance[prefixEncode(PREVIOUS_PIXEL_DISTANCE_CODE).prefix]++;
+    }
+  }
+
+  const writer = new WebpBitWriter();
+  writer.write(0x2f, 8); // VP8L signature
+  writer.write(width - 1, 14);
+  writer.write(height - 1, 14);
+  writer.write(opaque ? 0 : 1, 1);
+  writer.write(0, 3); // Version
+  writer.write(0, 1); // No transforms
+  writer.write(0, 1); // No color cache
+  writer.write(0, 1); // One prefix code group for the whole image
+
+  const codes = [green, red, blue, alpha, distance].map(counts => writePrefixCode(writer, counts));
+  const [greenCode, redCode, blueCode, alphaCode, distanceCode] = codes;
+  const emit = (code: PrefixCode, symbol: number) => writer.writeCode(code.codes[symbol], code.lengths[symbol]);
+
+  for (const token of tokens) {
+    if (token.kind === 'pixel') {
+      emit(greenCode, (token.argb >> 8) & 0xff);
+      emit(redCode, (token.argb >> 16) & 0xff);
+      emit(blueCode, token.argb & 0xff);
+      emit(alphaCode, token.argb >>> 24);
+    } else {
+      const length = prefixEncode(token.length);
+      emit(greenCode, 256 + length.prefix);
+      writer.write(length.extra, length.extraBits);
+      const dist = prefixEncode(PREVIOUS_PIXEL_DISTANCE_CODE);
+      emit(distanceCode, dist.prefix);
+      writer.write(dist.extra, dist.extraBits);
+    }
+  }
+
+  const bitstream = writer.finish();
+  const chunk = Buffer.alloc(8);
+  chunk.write('VP8L', 0, 'ascii');
+  chunk.writeUInt32LE(bitstream.length, 4);
+  const padding = Buffer.alloc(bitstream.length % 2);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(4 + chunk.length + bitstream.length + padding.length, 4);
+  riff.write('WEBP', 8, 'ascii');
+
+  return Buffer.concat([riff, chunk, bitstream, padding]);
+}
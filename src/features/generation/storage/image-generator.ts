@@ -1,9 +1,14 @@
 /**
  * Image Generator
- * Handles image generation from external APIs (Unsplash, Pixabay) and mock images
+ * Handles image generation from external APIs (Unsplash, Pixabay) and
+ * procedural images rendered locally from the seed
  */
 
+import { createHash } from 'crypto';
 import { Logger } from '../../../core/utils/logger';
+import { SeedDeterminism } from '../../../core/utils/seed-determinism';
+import { ENCODING_MIME_TYPES, ImageEncoding, encodeImage } from './image-encoders';
+import { ProceduralImageStyle, renderProceduralImage } from './procedural-image-renderer';
 import {
   ImageGenerationOptions,
   GeneratedImage,
@@ -14,18 +19,24 @@ import {
   RateLimitInfo,
   UnsplashConfig,
   PixabayConfig,
-  MockImageConfig,
+  ProceduralImageConfig,
   ImageMetadata,
   CATEGORY_SEARCH_TERMS,
+  DOMAIN_CONFIGURATIONS,
   FILE_TYPE_EXTENSIONS
 } from './storage-types';
 
+// Always registered and needs no network, so it is also the fallback
+const FALLBACK_PROVIDER = 'procedural';
+
 export class ImageGenerator {
   private providers: Map<string, ImageServiceProvider> = new Map();
   private cache: Map<string, GeneratedImage[]> = new Map();
   private rateLimitCache: Map<string, RateLimitInfo> = new Map();
+  private random: SeedDeterminism;
 
-  constructor() {
+  constructor(private options: { seed?: string } = {}) {
+    this.random = new SeedDeterminism(options.seed ?? 'supa-seed', { pinned: true });
     this.initializeProviders();
   }
 
@@ -59,9 +70,9 @@ export class ImageGenerator {
       this.providers.set('pixabay', new PixabayProvider(pixabayConfig));
     }
 
-    // Always register mock provider as fallback
-    const mockConfig: MockImageConfig = {
-      baseUrl: 'https://picsum.photos',
+    // Always register the offline procedural provider as fallback
+    const proceduralConfig: ProceduralImageConfig = {
+      seed: this.options.seed ?? 'supa-seed',
       categories: {
         'outdoor-adventure': ['#2F4F4F', '#228B22', '#8FBC8F'],
         'saas-tools': ['#4682B4', '#708090', '#B0C4DE'],
@@ -73,11 +84,11 @@ export class ImageGenerator {
         { width: 1024, height: 768 },
         { width: 1200, height: 800 }
       ],
-      formats: ['jpg', 'png'],
-      generateRealistic: true
+      formats: ['jpeg'],
+      quality: 85
     };
 
-    this.providers.set('mock', new MockImageProvider(mockConfig));
+    this.providers.set(FALLBACK_PROVIDER, new ProceduralImageProvider(proceduralConfig));
   }
 
   /**
@@ -114,7 +125,9 @@ export class ImageGenerator {
             category: options.categories[i % options.categories.length],
             count: 1,
             dimensions: options.dimensions,
-            safeSearch: true
+            safeSearch: true,
+            format: options.format,
+            style: options.style
           });
 
           if (searchResult.success && searchResult.images.length > 0) {
@@ -143,14 +156,11 @@ export class ImageGenerator {
           } else {
             Logger.warn(`Failed to find image for term: ${searchTerm}`);
             
-            // Fallback to mock if enabled
-            if (options.fallbackToMock && provider.name !== 'mock') {
-              const mockProvider = this.providers.get('mock');
-              if (mockProvider) {
-                const mockImage = await this.generateMockImage(searchTerm, options);
-                if (mockImage) {
-                  images.push(mockImage);
-                }
+            // Fallback to procedural images if enabled
+            if (options.fallbackToMock && provider.name !== FALLBACK_PROVIDER) {
+              const fallbackImage = await this.generateFallbackImage(searchTerm, options);
+              if (fallbackImage) {
+                images.push(fallbackImage);
               }
             }
           }
@@ -158,15 +168,15 @@ export class ImageGenerator {
         } catch (imageError: any) {
           Logger.warn(`Failed to generate image ${i + 1}:`, imageError.message);
           
-          // Try fallback to mock
-          if (options.fallbackToMock && provider.name !== 'mock') {
+          // Try fallback to procedural images
+          if (options.fallbackToMock && provider.name !== FALLBACK_PROVIDER) {
             try {
-              const mockImage = await this.generateMockImage(searchTerms[i], options);
-              if (mockImage) {
-                images.push(mockImage);
+              const fallbackImage = await this.generateFallbackImage(searchTerms[i], options);
+              if (fallbackImage) {
+                images.push(fallbackImage);
               }
-            } catch (mockError: any) {
-              Logger.warn(`Mock image generation also failed:`, mockError.message);
+            } catch (fallbackError: any) {
+              Logger.warn(`Procedural image generation also failed:`, fallbackError.message);
             }
           }
           
@@ -183,9 +193,9 @@ export class ImageGenerator {
     } catch (error: any) {
       Logger.error('Image generation failed:', error);
       
-      // Fallback to all mock images
+      // Fallback to all procedural images
       if (options.fallbackToMock) {
-        return await this.generateAllMockImages(options);
+        return await this.generateAllFallbackImages(options);
       }
       
       throw error;
@@ -193,39 +203,39 @@ export class ImageGenerator {
   }
 
   /**
-   * Generate mock image as fallback
+   * Generate a procedural image as fallback
    */
-  private async generateMockImage(searchTerm: string, options: ImageGenerationOptions): Promise<GeneratedImage | null> {
-    const mockProvider = this.providers.get('mock');
-    if (!mockProvider) return null;
+  private async generateFallbackImage(searchTerm: string, options: ImageGenerationOptions): Promise<GeneratedImage | null> {
+    const fallbackProvider = this.providers.get(FALLBACK_PROVIDER);
+    if (!fallbackProvider) return null;
 
     try {
-      const searchResult = await mockProvider.searchImages(searchTerm, {
+      const searchResult = await fallbackProvider.searchImages(searchTerm, {
         query: searchTerm,
+        category: options.categories[0],
         count: 1,
         dimensions: options.dimensions,
-        safeSearch: true
+        safeSearch: true,
+        format: options.format,
+        style: options.style
       });
 
       if (searchResult.success && searchResult.images.length > 0) {
-        return await mockProvider.downloadImage(searchResult.images[0].downloadUrl);
+        return await fallbackProvider.downloadImage(searchResult.images[0].downloadUrl);
       }
 
     } catch (error: any) {
-      Logger.warn('Mock image generation failed:', error.message);
+      Logger.warn('Procedural image generation failed:', error.message);
     }
 
     return null;
   }
 
   /**
-   * Generate all mock images as final fallback
+   * Generate all procedural images as final fallback
    */
-  private async generateAllMockImages(options: ImageGenerationOptions): Promise<GeneratedImage[]> {
-    Logger.info('🔄 Falling back to mock images for all requests');
-    
-    const mockProvider = this.providers.get('mock');
-    if (!mockProvider) return [];
+  private async generateAllFallbackImages(options: ImageGenerationOptions): Promise<GeneratedImage[]> {
+    Logger.info('🔄 Falling back to procedural images for all requests');
 
     const images: GeneratedImage[] = [];
     const searchTerms = this.generateSearchTerms(options.categories, options.domain);
@@ -234,12 +244,12 @@ export class ImageGenerator {
       const searchTerm = searchTerms[i % searchTerms.length];
       
       try {
-        const mockImage = await this.generateMockImage(searchTerm, options);
-        if (mockImage) {
-          images.push(mockImage);
+        const fallbackImage = await this.generateFallbackImage(searchTerm, options);
+        if (fallbackImage) {
+          images.push(fallbackImage);
         }
       } catch (error: any) {
-        Logger.warn(`Failed to generate mock image ${i + 1}:`, error.message);
+        Logger.warn(`Failed to generate procedural image ${i + 1}:`, error.message);
       }
     }
 
@@ -279,7 +289,7 @@ export class ImageGenerator {
     // For now, we'll use a priority-based selection
 
     // Try providers in order of preference
-    const preferenceOrder = ['unsplash', 'pixabay', 'mock'];
+    const preferenceOrder = ['unsplash', 'pixabay', FALLBACK_PROVIDER];
     
     for (const providerName of preferenceOrder) {
       if (this.providers.has(providerName)) {
@@ -287,8 +297,8 @@ export class ImageGenerator {
       }
     }
 
-    // Fallback to mock (should always be available)
-    return this.providers.get('mock')!;
+    // Fallback to procedural images (always available)
+    return this.providers.get(FALLBACK_PROVIDER)!;
   }
 
   /**
@@ -314,12 +324,12 @@ export class ImageGenerator {
   }
 
   /**
-   * Shuffle array utility
+   * Shuffle array utility (seeded, so the same seed searches the same terms)
    */
   private shuffleArray<T>(array: T[]): T[] {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random.random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     return shuffled;
@@ -364,36 +374,41 @@ export class ImageGenerator {
 }
 
 /**
- * Mock Image Provider - Always available fallback
+ * Procedural Image Provider - Always available, renders images locally from
+ * the seed with the category's palette; no network access
  */
-class MockImageProvider implements ImageServiceProvider {
-  name = 'mock';
+class ProceduralImageProvider implements ImageServiceProvider {
+  name = FALLBACK_PROVIDER;
 
-  constructor(private config: MockImageConfig) {}
+  constructor(private config: ProceduralImageConfig) {}
 
   async searchImages(query: string, options: ImageSearchOptions): Promise<ImageSearchResult> {
-    // Generate mock search results
     const images: SearchResultImage[] = [];
-    
+    const category = options.category || 'general';
+
     for (let i = 0; i < options.count; i++) {
-      const dimensions = this.config.dimensions[i % this.config.dimensions.length];
-      const seed = this.generateSeed(query, i);
-      
+      const dimensions = options.dimensions || this.config.dimensions[i % this.config.dimensions.length];
+      const format = options.format || this.config.formats[i % this.config.formats.length];
+      const key = this.hash(`${query}|${category}|${i}`);
+      const style = options.style || this.pickStyle(query, category, key);
+      const params = new URLSearchParams({ category, text: query, key });
+      const url = `procedural://${style}/${dimensions.width}x${dimensions.height}.${format}?${params}`;
+
       images.push({
-        id: `mock-${seed}-${i}`,
-        url: `${this.config.baseUrl}/${dimensions.width}/${dimensions.height}?random=${seed}`,
-        downloadUrl: `${this.config.baseUrl}/${dimensions.width}/${dimensions.height}?random=${seed}`,
-        thumbnailUrl: `${this.config.baseUrl}/200/150?random=${seed}`,
+        id: `procedural-${key}`,
+        url,
+        downloadUrl: url,
+        thumbnailUrl: `procedural://${style}/200x150.${format}?${params}`,
         width: dimensions.width,
         height: dimensions.height,
-        description: `Mock ${query} image ${i + 1}`,
-        tags: [query, 'mock', 'generated'],
+        description: `${query} (${style})`,
+        tags: [query, category, style, 'procedural'],
         author: {
-          name: 'Mock Image Provider',
+          name: 'supa-seed',
           url: undefined
         },
         license: 'Public Domain',
-        source: 'mock'
+        source: 'procedural'
       });
     }
 
@@ -401,76 +416,87 @@ class MockImageProvider implements ImageServiceProvider {
       success: true,
       images,
       totalCount: images.length,
-      rateLimitRemaining: 999,
+      rateLimitRemaining: Number.MAX_SAFE_INTEGER,
       errors: []
     };
   }
 
+  /**
+   * Render the image a procedural:// URL from searchImages describes
+   */
   async downloadImage(imageUrl: string): Promise<GeneratedImage> {
-    try {
-      // For mock, we'll generate a simple colored rectangle
-      const response = await fetch(imageUrl);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const blob = await response.blob();
-      const urlParts = imageUrl.split('/');
-      const dimensions = {
-        width: parseInt(urlParts[urlParts.length - 2]) || 800,
-        height: parseInt(urlParts[urlParts.length - 1]?.split('?')[0]) || 600
-      };
+    const url = new URL(imageUrl);
+    const match = /^\/(\d+)x(\d+)\.(png|jpeg|webp)$/.exec(url.pathname);
+    if (url.protocol !== 'procedural:' || !match) {
+      throw new Error(`Not a procedural image URL: ${imageUrl}`);
+    }
 
-      const filename = `mock-image-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.jpg`;
+    const style = url.hostname as ProceduralImageStyle;
+    const width = parseInt(match[1], 10);
+    const height = parseInt(match[2], 10);
+    const format = match[3] as ImageEncoding;
+    const category = url.searchParams.get('category') || 'general';
+    const text = url.searchParams.get('text') || category;
+    const key = url.searchParams.get('key') || this.hash(imageUrl);
+    const palette = this.paletteFor(category);
 
-      return {
-        filename,
-        blob,
-        url: imageUrl,
-        type: 'image/jpeg',
-        size: blob.size,
-        dimensions,
-        description: 'Mock generated image',
-        altText: 'Mock image for testing purposes',
-        metadata: {
-          source: 'mock',
-          tags: ['mock', 'generated', 'placeholder'],
-          colors: ['#cccccc'],
-          generatedAt: new Date().toISOString(),
-          category: 'mock'
-        }
-      };
+    const raster = renderProceduralImage({ width, height, style, palette, text, seed: `${this.config.seed}:${key}` });
+    const buffer = encodeImage(raster, format, this.config.quality);
+    const type = ENCODING_MIME_TYPES[format];
 
-    } catch (error: any) {
-      Logger.error('Mock image download failed:', error);
-      throw error;
-    }
+    return {
+      filename: `procedural-${style}-${this.hash(`${this.config.seed}:${key}`)}${FILE_TYPE_EXTENSIONS[type]}`,
+      blob: new Blob([buffer], { type }),
+      url: imageUrl,
+      type,
+      size: buffer.length,
+      dimensions: { width, height },
+      description: `${style === 'avatar' ? 'Avatar' : 'Illustration'} for ${text}`,
+      altText: style === 'avatar' ? `Avatar with the initials of ${text}` : `${category} themed ${style} image`,
+      metadata: {
+        source: 'procedural',
+        tags: [text, category, style, 'procedural'],
+        colors: palette,
+        generatedAt: new Date().toISOString(),
+        category
+      }
+    };
   }
 
   async validateApiKey(): Promise<boolean> {
-    return true; // Mock provider is always available
+    return true; // Nothing to validate, images are rendered locally
   }
 
   async getRateLimit(): Promise<RateLimitInfo> {
     return {
-      remaining: 999,
-      resetTime: new Date(Date.now() + 3600000), // 1 hour from now
-      limit: 1000,
+      remaining: Number.MAX_SAFE_INTEGER,
+      resetTime: new Date(Date.now() + 3600000),
+      limit: Number.MAX_SAFE_INTEGER,
       isLimited: false
     };
   }
 
-  private generateSeed(query: string, index: number): string {
-    // Generate a consistent seed for the same query and index
-    let hash = 0;
-    const str = query + index.toString();
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  /**
+   * The category's own palette, else its domain's, else the general one
+   */
+  private paletteFor(category: string): string[] {
+    const { categories } = this.config;
+    if (categories[category]) return categories[category];
+
+    const domain = Object.entries(DOMAIN_CONFIGURATIONS)
+      .find(([, config]) => config.categories?.includes(category))?.[0];
+    return (domain && categories[domain]) || categories.general || [];
+  }
+
+  private pickStyle(query: string, category: string, key: string): ProceduralImageStyle {
+    if (/avatar|profile|people|portrait|person|team/i.test(`${query} ${category}`)) {
+      return 'avatar';
     }
-    return Math.abs(hash).toString();
+    return parseInt(key.slice(0, 2), 16) % 2 === 0 ? 'gradient' : 'pattern';
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 12);
   }
 }
 
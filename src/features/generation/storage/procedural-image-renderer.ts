@@ -0,0 +1,280 @@
+/**
+ * Procedural Image Renderer
+ * Renders gradients, category-tinted patterns and initials avatars from a
+ * seed and a palette, so seeded media looks plausible without any network
+ */
+
+import { SeedDeterminism } from '../../../core/utils/seed-determinism';
+import type { RasterImage } from './image-encoders';
+
+export type ProceduralImageStyle = 'gradient' | 'pattern' | 'avatar';
+
+export interface ProceduralImageSpec {
+  width: number;
+  height: number;
+  seed: string; // Same seed, same pixels
+  palette: string[]; // '#RRGGBB' colors
+  style: ProceduralImageStyle;
+  text?: string; // Avatars show the initials of this name
+}
+
+type RGB = [number, number, number];
+
+const PATTERNS = ['stripes', 'dots', 'checks', 'waves'] as const;
+const DEFAULT_PALETTE = ['#696969', '#A9A9A9', '#D3D3D3'];
+
+// 5x7 bitmap glyphs for initials
+const GLYPHS: Record<string, string[]> = {
+  A: ['01110', '10001', '10001', '11111', '10001', '10001', '10001'],
+  B: ['11110', '10001', '10001', '11110', '10001', '10001', '11110'],
+  C: ['01110', '10001', '10000', '10000', '10000', '10001', '01110'],
+  D: ['11110', '10001', '10001', '10001', '10001', '10001', '11110'],
+  E: ['11111', '10000', '10000', '11110', '10000', '10000', '11111'],
+  F: ['11111', '10000', '10000', '11110', '10000', '10000', '10000'],
+  G: ['01110', '10001', '10000', '10111', '10001', '10001', '01111'],
+  H: ['10001', '10001', '10001', '11111', '10001', '10001', '10001'],
+  I: ['01110', '00100', '00100', '00100', '00100', '00100', '01110'],
+  J: ['00111', '00010', '00010', '00010', '00010', '10010', '01100'],
+  K: ['10001', '10010', '10100', '11000', '10100', '10010', '10001'],
+  L: ['10000', '10000', '10000', '10000', '10000', '10000', '11111'],
+  M: ['10001', '11011', '10101', '10101', '10001', '10001', '10001'],
+  N: ['10001', '10001', '11001', '10101', '10011', '10001', '10001'],
+  O: ['01110', '10001', '10001', '10001', '10001', '10001', '01110'],
+  P: ['11110', '10001', '10001', '11110', '10000', '10000', '10000'],
+  Q: ['01110', '10001', '10001', '10001', '10101', '10010', '01101'],
+  R: ['11110', '10001', '10001', '11110', '10100', '10010', '10001'],
+  S: ['01111', '10000', '10000', '01110', '00001', '00001', '11110'],
+  T: ['11111', '00100', '00100', '00100', '00100', '00100', '00100'],
+  U: ['10001', '10001', '10001', '10001', '10001', '10001', '01110'],
+  V: ['10001', '10001', '10001', '10001', '10001', '01010', '00100'],
+  W: ['10001', '10001', '10001', '10101', '10101', '10101', '01010'],
+  X: ['10001', '10001', '01010', '00100', '01010', '10001', '10001'],
+  Y: ['10001', '10001', '01010', '00100', '00100', '00100', '00100'],
+  Z: ['11111', '00001', '00010', '00100', '01000', '10000', '11111'],
+  0: ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  1: ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  2: ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  3: ['11110', '00001', '00001', '01110', '00001', '00001', '11110'],
+  4: ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  5: ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  6: ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  7: ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  8: ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  9: ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+  '?': ['01110', '10001', '00001', '00010', '00100', '00000', '00100']
+};
+
+export function renderProceduralImage(spec: ProceduralImageSpec): RasterImage {
+  const { width, height } = spec;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error(`Invalid image dimensions: ${width}x${height}`);
+  }
+
+  const random = new SeedDeterminism(spec.seed, { pinned: true });
+  const palette = (spec.palette.length > 0 ? spec.palette : DEFAULT_PALETTE).map(parseHexColor);
+  const image: RasterImage = { width, height, data: new Uint8Array(width * height * 4) };
+
+  switch (spec.style) {
+    case 'gradient':
+      drawGradient(image, palette, random);
+      drawHighlight(image, random);
+      break;
+    case 'pattern':
+      drawGradient(image, palette.map(color => mix(color, [255, 255, 255], 0.25)), random);
+      drawPattern(image, palette, random);
+      break;
+    case 'avatar':
+      drawAvatar(image, palette, random, spec.text);
+      break;
+    default:
+      throw new Error(`Unknown image style: ${spec.style}`);
+  }
+
+  return image;
+}
+
+/**
+ * Up to two initials from a name or email ("Ada Lovelace" -> "AL")
+ */
+export function initials(text: string | undefined): string {
+  const words = (text || '')
+    .split('@')[0]
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+
+  const letters = words.slice(0, 2).map(word => word[0]).join('');
+  return letters || '?';
+}
+
+/**
+ * A base color with a lighter and a darker shade
+ */
+export function tintPalette(color: string): string[] {
+  const base = parseHexColor(color);
+  return [color, toHex(mix(base, [255, 255, 255], 0.45)), toHex(mix(base, [0, 0, 0], 0.35))];
+}
+
+function drawGradient(image: RasterImage, palette: RGB[], random: SeedDeterminism): void {
+  const stops = shuffle(palette, random).slice(0, Math.min(3, palette.length));
+  if (stops.length === 1) stops.push(mix(stops[0], [255, 255, 255], 0.4));
+
+  const angle = random.random() * Math.PI * 2;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const extent = Math.abs(dx) * image.width + Math.abs(dy) * image.height || 1;
+  const origin = Math.min(0, dx * image.width) + Math.min(0, dy * image.height);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const t = (x * dx + y * dy - origin) / extent;
+      const scaled = t * (stops.length - 1);
+      const index = Math.min(stops.length - 2, Math.floor(scaled));
+      setPixel(image, x, y, mix(stops[index], stops[index + 1], scaled - index));
+    }
+  }
+}
+
+/**
+ * Soft light spot, like sun on a landscape
+ */
+function drawHighlight(image: RasterImage, random: SeedDeterminism): void {
+  const cx = random.random() * image.width;
+  const cy = random.random() * image.height * 0.6;
+  const radius = Math.max(image.width, image.height) * (0.3 + random.random() * 0.4);
+  const strength = 0.2 + random.random() * 0.25;
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const distance = Math.hypot(x - cx, y - cy) / radius;
+      if (distance < 1) {
+        setPixel(image, x, y, mix(getPixel(image, x, y), [255, 255, 255], strength * (1 - distance) ** 2));
+      }
+    }
+  }
+}
+
+function drawPattern(image: RasterImage, palette: RGB[], random: SeedDeterminism): void {
+  const pattern = PATTERNS[Math.floor(random.random() * PATTERNS.length)];
+  const color = palette[Math.floor(random.random() * palette.length)];
+  const size = Math.max(4, Math.round(Math.min(image.width, image.height) * (0.05 + random.random() * 0.1)));
+  const angle = (random.random() - 0.5) * Math.PI / 2;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const opacity = 0.55 + random.random() * 0.3;
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      // Pattern space is rotated for stripes and waves
+      const u = x * cos + y * sin;
+      const v = y * cos - x * sin;
+      let inside: boolean;
+
+      switch (pattern) {
+        case 'stripes':
+          inside = mod(u, size * 2) < size;
+          break;
+        case 'dots': {
+          const cx = mod(x, size * 2) - size;
+          const cy = mod(y, size * 2) - size;
+          inside = cx * cx + cy * cy < (size * 0.6) ** 2;
+          break;
+        }
+        case 'checks':
+          inside = ((Math.floor(x / size) + Math.floor(y / size)) & 1) === 0;
+          break;
+        case 'waves':
+          inside = mod(v + Math.sin(u / size) * size * 0.6, size * 2) < size;
+          break;
+      }
+
+      if (inside) {
+        setPixel(image, x, y, mix(getPixel(image, x, y), color, opacity));
+      }
+    }
+  }
+}
+
+function drawAvatar(image: RasterImage, palette: RGB[], random: SeedDeterminism, text?: string): void {
+  const background = palette[Math.floor(random.random() * palette.length)];
+  const cx = image.width / 2;
+  const cy = image.height / 2;
+  const reach = Math.hypot(cx, cy) || 1;
+
+  // Radial shading keeps flat avatars from looking like placeholders
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const distance = Math.hypot(x - cx, y - cy) / reach;
+      setPixel(image, x, y, mix(mix(background, [255, 255, 255], 0.15), mix(background, [0, 0, 0], 0.2), distance));
+    }
+  }
+
+  const letters = initials(text).split('').map(letter => GLYPHS[letter] || GLYPHS['?']);
+  const scale = Math.max(1, Math.floor(Math.min(image.width, image.height) * 0.4 / 7));
+  const textWidth = (letters.length * 6 - 1) * scale;
+  const left = Math.round(cx - textWidth / 2);
+  const top = Math.round(cy - (7 * scale) / 2);
+  const ink: RGB = luminance(background) > 150 ? [33, 33, 33] : [255, 255, 255];
+
+  letters.forEach((glyph, index) => {
+    glyph.forEach((row, gy) => {
+      for (let gx = 0; gx < 5; gx++) {
+        if (row[gx] !== '1') continue;
+        for (let py = 0; py < scale; py++) {
+          for (let px = 0; px < scale; px++) {
+            const x = left + (index * 6 + gx) * scale + px;
+            const y = top + gy * scale + py;
+            if (x >= 0 && y >= 0 && x < image.width && y < image.height) setPixel(image, x, y, ink);
+          }
+        }
+      }
+    });
+  });
+}
+
+function parseHexColor(color: string): RGB {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) throw new Error(`Invalid color "${color}" (expected #RRGGBB)`);
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function toHex(color: RGB): string {
+  return `#${color.map(channel => channel.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+function mix(a: RGB, b: RGB, amount: number): RGB {
+  return [0, 1, 2].map(i => Math.round(a[i] + (b[i] - a[i]) * amount)) as RGB;
+}
+
+function luminance([r, g, b]: RGB): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function shuffle<T>(items: T[], random: SeedDeterminism): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+function getPixel(image: RasterImage, x: number, y: number): RGB {
+  const offset = (y * image.width + x) * 4;
+  return [image.data[offset], image.data[offset + 1], image.data[offset + 2]];
+}
+
+function setPixel(image: RasterImage, x: number, y: number, [r, g, b]: RGB): void {
+  const offset = (y * image.width + x) * 4;
+  image.data[offset] = r;
+  image.data[offset + 1] = g;
+  image.data[offset + 2] = b;
+  image.data[offset + 3] = 255;
+}
@@ -0,0 +1,302 @@
+/**
+ * Storage Fixture Seeder
+ * Uploads local fixture files (avatars, product photos, documents) for the
+ * rows of a table through StorageIntegrationManager.batchUpload, then points
+ * those rows, or new attachment rows, at the uploaded objects
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import { SeedContext, SeedModule, StorageFixtureConfig } from '../../../core/types/types';
+import { Logger } from '../../../core/utils/logger';
+import { StorageIntegrationManager } from './storage-integration-manager';
+import { FILE_TYPE_EXTENSIONS, GeneratedImage } from './storage-types';
+
+export interface StorageFixtureResult {
+  table: string;
+  bucket: string;
+  rows: number; // Rows that received files
+  uploaded: number;
+  errors: string[];
+}
+
+const ROW_LIMIT = 1000;
+const KEY_CHUNK_SIZE = 100;
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+export class StorageFixtureSeeder extends SeedModule {
+  private fileCache = new Map<string, Buffer>();
+
+  /**
+   * `baseDir` is the config file's directory, where fixture `files` patterns resolve from
+   */
+  constructor(context: SeedContext, private baseDir: string = process.cwd()) {
+    super(context);
+  }
+
+  async seed(): Promise<void> {
+    for (const fixture of this.context.config.storage?.fixtures || []) {
+      const result = await this.seedFixture(fixture);
+
+      Logger.success(`Uploaded ${result.uploaded} fixture files to ${result.bucket} for ${result.rows} ${result.table} rows`);
+      result.errors.forEach(error => Logger.warn(`   ${error}`));
+    }
+  }
+
+  async seedFixture(fixture: StorageFixtureConfig): Promise<StorageFixtureResult> {
+    const result: StorageFixtureResult = { table: fixture.table, bucket: fixture.bucket, rows: 0, uploaded: 0, errors: [] };
+
+    const problem = validateFixture(fixture);
+    if (problem) {
+      result.errors.push(`${fixture.table || 'storage fixture'}: ${problem}`);
+      return result;
+    }
+
+    const files = (await glob(fixture.files, { nodir: true, cwd: this.baseDir })).sort();
+    if (files.length === 0) {
+      result.errors.push(`${fixture.table}: no files match ${fixture.files}`);
+      return result;
+    }
+
+    const { rows, primaryKey } = await this.targetRows(fixture.table);
+    if (rows.length === 0) {
+      result.errors.push(`${fixture.table}: this run seeded no rows to attach files to`);
+      return result;
+    }
+    const perRow = Math.min(fixture.filesPerRow ?? 1, files.length);
+    const planned: Array<{ row: Record<string, any>; file: string; vars: Record<string, any> }> = [];
+
+    rows.forEach((row, index) => {
+      for (const file of this.context.faker.helpers.arrayElements(files, perRow)) {
+        const vars = { ...row, ...fileVariables(file, this.loadFile(file).length), uuid: this.determinism.uuid(), n: index + 1 };
+        planned.push({ row, file, vars });
+      }
+    });
+
+    const paths: string[] = [];
+    for (const plan of planned) {
+      try {
+        paths.push(renderTemplate(fixture.path, plan.vars));
+      } catch (error: any) {
+        result.errors.push(`${fixture.table}: path ${error.message}`);
+        return result;
+      }
+    }
+
+    const manager = new StorageIntegrationManager(this.context.client, { bucketName: fixture.bucket, respectRLS: false });
+    const upload = await manager.batchUpload(
+      planned.map(plan => this.toImage(plan.file)),
+      fixture.table,
+      undefined,
+      undefined,
+      { paths, recordAttachments: false, upsert: fixture.overwrite === true }
+    );
+    upload.uploads.forEach((uploadResult, index) => {
+      if (uploadResult.success) return;
+      result.errors.push(isCollision(uploadResult.error)
+        ? `${fixture.table}: ${paths[index]} already exists in ${fixture.bucket}; set "overwrite": true to replace it`
+        : `${fixture.table}: ${uploadResult.error}`);
+    });
+    result.uploaded = upload.successfulUploads;
+    this.context.stats.imagesUploaded += upload.successfulUploads;
+
+    const attachments: Record<string, any>[] = [];
+    const updated = new Set<Record<string, any>>();
+
+    for (const [index, plan] of planned.entries()) {
+      const uploadResult = upload.uploads[index];
+      if (!uploadResult?.success) continue;
+
+      const vars = { ...plan.vars, 'file.path': uploadResult.filePath, 'file.url': uploadResult.publicUrl };
+
+      // With several files per row the column keeps the first one
+      if (fixture.column && !updated.has(plan.row)) {
+        updated.add(plan.row);
+        await this.updateRow(fixture, plan.row, primaryKey, fixture.value === 'path' ? uploadResult.filePath : vars['file.url'], result);
+      }
+
+      if (fixture.attachments) {
+        try {
+          attachments.push(renderValues(fixture.attachments.values, vars));
+        } catch (error: any) {
+          result.errors.push(`${fixture.attachments.table}: ${error.message}`);
+          return result;
+        }
+      }
+    }
+
+    if (fixture.attachments && attachments.length > 0) {
+      const { error } = await this.context.client.from(fixture.attachments.table).insert(attachments as any).select();
+      if (error) {
+        result.errors.push(`${fixture.attachments.table}: ${error.message}`);
+      }
+    }
+
+    result.rows = new Set(planned.filter((_, index) => upload.uploads[index]?.success).map(plan => plan.row)).size;
+    return result;
+  }
+
+  /**
+   * Rows this run inserted into the table. Tables filled by auth triggers
+   * (accounts, profiles) have no recorded rows, so for those it is the rows
+   * keyed by the auth users this run created. Rows that were there before the
+   * run are never touched.
+   */
+  private async targetRows(table: string): Promise<{ rows: Record<string, any>[]; primaryKey: string[] }> {
+    const manifest = this.context.manifest?.getManifest();
+    const entry = manifest?.tables.find(candidate => candidate.table === table);
+
+    if (!entry || entry.rows.length === 0) {
+      const userIds = manifest?.authUserIds || [];
+      return { rows: userIds.length > 0 ? await this.rowsWhere(table, 'id', userIds) : [], primaryKey: ['id'] };
+    }
+
+    if (entry.primaryKey.length === 1) {
+      const [column] = entry.primaryKey;
+      return { rows: await this.rowsWhere(table, column, entry.rows.map(keys => keys[column])), primaryKey: entry.primaryKey };
+    }
+
+    const seeded = new Set(entry.rows.map(keys => JSON.stringify(keys)));
+    const { data, error } = await this.context.client.from(table).select('*').limit(ROW_LIMIT);
+    if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+    const rows = ((data as Record<string, any>[]) || []).filter(row =>
+      seeded.has(JSON.stringify(Object.fromEntries(entry.primaryKey.map(column => [column, row[column]]))))
+    );
+    return { rows, primaryKey: entry.primaryKey };
+  }
+
+  private async rowsWhere(table: string, column: string, values: any[]): Promise<Record<string, any>[]> {
+    const rows: Record<string, any>[] = [];
+    for (let i = 0; i < values.length; i += KEY_CHUNK_SIZE) {
+      const { data, error } = await this.context.client.from(table).select('*').in(column, values.slice(i, i + KEY_CHUNK_SIZE));
+      if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+      rows.push(...((data as Record<string, any>[]) || []));
+    }
+    return rows;
+  }
+
+  private async updateRow(
+    fixture: StorageFixtureConfig,
+    row: Record<string, any>,
+    primaryKey: string[],
+    value: string | undefined,
+    result: StorageFixtureResult
+  ): Promise<void> {
+    const keys = Object.fromEntries(primaryKey.map(column => [column, row[column]]));
+    const { error } = await this.context.client.from(fixture.table).update({ [fixture.column!]: value } as any).match(keys);
+
+    if (error) {
+      result.errors.push(`${fixture.table}.${fixture.column}: ${error.message}`);
+    }
+  }
+
+  private loadFile(file: string): Buffer {
+    let buffer = this.fileCache.get(file);
+    if (!buffer) {
+      buffer = fs.readFileSync(path.resolve(this.baseDir, file));
+      this.fileCache.set(file, buffer);
+    }
+    return buffer;
+  }
+
+  private toImage(file: string): GeneratedImage {
+    const buffer = this.loadFile(file);
+    const type = mimeType(file);
+    const name = path.basename(file, path.extname(file));
+
+    return {
+      filename: path.basename(file),
+      blob: new Blob([buffer], { type }),
+      type,
+      size: buffer.length,
+      dimensions: { width: 0, height: 0 },
+      description: name,
+      altText: name.replace(/[-_]+/g, ' '),
+      metadata: {
+        source: 'fixture',
+        originalUrl: file,
+        tags: [],
+        colors: [],
+        generatedAt: new Date(this.determinism.now()).toISOString(),
+        category: path.basename(path.dirname(file))
+      }
+    };
+  }
+}
+
+function validateFixture(fixture: StorageFixtureConfig): string | undefined {
+  for (const key of ['files', 'bucket', 'path', 'table'] as const) {
+    if (typeof fixture[key] !== 'string' || fixture[key].length === 0) {
+      return `storage fixture needs a "${key}"`;
+    }
+  }
+  if (!fixture.column && !fixture.attachments) {
+    return 'storage fixture needs a "column" or "attachments" to reference the files';
+  }
+  if (fixture.value && fixture.value !== 'url' && fixture.value !== 'path') {
+    return `value must be "url" or "path", got "${fixture.value}"`;
+  }
+  if (fixture.filesPerRow !== undefined && (!Number.isInteger(fixture.filesPerRow) || fixture.filesPerRow < 1)) {
+    return 'filesPerRow must be a whole number of 1 or more';
+  }
+  return undefined;
+}
+
+/**
+ * Storage refuses an upload without upsert to a path that is taken with
+ * 'The resource already exists' (HTTP 409)
+ */
+function isCollision(error?: string): boolean {
+  return /already exists|\b409\b|Duplicate/i.test(error || '');
+}
+
+function fileVariables(file: string, size: number): Record<string, any> {
+  const ext = path.extname(file);
+  return {
+    'file.name': path.basename(file, ext),
+    'file.ext': ext.slice(1),
+    'file.size': size,
+    'file.type': mimeType(file)
+  };
+}
+
+function mimeType(file: string): string {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.jpeg') return 'image/jpeg';
+  const match = Object.entries(FILE_TYPE_EXTENSIONS).find(([, extension]) => extension === ext);
+  return match ? match[0] : 'application/octet-stream';
+}
+
+/**
+ * Fill {{field}} placeholders; unknown fields are an error so a typo never
+ * produces an object path like '/avatar.png'
+ */
+function renderTemplate(template: string, vars: Record<string, any>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, field: string) => {
+    if (!(field in vars)) {
+      throw new Error(`template "${template}" uses unknown field {{${field}}}`);
+    }
+    const value = vars[field];
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+/**
+ * A value that is a single placeholder keeps the field's type ('{{id}}',
+ * '{{file.size}}'); anything else is rendered as a string
+ */
+function renderValues(values: Record<string, string>, vars: Record<string, any>): Record<string, any> {
+  const row: Record<string, any> = {};
+
+  for (const [column, template] of Object.entries(values)) {
+    const single = /^\{\{\s*([^}]+?)\s*\}\}$/.exec(template);
+    if (single && single[1] in vars) {
+      row[column] = vars[single[1]] ?? null;
+    } else {
+      row[column] = renderTemplate(template, vars);
+    }
+  }
+
+  return row;
+}
@@ -10,6 +10,7 @@ import {
   StorageConfig,
   StorageUploadResult,
   StorageBatchUploadResult,
+  BatchUploadOptions,
   MediaAttachment,
   StoragePermissionCheck,
   StorageQuotaInfo,
@@ -34,7 +35,7 @@ export class StorageIntegrationManager {
   constructor(client: SupabaseClient, config: Partial<StorageConfig> = {}) {
     this.client = client;
     this.config = { ...DEFAULT_STORAGE_CONFIG, ...config };
-    this.imageGenerator = new ImageGenerator();
+    this.imageGenerator = new ImageGenerator({ seed: this.config.seed });
   }
 
   /**
@@ -184,7 +185,8 @@ export class StorageIntegrationManager {
     setupId: string,
     accountId: string | undefined,
     config: StorageConfig,
-    index: number
+    index: number,
+    options: Omit<BatchUploadOptions, 'paths'> & { path?: string } = {}
   ): Promise<StorageUploadResult> {
     const startTime = Date.now();
 
@@ -192,15 +194,15 @@ export class StorageIntegrationManager {
       // Generate file path
       const fileExtension = this.getFileExtension(image.type);
       const timestamp = Date.now();
-      const fileName = `${setupId}_${index}_${timestamp}${fileExtension}`;
-      const filePath = `${config.storageRootPath}/${setupId}/${fileName}`;
+      const filePath = options.path ?? `${config.storageRootPath}/${setupId}/${setupId}_${index}_${timestamp}${fileExtension}`;
+      const fileName = filePath.split('/').pop()!;
 
       // Upload to Supabase Storage
       const { data: uploadData, error: uploadError } = await this.client.storage
         .from(config.bucketName)
         .upload(filePath, image.blob, {
           contentType: image.type,
-          upsert: false,
+          upsert: options.upsert ?? false,
           cacheControl: '3600' // 1 hour cache
         });
 
@@ -248,6 +250,10 @@ export class StorageIntegrationManager {
         }
       };
 
+      if (options.recordAttachments === false) {
+        return this.uploadResult(image, filePath, publicUrl, startTime);
+      }
+
       // Insert media attachment record into database
       const { data: dbData, error: dbError } = await this.client
         .from('media_attachments')
@@ -264,20 +270,9 @@ export class StorageIntegrationManager {
         throw new Error(`Database insert failed: ${dbError.message}`);
       }
 
-      const executionTime = Date.now() - startTime;
-
       return {
-        success: true,
-        mediaAttachment: (dbData as unknown as MediaAttachment) || mediaAttachment,
-        filePath,
-        publicUrl,
-        warnings: [],
-        uploadTime: executionTime,
-        metadata: {
-          originalSize: image.size,
-          uploadSpeed: image.size / (executionTime / 1000),
-          bucketUsage: 0 // Would calculate in production
-        }
+        ...this.uploadResult(image, filePath, publicUrl, startTime),
+        mediaAttachment: (dbData as unknown as MediaAttachment) || mediaAttachment
       };
 
     } catch (error: any) {
@@ -297,6 +292,23 @@ export class StorageIntegrationManager {
     }
   }
 
+  private uploadResult(image: GeneratedImage, filePath: string, publicUrl: string | undefined, startTime: number): StorageUploadResult {
+    const executionTime = Date.now() - startTime;
+
+    return {
+      success: true,
+      filePath,
+      publicUrl,
+      warnings: [],
+      uploadTime: executionTime,
+      metadata: {
+        originalSize: image.size,
+        uploadSpeed: image.size / (executionTime / 1000),
+        bucketUsage: 0 // Would calculate in production
+      }
+    };
+  }
+
   /**
    * Check storage permissions and RLS policies
    */
@@ -478,19 +490,22 @@ export class StorageIntegrationManager {
   }
 
   /**
-   * Batch upload multiple files
+   * Batch upload multiple files. Without `options.paths` each file gets a
+   * generated name under the setup's folder and a media_attachments row.
    */
   async batchUpload(
     files: GeneratedImage[],
     setupId: string,
     accountId?: string,
-    config?: Partial<StorageConfig>
+    config?: Partial<StorageConfig>,
+    options: BatchUploadOptions = {}
   ): Promise<StorageBatchUploadResult> {
     const startTime = Date.now();
     const effectiveConfig = { ...this.config, ...config };
     
     Logger.info(`📤 Starting batch upload of ${files.length} files`);
 
+    const uploads: StorageUploadResult[] = [];
     const mediaAttachments: MediaAttachment[] = [];
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -501,27 +516,39 @@ export class StorageIntegrationManager {
     const concurrency = 3;
     const chunks = this.chunkArray(files, concurrency);
 
-    for (const chunk of chunks) {
-      const promises = chunk.map((file, index) => 
-        this.uploadImageToStorage(file, setupId, accountId, effectiveConfig, index)
-      );
+    for (const [chunkIndex, chunk] of chunks.entries()) {
+      const promises = chunk.map((file, offset) => {
+        const index = chunkIndex * concurrency + offset;
+        return this.uploadImageToStorage(file, setupId, accountId, effectiveConfig, index, {
+          path: options.paths?.[index],
+          recordAttachments: options.recordAttachments,
+          upsert: options.upsert
+        });
+      });
 
       const results = await Promise.allSettled(promises);
 
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          const uploadResult = result.value;
-          
-          if (uploadResult.success && uploadResult.mediaAttachment) {
+      for (const [offset, result] of results.entries()) {
+        const uploadResult: StorageUploadResult = result.status === 'fulfilled'
+          ? result.value
+          : {
+            success: false,
+            error: `Upload failed: ${result.reason}`,
+            warnings: [],
+            uploadTime: 0,
+            metadata: { originalSize: chunk[offset].size, uploadSpeed: 0, bucketUsage: 0 }
+          };
+        uploads.push(uploadResult);
+
+        if (uploadResult.success) {
+          if (uploadResult.mediaAttachment) {
             mediaAttachments.push(uploadResult.mediaAttachment);
-            successfulUploads++;
-            totalSize += uploadResult.metadata.originalSize;
-          } else {
-            errors.push(uploadResult.error || 'Unknown upload error');
-            warnings.push(...uploadResult.warnings);
           }
+          successfulUploads++;
+          totalSize += uploadResult.metadata.originalSize;
         } else {
-          errors.push(`Upload failed: ${result.reason}`);
+          errors.push(uploadResult.error || 'Unknown upload error');
+          warnings.push(...uploadResult.warnings);
         }
       }
     }
@@ -533,6 +560,7 @@ export class StorageIntegrationManager {
       totalFiles: files.length,
       successfulUploads,
       failedUploads: files.length - successfulUploads,
+      uploads,
       mediaAttachments,
       errors,
       warnings,
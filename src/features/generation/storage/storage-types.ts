@@ -3,18 +3,22 @@
  * Types and interfaces for Supabase Storage integration and file management
  */
 
+import type { ImageEncoding } from './image-encoders';
+import type { ProceduralImageStyle } from './procedural-image-renderer';
+
 export interface StorageConfig {
   bucketName: string;
   domain: string; // e.g., 'outdoor-adventure', 'saas-tools', 'general'
   categories: string[]; // e.g., ['camping', 'hiking', 'climbing']
   imagesPerSetup: number;
   enableRealImages: boolean;
-  imageService: 'unsplash' | 'pixabay' | 'mock';
+  imageService: 'unsplash' | 'pixabay' | 'mock' | 'procedural';
   maxFileSize: number; // in bytes
   allowedFileTypes: string[]; // e.g., ['image/jpeg', 'image/png', 'image/webp']
   generateThumbnails: boolean;
   respectRLS: boolean;
   storageRootPath: string; // Root path in bucket
+  seed?: string; // Seed for procedural images (default: 'supa-seed')
 }
 
 export interface ImageGenerationOptions {
@@ -27,6 +31,8 @@ export interface ImageGenerationOptions {
   fallbackToMock: boolean;
   rateLimitDelay: number; // ms between API calls
   maxRetries: number;
+  format?: ImageEncoding; // Procedural images only (default: jpeg)
+  style?: ProceduralImageStyle; // Procedural images only (default: picked from the category)
 }
 
 export interface ImageDimensions {
@@ -48,7 +54,7 @@ export interface GeneratedImage {
 }
 
 export interface ImageMetadata {
-  source: 'unsplash' | 'pixabay' | 'mock';
+  source: 'unsplash' | 'pixabay' | 'mock' | 'procedural' | 'fixture';
   sourceId?: string;
   authorName?: string;
   authorUrl?: string;
@@ -112,11 +118,18 @@ export interface StorageUploadResult {
   };
 }
 
+export interface BatchUploadOptions {
+  paths?: string[]; // Object path for each file, in order (default: <storageRootPath>/<setupId>/<generated name>)
+  recordAttachments?: boolean; // Insert a media_attachments row per file (default: true)
+  upsert?: boolean; // Replace objects that already exist (default: false)
+}
+
 export interface StorageBatchUploadResult {
   success: boolean;
   totalFiles: number;
   successfulUploads: number;
   failedUploads: number;
+  uploads: StorageUploadResult[]; // One per file, in input order
   mediaAttachments: MediaAttachment[];
   errors: string[];
   warnings: string[];
@@ -176,12 +189,12 @@ export interface PixabayConfig {
   fallbackToMock: boolean;
 }
 
-export interface MockImageConfig {
-  baseUrl: string;
-  categories: Record<string, string[]>; // category -> color schemes
-  dimensions: ImageDimensions[];
-  formats: string[];
-  generateRealistic: boolean;
+export interface ProceduralImageConfig {
+  seed: string; // The same seed, search term and position always render the same image
+  categories: Record<string, string[]>; // Category or domain -> color palette
+  dimensions: ImageDimensions[]; // Used in turn when a request has no dimensions
+  formats: ImageEncoding[]; // Used in turn when a request has no format
+  quality: number; // JPEG quality, 1-100
 }
 
 export interface ImageServiceProvider {
@@ -202,6 +215,8 @@ export interface ImageSearchOptions {
   minWidth?: number;
   minHeight?: number;
   safeSearch: boolean;
+  format?: ImageEncoding;
+  style?: ProceduralImageStyle;
 }
 
 export interface ImageSearchResult {
@@ -227,7 +242,7 @@ export interface SearchResultImage {
     url?: string;
   };
   license: string;
-  source: 'unsplash' | 'pixabay' | 'mock';
+  source: 'unsplash' | 'pixabay' | 'mock' | 'procedural';
 }
 
 export interface RateLimitInfo {
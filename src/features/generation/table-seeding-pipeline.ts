@@ -0,0 +1,580 @@
+/**
+ * Table-Driven Seeding Pipeline
+ * Seeds any table in the schema: tables are visited phase by phase in the order
+ * produced by the DependencyGraphBuilder, columns are filled using the
+ * DynamicColumnMapper's semantic mappings (falling back to the column type),
+ * and foreign keys are pointed at parent rows that already exist. Columns
+ * declared under `tables.<name>.columns` use their configured generator instead.
+ */
+
+import { SeedModule, SeedContext } from '../../core/types/types';
+import { Logger } from '../../core/utils/logger';
+import { SchemaIntrospector, SchemaIntrospectionResult, DatabaseTable, DatabaseColumn, TablePattern } from '../../schema/schema-introspector';
+import { DynamicColumnMapper, TableColumnMap } from '../../schema/dynamic-column-mapper';
+import { DependencyGraphBuilder, ForeignKeyRelationship, SeedingPhase } from '../../schema/dependency-graph';
+import { RelationshipAnalyzer } from '../analysis/relationship-analyzer';
+import { getDatabaseBackend } from '../../core/database/database-backend';
+import { ColumnGenerator, DeclaredColumns, compileColumnGenerators, generateColumnValue, parseColumnGenerator } from './column-generators';
+
+export interface TableSeedingPlan {
+  phases: SeedingPhase[];
+  tables: Map<string, DatabaseTable>;
+  roles: Map<string, TablePattern['suggestedRole']>;
+  foreignKeys: ForeignKeyRelationship[];
+  mappings: Map<string, TableColumnMap>;
+}
+
+export interface TablePipelineResult {
+  rowsCreated: Record<string, number>;
+  skippedTables: Array<{ table: string; reason: string }>;
+  errors: string[];
+}
+
+const DEFAULT_ROW_COUNT = 10;
+const DEFAULT_BATCH_SIZE = 100;
+const PARENT_KEY_LIMIT = 1000;
+const MAX_UNIQUE_ATTEMPTS = 5;
+
+// Tables with these roles are normally created by the auth/users domain plugins
+const PLUGIN_OWNED_ROLES: Array<TablePattern['suggestedRole']> = ['user', 'auth'];
+
+export class TableSeedingPipeline extends SeedModule {
+  private insertedRows = new Map<string, Record<string, any>[]>();
+  private parentKeyCache = new Map<string, any[]>();
+
+  constructor(context: SeedContext) {
+    super(context);
+  }
+
+  async seed(): Promise<void> {
+    const plan = await this.plan();
+    const result = await this.run(plan);
+
+    const total = Object.values(result.rowsCreated).reduce((sum, count) => sum + count, 0);
+    Logger.success(`Table pipeline created ${total} rows across ${Object.keys(result.rowsCreated).length} tables`);
+    result.skippedTables.forEach(skip => Logger.info(`   Skipped ${skip.table}: ${skip.reason}`));
+    result.errors.forEach(error => Logger.warn(`   ${error}`));
+  }
+
+  /**
+   * Introspect the database and work out which tables to seed in which order
+   */
+  async plan(): Promise<TableSeedingPlan> {
+    const introspector = new SchemaIntrospector(this.context.client);
+    const schemaInfo = await introspector.introspectSchema();
+
+    let foreignKeys: ForeignKeyRelationship[] = [];
+    let phases: SeedingPhase[] | undefined;
+
+    try {
+      const analyzer = new RelationshipAnalyzer(this.context.client, {
+        includeTables: schemaInfo.tables.map(table => table.name),
+        enableCaching: false,
+        generateRecommendations: false
+      });
+      const analysis = await analyzer.analyzeRelationships();
+      if (analysis.success) {
+        foreignKeys = analysis.foreignKeyRelationships;
+        phases = analysis.seedingOrder.phases;
+      }
+    } catch (error: any) {
+      Logger.debug('Relationship analysis failed, seeding tables without foreign keys:', error.message);
+    }
+
+    // Declared ref: generators order tables like foreign keys do
+    const references = this.declaredReferences();
+    if (references.length > 0) {
+      foreignKeys = [...foreignKeys, ...references];
+      phases = undefined;
+    }
+
+    const mapper = new DynamicColumnMapper();
+    const mappings = await mapper.createMappings(schemaInfo);
+
+    return TableSeedingPipeline.createPlan(schemaInfo, foreignKeys, mappings, phases);
+  }
+
+  /**
+   * Assemble a plan from introspection results. Phases are computed from the
+   * foreign keys when the relationship analysis did not provide them.
+   */
+  static createPlan(
+    schemaInfo: Pick<SchemaIntrospectionResult, 'tables' | 'patterns'>,
+    foreignKeys: ForeignKeyRelationship[],
+    mappings: Map<string, TableColumnMap> = new Map(),
+    phases?: SeedingPhase[]
+  ): TableSeedingPlan {
+    const tables = new Map(schemaInfo.tables.map(table => [table.name, table] as [string, DatabaseTable]));
+    const roles = new Map(schemaInfo.patterns.map(pattern => [pattern.name, pattern.suggestedRole] as [string, TablePattern['suggestedRole']]));
+
+    let seedingPhases = phases?.length ? phases : undefined;
+    if (!seedingPhases) {
+      const builder = new DependencyGraphBuilder();
+      tables.forEach(table => builder.addNode(table.name, table.schema));
+      foreignKeys
+        .filter(fk => fk.fromTable !== fk.toTable && tables.has(fk.fromTable) && tables.has(fk.toTable))
+        .forEach(fk => builder.addEdge(fk.fromTable, fk.toTable, fk));
+      builder.build();
+      seedingPhases = builder.calculateSeedingOrderWithPhases().phases;
+    }
+
+    // Tables the analysis did not place have no known dependencies, so they go first
+    const placed = new Set(seedingPhases.flatMap(phase => phase.tables));
+    const unplaced = Array.from(tables.keys()).filter(table => !placed.has(table));
+    if (unplaced.length > 0 && seedingPhases.length > 0) {
+      seedingPhases = [
+        { ...seedingPhases[0], tables: [...unplaced, ...seedingPhases[0].tables] },
+        ...seedingPhases.slice(1)
+      ];
+    }
+
+    return { phases: seedingPhases, tables, roles, foreignKeys, mappings };
+  }
+
+  /**
+   * Seed every planned table, one phase at a time
+   */
+  async run(plan: TableSeedingPlan): Promise<TablePipelineResult> {
+    const result: TablePipelineResult = { rowsCreated: {}, skippedTables: [], errors: [] };
+
+    for (const phase of plan.phases) {
+      Logger.debug(`Table pipeline ${phase.description}: ${phase.tables.join(', ')}`);
+
+      for (const tableName of phase.tables) {
+        const table = plan.tables.get(tableName);
+        if (!table) continue;
+
+        // Table hooks run at the table's place in the order even when it gets no rows
+        await this.context.hooks?.run('beforeTable', tableName);
+
+        // Top-up runs only create the rows earlier runs did not
+        const seeded = this.context.seeded?.count(tableName) ?? 0;
+        const count = this.resolveCount(tableName, plan.roles.get(tableName)) - seeded;
+        if (count > 0) {
+          await this.seedTable(table, count, plan, result, seeded);
+        }
+
+        await this.context.hooks?.run('afterTable', tableName);
+      }
+    }
+
+    const stats = this.context.stats;
+    stats.tableRowsCreated = { ...(stats.tableRowsCreated || {}), ...result.rowsCreated };
+
+    return result;
+  }
+
+  /**
+   * Number of rows to create for a table. An explicit `tables.<name>.count`
+   * always wins; otherwise tables owned by domain plugins are left alone.
+   */
+  resolveCount(tableName: string, role?: TablePattern['suggestedRole']): number {
+    const { tables, seeding } = this.context.config;
+    const explicit = tables?.[tableName]?.count;
+    if (explicit !== undefined) {
+      return explicit;
+    }
+
+    if (seeding?.excludeTables?.includes(tableName)) return 0;
+    if (seeding?.includeTables?.length && !seeding.includeTables.includes(tableName)) return 0;
+    if (role && PLUGIN_OWNED_ROLES.includes(role)) return 0;
+
+    // Rows a domain plugin already inserted during this run
+    const recorded = this.context.manifest?.getManifest().tables.some(entry => entry.table === tableName);
+    if (recorded) return 0;
+
+    return seeding?.defaultCount ?? DEFAULT_ROW_COUNT;
+  }
+
+  private async seedTable(
+    table: DatabaseTable,
+    count: number,
+    plan: TableSeedingPlan,
+    result: TablePipelineResult,
+    firstIndex = 0
+  ): Promise<void> {
+    const compiled = compileColumnGenerators(table, this.context.config.tables?.[table.name]?.columns);
+    result.errors.push(...compiled.problems.map(problem => `${table.name}: ${problem}`));
+    const declared: DeclaredColumns = { generators: compiled.generators, references: new Map() };
+
+    for (const generator of compiled.generators.values()) {
+      if (generator.kind === 'ref') {
+        declared.references.set(
+          `${generator.table}.${generator.column}`,
+          await this.getReferenceValues(generator.table, generator.column)
+        );
+      }
+    }
+
+    const foreignKeys = plan.foreignKeys.filter(fk => fk.fromTable === table.name);
+    const parentKeys = new Map<string, any[]>();
+    const rootReferences: ForeignKeyRelationship[] = [];
+
+    for (const fk of foreignKeys) {
+      // A column with its own generator does not need parent rows, unless it is a ref
+      const generator = declared.generators.get(fk.fromColumn);
+      if (generator && generator.kind !== 'ref') continue;
+
+      const keys = await this.getParentKeys(fk);
+      const column = table.columns.find(col => col.name === fk.fromColumn);
+      const nullable = column ? column.isNullable : fk.isNullable;
+
+      if (keys.length === 0 && !nullable) {
+        if (fk.fromTable !== fk.toTable) {
+          result.skippedTables.push({ table: table.name, reason: `no rows in ${fk.toTable} for required ${fk.fromColumn}` });
+          return;
+        }
+        rootReferences.push(fk);
+        continue;
+      }
+      parentKeys.set(fk.fromColumn, keys);
+    }
+
+    let created = 0;
+    if (rootReferences.length > 0) {
+      // A required reference to the table itself: the first row points at
+      // itself, and the rest point at it
+      const [root] = this.generateRows(table, 1, plan, parentKeys, declared, firstIndex);
+      for (const fk of rootReferences) {
+        const target = table.columns.find(col => col.name === fk.toColumn);
+        root[fk.toColumn] ??= target ? this.valueForType(target, firstIndex, true) : this.context.faker.string.uuid();
+        root[fk.fromColumn] = root[fk.toColumn];
+      }
+
+      created = await this.insertRows(table.name, [root], result);
+      if (created === 0) return;
+      for (const fk of rootReferences) {
+        parentKeys.set(fk.fromColumn, await this.getParentKeys(fk));
+      }
+      count--;
+      firstIndex++;
+    }
+
+    const rows = this.generateRows(table, count, plan, parentKeys, declared, firstIndex);
+    created += await this.insertRows(table.name, rows, result);
+
+    if (created > 0) {
+      result.rowsCreated[table.name] = created;
+    }
+  }
+
+  /**
+   * Generate `count` rows, dropping rows that would repeat a primary key.
+   * Row indexes (sequences, unique suffixes) start at `firstIndex`.
+   */
+  generateRows(
+    table: DatabaseTable,
+    count: number,
+    plan: TableSeedingPlan,
+    parentKeys: Map<string, any[]> = new Map(),
+    declared: DeclaredColumns = { generators: new Map(), references: new Map() },
+    firstIndex = 0
+  ): Record<string, any>[] {
+    const keyColumns = table.columns
+      .filter(col => col.isPrimaryKey && col.defaultValue === null)
+      .map(col => col.name);
+    const seenKeys = new Set<string>();
+    const rows: Record<string, any>[] = [];
+
+    for (let index = firstIndex; index < firstIndex + count; index++) {
+      for (let attempt = 0; attempt < MAX_UNIQUE_ATTEMPTS; attempt++) {
+        const row = this.generateRow(table, index, plan, parentKeys, declared);
+        const key = JSON.stringify(keyColumns.map(col => row[col]));
+
+        if (keyColumns.length === 0 || !seenKeys.has(key)) {
+          seenKeys.add(key);
+          rows.push(row);
+          break;
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  private generateRow(
+    table: DatabaseTable,
+    index: number,
+    plan: TableSeedingPlan,
+    parentKeys: Map<string, any[]>,
+    declared: DeclaredColumns
+  ): Record<string, any> {
+    const { faker } = this.context;
+    const row: Record<string, any> = {};
+    const templates: DatabaseColumn[] = [];
+
+    for (const column of table.columns) {
+      const generator = declared.generators.get(column.name);
+      if (generator) {
+        // Templates run last so they can use the other values in the row
+        if (generator.kind === 'template') {
+          templates.push(column);
+        } else {
+          row[column.name] = this.generateDeclaredValue(generator, column, index, row, declared);
+        }
+        continue;
+      }
+
+      const keys = parentKeys.get(column.name);
+      if (keys) {
+        row[column.name] = keys.length > 0 ? faker.helpers.arrayElement(keys) : null;
+        continue;
+      }
+
+      // Let the database fill defaults (ids, timestamps, flags)
+      if (column.defaultValue !== null) {
+        continue;
+      }
+
+      row[column.name] = this.generateValue(table, column, index, plan);
+    }
+
+    for (const column of templates) {
+      row[column.name] = this.generateDeclaredValue(declared.generators.get(column.name)!, column, index, row, declared);
+    }
+
+    return row;
+  }
+
+  private generateDeclaredValue(
+    generator: ColumnGenerator,
+    column: DatabaseColumn,
+    index: number,
+    row: Record<string, any>,
+    declared: DeclaredColumns
+  ): any {
+    return generateColumnValue(generator, {
+      faker: this.context.faker,
+      index,
+      row,
+      enumValues: column.enumValues,
+      references: declared.references
+    });
+  }
+
+  private generateValue(table: DatabaseTable, column: DatabaseColumn, index: number, plan: TableSeedingPlan): any {
+    const { faker, config } = this.context;
+    const emailDomain = config.emailDomain || 'supaseed.test';
+    const unique = this.isUniqueColumn(table, column.name);
+
+    if (column.enumValues?.length) {
+      return faker.helpers.arrayElement(column.enumValues);
+    }
+
+    const semanticField = plan.mappings.get(table.name)?.mappings
+      .find(mapping => mapping.actualColumn === column.name)?.semanticField;
+    const name = column.name.toLowerCase();
+
+    switch (semanticField) {
+      case 'email':
+        return `${faker.internet.userName().toLowerCase().replace(/[^a-z0-9._-]/g, '')}.${index}@${emailDomain}`;
+      case 'name':
+        return faker.person.fullName();
+      case 'username':
+        return `${faker.internet.userName().toLowerCase()}${index}`;
+      case 'avatar':
+        return faker.image.avatar();
+      case 'bio':
+        return faker.lorem.sentence();
+      case 'title':
+        return this.fitLength(faker.lorem.sentence(3).replace(/\.$/, ''), column, unique ? index : undefined);
+      case 'content':
+        return this.fitLength(faker.lorem.paragraphs(2), column);
+      case 'published':
+        return faker.datatype.boolean();
+      case 'created_at':
+      case 'updated_at':
+        return faker.date.past().toISOString();
+    }
+
+    // Column name hints for tables the mapper has no semantic fields for
+    if (name.includes('email')) {
+      return `${faker.internet.userName().toLowerCase().replace(/[^a-z0-9._-]/g, '')}.${index}@${emailDomain}`;
+    }
+    if (name.endsWith('url')) return faker.internet.url();
+    if (name.includes('phone')) return faker.phone.number();
+    if (name === 'slug' || name.endsWith('_slug')) {
+      return `${faker.helpers.slugify(faker.lorem.words(2)).toLowerCase()}-${index}`;
+    }
+
+    return this.valueForType(column, index, unique);
+  }
+
+  private valueForType(column: DatabaseColumn, index: number, unique: boolean): any {
+    const { faker } = this.context;
+    const type = column.type.toLowerCase();
+
+    if (type === 'uuid') return faker.string.uuid();
+    if (type === 'boolean') return faker.datatype.boolean();
+    if (['smallint', 'integer', 'bigint', 'int2', 'int4', 'int8'].includes(type)) {
+      return column.isPrimaryKey || unique
+        ? faker.number.int({ min: 1, max: 2147483647 })
+        : faker.number.int({ min: 0, max: 1000 });
+    }
+    if (['numeric', 'decimal', 'real', 'double precision', 'float4', 'float8'].includes(type)) {
+      return faker.number.float({ min: 0, max: 1000, precision: 0.01 });
+    }
+    if (type.startsWith('timestamp')) return faker.date.past().toISOString();
+    if (type === 'date') return faker.date.past().toISOString().slice(0, 10);
+    if (type === 'json' || type === 'jsonb') return {};
+    if (type === 'array' || type.endsWith('[]')) return [];
+
+    if (column.isPrimaryKey) return faker.string.uuid();
+    return this.fitLength(faker.lorem.words(3), column, unique ? index : undefined);
+  }
+
+  private fitLength(value: string, column: DatabaseColumn, suffixIndex?: number): string {
+    const suffix = suffixIndex !== undefined ? `-${suffixIndex}` : '';
+    if (column.maxLength && value.length + suffix.length > column.maxLength) {
+      return value.slice(0, Math.max(column.maxLength - suffix.length, 0)) + suffix;
+    }
+    return value + suffix;
+  }
+
+  private isUniqueColumn(table: DatabaseTable, columnName: string): boolean {
+    return table.constraints.some(constraint =>
+      constraint.type === 'UNIQUE' && constraint.columns.length === 1 && constraint.columns[0] === columnName
+    );
+  }
+
+  /**
+   * Key values a foreign key can point at: rows this pipeline inserted,
+   * otherwise rows already in the parent table
+   */
+  private async getParentKeys(fk: ForeignKeyRelationship): Promise<any[]> {
+    return this.getReferenceValues(fk.toTable, fk.toColumn);
+  }
+
+  /**
+   * Values of `table.column` for foreign keys and ref: generators
+   */
+  private async getReferenceValues(tableName: string, columnName: string): Promise<any[]> {
+    const inserted = this.insertedRows.get(tableName);
+    if (inserted?.length) {
+      return inserted.map(row => row[columnName]).filter(value => value !== undefined && value !== null);
+    }
+
+    const cacheKey = `${tableName}.${columnName}`;
+    const cached = this.parentKeyCache.get(cacheKey);
+    if (cached) return cached;
+
+    const { data, error } = await this.context.client
+      .from(tableName)
+      .select(columnName)
+      .limit(PARENT_KEY_LIMIT);
+
+    const keys = error || !data
+      ? []
+      : (data as Record<string, any>[]).map(row => row[columnName]).filter(value => value !== null);
+
+    if (error) {
+      Logger.debug(`Could not read ${cacheKey} for references: ${error.message}`);
+    }
+
+    this.parentKeyCache.set(cacheKey, keys);
+    return keys;
+  }
+
+  /**
+   * Dependencies introduced by ref: generators, in foreign key form
+   */
+  private declaredReferences(): ForeignKeyRelationship[] {
+    const references: ForeignKeyRelationship[] = [];
+
+    for (const [tableName, tableConfig] of Object.entries(this.context.config.tables || {})) {
+      for (const [columnName, spec] of Object.entries(tableConfig?.columns || {})) {
+        let generator: ColumnGenerator;
+        try {
+          generator = parseColumnGenerator(spec);
+        } catch {
+          continue; // Reported when the table is seeded
+        }
+        if (generator.kind !== 'ref' || generator.table === tableName) continue;
+
+        references.push({
+          constraintName: `declared_${tableName}_${columnName}`,
+          fromTable: tableName,
+          fromColumn: columnName,
+          toTable: generator.table,
+          toColumn: generator.column,
+          onDelete: 'NO ACTION',
+          onUpdate: 'NO ACTION',
+          isNullable: true,
+          isDeferrable: false,
+          schema: 'public'
+        });
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Insert in batches; a failed batch is retried row by row so one bad row
+   * does not lose the rest. With impersonation, rows a seeded user owns are
+   * inserted as that user and rows RLS refuses are recorded, not retried;
+   * only the owner groups that failed are retried row by row.
+   */
+  private async insertRows(tableName: string, rows: Record<string, any>[], result: TablePipelineResult): Promise<number> {
+    const batchSize = this.context.config.seeding?.batchSize ?? DEFAULT_BATCH_SIZE;
+    // COPY when the client has a direct connection, PostgREST inserts otherwise
+    const backend = getDatabaseBackend(this.context.client);
+    const impersonation = this.context.impersonation;
+    const inserted = this.insertedRows.get(tableName) || [];
+    let created = 0;
+
+    for (let i = 0; i < rows.length; i += batchSize) {
+      let retry = rows.slice(i, i + batchSize);
+
+      if (impersonation) {
+        const { stored, failed } = await impersonation.insert(tableName, retry, unowned => backend.bulkInsert(tableName, unowned));
+        inserted.push(...stored);
+        created += stored.length;
+        if (failed.length === 0) continue;
+
+        Logger.debug(`Batch insert into ${tableName} failed, retrying row by row: ${failed[0].error}`);
+        retry = failed.flatMap(group => group.rows);
+      } else {
+        try {
+          inserted.push(...await backend.bulkInsert(tableName, retry));
+          created += retry.length;
+          continue;
+        } catch (error: any) {
+          Logger.debug(`Batch insert into ${tableName} failed, retrying row by row: ${error.message}`);
+        }
+      }
+
+      let firstError: string | undefined;
+      for (const row of retry) {
+        try {
+          if (impersonation) {
+            const { stored, failed } = await impersonation.insert(tableName, [row], unowned => this.insertRow(tableName, unowned[0]));
+            if (failed.length > 0) throw new Error(failed[0].error);
+            inserted.push(...stored);
+            created += stored.length;
+          } else {
+            inserted.push(...await this.insertRow(tableName, row));
+            created++;
+          }
+        } catch (error: any) {
+          firstError = firstError || error.message;
+        }
+      }
+
+      if (firstError) {
+        result.errors.push(`${tableName}: ${firstError}`);
+      }
+    }
+
+    this.insertedRows.set(tableName, inserted);
+    return created;
+  }
+
+  private async insertRow(tableName: string, row: Record<string, any>): Promise<Record<string, any>[]> {
+    const single = await this.context.client.from(tableName).insert(row).select();
+    if (single.error) {
+      throw new Error(single.error.message);
+    }
+    return (single.data as Record<string, any>[]) || [row];
+  }
+}
@@ -278,7 +278,8 @@ export class TemplateEngine {
    */
   validateTemplate(templateString: string): TemplateResult {
     try {
-      this.handlebars.compile(templateString, {
+      // compile() defers parsing until the first render; precompile() parses now
+      this.handlebars.precompile(templateString, {
         strict: this.options.strictMode
       });
 
@@ -1,21 +1,55 @@
 /**
- * Template Marketplace - Stub Implementation
- * This is a placeholder for future functionality
+ * Template Marketplace
+ * Finds template packages in the repositories listed under the
+ * `templateRepositories` config key and installs them into .supa-seed/templates.
+ * A repository is a local directory, a git repository (a working copy, a bare
+ * repository or a file:// URL) or an npm tarball. Each package is a directory
+ * with a supa-seed-template.json manifest, either at the repository root or one
+ * per subdirectory. Installed versions are pinned in templates-lock.json next
+ * to the installed packages.
  */
 
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import semver from 'semver';
+import * as tar from 'tar';
+import { fileURLToPath } from 'url';
+import { Logger } from '../../core/utils/logger';
+import { TemplateValidator, RESERVED_TEMPLATE_PACKAGE_IDS, isTemplatePackageId } from './template-validator';
+
+export const TEMPLATE_MANIFEST = 'supa-seed-template.json';
+const LOCKFILE = 'templates-lock.json';
+const LOCKFILE_VERSION = 1;
+
+export interface PackageTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  category?: string;
+  file?: string; // Relative to the package directory, read into content
+  content?: string;
+  variables?: Record<string, any>;
+}
+
 export interface TemplatePackage {
   id: string;
   name: string;
   version: string;
   description: string;
   author: string;
-  templates: any[];
+  category?: string;
+  tags?: string[];
+  templates: PackageTemplate[];
 }
 
 export interface Repository {
   url: string;
   name: string;
   type: 'git' | 'npm' | 'local';
+  ref?: string; // Branch or tag to clone (git only)
 }
 
 export interface SearchQuery {
@@ -26,25 +60,413 @@ export interface SearchQuery {
 }
 
 export interface InstallOptions {
-  force?: boolean;
-  dev?: boolean;
-  save?: boolean;
+  force?: boolean; // Reinstall even when the locked version satisfies the request
+  repository?: string; // Only look in the repository with this name
+}
+
+export interface InstalledTemplate {
+  id: string;
+  version: string;
+  repository: Repository;
+  resolved: string; // Directory, tarball or git commit the package came from
+  integrity: string;
+  installedAt: string;
+}
+
+export interface TemplateLockfile {
+  lockfileVersion: number;
+  packages: Record<string, InstalledTemplate>;
+}
+
+export interface TemplateMarketplaceOptions {
+  repositories?: Repository[];
+  directory?: string;
+  validator?: TemplateValidator;
+}
+
+interface ResolvedPackage {
+  pkg: TemplatePackage;
+  directory: string;
+}
+
+interface RepositoryContents {
+  packages: ResolvedPackage[];
+  invalid: Array<{ id: string; errors: string[] }>;
+  resolved: string;
 }
 
 export class TemplateMarketplace {
-  constructor() {
-    // Stub implementation
+  private repositories: Repository[];
+  private directory: string;
+  private validator: TemplateValidator;
+
+  constructor(options: TemplateMarketplaceOptions = {}) {
+    this.repositories = options.repositories || [];
+    this.directory = options.directory || path.join(process.cwd(), '.supa-seed', 'templates');
+    this.validator = options.validator || new TemplateValidator();
+  }
+
+  /**
+   * Valid packages across all repositories, by id and newest version first.
+   * Repositories that cannot be read are skipped with a warning.
+   */
+  async search(query: SearchQuery = {}): Promise<TemplatePackage[]> {
+    const found: TemplatePackage[] = [];
+
+    for (const repository of this.repositories) {
+      try {
+        const { packages, invalid } = await this.withRepository(repository, contents => contents);
+        invalid.forEach(({ id, errors }) =>
+          Logger.warn(`Skipping invalid template package '${id}' in ${repository.name}: ${errors.join('; ')}`));
+        found.push(...packages.map(({ pkg }) => pkg).filter(pkg => matches(pkg, query)));
+      } catch (error: any) {
+        Logger.warn(`Skipping template repository '${repository.name}': ${error.message}`);
+      }
+    }
+
+    return found.sort((a, b) => a.id.localeCompare(b.id) || semver.rcompare(a.version, b.version));
+  }
+
+  /**
+   * Install `id` or `id@range`, taking the newest matching version from the
+   * first repository that has one
+   */
+  async install(spec: string, options: InstallOptions = {}): Promise<InstalledTemplate> {
+    const { id, range } = parsePackageSpec(spec);
+    const lockfile = this.readLockfile();
+
+    const locked = lockfile.packages[id];
+    if (locked && !options.force && semver.satisfies(locked.version, range) && fs.existsSync(this.packageDirectory(id))) {
+      if (hashDirectory(this.packageDirectory(id)) !== locked.integrity) {
+        throw new Error(`${id}@${locked.version} has been modified since it was installed; reinstall it with --force`);
+      }
+      Logger.info(`${id}@${locked.version} is already installed`);
+      return locked;
+    }
+
+    const repositories = options.repository
+      ? this.repositories.filter(repository => repository.name === options.repository)
+      : this.repositories;
+    if (repositories.length === 0) {
+      throw new Error(options.repository
+        ? `Unknown template repository '${options.repository}'`
+        : 'No template repositories configured (add templateRepositories to your config)');
+    }
+
+    for (const repository of repositories) {
+      const installed = await this.withRepository(repository, ({ packages, invalid, resolved }) => {
+        const candidates = packages
+          .filter(({ pkg }) => pkg.id === id && semver.satisfies(pkg.version, range))
+          .sort((a, b) => semver.rcompare(a.pkg.version, b.pkg.version));
+
+        if (candidates.length === 0) {
+          const broken = invalid.find(entry => entry.id === id);
+          if (broken) {
+            throw new Error(`Invalid template package '${id}' in ${repository.name}:\n  - ${broken.errors.join('\n  - ')}`);
+          }
+          return null;
+        }
+
+        // Reinstalling the locked version must give the files that were locked
+        const expected = locked?.version === candidates[0].pkg.version ? locked.integrity : undefined;
+        return this.copyPackage(candidates[0], repository, resolved, expected);
+      });
+
+      if (installed) {
+        lockfile.packages[id] = installed;
+        this.writeLockfile(lockfile);
+        Logger.success(`Installed ${id}@${installed.version} from ${repository.name}`);
+        return installed;
+      }
+    }
+
+    throw new Error(`Template package '${spec}' not found in ${repositories.map(repository => repository.name).join(', ')}`);
+  }
+
+  /**
+   * Remove an installed package; false when it was not installed
+   */
+  async uninstall(packageId: string): Promise<boolean> {
+    const { id } = parsePackageSpec(packageId);
+    const lockfile = this.readLockfile();
+    const directory = this.packageDirectory(id);
+    const installed = Boolean(lockfile.packages[id]) || fs.existsSync(directory);
+
+    fs.rmSync(directory, { recursive: true, force: true });
+    if (lockfile.packages[id]) {
+      delete lockfile.packages[id];
+      this.writeLockfile(lockfile);
+    }
+
+    if (installed) {
+      Logger.success(`Uninstalled ${id}`);
+    }
+    return installed;
+  }
+
+  list(): InstalledTemplate[] {
+    return Object.values(this.readLockfile().packages).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * An installed package with its template files read into `content`
+   */
+  getInstalled(packageId: string): TemplatePackage | null {
+    const directory = this.packageDirectory(packageId);
+    if (!this.readLockfile().packages[packageId] || !fs.existsSync(path.join(directory, TEMPLATE_MANIFEST))) {
+      return null;
+    }
+    return readPackage(directory).pkg;
+  }
+
+  private copyPackage(
+    { pkg, directory }: ResolvedPackage,
+    repository: Repository,
+    resolved: string,
+    expectedIntegrity?: string
+  ): InstalledTemplate {
+    const integrity = hashDirectory(directory);
+    if (expectedIntegrity && integrity !== expectedIntegrity) {
+      throw new Error(
+        `${pkg.id}@${pkg.version} in ${repository.name} does not match ${LOCKFILE} ` +
+        `(expected ${expectedIntegrity}, got ${integrity}); uninstall it to accept the new contents`
+      );
+    }
+
+    const target = this.packageDirectory(pkg.id);
+    fs.rmSync(target, { recursive: true, force: true });
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.cpSync(directory, target, { recursive: true, filter: source => path.basename(source) !== '.git' });
+
+    return {
+      id: pkg.id,
+      version: pkg.version,
+      repository,
+      resolved,
+      integrity,
+      installedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Make the repository available as a local directory for the duration of `use`
+   */
+  private async withRepository<T>(repository: Repository, use: (contents: RepositoryContents) => T): Promise<T> {
+    if (repository.type === 'local') {
+      const directory = resolveLocation(repository.url);
+      if (!fs.existsSync(directory)) {
+        throw new Error(`Template repository '${repository.name}' not found at ${directory}`);
+      }
+      return use({ ...this.scan(directory), resolved: directory });
+    }
+
+    const workDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'supa-seed-templates-'));
+    try {
+      const checkout = path.join(workDirectory, 'package');
+      const resolved = repository.type === 'git'
+        ? cloneRepository(repository, checkout)
+        : await extractTarball(repository, workDirectory, checkout);
+      return use({ ...this.scan(checkout), resolved });
+    } finally {
+      fs.rmSync(workDirectory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * A manifest at the root makes the repository a single package; otherwise
+   * each subdirectory with a manifest is one
+   */
+  private scan(root: string): Omit<RepositoryContents, 'resolved'> {
+    const directories = fs.existsSync(path.join(root, TEMPLATE_MANIFEST))
+      ? [root]
+      : fs.readdirSync(root, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && fs.existsSync(path.join(root, entry.name, TEMPLATE_MANIFEST)))
+        .map(entry => path.join(root, entry.name));
+
+    const contents: Omit<RepositoryContents, 'resolved'> = { packages: [], invalid: [] };
+    for (const directory of directories) {
+      const { pkg, errors } = readPackage(directory);
+      const validation = this.validator.validatePackage(pkg);
+      const problems = [...errors, ...(validation.errors || [])];
+
+      if (problems.length > 0) {
+        contents.invalid.push({ id: typeof pkg?.id === 'string' ? pkg.id : path.basename(directory), errors: problems });
+      } else {
+        contents.packages.push({ pkg, directory });
+      }
+    }
+    return contents;
   }
 
-  search(query: SearchQuery): Promise<TemplatePackage[]> {
-    return Promise.resolve([]);
+  private packageDirectory(id: string): string {
+    return path.join(this.directory, id);
+  }
+
+  private readLockfile(): TemplateLockfile {
+    const lockPath = path.join(this.directory, LOCKFILE);
+    if (!fs.existsSync(lockPath)) {
+      return { lockfileVersion: LOCKFILE_VERSION, packages: {} };
+    }
+
+    const lockfile = JSON.parse(fs.readFileSync(lockPath, 'utf8')) as TemplateLockfile;
+    if (lockfile.lockfileVersion > LOCKFILE_VERSION) {
+      throw new Error(`${lockPath} was written by a newer supa-seed (lockfileVersion ${lockfile.lockfileVersion})`);
+    }
+    return lockfile;
+  }
+
+  private writeLockfile(lockfile: TemplateLockfile): void {
+    const packages: Record<string, InstalledTemplate> = {};
+    Object.keys(lockfile.packages).sort().forEach(id => { packages[id] = lockfile.packages[id]; });
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(path.join(this.directory, LOCKFILE), JSON.stringify({ ...lockfile, packages }, null, 2));
+  }
+}
+
+/**
+ * Split `id@range` into the package id and a semver range ('*' when omitted)
+ */
+export function parsePackageSpec(spec: string): { id: string; range: string } {
+  const separator = spec.indexOf('@', 1);
+  const id = separator === -1 ? spec : spec.slice(0, separator);
+  const range = separator === -1 ? '*' : spec.slice(separator + 1);
+
+  if (RESERVED_TEMPLATE_PACKAGE_IDS.includes(id)) {
+    throw new Error(`Reserved template package id: '${id}'`);
+  }
+  if (!isTemplatePackageId(id)) {
+    throw new Error(`Invalid template package id: '${id}'`);
+  }
+  if (!semver.validRange(range)) {
+    throw new Error(`Invalid version range for ${id}: '${range}'`);
   }
+  return { id, range };
+}
 
-  install(packageId: string, options?: InstallOptions): Promise<boolean> {
-    return Promise.resolve(true);
+/**
+ * Guess the repository type of a bare location: tarballs are npm packages,
+ * `.git` paths, git URLs and bare repositories are git, anything else is local
+ */
+export function parseRepository(url: string, name: string = url): Repository {
+  if (/\.(tgz|tar\.gz)$/.test(url)) {
+    return { url, name, type: 'npm' };
   }
 
-  uninstall(packageId: string): Promise<boolean> {
-    return Promise.resolve(true);
+  const isGit = /\.git\/?$/.test(url) || /^(git@|git:|ssh:)/.test(url) || url.startsWith('file://') ||
+    (fs.existsSync(resolveLocation(url)) && fs.existsSync(path.join(resolveLocation(url), 'HEAD')));
+  return { url, name, type: isGit ? 'git' : 'local' };
+}
+
+function readPackage(directory: string): { pkg: any; errors: string[] } {
+  let pkg: any;
+  try {
+    pkg = JSON.parse(fs.readFileSync(path.join(directory, TEMPLATE_MANIFEST), 'utf8'));
+  } catch (error: any) {
+    return { pkg: undefined, errors: [`${TEMPLATE_MANIFEST} could not be read: ${error.message}`] };
+  }
+  if (!Array.isArray(pkg?.templates)) {
+    return { pkg, errors: [] };
   }
-}
\ No newline at end of file
+
+  const errors: string[] = [];
+  pkg.templates = pkg.templates.map((template: any) => {
+    if (typeof template?.file !== 'string' || template.content !== undefined) {
+      return template;
+    }
+
+    const filePath = path.resolve(directory, template.file);
+    if (path.relative(directory, filePath).startsWith('..')) {
+      errors.push(`template '${template.id}': file '${template.file}' is outside the package`);
+      return template;
+    }
+    if (!fs.existsSync(filePath)) {
+      errors.push(`template '${template.id}': file '${template.file}' not found`);
+      return template;
+    }
+    return { ...template, content: fs.readFileSync(filePath, 'utf8') };
+  });
+
+  return { pkg, errors };
+}
+
+function matches(pkg: TemplatePackage, query: SearchQuery): boolean {
+  const text = [pkg.id, pkg.name, pkg.description, ...(pkg.tags || [])].join(' ').toLowerCase();
+  const terms = (query.terms || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  return terms.every(term => text.includes(term)) &&
+    (!query.category || pkg.category === query.category || pkg.templates.some(template => template.category === query.category)) &&
+    (!query.author || pkg.author.toLowerCase().includes(query.author.toLowerCase())) &&
+    (query.tags || []).every(tag => (pkg.tags || []).includes(tag));
+}
+
+function resolveLocation(url: string): string {
+  return url.startsWith('file://') ? fileURLToPath(url) : path.resolve(url);
+}
+
+/**
+ * Clone into `target` and return the commit that was checked out
+ */
+function cloneRepository(repository: Repository, target: string): string {
+  const git = (args: string[]) => execFileSync('git', args, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+
+  // git would read a URL like '--upload-pack=...' as an option
+  if (repository.url.startsWith('-')) {
+    throw new Error(`Invalid URL for template repository '${repository.name}': ${repository.url}`);
+  }
+
+  try {
+    git(['clone', '--quiet', '--depth', '1', ...(repository.ref ? ['--branch', repository.ref] : []), '--', repository.url, target]);
+    return `${repository.url}#${git(['-C', target, 'rev-parse', 'HEAD'])}`;
+  } catch (error: any) {
+    const reason = error.stderr?.toString().trim() || error.message;
+    throw new Error(`Failed to clone template repository '${repository.name}' from ${repository.url}: ${reason}`);
+  }
+}
+
+/**
+ * Unpack an npm tarball (a file, file:// or http(s) URL) into `target`
+ */
+async function extractTarball(repository: Repository, workDirectory: string, target: string): Promise<string> {
+  let file: string;
+
+  if (/^https?:\/\//.test(repository.url)) {
+    const response = await fetch(repository.url);
+    if (!response.ok) {
+      throw new Error(`Failed to download template repository '${repository.name}' from ${repository.url}: HTTP ${response.status}`);
+    }
+    file = path.join(workDirectory, 'package.tgz');
+    fs.writeFileSync(file, Buffer.from(await response.arrayBuffer()));
+  } else {
+    file = resolveLocation(repository.url);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Template repository '${repository.name}' not found at ${file}`);
+    }
+  }
+
+  // npm packs everything under a top-level package/ directory
+  fs.mkdirSync(target);
+  await tar.x({ file, cwd: target, strip: 1 });
+  return `${repository.url}#sha512-${createHash('sha512').update(fs.readFileSync(file)).digest('base64')}`;
+}
+
+/**
+ * Hash of every file under `root` except git metadata, which is never installed
+ */
+function hashDirectory(root: string): string {
+  const hash = createHash('sha256');
+  const walk = (directory: string) => {
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.name === '.git') {
+        continue;
+      } else if (entry.isDirectory()) {
+        walk(entryPath);
+      } else {
+        hash.update(path.relative(root, entryPath)).update(fs.readFileSync(entryPath));
+      }
+    }
+  };
+  walk(root);
+  return `sha256-${hash.digest('base64')}`;
+}
@@ -1,8 +1,12 @@
 /**
- * Template Validator - Stub Implementation
- * This is a placeholder for future functionality
+ * Template Validator
+ * Checks template syntax and the manifests of template packages before the
+ * marketplace installs them
  */
 
+import semver from 'semver';
+import { TemplateEngine } from './template-engine';
+
 export interface ValidationResult {
   valid: boolean;
   errors?: string[];
@@ -27,20 +31,131 @@ export interface ValidationRule {
   message: string;
 }
 
+// Package ids double as directory names under .supa-seed/templates
+export const TEMPLATE_PACKAGE_ID = /^[a-z0-9][a-z0-9._-]*$/;
+
+// Files the marketplace keeps next to the installed packages
+export const RESERVED_TEMPLATE_PACKAGE_IDS = ['templates-lock.json'];
+
+export function isTemplatePackageId(id: unknown): id is string {
+  return typeof id === 'string' && TEMPLATE_PACKAGE_ID.test(id) && !RESERVED_TEMPLATE_PACKAGE_IDS.includes(id);
+}
+
 export class TemplateValidator {
-  constructor() {
-    // Stub implementation
+  private engine: TemplateEngine;
+  private rules: ValidationRule[] = [];
+
+  constructor(engine: TemplateEngine = new TemplateEngine()) {
+    this.engine = engine;
+  }
+
+  addRule(rule: ValidationRule): void {
+    this.rules.push(rule);
   }
 
   validate(template: string): ValidationResult {
-    return {
-      valid: true
-    };
+    const errors: string[] = [];
+
+    const syntax = this.engine.validateTemplate(template);
+    if (!syntax.success) {
+      errors.push(firstLine(syntax.error));
+    }
+
+    for (const rule of this.rules) {
+      if (!rule.check(template)) {
+        errors.push(`${rule.name}: ${rule.message}`);
+      }
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true };
+  }
+
+  /**
+   * Check a parsed supa-seed-template.json manifest whose template files have
+   * already been read into `content`
+   */
+  validatePackage(pkg: any): ValidationResult {
+    if (!pkg || typeof pkg !== 'object' || Array.isArray(pkg)) {
+      return { valid: false, errors: ['manifest must be a JSON object'] };
+    }
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (typeof pkg.id === 'string' && RESERVED_TEMPLATE_PACKAGE_IDS.includes(pkg.id)) {
+      errors.push(`id '${pkg.id}' is reserved`);
+    } else if (!isTemplatePackageId(pkg.id)) {
+      errors.push(`id must be lowercase letters, digits, '.', '-' or '_', got '${pkg.id}'`);
+    }
+    for (const field of ['name', 'description', 'author']) {
+      if (typeof pkg[field] !== 'string' || pkg[field].trim() === '') {
+        errors.push(`${field} is required`);
+      }
+    }
+    if (typeof pkg.version !== 'string' || !semver.valid(pkg.version)) {
+      errors.push(`version must be a semver version, got '${pkg.version}'`);
+    }
+    if (pkg.category !== undefined && typeof pkg.category !== 'string') {
+      errors.push('category must be a string');
+    }
+    if (pkg.tags !== undefined && (!Array.isArray(pkg.tags) || pkg.tags.some((tag: any) => typeof tag !== 'string'))) {
+      errors.push('tags must be a list of strings');
+    }
+
+    if (!Array.isArray(pkg.templates) || pkg.templates.length === 0) {
+      errors.push('templates must list at least one template');
+      return { valid: false, errors, warnings };
+    }
+
+    const seen = new Set<string>();
+    pkg.templates.forEach((template: any, index: number) => {
+      const label = typeof template?.id === 'string' ? `template '${template.id}'` : `templates[${index}]`;
+
+      if (typeof template?.id !== 'string' || template.id.trim() === '') {
+        errors.push(`${label}: id is required`);
+      } else if (seen.has(template.id)) {
+        errors.push(`${label}: duplicate id`);
+      } else {
+        seen.add(template.id);
+      }
+
+      if (typeof template?.name !== 'string' || template.name.trim() === '') {
+        errors.push(`${label}: name is required`);
+      }
+      if (!template?.description) {
+        warnings.push(`${label} has no description`);
+      }
+
+      if (typeof template?.content !== 'string') {
+        errors.push(`${label}: content or file is required`);
+        return;
+      }
+      const result = this.validate(template.content);
+      result.errors?.forEach(error => errors.push(`${label}: ${error}`));
+    });
+
+    return { valid: errors.length === 0, errors, warnings };
   }
 
+  /**
+   * Render every test template and compare it with the expected output
+   */
   runTests(testSuite: TestSuite): ValidationResult {
-    return {
-      valid: true
-    };
+    const errors: string[] = [];
+
+    for (const test of testSuite.tests) {
+      const result = this.engine.processTemplate(test.template, test.context);
+      if (!result.success) {
+        errors.push(`${testSuite.name} › ${test.name}: ${firstLine(result.error)}`);
+      } else if (result.output !== String(test.expected)) {
+        errors.push(`${testSuite.name} › ${test.name}: expected ${JSON.stringify(String(test.expected))}, got ${JSON.stringify(result.output)}`);
+      }
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true };
   }
-}
\ No newline at end of file
+}
+
+function firstLine(message: string | undefined): string {
+  return (message || 'invalid template').split('\n')[0];
+}
@@ -0,0 +1,128 @@
+/**
+ * Seed Hook Runner
+ * Runs the `hooks` config entries: SQL files go through the client's database
+ * backend (the direct connection, or the `exec_sql` RPC), and function hooks
+ * are called with the SeedContext so they can use the client, invoke Edge
+ * Functions or read what the run has seeded so far.
+ *
+ * Without a database (SQL output, dry runs, determinism checks) SQL hooks are
+ * captured and rendered into the SQL file instead of being run.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { SeedContext, SeedHookConfig, SeedHookFunction, SeedHookPoint, SeedHooksConfig } from '../../core/types/types';
+import { Logger } from '../../core/utils/logger';
+import { requireUserModule } from '../../core/utils/module-loader';
+import { getDatabaseBackend } from '../../core/database/database-backend';
+import { SqlCaptureClient } from '../output/sql-capture-client';
+
+const HOOK_POINTS: SeedHookPoint[] = ['beforeRun', 'afterRun', 'beforeTable', 'afterTable'];
+const TABLE_POINTS: SeedHookPoint[] = ['beforeTable', 'afterTable'];
+
+export class SeedHookRunner {
+  private sqlFiles = new Map<string, string>();
+  private functions = new Map<string, SeedHookFunction>();
+
+  constructor(private context: SeedContext, private baseDir: string = process.cwd()) {}
+
+  /**
+   * Run the hooks for one point in order; table hooks only run for their `tables`
+   */
+  async run(point: SeedHookPoint, table?: string): Promise<void> {
+    const hooks = (this.context.config.hooks?.[point] || [])
+      .filter(hook => !table || !hook.tables || hook.tables.includes(table));
+
+    for (const hook of hooks) {
+      const name = `${point} hook ${hook.sql || hook.function}${table ? ` for ${table}` : ''}`;
+
+      try {
+        if (hook.sql) {
+          await this.runSql(hook.sql, point, table);
+        } else {
+          await this.loadFunction(hook.function!)(this.context, { point, table });
+        }
+        Logger.debug(`Ran ${name}`);
+      } catch (error: any) {
+        if (!hook.optional) {
+          throw new Error(`${name} failed: ${error.message}`);
+        }
+        Logger.warn(`${name} failed, continuing: ${error.message}`);
+      }
+    }
+  }
+
+  private async runSql(file: string, point: SeedHookPoint, table?: string): Promise<void> {
+    let sql = this.sqlFiles.get(file);
+    if (sql === undefined) {
+      sql = readFileSync(path.resolve(this.baseDir, file), 'utf8');
+      this.sqlFiles.set(file, sql);
+    }
+
+    if (this.context.client instanceof SqlCaptureClient) {
+      this.context.client.addHookStatement({ point, table, sql });
+      return;
+    }
+
+    // With hooks configured the direct connection is a single one, so settings made here reach the inserts
+    await getDatabaseBackend(this.context.client).query(sql);
+  }
+
+  /**
+   * './seed/hooks.ts' uses the default export, './seed/hooks.ts#backfill' a named one
+   */
+  private loadFunction(spec: string): SeedHookFunction {
+    let fn = this.functions.get(spec);
+    if (fn) return fn;
+
+    const [modulePath, exportName] = spec.split('#');
+    const loaded = requireUserModule(modulePath, this.baseDir, 'Hook');
+    fn = exportName ? loaded?.[exportName] : loaded?.default ?? loaded;
+
+    if (typeof fn !== 'function') {
+      throw new Error(`'${spec}' does not export a hook function${exportName ? ` named ${exportName}` : ''}`);
+    }
+
+    this.functions.set(spec, fn);
+    return fn;
+  }
+}
+
+/**
+ * Problems with the `hooks` config, reported before anything is seeded
+ */
+export function validateHooks(hooks: SeedHooksConfig | undefined): string[] {
+  const problems: string[] = [];
+
+  for (const [point, entries] of Object.entries(hooks || {})) {
+    if (!HOOK_POINTS.includes(point as SeedHookPoint)) {
+      problems.push(`hooks.${point}: unknown hook point (expected ${HOOK_POINTS.join(', ')})`);
+      continue;
+    }
+    if (!Array.isArray(entries)) {
+      problems.push(`hooks.${point}: must be a list of hooks`);
+      continue;
+    }
+
+    entries.forEach((hook: SeedHookConfig, index: number) => {
+      const where = `hooks.${point}[${index}]`;
+
+      if (!hook || typeof hook !== 'object') {
+        problems.push(`${where}: must be an object with "sql" or "function"`);
+        return;
+      }
+      if (!hook.sql === !hook.function) {
+        problems.push(`${where}: needs exactly one of "sql" or "function"`);
+      }
+      if (hook.tables !== undefined) {
+        if (!TABLE_POINTS.includes(point as SeedHookPoint)) {
+          problems.push(`${where}: "tables" only applies to beforeTable and afterTable hooks`);
+        } else if (!Array.isArray(hook.tables) || hook.tables.some(table => typeof table !== 'string')) {
+          problems.push(`${where}: "tables" must be a list of table names`);
+        }
+      }
+    });
+  }
+
+  return problems;
+}
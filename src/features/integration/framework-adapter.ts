@@ -9,15 +9,35 @@ import { StrategyRegistry, StrategySelection } from './strategy-registry';
 import { DatabaseSchema, SeedingStrategy, UserData, User, SeedingResult } from './strategy-interface';
 import { MakerKitStrategy } from './strategies/makerkit-strategy';
 import { GenericStrategy } from './strategies/generic-strategy';
+import { SupastarterStrategy } from './strategies/supastarter-strategy';
+import { WithSupabaseStrategy } from './strategies/with-supabase-strategy';
+import { BasejumpStrategy } from './strategies/basejump-strategy';
 import { Logger } from '../../core/utils/logger';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
+// Tables the starter strategies look for that SchemaInfo does not track
+const STARTER_TABLES = ['user_profiles', 'team_memberships', 'team_invitations'];
+
 export interface FrameworkAdapterOptions {
   enableSchemaCache?: boolean;
   frameworkOverride?: string;
   enableConstraintHandling?: boolean;
   debug?: boolean;
+  baseDir?: string; // Where `strategies` entries in the config resolve from (default: cwd)
+}
+
+/**
+ * Fresh instances of the strategies that ship with supa-seed
+ */
+export function createBuiltInStrategies(): SeedingStrategy[] {
+  return [
+    new MakerKitStrategy(),
+    new SupastarterStrategy(),
+    new BasejumpStrategy(),
+    new WithSupabaseStrategy(),
+    new GenericStrategy()
+  ];
 }
 
 export class FrameworkAdapter {
@@ -27,6 +47,7 @@ export class FrameworkAdapter {
   private currentStrategy?: SeedingStrategy;
   private currentSelection?: StrategySelection;
   private options: FrameworkAdapterOptions;
+  private config?: any;
 
   constructor(
     client: SupabaseClient, 
@@ -34,6 +55,7 @@ export class FrameworkAdapter {
     options: FrameworkAdapterOptions = {}
   ) {
     this.client = client;
+    this.config = config;
     this.options = {
       enableSchemaCache: true,
       enableConstraintHandling: true,
@@ -48,7 +70,9 @@ export class FrameworkAdapter {
     this.strategyRegistry = new StrategyRegistry(client, {
       enableFallback: true,
       minimumConfidence: 0.3,
-      debug: this.options.debug
+      debug: this.options.debug,
+      config,
+      baseDir: this.options.baseDir
     });
   }
 
@@ -74,16 +98,16 @@ export class FrameworkAdapter {
   }
 
   /**
-   * Register all available strategies
+   * Register the built-in strategies and those listed under `strategies` in the config
    */
   private async registerStrategies(): Promise<void> {
     const strategies = [
-      new MakerKitStrategy(),
-      new GenericStrategy()
+      ...createBuiltInStrategies(),
+      ...(this.config?.strategies || [])
     ];
 
     await this.strategyRegistry.registerAll(strategies);
-    Logger.debug(`Registered ${strategies.length} framework strategies`);
+    Logger.debug(`Registered ${this.strategyRegistry.getStrategies().length} framework strategies`);
   }
 
   /**
@@ -148,6 +172,12 @@ export class FrameworkAdapter {
     // Add custom tables
     tableNames.push(...schemaInfo.customTables);
 
+    for (const table of STARTER_TABLES) {
+      if (!tableNames.includes(table) && await this.schemaAdapter.tableExists(table)) {
+        tableNames.push(table);
+      }
+    }
+
     // Create basic table info (will be enhanced with constraint discovery)
     schema.tables = tableNames.map(name => ({
       name,
@@ -166,6 +196,17 @@ export class FrameworkAdapter {
       });
     }
 
+    // Basejump's tables live in a private schema; only its public RPCs answer
+    const { error: basejumpError } = await this.client.rpc('get_accounts');
+    if (!basejumpError) {
+      schema.functions.push({
+        name: 'get_accounts',
+        schema: 'public',
+        arguments: [],
+        returnType: 'json'
+      });
+    }
+
     return schema;
   }
 
@@ -7,6 +7,7 @@
 import type { createClient } from '@supabase/supabase-js';
 import { Logger } from '../../core/utils/logger';
 import { SchemaAdapter, SchemaInfo } from '../../core/schema-adapter';
+import type { SeedDeterminism } from '../../core/utils/seed-determinism';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -68,7 +69,8 @@ export class MakerKitCompatibilityLayer {
   constructor(
     client: SupabaseClient, 
     config: MakerKitCompatibilityConfig,
-    schemaAdapter?: SchemaAdapter
+    schemaAdapter?: SchemaAdapter,
+    private determinism?: SeedDeterminism
   ) {
     this.client = client;
     this.config = config;
@@ -243,7 +245,7 @@ export class MakerKitCompatibilityLayer {
       throw new Error('Schema not initialized. Call initialize() first.');
     }
 
-    const userId = crypto.randomUUID();
+    const userId = this.newId();
 
     try {
       // Step 1: Create auth user (this is always required)
@@ -358,13 +360,13 @@ export class MakerKitCompatibilityLayer {
       const { error } = await this.client
         .from('accounts')
         .insert({
-          id: crypto.randomUUID(),
+          id: this.newId(),
           name: teamName,
           primary_owner_user_id: userId,
           is_personal_account: false,
           slug: `${user.username}-team`,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
+          created_at: this.timestamp(),
+          updated_at: this.timestamp()
         });
 
       if (error) {
@@ -556,4 +558,12 @@ export class MakerKitCompatibilityLayer {
       limitations
     };
   }
-}
\ No newline at end of file
+
+  private newId(): string {
+    return this.determinism ? this.determinism.uuid() : crypto.randomUUID();
+  }
+
+  private timestamp(): string {
+    return (this.determinism ? this.determinism.date() : new Date()).toISOString();
+  }
+}
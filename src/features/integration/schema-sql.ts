@@ -0,0 +1,243 @@
+/**
+ * Schema SQL Reader
+ * Builds a DatabaseSchema from migration-style SQL (CREATE TABLE, ALTER TABLE
+ * ... ADD CONSTRAINT, CREATE FUNCTION and CREATE TRIGGER statements), so
+ * strategies can be detected against a reference schema without a database.
+ *
+ * Objects outside `public` keep their schema in the name (`basejump.accounts`),
+ * matching how the framework adapter names them.
+ */
+
+import type {
+  ColumnInfo,
+  ConstraintInfo,
+  DatabaseSchema,
+  FunctionInfo,
+  RelationshipInfo,
+  TableInfo,
+  TriggerInfo
+} from './strategy-interface';
+
+const IDENTIFIER = '(?:"[^"]+"|[\\w$]+)(?:\\.(?:"[^"]+"|[\\w$]+))?';
+const TABLE_LEVEL = /^(constraint|primary\s+key|unique|foreign\s+key|check|exclude)\b/i;
+const COLUMN_CLAUSES = /\s+(not\s+null|null|references|check|unique|primary\s+key|constraint|generated|collate)\b/i;
+
+export function parseSchemaSql(sql: string): DatabaseSchema {
+  const source = stripComments(sql);
+  // Function bodies may mention tables and triggers of their own
+  const statements = source.replace(/(\$[\w]*\$)[\s\S]*?\1/g, "''");
+
+  const tables = parseTables(statements);
+  const constraints = tables.flatMap(({ constraints }) => constraints);
+  const tableInfos = tables.map(({ info }) => info);
+
+  const alterPattern = new RegExp(
+    `alter\\s+table\\s+(?:only\\s+)?(?:if\\s+exists\\s+)?(${IDENTIFIER})\\s+add\\s+constraint\\s+(${IDENTIFIER})\\s+([^;]+);`,
+    'gi'
+  );
+  for (const match of statements.matchAll(alterPattern)) {
+    const table = qualifiedName(match[1]);
+    const constraint = parseConstraint(table, match[3], unquote(match[2]));
+    if (constraint) constraints.push(constraint);
+
+    const relationship = constraint?.type === 'foreign_key' && parseForeignKey(match[3]);
+    const info = tableInfos.find(candidate => candidate.name === table);
+    if (relationship && info) info.relationships.push(relationship);
+  }
+
+  return {
+    tables: tableInfos,
+    functions: parseFunctions(statements),
+    triggers: parseTriggers(statements),
+    constraints
+  };
+}
+
+function parseTables(sql: string): Array<{ info: TableInfo; constraints: ConstraintInfo[] }> {
+  const tables: Array<{ info: TableInfo; constraints: ConstraintInfo[] }> = [];
+  const pattern = new RegExp(`create\\s+(?:unlogged\\s+)?table\\s+(?:if\\s+not\\s+exists\\s+)?(${IDENTIFIER})\\s*\\(`, 'gi');
+
+  for (const match of sql.matchAll(pattern)) {
+    const name = qualifiedName(match[1]);
+    const body = balancedBody(sql, match.index! + match[0].length - 1);
+    const info: TableInfo = { name, columns: [], relationships: [] };
+    const constraints: ConstraintInfo[] = [];
+
+    for (const item of splitTopLevel(body)) {
+      if (TABLE_LEVEL.test(item)) {
+        const named = item.match(new RegExp(`^constraint\\s+(${IDENTIFIER})\\s+([\\s\\S]+)$`, 'i'));
+        const constraint = named
+          ? parseConstraint(name, named[2], unquote(named[1]))
+          : parseConstraint(name, item);
+        if (constraint) constraints.push(constraint);
+
+        const relationship = constraint?.type === 'foreign_key' && parseForeignKey(item);
+        if (relationship) info.relationships.push(relationship);
+        continue;
+      }
+
+      const column = parseColumn(item);
+      if (!column) continue;
+      info.columns.push(column);
+
+      const reference = item.match(new RegExp(`references\\s+(${IDENTIFIER})\\s*(?:\\(\\s*("?[\\w$]+"?)\\s*\\))?`, 'i'));
+      if (reference) {
+        info.relationships.push({
+          type: 'foreign_key',
+          sourceColumn: column.name,
+          targetTable: qualifiedName(reference[1]),
+          targetColumn: reference[2] ? unquote(reference[2]) : 'id'
+        });
+      }
+      if (/\bprimary\s+key\b/i.test(item)) {
+        constraints.push({ name: `${bareName(name)}_pkey`, table: name, type: 'primary_key', definition: `PRIMARY KEY (${column.name})` });
+      }
+      const check = item.match(/\bcheck\s*(\([\s\S]*\))/i);
+      if (check) {
+        constraints.push({ name: `${bareName(name)}_${column.name}_check`, table: name, type: 'check', definition: `CHECK ${check[1]}` });
+      }
+    }
+
+    tables.push({ info, constraints });
+  }
+
+  return tables;
+}
+
+function parseColumn(item: string): ColumnInfo | null {
+  const match = item.match(/^("[^"]+"|[\w$]+)\s+([\s\S]+)$/);
+  if (!match) return null;
+
+  const rest = match[2];
+  const defaultMatch = rest.match(/\bdefault\s+([\s\S]+?)(?=\s+(?:not\s+null|null|references|check|unique|primary\s+key|constraint)\b|$)/i);
+  const typeEnd = rest.search(new RegExp(`${COLUMN_CLAUSES.source}|\\s+default\\b`, 'i'));
+
+  return {
+    name: unquote(match[1]),
+    type: (typeEnd === -1 ? rest : rest.slice(0, typeEnd)).trim().toLowerCase(),
+    nullable: !/\bnot\s+null\b|\bprimary\s+key\b/i.test(rest),
+    ...(defaultMatch && { defaultValue: defaultMatch[1].trim() })
+  };
+}
+
+function parseConstraint(table: string, definition: string, name?: string): ConstraintInfo | null {
+  const text = definition.trim().replace(/\s+/g, ' ');
+  const type = /^check\b/i.test(text) ? 'check'
+    : /^primary key\b/i.test(text) ? 'primary_key'
+    : /^unique\b/i.test(text) ? 'unique'
+    : /^foreign key\b/i.test(text) ? 'foreign_key'
+    : null;
+  if (!type) return null;
+
+  const suffix = { check: 'check', primary_key: 'pkey', unique: 'key', foreign_key: 'fkey' }[type];
+  return { name: name || `${bareName(table)}_${suffix}`, table, type, definition: text };
+}
+
+function parseForeignKey(definition: string): RelationshipInfo | null {
+  const match = definition.match(new RegExp(
+    `foreign\\s+key\\s*\\(\\s*("?[\\w$]+"?)[^)]*\\)\\s*references\\s+(${IDENTIFIER})\\s*(?:\\(\\s*("?[\\w$]+"?)[^)]*\\))?`,
+    'i'
+  ));
+  if (!match) return null;
+
+  return {
+    type: 'foreign_key',
+    sourceColumn: unquote(match[1]),
+    targetTable: qualifiedName(match[2]),
+    targetColumn: match[3] ? unquote(match[3]) : 'id'
+  };
+}
+
+function parseFunctions(sql: string): FunctionInfo[] {
+  const pattern = new RegExp(
+    `create\\s+(?:or\\s+replace\\s+)?function\\s+(${IDENTIFIER})\\s*\\(([^)]*)\\)\\s*returns\\s+((?:setof\\s+)?[\\w.]+(?:\\[\\])?)`,
+    'gi'
+  );
+
+  return Array.from(sql.matchAll(pattern), match => {
+    const [schema] = splitName(match[1]);
+    return {
+      name: qualifiedName(match[1]),
+      schema,
+      arguments: match[2].split(',').map(argument => argument.trim().replace(/\s+/g, ' ')).filter(Boolean),
+      returnType: match[3].toLowerCase()
+    };
+  });
+}
+
+function parseTriggers(sql: string): TriggerInfo[] {
+  const pattern = new RegExp(
+    `create\\s+(?:or\\s+replace\\s+)?(?:constraint\\s+)?trigger\\s+(${IDENTIFIER})\\s+(?:before|after|instead\\s+of)\\s+` +
+    `(insert|update|delete)[\\s\\S]*?\\bon\\s+(${IDENTIFIER})[\\s\\S]*?execute\\s+(?:procedure|function)\\s+(${IDENTIFIER})`,
+    'gi'
+  );
+
+  return Array.from(sql.matchAll(pattern), match => ({
+    name: unquote(match[1]),
+    event: match[2].toUpperCase() as TriggerInfo['event'],
+    table: qualifiedName(match[3]),
+    function: qualifiedName(match[4])
+  }));
+}
+
+function stripComments(sql: string): string {
+  return sql.replace(/\/\*[\s\S]*?\*\//g, '').replace(/--[^\n]*/g, '');
+}
+
+/**
+ * Text between the parenthesis at `open` and its partner
+ */
+function balancedBody(sql: string, open: number): string {
+  let depth = 0;
+  let quoted = false;
+
+  for (let i = open; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === "'") quoted = !quoted;
+    if (quoted) continue;
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) return sql.slice(open + 1, i);
+  }
+
+  return sql.slice(open + 1);
+}
+
+function splitTopLevel(body: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "'") quoted = !quoted;
+    if (quoted) continue;
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      items.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(body.slice(start));
+
+  return items.map(item => item.trim().replace(/\s+/g, ' ')).filter(Boolean);
+}
+
+function splitName(identifier: string): [schema: string, name: string] {
+  const parts = identifier.split('.').map(unquote);
+  return parts.length > 1 ? [parts[0], parts[1]] : ['public', parts[0]];
+}
+
+function qualifiedName(identifier: string): string {
+  const [schema, name] = splitName(identifier);
+  return schema === 'public' ? name : `${schema}.${name}`;
+}
+
+function bareName(name: string): string {
+  return name.split('.').pop()!;
+}
+
+function unquote(identifier: string): string {
+  return identifier.startsWith('"') ? identifier.slice(1, -1) : identifier.toLowerCase();
+}
@@ -0,0 +1,156 @@
+/**
+ * Basejump Framework Strategy
+ * Basejump keeps its tenant tables in a private `basejump` schema. Its
+ * `run_new_user_setup` trigger gives every new auth user a personal account
+ * (sharing the user's id) and an owner row in `account_user`. Team accounts
+ * only get their owner membership when created by a signed-in user, so seeded
+ * team accounts add it themselves.
+ *
+ * The basejump schema is not exposed through PostgREST; writing team accounts
+ * against a live project needs a direct `databaseUrl` connection.
+ * Reference schema: schema-basejump.sql
+ */
+
+import { UserData, User, ConstraintFix } from '../strategy-interface';
+import { StarterStrategy, StarterFingerprint, findTable, hasColumns, hasSignupTrigger } from './starter-strategy';
+import { DatabaseBackend, getDatabaseBackend } from '../../../core/database/database-backend';
+import { Logger } from '../../../core/utils/logger';
+import { SqlCaptureClient } from '../../output/sql-capture-client';
+
+export type BasejumpAccountRole = 'owner' | 'member';
+
+const ACCOUNTS_TABLE = 'basejump.accounts';
+const ACCOUNT_USER_TABLE = 'basejump.account_user';
+const PUBLIC_RPCS = ['get_accounts', 'get_personal_account', 'create_account'];
+
+export class BasejumpStrategy extends StarterStrategy {
+  name = 'basejump';
+  protected label = 'Basejump';
+
+  protected fingerprints: StarterFingerprint[] = [
+    {
+      feature: 'basejump_schema',
+      weight: 0.3,
+      matches: schema =>
+        schema.tables.some(table => table.name.startsWith('basejump.')) ||
+        schema.functions.some(fn => fn.schema === 'basejump')
+    },
+    { feature: 'account_user_table', weight: 0.2, matches: schema => Boolean(findTable(schema, ACCOUNT_USER_TABLE, 'account_user')) },
+    {
+      feature: 'personal_account_column',
+      weight: 0.1,
+      matches: schema => hasColumns(findTable(schema, ACCOUNTS_TABLE, 'accounts'), 'personal_account', 'primary_owner_user_id')
+    },
+    { feature: 'new_user_setup_trigger', weight: 0.1, matches: schema => hasSignupTrigger(schema, 'run_new_user_setup') },
+    // All a PostgREST client can see of Basejump
+    {
+      feature: 'account_rpcs',
+      weight: 0.3,
+      matches: schema => schema.functions.some(fn => fn.schema === 'public' && PUBLIC_RPCS.includes(fn.name))
+    }
+  ];
+
+  protected supportedFeatures = [
+    'auth_trigger_user_creation',
+    'personal_account_handling',
+    'team_accounts',
+    'team_memberships',
+    'tenant_scoped_data',
+    'constraint_auto_fix'
+  ];
+
+  protected baseRecommendations = [
+    'Use auth.admin.createUser() so run_new_user_setup creates the personal account',
+    'Personal accounts share the user id and must have a null slug',
+    'Add the owner to basejump.account_user when seeding team accounts',
+    'Set databaseUrl to write basejump tables, which PostgREST does not expose'
+  ];
+
+  /**
+   * Create a team account owned by `ownerId`
+   */
+  async createTeamAccount(ownerId: string, account: { name: string; slug?: string }): Promise<{ id: string; slug: string }> {
+    const backend = this.directBackend(`create Basejump account ${account.name}`);
+    const slug = account.slug || this.slugify(account.name, ownerId);
+    const now = new Date().toISOString();
+    const [row] = await backend.bulkInsert(ACCOUNTS_TABLE, [{
+      name: account.name,
+      slug,
+      personal_account: false,
+      primary_owner_user_id: ownerId,
+      created_by: ownerId,
+      updated_by: ownerId,
+      created_at: now,
+      updated_at: now
+    }]);
+
+    if (!row?.id) {
+      throw new Error(`Failed to create Basejump account ${account.name}: no row returned`);
+    }
+
+    // add_current_user_to_new_account only fires for the signed-in user, which seeding never is
+    await this.addAccountMember(row.id, ownerId, 'owner');
+    return { id: row.id, slug };
+  }
+
+  async addAccountMember(accountId: string, userId: string, role: BasejumpAccountRole = 'member'): Promise<void> {
+    const backend = this.directBackend(`add ${userId} to Basejump account ${accountId}`);
+    const membership = { account_id: accountId, user_id: userId, account_role: role };
+
+    if (this.client instanceof SqlCaptureClient) {
+      // account_user has no id column, so the rendered insert reads nothing back
+      await this.client.from(ACCOUNT_USER_TABLE).insert(membership);
+      return;
+    }
+    await backend.bulkInsert(ACCOUNT_USER_TABLE, [membership]);
+  }
+
+  /**
+   * The direct connection the basejump schema is written through. SQL output
+   * renders the rows into the file instead, which psql runs with full access.
+   */
+  private directBackend(action: string): DatabaseBackend {
+    const backend = getDatabaseBackend(this.client);
+    if (backend.kind !== 'postgres' && !(this.client instanceof SqlCaptureClient)) {
+      throw new Error(`Cannot ${action}: the basejump schema is not exposed through PostgREST, set databaseUrl to write it`);
+    }
+    return backend;
+  }
+
+  protected userMetadata(data: UserData): Record<string, any> {
+    return { name: data.name, username: data.username, avatar_url: data.avatar };
+  }
+
+  protected async afterUserCreated(user: User): Promise<void> {
+    const backend = getDatabaseBackend(this.client);
+    if (backend.kind !== 'postgres') {
+      Logger.debug(`Relying on run_new_user_setup for the personal account of ${user.email}`);
+      return;
+    }
+
+    // Projects that dropped the trigger still need the personal account Basejump assumes
+    const existing = await backend.query(`SELECT id FROM ${ACCOUNTS_TABLE} WHERE id = $1`, [user.id]);
+    if (existing.length > 0) return;
+
+    Logger.warn(`run_new_user_setup did not create a personal account for ${user.email}, creating it`);
+    await backend.bulkInsert(ACCOUNTS_TABLE, [{
+      id: user.id,
+      name: user.email.split('@')[0],
+      personal_account: true,
+      primary_owner_user_id: user.id
+    }]);
+    await this.addAccountMember(user.id, user.id, 'owner');
+  }
+
+  protected fixRow(table: string, row: Record<string, any>, fixes: ConstraintFix[]): void {
+    if (table !== 'accounts') return;
+
+    // basejump_accounts_slug_null_if_personal_account_true
+    if (row.personal_account === true && row.slug != null) {
+      this.setField(row, fixes, 'slug', null, 'Personal accounts must have a null slug (Basejump constraint)');
+    }
+    if (row.personal_account !== true && !row.slug && row.name) {
+      this.setField(row, fixes, 'slug', this.slugify(row.name, row.id), 'Team accounts must have a slug (Basejump constraint)');
+    }
+  }
+}
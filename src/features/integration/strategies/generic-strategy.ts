@@ -25,6 +25,7 @@ import { JunctionTableHandler } from '../../../schema/junction-table-handler';
 import { MultiTenantManager } from '../../../schema/multi-tenant-manager';
 import { StorageIntegrationManager } from '../../generation/storage/storage-integration-manager';
 import { Logger } from '../../../core/utils/logger';
+import type { SeedConfig } from '../../../core/types/types';
 import type {
   BusinessLogicAnalysisResult,
   RLSComplianceOptions,
@@ -71,7 +72,7 @@ export class GenericStrategy implements SeedingStrategy {
   private multiTenantManager?: MultiTenantManager;
   private storageIntegrationManager?: StorageIntegrationManager;
 
-  async initialize(client: SupabaseClient): Promise<void> {
+  async initialize(client: SupabaseClient, config?: SeedConfig): Promise<void> {
     this.client = client;
     this.constraintEngine = new ConstraintDiscoveryEngine(client);
     this.constraintRegistry = new ConstraintRegistry({
@@ -104,7 +105,7 @@ export class GenericStrategy implements SeedingStrategy {
     });
 
     // Initialize junction table handler
-    this.junctionTableHandler = new JunctionTableHandler(client);
+    this.junctionTableHandler = new JunctionTableHandler(client, config);
 
     // Initialize multi-tenant manager with generic configuration
     this.multiTenantManager = new MultiTenantManager(client, {
@@ -141,7 +142,8 @@ export class GenericStrategy implements SeedingStrategy {
       enableRealImages: false, // Use mock images for generic
       imagesPerSetup: 5,
       categories: ['general', 'placeholder'],
-      storageRootPath: 'uploads'
+      storageRootPath: 'uploads',
+      seed: config?.seed // Procedural images follow the run's seed
     });
     
     // Register generic handlers
@@ -51,6 +51,7 @@ import type { UnifiedDetectionResult } from '../../detection/detection-integrati
 import { MultiTenantManager } from '../../../schema/multi-tenant-manager';
 import { StorageIntegrationManager } from '../../generation/storage/storage-integration-manager';
 import { Logger } from '../../../core/utils/logger';
+import type { SeedConfig } from '../../../core/types/types';
 import { DetectionIntegrationEngine } from '../../detection/detection-integration';
 import { AutoConfigurator } from '../../detection/auto-configurator';
 import type {
@@ -116,7 +117,7 @@ export class MakerKitStrategy implements SeedingStrategy {
   private rlsComplianceValidator?: RLSComplianceValidator;
   private authFlowConfig!: AuthFlowConfig;
 
-  async initialize(client: SupabaseClient): Promise<void> {
+  async initialize(client: SupabaseClient, config?: SeedConfig): Promise<void> {
     this.client = client;
     this.constraintEngine = new ConstraintDiscoveryEngine(client);
     
@@ -167,7 +168,7 @@ export class MakerKitStrategy implements SeedingStrategy {
     });
 
     // Initialize junction table handler for many-to-many relationships
-    this.junctionTableHandler = new JunctionTableHandler(client);
+    this.junctionTableHandler = new JunctionTableHandler(client, config);
 
     // Initialize multi-tenant manager with MakerKit-specific configuration
     this.multiTenantManager = new MultiTenantManager(client, {
@@ -227,7 +228,8 @@ export class MakerKitStrategy implements SeedingStrategy {
       allowedFileTypes: ['image/jpeg', 'image/png', 'image/webp'],
       generateThumbnails: true,
       respectRLS: true, // MakerKit uses RLS heavily
-      storageRootPath: 'supa-seed/makerkit'
+      storageRootPath: 'supa-seed/makerkit',
+      seed: config?.seed // Procedural images follow the run's seed
     });
     
     // Register MakerKit-specific handlers
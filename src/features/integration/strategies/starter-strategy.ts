@@ -0,0 +1,202 @@
+/**
+ * Starter Kit Strategy Base
+ * Shared detection and user creation for the SaaS starter strategies
+ * (Supastarter, with-supabase, Basejump). Each starter describes its schema as
+ * weighted fingerprints; users are always created through auth.admin so the
+ * starter's own signup triggers run, and the subclass fills in whatever tenant
+ * rows those triggers leave to the application.
+ */
+
+import type { createClient } from '@supabase/supabase-js';
+import {
+  SeedingStrategy,
+  DatabaseSchema,
+  FrameworkDetectionResult,
+  TableInfo,
+  UserData,
+  User,
+  ConstraintHandlingResult,
+  ConstraintFix
+} from '../strategy-interface';
+import { Logger } from '../../../core/utils/logger';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface StarterFingerprint {
+  feature: string;
+  weight: number; // Weights of one starter add up to 1
+  matches(schema: DatabaseSchema): boolean;
+}
+
+export abstract class StarterStrategy implements SeedingStrategy {
+  abstract name: string;
+  protected abstract label: string;
+  protected abstract fingerprints: StarterFingerprint[];
+  protected abstract supportedFeatures: string[];
+  protected abstract baseRecommendations: string[];
+
+  protected client!: SupabaseClient;
+  protected detectedFeatures: string[] = [];
+
+  async initialize(client: SupabaseClient): Promise<void> {
+    this.client = client;
+  }
+
+  getPriority(): number {
+    return 90; // Specific framework, but MakerKit wins ties
+  }
+
+  async detect(schema: DatabaseSchema): Promise<FrameworkDetectionResult> {
+    try {
+      const matched = this.fingerprints.filter(fingerprint => fingerprint.matches(schema));
+      const confidence = Math.min(1, Number(matched.reduce((sum, { weight }) => sum + weight, 0).toFixed(2)));
+      const detectedFeatures = matched.map(({ feature }) => feature);
+      const recommendations: string[] = [];
+
+      if (confidence > 0.7) {
+        recommendations.push(...this.baseRecommendations);
+      } else if (confidence >= 0.3) {
+        recommendations.push(`Partial ${this.label} detection - verify schema compatibility`);
+        recommendations.push(`Consider manual framework override if using ${this.label}`);
+      }
+
+      this.detectedFeatures = detectedFeatures;
+      if (matched.length > 0) {
+        Logger.debug(`${this.label} fingerprints: ${detectedFeatures.join(', ')}`);
+      }
+
+      return { framework: this.name, confidence, detectedFeatures, recommendations };
+
+    } catch (error: any) {
+      Logger.warn(`${this.label} detection failed: ${error.message}`);
+      return {
+        framework: this.name,
+        confidence: 0,
+        detectedFeatures: [],
+        recommendations: ['Detection failed - check database permissions']
+      };
+    }
+  }
+
+  async createUser(data: UserData): Promise<User> {
+    Logger.debug(`Creating ${this.label} user: ${data.email}`);
+
+    const { data: authData, error } = await this.client.auth.admin.createUser({
+      email: data.email,
+      password: data.password || 'password123',
+      email_confirm: true,
+      user_metadata: { ...this.userMetadata(data), ...data.metadata }
+    });
+
+    if (error || !authData?.user) {
+      throw new Error(`${this.label} user creation failed: ${error?.message || 'no user returned'}`);
+    }
+
+    const user: User = {
+      id: authData.user.id,
+      email: authData.user.email || data.email,
+      name: data.name,
+      username: data.username,
+      avatar: data.avatar,
+      created_at: authData.user.created_at,
+      metadata: authData.user.user_metadata
+    };
+
+    await this.afterUserCreated(user, data);
+    return user;
+  }
+
+  async handleConstraints(table: string, data: any): Promise<ConstraintHandlingResult> {
+    const appliedFixes: ConstraintFix[] = [];
+    const warnings: string[] = [];
+    const processedData = { ...data };
+
+    try {
+      this.fixRow(table.split('.').pop()!, processedData, appliedFixes, warnings);
+
+      for (const key of Object.keys(processedData)) {
+        if (processedData[key] === undefined) {
+          delete processedData[key];
+        }
+      }
+
+      return {
+        success: true,
+        originalData: data,
+        modifiedData: processedData,
+        appliedFixes,
+        warnings,
+        errors: [],
+        bypassRequired: false
+      };
+
+    } catch (error: any) {
+      Logger.warn(`${this.label} constraint handling failed for ${table}: ${error.message}`);
+      return {
+        success: false,
+        originalData: data,
+        modifiedData: processedData,
+        appliedFixes,
+        warnings: [...warnings, `Constraint handling error: ${error.message}`],
+        errors: [error.message],
+        bypassRequired: true
+      };
+    }
+  }
+
+  getRecommendations(): string[] {
+    return [...this.baseRecommendations];
+  }
+
+  supportsFeature(feature: string): boolean {
+    return this.supportedFeatures.includes(feature);
+  }
+
+  /**
+   * User metadata the starter's signup trigger reads
+   */
+  protected abstract userMetadata(data: UserData): Record<string, any>;
+
+  /**
+   * Create the rows the starter expects next to a new auth user
+   */
+  protected abstract afterUserCreated(user: User, data: UserData): Promise<void>;
+
+  /**
+   * Adjust a row for the starter's constraints, in place
+   */
+  protected fixRow(_table: string, _row: Record<string, any>, _fixes: ConstraintFix[], _warnings: string[]): void {}
+
+  protected setField(row: Record<string, any>, fixes: ConstraintFix[], field: string, value: any, reason: string): void {
+    fixes.push({ type: 'set_field', field, oldValue: row[field], newValue: value, reason, confidence: 0.9 });
+    row[field] = value;
+  }
+
+  /**
+   * URL-safe slug, suffixed with part of an id when names may repeat
+   */
+  protected slugify(name: string, id?: string): string {
+    const base = name.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'team';
+    return id ? `${base}-${id.replace(/-/g, '').slice(0, 8)}` : base;
+  }
+}
+
+/**
+ * First table with one of the given names
+ */
+export function findTable(schema: DatabaseSchema, ...names: string[]): TableInfo | undefined {
+  return schema.tables.find(table => names.includes(table.name));
+}
+
+export function hasColumns(table: TableInfo | undefined, ...columns: string[]): boolean {
+  return Boolean(table) && columns.every(column => table!.columns.some(candidate => candidate.name === column));
+}
+
+/**
+ * Whether a trigger on auth.users runs a function whose name contains `fragment`
+ */
+export function hasSignupTrigger(schema: DatabaseSchema, fragment: string): boolean {
+  return schema.triggers.some(trigger =>
+    ['auth.users', 'users'].includes(trigger.table) && trigger.function.includes(fragment)
+  );
+}
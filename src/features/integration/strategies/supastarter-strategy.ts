@@ -0,0 +1,103 @@
+/**
+ * Supastarter Framework Strategy
+ * Supastarter (Supabase edition) keeps a `user_profiles` row per auth user,
+ * written by its signup trigger, and scopes data to `teams` joined through
+ * `team_memberships`. Teams are created during onboarding rather than by a
+ * trigger, so every seeded user gets one as its creator and owner.
+ * Reference schema: schema-supastarter.sql
+ */
+
+import { UserData, User, ConstraintFix } from '../strategy-interface';
+import { StarterStrategy, StarterFingerprint, findTable, hasColumns, hasSignupTrigger } from './starter-strategy';
+import { Logger } from '../../../core/utils/logger';
+
+export type SupastarterTeamRole = 'OWNER' | 'MEMBER';
+
+export class SupastarterStrategy extends StarterStrategy {
+  name = 'supastarter';
+  protected label = 'Supastarter';
+
+  protected fingerprints: StarterFingerprint[] = [
+    { feature: 'user_profiles_table', weight: 0.3, matches: schema => Boolean(findTable(schema, 'user_profiles')) },
+    { feature: 'team_memberships_table', weight: 0.3, matches: schema => Boolean(findTable(schema, 'team_memberships')) },
+    {
+      feature: 'team_creator_column',
+      weight: 0.2,
+      matches: schema => hasColumns(findTable(schema, 'team_memberships'), 'team_id', 'is_creator')
+    },
+    { feature: 'team_invitations_table', weight: 0.1, matches: schema => Boolean(findTable(schema, 'team_invitations')) },
+    { feature: 'profile_signup_trigger', weight: 0.1, matches: schema => hasSignupTrigger(schema, 'handle_new_user') }
+  ];
+
+  protected supportedFeatures = [
+    'auth_trigger_user_creation',
+    'team_accounts',
+    'team_memberships',
+    'tenant_scoped_data',
+    'constraint_auto_fix'
+  ];
+
+  protected baseRecommendations = [
+    'Use auth.admin.createUser() so the Supastarter signup trigger creates user_profiles',
+    'Give every user a team, as Supastarter onboarding does',
+    'Use upper-case team roles (OWNER, MEMBER) to match the team_member_role enum',
+    'Scope tenant data to teams.id'
+  ];
+
+  /**
+   * Create a team with `ownerId` as its creator and owner
+   */
+  async createTeam(ownerId: string, team: { name: string; slug?: string }): Promise<{ id: string; slug: string }> {
+    const slug = team.slug || this.slugify(team.name, ownerId);
+    const { data, error } = await this.client
+      .from('teams')
+      .insert({ name: team.name, slug })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create Supastarter team ${team.name}: ${error?.message || 'no row returned'}`);
+    }
+
+    const teamId = (data as any).id as string;
+    await this.addTeamMember(teamId, ownerId, 'OWNER', true);
+    return { id: teamId, slug };
+  }
+
+  async addTeamMember(teamId: string, userId: string, role: SupastarterTeamRole = 'MEMBER', isCreator = false): Promise<void> {
+    const { error } = await this.client
+      .from('team_memberships')
+      .upsert({ team_id: teamId, user_id: userId, role, is_creator: isCreator }, { onConflict: 'team_id,user_id' });
+
+    if (error) {
+      throw new Error(`Failed to add ${userId} to Supastarter team ${teamId}: ${error.message}`);
+    }
+  }
+
+  protected userMetadata(data: UserData): Record<string, any> {
+    return { name: data.name, username: data.username, avatar_url: data.avatar };
+  }
+
+  protected async afterUserCreated(user: User, data: UserData): Promise<void> {
+    // The trigger only copies name and avatar, so fill in the rest (or the whole row without it)
+    const { error: profileError } = await this.client
+      .from('user_profiles')
+      .upsert({ id: user.id, name: data.name, username: data.username, avatar_url: data.avatar }, { onConflict: 'id' });
+
+    if (profileError) {
+      Logger.warn(`Supastarter profile for ${user.email} was not updated: ${profileError.message}`);
+    }
+
+    await this.createTeam(user.id, { name: `${data.name || user.email.split('@')[0]}'s Team` });
+  }
+
+  protected fixRow(table: string, row: Record<string, any>, fixes: ConstraintFix[]): void {
+    if (table === 'teams' && !row.slug && row.name) {
+      this.setField(row, fixes, 'slug', this.slugify(row.name, row.id), 'Supastarter teams require a unique slug');
+    }
+
+    if ((table === 'team_memberships' || table === 'team_invitations') && typeof row.role === 'string' && row.role !== row.role.toUpperCase()) {
+      this.setField(row, fixes, 'role', row.role.toUpperCase(), 'team_member_role values are upper case');
+    }
+  }
+}
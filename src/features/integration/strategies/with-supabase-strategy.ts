@@ -0,0 +1,85 @@
+/**
+ * with-supabase Framework Strategy
+ * The Vercel `with-supabase` Next.js starter ships with Supabase Auth only.
+ * Projects built on it usually add the `profiles` table from the Supabase
+ * user management quickstart, filled by a `handle_new_user` trigger from the
+ * `full_name` and `avatar_url` metadata. There are no tenant tables, so users
+ * are the only accounts.
+ * Reference schema: schema-with-supabase.sql
+ */
+
+import { DatabaseSchema, UserData, User, ConstraintFix } from '../strategy-interface';
+import { StarterStrategy, StarterFingerprint, findTable, hasColumns, hasSignupTrigger } from './starter-strategy';
+import { Logger } from '../../../core/utils/logger';
+
+const TENANT_TABLES = ['accounts', 'teams', 'organizations', 'memberships', 'team_memberships'];
+const MIN_USERNAME_LENGTH = 3;
+
+export class WithSupabaseStrategy extends StarterStrategy {
+  name = 'with-supabase';
+  protected label = 'with-supabase';
+
+  protected fingerprints: StarterFingerprint[] = [
+    // The bare starter: nothing in public beyond what Supabase provides
+    { feature: 'auth_only', weight: 0.4, matches: schema => schema.tables.length === 0 && schema.functions.length === 0 },
+    { feature: 'profiles_table', weight: 0.2, matches: schema => Boolean(findTable(schema, 'profiles')) },
+    {
+      feature: 'quickstart_profile_columns',
+      weight: 0.3,
+      matches: schema => hasColumns(findTable(schema, 'profiles'), 'full_name', 'avatar_url', 'website')
+    },
+    {
+      feature: 'username_length_constraint',
+      weight: 0.2,
+      matches: schema => schema.constraints.some(constraint => constraint.name === 'username_length')
+    },
+    { feature: 'profile_signup_trigger', weight: 0.2, matches: schema => hasSignupTrigger(schema, 'handle_new_user') },
+    { feature: 'no_tenant_tables', weight: 0.1, matches: schema => !hasTenantTables(schema) }
+  ];
+
+  protected supportedFeatures = [
+    'auth_trigger_user_creation',
+    'basic_user_creation',
+    'constraint_auto_fix'
+  ];
+
+  protected baseRecommendations = [
+    'Use auth.admin.createUser() with full_name and avatar_url metadata so handle_new_user fills profiles',
+    'Usernames must be at least 3 characters (username_length constraint)',
+    'Scope seeded data to auth.users ids; the starter has no tenant tables'
+  ];
+
+  protected userMetadata(data: UserData): Record<string, any> {
+    return { full_name: data.name, username: data.username, avatar_url: data.avatar };
+  }
+
+  protected async afterUserCreated(user: User, data: UserData): Promise<void> {
+    if (this.detectedFeatures.includes('auth_only')) {
+      return;
+    }
+
+    // The trigger leaves username empty; without the trigger this creates the whole profile
+    const { modifiedData } = await this.handleConstraints('profiles', {
+      id: user.id,
+      full_name: data.name,
+      username: data.username,
+      avatar_url: data.avatar,
+      updated_at: new Date().toISOString()
+    });
+
+    const { error } = await this.client.from('profiles').upsert(modifiedData, { onConflict: 'id' });
+    if (error) {
+      Logger.debug(`with-supabase profile for ${user.email} was not updated: ${error.message}`);
+    }
+  }
+
+  protected fixRow(table: string, row: Record<string, any>, fixes: ConstraintFix[]): void {
+    if (table === 'profiles' && typeof row.username === 'string' && row.username.length < MIN_USERNAME_LENGTH) {
+      this.setField(row, fixes, 'username', null, `Usernames shorter than ${MIN_USERNAME_LENGTH} characters fail username_length`);
+    }
+  }
+}
+
+function hasTenantTables(schema: DatabaseSchema): boolean {
+  return schema.tables.some(table => TENANT_TABLES.includes(table.name.split('.').pop()!));
+}
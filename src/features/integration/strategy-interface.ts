@@ -4,6 +4,7 @@
  */
 
 import type { createClient } from '@supabase/supabase-js';
+import type { SeedConfig } from '../../core/types/types';
 import type { 
   ConstraintHandler,
   ConstraintHandlingResult,
@@ -44,6 +45,13 @@ import type {
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
+/**
+ * Version of the SeedingStrategy contract. Strategies loaded from the
+ * `strategies` config key declare the semver range they were written against
+ * in `apiVersion`; minor versions only add optional members.
+ */
+export const STRATEGY_API_VERSION = '1.0.0';
+
 export interface DatabaseSchema {
   tables: TableInfo[];
   functions: FunctionInfo[];
@@ -166,6 +174,12 @@ export interface SeedingStrategy {
    */
   name: string;
 
+  /**
+   * Range of STRATEGY_API_VERSION this strategy supports, e.g. `^1.0.0`
+   * (required for strategies loaded from files or packages)
+   */
+  apiVersion?: string;
+
   /**
    * Detect if this strategy applies to the given database schema
    */
@@ -302,9 +316,10 @@ export interface SeedingStrategy {
   supportsFeature(feature: string): boolean;
 
   /**
-   * Initialize the strategy with a Supabase client
+   * Initialize the strategy with a Supabase client and, when seeding from a
+   * config, the seed config
    */
-  initialize(client: SupabaseClient): Promise<void>;
+  initialize(client: SupabaseClient, config?: SeedConfig): Promise<void>;
 
   /**
    * Get the priority of this strategy (higher = more specific)
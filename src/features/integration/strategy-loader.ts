@@ -0,0 +1,111 @@
+/**
+ * Strategy Loader
+ * Resolves entries of the `strategies` config key: local files
+ * (`./seed/my-strategy.ts`) and npm packages (`supa-seed-strategy-foo`). A
+ * module may export a SeedingStrategy instance, a class or factory that creates
+ * one, or an array of those, as its default export, `strategies` or
+ * `strategy`. Every strategy is checked against the interface and its declared
+ * `apiVersion` range before it reaches the registry.
+ */
+
+import semver from 'semver';
+import { requireUserModule } from '../../core/utils/module-loader';
+import { SeedingStrategy, STRATEGY_API_VERSION } from './strategy-interface';
+
+export interface LoadedStrategy {
+  strategy: SeedingStrategy;
+  source: string; // The config entry it came from
+}
+
+const REQUIRED_METHODS = [
+  'detect', 'createUser', 'handleConstraints', 'getRecommendations', 'supportsFeature', 'initialize', 'getPriority'
+];
+
+const OPTIONAL_METHODS = [
+  'discoverConstraints', 'getConstraintHandlers', 'applyConstraintFixes', 'analyzeBusinessLogic',
+  'seedWithRLSCompliance', 'getRLSComplianceOptions', 'analyzeRelationships', 'getDependencyGraph',
+  'detectJunctionTables', 'seedJunctionTable', 'getSeedingOrder', 'discoverTenantScopes',
+  'createTenantScopedData', 'generateTenantAccounts', 'validateTenantIsolation', 'seedMultiTenantData',
+  'getTenantScopeInfo', 'integrateWithStorage', 'checkStoragePermissions', 'getStorageQuota',
+  'generateMediaAttachments', 'getStorageConfig'
+];
+
+/**
+ * Load the strategies of one config entry, resolved from `baseDir`
+ */
+export function loadStrategies(spec: string, baseDir: string = process.cwd()): LoadedStrategy[] {
+  const loaded = requireUserModule(spec, baseDir, 'Strategy');
+
+  const exported = loaded?.default ?? loaded?.strategies ?? loaded?.strategy ?? loaded;
+  const candidates = Array.isArray(exported) ? exported : [exported];
+  if (candidates.length === 0) {
+    throw new Error(`Strategy module '${spec}' does not export any strategies`);
+  }
+
+  return candidates.map(candidate => {
+    const strategy = instantiate(candidate, spec);
+    // A module-level apiVersion covers every strategy it exports
+    if (strategy.apiVersion === undefined && typeof loaded?.apiVersion === 'string') {
+      strategy.apiVersion = loaded.apiVersion;
+    }
+
+    const errors = validateStrategy(strategy);
+    if (errors.length > 0) {
+      throw new Error(`Invalid strategy from '${spec}':\n  - ${errors.join('\n  - ')}`);
+    }
+    return { strategy, source: spec };
+  });
+}
+
+/**
+ * Problems that keep an object from being used as a SeedingStrategy
+ */
+export function validateStrategy(strategy: any): string[] {
+  const errors: string[] = [];
+
+  if (!strategy || typeof strategy !== 'object') {
+    return ['export must be a strategy object, a class or a factory function'];
+  }
+
+  if (typeof strategy.name !== 'string' || strategy.name.trim() === '') {
+    errors.push('name must be a non-empty string');
+  }
+
+  for (const method of REQUIRED_METHODS) {
+    if (typeof strategy[method] !== 'function') {
+      errors.push(`${method}() is required`);
+    }
+  }
+
+  for (const method of OPTIONAL_METHODS) {
+    if (strategy[method] !== undefined && typeof strategy[method] !== 'function') {
+      errors.push(`${method} must be a function when present`);
+    }
+  }
+
+  if (strategy.apiVersion === undefined) {
+    errors.push(`apiVersion is required: declare the supa-seed strategy API range it supports (current ${STRATEGY_API_VERSION}, e.g. '^1.0.0')`);
+  } else if (typeof strategy.apiVersion !== 'string' || !semver.validRange(strategy.apiVersion)) {
+    errors.push(`apiVersion must be a semver range, got '${strategy.apiVersion}'`);
+  } else if (!semver.satisfies(STRATEGY_API_VERSION, strategy.apiVersion)) {
+    errors.push(`apiVersion '${strategy.apiVersion}' does not support the strategy API ${STRATEGY_API_VERSION} of this supa-seed version`);
+  }
+
+  return errors;
+}
+
+function instantiate(candidate: any, spec: string): SeedingStrategy {
+  if (typeof candidate !== 'function') {
+    return candidate;
+  }
+
+  // Classes have the strategy methods on their prototype; anything else is a factory
+  const isClass = /^class\b/.test(Function.prototype.toString.call(candidate)) ||
+    typeof candidate.prototype?.detect === 'function';
+
+  try {
+    return isClass ? new candidate() : candidate();
+  } catch (error: any) {
+    throw new Error(`Failed to create strategy from '${spec}': ${error.message}`);
+  }
+}
@@ -5,11 +5,13 @@
 
 import type { createClient } from '@supabase/supabase-js';
 import { Logger } from '../../core/utils/logger';
+import type { SeedConfig } from '../../core/types/types';
 import { 
   SeedingStrategy, 
   DatabaseSchema, 
   FrameworkDetectionResult 
 } from './strategy-interface';
+import { loadStrategies } from './strategy-loader';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -17,6 +19,8 @@ export interface StrategyRegistryOptions {
   enableFallback?: boolean;
   minimumConfidence?: number;
   debug?: boolean;
+  baseDir?: string; // Where strategy files and packages given to registerAll() resolve from (default: cwd)
+  config?: SeedConfig; // Passed to each strategy's initialize()
 }
 
 export interface StrategySelection {
@@ -27,6 +31,7 @@ export interface StrategySelection {
 
 export class StrategyRegistry {
   private strategies: Map<string, SeedingStrategy> = new Map();
+  private sources: Map<string, string> = new Map();
   private client: SupabaseClient;
   private options: StrategyRegistryOptions;
 
@@ -43,10 +48,16 @@ export class StrategyRegistry {
   /**
    * Register a seeding strategy
    */
-  async register(strategy: SeedingStrategy): Promise<void> {
+  async register(strategy: SeedingStrategy, source: string = 'built-in'): Promise<void> {
     try {
-      await strategy.initialize(this.client);
+      await strategy.initialize(this.client, this.options.config);
+
+      const replaced = this.sources.get(strategy.name);
+      if (replaced) {
+        Logger.info(`Strategy ${strategy.name} from ${source} replaces the one from ${replaced}`);
+      }
       this.strategies.set(strategy.name, strategy);
+      this.sources.set(strategy.name, source);
       
       if (this.options.debug) {
         Logger.debug(`Registered strategy: ${strategy.name}`);
@@ -58,11 +69,19 @@ export class StrategyRegistry {
   }
 
   /**
-   * Register multiple strategies
+   * Register multiple strategies. Strings are `strategies` config entries
+   * (file paths or package names) and are loaded and validated first.
    */
-  async registerAll(strategies: SeedingStrategy[]): Promise<void> {
-    for (const strategy of strategies) {
-      await this.register(strategy);
+  async registerAll(strategies: Array<SeedingStrategy | string>): Promise<void> {
+    for (const entry of strategies) {
+      if (typeof entry !== 'string') {
+        await this.register(entry);
+        continue;
+      }
+
+      for (const { strategy, source } of loadStrategies(entry, this.options.baseDir)) {
+        await this.register(strategy, source);
+      }
     }
   }
 
@@ -71,6 +90,7 @@ export class StrategyRegistry {
    */
   unregister(strategyName: string): void {
     this.strategies.delete(strategyName);
+    this.sources.delete(strategyName);
     
     if (this.options.debug) {
       Logger.debug(`Unregistered strategy: ${strategyName}`);
@@ -84,6 +104,13 @@ export class StrategyRegistry {
     return Array.from(this.strategies.values());
   }
 
+  /**
+   * Where a registered strategy came from: 'built-in' or its config entry
+   */
+  getStrategySource(name: string): string | undefined {
+    return this.sources.get(name);
+  }
+
   /**
    * Get a specific strategy by name
    */
@@ -284,6 +311,7 @@ export class StrategyRegistry {
    */
   clear(): void {
     this.strategies.clear();
+    this.sources.clear();
     if (this.options.debug) {
       Logger.debug('Cleared all registered strategies');
     }
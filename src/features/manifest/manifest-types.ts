@@ -0,0 +1,59 @@
+/**
+ * Seed Run Manifest Types
+ * Describes everything a single seed run inserted so it can be rolled back precisely
+ */
+
+export type SeedRunStatus = 'in_progress' | 'completed' | 'failed' | 'rolled_back';
+
+export interface ManifestTableEntry {
+  table: string;
+  primaryKey: string[];
+  rows: Array<Record<string, any>>; // Primary key values only, in insertion order
+}
+
+export interface ManifestStorageObject {
+  bucket: string;
+  path: string;
+}
+
+export interface SeedRunManifest {
+  version: 1;
+  runId: string;
+  status: SeedRunStatus;
+  startedAt: string;
+  completedAt?: string;
+  rolledBackAt?: string;
+  supabaseUrl: string;
+  seed: string;
+  tables: ManifestTableEntry[]; // Ordered by first insert
+  storageObjects: ManifestStorageObject[];
+  authUserIds: string[];
+}
+
+export interface ManifestSummary {
+  runId: string;
+  status: SeedRunStatus;
+  startedAt: string;
+  completedAt?: string;
+  totalRows: number;
+  tables: Record<string, number>;
+  storageObjects: number;
+  authUsers: number;
+}
+
+export interface RollbackOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+}
+
+export interface RollbackResult {
+  runId: string;
+  success: boolean;
+  dryRun: boolean;
+  deletionOrder: string[];
+  orderSource: 'dependency_graph' | 'insertion_order';
+  deletedRows: Record<string, number>;
+  storageObjectsRemoved: number;
+  authUsersDeleted: number;
+  errors: string[];
+}
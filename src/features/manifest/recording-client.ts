@@ -0,0 +1,254 @@
+/**
+ * Recording Supabase Client
+ * Wraps a Supabase client so that every row inserted through `from().insert()`,
+ * every auth user created through `auth.admin.createUser()` and every object
+ * uploaded through `storage.from().upload()` is recorded in the run manifest.
+ * Uploads that overwrite an object which already existed are not, since it
+ * was not this run's to delete.
+ * Rows bulk inserted through the client's direct database backend are recorded too;
+ * rows written to `auth.users` that way are recorded as auth users.
+ * Reads and all other calls pass straight through to the wrapped client.
+ */
+
+import { Logger } from '../../core/utils/logger';
+import { SeedRunRecorder } from './run-manifest';
+import { DATABASE_BACKEND, DatabaseBackend } from '../../core/database/database-backend';
+
+export function createRecordingClient<T extends object>(client: T, recorder: SeedRunRecorder): T {
+  return new Proxy(client, {
+    get(target, prop) {
+      if (prop === DATABASE_BACKEND) {
+        const backend: DatabaseBackend | undefined = (target as any)[DATABASE_BACKEND];
+        return backend && wrapBackend(backend, recorder);
+      }
+
+      const value = Reflect.get(target, prop);
+
+      if (prop === 'from' && typeof value === 'function') {
+        return (table: string) => wrapQueryBuilder(value.call(target, table), table, recorder);
+      }
+
+      if (prop === 'auth' && value) {
+        return wrapAuth(value, recorder);
+      }
+
+      if (prop === 'storage' && value) {
+        return wrapStorage(value, recorder);
+      }
+
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+function wrapBackend(backend: DatabaseBackend, recorder: SeedRunRecorder): DatabaseBackend {
+  return {
+    kind: backend.kind,
+    query: (sql, params) => backend.query(sql, params),
+    bulkInsert: async (table, rows) => {
+      const inserted = await backend.bulkInsert(table, rows);
+      if (table === 'auth.users') {
+        // Deleting the user through the admin API removes its identities too
+        inserted.forEach(row => recorder.recordAuthUser(row.id));
+      } else if (table !== 'auth.identities') {
+        recorder.recordRows(table, inserted);
+      }
+      return inserted;
+    },
+    transaction: backend.transaction && (work => backend.transaction!(tx => work(wrapBackend(tx, recorder)))),
+    close: () => backend.close()
+  };
+}
+
+function wrapQueryBuilder(builder: any, table: string, recorder: SeedRunRecorder): any {
+  return new Proxy(builder, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+
+      if ((prop === 'insert' || prop === 'upsert') && typeof value === 'function') {
+        return (values: any, options?: any) => {
+          const result = value.call(target, values, options);
+
+          // A merging upsert can return rows that existed before this run, so
+          // only inserts and duplicate-ignoring upserts are safe to record
+          if (prop === 'upsert' && !options?.ignoreDuplicates) {
+            Logger.debug(`Manifest: upsert into ${table} without ignoreDuplicates is not recorded`);
+            return result;
+          }
+
+          // Ask PostgREST to return the inserted rows so their keys can be recorded.
+          // A later .select('...') from the caller still narrows the columns,
+          // but always keeps the key columns, or every column until the key is known
+          const selected = typeof result?.select === 'function' ? result.select() : result;
+          return tapResult(withKeyColumns(selected, recorder.primaryKeyFor(table)), data => recorder.recordRows(table, data));
+        };
+      }
+
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+/**
+ * Add the key columns to a caller's `.select('...')` that leaves them out.
+ * Without a known key (the table's first insert) all columns are added, so
+ * a table keyed by something other than `id` is never asked for `id`.
+ */
+function withKeyColumns(builder: any, primaryKey: string[] | undefined): any {
+  return new Proxy(builder, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+
+      if (prop === 'select' && typeof value === 'function') {
+        return (columns?: string, ...rest: any[]) => value.call(target, addColumns(columns, primaryKey), ...rest);
+      }
+
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+function addColumns(columns: string | undefined, required: string[] | undefined): string | undefined {
+  if (columns === undefined) return columns;
+
+  // Top-level entries only: embedded resources keep their own column lists
+  const selected: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of columns + ',') {
+    if (char === ',' && depth === 0) {
+      selected.push(current.replace(/::.*$/, '').trim());
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+
+  if (selected.includes('*')) return columns;
+  if (!required) return `${columns},*`;
+  const missing = required.filter(column => !selected.includes(column));
+  return missing.length > 0 ? [columns, ...missing].join(',') : columns;
+}
+
+/**
+ * Pass the data of a successful response to `onData`, however far the caller
+ * chains the builder before awaiting it
+ */
+export function tapResult(builder: any, onData: (data: any) => void): any {
+  return new Proxy(builder, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+
+      if (prop === 'then' && typeof value === 'function') {
+        return (onFulfilled?: (res: any) => any, onRejected?: (err: any) => any) =>
+          value.call(
+            target,
+            (response: any) => {
+              if (response && !response.error) {
+                onData(response.data);
+              }
+              return onFulfilled ? onFulfilled(response) : response;
+            },
+            onRejected
+          );
+      }
+
+      if (typeof value === 'function') {
+        return (...args: any[]) => {
+          const result = value.apply(target, args);
+          return result && typeof result.then === 'function'
+            ? tapResult(result, onData)
+            : result;
+        };
+      }
+
+      return value;
+    }
+  });
+}
+
+function wrapAuth(auth: any, recorder: SeedRunRecorder): any {
+  return new Proxy(auth, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+
+      if (prop === 'admin' && value) {
+        return new Proxy(value, {
+          get(adminTarget, adminProp) {
+            const adminValue = Reflect.get(adminTarget, adminProp);
+
+            // Invite links create the user they invite; other links belong to existing users
+            if ((adminProp === 'createUser' || adminProp === 'generateLink') && typeof adminValue === 'function') {
+              return async (...args: any[]) => {
+                const response = await adminValue.apply(adminTarget, args);
+                const userId = response?.data?.user?.id;
+                const creates = adminProp === 'createUser' || args[0]?.type === 'invite';
+                if (!response?.error && userId && creates) {
+                  recorder.recordAuthUser(userId);
+                }
+                return response;
+              };
+            }
+
+            return typeof adminValue === 'function' ? adminValue.bind(adminTarget) : adminValue;
+          }
+        });
+      }
+
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+function wrapStorage(storage: any, recorder: SeedRunRecorder): any {
+  return new Proxy(storage, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+
+      if (prop === 'from' && typeof value === 'function') {
+        return (bucket: string) => {
+          const bucketApi = value.call(target, bucket);
+          return new Proxy(bucketApi, {
+            get(apiTarget, apiProp) {
+              const apiValue = Reflect.get(apiTarget, apiProp);
+
+              if (apiProp === 'upload' && typeof apiValue === 'function') {
+                return async (objectPath: string, ...rest: any[]) => {
+                  const replaced = rest[1]?.upsert ? await objectExists(apiTarget, objectPath) : false;
+                  const response = await apiValue.call(apiTarget, objectPath, ...rest);
+                  if (replaced) {
+                    Logger.debug(`Manifest: upload overwrote ${bucket}/${objectPath}, which is not recorded`);
+                  } else if (!response?.error) {
+                    recorder.recordStorageObject(bucket, response?.data?.path || objectPath);
+                  }
+                  return response;
+                };
+              }
+
+              return typeof apiValue === 'function' ? apiValue.bind(apiTarget) : apiValue;
+            }
+          });
+        };
+      }
+
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+/**
+ * Whether an object is already stored; when that cannot be checked it is
+ * assumed to be, so an upsert never records someone else's file
+ */
+async function objectExists(bucketApi: any, objectPath: string): Promise<boolean> {
+  if (typeof bucketApi.exists !== 'function') return true;
+  try {
+    // A missing object comes back as data: false along with its error
+    const { data } = await bucketApi.exists(objectPath);
+    return Boolean(data);
+  } catch {
+    return true;
+  }
+}
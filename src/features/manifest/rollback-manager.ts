@@ -0,0 +1,183 @@
+/**
+ * Seed Run Rollback Manager
+ * Deletes exactly the rows, storage objects and auth users recorded in a run manifest,
+ * in reverse dependency order from the DependencyGraphBuilder
+ */
+
+import type { createClient } from '@supabase/supabase-js';
+import { Logger } from '../../core/utils/logger';
+import { DependencyGraphBuilder, ForeignKeyRelationship } from '../../schema/dependency-graph';
+import { RelationshipAnalyzer } from '../analysis/relationship-analyzer';
+import { SeedRunManifest, RollbackOptions, RollbackResult } from './manifest-types';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export class RollbackManager {
+  constructor(private client: SupabaseClient) {}
+
+  /**
+   * Delete everything a run inserted. Pass `foreignKeys` to skip relationship discovery.
+   */
+  async rollback(
+    manifest: SeedRunManifest,
+    options: RollbackOptions = {},
+    foreignKeys?: ForeignKeyRelationship[]
+  ): Promise<RollbackResult> {
+    const dryRun = options.dryRun ?? false;
+    const batchSize = options.batchSize ?? 100;
+    const { order, source } = await this.resolveDeletionOrder(manifest, foreignKeys);
+
+    const result: RollbackResult = {
+      runId: manifest.runId,
+      success: true,
+      dryRun,
+      deletionOrder: order,
+      orderSource: source,
+      deletedRows: {},
+      storageObjectsRemoved: 0,
+      authUsersDeleted: 0,
+      errors: []
+    };
+
+    Logger.info(`⏪ Rolling back run ${manifest.runId}${dryRun ? ' (dry run)' : ''}`);
+    Logger.debug(`Deletion order (${source}): ${order.join(' → ')}`);
+
+    await this.removeStorageObjects(manifest, result, dryRun);
+
+    for (const table of order) {
+      const entry = manifest.tables.find(t => t.table === table);
+      if (!entry || entry.rows.length === 0) continue;
+
+      result.deletedRows[table] = 0;
+
+      if (dryRun) {
+        result.deletedRows[table] = entry.rows.length;
+        continue;
+      }
+
+      if (entry.primaryKey.length === 1) {
+        const keyColumn = entry.primaryKey[0];
+        const ids = entry.rows.map(row => row[keyColumn]);
+
+        for (let i = 0; i < ids.length; i += batchSize) {
+          const chunk = ids.slice(i, i + batchSize);
+          // Rows already gone are not counted: only what the delete returns was deleted
+          const { data, error } = await this.client.from(table).delete().in(keyColumn, chunk).select(keyColumn);
+          if (error) {
+            result.errors.push(`${table}: ${error.message}`);
+          } else {
+            result.deletedRows[table] += data?.length ?? 0;
+          }
+        }
+      } else {
+        for (const row of entry.rows) {
+          const { data, error } = await this.client.from(table).delete().match(row).select(entry.primaryKey.join(','));
+          if (error) {
+            result.errors.push(`${table}: ${error.message}`);
+          } else {
+            result.deletedRows[table] += data?.length ?? 0;
+          }
+        }
+      }
+    }
+
+    // Auth users go last: seeded rows usually reference them
+    for (const userId of manifest.authUserIds) {
+      if (dryRun) {
+        result.authUsersDeleted++;
+        continue;
+      }
+
+      try {
+        const { error } = await this.client.auth.admin.deleteUser(userId);
+        if (error && !error.message?.toLowerCase().includes('not found')) {
+          result.errors.push(`auth.users ${userId}: ${error.message}`);
+        } else {
+          result.authUsersDeleted++;
+        }
+      } catch (error: any) {
+        result.errors.push(`auth.users ${userId}: ${error.message}`);
+      }
+    }
+
+    result.success = result.errors.length === 0;
+
+    if (result.success) {
+      Logger.success(`Rollback of ${manifest.runId} ${dryRun ? 'planned' : 'completed'}`);
+    } else {
+      Logger.warn(`Rollback of ${manifest.runId} finished with ${result.errors.length} errors`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Work out the order to delete tables in. Uses foreign keys between the run's
+   * tables when they can be discovered, otherwise reverses the insertion order.
+   */
+  async resolveDeletionOrder(
+    manifest: SeedRunManifest,
+    foreignKeys?: ForeignKeyRelationship[]
+  ): Promise<{ order: string[]; source: RollbackResult['orderSource'] }> {
+    const tables = manifest.tables.map(entry => entry.table);
+    const insertionFallback = { order: [...tables].reverse(), source: 'insertion_order' as const };
+
+    if (tables.length <= 1) {
+      return insertionFallback;
+    }
+
+    let relationships = foreignKeys;
+    if (!relationships) {
+      try {
+        const analyzer = new RelationshipAnalyzer(this.client, {
+          includeTables: tables,
+          enableCaching: false,
+          generateRecommendations: false
+        });
+        const analysis = await analyzer.analyzeRelationships();
+        relationships = analysis.success ? analysis.foreignKeyRelationships : [];
+      } catch (error: any) {
+        Logger.debug('Relationship discovery failed during rollback:', error.message);
+        relationships = [];
+      }
+    }
+
+    const relevant = relationships.filter(fk =>
+      fk.fromTable !== fk.toTable && tables.includes(fk.fromTable) && tables.includes(fk.toTable)
+    );
+
+    if (relevant.length === 0) {
+      return insertionFallback;
+    }
+
+    const builder = new DependencyGraphBuilder();
+    // Add nodes in insertion order so unrelated tables keep a stable position
+    tables.forEach(table => builder.addNode(table));
+    relevant.forEach(fk => builder.addEdge(fk.fromTable, fk.toTable, fk));
+
+    return { order: builder.build().deletionOrder, source: 'dependency_graph' };
+  }
+
+  private async removeStorageObjects(manifest: SeedRunManifest, result: RollbackResult, dryRun: boolean): Promise<void> {
+    const byBucket = new Map<string, string[]>();
+    for (const object of manifest.storageObjects) {
+      const paths = byBucket.get(object.bucket) || [];
+      paths.push(object.path);
+      byBucket.set(object.bucket, paths);
+    }
+
+    for (const [bucket, paths] of byBucket) {
+      if (dryRun) {
+        result.storageObjectsRemoved += paths.length;
+        continue;
+      }
+
+      const { error } = await this.client.storage.from(bucket).remove(paths);
+      if (error) {
+        result.errors.push(`storage ${bucket}: ${error.message}`);
+      } else {
+        result.storageObjectsRemoved += paths.length;
+      }
+    }
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Seed Run Manifest Recorder and Store
+ * Records the primary keys, storage objects and auth users a seed run creates,
+ * and persists manifests under .supa-seed/runs so runs can be rolled back later
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Logger } from '../../core/utils/logger';
+import {
+  SeedRunManifest,
+  ManifestTableEntry,
+  ManifestSummary,
+  SeedRunStatus
+} from './manifest-types';
+
+const DEFAULT_PRIMARY_KEY = 'id';
+
+export class SeedRunRecorder {
+  private manifest: SeedRunManifest;
+  private tableIndex = new Map<string, ManifestTableEntry>();
+  private seenKeys = new Map<string, Set<string>>();
+
+  constructor(options: { supabaseUrl: string; seed: string; runId?: string }) {
+    this.manifest = {
+      version: 1,
+      runId: options.runId || SeedRunRecorder.generateRunId(),
+      status: 'in_progress',
+      startedAt: new Date().toISOString(),
+      supabaseUrl: options.supabaseUrl,
+      seed: options.seed,
+      tables: [],
+      storageObjects: [],
+      authUserIds: []
+    };
+  }
+
+  static generateRunId(): string {
+    const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    return `run_${timestamp}_${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  get runId(): string {
+    return this.manifest.runId;
+  }
+
+  /**
+   * Record rows returned from an insert or upsert
+   */
+  recordRows(table: string, rows: Record<string, any> | Array<Record<string, any>> | null | undefined): void {
+    if (!rows) return;
+    const list = Array.isArray(rows) ? rows : [rows];
+    if (list.length === 0) return;
+
+    let entry = this.tableIndex.get(table);
+    if (!entry) {
+      entry = {
+        table,
+        primaryKey: this.inferPrimaryKey(list[0]),
+        rows: []
+      };
+      this.tableIndex.set(table, entry);
+      this.seenKeys.set(table, new Set());
+      this.manifest.tables.push(entry);
+    }
+
+    const seen = this.seenKeys.get(table)!;
+    for (const row of list) {
+      if (!row || typeof row !== 'object') continue;
+
+      const keys: Record<string, any> = {};
+      for (const column of entry.primaryKey) {
+        if (row[column] !== undefined) {
+          keys[column] = row[column];
+        }
+      }
+      if (Object.keys(keys).length !== entry.primaryKey.length) {
+        Logger.debug(`Manifest: row in ${table} missing primary key columns, skipping`, row);
+        continue;
+      }
+
+      const fingerprint = JSON.stringify(keys);
+      if (seen.has(fingerprint)) continue;
+      seen.add(fingerprint);
+      entry.rows.push(keys);
+    }
+  }
+
+  /**
+   * The key rows of `table` are recorded by, once earlier rows have shown it;
+   * undefined for a table not recorded yet
+   */
+  primaryKeyFor(table: string): string[] | undefined {
+    return this.tableIndex.get(table)?.primaryKey;
+  }
+
+  recordStorageObject(bucket: string, objectPath: string): void {
+    const exists = this.manifest.storageObjects.some(o => o.bucket === bucket && o.path === objectPath);
+    if (!exists) {
+      this.manifest.storageObjects.push({ bucket, path: objectPath });
+    }
+  }
+
+  recordAuthUser(userId: string): void {
+    if (userId && !this.manifest.authUserIds.includes(userId)) {
+      this.manifest.authUserIds.push(userId);
+    }
+  }
+
+  /**
+   * Mark the run as finished and return the manifest
+   */
+  finish(status: Extract<SeedRunStatus, 'completed' | 'failed'>): SeedRunManifest {
+    this.manifest.status = status;
+    this.manifest.completedAt = new Date().toISOString();
+    return this.getManifest();
+  }
+
+  getManifest(): SeedRunManifest {
+    return JSON.parse(JSON.stringify(this.manifest));
+  }
+
+  /**
+   * Rows with an `id` column are keyed by it; anything else (junction tables)
+   * is keyed by all of its scalar columns
+   */
+  private inferPrimaryKey(sample: Record<string, any>): string[] {
+    if (sample && sample[DEFAULT_PRIMARY_KEY] !== undefined) {
+      return [DEFAULT_PRIMARY_KEY];
+    }
+
+    const scalarColumns = Object.keys(sample || {}).filter(column => {
+      const value = sample[column];
+      return value !== null && typeof value !== 'object';
+    });
+
+    return scalarColumns.length > 0 ? scalarColumns : [DEFAULT_PRIMARY_KEY];
+  }
+}
+
+export class ManifestStore {
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || path.join(process.cwd(), '.supa-seed', 'runs');
+  }
+
+  save(manifest: SeedRunManifest): string {
+    if (!fs.existsSync(this.directory)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+    }
+
+    const filePath = this.getPath(manifest.runId);
+    fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2));
+    Logger.debug(`Saved seed run manifest: ${filePath}`);
+    return filePath;
+  }
+
+  load(runId: string): SeedRunManifest {
+    const filePath = this.getPath(runId);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`No manifest found for run '${runId}' in ${this.directory}`);
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as SeedRunManifest;
+  }
+
+  exists(runId: string): boolean {
+    return fs.existsSync(this.getPath(runId));
+  }
+
+  /**
+   * List manifests, newest first
+   */
+  list(): SeedRunManifest[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => {
+        try {
+          return JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf8')) as SeedRunManifest;
+        } catch (error) {
+          Logger.warn(`Skipping unreadable manifest: ${file}`);
+          return null;
+        }
+      })
+      .filter((manifest): manifest is SeedRunManifest => manifest !== null)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  latest(): SeedRunManifest | null {
+    return this.list().find(manifest => manifest.status !== 'rolled_back') || null;
+  }
+
+  static summarize(manifest: SeedRunManifest): ManifestSummary {
+    const tables: Record<string, number> = {};
+    for (const entry of manifest.tables) {
+      tables[entry.table] = entry.rows.length;
+    }
+
+    return {
+      runId: manifest.runId,
+      status: manifest.status,
+      startedAt: manifest.startedAt,
+      completedAt: manifest.completedAt,
+      totalRows: Object.values(tables).reduce((sum, count) => sum + count, 0),
+      tables,
+      storageObjects: manifest.storageObjects.length,
+      authUsers: manifest.authUserIds.length
+    };
+  }
+
+  private getPath(runId: string): string {
+    if (!/^[\w.-]+$/.test(runId)) {
+      throw new Error(`Invalid run id: '${runId}'`);
+    }
+    return path.join(this.directory, `${runId}.json`);
+  }
+}
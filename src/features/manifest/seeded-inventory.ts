@@ -0,0 +1,120 @@
+/**
+ * Seeded Inventory
+ * What earlier seed runs for a project inserted and is still in the database.
+ * Rows come from the run manifests and are read back so rows deleted since are
+ * not counted. Top-up runs use it to insert only what is missing.
+ */
+
+import { Logger } from '../../core/utils/logger';
+import { SeedRunManifest } from './manifest-types';
+
+const READ_CHUNK_SIZE = 200;
+const AUTH_PAGE_SIZE = 1000;
+
+export class SeededInventory {
+  private constructor(
+    private tables: Map<string, Record<string, any>[]>,
+    readonly authUserIds: string[],
+    readonly runIds: string[]
+  ) {}
+
+  static empty(): SeededInventory {
+    return new SeededInventory(new Map(), [], []);
+  }
+
+  /**
+   * Collect the rows and auth users of every run that was not rolled back,
+   * keeping only those that still exist
+   */
+  static async load(client: any, manifests: SeedRunManifest[]): Promise<SeededInventory> {
+    const live = manifests.filter(manifest => manifest.status !== 'rolled_back');
+    const keysByTable = new Map<string, { primaryKey: string[]; rows: Record<string, any>[] }>();
+
+    for (const manifest of live) {
+      for (const entry of manifest.tables) {
+        const existing = keysByTable.get(entry.table);
+        if (existing && existing.primaryKey.join(',') === entry.primaryKey.join(',')) {
+          existing.rows.push(...entry.rows);
+        } else if (!existing) {
+          keysByTable.set(entry.table, { primaryKey: entry.primaryKey, rows: [...entry.rows] });
+        }
+      }
+    }
+
+    const tables = new Map<string, Record<string, any>[]>();
+    for (const [table, { primaryKey, rows }] of keysByTable) {
+      tables.set(table, await SeededInventory.readRows(client, table, primaryKey, rows));
+    }
+
+    const recordedUsers = Array.from(new Set(live.flatMap(manifest => manifest.authUserIds)));
+    const authUserIds = await SeededInventory.existingAuthUsers(client, recordedUsers);
+
+    return new SeededInventory(tables, authUserIds, live.map(manifest => manifest.runId));
+  }
+
+  getRows(table: string): Record<string, any>[] {
+    return this.tables.get(table) || [];
+  }
+
+  /**
+   * Tables the runs wrote to, in the order they were first recorded
+   */
+  tableNames(): string[] {
+    return Array.from(this.tables.keys());
+  }
+
+  count(table: string): number {
+    return this.getRows(table).length;
+  }
+
+  /**
+   * Read recorded rows back by primary key. Rows with composite keys cannot be
+   * filtered with `in`, so their recorded keys are trusted.
+   */
+  private static async readRows(
+    client: any,
+    table: string,
+    primaryKey: string[],
+    keys: Record<string, any>[]
+  ): Promise<Record<string, any>[]> {
+    const unique = Array.from(new Map(keys.map(key => [JSON.stringify(key), key] as [string, Record<string, any>])).values());
+    if (primaryKey.length !== 1) {
+      return unique;
+    }
+
+    const [column] = primaryKey;
+    const rows: Record<string, any>[] = [];
+
+    for (let i = 0; i < unique.length; i += READ_CHUNK_SIZE) {
+      const ids = unique.slice(i, i + READ_CHUNK_SIZE).map(key => key[column]);
+      const { data, error } = await client.from(table).select('*').in(column, ids);
+      if (error) {
+        Logger.warn(`Could not check seeded rows in ${table}, counting the manifest: ${error.message}`);
+        return unique;
+      }
+      rows.push(...(data || []));
+    }
+
+    return rows;
+  }
+
+  private static async existingAuthUsers(client: any, recorded: string[]): Promise<string[]> {
+    if (recorded.length === 0) return [];
+
+    const existing = new Set<string>();
+    try {
+      for (let page = 1; ; page++) {
+        const { data, error } = await client.auth.admin.listUsers({ page, perPage: AUTH_PAGE_SIZE });
+        if (error) throw error;
+        const users = data?.users || [];
+        users.forEach((user: { id: string }) => existing.add(user.id));
+        if (users.length < AUTH_PAGE_SIZE) break;
+      }
+    } catch (error: any) {
+      Logger.warn(`Could not list auth users, counting the manifest: ${error.message}`);
+      return recorded;
+    }
+
+    return recorded.filter(id => existing.has(id));
+  }
+}
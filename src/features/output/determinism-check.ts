@@ -0,0 +1,135 @@
+/**
+ * Determinism Check
+ * Runs generation twice without a database and compares the raw captured rows,
+ * before the SQL renderer normalises ids and timestamps, so anything that is
+ * not derived from the seed shows up as a difference. The rendered SQL of a
+ * deterministic run can be kept as a golden file and compared on later runs.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { SeedConfig, SeedContext } from '../../core/types/types';
+import { CapturedTable, SqlExpression } from './sql-capture-client';
+import { captureSeedRun, renderSeedRun } from './sql-seed-generator';
+
+export interface DeterminismDifference {
+  table: string;
+  row?: number; // Index of the row within its table, absent when row counts differ
+  column?: string;
+  first: any;
+  second: any;
+}
+
+export interface DeterminismReport {
+  deterministic: boolean;
+  tables: number;
+  rows: number;
+  differences: DeterminismDifference[]; // At most maxDifferences
+  differenceCount: number;
+  fingerprint: string; // Hash of the first run's rows
+  sql: string; // Rendered SQL of the first run, without a version header
+}
+
+export interface GoldenComparison {
+  status: 'created' | 'updated' | 'matched' | 'changed';
+  changedLines: Array<{ line: number; expected?: string; actual?: string }>; // First few, when changed
+}
+
+export interface DeterminismCheckOptions {
+  maxDifferences?: number; // Differences to keep in the report (default: 20)
+}
+
+const MAX_CHANGED_LINES = 10;
+
+export async function verifyDeterminism(
+  config: SeedConfig,
+  runSeeders: (context: SeedContext) => Promise<void>,
+  options: DeterminismCheckOptions = {}
+): Promise<DeterminismReport> {
+  const maxDifferences = options.maxDifferences ?? 20;
+  const first = await captureSeedRun(config, runSeeders);
+  const second = await captureSeedRun(config, runSeeders);
+
+  const differences = diffCapturedTables(first.tables, second.tables);
+
+  return {
+    deterministic: differences.length === 0,
+    tables: first.tables.length,
+    rows: first.tables.reduce((sum, entry) => sum + entry.rows.length, 0),
+    differences: differences.slice(0, maxDifferences),
+    differenceCount: differences.length,
+    fingerprint: createHash('sha256').update(canonicalize(first.tables)).digest('hex'),
+    sql: renderSeedRun(config, first)
+  };
+}
+
+/**
+ * Every cell that differs between two captures, in table and row order
+ */
+export function diffCapturedTables(first: CapturedTable[], second: CapturedTable[]): DeterminismDifference[] {
+  const differences: DeterminismDifference[] = [];
+  const secondByName = new Map(second.map(entry => [entry.table, entry] as [string, CapturedTable]));
+  const tableNames = Array.from(new Set([...first, ...second].map(entry => entry.table)));
+
+  for (const table of tableNames) {
+    const a = first.find(entry => entry.table === table)?.rows || [];
+    const b = secondByName.get(table)?.rows || [];
+
+    if (a.length !== b.length) {
+      differences.push({ table, first: `${a.length} rows`, second: `${b.length} rows` });
+      continue;
+    }
+
+    a.forEach((row, index) => {
+      const other = b[index];
+      const columns = Array.from(new Set([...Object.keys(row), ...Object.keys(other)]));
+      for (const column of columns) {
+        if (canonicalize(row[column]) !== canonicalize(other[column])) {
+          differences.push({ table, row: index, column, first: row[column], second: other[column] });
+        }
+      }
+    });
+  }
+
+  return differences;
+}
+
+/**
+ * Compare SQL with a golden file. A missing file is created, and `update`
+ * rewrites it instead of comparing.
+ */
+export function compareWithGolden(sql: string, file: string, update = false): GoldenComparison {
+  if (!fs.existsSync(file) || update) {
+    const existed = fs.existsSync(file);
+    fs.writeFileSync(file, sql);
+    return { status: existed ? 'updated' : 'created', changedLines: [] };
+  }
+
+  const expected = fs.readFileSync(file, 'utf8').split('\n');
+  const actual = sql.split('\n');
+  const changedLines: GoldenComparison['changedLines'] = [];
+
+  for (let i = 0; i < Math.max(expected.length, actual.length) && changedLines.length < MAX_CHANGED_LINES; i++) {
+    if (expected[i] !== actual[i]) {
+      changedLines.push({ line: i + 1, expected: expected[i], actual: actual[i] });
+    }
+  }
+
+  return { status: changedLines.length === 0 ? 'matched' : 'changed', changedLines };
+}
+
+/**
+ * Stable text for a captured value: object keys sorted, dates as ISO strings
+ */
+function canonicalize(value: any): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (item instanceof SqlExpression) return `sql:${item.sql}`;
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.keys(item).sort().reduce((sorted, key) => {
+        sorted[key] = item[key];
+        return sorted;
+      }, {} as Record<string, any>);
+    }
+    return item;
+  }) ?? 'undefined';
+}
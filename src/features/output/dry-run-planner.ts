@@ -0,0 +1,222 @@
+/**
+ * Dry Run Planner
+ * Runs the seeders against a SqlCaptureClient that reads through to the real
+ * database, so generation sees existing rows but nothing is written. Every row
+ * is checked with the ConstraintValidator before it is captured, auth users
+ * are checked against the emails already in auth.users, and the tables that
+ * would be written are checked for RLS policies.
+ */
+
+import { SeedConfig, SeedContext } from '../../core/types/types';
+import { getDatabaseBackend } from '../../core/database/database-backend';
+import { Logger } from '../../core/utils/logger';
+import { SchemaIntrospector, SchemaIntrospectionResult } from '../../schema/schema-introspector';
+import { ConstraintValidator } from '../analysis/constraint-validator';
+import { RLSComplianceEngine } from '../analysis/rls-compliance-engine';
+import { SqlExpression } from './sql-capture-client';
+import { captureSeedRun } from './sql-seed-generator';
+
+export interface PredictedViolation {
+  table: string;
+  row: number; // Index of the row within the rows written to its table
+  constraint: string;
+  field?: string;
+  message: string;
+  suggestedFix?: string;
+}
+
+export interface DryRunTablePlan {
+  table: string;
+  rows: number;
+  sample: Record<string, any>[];
+  violations: number;
+}
+
+export interface DryRunRlsFinding {
+  table: string;
+  severity: 'high' | 'medium' | 'low';
+  description: string;
+  recommendation: string;
+}
+
+export interface DryRunReport {
+  executionOrder: string[]; // Tables in the order they are first written
+  tables: DryRunTablePlan[];
+  violations: PredictedViolation[];
+  rls: DryRunRlsFinding[];
+  skippedUploads: number;
+  schemaError?: string; // Set when introspection failed and rows were not validated
+}
+
+export interface DryRunOptions {
+  sampleSize?: number; // Sample rows per table (default: 3)
+}
+
+// Managed by Supabase, not covered by introspection or table policies
+const UNCHECKED_SCHEMAS = ['auth.', 'storage.'];
+const AUTH_EMAIL_CONSTRAINT = 'users_email_partial_key';
+const LIST_USERS_PAGE_SIZE = 1000;
+
+export async function planDryRun(
+  config: SeedConfig,
+  source: any,
+  runSeeders: (context: SeedContext) => Promise<void>,
+  options: DryRunOptions = {}
+): Promise<DryRunReport> {
+  const sampleSize = options.sampleSize ?? 3;
+  const written = new Map<string, number>();
+  const violations: PredictedViolation[] = [];
+
+  let schemaInfo: SchemaIntrospectionResult | undefined;
+  let schemaError: string | undefined;
+  try {
+    schemaInfo = await new SchemaIntrospector(source).introspectSchema();
+  } catch (error: any) {
+    schemaError = error.message;
+    Logger.warn(`Schema introspection failed, rows will not be validated: ${error.message}`);
+  }
+
+  // The validator reads through the capture client, so unique and foreign key
+  // checks see both existing rows and the rows generated earlier in the run
+  let validator: ConstraintValidator | undefined;
+
+  const run = await captureSeedRun(config, async context => {
+    if (schemaInfo) {
+      validator = new ConstraintValidator(context.client as any);
+      await validator.initialize(schemaInfo);
+    }
+    await runSeeders(context);
+  }, {
+    source,
+    pinned: Boolean(config.deterministic),
+    onWrite: async (table, rows, operation) => {
+      const offset = written.get(table) ?? 0;
+      written.set(table, offset + rows.length);
+
+      if (!validator || !schemaInfo) return;
+
+      for (const [index, row] of rows.entries()) {
+        const result = await validator.validateOperation({ operation: 'insert', table, data: row, schemaInfo });
+        for (const error of result.errors) {
+          // An upsert resolves its own conflicts
+          if (operation === 'upsert' && error.rule.endsWith('_unique')) continue;
+          violations.push({
+            table,
+            row: offset + index,
+            constraint: error.constraint,
+            field: error.field,
+            message: error.message,
+            suggestedFix: error.suggestedFix
+          });
+        }
+      }
+    }
+  });
+
+  const authUsers = run.tables.find(entry => entry.table === 'auth.users')?.rows || [];
+  violations.push(...await predictEmailCollisions(source, authUsers));
+
+  // Tables are captured in the order they are first written, auth users included
+  const executionOrder = run.tables.map(entry => entry.table);
+  const checkedTables = executionOrder.filter(table => !UNCHECKED_SCHEMAS.some(prefix => table.startsWith(prefix)));
+  const rls = await checkRowLevelSecurity(source, checkedTables);
+
+  return {
+    executionOrder,
+    tables: run.tables.map(({ table, rows }) => ({
+      table,
+      rows: rows.length,
+      sample: rows.slice(0, sampleSize).map(toPlainRow),
+      violations: violations.filter(violation => violation.table === table).length
+    })),
+    violations,
+    rls,
+    skippedUploads: run.skippedUploads.length,
+    schemaError
+  };
+}
+
+/**
+ * Auth users whose email is already registered, which GoTrue would refuse
+ */
+async function predictEmailCollisions(source: any, rows: Record<string, any>[]): Promise<PredictedViolation[]> {
+  const emails = rows.map(row => typeof row.email === 'string' ? row.email.toLowerCase() : undefined);
+  const candidates = Array.from(new Set(emails.filter((email): email is string => Boolean(email))));
+  if (candidates.length === 0) return [];
+
+  let registered: Set<string>;
+  try {
+    registered = await registeredEmails(source, candidates);
+  } catch (error: any) {
+    Logger.warn(`Could not check auth.users for existing emails: ${error.message}`);
+    return [];
+  }
+
+  return emails.flatMap((email, row) => email && registered.has(email) ? [{
+    table: 'auth.users',
+    row,
+    constraint: AUTH_EMAIL_CONSTRAINT,
+    field: 'email',
+    message: `A user with the email ${email} is already registered`,
+    suggestedFix: 'Change emailDomain or the seed, or roll back the run that created the user'
+  }] : []);
+}
+
+/**
+ * Which of `emails` auth.users already has: one query over a direct
+ * connection, otherwise the admin API's user list
+ */
+async function registeredEmails(source: any, emails: string[]): Promise<Set<string>> {
+  const backend = getDatabaseBackend(source);
+  if (backend.kind === 'postgres') {
+    const rows = await backend.query<{ email: string }>(
+      'SELECT lower(email) AS email FROM auth.users WHERE lower(email) = ANY($1::text[])',
+      [emails]
+    );
+    return new Set(rows.map(row => row.email));
+  }
+
+  const wanted = new Set(emails);
+  const registered = new Set<string>();
+  for (let page = 1; ; page++) {
+    const { data, error } = await source.auth.admin.listUsers({ page, perPage: LIST_USERS_PAGE_SIZE });
+    if (error) throw new Error(error.message);
+
+    const users: Array<{ email?: string }> = data?.users || [];
+    users.map(user => user.email?.toLowerCase()).forEach(email => email && wanted.has(email) && registered.add(email));
+    if (users.length < LIST_USERS_PAGE_SIZE) return registered;
+  }
+}
+
+async function checkRowLevelSecurity(
+  source: any,
+  tables: string[]
+): Promise<DryRunRlsFinding[]> {
+  const engine = new RLSComplianceEngine(source);
+  const findings: DryRunRlsFinding[] = [];
+
+  for (const table of tables) {
+    try {
+      const result = await engine.quickComplianceCheck(table, 'INSERT');
+      findings.push(...result.violations.map(violation => ({
+        table,
+        severity: violation.severity,
+        description: violation.description,
+        recommendation: violation.recommendation
+      })));
+    } catch (error: any) {
+      Logger.debug(`RLS check skipped for ${table}: ${error.message}`);
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Sample rows as plain JSON, with raw SQL expressions shown as their text
+ */
+function toPlainRow(row: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(row).map(([column, value]) =>
+    [column, value instanceof SqlExpression ? value.sql : value]
+  ));
+}
@@ -0,0 +1,493 @@
+/**
+ * SQL Capture Client
+ * Stands in for the Supabase client when seeding to a SQL file. Writes are kept
+ * in memory as rows per table (including the auth.users and auth.identities rows
+ * GoTrue would create), and reads are answered from those rows, so the seeders
+ * behave as they would against an empty database without any network access.
+ *
+ * With a `source` client (dry runs), table reads and read-only RPCs also go to
+ * the real database and are merged with the captured rows; writes never do.
+ */
+
+import type { SeedHookPoint } from '../../core/types/types';
+import { SeedDeterminism } from '../../core/utils/seed-determinism';
+import { softDeletedUserColumns } from '../../auth/bulk-auth-writer';
+import { Logger } from '../../core/utils/logger';
+
+/**
+ * A raw SQL expression rendered without quoting, e.g. `now()`
+ */
+export class SqlExpression {
+  constructor(public readonly sql: string) {}
+}
+
+export interface CapturedTable {
+  table: string;
+  rows: Record<string, any>[];
+}
+
+export interface CapturedHookStatement {
+  point: SeedHookPoint;
+  table?: string; // Table hooks only
+  sql: string;
+}
+
+export interface SqlCaptureOptions {
+  seed: string;
+  supabaseUrl?: string;
+  defaultPassword?: string;
+  determinism?: SeedDeterminism; // Source of IDs and timestamps (default: pinned to the seed)
+  source?: any; // Database to read existing rows from; nothing is ever written to it
+  onWrite?: (table: string, rows: Record<string, any>[], operation: 'insert' | 'upsert') => Promise<void>; // Called before rows are captured
+}
+
+type Filter = (row: Record<string, any>) => boolean;
+type QueryCall = [method: string, args: any[]];
+
+const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+const READ_ONLY_RPCS = ['get_foreign_keys_detailed', 'get_enum_values'];
+const READ_ONLY_SQL = /^\s*(select|with)\b/i;
+const WRITE_SQL = /\b(insert|update|delete|merge|drop|alter|create|truncate|grant|revoke|copy|call)\b/i;
+
+export class SqlCaptureClient {
+  readonly startedAt: number;
+  readonly skippedUploads: Array<{ bucket: string; path: string }> = [];
+  readonly hookStatements: CapturedHookStatement[] = [];
+  private tables = new Map<string, Record<string, any>[]>();
+  private determinism: SeedDeterminism;
+
+  constructor(private options: SqlCaptureOptions) {
+    this.determinism = options.determinism ?? new SeedDeterminism(options.seed, { pinned: true });
+    this.startedAt = this.determinism.now();
+  }
+
+  from(table: string) {
+    // Like PostgREST, the table handle itself is not awaitable; the builders it returns are
+    const builder = () => new CaptureQueryBuilder(this, table);
+    return {
+      select: (columns?: string, options?: { count?: string; head?: boolean }) => builder().select(columns, options),
+      insert: (values: Record<string, any> | Record<string, any>[]) => builder().insert(values),
+      upsert: (values: Record<string, any> | Record<string, any>[], options?: { onConflict?: string; ignoreDuplicates?: boolean }) =>
+        builder().upsert(values, options),
+      update: (values: Record<string, any>) => builder().update(values),
+      delete: () => builder().delete()
+    };
+  }
+
+  async rpc(fn: string, args: Record<string, any> = {}): Promise<{ data: any; error: any }> {
+    if (this.options.source && isReadOnlyRpc(fn, args)) {
+      return this.options.source.rpc(fn, args);
+    }
+    return { data: null, error: { message: `rpc ${fn} is not available without writing to the database`, code: 'PGRST202' } };
+  }
+
+  get auth() {
+    return {
+      getSession: async () => ({ data: { session: null }, error: null }),
+      admin: {
+        createUser: async (attributes: Record<string, any>) => this.createAuthUser(attributes, true),
+        generateLink: async (params: { type: string; email: string; options?: { data?: Record<string, any> } }) => {
+          if (params.type === 'invite') {
+            return this.createAuthUser({ email: params.email, user_metadata: params.options?.data }, false);
+          }
+          const row = this.getRows('auth.users').find(user => user.email === params.email?.toLowerCase());
+          return row
+            ? { data: { user: this.toAuthUser(row), properties: {} }, error: null }
+            : { data: { user: null, properties: null }, error: { message: 'User not found', status: 404 } };
+        },
+        listUsers: async (params: { page?: number; perPage?: number } = {}) => {
+          const users = this.getRows('auth.users').map(row => this.toAuthUser(row));
+          const perPage = params.perPage ?? 50;
+          const page = params.page ?? 1;
+          return { data: { users: users.slice((page - 1) * perPage, page * perPage) }, error: null };
+        },
+        getUserById: async (id: string) => {
+          const row = this.getRows('auth.users').find(user => user.id === id);
+          return row
+            ? { data: { user: this.toAuthUser(row) }, error: null }
+            : { data: { user: null }, error: { message: 'User not found', status: 404 } };
+        },
+        updateUserById: async (id: string, attributes: Record<string, any>) => {
+          const row = this.getRows('auth.users').find(user => user.id === id);
+          if (!row) {
+            return { data: { user: null }, error: { message: 'User not found', status: 404 } };
+          }
+          if (attributes.user_metadata) {
+            row.raw_user_meta_data = { ...row.raw_user_meta_data, ...attributes.user_metadata };
+          }
+          if (attributes.app_metadata) {
+            row.raw_app_meta_data = { ...row.raw_app_meta_data, ...attributes.app_metadata };
+          }
+          return { data: { user: this.toAuthUser(row) }, error: null };
+        },
+        deleteUser: async (id: string, shouldSoftDelete = false) => {
+          this.removeRows('auth.identities', row => row.user_id === id);
+          if (!shouldSoftDelete) {
+            this.removeRows('auth.users', row => row.id === id);
+          } else {
+            const row = this.getRows('auth.users').find(user => user.id === id);
+            if (row) Object.assign(row, softDeletedUserColumns(id, row.email, new SqlExpression('now()')));
+          }
+          return { data: {}, error: null };
+        }
+      }
+    };
+  }
+
+  get storage() {
+    const publicBase = `${this.options.supabaseUrl || 'http://127.0.0.1:54321'}/storage/v1/object/public`;
+    return {
+      listBuckets: async () => ({ data: [], error: null }),
+      getBucket: async (name: string) => ({ data: { name }, error: null }),
+      createBucket: async (name: string) => ({ data: { name }, error: null }),
+      from: (bucket: string) => ({
+        upload: async (path: string) => {
+          // Files live in storage, not in the database, so they cannot be part of a SQL seed
+          this.skippedUploads.push({ bucket, path });
+          return { data: { path }, error: null };
+        },
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `${publicBase}/${bucket}/${path}` } }),
+        list: async () => ({ data: [], error: null }),
+        remove: async () => ({ data: [], error: null })
+      })
+    };
+  }
+
+  /**
+   * Captured rows per table, in the order tables were first written
+   */
+  getCapturedTables(): CapturedTable[] {
+    return Array.from(this.tables.entries())
+      .filter(([, rows]) => rows.length > 0)
+      .map(([table, rows]) => ({ table, rows }));
+  }
+
+  /**
+   * SQL a hook would have run, kept in order for the SQL file
+   */
+  addHookStatement(statement: CapturedHookStatement): void {
+    this.hookStatements.push(statement);
+  }
+
+  nextUuid(): string {
+    return this.determinism.uuid();
+  }
+
+  getRows(table: string): Record<string, any>[] {
+    return this.tables.get(table) || [];
+  }
+
+  addRows(table: string, rows: Record<string, any>[]): void {
+    const existing = this.tables.get(table) || [];
+    existing.push(...rows);
+    this.tables.set(table, existing);
+  }
+
+  /**
+   * Existing rows matching a query, replayed against the source database.
+   * Auth tables are only ever answered from captured rows.
+   */
+  async readSource(
+    table: string,
+    columns: string,
+    options: { count?: string; head?: boolean },
+    calls: QueryCall[]
+  ): Promise<{ rows: Record<string, any>[]; count: number }> {
+    if (!this.options.source || table.startsWith('auth.')) {
+      return { rows: [], count: 0 };
+    }
+
+    try {
+      let query = this.options.source.from(table).select(columns, options);
+      for (const [method, args] of calls) {
+        query = query[method](...args);
+      }
+      const { data, error, count } = await query;
+      if (error) {
+        Logger.debug(`Dry run could not read ${table}: ${error.message}`);
+        return { rows: [], count: 0 };
+      }
+      const rows = Array.isArray(data) ? data : [];
+      return { rows, count: count ?? rows.length };
+    } catch (error: any) {
+      Logger.debug(`Dry run could not read ${table}: ${error.message}`);
+      return { rows: [], count: 0 };
+    }
+  }
+
+  async beforeWrite(table: string, rows: Record<string, any>[], operation: 'insert' | 'upsert'): Promise<void> {
+    await this.options.onWrite?.(table, rows, operation);
+  }
+
+  removeRows(table: string, predicate: Filter): Record<string, any>[] {
+    const rows = this.getRows(table);
+    const removed = rows.filter(predicate);
+    this.tables.set(table, rows.filter(row => !predicate(row)));
+    return removed;
+  }
+
+  private async createAuthUser(attributes: Record<string, any>, confirmed: boolean) {
+    const email = attributes.email?.toLowerCase();
+    if (email && this.getRows('auth.users').some(user => user.email === email)) {
+      return {
+        data: { user: null },
+        error: { message: 'A user with this email address has already been registered', status: 422 }
+      };
+    }
+
+    const now = new SqlExpression('now()');
+    const id = attributes.id || this.nextUuid();
+    const password = attributes.password ?? this.options.defaultPassword;
+    const row: Record<string, any> = {
+      instance_id: NIL_UUID,
+      id,
+      aud: 'authenticated',
+      role: 'authenticated',
+      email,
+      encrypted_password: password
+        ? new SqlExpression(`extensions.crypt(${quoteLiteral(password)}, extensions.gen_salt('bf'))`)
+        : '',
+      email_confirmed_at: confirmed && attributes.email_confirm !== false ? now : null,
+      raw_app_meta_data: { provider: 'email', providers: ['email'], ...attributes.app_metadata },
+      raw_user_meta_data: attributes.user_metadata || {},
+      created_at: now,
+      updated_at: now,
+      confirmation_token: '',
+      recovery_token: '',
+      email_change_token_new: '',
+      email_change: ''
+    };
+
+    this.addRows('auth.users', [row]);
+    this.addRows('auth.identities', [{
+      id: this.nextUuid(),
+      user_id: id,
+      provider_id: id,
+      provider: 'email',
+      identity_data: { sub: id, email, email_verified: confirmed },
+      last_sign_in_at: now,
+      created_at: now,
+      updated_at: now
+    }]);
+
+    return { data: { user: this.toAuthUser(row) }, error: null };
+  }
+
+  private toAuthUser(row: Record<string, any>) {
+    return {
+      id: row.id,
+      email: row.email,
+      aud: row.aud,
+      role: row.role,
+      app_metadata: row.raw_app_meta_data,
+      user_metadata: row.raw_user_meta_data,
+      email_confirmed_at: row.email_confirmed_at ? new Date(this.startedAt).toISOString() : null,
+      created_at: new Date(this.startedAt).toISOString()
+    };
+  }
+}
+
+/**
+ * Minimal PostgREST-style query builder over the captured rows.
+ * Supports the filters the seeders use; anything else is ignored.
+ */
+export class CaptureQueryBuilder implements PromiseLike<any> {
+  private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private values: Record<string, any>[] = [];
+  private patch: Record<string, any> = {};
+  private filters: Filter[] = [];
+  private calls: QueryCall[] = []; // Filters and paging, replayed against the source database
+  private columns = '*';
+  private selectOptions: { count?: string; head?: boolean } = {};
+  private returning = false;
+  private singleRow: 'single' | 'maybe' | null = null;
+  private limitCount?: number;
+  private countOnly = false;
+  private conflictColumns = ['id'];
+  private ignoreDuplicates = false;
+
+  constructor(private capture: SqlCaptureClient, private table: string) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}): this {
+    if (this.operation === 'select') {
+      this.columns = columns;
+      this.selectOptions = options;
+      this.countOnly = Boolean(options.head);
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Record<string, any> | Record<string, any>[]): this {
+    this.operation = 'insert';
+    this.values = (Array.isArray(values) ? values : [values]).map(row => ({ ...row }));
+    return this;
+  }
+
+  upsert(values: Record<string, any> | Record<string, any>[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.insert(values);
+    this.operation = 'upsert';
+    if (options.onConflict) {
+      this.conflictColumns = options.onConflict.split(',').map(column => column.trim());
+    }
+    this.ignoreDuplicates = Boolean(options.ignoreDuplicates);
+    return this;
+  }
+
+  update(values: Record<string, any>): this {
+    this.operation = 'update';
+    this.patch = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this { return this.where(row => row[column] === value, 'eq', column, value); }
+  neq(column: string, value: any): this { return this.where(row => row[column] !== value, 'neq', column, value); }
+  gt(column: string, value: any): this { return this.where(row => row[column] > value, 'gt', column, value); }
+  gte(column: string, value: any): this { return this.where(row => row[column] >= value, 'gte', column, value); }
+  lt(column: string, value: any): this { return this.where(row => row[column] < value, 'lt', column, value); }
+  lte(column: string, value: any): this { return this.where(row => row[column] <= value, 'lte', column, value); }
+  in(column: string, values: any[]): this { return this.where(row => values.includes(row[column]), 'in', column, values); }
+  is(column: string, value: any): this { return this.where(row => (row[column] ?? null) === value, 'is', column, value); }
+  like(column: string, pattern: string): this {
+    return this.where(row => likeToRegExp(pattern, false).test(String(row[column] ?? '')), 'like', column, pattern);
+  }
+  ilike(column: string, pattern: string): this {
+    return this.where(row => likeToRegExp(pattern, true).test(String(row[column] ?? '')), 'ilike', column, pattern);
+  }
+  match(query: Record<string, any>): this {
+    return this.where(row => Object.entries(query).every(([column, value]) => row[column] === value), 'match', query);
+  }
+
+  // They do not change which captured rows match, but are replayed against the source
+  or(...args: any[]): this { return this.record('or', args); }
+  not(...args: any[]): this { return this.record('not', args); }
+  filter(...args: any[]): this { return this.record('filter', args); }
+  order(...args: any[]): this { return this.record('order', args); }
+  range(from: number, to: number): this { this.limitCount = to - from + 1; return this.record('range', [from, to]); }
+  limit(count: number): this { this.limitCount = count; return this.record('limit', [count]); }
+
+  single(): this { this.singleRow = 'single'; return this; }
+  maybeSingle(): this { this.singleRow = 'maybe'; return this; }
+
+  then<TResult1 = any, TResult2 = never>(
+    onfulfilled?: ((value: any) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private where(filter: Filter, method: string, ...args: any[]): this {
+    this.filters.push(filter);
+    return this.record(method, args);
+  }
+
+  private record(method: string, args: any[]): this {
+    this.calls.push([method, args]);
+    return this;
+  }
+
+  private matches(row: Record<string, any>): boolean {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private async execute(): Promise<{ data: any; error: any; count?: number }> {
+    switch (this.operation) {
+      case 'insert':
+      case 'upsert':
+        await this.capture.beforeWrite(this.table, this.values, this.operation);
+        return this.shape(this.write());
+      case 'update': {
+        const rows = this.capture.getRows(this.table).filter(row => this.matches(row));
+        rows.forEach(row => Object.assign(row, this.patch));
+        return this.shape(this.returning ? rows : null);
+      }
+      case 'delete': {
+        const removed = this.capture.removeRows(this.table, row => this.matches(row));
+        return this.shape(this.returning ? removed : null);
+      }
+      default: {
+        const existing = await this.capture.readSource(this.table, this.columns, this.selectOptions, this.calls);
+        const captured = this.capture.getRows(this.table).filter(row => this.matches(row));
+        if (this.countOnly) {
+          return { data: null, error: null, count: existing.count + captured.length };
+        }
+        let rows = [...existing.rows, ...captured];
+        if (this.limitCount !== undefined) {
+          rows = rows.slice(0, this.limitCount);
+        }
+        return { ...this.shape(rows.map(row => ({ ...row }))), count: rows.length };
+      }
+    }
+  }
+
+  private write(): Record<string, any>[] | null {
+    const written: Record<string, any>[] = [];
+
+    for (const row of this.values) {
+      // Callers that read the row back need the key the database would have generated
+      if (this.returning && row.id === undefined) {
+        row.id = this.capture.nextUuid();
+      }
+
+      if (this.operation === 'upsert') {
+        const existing = this.capture.getRows(this.table).find(candidate =>
+          this.conflictColumns.every(column => row[column] !== undefined && candidate[column] === row[column])
+        );
+        if (existing) {
+          if (!this.ignoreDuplicates) {
+            Object.assign(existing, row);
+            written.push(existing);
+          }
+          continue;
+        }
+      }
+
+      this.capture.addRows(this.table, [row]);
+      written.push(row);
+    }
+
+    return this.returning ? written.map(row => ({ ...row })) : null;
+  }
+
+  private shape(rows: Record<string, any>[] | null): { data: any; error: any } {
+    if (!this.singleRow || rows === null) {
+      return { data: rows, error: null };
+    }
+
+    if (rows.length === 1 || (this.singleRow === 'maybe' && rows.length === 0)) {
+      return { data: rows[0] ?? null, error: null };
+    }
+
+    return {
+      data: null,
+      error: {
+        code: 'PGRST116',
+        message: 'JSON object requested, multiple (or no) rows returned',
+        details: `The result contains ${rows.length} rows`
+      }
+    };
+  }
+}
+
+function isReadOnlyRpc(fn: string, args: Record<string, any>): boolean {
+  if (READ_ONLY_RPCS.includes(fn)) return true;
+  if (fn !== 'exec_sql') return false;
+
+  const sql = String(args.sql ?? args.query ?? '');
+  return READ_ONLY_SQL.test(sql) && !WRITE_SQL.test(sql);
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`, caseInsensitive ? 'i' : '');
+}
+
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
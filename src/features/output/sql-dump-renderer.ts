@@ -0,0 +1,260 @@
+/**
+ * SQL Dump Renderer
+ * Turns rows captured by the SqlCaptureClient into ordered INSERT statements.
+ * Tables are ordered with the DependencyGraphBuilder's seeding phases, using
+ * foreign keys inferred from the captured ids. Random ids and wall-clock
+ * timestamps are normalised so the same seed always renders the same file.
+ */
+
+import { DependencyGraphBuilder, ForeignKeyRelationship } from '../../schema/dependency-graph';
+import { deterministicUuid } from '../../core/utils/seed-determinism';
+import { CapturedHookStatement, CapturedTable, SqlExpression, quoteLiteral } from './sql-capture-client';
+
+export interface SqlRenderOptions {
+  seed: string;
+  version?: string;
+  disableTriggers?: boolean; // Wrap inserts in session_replication_role = replica (default: true)
+  capturedBetween?: [number, number]; // Timestamps in this window are rendered as now()
+  pinnedClock?: number; // The seed run's pinned "now", also rendered as now()
+  foreignKeys?: ForeignKeyRelationship[]; // Known foreign keys, merged with inferred ones
+  skippedUploads?: Array<{ bucket: string; path: string }>;
+  hookStatements?: CapturedHookStatement[]; // SQL hooks, placed around the run and their tables
+  rowsPerStatement?: number;
+}
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})$/;
+const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+const CLOCK_TOLERANCE_MS = 1000;
+
+export class SqlDumpRenderer {
+  private uuidMap = new Map<string, string>();
+
+  constructor(private options: SqlRenderOptions) {}
+
+  render(tables: CapturedTable[]): string {
+    this.uuidMap.clear();
+    const disableTriggers = this.options.disableTriggers ?? true;
+    const rowsPerStatement = this.options.rowsPerStatement ?? 100;
+    const phases = this.resolvePhases(tables);
+    const byName = new Map(tables.map(entry => [entry.table, entry] as [string, CapturedTable]));
+    const hooks = this.options.hookStatements || [];
+    const tableHooks = hooks.filter(hook => hook.table && byName.has(hook.table));
+
+    const lines: string[] = [
+      `-- Generated by supa-seed${this.options.version ? ` v${this.options.version}` : ''}`,
+      `-- Seed value: ${this.options.seed}`,
+      '-- Regenerate with: supa-seed seed --output sql --out <file>',
+      ''
+    ];
+
+    const beforeRun = hooks.filter(hook => hook.point === 'beforeRun');
+    if (beforeRun.length > 0) {
+      lines.push(...this.renderHooks(beforeRun), '');
+    }
+
+    if (disableTriggers) {
+      lines.push(
+        '-- Rows are inserted exactly as generated, without firing triggers or checking',
+        '-- foreign keys, so trigger-created rows are not duplicated',
+        'SET session_replication_role = replica;',
+        ''
+      );
+    }
+
+    phases.forEach((phaseTables, index) => {
+      lines.push(`-- Phase ${index + 1}: ${phaseTables.join(', ')}`);
+
+      for (const table of phaseTables) {
+        const entry = byName.get(table);
+        if (!entry) continue;
+
+        lines.push(...this.renderHooks(tableHooks.filter(hook => hook.table === table && hook.point === 'beforeTable')));
+        for (const group of this.groupByColumns(entry.rows)) {
+          for (let i = 0; i < group.rows.length; i += rowsPerStatement) {
+            lines.push(this.renderInsert(table, group.columns, group.rows.slice(i, i + rowsPerStatement)));
+          }
+        }
+        lines.push(...this.renderHooks(tableHooks.filter(hook => hook.table === table && hook.point === 'afterTable')));
+      }
+
+      lines.push('');
+    });
+
+    // Hooks of tables the seed visited without inserting rows keep the order they ran in
+    const otherTableHooks = hooks.filter(hook => hook.table && !byName.has(hook.table));
+    if (otherTableHooks.length > 0) {
+      lines.push(...this.renderHooks(otherTableHooks), '');
+    }
+
+    if (disableTriggers) {
+      lines.push('SET session_replication_role = DEFAULT;', '');
+    }
+
+    const afterRun = hooks.filter(hook => hook.point === 'afterRun');
+    if (afterRun.length > 0) {
+      lines.push(...this.renderHooks(afterRun), '');
+    }
+
+    const uploads = this.options.skippedUploads || [];
+    if (uploads.length > 0) {
+      lines.push(`-- ${uploads.length} storage uploads are not included (files are not stored in the database)`, '');
+    }
+
+    return lines.join('\n');
+  }
+
+  private renderHooks(hooks: CapturedHookStatement[]): string[] {
+    return hooks.map(hook => `-- ${hook.point} hook${hook.table ? ` (${hook.table})` : ''}\n${hook.sql.trim()}`);
+  }
+
+  /**
+   * Group tables into seeding phases. Auth tables always come first because
+   * application tables reference auth.users rather than the other way round.
+   */
+  resolvePhases(tables: CapturedTable[]): string[][] {
+    const names = tables.map(entry => entry.table);
+    const foreignKeys = [...(this.options.foreignKeys || []), ...this.inferForeignKeys(tables)]
+      .filter(fk => fk.fromTable !== fk.toTable && names.includes(fk.fromTable) && names.includes(fk.toTable));
+
+    const builder = new DependencyGraphBuilder();
+    names.forEach(name => builder.addNode(name, name.includes('.') ? name.split('.')[0] : 'public'));
+    foreignKeys.forEach(fk => builder.addEdge(fk.fromTable, fk.toTable, fk));
+    builder.build();
+
+    const phases = builder.calculateSeedingOrderWithPhases().phases.map(phase => phase.tables);
+    const authFirst = (a: string, b: string) => Number(!a.startsWith('auth.')) - Number(!b.startsWith('auth.'));
+    return phases.map(phase => [...phase].sort(authFirst));
+  }
+
+  /**
+   * A column whose values are ids of rows captured in another table is treated as a foreign key
+   */
+  inferForeignKeys(tables: CapturedTable[]): ForeignKeyRelationship[] {
+    const owners = new Map<string, string>();
+    for (const entry of tables) {
+      for (const row of entry.rows) {
+        if (typeof row.id === 'string' && row.id !== NIL_UUID && !owners.has(row.id)) {
+          owners.set(row.id, entry.table);
+        }
+      }
+    }
+
+    const found = new Map<string, ForeignKeyRelationship>();
+    for (const entry of tables) {
+      for (const row of entry.rows) {
+        for (const [column, value] of Object.entries(row)) {
+          if (column === 'id' || typeof value !== 'string') continue;
+
+          const toTable = owners.get(value);
+          const key = `${entry.table}.${column}`;
+          if (!toTable || toTable === entry.table || found.has(key)) continue;
+
+          found.set(key, {
+            constraintName: `inferred_${entry.table}_${column}`,
+            fromTable: entry.table,
+            fromColumn: column,
+            toTable,
+            toColumn: 'id',
+            onDelete: 'NO ACTION',
+            onUpdate: 'NO ACTION',
+            isNullable: true,
+            isDeferrable: false,
+            schema: entry.table.includes('.') ? entry.table.split('.')[0] : 'public'
+          });
+        }
+      }
+    }
+
+    return Array.from(found.values());
+  }
+
+  private groupByColumns(rows: Record<string, any>[]): Array<{ columns: string[]; rows: Record<string, any>[] }> {
+    const groups: Array<{ columns: string[]; rows: Record<string, any>[] }> = [];
+
+    for (const row of rows) {
+      const columns = Object.keys(row).filter(column => row[column] !== undefined);
+      const last = groups[groups.length - 1];
+      if (last && last.columns.join(',') === columns.join(',')) {
+        last.rows.push(row);
+      } else {
+        groups.push({ columns, rows: [row] });
+      }
+    }
+
+    return groups;
+  }
+
+  private renderInsert(table: string, columns: string[], rows: Record<string, any>[]): string {
+    const values = rows.map(row => `  (${columns.map(column => this.renderValue(row[column])).join(', ')})`);
+    return `INSERT INTO ${quoteTable(table)} (${columns.map(quoteIdentifier).join(', ')}) VALUES\n${values.join(',\n')};`;
+  }
+
+  private renderValue(value: any): string {
+    if (value === null || value === undefined) return 'NULL';
+    if (value instanceof SqlExpression) return value.sql;
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+    if (value instanceof Date) return this.renderString(value.toISOString());
+
+    if (Array.isArray(value) && value.every(item => item === null || typeof item !== 'object')) {
+      // Arrays of scalars are rendered as Postgres array literals (text[], int[] columns)
+      const items = value.map(item => item === null ? 'NULL' : `"${this.normalizeString(String(item)).replace(/["\\]/g, '\\$&')}"`);
+      return quoteLiteral(`{${items.join(',')}}`);
+    }
+
+    if (typeof value === 'object') {
+      return quoteLiteral(JSON.stringify(this.normalizeJson(value)));
+    }
+
+    return this.renderString(String(value));
+  }
+
+  private renderString(value: string): string {
+    if (this.isCaptureTimestamp(value)) {
+      return 'now()';
+    }
+    return quoteLiteral(this.normalizeString(value));
+  }
+
+  private normalizeJson(value: any): any {
+    if (Array.isArray(value)) return value.map(item => this.normalizeJson(item));
+    if (value instanceof Date) return value.toISOString();
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.normalizeJson(item)]));
+    }
+    return typeof value === 'string' ? this.normalizeString(value) : value;
+  }
+
+  /**
+   * Replace every UUID with one derived from the seed, in order of first appearance
+   */
+  private normalizeString(value: string): string {
+    return value.replace(UUID_PATTERN, uuid => {
+      const key = uuid.toLowerCase();
+      if (key === NIL_UUID) return uuid;
+      if (!this.uuidMap.has(key)) {
+        this.uuidMap.set(key, deterministicUuid(`${this.options.seed}:sql`, this.uuidMap.size));
+      }
+      return this.uuidMap.get(key)!;
+    });
+  }
+
+  private isCaptureTimestamp(value: string): boolean {
+    const window = this.options.capturedBetween;
+    const pinned = this.options.pinnedClock;
+    if ((!window && pinned === undefined) || !ISO_TIMESTAMP_PATTERN.test(value)) return false;
+
+    const time = Date.parse(value);
+    if (time === pinned) return true;
+    return !!window && time >= window[0] - CLOCK_TOLERANCE_MS && time <= window[1] + CLOCK_TOLERANCE_MS;
+  }
+}
+
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function quoteTable(table: string): string {
+  return table.split('.').map(quoteIdentifier).join('.');
+}
@@ -0,0 +1,91 @@
+/**
+ * SQL Seed Generator
+ * Runs seeders against a SqlCaptureClient and renders the result as a SQL file
+ */
+
+import { faker } from '@faker-js/faker';
+import { SeedConfig, SeedContext } from '../../core/types/types';
+import { SeedDeterminism } from '../../core/utils/seed-determinism';
+import { CapturedHookStatement, CapturedTable, SqlCaptureClient, SqlCaptureOptions } from './sql-capture-client';
+import { SqlDumpRenderer, SqlRenderOptions } from './sql-dump-renderer';
+
+export type SqlGenerationOptions = Omit<SqlRenderOptions, 'seed' | 'capturedBetween' | 'pinnedClock' | 'skippedUploads' | 'hookStatements'>;
+
+export interface CapturedSeedRun {
+  tables: CapturedTable[];
+  capturedBetween: [number, number]; // Wall-clock window of the run
+  pinnedClock: number;
+  skippedUploads: Array<{ bucket: string; path: string }>;
+  hookStatements: CapturedHookStatement[];
+}
+
+export interface CaptureRunOptions {
+  source?: SqlCaptureOptions['source']; // Existing database to read from (dry runs)
+  onWrite?: SqlCaptureOptions['onWrite'];
+  pinned?: boolean; // Pin ids and the clock to the seed (default: true)
+}
+
+/**
+ * Run the seeders once without writing to a database, with the clock and ids
+ * pinned to the seed, and return every row they would have inserted
+ */
+export async function captureSeedRun(
+  config: SeedConfig,
+  runSeeders: (context: SeedContext) => Promise<void>,
+  options: CaptureRunOptions = {}
+): Promise<CapturedSeedRun> {
+  const determinism = new SeedDeterminism(config.seed, { pinned: options.pinned ?? true });
+  const capture = new SqlCaptureClient({
+    seed: config.seed,
+    supabaseUrl: config.supabaseUrl,
+    defaultPassword: config.testUserPassword,
+    determinism: determinism.fork('auth'),
+    source: options.source,
+    onWrite: options.onWrite
+  });
+  const context: SeedContext = {
+    client: capture as any,
+    config,
+    faker,
+    cache: new Map(),
+    stats: {
+      usersCreated: 0,
+      setupsCreated: 0,
+      imagesUploaded: 0,
+      startTime: determinism.date(),
+    },
+    determinism
+  };
+
+  const startedAt = Date.now();
+  await determinism.withFakerClock(faker, () => runSeeders(context));
+
+  return {
+    tables: capture.getCapturedTables(),
+    capturedBetween: [startedAt, Date.now()],
+    pinnedClock: determinism.now(),
+    skippedUploads: capture.skippedUploads,
+    hookStatements: capture.hookStatements
+  };
+}
+
+export async function generateSeedSql(
+  config: SeedConfig,
+  runSeeders: (context: SeedContext) => Promise<void>,
+  options: SqlGenerationOptions = {}
+): Promise<string> {
+  const run = await captureSeedRun(config, runSeeders);
+  return renderSeedRun(config, run, options);
+}
+
+export function renderSeedRun(config: SeedConfig, run: CapturedSeedRun, options: SqlGenerationOptions = {}): string {
+  const renderer = new SqlDumpRenderer({
+    ...options,
+    seed: config.seed,
+    capturedBetween: run.capturedBetween,
+    pinnedClock: run.pinnedClock,
+    skippedUploads: run.skippedUploads,
+    hookStatements: run.hookStatements
+  });
+  return renderer.render(run.tables);
+}
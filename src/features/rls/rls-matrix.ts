@@ -0,0 +1,408 @@
+/**
+ * RLS Visibility Matrix
+ * What each kind of user can actually do to seeded rows. For every table the
+ * recorded seed runs wrote to, one seeded row is probed as an anonymous
+ * visitor, its owner, a member of its tenant and a user of another tenant:
+ * can they select, insert, update and delete it?
+ *
+ * Probes run as the persona's database role with its JWT claims, inside a
+ * transaction that is always rolled back, so nothing is changed. Tenant-scoped
+ * tables that anon or the outsider can reach are reported as cross-tenant
+ * leaks, and the observed matrix can be written out as pgTAP tests that fail
+ * once a policy change alters it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDatabaseBackend, DatabaseBackend, DatabaseQuery } from '../../core/database/database-backend';
+import { Logger } from '../../core/utils/logger';
+import { SeededInventory } from '../manifest/seeded-inventory';
+import { MultiTenantManager } from '../../schema/multi-tenant-manager';
+import { COMMON_TENANT_COLUMNS } from '../../schema/tenant-types';
+import { quoteLiteral } from '../output/sql-capture-client';
+import { DEFAULT_OWNER_COLUMNS } from './user-impersonator';
+
+export const RLS_PERSONAS = ['anon', 'owner', 'member', 'outsider'] as const;
+export const RLS_OPERATIONS = ['select', 'insert', 'update', 'delete'] as const;
+
+export type RlsPersona = typeof RLS_PERSONAS[number];
+export type RlsOperation = typeof RLS_OPERATIONS[number];
+
+export interface RlsProbe {
+  persona: RlsPersona;
+  operation: RlsOperation;
+  allowed: boolean | null; // null when the statement failed for a reason other than RLS
+  detail?: string;
+}
+
+export interface RlsTableMatrix {
+  table: string;
+  key: Record<string, any>; // Primary key of the probed row
+  tenantColumn?: string;
+  tenantId?: string;
+  users: Partial<Record<RlsPersona, string>>; // Seeded user each persona acts as
+  statements: Record<RlsOperation, string>;
+  probes: RlsProbe[];
+}
+
+export interface RlsLeak {
+  table: string;
+  persona: RlsPersona;
+  operations: RlsOperation[];
+  tenantColumn: string;
+  tenantId: string;
+}
+
+export interface RlsMatrixReport {
+  tables: RlsTableMatrix[];
+  skipped: Array<{ table: string; reason: string }>;
+  leaks: RlsLeak[];
+}
+
+export interface RlsMatrixOptions {
+  tables?: string[]; // Only probe these tables
+  ownerColumns?: string[]; // Columns naming a row's owner (default: the impersonation defaults)
+}
+
+interface TableColumns {
+  primaryKey: string[];
+  insertable: string[];
+}
+
+interface PersonaChoice {
+  row: Record<string, any>;
+  tenantId?: string;
+  users: Partial<Record<RlsPersona, string>>;
+}
+
+/**
+ * Runs the statement it is given and reports whether RLS let it through. The
+ * statement is always undone. Policies are checked before constraints, so a
+ * constraint error means the policy passed.
+ */
+const PROBE_FUNCTION = `CREATE OR REPLACE FUNCTION pg_temp.supa_seed_rls_probe(statement text) RETURNS text
+LANGUAGE plpgsql AS $fn$
+DECLARE
+  affected bigint := 0;
+BEGIN
+  BEGIN
+    EXECUTE statement;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    RAISE EXCEPTION USING ERRCODE = 'SSRB0';
+  EXCEPTION
+    WHEN SQLSTATE 'SSRB0' THEN
+      RETURN CASE WHEN affected > 0 THEN 'allowed' ELSE 'denied' END;
+    WHEN insufficient_privilege THEN
+      RETURN 'denied';
+    WHEN integrity_constraint_violation THEN
+      RETURN 'allowed';
+    WHEN OTHERS THEN
+      RETURN 'error: ' || SQLERRM;
+  END;
+END
+$fn$`;
+
+const TABLE_COLUMNS_QUERY = `
+  SELECT a.attname AS name,
+         coalesce(a.attnum = ANY (i.indkey), false) AS primary_key,
+         a.attgenerated = '' AS insertable
+  FROM pg_attribute a
+  LEFT JOIN pg_index i ON i.indrelid = a.attrelid AND i.indisprimary
+  WHERE a.attrelid = $1::regclass
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+  ORDER BY a.attnum
+`;
+
+export class RlsMatrixBuilder {
+  private ownerColumns: string[];
+
+  constructor(private client: any, private options: RlsMatrixOptions = {}) {
+    this.ownerColumns = options.ownerColumns || DEFAULT_OWNER_COLUMNS;
+  }
+
+  /**
+   * Probe one seeded row of every recorded table as each persona
+   */
+  async build(seeded: SeededInventory): Promise<RlsMatrixReport> {
+    const backend = getDatabaseBackend(this.client);
+    if (!backend.rolledBack) {
+      throw new Error('The RLS matrix needs a direct database connection: set databaseUrl or SUPABASE_DB_URL');
+    }
+
+    const users = seeded.authUserIds;
+    const tenantColumns = await this.discoverTenantColumns();
+    const tables = seeded.tableNames().filter(table => !this.options.tables || this.options.tables.includes(table));
+    const tenantColumnOf = (table: string) => tenantColumns
+      ? tenantColumns.get(table)
+      : COMMON_TENANT_COLUMNS.find(column => seeded.getRows(table).some(row => row[column] != null));
+    const members = this.collectMemberships(seeded, tenantColumnOf, new Set(users));
+
+    const report: RlsMatrixReport = { tables: [], skipped: [], leaks: [] };
+    for (const table of tables) {
+      const rows = seeded.getRows(table);
+      if (rows.length === 0) {
+        report.skipped.push({ table, reason: 'no seeded rows left' });
+        continue;
+      }
+
+      const columns = await this.readColumns(backend, table);
+      if (columns.primaryKey.length === 0) {
+        report.skipped.push({ table, reason: 'no primary key' });
+        continue;
+      }
+
+      const tenantColumn = tenantColumnOf(table);
+      const choice = this.choosePersonas(rows, users, tenantColumn, members);
+      const matrix = await this.probeTable(backend, table, columns, choice, tenantColumn);
+      if (!matrix) {
+        report.skipped.push({ table, reason: 'the seeded rows could not be read back' });
+        continue;
+      }
+
+      report.tables.push(matrix);
+      report.leaks.push(...findLeaks(matrix));
+    }
+
+    return report;
+  }
+
+  private async probeTable(
+    backend: DatabaseBackend,
+    table: string,
+    columns: TableColumns,
+    choice: PersonaChoice,
+    tenantColumn: string | undefined
+  ): Promise<RlsTableMatrix | undefined> {
+    const key = Object.fromEntries(columns.primaryKey.map(column => [column, choice.row[column]]));
+    const target = quoteTable(table);
+    const keyFilter = `(${columns.primaryKey.map(quoteIdentifier).join(', ')}) = ` +
+      `(SELECT ${columns.primaryKey.map(quoteIdentifier).join(', ')} FROM json_populate_record(NULL::${target}, ${quoteLiteral(JSON.stringify(key))}))`;
+
+    // The full row, read as the service role, is inserted again by the insert probe
+    const [stored] = await backend.query<{ row: Record<string, any> }>(
+      `SELECT to_jsonb(t) AS row FROM ${target} t WHERE ${keyFilter}`
+    );
+    if (!stored) return undefined;
+
+    const insertColumns = columns.insertable.filter(column => column in stored.row).map(quoteIdentifier).join(', ');
+    const firstKey = quoteIdentifier(columns.primaryKey[0]);
+    const statements: Record<RlsOperation, string> = {
+      select: `SELECT 1 FROM ${target} WHERE ${keyFilter}`,
+      insert: `INSERT INTO ${target} (${insertColumns}) OVERRIDING SYSTEM VALUE ` +
+        `SELECT ${insertColumns} FROM json_populate_record(NULL::${target}, ${quoteLiteral(JSON.stringify(stored.row))})`,
+      update: `UPDATE ${target} SET ${firstKey} = ${firstKey} WHERE ${keyFilter}`,
+      delete: `DELETE FROM ${target} WHERE ${keyFilter}`
+    };
+
+    const probes: RlsProbe[] = [];
+    for (const persona of RLS_PERSONAS) {
+      if (persona !== 'anon' && !choice.users[persona]) continue;
+
+      for (const operation of RLS_OPERATIONS) {
+        const outcome = await backend.rolledBack!(query => runProbe(query, persona, choice.users[persona], statements[operation]));
+        probes.push(outcome.startsWith('error: ')
+          ? { persona, operation, allowed: null, detail: outcome.slice('error: '.length) }
+          : { persona, operation, allowed: outcome === 'allowed' });
+      }
+    }
+
+    Logger.debug(`Probed ${table} as ${Object.keys(choice.users).concat('anon').join(', ')}`);
+    return {
+      table,
+      key,
+      tenantColumn: choice.tenantId ? tenantColumn : undefined,
+      tenantId: choice.tenantId,
+      users: choice.users,
+      statements,
+      probes
+    };
+  }
+
+  /**
+   * Pick the row that yields the most personas: its owner, another member of
+   * its tenant and a seeded user outside that tenant
+   */
+  private choosePersonas(
+    rows: Record<string, any>[],
+    users: string[],
+    tenantColumn: string | undefined,
+    members: Map<string, Set<string>>
+  ): PersonaChoice {
+    let best: PersonaChoice | undefined;
+
+    for (const row of rows) {
+      const owner = this.ownerColumns.map(column => row[column]).find(value => users.includes(value));
+      const tenantId = tenantColumn && row[tenantColumn] != null ? String(row[tenantColumn]) : undefined;
+      const tenantMembers = tenantId ? members.get(tenantId) || new Set<string>() : new Set<string>();
+
+      const choice: PersonaChoice = { row, tenantId, users: {} };
+      if (owner) choice.users.owner = owner;
+      const member = users.find(user => user !== owner && tenantMembers.has(user));
+      if (member) choice.users.member = member;
+      const outsider = users.find(user => user !== owner && !tenantMembers.has(user));
+      if (outsider) choice.users.outsider = outsider;
+
+      if (!best || Object.keys(choice.users).length > Object.keys(best.users).length) best = choice;
+      if (Object.keys(best.users).length === 3) break;
+    }
+
+    return best!;
+  }
+
+  /**
+   * Tenants each seeded user belongs to: their personal account (a tenant id
+   * equal to their user id) and every tenant they own rows in, which covers
+   * membership tables like accounts_memberships
+   */
+  private collectMemberships(
+    seeded: SeededInventory,
+    tenantColumnOf: (table: string) => string | undefined,
+    users: Set<string>
+  ): Map<string, Set<string>> {
+    const members = new Map<string, Set<string>>();
+    const add = (tenantId: string, userId: string) => {
+      if (!members.has(tenantId)) members.set(tenantId, new Set());
+      members.get(tenantId)!.add(userId);
+    };
+
+    for (const table of seeded.tableNames()) {
+      const tenantColumn = tenantColumnOf(table);
+      if (!tenantColumn) continue;
+
+      for (const row of seeded.getRows(table)) {
+        if (row[tenantColumn] == null) continue;
+        const tenantId = String(row[tenantColumn]);
+        if (users.has(tenantId)) add(tenantId, tenantId);
+        for (const column of this.ownerColumns) {
+          if (column !== tenantColumn && users.has(row[column])) add(tenantId, row[column]);
+        }
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Tenant column of each tenant-scoped table according to MultiTenantManager,
+   * or undefined when its discovery cannot read the catalog
+   */
+  private async discoverTenantColumns(): Promise<Map<string, string> | undefined> {
+    const discovery = await new MultiTenantManager(this.client).discoverTenantScopes();
+    if (!discovery.success) {
+      Logger.debug('Tenant discovery failed, taking tenant columns from the seeded rows');
+      return undefined;
+    }
+    return new Map(discovery.tenantScopedTables.map(scope => [scope.tableName, scope.tenantColumn] as [string, string]));
+  }
+
+  private async readColumns(backend: DatabaseBackend, table: string): Promise<TableColumns> {
+    const rows = await backend.query<{ name: string; primary_key: boolean; insertable: boolean }>(
+      TABLE_COLUMNS_QUERY,
+      [quoteTable(table)]
+    );
+    return {
+      primaryKey: rows.filter(row => row.primary_key).map(row => row.name),
+      insertable: rows.filter(row => row.insertable).map(row => row.name)
+    };
+  }
+}
+
+/**
+ * Allowed probes of anon and the outsider on a row that belongs to a tenant
+ */
+function findLeaks(matrix: RlsTableMatrix): RlsLeak[] {
+  if (!matrix.tenantColumn || !matrix.tenantId) return [];
+
+  const leaks: RlsLeak[] = [];
+  for (const persona of ['anon', 'outsider'] as RlsPersona[]) {
+    const operations = matrix.probes
+      .filter(probe => probe.persona === persona && probe.allowed === true)
+      .map(probe => probe.operation);
+    if (operations.length > 0) {
+      leaks.push({ table: matrix.table, persona, operations, tenantColumn: matrix.tenantColumn, tenantId: matrix.tenantId });
+    }
+  }
+  return leaks;
+}
+
+async function runProbe(query: DatabaseQuery, persona: RlsPersona, userId: string | undefined, statement: string): Promise<string> {
+  await query(PROBE_FUNCTION);
+  await query(
+    "SELECT set_config('role', $1, true), set_config('request.jwt.claims', $2, true)",
+    [databaseRole(persona), JSON.stringify(jwtClaims(persona, userId))]
+  );
+  const [{ outcome }] = await query<{ outcome: string }>('SELECT pg_temp.supa_seed_rls_probe($1) AS outcome', [statement]);
+  return outcome;
+}
+
+function databaseRole(persona: RlsPersona): string {
+  return persona === 'anon' ? 'anon' : 'authenticated';
+}
+
+function jwtClaims(persona: RlsPersona, userId: string | undefined): Record<string, any> {
+  return persona === 'anon'
+    ? { role: 'anon' }
+    : { sub: userId, role: 'authenticated', aud: 'authenticated' };
+}
+
+/**
+ * pgTAP test file pinning the observed matrix of one table. Inconclusive
+ * probes are left out.
+ */
+export function renderRlsPgTap(matrix: RlsTableMatrix): string {
+  const pinned = matrix.probes.filter(probe => probe.allowed !== null);
+  const lines = [
+    `-- RLS matrix for ${matrix.table}, generated by \`supa-seed rls matrix\` from seeded row ${JSON.stringify(matrix.key)}.`,
+    '-- Regenerate it with --pgtap after intended policy changes.',
+    'BEGIN;',
+    `SELECT plan(${pinned.length});`,
+    '',
+    `${PROBE_FUNCTION};`
+  ];
+
+  for (const persona of RLS_PERSONAS) {
+    const probes = pinned.filter(probe => probe.persona === persona);
+    if (probes.length === 0) continue;
+
+    const who = persona === 'anon' ? 'anon' : `${persona} ${matrix.users[persona]}`;
+    lines.push(
+      '',
+      `-- ${who}`,
+      `SELECT set_config('role', ${quoteLiteral(databaseRole(persona))}, true), ` +
+        `set_config('request.jwt.claims', ${quoteLiteral(JSON.stringify(jwtClaims(persona, matrix.users[persona])))}, true);`
+    );
+    for (const probe of probes) {
+      const expected = probe.allowed ? 'allowed' : 'denied';
+      const description = `${persona} ${probe.allowed ? 'can' : 'cannot'} ${probe.operation} ${matrix.table}`;
+      lines.push(
+        `SELECT is(pg_temp.supa_seed_rls_probe($probe$${matrix.statements[probe.operation]}$probe$), ` +
+          `${quoteLiteral(expected)}, ${quoteLiteral(description)});`
+      );
+    }
+  }
+
+  lines.push('', 'RESET ROLE;', 'SELECT * FROM finish();', 'ROLLBACK;', '');
+  return lines.join('\n');
+}
+
+/**
+ * Write one pgTAP file per probed table (e.g. into supabase/tests) and return
+ * their paths
+ */
+export function writeRlsPgTap(report: RlsMatrixReport, directory: string): string[] {
+  fs.mkdirSync(directory, { recursive: true });
+  return report.tables.map(matrix => {
+    const file = path.join(directory, `rls_matrix_${matrix.table.replace(/\W+/g, '_')}.test.sql`);
+    fs.writeFileSync(file, renderRlsPgTap(matrix));
+    return file;
+  });
+}
+
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function quoteTable(table: string): string {
+  return table.split('.').map(quoteIdentifier).join('.');
+}
@@ -0,0 +1,248 @@
+/**
+ * User Impersonator
+ * Clients that act as a seeded user instead of the service role, so inserts of
+ * the rows a user owns go through that table's RLS policies. A client gets its
+ * token by signing in through the auth endpoint with the seeded password, or
+ * from a JWT signed with the project's JWT secret.
+ *
+ * Inserts the policies refuse are recorded as violations and reported after
+ * the run, instead of being hidden by the service role.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { CachedUser, ImpersonationConfig, SeedContext } from '../../core/types/types';
+import { LOCAL_JWT_SECRET, signJWT } from '../../core/utils/crypto-utils';
+import { mintUserToken } from '../../auth/user-tokens';
+import { Logger } from '../../core/utils/logger';
+import { getDatabaseBackend } from '../../core/database/database-backend';
+
+export const DEFAULT_OWNER_COLUMNS = ['user_id', 'owner_id', 'account_id', 'created_by', 'author_id', 'profile_id'];
+const DEFAULT_PASSWORD = 'password123'; // What UserSeeder gives users without testUserPassword
+const TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+export interface RlsViolation {
+  table: string;
+  userId: string;
+  email?: string;
+  policies: string[]; // INSERT and ALL policies on the table
+  message: string;
+  rows: number;
+}
+
+export interface ImpersonatorOptions {
+  wrap?: (client: any) => any; // Applied to every per-user client, e.g. to record its inserts
+  createClient?: (url: string, key: string, options: any) => any;
+}
+
+export interface ImpersonatedInsert {
+  stored: Record<string, any>[];
+  failed: Array<{ rows: Record<string, any>[]; error: string }>; // Owner groups that were not stored
+}
+
+export class UserImpersonator {
+  readonly violations: RlsViolation[] = [];
+  private clients = new Map<string, Promise<any>>();
+  private policies = new Map<string, Promise<string[]>>();
+  private settings: ImpersonationConfig;
+
+  constructor(private context: SeedContext, private options: ImpersonatorOptions = {}) {
+    this.settings = context.config.impersonation || {};
+  }
+
+  /**
+   * Whether writes to this table are made as their owner
+   */
+  covers(table: string): boolean {
+    return !this.settings.tables || this.settings.tables.includes(table);
+  }
+
+  /**
+   * The seeded user a row belongs to, going by its owner columns
+   */
+  ownerOf(row: Record<string, any>): string | undefined {
+    const users = this.knownUsers();
+    const columns = this.settings.ownerColumns || DEFAULT_OWNER_COLUMNS;
+    return columns.map(column => row[column]).find(value => typeof value === 'string' && users.has(value));
+  }
+
+  /**
+   * Client acting as the user for writes to `table`, or undefined when the
+   * table is not covered
+   */
+  async clientFor(table: string, userId: string): Promise<any | undefined> {
+    if (!this.covers(table)) return undefined;
+
+    let client = this.clients.get(userId);
+    if (!client) {
+      client = this.createUserClient(userId);
+      this.clients.set(userId, client);
+    }
+    return client;
+  }
+
+  /**
+   * Insert rows, those with an owner as their owner and the rest through the
+   * fallback client, one owner group at a time. Returns the rows that were
+   * stored and the groups that failed for reasons other than RLS; groups
+   * stored before a failure stay stored.
+   */
+  async insert(table: string, rows: Record<string, any>[], fallback: (rows: Record<string, any>[]) => Promise<Record<string, any>[]>): Promise<ImpersonatedInsert> {
+    const byOwner = new Map<string | undefined, Record<string, any>[]>();
+    for (const row of rows) {
+      const owner = this.covers(table) ? this.ownerOf(row) : undefined;
+      byOwner.set(owner, [...(byOwner.get(owner) || []), row]);
+    }
+
+    const result: ImpersonatedInsert = { stored: [], failed: [] };
+    for (const [owner, ownedRows] of byOwner) {
+      try {
+        if (!owner) {
+          result.stored.push(...await fallback(ownedRows));
+          continue;
+        }
+
+        const client = await this.clientFor(table, owner);
+        const { data, error } = await client.from(table).insert(ownedRows).select();
+        if (error) {
+          if (!isPolicyViolation(error)) throw new Error(error.message);
+          await this.recordViolation(table, owner, error, ownedRows.length);
+          continue;
+        }
+        result.stored.push(...((data as Record<string, any>[]) || ownedRows));
+      } catch (error: any) {
+        result.failed.push({ rows: ownedRows, error: error.message });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Record an insert the table's policies refused for this user
+   */
+  async recordViolation(table: string, userId: string, error: { message: string }, rows = 1): Promise<RlsViolation> {
+    const violation: RlsViolation = {
+      table,
+      userId,
+      email: this.knownUsers().get(userId),
+      policies: await this.insertPolicies(table),
+      message: error.message,
+      rows
+    };
+    this.violations.push(violation);
+    Logger.warn(`RLS refused ${rows} ${table} row(s) for ${violation.email || userId}: ${error.message}`);
+    return violation;
+  }
+
+  /**
+   * One line per violation, for the end of the run
+   */
+  summarize(): string[] {
+    return this.violations.map(violation =>
+      `${violation.table} as ${violation.email || violation.userId}: ${violation.rows} row(s) refused` +
+      (violation.policies.length ? ` (policies: ${violation.policies.join(', ')})` : '')
+    );
+  }
+
+  private async createUserClient(userId: string): Promise<any> {
+    const { supabaseUrl } = this.context.config;
+    const token = this.settings.auth === 'sign-in'
+      ? await this.signIn(userId)
+      : this.mintToken(userId);
+
+    const factory = this.options.createClient || createClient;
+    const client = factory(supabaseUrl, this.apiKey(), {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    });
+
+    Logger.debug(`Writing as ${this.knownUsers().get(userId) || userId} (${this.settings.auth || 'jwt'})`);
+    return this.options.wrap ? this.options.wrap(client) : client;
+  }
+
+  private async signIn(userId: string): Promise<string> {
+    const email = this.knownUsers().get(userId) || await this.lookupEmail(userId);
+    const factory = this.options.createClient || createClient;
+    const auth = factory(this.context.config.supabaseUrl, this.apiKey(), {
+      auth: { persistSession: false, autoRefreshToken: false }
+    }).auth;
+
+    const { data, error } = await auth.signInWithPassword({ email, password: this.password() });
+    if (error || !data?.session) {
+      throw new Error(`Could not sign in as ${email}: ${error?.message || 'no session returned'}`);
+    }
+    return data.session.access_token;
+  }
+
+  private mintToken(userId: string): string {
+    return mintUserToken(
+      { id: userId, email: this.knownUsers().get(userId) },
+      { jwtSecret: this.jwtSecret(), supabaseUrl: this.context.config.supabaseUrl, expiresIn: TOKEN_LIFETIME_SECONDS }
+    ).accessToken;
+  }
+
+  /**
+   * The anon key per-user clients send as `apikey`; in JWT mode one is minted
+   * if none is configured
+   */
+  private apiKey(): string {
+    const key = this.settings.anonKey || process.env.SUPABASE_ANON_KEY;
+    if (key) return key;
+
+    if (this.settings.auth === 'sign-in') {
+      throw new Error('impersonation with auth "sign-in" needs impersonation.anonKey or SUPABASE_ANON_KEY');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return signJWT({ iss: 'supabase-demo', role: 'anon', iat: now, exp: now + TOKEN_LIFETIME_SECONDS }, this.jwtSecret());
+  }
+
+  private jwtSecret(): string {
+    return this.settings.jwtSecret || process.env.SUPABASE_JWT_SECRET || LOCAL_JWT_SECRET;
+  }
+
+  private password(): string {
+    return this.settings.password || this.context.config.testUserPassword || DEFAULT_PASSWORD;
+  }
+
+  /**
+   * Users this run or earlier runs seeded, with their emails where known
+   */
+  private knownUsers(): Map<string, string | undefined> {
+    const users = new Map<string, string | undefined>();
+    for (const id of this.context.seeded?.authUserIds || []) users.set(id, undefined);
+    for (const id of this.context.manifest?.getManifest().authUserIds || []) users.set(id, undefined);
+    for (const user of (this.context.cache.get('users') as CachedUser[] | undefined) || []) users.set(user.id, user.email);
+    return users;
+  }
+
+  private async lookupEmail(userId: string): Promise<string> {
+    const { data, error } = await this.context.client.auth.admin.getUserById(userId);
+    if (error || !data?.user?.email) {
+      throw new Error(`Could not find the email of user ${userId}: ${error?.message || 'user has no email'}`);
+    }
+    return data.user.email;
+  }
+
+  private insertPolicies(table: string): Promise<string[]> {
+    let policies = this.policies.get(table);
+    if (!policies) {
+      policies = getDatabaseBackend(this.context.client)
+        .query<{ policyname: string }>(
+          "SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = $1 AND cmd IN ('INSERT', 'ALL') ORDER BY policyname",
+          [table]
+        )
+        .then(rows => rows.map(row => row.policyname))
+        .catch(() => []);
+      this.policies.set(table, policies);
+    }
+    return policies;
+  }
+}
+
+/**
+ * PostgREST reports a refused row as 42501 "new row violates row-level security policy"
+ */
+export function isPolicyViolation(error: { code?: string; message?: string } | null | undefined): boolean {
+  return !!error && (error.code === '42501' || /row-level security/i.test(error.message || ''));
+}
@@ -0,0 +1,192 @@
+/**
+ * Production Guard
+ * Decides whether a command may touch the configured project. Local Supabase
+ * URLs always pass, as long as the direct database URL is local too. Any other project must be on the allowlist of the
+ * configured environment, the command needs --i-know-this-is-production and the
+ * project ref typed back, and destructive commands are refused while the
+ * tables supa-seed wrote to hold rows it did not create. Every decision is
+ * appended to the audit log.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SeedConfig } from '../../core/types/types';
+import { isLocalSupabaseEnvironment } from '../../core/utils/enhanced-supabase-client';
+import { SeedRunManifest } from '../manifest/manifest-types';
+import { SeededInventory } from '../manifest/seeded-inventory';
+
+export interface GuardRequest {
+  command: string; // As typed, e.g. 'seed --cleanup'; recorded in the audit log
+  destructive: boolean; // Deletes data (cleanup, --cleanup, rollback)
+  acknowledgedProduction?: boolean; // --i-know-this-is-production
+  confirmation?: string; // Project ref typed back (--confirm-project)
+  prompt?: (question: string) => Promise<string>; // Asks for the ref when no confirmation was given
+  manifests?: SeedRunManifest[]; // Recorded runs for this project
+}
+
+export interface GuardDecision {
+  allowed: boolean;
+  target: string;
+  projectRef: string;
+  local: boolean;
+  reasons: string[]; // Why the command was refused; empty when allowed
+}
+
+export interface AuditEntry extends GuardDecision {
+  at: string;
+  command: string;
+  environment: SeedConfig['environment'];
+  user: string;
+}
+
+const DEFAULT_AUDIT_LOG = path.join('.supa-seed', 'audit.log');
+const AUTH_PAGE_SIZE = 1000;
+
+export class ProductionGuard {
+  private auditLog: string;
+
+  constructor(private config: SeedConfig, private client: any) {
+    this.auditLog = config.safety?.auditLog || DEFAULT_AUDIT_LOG;
+  }
+
+  async check(request: GuardRequest): Promise<GuardDecision> {
+    const target = this.config.supabaseUrl;
+    const ref = projectRef(target);
+    const databaseUrl = this.config.databaseUrl;
+    const local = isLocalSupabaseEnvironment(target) && (!databaseUrl || isLocalSupabaseEnvironment(databaseUrl));
+    const reasons = local ? [] : isLocalSupabaseEnvironment(target)
+      ? [`databaseUrl points at ${databaseHost(databaseUrl!)}, not the local Supabase at ${target}`]
+      : await this.checkRemote(request, ref);
+
+    const decision: GuardDecision = { allowed: reasons.length === 0, target, projectRef: ref, local, reasons };
+    this.audit(request, decision);
+    return decision;
+  }
+
+  private async checkRemote(request: GuardRequest, ref: string): Promise<string[]> {
+    const environment = this.config.environment;
+
+    if (environment === 'local') {
+      return [`environment is 'local' but ${this.config.supabaseUrl} is not a local Supabase; set environment to 'staging' or 'production'`];
+    }
+
+    const allowed = this.config.safety?.allowedProjects?.[environment] || [];
+    if (!allowed.some(entry => matchesProject(entry, this.config.supabaseUrl))) {
+      return [`${ref} is not in safety.allowedProjects.${environment}`];
+    }
+
+    if (!request.acknowledgedProduction) {
+      return [`${request.command} against ${ref} (${environment}) needs --i-know-this-is-production`];
+    }
+
+    const typed = request.confirmation ?? await request.prompt?.(`Type the project ref (${ref}) to run ${request.command} against it: `);
+    if (typed?.trim() !== ref) {
+      return [typed === undefined
+        ? `confirm the project with --confirm-project ${ref}`
+        : `typed confirmation '${typed.trim()}' does not match ${ref}`];
+    }
+
+    if (request.destructive) {
+      return this.findUnrecordedRows(request.manifests || []);
+    }
+
+    return [];
+  }
+
+  /**
+   * Tables supa-seed wrote to (and auth.users) holding more rows than the
+   * recorded runs still account for
+   */
+  private async findUnrecordedRows(manifests: SeedRunManifest[]): Promise<string[]> {
+    const live = manifests.filter(manifest => manifest.status !== 'rolled_back');
+    const inventory = await SeededInventory.load(this.client, live);
+    const tables = Array.from(new Set(live.flatMap(manifest => manifest.tables.map(entry => entry.table))));
+    const reasons: string[] = [];
+
+    for (const table of tables) {
+      const { count, error } = await this.client.from(table).select('*', { count: 'exact', head: true });
+      if (error || count === null || count === undefined) {
+        reasons.push(`${table}: could not count rows (${error?.message || 'no count returned'})`);
+      } else if (count > inventory.count(table)) {
+        reasons.push(`${table}: ${count - inventory.count(table)} of ${count} rows were not created by supa-seed`);
+      }
+    }
+
+    try {
+      const users = await this.countAuthUsers();
+      if (users > inventory.authUserIds.length) {
+        reasons.push(`auth.users: ${users - inventory.authUserIds.length} of ${users} users were not created by supa-seed`);
+      }
+    } catch (error: any) {
+      reasons.push(`auth.users: could not count users (${error.message})`);
+    }
+
+    return reasons;
+  }
+
+  private async countAuthUsers(): Promise<number> {
+    let total = 0;
+    for (let page = 1; ; page++) {
+      const { data, error } = await this.client.auth.admin.listUsers({ page, perPage: AUTH_PAGE_SIZE });
+      if (error) throw error;
+      const users = data?.users || [];
+      total += users.length;
+      if (users.length < AUTH_PAGE_SIZE) return total;
+    }
+  }
+
+  private audit(request: GuardRequest, decision: GuardDecision): void {
+    const entry: AuditEntry = {
+      at: new Date().toISOString(),
+      command: request.command,
+      environment: this.config.environment,
+      user: currentUser(),
+      ...decision
+    };
+
+    fs.mkdirSync(path.dirname(path.resolve(this.auditLog)), { recursive: true });
+    fs.appendFileSync(this.auditLog, JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * 'abcdefghijklmnop' for https://abcdefghijklmnop.supabase.co; the host for
+ * self-hosted projects
+ */
+export function projectRef(url: string): string {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    const match = /^([a-z0-9]+)\.supabase\.(co|in)$/.exec(host);
+    return match ? match[1] : host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * An allowlist entry is a project ref or a project URL
+ */
+export function matchesProject(entry: string, url: string): boolean {
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/\/+$/, '');
+  return normalize(entry) === normalize(url) || normalize(entry) === projectRef(url);
+}
+
+/**
+ * The host of a Postgres URL, without the credentials it carries
+ */
+function databaseHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'an unparseable URL';
+  }
+}
+
+function currentUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
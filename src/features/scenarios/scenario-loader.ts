@@ -0,0 +1,193 @@
+/**
+ * Scenario Loader
+ * Reads a YAML or JSON scenario file and checks it before anything is seeded:
+ * aliases are unique, teams name declared users, every `@alias` reference
+ * points at something declared earlier and generator objects parse.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ColumnGeneratorOptions } from '../../core/types/types';
+import { parseColumnGenerator } from '../generation/column-generators';
+import {
+  Scenario,
+  ScenarioFile,
+  ScenarioRecord,
+  ScenarioReference,
+  ScenarioValue
+} from './scenario-types';
+
+const ALIAS_PATTERN = /^[A-Za-z_][\w-]*$/;
+const REFERENCE_PATTERN = /^@([A-Za-z_][\w-]*)(?:\.([A-Za-z_]\w*))?$/;
+const RECORD_KEYS = ['alias', 'count'];
+
+export function loadScenario(filePath: string): Scenario {
+  let raw: unknown;
+  try {
+    raw = parseYaml(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Could not read scenario ${filePath}: ${error.message}`);
+  }
+  return parseScenario(raw, path.basename(filePath, path.extname(filePath)));
+}
+
+/**
+ * Validate a parsed scenario file; throws listing every problem found
+ */
+export function parseScenario(raw: unknown, defaultName = 'scenario'): Scenario {
+  if (!isObject(raw)) {
+    throw new Error('Invalid scenario: expected an object with users, teams and records');
+  }
+
+  const file = raw as ScenarioFile;
+  const errors: string[] = [];
+  const declared = new Set<string>();
+
+  const declare = (alias: string, where: string) => {
+    if (!ALIAS_PATTERN.test(alias)) {
+      errors.push(`${where}: alias '${alias}' may only contain letters, digits, '_' and '-'`);
+    } else if (declared.has(alias)) {
+      errors.push(`${where}: alias '${alias}' is already declared`);
+    }
+    declared.add(alias);
+  };
+
+  const users = entriesOf(file.users, 'users', errors).map(([alias, spec]) => {
+    declare(alias, `users.${alias}`);
+    for (const field of ['email', 'name', 'username', 'password'] as const) {
+      if (spec[field] !== undefined && typeof spec[field] !== 'string') {
+        errors.push(`users.${alias}.${field} must be a string`);
+      }
+    }
+    if (spec.metadata !== undefined && !isObject(spec.metadata)) {
+      errors.push(`users.${alias}.metadata must be an object`);
+    }
+    return { alias, ...spec };
+  });
+  const userAliases = new Set(users.map(user => user.alias));
+
+  const teams = entriesOf(file.teams, 'teams', errors).map(([alias, spec]) => {
+    declare(alias, `teams.${alias}`);
+    if (!userAliases.has(spec.owner)) {
+      errors.push(`teams.${alias}.owner must name a declared user, got '${spec.owner}'`);
+    }
+    if (spec.members !== undefined && !isObject(spec.members)) {
+      errors.push(`teams.${alias}.members must map user aliases to roles`);
+    }
+    for (const [member, role] of Object.entries(spec.members || {})) {
+      if (!userAliases.has(member)) {
+        errors.push(`teams.${alias}.members: '${member}' is not a declared user`);
+      }
+      if (typeof role !== 'string') {
+        errors.push(`teams.${alias}.members.${member} must be a role name`);
+      }
+    }
+    for (const [column, value] of Object.entries(spec.data || {})) {
+      checkValue(value, `teams.${alias}.data.${column}`, declared, errors);
+    }
+    return { alias, ...spec };
+  });
+
+  const records: ScenarioRecord[] = [];
+  for (const [table, rows] of entriesOf(file.records, 'records', errors)) {
+    if (!Array.isArray(rows)) {
+      errors.push(`records.${table} must be a list of rows`);
+      continue;
+    }
+
+    rows.forEach((row, index) => {
+      const where = `records.${table}[${index}]`;
+      if (!isObject(row)) {
+        errors.push(`${where} must be an object`);
+        return;
+      }
+
+      const count = row.count ?? 1;
+      if (!Number.isInteger(count) || count < 1) {
+        errors.push(`${where}.count must be a positive integer`);
+      }
+
+      const values = Object.fromEntries(Object.entries(row).filter(([key]) => !RECORD_KEYS.includes(key)));
+      for (const [column, value] of Object.entries(values)) {
+        checkValue(value, `${where}.${column}`, declared, errors);
+      }
+
+      const alias = row.alias === undefined ? undefined : String(row.alias);
+      if (alias !== undefined) {
+        for (const name of recordAliases(alias, count)) {
+          declare(name, where);
+        }
+      }
+
+      records.push({ table, alias, count, values });
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid scenario:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return {
+    name: typeof file.name === 'string' ? file.name : defaultName,
+    password: file.password,
+    users,
+    teams,
+    records
+  };
+}
+
+/**
+ * `@alice` or `@acme.slug`; `@@text` is the literal `@text`
+ */
+export function parseReference(value: unknown): ScenarioReference | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(REFERENCE_PATTERN);
+  return match ? { alias: match[1], column: match[2] } : undefined;
+}
+
+/**
+ * Aliases given to the rows of a record: the alias itself, or one per row when counted
+ */
+export function recordAliases(alias: string, count: number): string[] {
+  return count === 1 ? [alias] : Array.from({ length: count }, (_, i) => `${alias}-${i + 1}`);
+}
+
+function checkValue(value: ScenarioValue, where: string, declared: Set<string>, errors: string[]): void {
+  if (typeof value === 'string' && value.startsWith('@') && !value.startsWith('@@')) {
+    const reference = parseReference(value);
+    if (!reference) {
+      errors.push(`${where}: '${value}' is not a valid reference (use '@@' for a literal '@')`);
+    } else if (!declared.has(reference.alias)) {
+      errors.push(`${where}: '${reference.alias}' is not declared before it is referenced`);
+    }
+    return;
+  }
+
+  if (isObject(value)) {
+    try {
+      parseColumnGenerator(value as ColumnGeneratorOptions);
+    } catch (error: any) {
+      errors.push(`${where}: ${error.message}`);
+    }
+  }
+}
+
+function entriesOf<T>(section: Record<string, T> | undefined, name: string, errors: string[]): Array<[string, T]> {
+  if (section === undefined || section === null) return [];
+  if (!isObject(section)) {
+    errors.push(`${name} must be an object keyed by ${name === 'records' ? 'table' : 'alias'}`);
+    return [];
+  }
+  return Object.entries(section).filter(([key, spec]) => {
+    if (name !== 'records' && !isObject(spec)) {
+      errors.push(`${name}.${key} must be an object`);
+      return false;
+    }
+    return true;
+  });
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
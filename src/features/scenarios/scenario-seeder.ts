@@ -0,0 +1,294 @@
+/**
+ * Scenario Seeder
+ * Creates the users, teams, memberships and records a scenario declares, in
+ * file order, resolving `@alias` references to what was created before. Faker
+ * fills whatever a declaration leaves out, and the alias -> id mapping is kept
+ * so it can be exported for end-to-end tests.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { SeedContext, SeedModule, CachedUser } from '../../core/types/types';
+import { Logger } from '../../core/utils/logger';
+import { SchemaAdapter } from '../../core/schema-adapter';
+import { getDatabaseBackend } from '../../core/database/database-backend';
+import { generateTOTPSecret } from '../../core/utils/crypto-utils';
+import { generateColumnValue, parseColumnGenerator } from '../generation/column-generators';
+import { loadScenario, parseReference, recordAliases } from './scenario-loader';
+import { Scenario, ScenarioAliases, ScenarioValue } from './scenario-types';
+
+interface TeamLayout {
+  table: string;
+  ownerColumn: string;
+  slugColumn?: string; // Set when the team table has one
+  fixed: Record<string, any>; // Columns every team row gets
+  memberships: { table: string; userColumn: string; teamColumn: string; roleColumn: string };
+}
+
+const MAKERKIT_TEAMS: TeamLayout = {
+  table: 'accounts',
+  ownerColumn: 'primary_owner_user_id',
+  fixed: { is_personal_account: false },
+  memberships: { table: 'accounts_memberships', userColumn: 'user_id', teamColumn: 'account_id', roleColumn: 'account_role' }
+};
+
+const GENERIC_TEAMS: TeamLayout = {
+  table: 'teams',
+  ownerColumn: 'owner_id',
+  fixed: {},
+  memberships: { table: 'team_members', userColumn: 'user_id', teamColumn: 'team_id', roleColumn: 'role' }
+};
+
+export class ScenarioSeeder extends SeedModule {
+  private schemaAdapter!: SchemaAdapter;
+  private rows = new Map<string, Record<string, any>>(); // Alias -> created row
+  private aliases!: ScenarioAliases;
+
+  constructor(context: SeedContext, private scenario?: Scenario) {
+    super(context);
+  }
+
+  async seed(): Promise<void> {
+    const scenario = this.scenario ?? loadScenario(this.context.config.scenario!);
+    console.log(`🎬 Seeding scenario '${scenario.name}'...`);
+
+    this.schemaAdapter = new SchemaAdapter(this.context.client, this.context.config);
+    this.schemaAdapter.useDeterminism(this.determinism);
+    await this.schemaAdapter.detectSchema();
+
+    this.aliases = { scenario: scenario.name, users: {}, teams: {}, records: {} };
+    this.context.cache.set('scenarioAliases', this.aliases);
+
+    const users: CachedUser[] = [];
+    for (const user of scenario.users) {
+      users.push(await this.createUser(scenario, user));
+    }
+    // Plugins enabled alongside the scenario build on its users
+    this.context.cache.set('users', users);
+    this.context.stats.usersCreated += users.length;
+
+    if (scenario.teams.length > 0) {
+      const layout = await this.resolveTeamLayout();
+      for (const team of scenario.teams) {
+        await this.createTeam(layout, team);
+      }
+    }
+
+    for (const record of scenario.records) {
+      await this.createRecords(record.table, record.alias, record.count, record.values);
+    }
+
+    console.log(`✅ Scenario '${scenario.name}': ${users.length} users, ${scenario.teams.length} teams, ` +
+      `${Object.keys(this.aliases.records).length} aliased records`);
+  }
+
+  private async createUser(scenario: Scenario, user: Scenario['users'][number]): Promise<CachedUser> {
+    const { faker, config } = this.context;
+    const email = user.email ?? `${user.alias}@${config.emailDomain || 'supaseed.test'}`;
+    const name = user.name ?? faker.person.fullName();
+    const username = user.username ?? user.alias;
+    const password = user.password ?? scenario.password ?? config.testUserPassword ?? 'password123';
+
+    const result = await this.schemaAdapter.createUserForSchema({
+      email,
+      name,
+      username,
+      password,
+      metadata: user.metadata
+    });
+    if (!result.success) {
+      throw new Error(`Scenario user '${user.alias}' (${email}) could not be created: ${result.error}`);
+    }
+
+    const mfaSecret = user.mfa ? await this.enrolTotpFactor(result.id, user.alias, email) : undefined;
+
+    this.context.fixtures?.annotateUser(result.id, { key: user.alias, totpSecret: mfaSecret });
+    this.rows.set(user.alias, { id: result.id, email, name, username });
+    this.aliases.users[user.alias] = { id: result.id, email, password, ...(mfaSecret && { mfaSecret }) };
+    Logger.debug(`Scenario user ${user.alias} -> ${result.id}`);
+
+    return { id: result.id, email, username, name };
+  }
+
+  /**
+   * Add a verified TOTP factor. The auth schema is not exposed through the API,
+   * so against a live project this needs a direct `databaseUrl` connection.
+   */
+  private async enrolTotpFactor(userId: string, alias: string, email: string): Promise<string> {
+    const secret = generateTOTPSecret(32, () => this.determinism.random());
+    const now = this.determinism.date().toISOString();
+    const factor = {
+      id: this.determinism.uuid(),
+      user_id: userId,
+      friendly_name: `${alias} authenticator`,
+      factor_type: 'totp',
+      status: 'verified',
+      secret,
+      created_at: now,
+      updated_at: now
+    };
+
+    try {
+      await getDatabaseBackend(this.context.client).bulkInsert('auth.mfa_factors', [factor]);
+    } catch (error: any) {
+      const hint = this.context.config.databaseUrl ? '' : ' (set databaseUrl or SUPABASE_DB_URL to write auth.mfa_factors)';
+      throw new Error(`MFA factor for scenario user '${alias}' (${email}) could not be created${hint}: ${error.message}`);
+    }
+    return secret;
+  }
+
+  private async resolveTeamLayout(): Promise<TeamLayout> {
+    const schemaInfo = await this.schemaAdapter.detectSchema();
+
+    if (schemaInfo.hasAccounts && schemaInfo.accountsTableStructure === 'makerkit') {
+      // MakerKit v1 named the join table `memberships`
+      const membershipTable = await this.schemaAdapter.tableExists(MAKERKIT_TEAMS.memberships.table)
+        ? MAKERKIT_TEAMS.memberships.table
+        : 'memberships';
+      return this.withSlugColumn({ ...MAKERKIT_TEAMS, memberships: { ...MAKERKIT_TEAMS.memberships, table: membershipTable } });
+    }
+    if (schemaInfo.hasTeams) {
+      return this.withSlugColumn(GENERIC_TEAMS);
+    }
+
+    throw new Error('Scenario declares teams, but neither MakerKit accounts nor a teams table was found');
+  }
+
+  private async withSlugColumn(layout: TeamLayout): Promise<TeamLayout> {
+    return await this.schemaAdapter.columnExists(layout.table, 'slug') ? { ...layout, slugColumn: 'slug' } : layout;
+  }
+
+  private async createTeam(layout: TeamLayout, team: Scenario['teams'][number]): Promise<void> {
+    const ownerId = this.rows.get(team.owner)!.id;
+    const name = team.name ?? this.context.faker.company.name();
+    if (team.slug !== undefined && !layout.slugColumn) {
+      throw new Error(`Scenario team '${team.alias}' declares a slug, but ${layout.table} has no slug column`);
+    }
+    const slug = layout.slugColumn ? team.slug ?? team.alias : undefined;
+
+    const [row] = await this.insertRows(layout.table, [{
+      id: this.determinism.uuid(),
+      name,
+      ...(layout.slugColumn && { [layout.slugColumn]: slug }),
+      [layout.ownerColumn]: ownerId,
+      ...layout.fixed,
+      ...this.resolveValues(team.data || {}, 0)
+    }]);
+    this.rows.set(team.alias, row);
+    this.aliases.teams[team.alias] = { id: row.id, ...(slug !== undefined && { slug }), name, table: layout.table };
+
+    const { memberships } = layout;
+    const members: Record<string, string> = { [team.owner]: 'owner', ...team.members };
+    const membershipRows = Object.entries(members).map(([member, role]) => ({
+      [memberships.userColumn]: this.rows.get(member)!.id,
+      [memberships.teamColumn]: row.id,
+      [memberships.roleColumn]: role
+    }));
+
+    // Triggers may already have added the owner
+    const { error } = await this.context.client
+      .from(memberships.table)
+      .upsert(membershipRows, { onConflict: `${memberships.userColumn},${memberships.teamColumn}`, ignoreDuplicates: true });
+    if (error) {
+      throw new Error(`Memberships of team '${team.alias}' could not be created: ${error.message}`);
+    }
+
+    Logger.debug(`Scenario team ${team.alias} -> ${row.id} (${membershipRows.length} members)`);
+  }
+
+  private async createRecords(
+    table: string,
+    alias: string | undefined,
+    count: number,
+    values: Record<string, ScenarioValue>
+  ): Promise<void> {
+    // Generators declared for the table in the config fill undeclared columns
+    const declared = Object.entries(this.context.config.tables?.[table]?.columns || {})
+      .filter(([column]) => !(column in values));
+
+    const rows = Array.from({ length: count }, (_, index) => {
+      const row = this.resolveValues(values, index);
+      for (const [column, spec] of declared) {
+        row[column] = generateColumnValue(parseColumnGenerator(spec), {
+          faker: this.context.faker,
+          index,
+          row,
+          references: new Map()
+        });
+      }
+      return row;
+    });
+
+    const inserted = await this.insertRows(table, rows);
+    if (!alias) return;
+
+    recordAliases(alias, count).forEach((name, index) => {
+      const row = inserted[index];
+      this.rows.set(name, row);
+      this.aliases.records[name] = { table, id: row.id, row };
+    });
+  }
+
+  private async insertRows(table: string, rows: Record<string, any>[]): Promise<Record<string, any>[]> {
+    const { data, error } = await this.context.client.from(table).insert(rows).select();
+    if (error) {
+      throw new Error(`Scenario rows for ${table} could not be inserted: ${error.message}`);
+    }
+    return (data as Record<string, any>[]) || rows;
+  }
+
+  private resolveValues(values: Record<string, ScenarioValue>, index: number): Record<string, any> {
+    const row: Record<string, any> = {};
+    for (const [column, value] of Object.entries(values)) {
+      row[column] = this.resolveValue(value, index, row);
+    }
+    return row;
+  }
+
+  private resolveValue(value: ScenarioValue, index: number, row: Record<string, any>): any {
+    if (typeof value === 'string' && value.startsWith('@@')) {
+      return value.slice(1);
+    }
+
+    const reference = parseReference(value);
+    if (reference) {
+      const target = this.rows.get(reference.alias)!;
+      const column = reference.column ?? 'id';
+      if (!(column in target)) {
+        throw new Error(`Scenario reference '${value}': '${reference.alias}' has no column '${column}'`);
+      }
+      return target[column];
+    }
+
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return generateColumnValue(parseColumnGenerator(value), {
+        faker: this.context.faker,
+        index,
+        row,
+        references: new Map()
+      });
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Aliases file written next to the scenario unless a path is configured
+ */
+export function defaultAliasesPath(scenarioPath: string): string {
+  const parsed = path.parse(scenarioPath);
+  return path.join(parsed.dir, `${parsed.name}.aliases.json`);
+}
+
+export function writeScenarioAliases(aliases: ScenarioAliases, filePath: string): void {
+  writeFileSync(filePath, JSON.stringify(aliases, null, 2) + '\n');
+}
+
+/**
+ * Aliases an earlier seed wrote, or undefined if the file does not exist
+ */
+export function readScenarioAliases(filePath: string): ScenarioAliases | undefined {
+  if (!existsSync(filePath)) return undefined;
+  return JSON.parse(readFileSync(filePath, 'utf8')) as ScenarioAliases;
+}
@@ -0,0 +1,78 @@
+/**
+ * Scenario Types
+ * A scenario file names the exact users, teams and records a test suite needs.
+ * Everything is declared under an alias, and `@alias` (or `@alias.column`)
+ * values refer to what an earlier alias created.
+ */
+
+import type { ColumnGeneratorOptions } from '../../core/types/types';
+
+export interface ScenarioFile {
+  name?: string;
+  password?: string; // Default password for users without one
+  users?: Record<string, ScenarioUserSpec>;
+  teams?: Record<string, ScenarioTeamSpec>;
+  records?: Record<string, ScenarioRecordSpec[]>; // Table -> rows, created in file order
+}
+
+export interface ScenarioUserSpec {
+  email?: string; // Default: <alias>@<emailDomain>
+  name?: string; // Default: a faker full name
+  username?: string; // Default: the alias
+  password?: string;
+  mfa?: boolean; // Enrol a verified TOTP factor
+  metadata?: Record<string, any>; // Extra user_metadata
+}
+
+export interface ScenarioTeamSpec {
+  name?: string; // Default: a faker company name
+  slug?: string; // Default: the alias, when the team table has a slug column
+  owner: string; // User alias
+  members?: Record<string, string>; // User alias -> role
+  data?: Record<string, ScenarioValue>; // Extra columns for the team row
+}
+
+/**
+ * One row to insert. `alias` names it for later references; `count` inserts
+ * that many rows aliased `<alias>-1`, `<alias>-2`, ...
+ */
+export type ScenarioRecordSpec = {
+  alias?: string;
+  count?: number;
+} & Record<string, ScenarioValue>;
+
+/**
+ * A literal, an `@alias` reference or a column generator object
+ * (`{ generator: 'faker:lorem.words' }`, `{ choices: ... }`)
+ */
+export type ScenarioValue = string | number | boolean | null | ColumnGeneratorOptions | any[];
+
+export interface ScenarioReference {
+  alias: string;
+  column?: string; // Default: the row's primary id
+}
+
+export interface Scenario {
+  name: string;
+  password?: string;
+  users: Array<{ alias: string } & ScenarioUserSpec>;
+  teams: Array<{ alias: string } & ScenarioTeamSpec>;
+  records: ScenarioRecord[];
+}
+
+export interface ScenarioRecord {
+  table: string;
+  alias?: string;
+  count: number;
+  values: Record<string, ScenarioValue>;
+}
+
+/**
+ * Written after the seed so end-to-end tests can look up what each alias became
+ */
+export interface ScenarioAliases {
+  scenario: string;
+  users: Record<string, { id: string; email: string; password: string; mfaSecret?: string }>;
+  teams: Record<string, { id: string; slug?: string; name: string; table: string }>; // slug when the team table has one
+  records: Record<string, { table: string; id: any; row: Record<string, any> }>;
+}
@@ -1,3 +1,4 @@
+import { writeFileSync } from 'fs';
 import { createClient } from '@supabase/supabase-js';
 import { faker } from '@faker-js/faker';
 import { SeedConfig, SeedModule, SeedContext } from './core/types/types';
@@ -7,23 +8,58 @@ import { UserSeeder } from './features/generation/seeders/user-seeder';
 import { SetupSeeder } from './features/generation/seeders/setup-seeder';
 import { GearSeeder } from './features/generation/seeders/gear-seeder';
 import { MediaSeeder } from './features/generation/seeders/media-seeder';
+import { DOMAIN_PLUGINS, resolveDomainPlugins } from './features/generation/seeders/domain-plugins';
+import { TableSeedingPipeline } from './features/generation/table-seeding-pipeline';
+import { StorageFixtureSeeder } from './features/generation/storage/storage-fixture-seeder';
+import { validateColumnGenerators } from './features/generation/column-generators';
+import { SeedHookRunner, validateHooks } from './features/hooks/seed-hook-runner';
+import { validateCardinality } from './features/generation/cardinality';
+import { validateAuthStates } from './auth/auth-states';
+import { UserImpersonator } from './features/rls/user-impersonator';
+import { RlsMatrixBuilder, RlsMatrixOptions, RlsMatrixReport } from './features/rls/rls-matrix';
+import { GuardDecision, GuardRequest, ProductionGuard } from './features/safety/production-guard';
+import { generateSeedSql, SqlGenerationOptions } from './features/output/sql-seed-generator';
+import { verifyDeterminism, DeterminismCheckOptions, DeterminismReport } from './features/output/determinism-check';
+import { planDryRun, DryRunOptions, DryRunReport } from './features/output/dry-run-planner';
+import { SeedDeterminism } from './core/utils/seed-determinism';
 import { SchemaAdapter } from './core/schema-adapter';
 import { Logger } from './core/utils/logger';
 import { SchemaValidator } from './features/analysis/schema-validator';
-import { createEnhancedSupabaseClient } from './core/utils/enhanced-supabase-client';
+import { createEnhancedSupabaseClient, isLocalSupabaseEnvironment } from './core/utils/enhanced-supabase-client';
+import { closeDatabaseBackend } from './core/database/database-backend';
+import { SeedRunRecorder, ManifestStore } from './features/manifest/run-manifest';
+import { SeededInventory } from './features/manifest/seeded-inventory';
+import { createRecordingClient } from './features/manifest/recording-client';
+import { RollbackManager } from './features/manifest/rollback-manager';
+import { RollbackOptions, RollbackResult, SeedRunManifest } from './features/manifest/manifest-types';
+import { ScenarioSeeder, defaultAliasesPath, readScenarioAliases, writeScenarioAliases } from './features/scenarios/scenario-seeder';
+import { MintUserTokenOptions, MintedUserToken, findSeededUser, mintUserToken } from './auth/user-tokens';
+import { ScenarioAliases } from './features/scenarios/scenario-types';
+import { FixtureCollector } from './features/fixtures/fixture-collector';
+import { fixtureFormat, renderFixtures } from './features/fixtures/fixture-renderer';
 
 export class SupaSeedFramework {
   private client: any; // Use any to avoid type conflicts with enhanced client
   private context: SeedContext;
+  private determinism: SeedDeterminism;
+  private manifestStore = new ManifestStore();
+  private lastRunId?: string;
+  private scenarioAliases?: ScenarioAliases;
   
-  constructor(private config: SeedConfig) {
+  /**
+   * `baseDir` is the config file's directory, where hook and fixture files it names resolve from
+   */
+  constructor(private config: SeedConfig, private baseDir: string = process.cwd()) {
     this.validateConfig(config);
     
     this.client = createEnhancedSupabaseClient(
       config.supabaseUrl,
-      config.supabaseServiceKey
+      config.supabaseServiceKey,
+      // Hooks and inserts share one connection so settings a hook makes reach the inserts
+      { databaseUrl: config.databaseUrl, singleConnection: Boolean(config.hooks) }
     );
     
+    this.determinism = new SeedDeterminism(config.seed, { pinned: config.deterministic });
     this.context = {
       client: this.client,
       config,
@@ -34,13 +70,36 @@ export class SupaSeedFramework {
         setupsCreated: 0,
         imagesUploaded: 0,
         startTime: new Date(),
-      }
+      },
+      determinism: this.determinism
     };
   }
 
   async seed(): Promise<void> {
     console.log('🌱 Starting database seeding...');
     
+    // Record everything this run inserts so it can be rolled back precisely
+    const recorder = new SeedRunRecorder({
+      supabaseUrl: this.config.supabaseUrl,
+      seed: this.config.seed
+    });
+    const fixtures = this.config.emitFixtures ? new FixtureCollector() : undefined;
+    const recordingClient = createRecordingClient(this.client, recorder);
+    this.context.client = fixtures ? fixtures.wrap(recordingClient) : recordingClient;
+    this.context.manifest = recorder;
+    this.context.fixtures = fixtures;
+    if (this.config.impersonation) {
+      // Per-user clients record their inserts in the manifest and fixtures too
+      this.context.impersonation = new UserImpersonator(this.context, {
+        wrap: client => {
+          const recording = createRecordingClient(client, recorder);
+          return fixtures ? fixtures.wrap(recording) : recording;
+        }
+      });
+    }
+    this.lastRunId = recorder.runId;
+    let runStatus: 'completed' | 'failed' = 'failed';
+    
     try {
       // First, check database connectivity and schema
       const schemaAdapter = await this.validateDatabaseAndSchema();
@@ -59,15 +118,180 @@ export class SupaSeedFramework {
         Logger.warn('Continuing despite validation errors (FORCE_SEED=true)');
       }
       
-      // Define seeding order (dependency-aware)
-      const seeders: SeedModule[] = [
-        new AuthSeeder(this.context),
-        new UserSeeder(this.context),
-        new BaseDataSeeder(this.context),
-        new SetupSeeder(this.context),
-        new GearSeeder(this.context),
-        new MediaSeeder(this.context),
-      ];
+      if (this.config.topUp) {
+        const seeded = await this.loadSeededInventory();
+        this.context.seeded = seeded;
+        // Pinned runs would otherwise repeat the ids and emails of the first run
+        this.context.determinism = this.determinism.fork(`top-up-${seeded.runIds.length}`);
+      }
+      
+      await this.determinism.withFakerClock(faker, () => this.runSeeders(this.context));
+      this.reportRlsViolations();
+      
+      runStatus = 'completed';
+      await this.printSummary();
+      this.saveScenarioAliases();
+      if (fixtures) this.saveFixtures(fixtures);
+    } catch (error) {
+      console.error('❌ Seeding failed:', error);
+      throw error;
+    } finally {
+      this.context.client = this.client;
+      this.context.manifest = undefined;
+      this.context.fixtures = undefined;
+      this.context.impersonation = undefined;
+      this.context.seeded = undefined;
+      this.context.determinism = this.determinism;
+      
+      const manifest = recorder.finish(runStatus);
+      const recordedAnything = ManifestStore.summarize(manifest).totalRows > 0 ||
+        manifest.authUserIds.length > 0 || manifest.storageObjects.length > 0;
+      try {
+        if (runStatus === 'completed' || recordedAnything) {
+          this.manifestStore.save(manifest);
+          console.log(`🧾 Run manifest saved: ${manifest.runId} (roll back with: supa-seed rollback --run ${manifest.runId})`);
+        }
+      } catch (error: any) {
+        Logger.warn(`Could not save run manifest: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Run the seeders without a database and return everything they would insert
+   * as ordered INSERT statements, e.g. for supabase/seed.sql
+   */
+  async generateSql(options: SqlGenerationOptions = {}): Promise<string> {
+    const sql = await generateSeedSql(this.config, context => this.runSeeders(context), options);
+    this.saveScenarioAliases();
+    return sql;
+  }
+
+  /**
+   * Run generation twice without a database and compare the rows it produced
+   */
+  async verifyDeterminism(options: DeterminismCheckOptions = {}): Promise<DeterminismReport> {
+    return verifyDeterminism(this.config, context => this.runSeeders(context), options);
+  }
+
+  /**
+   * Plan a seed against the configured database without writing to it: row
+   * counts, sample rows, predicted constraint violations and RLS findings
+   */
+  async dryRun(options: DryRunOptions = {}): Promise<DryRunReport> {
+    const seeded = this.config.topUp ? await this.loadSeededInventory() : undefined;
+    return planDryRun(this.config, this.client, context => {
+      context.seeded = seeded;
+      return this.runSeeders(context);
+    }, options);
+  }
+
+  /**
+   * Probe the rows earlier runs left behind as anon, their owner, a tenant
+   * member and an outsider to see who can select, insert, update and delete them
+   */
+  async rlsMatrix(options: RlsMatrixOptions = {}): Promise<RlsMatrixReport> {
+    const seeded = await SeededInventory.load(this.client, this.listRuns());
+    return new RlsMatrixBuilder(this.client, {
+      ownerColumns: this.config.impersonation?.ownerColumns,
+      ...options
+    }).build(seeded);
+  }
+
+  /**
+   * Rows and users that earlier runs against this project created and that still exist
+   */
+  private async loadSeededInventory(): Promise<SeededInventory> {
+    const seeded = await SeededInventory.load(this.client, this.listRuns());
+    console.log(`🔁 Topping up: ${seeded.authUserIds.length} users from ${seeded.runIds.length} earlier runs already exist`);
+    return seeded;
+  }
+
+  /**
+   * List the inserts RLS refused while impersonating; with failOnViolation they fail the run
+   */
+  private reportRlsViolations(): void {
+    const violations = this.context.impersonation?.summarize() || [];
+    if (violations.length === 0) return;
+
+    const report = `RLS refused ${violations.length} impersonated insert(s):\n${violations.map(line => `  • ${line}`).join('\n')}`;
+    if (this.config.impersonation?.failOnViolation) {
+      throw new Error(report);
+    }
+    Logger.warn(report);
+  }
+
+  /**
+   * Sign an access token for a seeded user, found by email or by an alias of
+   * the configured scenario, without signing in
+   */
+  async mintUserToken(user: string, options: MintUserTokenOptions & { aliasesFile?: string } = {}): Promise<MintedUserToken> {
+    const { aliasesFile, ...tokenOptions } = options;
+    const jwtSecret = tokenOptions.jwtSecret || this.config.impersonation?.jwtSecret || process.env.SUPABASE_JWT_SECRET;
+    if (!jwtSecret && !isLocalSupabaseEnvironment(this.config.supabaseUrl)) {
+      throw new Error('Minting tokens for a remote project needs its JWT secret (SUPABASE_JWT_SECRET)');
+    }
+
+    const file = aliasesFile || (this.config.scenario && (this.config.scenarioAliasesOut || defaultAliasesPath(this.config.scenario)));
+    const aliases = file ? readScenarioAliases(file) : undefined;
+    const { authUser, mfaFactors, identities } = await findSeededUser(this.client, user, aliases);
+
+    return mintUserToken(authUser, {
+      supabaseUrl: this.config.supabaseUrl,
+      mfaFactors,
+      identities,
+      ...tokenOptions,
+      jwtSecret
+    });
+  }
+
+  /**
+   * Write the scenario's alias -> id mapping for end-to-end tests
+   */
+  private saveScenarioAliases(): void {
+    if (!this.config.scenario || !this.scenarioAliases) return;
+    
+    const file = this.config.scenarioAliasesOut || defaultAliasesPath(this.config.scenario);
+    writeScenarioAliases(this.scenarioAliases, file);
+    console.log(`🏷️  Scenario aliases written to ${file}`);
+  }
+
+  /**
+   * Write the credentials and ids the run created for end-to-end tests
+   */
+  private saveFixtures(fixtures: FixtureCollector): void {
+    const file = this.config.emitFixtures!;
+    writeFileSync(file, renderFixtures(fixtures.toFixtures(), fixtureFormat(file)));
+    console.log(`🧪 Fixtures written to ${file}`);
+  }
+
+  /**
+   * Domain plugins run first; in table mode the pipeline then seeds the rest of the schema,
+   * and storage fixtures are uploaded once all their rows exist. Run hooks wrap all of it.
+   */
+  private async runSeeders(context: SeedContext): Promise<void> {
+    const hooks = new SeedHookRunner(context, this.baseDir);
+    context.hooks = hooks;
+
+    try {
+      await hooks.run('beforeRun');
+
+      // Not caught like the plugins: tests rely on every alias the scenario declares
+      if (this.config.scenario) {
+        await new ScenarioSeeder(context).seed();
+        this.scenarioAliases = context.cache.get('scenarioAliases');
+      }
+      
+      const seeders: SeedModule[] = resolveDomainPlugins(this.config)
+        .map(name => new DOMAIN_PLUGINS[name](context));
+      
+      if (this.config.seeding?.mode === 'tables') {
+        seeders.push(new TableSeedingPipeline(context));
+      }
+
+      if (this.config.storage?.fixtures?.length) {
+        seeders.push(new StorageFixtureSeeder(context, this.baseDir));
+      }
 
       for (const seeder of seeders) {
         try {
@@ -79,14 +303,70 @@ export class SupaSeedFramework {
           // Continue with next seeder rather than failing completely
         }
       }
-      
-      await this.printSummary();
-    } catch (error) {
-      console.error('❌ Seeding failed:', error);
-      throw error;
+
+      await hooks.run('afterRun');
+    } finally {
+      context.hooks = undefined;
     }
   }
 
+  /**
+   * Release the direct database connection, if one was configured
+   */
+  async close(): Promise<void> {
+    await closeDatabaseBackend(this.client);
+  }
+
+  /**
+   * Id of the most recent run started by this instance
+   */
+  getLastRunId(): string | undefined {
+    return this.lastRunId;
+  }
+
+  /**
+   * Delete exactly what a recorded seed run inserted
+   */
+  async rollback(runId: string, options: RollbackOptions = {}): Promise<RollbackResult> {
+    const manifest = this.manifestStore.load(runId);
+    
+    if (manifest.status === 'rolled_back') {
+      throw new Error(`Run ${runId} was already rolled back at ${manifest.rolledBackAt}`);
+    }
+    
+    if (manifest.supabaseUrl !== this.config.supabaseUrl) {
+      throw new Error(
+        `Run ${runId} was recorded against ${manifest.supabaseUrl}, not ${this.config.supabaseUrl}`
+      );
+    }
+    
+    const rollbackManager = new RollbackManager(this.client);
+    const result = await rollbackManager.rollback(manifest, options);
+    
+    if (!options.dryRun && result.success) {
+      manifest.status = 'rolled_back';
+      manifest.rolledBackAt = new Date().toISOString();
+      this.manifestStore.save(manifest);
+    }
+    
+    return result;
+  }
+
+  /**
+   * Ask the production guard whether a command may run against this project;
+   * the decision is written to the audit log either way
+   */
+  async checkSafety(request: Omit<GuardRequest, 'manifests'>): Promise<GuardDecision> {
+    return new ProductionGuard(this.config, this.client).check({ ...request, manifests: this.listRuns() });
+  }
+
+  /**
+   * Recorded seed runs for this project, newest first
+   */
+  listRuns(): SeedRunManifest[] {
+    return this.manifestStore.list().filter(manifest => manifest.supabaseUrl === this.config.supabaseUrl);
+  }
+
   private async validateDatabaseAndSchema(): Promise<SchemaAdapter> {
     Logger.step('Validating database connection and schema...');
     
@@ -231,58 +511,30 @@ export class SupaSeedFramework {
     console.log('🧹 Cleaning up existing seed data...');
     
     try {
-      // Get test accounts first - look for any test domains
-      const { data: testAccounts } = await this.client
-        .from('accounts')
-        .select('id, email')
-        .or('email.like.%.test,email.like.%supaseed%,email.like.%wildernest%,email.like.%campfire%,email.like.%makerkit%,email.like.%demo,email.like.%fresh-test%');
+      // Only data recorded in run manifests is removed, so real users are never touched
+      const runs = this.listRuns().filter(manifest => manifest.status !== 'rolled_back');
 
-      if (!testAccounts?.length) {
-        console.log('ℹ️  No test data found to clean up');
+      if (!runs.length) {
+        console.log('ℹ️  No recorded seed runs found to clean up');
         return;
       }
 
-      console.log(`🔍 Found ${testAccounts.length} test accounts to clean up:`);
-      testAccounts.forEach((acc: any) => console.log(`   - ${acc.email} (${acc.id})`));
+      console.log(`🔍 Found ${runs.length} recorded seed runs to roll back`);
 
-      const testAccountIds = testAccounts.map((acc: any) => acc.id);
-
-      // Clean setup_gear_items first (if table exists)
-      try {
-        await this.client
-          .from('setup_gear_items')
-          .delete()
-          .in('setup_id', 
-            (await this.client
-              .from('setups')
-              .select('id')
-              .in('account_id', testAccountIds)
-            ).data?.map((s: any) => s.id) || []
-          );
-      } catch {
-        console.log('ℹ️  setup_gear_items table not found, skipping');
+      let failedRuns = 0;
+      for (const manifest of runs) {
+        const summary = ManifestStore.summarize(manifest);
+        console.log(`   - ${manifest.runId}: ${summary.totalRows} rows, ${summary.authUsers} auth users, ${summary.storageObjects} files`);
+        
+        const result = await this.rollback(manifest.runId);
+        if (!result.success) {
+          failedRuns++;
+          result.errors.forEach(error => console.log(`     ⚠️  ${error}`));
+        }
       }
 
-      // Clean setups
-      await this.client
-        .from('setups')
-        .delete()
-        .in('account_id', testAccountIds);
-
-      // Clean accounts
-      await this.client
-        .from('accounts')
-        .delete()
-        .in('id', testAccountIds);
-
-      // Clean auth.users - this is critical for avoiding duplicate email errors
-      for (const accountId of testAccountIds) {
-        try {
-          await this.client.auth.admin.deleteUser(accountId);
-        } catch (error) {
-          // Some users might not exist in auth.users, that's okay
-          console.log(`ℹ️  Auth user ${accountId} not found or already deleted`);
-        }
+      if (failedRuns > 0) {
+        throw new Error(`${failedRuns} run(s) could not be fully rolled back`);
       }
 
       console.log('✅ Cleanup completed');
@@ -346,6 +598,63 @@ export class SupaSeedFramework {
       throw new Error('userCount and setupsPerUser must be greater than 0');
     }
 
+    if (config.emitFixtures) {
+      fixtureFormat(config.emitFixtures);
+    }
+
+    if (config.strategies !== undefined &&
+        (!Array.isArray(config.strategies) || config.strategies.some(entry => typeof entry !== 'string' || entry.trim() === ''))) {
+      throw new Error('strategies must be a list of strategy file paths or package names');
+    }
+
+    if (config.templateRepositories !== undefined &&
+        (!Array.isArray(config.templateRepositories) || config.templateRepositories.some(repository =>
+          !repository?.name || !repository.url || !['local', 'git', 'npm'].includes(repository.type)))) {
+      throw new Error("templateRepositories entries need a name, a url and a type of 'local', 'git' or 'npm'");
+    }
+
+    const generatorProblems = validateColumnGenerators(config.tables);
+    if (generatorProblems.length > 0) {
+      throw new Error(`Invalid column generators:\n${generatorProblems.map(problem => `  • ${problem}`).join('\n')}`);
+    }
+
+    const hookProblems = validateHooks(config.hooks);
+    if (hookProblems.length > 0) {
+      throw new Error(`Invalid hooks:\n${hookProblems.map(problem => `  • ${problem}`).join('\n')}`);
+    }
+
+    if (config.impersonation) {
+      const { auth = 'jwt', jwtSecret } = config.impersonation;
+      if (!['jwt', 'sign-in'].includes(auth)) {
+        throw new Error("impersonation.auth must be 'jwt' or 'sign-in'");
+      }
+      if (auth === 'jwt' && !jwtSecret && !process.env.SUPABASE_JWT_SECRET && !isLocalSupabaseEnvironment(config.supabaseUrl)) {
+        throw new Error('impersonation against a remote project needs impersonation.jwtSecret, SUPABASE_JWT_SECRET or auth "sign-in"');
+      }
+    }
+
+    if (config.authUsers?.bulkInsert) {
+      if (!isLocalSupabaseEnvironment(config.supabaseUrl)) {
+        throw new Error('authUsers.bulkInsert writes auth tables directly and only runs against a local stack');
+      }
+      if (!config.databaseUrl) {
+        throw new Error('authUsers.bulkInsert needs a direct database connection: set databaseUrl or SUPABASE_DB_URL');
+      }
+    }
+
+    const authStateProblems = validateAuthStates(config.authUsers);
+    if (authStateProblems.length > 0) {
+      throw new Error(`Invalid authUsers:\n${authStateProblems.map(problem => `  • ${problem}`).join('\n')}`);
+    }
+    if (config.authUsers?.states?.oauthOnly && !config.databaseUrl) {
+      throw new Error('authUsers.states.oauthOnly writes auth.identities and needs a direct database connection: set databaseUrl or SUPABASE_DB_URL');
+    }
+
+    const cardinalityProblems = validateCardinality(config.cardinality);
+    if (cardinalityProblems.length > 0) {
+      throw new Error(`Invalid cardinality:\n${cardinalityProblems.map(problem => `  • ${problem}`).join('\n')}`);
+    }
+
     // NEW: Validate userStrategy configuration (SUPASEED-001)
     if (config.userStrategy && !['use-existing', 'create-new', 'hybrid'].includes(config.userStrategy)) {
       throw new Error(
@@ -386,6 +695,15 @@ export class SupaSeedFramework {
     console.log(`👥 Users created: ${stats.usersCreated}`);
     console.log(`🏕️  Setups created: ${stats.setupsCreated}`);
     console.log(`🖼️  Images uploaded: ${stats.imagesUploaded}`);
+    if (stats.tableRowsCreated) {
+      Object.entries(stats.tableRowsCreated).forEach(([table, count]) => {
+        console.log(`📋 ${table}: ${count} rows`);
+      });
+    }
+    if (this.context.manifest) {
+      const summary = ManifestStore.summarize(this.context.manifest.getManifest());
+      console.log(`🧾 Rows recorded: ${summary.totalRows} across ${Object.keys(summary.tables).length} tables`);
+    }
     console.log('✨ Seeding completed successfully!\n');
   }
 }
@@ -430,7 +748,74 @@ export * from './core/types/config-types';
 export { ConfigManager } from './core/config/config-manager';
 export { SchemaAdapter } from './core/schema-adapter';
 export { AuthSeeder, BaseDataSeeder, UserSeeder, SetupSeeder, GearSeeder, MediaSeeder };
+export { DOMAIN_PLUGINS, resolveDomainPlugins } from './features/generation/seeders/domain-plugins';
+export { TableSeedingPipeline } from './features/generation/table-seeding-pipeline';
+export type { TableSeedingPlan, TablePipelineResult } from './features/generation/table-seeding-pipeline';
+export { parseColumnGenerator, validateColumnGenerators, generateColumnValue } from './features/generation/column-generators';
+export type { ColumnGenerator } from './features/generation/column-generators';
+export { CardinalitySampler, validateCardinality } from './features/generation/cardinality';
+export { SeedHookRunner, validateHooks } from './features/hooks/seed-hook-runner';
+export { ProductionGuard, projectRef, matchesProject } from './features/safety/production-guard';
+export { UserImpersonator, isPolicyViolation } from './features/rls/user-impersonator';
+export type { RlsViolation, ImpersonatorOptions } from './features/rls/user-impersonator';
+export { mintUserToken, findSeededUser } from './auth/user-tokens';
+export type { MintUserTokenOptions, MintedUserToken, SeededAuthUser } from './auth/user-tokens';
+export { LOCAL_JWT_SECRET, signJWT, generateTestJWT } from './core/utils/crypto-utils';
+export { BulkAuthWriter } from './auth/bulk-auth-writer';
+export type { BulkAuthUser, BulkAuthWriterOptions, BulkAuthResult } from './auth/bulk-auth-writer';
+export { AuthStateSeeder, assignAuthStates, validateAuthStates, AUTH_USER_STATES } from './auth/auth-states';
+export type { AuthUserState, AuthStateUser, AuthStateSeederOptions } from './auth/auth-states';
+export { RlsMatrixBuilder, renderRlsPgTap, writeRlsPgTap, RLS_PERSONAS, RLS_OPERATIONS } from './features/rls/rls-matrix';
+export type { RlsMatrixReport, RlsTableMatrix, RlsProbe, RlsLeak, RlsPersona, RlsOperation, RlsMatrixOptions } from './features/rls/rls-matrix';
+export type { GuardRequest, GuardDecision, AuditEntry } from './features/safety/production-guard';
+export { StorageFixtureSeeder } from './features/generation/storage/storage-fixture-seeder';
+export type { StorageFixtureResult } from './features/generation/storage/storage-fixture-seeder';
+export { ImageGenerator } from './features/generation/storage/image-generator';
+export type { ProceduralImageStyle } from './features/generation/storage/procedural-image-renderer';
+export type { ImageEncoding } from './features/generation/storage/image-encoders';
+
+// Export SQL output
+export { SqlCaptureClient, SqlExpression } from './features/output/sql-capture-client';
+export { SqlDumpRenderer } from './features/output/sql-dump-renderer';
+export type { SqlRenderOptions } from './features/output/sql-dump-renderer';
+export { generateSeedSql } from './features/output/sql-seed-generator';
+export type { SqlGenerationOptions } from './features/output/sql-seed-generator';
+export { verifyDeterminism, diffCapturedTables, compareWithGolden } from './features/output/determinism-check';
+export type { DeterminismReport, DeterminismDifference, GoldenComparison } from './features/output/determinism-check';
+export { planDryRun } from './features/output/dry-run-planner';
+export type { DryRunReport, DryRunTablePlan, PredictedViolation, DryRunRlsFinding } from './features/output/dry-run-planner';
+export { evaluateCheckConstraint } from './features/analysis/check-constraint-evaluator';
+export { SeedDeterminism, deterministicUuid } from './core/utils/seed-determinism';
+
+// Export database backends
+export { PostgrestBackend, getDatabaseBackend, closeDatabaseBackend } from './core/database/database-backend';
+export type { DatabaseBackend, DatabaseBackendKind } from './core/database/database-backend';
+export { PostgresBackend } from './core/database/postgres-backend';
+export { withDatabaseBackend } from './core/database/catalog-client';
 
 // Export framework strategy system
 export * from './features/integration/strategy-interface';
-export { StrategyRegistry } from './features/integration/strategy-registry'; 
\ No newline at end of file
+export { StrategyRegistry } from './features/integration/strategy-registry';
+export { loadStrategies, validateStrategy } from './features/integration/strategy-loader';
+export type { LoadedStrategy } from './features/integration/strategy-loader';
+
+// Export template marketplace
+export { TemplateMarketplace, parsePackageSpec, parseRepository } from './features/generation/template-marketplace';
+export type { TemplatePackage, Repository, SearchQuery, InstallOptions, InstalledTemplate } from './features/generation/template-marketplace';
+export { TemplateValidator } from './features/generation/template-validator';
+
+// Export seed run manifest and rollback
+export * from './features/manifest/manifest-types';
+export { SeedRunRecorder, ManifestStore } from './features/manifest/run-manifest';
+export { SeededInventory } from './features/manifest/seeded-inventory';
+export { RollbackManager } from './features/manifest/rollback-manager'; 
+
+// Export scenarios
+export * from './features/scenarios/scenario-types';
+export { loadScenario, parseScenario } from './features/scenarios/scenario-loader';
+export { ScenarioSeeder, defaultAliasesPath, readScenarioAliases, writeScenarioAliases } from './features/scenarios/scenario-seeder';
+
+// Export seed fixtures
+export * from './features/fixtures/fixture-types';
+export { FixtureCollector } from './features/fixtures/fixture-collector';
+export { fixtureFormat, renderFixtures } from './features/fixtures/fixture-renderer';
\ No newline at end of file
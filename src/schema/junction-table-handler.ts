@@ -6,6 +6,9 @@
 import type { createClient } from '@supabase/supabase-js';
 import { Logger } from '../core/utils/logger';
 import { DependencyGraph, ForeignKeyRelationship } from './dependency-graph';
+import { CardinalitySpec, SeedConfig } from '../core/types/types';
+import { SeedDeterminism } from '../core/utils/seed-determinism';
+import { CardinalitySampler } from '../features/generation/cardinality';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -73,6 +76,8 @@ export interface JunctionSeedingOptions {
   distributionStrategy: 'random' | 'even' | 'weighted' | 'clustered';
   clusterFactor: number; // For clustered distribution
   weightFunction?: (leftRecord: any, rightRecord: any) => number;
+  cardinality?: CardinalitySpec; // Relationships per left record (default: config cardinality['left.junction']); replaces relationshipDensity and distributionStrategy
+  random?: () => number; // Random source for cardinality draws (default: the seed's stream for the relationship)
   
   // Data generation options  
   generateMetadata: boolean;
@@ -154,9 +159,13 @@ export class JunctionTableHandler {
   private client: SupabaseClient;
   private detectedJunctionTables: Map<string, JunctionTableInfo> = new Map();
   private relationshipPatterns: RelationshipPattern[] = [...COMMON_JUNCTION_PATTERNS];
+  private config?: SeedConfig;
+  private determinism?: SeedDeterminism;
 
-  constructor(client: SupabaseClient) {
+  constructor(client: SupabaseClient, config?: SeedConfig, determinism?: SeedDeterminism) {
     this.client = client;
+    this.config = config;
+    this.determinism = determinism;
   }
 
   /**
@@ -564,6 +573,12 @@ export class JunctionTableHandler {
     const relationships: Array<{left: any, right: any}> = [];
     const targetCount = Math.floor(leftRecords.length * rightRecords.length * options.relationshipDensity);
 
+    const relationship = `${junctionInfo.leftTable}.${junctionInfo.tableName}`;
+    const cardinality = options.cardinality ?? this.config?.cardinality?.[relationship];
+    if (cardinality !== undefined) {
+      return this.generateCardinalityRelationships(leftRecords, rightRecords, cardinality, options.random || this.randomFor(relationship));
+    }
+
     switch (options.distributionStrategy) {
       case 'random':
         return this.generateRandomRelationships(leftRecords, rightRecords, targetCount);
@@ -579,6 +594,45 @@ export class JunctionTableHandler {
     }
   }
 
+  /**
+   * The seed's random stream for one relationship, like the domain seeders'
+   * cardinality draws; Math.random without a config
+   */
+  private randomFor(relationship: string): () => number {
+    if (!this.config) return Math.random;
+
+    this.determinism ??= new SeedDeterminism(this.config.seed, { pinned: this.config.deterministic });
+    const stream = this.determinism.fork(`cardinality:${relationship}`);
+    return () => stream.random();
+  }
+
+  /**
+   * Draw each left record's relationship count from a cardinality spec and
+   * pair it with that many distinct right records
+   */
+  private generateCardinalityRelationships(
+    leftRecords: any[],
+    rightRecords: any[],
+    spec: CardinalitySpec,
+    random: () => number
+  ): Array<{left: any, right: any}> {
+    const relationships: Array<{left: any, right: any}> = [];
+    const sampler = new CardinalitySampler(spec, random);
+
+    for (const leftRecord of leftRecords) {
+      const count = Math.min(sampler.next(), rightRecords.length);
+      const candidates = [...rightRecords];
+
+      for (let i = 0; i < count; i++) {
+        const index = i + Math.floor(random() * (candidates.length - i));
+        [candidates[i], candidates[index]] = [candidates[index], candidates[i]];
+        relationships.push({ left: leftRecord, right: candidates[i] });
+      }
+    }
+
+    return relationships;
+  }
+
   /**
    * Generate random relationships
    */
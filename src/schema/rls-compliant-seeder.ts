@@ -16,6 +16,7 @@ import {
   RLSPolicyViolation,
   RLSFixSuggestion
 } from '../features/analysis/business-logic-types';
+import { UserImpersonator, isPolicyViolation } from '../features/rls/user-impersonator';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -27,6 +28,7 @@ export class RLSCompliantSeeder {
   private options: RLSComplianceOptions;
   private cachedPolicies: RLSPolicyInfo[] = [];
   private currentUserContext?: UserContext;
+  private impersonation?: UserImpersonator;
 
   constructor(
     client: SupabaseClient, 
@@ -49,6 +51,14 @@ export class RLSCompliantSeeder {
     };
   }
 
+  /**
+   * Insert as the context user instead of through this seeder's client, so
+   * the table's policies decide and refusals surface as violatedPolicies
+   */
+  useImpersonation(impersonation: UserImpersonator): void {
+    this.impersonation = impersonation;
+  }
+
   /**
    * Seed data with RLS compliance
    */
@@ -108,6 +118,10 @@ export class RLSCompliantSeeder {
       const insertResult = await this.seedWithUserContext(table, data, userContext);
       result.success = insertResult.success;
       result.insertedRecords = insertResult.insertedRecords;
+      if (insertResult.violatedPolicies) {
+        result.violatedPolicies.push(...insertResult.violatedPolicies);
+        result.errors.push(`RLS refused the insert into ${table} as ${userContext?.email}`);
+      }
 
       // Validate after insert if enabled
       if (this.options.validateAfterInsert) {
@@ -401,7 +415,7 @@ export class RLSCompliantSeeder {
     table: string,
     data: any[],
     userContext?: UserContext
-  ): Promise<{ success: boolean; insertedRecords: number }> {
+  ): Promise<{ success: boolean; insertedRecords: number; violatedPolicies?: string[] }> {
     try {
       // Set user context if available
       if (userContext) {
@@ -409,12 +423,21 @@ export class RLSCompliantSeeder {
         this.currentUserContext = userContext;
       }
 
-      // Insert data
-      const { data: insertedData, error } = await this.client
+      // Insert data, as the context user when impersonating
+      const writer = (userContext && await this.impersonation?.clientFor(table, userContext.userId)) || this.client;
+      const { data: insertedData, error } = await writer
         .from(table)
         .insert(data)
         .select();
 
+      if (error && writer !== this.client && isPolicyViolation(error)) {
+        const violation = await this.impersonation!.recordViolation(table, userContext!.userId, error, data.length);
+        const known = this.cachedPolicies
+          .filter(policy => policy.tableName === table && ['INSERT', 'ALL'].includes(policy.command))
+          .map(policy => policy.policyName);
+        return { success: false, insertedRecords: 0, violatedPolicies: known.length ? known : violation.policies };
+      }
+
       if (error) {
         throw error;
       }
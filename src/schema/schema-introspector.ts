@@ -15,6 +15,62 @@ import {
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
+const TABLE_CONSTRAINTS_QUERY = `
+  SELECT
+    c.conname AS name,
+    c.contype AS type,
+    array(
+      SELECT a.attname::text FROM unnest(c.conkey) WITH ORDINALITY AS k(attnum, n)
+      JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum
+      ORDER BY k.n
+    ) AS columns,
+    CASE WHEN ref_ns.nspname = 'public' THEN ref.relname ELSE ref_ns.nspname || '.' || ref.relname END AS referenced_table,
+    array(
+      SELECT a.attname::text FROM unnest(c.confkey) WITH ORDINALITY AS k(attnum, n)
+      JOIN pg_attribute a ON a.attrelid = c.confrelid AND a.attnum = k.attnum
+      ORDER BY k.n
+    ) AS referenced_columns,
+    CASE WHEN c.contype = 'c' THEN pg_get_constraintdef(c.oid) END AS check_definition,
+    c.condeferrable AS is_deferrable,
+    c.confdeltype AS on_delete,
+    c.confupdtype AS on_update
+  FROM pg_constraint c
+  JOIN pg_class t ON t.oid = c.conrelid
+  JOIN pg_namespace ns ON ns.oid = t.relnamespace
+  LEFT JOIN pg_class ref ON ref.oid = c.confrelid
+  LEFT JOIN pg_namespace ref_ns ON ref_ns.oid = ref.relnamespace
+  WHERE ns.nspname = 'public'
+    AND t.relname = $1
+    AND c.contype IN ('p', 'f', 'u', 'c')
+  ORDER BY c.conname
+`;
+
+const COLUMN_ENUM_VALUES_QUERY = `
+  SELECT e.enumlabel
+  FROM pg_attribute a
+  JOIN pg_class t ON t.oid = a.attrelid
+  JOIN pg_namespace ns ON ns.oid = t.relnamespace
+  JOIN pg_enum e ON e.enumtypid = a.atttypid
+  WHERE ns.nspname = 'public'
+    AND t.relname = $1
+    AND a.attname = $2
+  ORDER BY e.enumsortorder
+`;
+
+const CONSTRAINT_TYPES: Record<string, DatabaseConstraint['type']> = {
+  p: 'PRIMARY KEY',
+  f: 'FOREIGN KEY',
+  u: 'UNIQUE',
+  c: 'CHECK'
+};
+
+const REFERENTIAL_ACTIONS: Record<string, NonNullable<DatabaseConstraint['onDelete']>> = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL'
+};
+
 export interface DatabaseColumn {
   name: string;
   type: string;
@@ -230,11 +286,15 @@ export class SchemaIntrospector {
       const tableName = table.table_name;
       
       try {
+        const columns = await this.getTableColumns(tableName as string);
+        const constraints = await this.getTableConstraints(tableName as string);
+        this.applyKeyConstraints(columns, constraints);
+
         const tableInfo: DatabaseTable = {
           name: tableName as string,
           schema: table.table_schema as string,
-          columns: await this.getTableColumns(tableName as string),
-          constraints: await this.getTableConstraints(tableName as string),
+          columns,
+          constraints,
           indexes: await this.getTableIndexes(tableName as string),
           triggers: await this.getTableTriggers(tableName as string),
           rowCount: await this.getTableRowCount(tableName as string),
@@ -374,8 +434,12 @@ export class SchemaIntrospector {
    * Get table constraints (primary keys, foreign keys, checks, etc.)
    */
   private async getTableConstraints(tableName: string): Promise<DatabaseConstraint[]> {
-    // This would query information_schema.table_constraints and related tables
-    // Implementation details depend on PostgreSQL system catalogs
+    // pg_constraint has the full picture (columns, references, actions) but needs
+    // exec_sql or a direct connection; information_schema only gives names
+    const fromCatalog = await this.getCatalogConstraints(tableName);
+    if (fromCatalog) {
+      return fromCatalog;
+    }
     
     const constraints: DatabaseConstraint[] = [];
     
@@ -404,6 +468,47 @@ export class SchemaIntrospector {
     return constraints;
   }
 
+  /**
+   * Read primary, foreign, unique and check constraints from pg_constraint.
+   * Returns null when raw SQL is not available to this client.
+   */
+  private async getCatalogConstraints(tableName: string): Promise<DatabaseConstraint[] | null> {
+    const { data, error } = await this.client.rpc('exec_sql', {
+      sql: TABLE_CONSTRAINTS_QUERY,
+      params: [tableName]
+    } as any);
+
+    if (error || !Array.isArray(data)) {
+      Logger.debug(`pg_constraint not available for ${tableName}, using information_schema`);
+      return null;
+    }
+
+    return (data as any[]).map(row => ({
+      name: row.name,
+      type: CONSTRAINT_TYPES[row.type] || 'CHECK',
+      columns: row.columns || [],
+      referencedTable: row.referenced_table || undefined,
+      referencedColumns: row.referenced_table ? row.referenced_columns : undefined,
+      checkDefinition: row.check_definition || undefined,
+      isDeferrable: row.is_deferrable === true,
+      onDelete: row.referenced_table ? REFERENTIAL_ACTIONS[row.on_delete] || 'NO ACTION' : undefined,
+      onUpdate: row.referenced_table ? REFERENTIAL_ACTIONS[row.on_update] || 'NO ACTION' : undefined
+    }));
+  }
+
+  /**
+   * Flag key columns from the table's constraints
+   */
+  private applyKeyConstraints(columns: DatabaseColumn[], constraints: DatabaseConstraint[]): void {
+    for (const column of columns) {
+      const covering = constraints.filter(constraint => constraint.columns.includes(column.name));
+      if (covering.length === 0) continue;
+
+      column.isPrimaryKey = covering.some(constraint => constraint.type === 'PRIMARY KEY');
+      column.isForeignKey = covering.some(constraint => constraint.type === 'FOREIGN KEY');
+    }
+  }
+
   /**
    * Get detailed information about a specific constraint
    */
@@ -804,8 +909,15 @@ export class SchemaIntrospector {
   }
 
   private async getEnumValues(tableName: string, columnName: string): Promise<string[]> {
-    // Would query pg_enum for enum values
-    return [];
+    const { data, error } = await this.client.rpc('exec_sql', {
+      sql: COLUMN_ENUM_VALUES_QUERY,
+      params: [tableName, columnName]
+    } as any);
+
+    if (error || !Array.isArray(data)) {
+      return [];
+    }
+    return (data as any[]).map(row => row.enumlabel);
   }
 
   private determineRelationshipType(
@@ -0,0 +1,226 @@
+/**
+ * Test suite for AI record validation
+ * Verifies generated records are checked against the table shape, failing
+ * records are sent back to the model a bounded number of times, and the rest
+ * fall back to Faker.js
+ */
+
+import { faker } from '@faker-js/faker';
+import { AIAssetGenerator } from '../src/ai/asset-generator';
+import { DomainPromptEngine } from '../src/ai/prompt-engine';
+import { AIResponseCache } from '../src/ai/response-cache';
+import { TableShape, introspectedTableShapes, tableShapeFrom, validateRecord, validateRecords } from '../src/ai/record-validator';
+import type { ConnectionStatus, LLMProvider } from '../src/ai/llm-provider';
+import { SchemaIntrospector } from '../src/schema/schema-introspector';
+import type { DatabaseColumn, DatabaseTable } from '../src/schema/schema-introspector';
+
+// Mock SchemaIntrospector
+jest.mock('../src/schema/schema-introspector', () => ({ SchemaIntrospector: jest.fn() }));
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+function column(name: string, type: string, extra: Partial<DatabaseColumn> = {}): DatabaseColumn {
+  return { name, type, isNullable: false, defaultValue: null, isPrimaryKey: false, isForeignKey: false, ...extra };
+}
+
+const gearTable: DatabaseTable = {
+  name: 'gear',
+  schema: 'public',
+  columns: [
+    column('id', 'uuid', { isPrimaryKey: true, defaultValue: 'gen_random_uuid()' }),
+    column('name', 'character varying', { maxLength: 20 }),
+    column('category', 'USER-DEFINED', { enumValues: ['backpacking', 'car-camping'] }),
+    column('price', 'numeric'),
+    column('weight_grams', 'integer', { isNullable: true }),
+    column('created_at', 'timestamp with time zone', { defaultValue: 'now()' })
+  ],
+  constraints: [
+    { name: 'gear_price_check', type: 'CHECK', columns: ['price'], checkDefinition: 'CHECK ((price >= (0)::numeric))', isDeferrable: false }
+  ],
+  indexes: [],
+  triggers: [],
+  rowCount: 0,
+  hasData: false
+};
+
+const shape = tableShapeFrom(gearTable);
+const valid = { name: 'Ridgeline 45L', category: 'backpacking', price: 189.5, weight_grams: 1450 };
+
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  prompts: string[] = [];
+
+  constructor(private responses: any[]) {}
+
+  async checkHealth(): Promise<ConnectionStatus> {
+    return { connected: true, availableModels: ['scripted'], recommendedModel: 'scripted' };
+  }
+
+  async generateText(): Promise<string> {
+    throw new Error('not scripted');
+  }
+
+  async generateJSON<T = any>(prompt: string): Promise<T> {
+    this.prompts.push(prompt);
+    if (this.responses.length === 0) {
+      throw new Error('script exhausted');
+    }
+    return JSON.parse(JSON.stringify(this.responses.shift()));
+  }
+}
+
+describe('AI record validation', () => {
+  describe('validateRecord', () => {
+    test('accepts records that match the table', () => {
+      expect(validateRecord(valid, shape)).toEqual([]);
+      expect(validateRecord({ ...valid, weight_grams: null, created_at: '2026-03-01T10:00:00Z' }, shape)).toEqual([]);
+    });
+
+    test('reports types, enum values, lengths, nulls, unknown columns and checks', () => {
+      const errors = validateRecord({
+        name: 'An extremely long backpack name',
+        category: 'glamping',
+        price: -5,
+        weight_grams: 12.5,
+        colour: 'red'
+      }, shape);
+
+      expect(errors).toEqual([
+        'colour: column does not exist on gear',
+        'name: longer than 20 characters',
+        'category: must be one of backpacking, car-camping',
+        'weight_grams: expected an integer, got 12.5',
+        'violates gear_price_check: CHECK ((price >= (0)::numeric))'
+      ]);
+      expect(validateRecord({ category: 'backpacking', price: '12' }, shape)).toEqual([
+        'name: must not be null',
+        'price: expected a number, got "12"'
+      ]);
+      expect(validateRecord('gear', shape)).toEqual(['record is not an object']);
+    });
+
+    test('leaves primary and foreign keys to the database and the seeder', () => {
+      const withOwner = tableShapeFrom({
+        ...gearTable,
+        columns: [column('id', 'uuid', { isPrimaryKey: true }), ...gearTable.columns.slice(1), column('owner_id', 'uuid', { isForeignKey: true })]
+      });
+
+      expect(validateRecord(valid, withOwner)).toEqual([]);
+      expect(validateRecord({ ...valid, owner_id: 'nobody' }, withOwner)).toEqual(['owner_id: expected a UUID, got "nobody"']);
+    });
+
+    test('collects failures by position', () => {
+      const result = validateRecords([valid, { ...valid, price: -1 }, valid], shape);
+      expect(result.valid).toBe(2);
+      expect(result.failures.map(failure => failure.index)).toEqual([1]);
+    });
+  });
+
+  test('tableShapeFrom adds plain require rules discovered on the same table', () => {
+    const rule = (table: string, condition: string) => ({
+      id: condition, name: `rule_${table}`, type: 'dependency' as const, table, condition, action: 'require' as const,
+      confidence: 0.7, sqlPattern: '', dependencies: []
+    });
+    const withRules = tableShapeFrom(gearTable, [rule('gear', 'weight_grams > 0'), rule('accounts', 'is_personal_account = true')]);
+
+    expect(withRules.checks.map(check => check.name)).toEqual(['gear_price_check', 'rule_gear']);
+    expect(validateRecord({ ...valid, weight_grams: 0 }, withRules)).toEqual(['violates rule_gear: weight_grams > 0']);
+  });
+
+  describe('generateSeedData', () => {
+    let cache: AIResponseCache;
+    const context = { table: 'gear', domain: 'outdoor' };
+
+    beforeEach(() => {
+      cache = new AIResponseCache({ persistToDisk: false });
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    const generate = (provider: LLMProvider, tableShape: TableShape | undefined, repairAttempts?: number) =>
+      new AIAssetGenerator(provider, new DomainPromptEngine(), cache)
+        .generateSeedData('gear', 3, context, { useCache: false, tableShape, repairAttempts, faker });
+
+    test('sends failing records back with their errors and keeps the repairs', async () => {
+      const provider = new ScriptedProvider([
+        { records: [valid, { ...valid, category: 'glamping' }, { ...valid, name: 'Summit', price: -20 }] },
+        { records: [{ ...valid, category: 'car-camping' }, { ...valid, name: 'Summit', price: 20 }] }
+      ]);
+
+      const result = await generate(provider, shape);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata.repairs).toEqual({ invalid: 2, repaired: 2, fallback: 0, attempts: 1 });
+      expect(result.data.records).toEqual([valid, { ...valid, category: 'car-camping' }, { ...valid, name: 'Summit', price: 20 }]);
+      expect(provider.prompts[1]).toContain('category: must be one of backpacking, car-camping');
+      expect(provider.prompts[1]).toContain('violates gear_price_check');
+      expect(provider.prompts[1]).toContain('exactly 2 corrected records');
+    });
+
+    test('retries the records that are still invalid and falls back to Faker.js after the last attempt', async () => {
+      faker.seed(42);
+      const provider = new ScriptedProvider([
+        { records: [valid, { ...valid, price: -1 }, { ...valid, price: -2 }] },
+        { records: [{ ...valid, price: 1 }, { ...valid, price: -3 }] },
+        { records: [{ ...valid, price: -4 }] }
+      ]);
+
+      const result = await generate(provider, shape, 2);
+
+      expect(provider.prompts).toHaveLength(3);
+      expect(provider.prompts[2]).toContain('"price":-3');
+      expect(result.metadata.repairs).toEqual({ invalid: 2, repaired: 1, fallback: 1, attempts: 2 });
+      expect(result.data.records[1]).toEqual({ ...valid, price: 1 });
+      expect(validateRecord(result.data.records[2], shape)).toEqual([]);
+      expect(result.warnings).toContain('1 records still failed validation after 2 repair attempts and were generated with Faker.js');
+    });
+
+    test('falls back when a repair request fails outright', async () => {
+      const provider = new ScriptedProvider([{ records: [valid, { ...valid, price: -1 }, valid] }]);
+
+      const result = await generate(provider, shape, 1);
+
+      expect(result.metadata.repairs).toEqual({ invalid: 1, repaired: 0, fallback: 1, attempts: 1 });
+      expect(validateRecords(result.data.records, shape).failures).toEqual([]);
+    });
+
+    test('validates against the shapes introspected from the database', async () => {
+      const introspectSchema = jest.fn(async () => ({ tables: [gearTable], constraints: {} }));
+      (SchemaIntrospector as unknown as jest.Mock).mockImplementation(() => ({ introspectSchema }));
+      const provider = new ScriptedProvider([
+        { records: [valid, { ...valid, price: -1 }] },
+        { records: [{ ...valid, price: 1 }] },
+        { records: [valid] }
+      ]);
+      const generator = new AIAssetGenerator(provider, new DomainPromptEngine(), cache, introspectedTableShapes({}));
+
+      const result = await generator.generateSeedData('gear', 2, context, { useCache: false });
+      const other = await generator.generateSeedData('campsites', 1, { ...context, table: 'campsites' }, { useCache: false });
+
+      expect(result.metadata.repairs).toEqual({ invalid: 1, repaired: 1, fallback: 0, attempts: 1 });
+      expect(result.data.records).toEqual([valid, { ...valid, price: 1 }]);
+      expect(other.metadata.repairs).toBeUndefined();
+      expect(introspectSchema).toHaveBeenCalledTimes(1);
+    });
+
+    test('leaves records untouched without a table shape', async () => {
+      const provider = new ScriptedProvider([{ records: [{ ...valid, price: -1 }] }]);
+
+      const result = await generate(provider, undefined);
+
+      expect(result.metadata.repairs).toBeUndefined();
+      expect(result.data.records).toEqual([{ ...valid, price: -1 }]);
+      expect(provider.prompts).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Test suite for auth user states
+ * Verifies configured shares of generated users are put into reproducible
+ * states, created through the admin API or as bulk auth rows, and that
+ * OAuth-only users get provider identities instead of a password
+ */
+
+import { AuthStateSeeder, assignAuthStates, validateAuthStates } from '../src/auth/auth-states';
+import { BulkAuthWriter } from '../src/auth/bulk-auth-writer';
+import { DATABASE_BACKEND, DatabaseBackend } from '../src/core/database/database-backend';
+import { SeedDeterminism } from '../src/core/utils/seed-determinism';
+import { SqlCaptureClient } from '../src/features/output/sql-capture-client';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const REFERENCE = new Date('2025-01-01T00:00:00.000Z');
+
+function pinned(seed = 'auth-states'): SeedDeterminism {
+  return new SeedDeterminism(seed, { pinned: true, referenceDate: REFERENCE });
+}
+
+function tally(states: string[]): Record<string, number> {
+  return states.reduce((counts, state) => ({ ...counts, [state]: (counts[state] || 0) + 1 }), {} as Record<string, number>);
+}
+
+function createBackend(): DatabaseBackend & { query: jest.Mock; bulkInsert: jest.Mock } {
+  return {
+    kind: 'postgres',
+    query: jest.fn(async (sql: string, params: any[] = []): Promise<any[]> =>
+      sql.includes('extensions.crypt') ? [{ hash: `$2a$10$hash-of-${params[0]}` }] : []),
+    bulkInsert: jest.fn(async (_table: string, rows: any[]) => rows),
+    close: jest.fn(async () => undefined)
+  };
+}
+
+/**
+ * Admin API that answers like GoTrue, over a direct backend for identities
+ */
+function createClient() {
+  const backend = createBackend();
+  const admin = {
+    createUser: jest.fn(async (attributes: any) => ({ data: { user: { id: USER_ID, ...attributes } }, error: null })),
+    generateLink: jest.fn(async (params: any) => ({ data: { user: { id: USER_ID, email: params.email } }, error: null })),
+    deleteUser: jest.fn(async () => ({ data: {}, error: null }))
+  };
+  const client: any = { auth: { admin }, [DATABASE_BACKEND]: backend };
+  return { client, admin, backend };
+}
+
+describe('assignAuthStates', () => {
+  test('assigns rounded counts of each state, the same users for the same seed', () => {
+    const shares = { unconfirmed: 0.1, banned: 0.05, oauthOnly: 0.125 };
+    const states = assignAuthStates(100, shares, pinned());
+
+    expect(tally(states)).toEqual({ unconfirmed: 10, banned: 5, oauthOnly: 13, confirmed: 72 });
+    expect(assignAuthStates(100, shares, pinned())).toEqual(states);
+    expect(assignAuthStates(100, shares, pinned('other seed'))).not.toEqual(states);
+  });
+
+  test('leaves every user confirmed without states and never assigns more users than asked for', () => {
+    expect(assignAuthStates(3, undefined, pinned())).toEqual(['confirmed', 'confirmed', 'confirmed']);
+    expect(tally(assignAuthStates(3, { unconfirmed: 0.5, invited: 0.5 }, pinned()))).toEqual({ unconfirmed: 2, invited: 1 });
+  });
+});
+
+describe('validateAuthStates', () => {
+  test('reports unknown states, bad shares and unsupported providers', () => {
+    expect(validateAuthStates({ states: { unconfirmed: 0.2, softDeleted: 0.1 }, oauthProviders: ['github'] })).toEqual([]);
+    expect(validateAuthStates({
+      states: { unconfirmed: 0.7, banned: 0.6, locked: 0.1, invited: -1 } as any,
+      oauthProviders: ['github', 'slack']
+    })).toEqual([
+      'authUsers.states.locked: unknown state, expected one of unconfirmed, invited, banned, oauthOnly, passwordReset, softDeleted',
+      'authUsers.states.invited: must be a share between 0 and 1',
+      'authUsers.states: shares add up to 1.3, more than 1',
+      "authUsers.oauthProviders: 'slack' is not one of github, google, discord, apple"
+    ]);
+  });
+});
+
+describe('AuthStateSeeder', () => {
+  const user = { email: 'user@supaseed.test', password: 'pw', userMetadata: { full_name: 'User' } };
+
+  test('creates users in each state through the admin API', async () => {
+    const { client, admin } = createClient();
+    const seeder = new AuthStateSeeder(client, { determinism: pinned() });
+
+    await seeder.createUser(user, 'unconfirmed');
+    expect(admin.createUser).toHaveBeenLastCalledWith(expect.objectContaining({ email_confirm: false, password: 'pw' }));
+
+    await seeder.createUser(user, 'banned');
+    expect(admin.createUser).toHaveBeenLastCalledWith(expect.objectContaining({ email_confirm: true, ban_duration: '876000h' }));
+
+    expect(await seeder.createUser(user, 'invited')).toEqual({ id: USER_ID });
+    expect(admin.generateLink).toHaveBeenCalledWith({ type: 'invite', email: 'user@supaseed.test', options: { data: { full_name: 'User' } } });
+
+    await seeder.createUser(user, 'passwordReset');
+    expect(admin.generateLink).toHaveBeenCalledWith({ type: 'recovery', email: 'user@supaseed.test' });
+
+    await seeder.createUser(user, 'softDeleted');
+    expect(admin.deleteUser).toHaveBeenCalledWith(USER_ID, true);
+  });
+
+  test('gives OAuth-only users provider identities and no password', async () => {
+    const { client, admin, backend } = createClient();
+    const seeder = new AuthStateSeeder(client, { oauthProviders: ['github', 'google'] });
+
+    expect(await seeder.createUser(user, 'oauthOnly')).toEqual({ id: USER_ID });
+
+    const attributes = admin.createUser.mock.calls[0][0];
+    expect(attributes.password).toBeUndefined();
+    expect(attributes.app_metadata).toEqual({ provider: 'github', providers: ['github', 'google'] });
+    expect(backend.query).toHaveBeenCalledWith("DELETE FROM auth.identities WHERE user_id = $1 AND provider = 'email'", [USER_ID]);
+
+    const identities = backend.bulkInsert.mock.calls.map(([table, rows]) => ({ table, ...rows[0] }));
+    expect(identities).toEqual([
+      expect.objectContaining({ table: 'auth.identities', user_id: USER_ID, provider: 'github', provider_id: expect.stringMatching(/^github_user_/) }),
+      expect.objectContaining({ table: 'auth.identities', user_id: USER_ID, provider: 'google', provider_id: expect.stringMatching(/^google_user_/) })
+    ]);
+  });
+
+  test('takes identity ids, timestamps and provider ids from the seed run', async () => {
+    const identities = async () => {
+      const { client, backend } = createClient();
+      await new AuthStateSeeder(client, { determinism: pinned() }).createUser(user, 'oauthOnly');
+      return backend.bulkInsert.mock.calls.map(([, rows]) => rows[0]);
+    };
+
+    const [first, second] = [await identities(), await identities()];
+    expect(first).toEqual(second);
+    expect(first[0]).toMatchObject({ created_at: REFERENCE.toISOString(), last_sign_in_at: REFERENCE.toISOString() });
+    expect(first[0].id).not.toBe(first[1].id);
+  });
+
+  test('shapes bulk auth rows for each state', async () => {
+    const backend = createBackend();
+    const seeder = new AuthStateSeeder({ [DATABASE_BACKEND]: backend } as any, { determinism: pinned() });
+    const writer = new BulkAuthWriter({ [DATABASE_BACKEND]: backend }, { supabaseUrl: 'http://127.0.0.1:54321', determinism: pinned() });
+
+    const states = ['invited', 'banned', 'oauthOnly', 'passwordReset', 'softDeleted'] as const;
+    await writer.createUsers(states.map(state => seeder.toBulkUser({ email: `${state}@supaseed.test` }, state)));
+
+    const [[, rows], [, identities]] = backend.bulkInsert.mock.calls;
+    const [invited, banned, oauthOnly, passwordReset, softDeleted] = rows;
+
+    expect(invited).toMatchObject({ encrypted_password: '', email_confirmed_at: null, invited_at: REFERENCE });
+    expect(invited.confirmation_token).toMatch(/^[0-9a-f]{56}$/);
+    expect(banned.banned_until.getUTCFullYear()).toBe(2124);
+    expect(oauthOnly).toMatchObject({ encrypted_password: '', raw_app_meta_data: { provider: 'github', providers: ['github', 'google'] } });
+    expect(passwordReset).toMatchObject({ recovery_sent_at: REFERENCE, encrypted_password: '$2a$10$hash-of-password123' });
+    expect(passwordReset.recovery_token).toMatch(/^[0-9a-f]{56}$/);
+    expect(softDeleted).toMatchObject({ deleted_at: REFERENCE });
+    expect(identities.map((identity: any) => identity.user_id)).not.toContain(oauthOnly.id);
+    expect(identities.map((identity: any) => identity.user_id)).not.toContain(softDeleted.id);
+    expect(identities).toHaveLength(3);
+  });
+
+  test('soft deletes bulk rows the way the admin API does', async () => {
+    const database = new SqlCaptureClient({ seed: 'auth-states' });
+    const { id } = await new AuthStateSeeder(database as any, { determinism: pinned() }).createUser(user, 'softDeleted');
+    const adminRow = database.getRows('auth.users')[0];
+
+    const backend = createBackend();
+    const writer = new BulkAuthWriter({ [DATABASE_BACKEND]: backend }, { supabaseUrl: 'http://127.0.0.1:54321', determinism: pinned() });
+    const seeder = new AuthStateSeeder({ [DATABASE_BACKEND]: backend } as any, { determinism: pinned() });
+    const result = await writer.createUsers([seeder.toBulkUser({ id, email: user.email, password: user.password, userMetadata: user.userMetadata }, 'softDeleted')]);
+    const bulkRow = backend.bulkInsert.mock.calls[0][1][0];
+
+    const { deleted_at: adminDeletedAt, created_at, updated_at, email_confirmed_at, ...adminColumns } = adminRow;
+    const shared = Object.fromEntries(Object.keys(adminColumns).map(column => [column, bulkRow[column]]));
+    expect(shared).toEqual(adminColumns);
+    expect(adminRow.email).not.toContain('supaseed.test');
+    expect(adminRow.encrypted_password).toBeNull();
+    expect(adminDeletedAt).toBeDefined();
+    expect(bulkRow.deleted_at).toEqual(REFERENCE);
+
+    // Neither keeps an identity, and the seeder still learns the address it asked for
+    expect(database.getRows('auth.identities')).toEqual([]);
+    expect(backend.bulkInsert.mock.calls.map(([table]) => table)).toEqual(['auth.users']);
+    expect(result.created).toEqual([{ id, email: user.email, password: 'pw' }]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Test suite for bulk auth user writes
+ * Verifies users are written to auth.users and auth.identities in one batch
+ * each, shaped the way GoTrue stores them, with one bcrypt hash per distinct
+ * password, and that bulk written users are rolled back as auth users
+ */
+
+import { BulkAuthWriter } from '../src/auth/bulk-auth-writer';
+import { DATABASE_BACKEND, DatabaseBackend } from '../src/core/database/database-backend';
+import { SeedDeterminism } from '../src/core/utils/seed-determinism';
+import { createRecordingClient } from '../src/features/manifest/recording-client';
+import { SeedRunRecorder } from '../src/features/manifest/run-manifest';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+const LOCAL_URL = 'http://127.0.0.1:54321';
+
+/**
+ * Direct backend over a database that already holds `registered` emails and
+ * hashes passwords like pgcrypto would
+ */
+function createBackend(registered: string[] = []): DatabaseBackend & { query: jest.Mock; bulkInsert: jest.Mock } {
+  return {
+    kind: 'postgres',
+    query: jest.fn(async (sql: string, params: any[] = []): Promise<any[]> => {
+      if (sql.includes('FROM auth.users')) {
+        return registered.filter(email => params[0].includes(email)).map(email => ({ email }));
+      }
+      if (sql.includes('extensions.crypt')) {
+        return [{ hash: `$2a$${params[1]}$hash-of-${params[0]}` }];
+      }
+      return [];
+    }),
+    bulkInsert: jest.fn(async (_table: string, rows: any[]) => rows),
+    close: jest.fn(async () => undefined)
+  };
+}
+
+function clientFor(backend: DatabaseBackend): any {
+  return { [DATABASE_BACKEND]: backend };
+}
+
+describe('BulkAuthWriter', () => {
+  test('writes thousands of users with one COPY per auth table and one hash per password', async () => {
+    const backend = createBackend();
+    const writer = new BulkAuthWriter(clientFor(backend), { supabaseUrl: LOCAL_URL, defaultPassword: 'seeded-pw' });
+
+    const users = Array.from({ length: 5000 }, (_, index) => ({
+      email: `User${index}@supaseed.test`,
+      password: index === 0 ? 'admin-pw' : undefined,
+      confirmed: index % 2 === 0,
+      userMetadata: { full_name: `User ${index}` }
+    }));
+    const result = await writer.createUsers(users);
+
+    expect(result.created).toHaveLength(5000);
+    expect(result.failed).toEqual([]);
+    expect(backend.bulkInsert).toHaveBeenCalledTimes(2);
+    expect(backend.query.mock.calls.filter(([sql]) => sql.includes('crypt'))).toEqual([
+      [expect.any(String), ['admin-pw', 10]],
+      [expect.any(String), ['seeded-pw', 10]]
+    ]);
+
+    const [[usersTable, userRows], [identitiesTable, identityRows]] = backend.bulkInsert.mock.calls;
+    expect(usersTable).toBe('auth.users');
+    expect(identitiesTable).toBe('auth.identities');
+    expect(userRows[0]).toMatchObject({
+      instance_id: '00000000-0000-0000-0000-000000000000',
+      aud: 'authenticated',
+      role: 'authenticated',
+      email: 'user0@supaseed.test',
+      encrypted_password: '$2a$10$hash-of-admin-pw',
+      email_confirmed_at: expect.any(Date),
+      confirmation_sent_at: null,
+      raw_app_meta_data: { provider: 'email', providers: ['email'] },
+      raw_user_meta_data: { full_name: 'User 0' },
+      confirmation_token: '',
+      recovery_token: '',
+      email_change_token_new: '',
+      email_change: ''
+    });
+    expect(userRows[1]).toMatchObject({
+      encrypted_password: '$2a$10$hash-of-seeded-pw',
+      email_confirmed_at: null,
+      confirmation_sent_at: expect.any(Date)
+    });
+    expect(identityRows[1]).toMatchObject({
+      user_id: userRows[1].id,
+      provider_id: userRows[1].id,
+      provider: 'email',
+      identity_data: { sub: userRows[1].id, email: 'user1@supaseed.test', email_verified: false }
+    });
+  });
+
+  test('takes ids and timestamps from the seed run', async () => {
+    const write = async () => {
+      const backend = createBackend();
+      const writer = new BulkAuthWriter(clientFor(backend), {
+        supabaseUrl: LOCAL_URL,
+        determinism: new SeedDeterminism('bulk-auth', { pinned: true })
+      });
+      await writer.createUsers([{ email: 'a@supaseed.test' }, { id: 'fixed-id', email: 'b@supaseed.test' }]);
+      return backend.bulkInsert.mock.calls[0][1];
+    };
+
+    const [first, second] = [await write(), await write()];
+    expect(first).toEqual(second);
+    expect(first[1].id).toBe('fixed-id');
+    expect(first[0].created_at.toISOString()).toBe(first[1].created_at.toISOString());
+  });
+
+  test('writes users and their identities in one transaction', async () => {
+    const backend = createBackend();
+    const transaction = jest.fn(async (work: (tx: DatabaseBackend) => Promise<any>) => work(backend));
+    const writer = new BulkAuthWriter(clientFor({ ...backend, transaction }), { supabaseUrl: LOCAL_URL });
+
+    await writer.createUsers([{ email: 'a@supaseed.test' }]);
+
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(backend.bulkInsert.mock.calls.map(([table]) => table)).toEqual(['auth.users', 'auth.identities']);
+  });
+
+  test('reports emails that are registered or repeated instead of failing the batch', async () => {
+    const backend = createBackend(['taken@supaseed.test']);
+    const writer = new BulkAuthWriter(clientFor(backend), { supabaseUrl: LOCAL_URL });
+
+    const result = await writer.createUsers([
+      { email: 'Taken@supaseed.test' },
+      { email: 'new@supaseed.test' },
+      { email: 'NEW@supaseed.test' }
+    ]);
+
+    expect(result.created.map(user => user.email)).toEqual(['new@supaseed.test']);
+    expect(result.failed).toEqual([
+      { email: 'Taken@supaseed.test', error: 'A user with this email address has already been registered' },
+      { email: 'NEW@supaseed.test', error: 'A user with this email address has already been registered' }
+    ]);
+  });
+
+  test('only writes to local stacks over a direct connection', async () => {
+    const remote = new BulkAuthWriter(clientFor(createBackend()), { supabaseUrl: 'https://abcdefghijklmnop.supabase.co' });
+    await expect(remote.createUsers([{ email: 'a@supaseed.test' }])).rejects.toThrow('local Supabase stack');
+
+    const postgrest = { rpc: jest.fn(), from: jest.fn() };
+    expect(BulkAuthWriter.supports(postgrest, LOCAL_URL)).toBe(false);
+    expect(BulkAuthWriter.supports(clientFor(createBackend()), LOCAL_URL)).toBe(true);
+  });
+
+  test('records bulk written users as auth users in the run manifest', async () => {
+    const recorder = new SeedRunRecorder({ supabaseUrl: LOCAL_URL, seed: 'bulk-auth' });
+    const client = createRecordingClient(clientFor(createBackend()), recorder);
+
+    const result = await new BulkAuthWriter(client, { supabaseUrl: LOCAL_URL }).createUsers([{ email: 'a@supaseed.test' }]);
+
+    const manifest = recorder.getManifest();
+    expect(manifest.authUserIds).toEqual([result.created[0].id]);
+    expect(manifest.tables).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Test suite for cardinality distributions
+ * Verifies child counts are drawn reproducibly from the seed with the
+ * configured shape, clamped to their bounds, split exactly when a total is
+ * fixed, and that malformed specs are reported
+ */
+
+import { CardinalitySampler, validateCardinality } from '../src/features/generation/cardinality';
+import { JunctionTableHandler } from '../src/schema/junction-table-handler';
+import { SeedDeterminism } from '../src/core/utils/seed-determinism';
+import { CardinalitySpec, SeedConfig } from '../src/core/types/types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+function draws(spec: CardinalitySpec, count: number, seed = 'cardinality-test'): number[] {
+  const stream = new SeedDeterminism(seed, { pinned: true });
+  const sampler = new CardinalitySampler(spec, () => stream.random());
+  return Array.from({ length: count }, () => sampler.next());
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+describe('CardinalitySampler', () => {
+  test('draws the same counts for the same seed and independent streams per relationship', () => {
+    const config = {
+      seed: 'feed',
+      cardinality: { 'users.setups': { distribution: 'poisson', mean: 3 }, 'setups.setup_items': { distribution: 'poisson', mean: 3 } }
+    } as unknown as SeedConfig;
+    const sample = (relationship: string) => {
+      const sampler = CardinalitySampler.forRelationship(config, relationship, new SeedDeterminism('feed', { pinned: true }))!;
+      return Array.from({ length: 20 }, () => sampler.next());
+    };
+
+    expect(sample('users.setups')).toEqual(sample('users.setups'));
+    expect(sample('users.setups')).not.toEqual(sample('setups.setup_items'));
+    expect(CardinalitySampler.forRelationship(config, 'setups.media_attachments', new SeedDeterminism('feed'))).toBeUndefined();
+  });
+
+  test('poisson and normal draws centre on the mean and respect min and max', () => {
+    const poisson = draws({ distribution: 'poisson', mean: 4 }, 2000);
+    expect(mean(poisson)).toBeCloseTo(4, 0);
+    expect(Math.min(...poisson)).toBe(0);
+
+    const largePoisson = draws({ distribution: 'poisson', mean: 200 }, 500);
+    expect(mean(largePoisson)).toBeGreaterThan(195);
+    expect(mean(largePoisson)).toBeLessThan(205);
+
+    const normal = draws({ distribution: 'normal', mean: 5, stdDev: 4, min: 1, max: 8 }, 2000);
+    expect(Math.min(...normal)).toBe(1);
+    expect(Math.max(...normal)).toBe(8);
+    expect(normal.every(Number.isInteger)).toBe(true);
+  });
+
+  test('zipf gives most parents few children and a few parents many', () => {
+    const counts = draws({ distribution: 'zipf', max: 50, exponent: 1.5 }, 2000);
+    const ones = counts.filter(count => count === 1).length;
+    const powerUsers = counts.filter(count => count >= 20).length;
+
+    expect(Math.min(...counts)).toBe(1);
+    expect(Math.max(...counts)).toBeLessThanOrEqual(50);
+    expect(ones / counts.length).toBeGreaterThan(0.3);
+    expect(powerUsers).toBeGreaterThan(0);
+    expect(powerUsers / counts.length).toBeLessThan(0.1);
+  });
+
+  test('histogram and fixed counts only produce the configured values', () => {
+    const counts = draws({ distribution: 'histogram', weights: { '0': 3, '2': 6, '10': 1, '99': 0 } }, 2000);
+    const share = (value: number) => counts.filter(count => count === value).length / counts.length;
+
+    expect(new Set(counts)).toEqual(new Set([0, 2, 10]));
+    expect(share(2)).toBeCloseTo(0.6, 1);
+    expect(share(10)).toBeCloseTo(0.1, 1);
+    expect(draws(4, 5)).toEqual([4, 4, 4, 4, 4]);
+  });
+
+  test('distribute splits a fixed total in proportion to the draws', () => {
+    const stream = new SeedDeterminism('split', { pinned: true });
+    const sampler = new CardinalitySampler({ distribution: 'zipf', max: 20 }, () => stream.random());
+
+    const counts = sampler.distribute(100, 12);
+    expect(counts).toHaveLength(12);
+    expect(counts.reduce((sum, count) => sum + count, 0)).toBe(100);
+    expect(Math.max(...counts)).toBeGreaterThan(Math.min(...counts));
+
+    expect(new CardinalitySampler(0, Math.random).distribute(7, 3)).toEqual([3, 2, 2]);
+    expect(sampler.distribute(5, 0)).toEqual([]);
+  });
+
+  test('junction tables draw relationships per left row from the config with the seed', async () => {
+    const config = { seed: 'junction', cardinality: { 'users.team_members': { distribution: 'histogram', weights: { '1': 1, '3': 1 } } } } as unknown as SeedConfig;
+    const users = Array.from({ length: 20 }, (_, index) => ({ id: `u${index}` }));
+    const teams = Array.from({ length: 5 }, (_, index) => ({ id: `t${index}` }));
+
+    const seed = async () => {
+      const inserted: any[] = [];
+      const client: any = {
+        from: (table: string) => ({
+          select: () => ({ limit: async () => ({ data: table === 'users' ? users : teams, error: null }) }),
+          insert: (rows: any[]) => ({ select: async () => { inserted.push(...rows); return { data: rows, error: null }; } })
+        })
+      };
+      const handler = new JunctionTableHandler(client, config);
+      (handler as any).detectedJunctionTables.set('team_members', {
+        tableName: 'team_members', leftTable: 'users', leftColumn: 'user_id', rightTable: 'teams', rightColumn: 'team_id', additionalColumns: []
+      });
+
+      const result = await handler.seedJunctionTable('team_members', { includeTimestamps: false });
+      expect(result.success).toBe(true);
+      return inserted;
+    };
+
+    const rows = await seed();
+    const perUser = users.map(user => rows.filter(row => row.user_id === user.id));
+    expect(perUser.every(memberships => [1, 3].includes(memberships.length))).toBe(true);
+    expect(perUser.every(memberships => new Set(memberships.map(row => row.team_id)).size === memberships.length)).toBe(true);
+    expect(await seed()).toEqual(rows);
+  });
+
+  test('validateCardinality reports malformed specs', () => {
+    expect(validateCardinality({
+      'users.setups': { distribution: 'poisson', mean: 2 },
+      setups: 3,
+      'setups.images': -1,
+      'setups.tags': { distribution: 'binomial' } as any,
+      'users.posts': { distribution: 'zipf' } as any,
+      'users.likes': { distribution: 'normal', mean: 3, stdDev: 1, min: 5, max: 2 },
+      'users.comments': { distribution: 'histogram', weights: { 'many': 1 } },
+      'users.follows': { distribution: 'histogram', weights: { '0': 0 } }
+    })).toEqual([
+      "cardinality.setups: key must be 'parent.child', e.g. 'users.setups'",
+      'cardinality.setups.images: a fixed count must be a whole number of 0 or more',
+      'cardinality.setups.tags: must be a count or an object with distribution poisson, zipf, normal, histogram',
+      'cardinality.users.posts: zipf needs a max',
+      'cardinality.users.likes: min must not be greater than max',
+      'cardinality.users.comments: histogram counts must be whole numbers of 0 or more',
+      'cardinality.users.follows: histogram needs at least one count with a weight above 0'
+    ]);
+    expect(validateCardinality(undefined)).toEqual([]);
+  });
+});
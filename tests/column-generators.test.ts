@@ -0,0 +1,213 @@
+/**
+ * Test suite for the column generator DSL
+ * Verifies parsing, validation messages and generation inside the table pipeline
+ */
+
+import { faker } from '@faker-js/faker';
+import {
+  compileColumnGenerators,
+  generateColumnValue,
+  parseColumnGenerator,
+  validateColumnGenerators
+} from '../src/features/generation/column-generators';
+import { TableSeedingPipeline } from '../src/features/generation/table-seeding-pipeline';
+import { SeedConfig, SeedContext } from '../src/core/types/types';
+import { DatabaseColumn, DatabaseTable } from '../src/schema/schema-introspector';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+function column(name: string, type: string, overrides: Partial<DatabaseColumn> = {}): DatabaseColumn {
+  return { name, type, isNullable: true, defaultValue: null, isPrimaryKey: false, isForeignKey: false, ...overrides };
+}
+
+function table(name: string, columns: DatabaseColumn[]): DatabaseTable {
+  return { name, schema: 'public', columns, constraints: [], indexes: [], triggers: [], rowCount: 0, hasData: false };
+}
+
+function createContext(client: any, overrides: Partial<SeedConfig> = {}): SeedContext {
+  return {
+    client,
+    config: {
+      supabaseUrl: 'http://127.0.0.1:54321',
+      supabaseServiceKey: 'key',
+      environment: 'local',
+      userCount: 1,
+      setupsPerUser: 1,
+      imagesPerSetup: 0,
+      enableRealImages: false,
+      seed: 'dsl-test',
+      ...overrides
+    },
+    faker,
+    cache: new Map(),
+    stats: { usersCreated: 0, setupsCreated: 0, imagesUploaded: 0, startTime: new Date() }
+  };
+}
+
+function createMockClient(existing: Record<string, Record<string, any>[]> = {}) {
+  const inserts: Array<{ table: string; rows: Record<string, any>[] }> = [];
+
+  const client: any = {
+    from: jest.fn((tableName: string) => ({
+      insert: (rows: Record<string, any>[]) => {
+        inserts.push({ table: tableName, rows });
+        return { select: async () => ({ data: rows, error: null }) };
+      },
+      select: () => ({
+        limit: async () => ({ data: existing[tableName] || [], error: null })
+      })
+    }))
+  };
+
+  return { client, inserts };
+}
+
+describe('parseColumnGenerator', () => {
+  test('should parse every string form', () => {
+    expect(parseColumnGenerator('faker:person.firstName')).toMatchObject({ kind: 'faker', method: 'person.firstName' });
+    expect(parseColumnGenerator('sequence')).toMatchObject({ kind: 'sequence', start: 1, step: 1 });
+    expect(parseColumnGenerator('enum')).toMatchObject({ kind: 'enum' });
+    expect(parseColumnGenerator('ref:accounts.id')).toMatchObject({ kind: 'ref', table: 'accounts', column: 'id' });
+    expect(parseColumnGenerator('template:"{{first_name}}-{{n}}"')).toMatchObject({
+      kind: 'template',
+      template: '{{first_name}}-{{n}}',
+      fields: ['first_name', 'n']
+    });
+  });
+
+  test('should parse object forms with options', () => {
+    expect(parseColumnGenerator({ generator: 'sequence', start: 1000, step: 10, nullRatio: 0.5 }))
+      .toEqual({ kind: 'sequence', start: 1000, step: 10, nullRatio: 0.5 });
+    expect(parseColumnGenerator({ choices: { free: 8, pro: 2 } })).toEqual({
+      kind: 'choice',
+      choices: [{ value: 'free', weight: 8 }, { value: 'pro', weight: 2 }],
+      nullRatio: 0
+    });
+    expect(parseColumnGenerator({ value: false })).toEqual({ kind: 'value', value: false, nullRatio: 0 });
+  });
+});
+
+describe('validateColumnGenerators', () => {
+  test('should report every invalid declaration with its path', () => {
+    const problems = validateColumnGenerators({
+      accounts: {
+        columns: {
+          name: 'faker:person.nope',
+          code: 'serial',
+          owner: 'ref:accounts',
+          tier: { choices: { free: 0 } },
+          bio: { generator: 'faker:lorem.sentence', nullRatio: 2 },
+          plan: { generator: 'enum', values: ['a', 'b'], weights: [1] },
+          ok: 'faker:person.firstName'
+        }
+      }
+    });
+
+    expect(problems).toEqual([
+      'tables.accounts.columns.name: unknown faker method "person.nope" (e.g. faker:person.firstName)',
+      'tables.accounts.columns.code: unknown generator "serial" (expected one of: faker, sequence, enum, ref, template)',
+      'tables.accounts.columns.owner: ref must name a table and column, e.g. ref:accounts.id (got "accounts")',
+      'tables.accounts.columns.tier: at least one weight must be greater than 0',
+      'tables.accounts.columns.bio: nullRatio must be a number between 0 and 1',
+      'tables.accounts.columns.plan: enum weights must have one weight per value'
+    ]);
+  });
+
+  test('should check declarations against the table when compiling', () => {
+    const accounts = table('accounts', [column('name', 'text'), column('tier', 'text'), column('slug', 'text')]);
+    const { generators, problems } = compileColumnGenerators(accounts, {
+      missing: 'sequence',
+      tier: 'enum',
+      slug: 'template:{{title}}-{{n}}',
+      name: 'faker:person.fullName'
+    });
+
+    expect(Array.from(generators.keys())).toEqual(['name']);
+    expect(problems).toEqual([
+      'column missing does not exist',
+      'tier: enum needs values because the column is not a database enum',
+      'slug: template refers to unknown columns title'
+    ]);
+  });
+});
+
+describe('generateColumnValue', () => {
+  const base = { faker, row: {}, references: new Map<string, any[]>() };
+
+  test('should honour the null ratio and weights', () => {
+    faker.seed(42);
+    const always = parseColumnGenerator({ generator: 'sequence', nullRatio: 1 });
+    expect(generateColumnValue(always, { ...base, index: 0 })).toBeNull();
+
+    const weighted = parseColumnGenerator({ choices: [{ value: 'pro', weight: 1 }, { value: 'free', weight: 0 }] });
+    for (let index = 0; index < 20; index++) {
+      expect(generateColumnValue(weighted, { ...base, index })).toBe('pro');
+    }
+  });
+
+  test('should fill sequences, enums and templates from the row', () => {
+    expect(generateColumnValue(parseColumnGenerator({ generator: 'sequence', start: 100, step: 5 }), { ...base, index: 3 })).toBe(115);
+    expect(['a', 'b']).toContain(generateColumnValue(parseColumnGenerator('enum'), { ...base, index: 0, enumValues: ['a', 'b'] }));
+    expect(generateColumnValue(parseColumnGenerator('template:"{{first}}-{{n}}"'), {
+      ...base,
+      index: 6,
+      row: { first: 'ada' }
+    })).toBe('ada-7');
+  });
+});
+
+describe('TableSeedingPipeline with declared columns', () => {
+  test('should use declared generators and detect the remaining columns', async () => {
+    const { client, inserts } = createMockClient({ accounts: [{ id: 'acc-1' }] });
+    const pipeline = new TableSeedingPipeline(createContext(client, {
+      tables: {
+        members: {
+          count: 3,
+          columns: {
+            first_name: 'faker:person.firstName',
+            handle: 'template:"{{first_name}}-{{n}}"',
+            number: { generator: 'sequence', start: 10 },
+            account_ref: 'ref:accounts.id',
+            role: { choices: { admin: 1 } },
+            nickname: { generator: 'faker:person.firstName', nullRatio: 1 }
+          }
+        }
+      }
+    }));
+
+    const members = table('members', [
+      column('id', 'uuid', { isPrimaryKey: true, defaultValue: 'gen_random_uuid()' }),
+      column('handle', 'text'),
+      column('first_name', 'text'),
+      column('number', 'integer'),
+      column('account_ref', 'uuid'),
+      column('role', 'text'),
+      column('nickname', 'text'),
+      column('email', 'text')
+    ]);
+
+    const result = await pipeline.run(TableSeedingPipeline.createPlan({ tables: [members], patterns: [] }, []));
+
+    expect(result.errors).toEqual([]);
+    expect(inserts[0].rows).toHaveLength(3);
+    inserts[0].rows.forEach((row, index) => {
+      expect(row.handle).toBe(`${row.first_name}-${index + 1}`);
+      expect(row.number).toBe(10 + index);
+      expect(row.account_ref).toBe('acc-1');
+      expect(row.role).toBe('admin');
+      expect(row.nickname).toBeNull();
+      expect(row.email).toMatch(/@supaseed\.test$/);
+      expect(row).not.toHaveProperty('id');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Test suite for seed dry runs
+ * Verifies that planning reads the existing database, predicts constraint
+ * violations and RLS gaps, and never writes
+ */
+
+import { planDryRun } from '../src/features/output/dry-run-planner';
+import { evaluateCheckConstraint } from '../src/features/analysis/check-constraint-evaluator';
+import { DOMAIN_PLUGINS, resolveDomainPlugins } from '../src/features/generation/seeders/domain-plugins';
+import { SeedConfig, SeedContext } from '../src/core/types/types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+const column = (name: string, overrides: Record<string, any> = {}) => ({
+  name,
+  type: 'text',
+  isNullable: true,
+  defaultValue: null,
+  isPrimaryKey: false,
+  isForeignKey: false,
+  ...overrides
+});
+
+const gearTable = {
+  name: 'gear',
+  schema: 'public',
+  columns: [
+    column('id', { type: 'uuid', isNullable: false, defaultValue: 'gen_random_uuid()', isPrimaryKey: true }),
+    column('owner_id', { type: 'uuid', isNullable: false, isForeignKey: true }),
+    column('slug', { isNullable: false }),
+    column('condition')
+  ],
+  constraints: [
+    { name: 'gear_id_not_null', type: 'NOT NULL', columns: ['id'], isDeferrable: false },
+    { name: 'gear_slug_not_null', type: 'NOT NULL', columns: ['slug'], isDeferrable: false },
+    { name: 'gear_slug_key', type: 'UNIQUE', columns: ['slug'], isDeferrable: false },
+    {
+      name: 'gear_owner_id_fkey',
+      type: 'FOREIGN KEY',
+      columns: ['owner_id'],
+      referencedTable: 'profiles',
+      referencedColumns: ['id'],
+      isDeferrable: false
+    },
+    {
+      name: 'gear_condition_check',
+      type: 'CHECK',
+      columns: ['condition'],
+      checkDefinition: "CHECK ((condition = ANY (ARRAY['new'::text, 'used'::text])))",
+      isDeferrable: false
+    }
+  ],
+  indexes: [],
+  triggers: [],
+  rowCount: 1,
+  hasData: true
+};
+
+const mockIntrospect = jest.fn();
+jest.mock('../src/schema/schema-introspector', () => ({
+  SchemaIntrospector: jest.fn().mockImplementation(() => ({ introspectSchema: mockIntrospect }))
+}));
+
+/**
+ * Read-only stand-in for the real database: answers eq/match/limit/single
+ * selects from fixed rows and fails the test on any write
+ */
+function createSourceClient(tables: Record<string, Record<string, any>[]>) {
+  const writes: string[] = [];
+  const query = (table: string) => {
+    let rows = [...(tables[table] || [])];
+    let single = false;
+    const builder: any = {
+      select: () => builder,
+      eq: (name: string, value: any) => { rows = rows.filter(row => row[name] === value); return builder; },
+      match: (values: Record<string, any>) => {
+        rows = rows.filter(row => Object.entries(values).every(([name, value]) => row[name] === value));
+        return builder;
+      },
+      limit: (count: number) => { rows = rows.slice(0, count); return builder; },
+      single: () => { single = true; return builder; },
+      then: (resolve: any, reject: any) => Promise.resolve(
+        single ? { data: rows[0] ?? null, error: null } : { data: rows, error: null, count: rows.length }
+      ).then(resolve, reject)
+    };
+    for (const method of ['insert', 'upsert', 'update', 'delete']) {
+      builder[method] = () => { writes.push(`${method} ${table}`); return builder; };
+    }
+    return builder;
+  };
+
+  return {
+    writes,
+    from: (table: string) => query(table),
+    rpc: jest.fn(async () => ({ data: null, error: { message: 'not found' } }))
+  };
+}
+
+const config: SeedConfig = {
+  supabaseUrl: 'http://127.0.0.1:54321',
+  supabaseServiceKey: 'test-key',
+  environment: 'local',
+  userCount: 2,
+  setupsPerUser: 1,
+  imagesPerSetup: 0,
+  enableRealImages: false,
+  seed: 'dry-run-test',
+  emailDomain: 'supaseed.test'
+};
+
+const schemaInfo = (tables: any[]) => ({
+  tables,
+  relationships: [],
+  patterns: [],
+  constraints: { userCreationConstraints: [], dataIntegrityRules: [], businessLogicConstraints: [] },
+  framework: { type: 'custom', version: '', confidence: 0, evidence: [] },
+  recommendations: []
+});
+
+describe('planDryRun', () => {
+  beforeEach(() => {
+    mockIntrospect.mockReset();
+  });
+
+  test('should predict constraint violations against existing and generated rows', async () => {
+    mockIntrospect.mockResolvedValue(schemaInfo([gearTable]));
+    const source = createSourceClient({
+      profiles: [{ id: 'profile-1' }],
+      gear: [{ id: 'gear-0', owner_id: 'profile-1', slug: 'taken', condition: 'new' }],
+      pg_tables: [{ tablename: 'gear', rowsecurity: true }]
+    });
+
+    const report = await planDryRun(config, source, async (context: SeedContext) => {
+      const { data } = await context.client.from('profiles').select('id').eq('id', 'profile-1').single();
+      const owner = data as { id: string };
+      await context.client.from('gear').insert([
+        { owner_id: owner.id, slug: 'tent', condition: 'used' },
+        { owner_id: owner.id, slug: 'taken', condition: 'new' },
+        { owner_id: 'missing-profile', slug: 'stove', condition: 'broken' }
+      ]);
+      await context.client.from('gear').insert({ owner_id: owner.id, slug: 'tent', condition: 'new' });
+    });
+
+    expect(source.writes).toEqual([]);
+    expect(report.executionOrder).toEqual(['gear']);
+    expect(report.tables).toEqual([
+      expect.objectContaining({ table: 'gear', rows: 4, violations: 4 })
+    ]);
+    expect(report.tables[0].sample).toHaveLength(3);
+    expect(report.violations.map(violation => [violation.row, violation.constraint])).toEqual([
+      [1, 'gear_slug_key'],
+      [2, 'gear_owner_id_fkey'],
+      [2, 'gear_condition_check'],
+      [3, 'gear_slug_key']
+    ]);
+    expect(report.rls).toEqual([
+      expect.objectContaining({ table: 'gear', description: 'No RLS policy found for INSERT operation' })
+    ]);
+  });
+
+  test('should predict auth users whose email is already registered', async () => {
+    mockIntrospect.mockResolvedValue(schemaInfo([]));
+    const listUsers = jest.fn(async ({ page }: { page: number }) => ({
+      data: { users: page === 1 ? [{ email: 'Taken@supaseed.test' }, { email: 'other@supaseed.test' }] : [] },
+      error: null
+    }));
+    const source = { ...createSourceClient({}), auth: { admin: { listUsers } } };
+
+    const report = await planDryRun(config, source, async (context: SeedContext) => {
+      await context.client.auth.admin.createUser({ email: 'new@supaseed.test', password: 'pw' });
+      await context.client.auth.admin.createUser({ email: 'taken@supaseed.test', password: 'pw' });
+    });
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({ table: 'auth.users', row: 1, constraint: 'users_email_partial_key', field: 'email' })
+    ]);
+    expect(report.tables[0]).toEqual(expect.objectContaining({ table: 'auth.users', rows: 2, violations: 1 }));
+    expect(listUsers).toHaveBeenCalledWith({ page: 1, perPage: 1000 });
+  });
+
+  test('should plan the domain seeders without writing when introspection fails', async () => {
+    mockIntrospect.mockRejectedValue(new Error('permission denied'));
+    const source = createSourceClient({});
+
+    const report = await planDryRun(config, source, async context => {
+      for (const name of resolveDomainPlugins(config)) {
+        await new DOMAIN_PLUGINS[name](context).seed();
+      }
+    }, { sampleSize: 1 });
+
+    expect(source.writes).toEqual([]);
+    expect(report.schemaError).toBe('permission denied');
+    expect(report.executionOrder[0]).toBe('auth.users');
+    expect(report.tables.find(plan => plan.table === 'auth.users')).toEqual(
+      expect.objectContaining({ rows: config.userCount })
+    );
+    expect(report.tables.every(plan => plan.sample.length === 1)).toBe(true);
+  });
+});
+
+describe('evaluateCheckConstraint', () => {
+  test.each([
+    ["CHECK ((status = ANY (ARRAY['draft'::text, 'published'::text])))", { status: 'draft' }, true],
+    ["CHECK ((status = ANY (ARRAY['draft'::text, 'published'::text])))", { status: 'archived' }, false],
+    ['CHECK ((price >= (0)::numeric))', { price: -1 }, false],
+    ['CHECK ((starts_at < ends_at))', { starts_at: '2025-01-02', ends_at: '2025-01-01' }, false],
+    ['CHECK (((char_length(name) >= 3) AND (char_length(name) <= 50)))', { name: 'ab' }, false],
+    ["CHECK ((email ~* '^[^@]+@[^@]+$'::text))", { email: 'someone@example.com' }, true],
+    ['CHECK (((rating IS NULL) OR ((rating >= 1) AND (rating <= 5))))', { rating: 7 }, false],
+    ['CHECK ((price >= (0)::numeric))', { price: null }, true],
+    ['CHECK ((price >= (0)::numeric))', {}, undefined],
+    ['CHECK ((is_valid_slug(slug)))', { slug: 'x' }, undefined]
+  ])('%s with %j', (definition, row, expected) => {
+    expect(evaluateCheckConstraint(definition, row)).toBe(expected);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Test suite for seed fixtures
+ * Verifies that credentials, ids, slugs and TOTP secrets are collected from
+ * the seeding client and rendered as JSON, TypeScript and .env files
+ */
+
+import { faker } from '@faker-js/faker';
+import { BulkAuthWriter } from '../src/auth/bulk-auth-writer';
+import { DATABASE_BACKEND } from '../src/core/database/database-backend';
+import { FixtureCollector } from '../src/features/fixtures/fixture-collector';
+import { fixtureFormat, renderFixtures } from '../src/features/fixtures/fixture-renderer';
+import { SeedFixtures } from '../src/features/fixtures/fixture-types';
+import { SeedRunRecorder } from '../src/features/manifest/run-manifest';
+import { createRecordingClient } from '../src/features/manifest/recording-client';
+import { SqlCaptureClient } from '../src/features/output/sql-capture-client';
+import { ScenarioSeeder } from '../src/features/scenarios/scenario-seeder';
+import { parseScenario } from '../src/features/scenarios/scenario-loader';
+import { SeedConfig, SeedContext } from '../src/core/types/types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+const config: SeedConfig = {
+  supabaseUrl: 'http://127.0.0.1:54321',
+  supabaseServiceKey: 'key',
+  environment: 'local',
+  userCount: 1,
+  setupsPerUser: 1,
+  imagesPerSetup: 0,
+  enableRealImages: false,
+  seed: 'fixtures-test',
+  emailDomain: 'acme.test'
+};
+
+const fixtures: SeedFixtures = {
+  version: 1,
+  users: [
+    { key: 'alice', id: 'u1', email: 'alice@acme.test', password: 'pa ss#1', accounts: ['a1'] },
+    { key: 'bob.smith', id: 'u2', email: 'bob@acme.test', totpSecret: 'JBSWY3DPEHPK3PXP', accounts: [] }
+  ],
+  accounts: [
+    { key: 'acme', id: 'a1', table: 'accounts', name: 'Acme', slug: 'acme', ownerId: 'u1', personal: false, members: [] }
+  ]
+};
+
+describe('FixtureCollector', () => {
+  test('should collect users, accounts, memberships and annotations from a seed', async () => {
+    const database = new SqlCaptureClient({ seed: 'fixtures-database' });
+    const recorder = new SeedRunRecorder({ supabaseUrl: config.supabaseUrl, seed: config.seed });
+    const collector = new FixtureCollector();
+    const context: SeedContext = {
+      client: collector.wrap(createRecordingClient(database, recorder)) as any,
+      config,
+      faker,
+      cache: new Map(),
+      stats: { usersCreated: 0, setupsCreated: 0, imagesUploaded: 0, startTime: new Date() },
+      fixtures: collector
+    };
+
+    await new ScenarioSeeder(context, parseScenario({
+      users: { alice: { password: 'alice-password' }, bob: { mfa: true } },
+      teams: { acme: { name: 'Acme', owner: 'alice', members: { bob: 'member' } } }
+    })).seed();
+
+    const result = collector.toFixtures();
+    const [alice, bob] = database.getRows('auth.users');
+    const team = result.accounts.find(account => account.slug === 'acme')!;
+
+    expect(result.users.map(user => [user.key, user.id, user.email, user.password])).toEqual([
+      ['alice', alice.id, 'alice@acme.test', 'alice-password'],
+      ['bob', bob.id, 'bob@acme.test', 'password123']
+    ]);
+    expect(result.users[1].totpSecret).toBe(database.getRows('auth.mfa_factors')[0].secret);
+    expect(team).toEqual(expect.objectContaining({
+      key: 'acme',
+      name: 'Acme',
+      ownerId: alice.id,
+      personal: false,
+      members: [{ userId: alice.id, role: 'owner' }, { userId: bob.id, role: 'member' }]
+    }));
+    expect(result.users[1].accounts).toContain(team.id);
+    // Personal accounts created alongside the users are listed too
+    expect(result.accounts.filter(account => account.personal).map(account => account.ownerId)).toEqual([alice.id, bob.id]);
+  });
+
+  test('should use upserted values when no rows come back and number repeated keys', async () => {
+    const database = new SqlCaptureClient({ seed: 'fixtures-upsert' });
+    const collector = new FixtureCollector();
+    const client = collector.wrap(database);
+
+    await client.auth.admin.createUser({ email: 'sam@one.test', password: 'one', user_metadata: { username: 'sam', role: 'admin' } });
+    await client.auth.admin.createUser({ email: 'sam@two.test', password: 'two', user_metadata: { username: 'sam' } });
+    await client.from('teams').upsert({ id: 'team-1', name: 'Hikers', owner_id: 'nobody' });
+
+    const result = collector.toFixtures();
+    expect(result.users.map(user => [user.key, user.role])).toEqual([['sam', 'admin'], ['sam-2', undefined]]);
+    expect(result.accounts).toEqual([
+      { key: 'Hikers', id: 'team-1', table: 'teams', name: 'Hikers', ownerId: 'nobody', personal: false, members: [] }
+    ]);
+  });
+
+  test('should collect users written in bulk with the passwords behind their hashes', async () => {
+    const backend = {
+      kind: 'postgres' as const,
+      query: async (sql: string, params: any[] = []): Promise<any[]> =>
+        sql.includes('extensions.crypt') ? [{ hash: `$2a$10$hash-of-${params[0]}` }] : [],
+      bulkInsert: async (_table: string, rows: any[]) => rows,
+      close: async () => undefined
+    };
+    const recorder = new SeedRunRecorder({ supabaseUrl: config.supabaseUrl, seed: config.seed });
+    const collector = new FixtureCollector();
+    const client = collector.wrap(createRecordingClient({ [DATABASE_BACKEND]: backend }, recorder));
+
+    const result = await new BulkAuthWriter(client, { supabaseUrl: config.supabaseUrl, defaultPassword: 'Seeded-1' }).createUsers([
+      { email: 'Ann@acme.test', userMetadata: { full_name: 'Ann Lee', username: 'ann' } },
+      { email: 'oauth@acme.test', password: null }
+    ]);
+    result.created.filter(user => user.password).forEach(user => collector.annotateUser(user.id, { password: user.password! }));
+
+    expect(collector.toFixtures().users).toEqual([
+      { key: 'ann', id: result.created[0].id, email: 'ann@acme.test', password: 'Seeded-1', name: 'Ann Lee', username: 'ann', accounts: [] },
+      { key: 'oauth', id: result.created[1].id, email: 'oauth@acme.test', accounts: [] }
+    ]);
+    expect(recorder.getManifest().authUserIds).toEqual(result.created.map(user => user.id));
+  });
+});
+
+describe('renderFixtures', () => {
+  test('should render JSON that parses back to the fixtures', () => {
+    expect(JSON.parse(renderFixtures(fixtures, 'json'))).toEqual(fixtures);
+  });
+
+  test('should render a typed TypeScript module keyed by fixture key', () => {
+    const source = renderFixtures(fixtures, 'ts');
+
+    expect(source).toContain('export type SeededUserKey = "alice" | "bob.smith";');
+    expect(source).toContain('export type SeededAccountKey = "acme";');
+    expect(source).toContain('export const users: Record<SeededUserKey, SeededUser> = {\n  "alice": {\n    "id": "u1",');
+    expect(source).toContain('export default { users, accounts };');
+    expect(renderFixtures({ version: 1, users: [], accounts: [] }, 'ts')).toContain('export type SeededUserKey = never;');
+  });
+
+  test('should render .env variables with quoting where needed', () => {
+    expect(renderFixtures(fixtures, 'env').split('\n')).toEqual([
+      '# Generated by supa-seed --emit-fixtures. Do not edit.',
+      'SEED_USER_ALICE_ID=u1',
+      'SEED_USER_ALICE_EMAIL=alice@acme.test',
+      'SEED_USER_ALICE_PASSWORD="pa ss#1"',
+      'SEED_USER_BOB_SMITH_ID=u2',
+      'SEED_USER_BOB_SMITH_EMAIL=bob@acme.test',
+      'SEED_USER_BOB_SMITH_TOTP_SECRET=JBSWY3DPEHPK3PXP',
+      'SEED_ACCOUNT_ACME_ID=a1',
+      'SEED_ACCOUNT_ACME_SLUG=acme',
+      ''
+    ]);
+  });
+
+  test('should pick the format from the file name', () => {
+    expect(fixtureFormat('e2e/fixtures.json')).toBe('json');
+    expect(fixtureFormat('e2e/fixtures.ts')).toBe('ts');
+    expect(fixtureFormat('e2e/.env.e2e')).toBe('env');
+    expect(fixtureFormat('seed.env')).toBe('env');
+    expect(() => fixtureFormat('fixtures.yaml')).toThrow(/\.json, \.ts or \.env/);
+  });
+});
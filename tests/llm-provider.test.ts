@@ -0,0 +1,208 @@
+/**
+ * Test suite for LLM providers
+ * Verifies the OpenAI-compatible client against a local stub server and that
+ * responses recorded by the AI cache replay deterministically without a model
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLLMProvider } from '../src/ai/llm-provider';
+import { OllamaClient } from '../src/ai/ollama-client';
+import { OpenAICompatibleProvider } from '../src/ai/openai-compatible-provider';
+import { RecordedProvider } from '../src/ai/recorded-provider';
+import { AIResponseCache } from '../src/ai/response-cache';
+import { DomainPromptEngine } from '../src/ai/prompt-engine';
+import { AIAssetGenerator } from '../src/ai/asset-generator';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const records = {
+  records: [
+    { name: 'Ridgeline 45L', email: 'sam@example.com' },
+    { name: 'Summit Day Pack', email: 'lee@example.com' }
+  ]
+};
+
+describe('LLM providers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: any[];
+  let tempDir: string;
+  const caches: AIResponseCache[] = [];
+
+  const newCache = () => {
+    const cache = new AIResponseCache({ persistToDisk: false });
+    caches.push(cache);
+    return cache;
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/v1/models') {
+          res.end(JSON.stringify({ data: [{ id: 'qwen2.5-7b-instruct' }, { id: 'llama-3.1-8b' }] }));
+          return;
+        }
+
+        const request = JSON.parse(body);
+        requests.push({ ...request, authorization: req.headers.authorization });
+        const content = request.response_format ? JSON.stringify(records) : 'A roomy pack for long days.';
+        res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'supa-seed-llm-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    caches.splice(0).forEach(cache => cache.destroy());
+  });
+
+  describe('createLLMProvider', () => {
+    test('defaults to Ollama', () => {
+      const provider = createLLMProvider();
+      expect(provider).toBeInstanceOf(OllamaClient);
+      expect(provider.name).toBe('ollama');
+    });
+
+    test('passes connection settings through', () => {
+      const provider = createLLMProvider({ provider: 'openai-compatible', baseUrl: 'http://localhost:1234/v1/', model: 'local', apiKey: 'k' });
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      expect((provider as OpenAICompatibleProvider).getConfig()).toMatchObject({
+        baseUrl: 'http://localhost:1234/v1',
+        model: 'local',
+        apiKey: 'k'
+      });
+    });
+
+    test('rejects unknown providers and recorded providers without recordings', () => {
+      expect(() => createLLMProvider({ provider: 'gpt' as any })).toThrow('Unknown AI provider "gpt"');
+      expect(() => createLLMProvider({ provider: 'recorded' })).toThrow('at least one recording');
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    test('reports served models and picks the first without a configured model', async () => {
+      const health = await new OpenAICompatibleProvider({ baseUrl }).checkHealth();
+      expect(health).toMatchObject({
+        connected: true,
+        availableModels: ['qwen2.5-7b-instruct', 'llama-3.1-8b'],
+        recommendedModel: 'qwen2.5-7b-instruct'
+      });
+    });
+
+    test('sends chat completions with system prompt, model and API key', async () => {
+      const provider = new OpenAICompatibleProvider({ baseUrl, model: 'llama-3.1-8b', apiKey: 'secret' });
+      const text = await provider.generateText('Describe a pack', 'You write gear copy');
+
+      expect(text).toBe('A roomy pack for long days.');
+      expect(requests[0]).toMatchObject({
+        model: 'llama-3.1-8b',
+        stream: false,
+        authorization: 'Bearer secret',
+        messages: [
+          { role: 'system', content: 'You write gear copy' },
+          { role: 'user', content: 'Describe a pack' }
+        ]
+      });
+    });
+
+    test('requests JSON mode and parses the result', async () => {
+      const provider = new OpenAICompatibleProvider({ baseUrl, model: 'llama-3.1-8b' });
+      await expect(provider.generateJSON('List packs')).resolves.toEqual(records);
+      expect(requests[0].response_format).toEqual({ type: 'json_object' });
+    });
+
+    test('reports an unreachable endpoint as disconnected', async () => {
+      const health = await new OpenAICompatibleProvider({ baseUrl: 'http://127.0.0.1:9/v1', timeout: 1000 }).checkHealth();
+      expect(health.connected).toBe(false);
+      expect(health.error).toBeDefined();
+    });
+  });
+
+  describe('RecordedProvider', () => {
+    test('replays the newest recording, preferring the configured model', async () => {
+      const file = path.join(tempDir, 'export.json');
+      writeFileSync(file, JSON.stringify({
+        entries: [
+          { prompt: 'p', response: { v: 'old' }, model: 'a', timestamp: '2026-01-01T00:00:00Z' },
+          { prompt: 'p', response: { v: 'new' }, model: 'b', timestamp: '2026-02-01T00:00:00Z' }
+        ]
+      }));
+
+      await expect(new RecordedProvider({ recordings: file }).generateJSON('p')).resolves.toEqual({ v: 'new' });
+      await expect(new RecordedProvider({ recordings: file, model: 'a' }).generateJSON('p')).resolves.toEqual({ v: 'old' });
+    });
+
+    test('reads persisted cache entries from a directory', async () => {
+      writeFileSync(path.join(tempDir, 'one.json'), JSON.stringify({ prompt: 'hello', response: 'hi there', model: 'm', timestamp: '2026-01-01T00:00:00Z' }));
+      const provider = new RecordedProvider({ recordings: tempDir });
+
+      expect(await provider.generateText('hello')).toBe('hi there');
+      expect(await provider.checkHealth()).toMatchObject({ connected: true, availableModels: ['m'], recommendedModel: 'm' });
+    });
+
+    test('fails on prompts that were never recorded', async () => {
+      writeFileSync(path.join(tempDir, 'empty.json'), JSON.stringify({ entries: [] }));
+      const provider = new RecordedProvider({ recordings: path.join(tempDir, 'empty.json') });
+
+      await expect(provider.generateJSON('unknown')).rejects.toThrow('No recorded response for prompt');
+      expect((await provider.checkHealth()).connected).toBe(false);
+      expect((await new RecordedProvider({ recordings: path.join(tempDir, 'missing.json') }).checkHealth()).error).toMatch('Recording not found');
+    });
+  });
+
+  test('generateSeedData replays a recorded run without a model', async () => {
+    const context = {
+      table: 'gear',
+      domain: 'outdoor',
+      columns: [{ name: 'name', type: 'text', nullable: false }, { name: 'email', type: 'text', nullable: false }]
+    };
+
+    const recordingCache = newCache();
+    const live = new AIAssetGenerator(new OpenAICompatibleProvider({ baseUrl, model: 'llama-3.1-8b' }), new DomainPromptEngine(), recordingCache);
+    const recorded = await live.generateSeedData('gear', 2, context);
+    expect(recorded.metadata.source).toBe('ai');
+
+    const exportFile = path.join(tempDir, 'ai-cache.json');
+    await recordingCache.exportCache(exportFile);
+
+    const replayed = await Promise.all([1, 2].map(() => new AIAssetGenerator(
+      createLLMProvider({ provider: 'recorded', recordings: exportFile }),
+      new DomainPromptEngine(),
+      newCache()
+    ).generateSeedData('gear', 2, context, { useCache: false })));
+
+    for (const result of replayed) {
+      expect(result.errors).toEqual([]);
+      expect(result.success).toBe(true);
+      expect(result.metadata).toMatchObject({ source: 'ai', model: 'llama-3.1-8b' });
+      expect(result.data).toEqual(recorded.data);
+    }
+    expect(requests).toHaveLength(1);
+  });
+});
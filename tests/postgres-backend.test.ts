@@ -0,0 +1,290 @@
+/**
+ * Test suite for the direct Postgres backend
+ * Verifies catalog routing, COPY-based bulk inserts and the PostgREST fallback
+ */
+
+import { Writable } from 'stream';
+import { PostgresBackend, toCsvField } from '../src/core/database/postgres-backend';
+import { withDatabaseBackend } from '../src/core/database/catalog-client';
+import { DatabaseBackend, getDatabaseBackend } from '../src/core/database/database-backend';
+import { createRecordingClient } from '../src/features/manifest/recording-client';
+import { SeedRunRecorder } from '../src/features/manifest/run-manifest';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+function createBackend(rows: any[] = []): DatabaseBackend & { query: jest.Mock } {
+  return {
+    kind: 'postgres',
+    query: jest.fn(async () => rows),
+    bulkInsert: jest.fn(async (_table: string, inserted: any[]) => inserted.map((row, i) => ({ id: i + 1, ...row }))),
+    close: jest.fn(async () => undefined)
+  };
+}
+
+function createSupabaseMock() {
+  return {
+    from: jest.fn(() => ({
+      insert: (rows: any[]) => ({ select: async () => ({ data: rows.map((row, i) => ({ id: `row-${i}`, ...row })), error: null }) })
+    })),
+    rpc: jest.fn(async () => ({ data: null, error: { message: 'function not found' } }))
+  };
+}
+
+/**
+ * Fake pg pool whose single connection records statements and COPY input
+ */
+function createFakePool(options: { failOn?: string; returning?: (statement: string) => any[] } = {}) {
+  const statements: string[] = [];
+  let copied = '';
+
+  const connection = {
+    // Like pg, a submittable (the COPY stream) is returned as is, text gets a promise
+    query: jest.fn((statement: any): any => {
+      if (typeof statement === 'object') {
+        statements.push(statement.text);
+        return new Writable({
+          write(chunk, _encoding, callback) {
+            copied += chunk.toString();
+            callback();
+          }
+        });
+      }
+
+      statements.push(statement);
+      if (options.failOn && statement.startsWith(options.failOn)) {
+        return Promise.reject(new Error('violates foreign key constraint'));
+      }
+      if (statement.startsWith('INSERT') && options.returning) {
+        return Promise.resolve({ rows: options.returning(statement) });
+      }
+      if (statement.startsWith('INSERT')) {
+        return Promise.resolve({ rowCount: 2, rows: [{ id: 1, name: 'A' }, { id: 2, name: '' }] });
+      }
+      return Promise.resolve({ rows: [] });
+    }),
+    release: jest.fn()
+  };
+
+  const pool: any = {
+    query: jest.fn(async () => ({ rows: [{ name: 'tags', type: 'text[]' }, { name: 'meta', type: 'jsonb' }] })),
+    connect: jest.fn(async () => connection),
+    end: jest.fn(async () => undefined)
+  };
+
+  return { pool, connection, statements, copied: () => copied };
+}
+
+describe('withDatabaseBackend', () => {
+  test('should answer information_schema queries with SQL on the backend', async () => {
+    const backend = createBackend([{ column_name: 'id' }]);
+    const client = withDatabaseBackend(createSupabaseMock(), backend) as any;
+
+    const { data, error } = await client
+      .from('information_schema.columns')
+      .select('column_name, data_type')
+      .eq('table_name', 'posts')
+      .in('table_schema', ['public'])
+      .order('ordinal_position');
+
+    expect(error).toBeNull();
+    expect(data).toEqual([{ column_name: 'id' }]);
+    expect(backend.query).toHaveBeenCalledWith(
+      'SELECT "column_name", "data_type" FROM information_schema.columns ' +
+      'WHERE "table_name" = $1 AND "table_schema"::text = ANY($2::text[]) ORDER BY "ordinal_position" ASC',
+      ['posts', ['public']]
+    );
+  });
+
+  test('should serve introspection RPCs directly and pass other calls through', async () => {
+    const backend = createBackend([{ enumlabel: 'draft' }, { enumlabel: 'live' }]);
+    const supabase = createSupabaseMock();
+    const client = withDatabaseBackend(supabase, backend) as any;
+
+    const enums = await client.rpc('get_enum_values', { enum_name: 'post_status' });
+    expect(enums.data).toEqual([{ enumlabel: 'draft' }, { enumlabel: 'live' }]);
+    expect(backend.query.mock.calls[0][1]).toEqual(['post_status']);
+
+    await client.rpc('exec_sql', { query: 'SELECT 1', params: [] });
+    expect(backend.query).toHaveBeenLastCalledWith('SELECT 1', []);
+
+    await client.rpc('custom_function', { a: 1 });
+    client.from('posts');
+    expect(supabase.rpc).toHaveBeenCalledWith('custom_function', { a: 1 }, undefined);
+    expect(supabase.from).toHaveBeenCalledWith('posts');
+  });
+
+  test('should report errors and unsupported expressions like PostgREST would', async () => {
+    const backend = createBackend([{ constraint_type: 'PRIMARY KEY' }, { constraint_type: 'UNIQUE' }]);
+    const client = withDatabaseBackend(createSupabaseMock(), backend) as any;
+
+    const single = await client.from('information_schema.table_constraints').select('constraint_type').single();
+    expect(single.error.code).toBe('PGRST116');
+
+    const embedded = await client.from('pg_policies').select('policyname, roles(name)');
+    expect(embedded.error.message).toContain('Unsupported column expression');
+
+    backend.query.mockRejectedValueOnce(Object.assign(new Error('permission denied'), { code: '42501' }));
+    const denied = await client.from('pg_policies').select('policyname');
+    expect(denied).toEqual({ data: null, error: { message: 'permission denied', code: '42501' } });
+  });
+});
+
+describe('PostgresBackend', () => {
+  test('should COPY rows through a staging table and return them as inserted', async () => {
+    const { pool, statements, copied } = createFakePool();
+    const backend = new PostgresBackend(pool);
+
+    const rows = await backend.bulkInsert('posts', [
+      { name: 'A', tags: ['x', 'y "z"'], meta: { a: 1 } },
+      { name: '', tags: null, meta: null }
+    ]);
+
+    expect(rows).toEqual([{ id: 1, name: 'A' }, { id: 2, name: '' }]);
+    expect(statements).toEqual([
+      'BEGIN',
+      'CREATE TEMP TABLE supa_seed_copy ON COMMIT DROP AS SELECT "name", "tags", "meta" FROM "posts" WITH NO DATA',
+      'COPY supa_seed_copy ("name", "tags", "meta") FROM STDIN WITH (FORMAT csv)',
+      'INSERT INTO "posts" ("name", "tags", "meta") SELECT "name", "tags", "meta" FROM supa_seed_copy RETURNING *',
+      'DROP TABLE supa_seed_copy',
+      'COMMIT'
+    ]);
+    expect(copied()).toBe(
+      '"A","{""x"",""y \\""z\\""""}","{""a"":1}"\n' +
+      '"",,\n'
+    );
+  });
+
+  test('should copy rows that leave out columns separately so those columns get their defaults', async () => {
+    const { pool, statements, copied } = createFakePool({
+      returning: statement => statement.includes('"status"') ? [{ id: 1 }, { id: 3 }] : [{ id: 2 }]
+    });
+    const backend = new PostgresBackend(pool);
+
+    const rows = await backend.bulkInsert('posts', [
+      { name: 'A', status: 'draft' },
+      { name: 'B', status: undefined },
+      { status: null, name: 'C' }
+    ]);
+
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(statements.filter(statement => statement.startsWith('INSERT'))).toEqual([
+      'INSERT INTO "posts" ("name", "status") SELECT "name", "status" FROM supa_seed_copy RETURNING *',
+      'INSERT INTO "posts" ("name") SELECT "name" FROM supa_seed_copy RETURNING *'
+    ]);
+    expect(copied()).toBe('"A","draft"\n"C",\n"B"\n');
+  });
+
+  test('should roll back and release the connection when the insert fails', async () => {
+    const { pool, connection, statements } = createFakePool({ failOn: 'INSERT' });
+    const backend = new PostgresBackend(pool);
+
+    await expect(backend.bulkInsert('posts', [{ name: 'A' }])).rejects.toThrow('violates foreign key constraint');
+    expect(statements[statements.length - 1]).toBe('ROLLBACK');
+    expect(connection.release).toHaveBeenCalled();
+  });
+
+  test('should roll back work on one connection even when it succeeds', async () => {
+    const { pool, connection, statements } = createFakePool();
+    const backend = new PostgresBackend(pool);
+
+    const result = await backend.rolledBack(async query => {
+      await query("SELECT set_config('role', $1, true)", ['anon']);
+      return query('INSERT INTO "posts" ("name") VALUES ($1)', ['A']);
+    });
+
+    expect(result).toEqual([{ id: 1, name: 'A' }, { id: 2, name: '' }]);
+    expect(statements).toEqual([
+      'BEGIN',
+      "SELECT set_config('role', $1, true)",
+      'INSERT INTO "posts" ("name") VALUES ($1)',
+      'ROLLBACK'
+    ]);
+    expect(connection.release).toHaveBeenCalled();
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  test('should run several bulk inserts in one transaction and roll all back when one fails', async () => {
+    const { pool, connection, statements } = createFakePool({ failOn: 'INSERT INTO "comments"' });
+    const backend = new PostgresBackend(pool);
+
+    await expect(backend.transaction(async tx => {
+      await tx.bulkInsert('posts', [{ name: 'A' }]);
+      await tx.bulkInsert('comments', [{ name: 'B' }]);
+    })).rejects.toThrow('violates foreign key constraint');
+
+    expect(statements.filter(statement => !statement.startsWith('C'))).toEqual([
+      'BEGIN',
+      'INSERT INTO "posts" ("name") SELECT "name" FROM supa_seed_copy RETURNING *',
+      'DROP TABLE supa_seed_copy',
+      'INSERT INTO "comments" ("name") SELECT "name" FROM supa_seed_copy RETURNING *',
+      'ROLLBACK'
+    ]);
+    expect(pool.connect).toHaveBeenCalledTimes(1);
+    expect(connection.release).toHaveBeenCalled();
+  });
+
+  test('should keep session settings for later inserts on a single connection', async () => {
+    const { pool, connection, statements } = createFakePool();
+    const backend = new PostgresBackend(pool, { singleConnection: true });
+
+    await backend.query("SET app.tenant = 'acme'");
+    await Promise.all([
+      backend.bulkInsert('posts', [{ name: 'A' }]),
+      backend.bulkInsert('comments', [{ name: 'B' }])
+    ]);
+    await backend.close();
+
+    expect(statements.filter(statement => /^(SET|BEGIN|INSERT|COMMIT)/.test(statement))).toEqual([
+      "SET app.tenant = 'acme'",
+      'BEGIN',
+      'INSERT INTO "posts" ("name") SELECT "name" FROM supa_seed_copy RETURNING *',
+      'COMMIT',
+      'BEGIN',
+      'INSERT INTO "comments" ("name") SELECT "name" FROM supa_seed_copy RETURNING *',
+      'COMMIT'
+    ]);
+    expect(pool.connect).toHaveBeenCalledTimes(1);
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep empty strings distinct from NULL in CSV', () => {
+    expect(toCsvField(null)).toBe('');
+    expect(toCsvField('')).toBe('""');
+    expect(toCsvField(new Date('2025-01-01T00:00:00.000Z'))).toBe('"2025-01-01T00:00:00.000Z"');
+    expect(toCsvField(['a'], 'jsonb')).toBe('"[""a""]"');
+  });
+});
+
+describe('getDatabaseBackend', () => {
+  test('should fall back to PostgREST inserts without a direct connection', async () => {
+    const backend = getDatabaseBackend(createSupabaseMock());
+
+    expect(backend.kind).toBe('postgrest');
+    expect(await backend.bulkInsert('posts', [{ name: 'A' }])).toEqual([{ id: 'row-0', name: 'A' }]);
+    await expect(backend.query('SELECT 1')).rejects.toThrow('exec_sql failed');
+  });
+
+  test('should record bulk inserted rows in the run manifest', async () => {
+    const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'backend-test' });
+    const client = createRecordingClient(withDatabaseBackend(createSupabaseMock(), createBackend()), recorder);
+
+    const backend = getDatabaseBackend(client);
+    await backend.bulkInsert('posts', [{ name: 'A' }, { name: 'B' }]);
+
+    expect(backend.kind).toBe('postgres');
+    expect(recorder.getManifest().tables).toEqual([
+      { table: 'posts', primaryKey: ['id'], rows: [{ id: 1 }, { id: 2 }] }
+    ]);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Test suite for procedural images
+ * Verifies the offline renderer and encoders produce valid, deterministic
+ * PNG, JPEG and WebP files and that the image generator uses them without
+ * any network access
+ */
+
+import { inflateSync } from 'zlib';
+import { encodeImage, encodeJPEG, encodePNG, encodeWebP, RasterImage } from '../src/features/generation/storage/image-encoders';
+import { initials, renderProceduralImage, tintPalette } from '../src/features/generation/storage/procedural-image-renderer';
+import { ImageGenerator } from '../src/features/generation/storage/image-generator';
+import { ImageGenerationOptions } from '../src/features/generation/storage/storage-types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+/**
+ * Decode the PNGs encodePNG writes (one IDAT, RGBA, Sub filter)
+ */
+function decodePNG(buffer: Buffer): RasterImage {
+  const width = buffer.readUInt32BE(16);
+  const height = buffer.readUInt32BE(20);
+  const idatLength = buffer.readUInt32BE(33);
+  expect(buffer.toString('ascii', 37, 41)).toBe('IDAT');
+
+  const filtered = inflateSync(buffer.subarray(41, 41 + idatLength));
+  const stride = width * 4;
+  const data = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    expect(filtered[y * (stride + 1)]).toBe(1);
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? data[y * stride + x - 4] : 0;
+      data[y * stride + x] = (filtered[y * (stride + 1) + 1 + x] + left) & 0xff;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Canonical prefix codes from code lengths, looked up by length and code
+ */
+function prefixCodes(lengths: number[]): Map<string, number> {
+  const codes = new Map<string, number>();
+  let code = 0;
+  for (let length = 1; length <= 16; length++) {
+    lengths.forEach((symbolLength, symbol) => {
+      if (symbolLength === length) codes.set(`${length}:${code++}`, symbol);
+    });
+    code <<= 1;
+  }
+  return codes;
+}
+
+function readSymbol(codes: Map<string, number>, readBit: () => number): number {
+  for (let length = 1, code = 0; length <= 16; length++) {
+    code = (code << 1) | readBit();
+    const symbol = codes.get(`${length}:${code}`);
+    if (symbol !== undefined) return symbol;
+  }
+  throw new Error('Invalid prefix code');
+}
+
+// Zigzag position of each coefficient of a block in natural order
+const ZIGZAG_ORDER = [
+  0, 1, 5, 6, 14, 15, 27, 28, 2, 4, 7, 13, 16, 26, 29, 42,
+  3, 8, 12, 17, 25, 30, 41, 43, 9, 11, 18, 24, 31, 40, 44, 53,
+  10, 19, 23, 32, 39, 45, 52, 54, 20, 22, 33, 38, 46, 51, 55, 60,
+  21, 34, 37, 47, 50, 56, 59, 61, 35, 36, 48, 49, 57, 58, 62, 63
+];
+
+/**
+ * Decode the JPEGs encodeJPEG writes (baseline, 4:4:4, one scan)
+ */
+function decodeJPEG(buffer: Buffer): RasterImage {
+  const quantization: number[][] = [];
+  const huffman = new Map<number, Map<string, number>>();
+  let width = 0;
+  let height = 0;
+  let offset = 2;
+
+  while (buffer.readUInt16BE(offset) !== 0xffda) {
+    const marker = buffer.readUInt16BE(offset);
+    const length = buffer.readUInt16BE(offset + 2);
+    const payload = buffer.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xffdb) {
+      for (let i = 0; i < payload.length; i += 65) quantization[payload[i]] = [...payload.subarray(i + 1, i + 65)];
+    } else if (marker === 0xffc0) {
+      height = payload.readUInt16BE(1);
+      width = payload.readUInt16BE(3);
+    } else if (marker === 0xffc4) {
+      for (let i = 0; i < payload.length;) {
+        const counts = [...payload.subarray(i + 1, i + 17)];
+        const symbols = [...payload.subarray(i + 17, i + 17 + counts.reduce((sum, count) => sum + count, 0))];
+        const lengths = new Array(256).fill(0);
+        let index = 0;
+        counts.forEach((count, length) => { for (let n = 0; n < count; n++) lengths[symbols[index++]] = length + 1; });
+        huffman.set(payload[i], prefixCodes(lengths));
+        i += 17 + symbols.length;
+      }
+    }
+    offset += 2 + length;
+  }
+
+  // Entropy-coded data without byte stuffing
+  const scan: number[] = [];
+  for (let i = offset + 2 + buffer.readUInt16BE(offset + 2); i < buffer.length - 2; i++) {
+    scan.push(buffer[i]);
+    if (buffer[i] === 0xff) i++;
+  }
+  let bit = 0;
+  const readBit = () => (scan[bit >> 3] >> (7 - (bit++ & 7))) & 1;
+  const receive = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | readBit();
+    return length > 0 && value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  };
+
+  const natural = new Array(64);
+  ZIGZAG_ORDER.forEach((zigzag, index) => { natural[zigzag] = index; });
+  const components = [{ dc: 0x00, ac: 0x10, q: 0 }, { dc: 0x01, ac: 0x11, q: 1 }, { dc: 0x01, ac: 0x11, q: 1 }];
+  const previousDc = [0, 0, 0];
+  const planes = components.map(() => new Float64Array(width * height));
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      components.forEach((component, c) => {
+        const coefficients = new Float64Array(64);
+        previousDc[c] += receive(readSymbol(huffman.get(component.dc)!, readBit));
+        coefficients[0] = previousDc[c] * quantization[component.q][0];
+        for (let k = 1; k < 64;) {
+          const symbol = readSymbol(huffman.get(component.ac)!, readBit);
+          if (symbol === 0x00) break;
+          k += symbol >> 4;
+          coefficients[natural[k]] = receive(symbol & 15) * quantization[component.q][k];
+          k++;
+        }
+
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            if (blockX + x >= width || blockY + y >= height) continue;
+            let sum = 0;
+            for (let v = 0; v < 8; v++) {
+              for (let u = 0; u < 8; u++) {
+                const scale = (u === 0 ? Math.SQRT1_2 : 1) * (v === 0 ? Math.SQRT1_2 : 1);
+                sum += scale * coefficients[v * 8 + u] *
+                  Math.cos(((2 * x + 1) * u * Math.PI) / 16) * Math.cos(((2 * y + 1) * v * Math.PI) / 16);
+              }
+            }
+            planes[c][(blockY + y) * width + blockX + x] = sum / 4;
+          }
+        }
+      });
+    }
+  }
+
+  const data = new Uint8Array(width * height * 4);
+  const clamp = (value: number) => Math.min(255, Math.max(0, Math.round(value)));
+  for (let i = 0; i < width * height; i++) {
+    const [luma, cb, cr] = [planes[0][i] + 128, planes[1][i], planes[2][i]];
+    data.set([clamp(luma + 1.402 * cr), clamp(luma - 0.344136 * cb - 0.714136 * cr), clamp(luma + 1.772 * cb), 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+/**
+ * Decode the WebPs encodeWebP writes (VP8L without transforms or color
+ * cache, one prefix code group, backward references to the previous pixel)
+ */
+function decodeWebP(buffer: Buffer): RasterImage {
+  const stream = buffer.subarray(20, 20 + buffer.readUInt32LE(16));
+  let bit = 0;
+  const readBit = () => (stream[bit >> 3] >> (bit++ & 7)) & 1;
+  const readBits = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++) value |= readBit() << i;
+    return value;
+  };
+
+  expect(readBits(8)).toBe(0x2f);
+  const width = readBits(14) + 1;
+  const height = readBits(14) + 1;
+  readBits(1 + 3); // Alpha hint and version
+  expect(readBits(3)).toBe(0); // No transforms, color cache or meta codes
+
+  const readCode = (alphabet: number): (() => number) => {
+    if (readBit()) {
+      const count = readBits(1) + 1;
+      const symbols = [readBits(readBit() ? 8 : 1)];
+      if (count === 2) symbols.push(readBits(8));
+      return count === 1 ? () => symbols[0] : () => symbols[readBit()];
+    }
+
+    const lengthCodeLengths = new Array(19).fill(0);
+    const written = readBits(4) + 4;
+    for (let i = 0; i < written; i++) lengthCodeLengths[[17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15][i]] = readBits(3);
+    const lengthCodes = prefixCodes(lengthCodeLengths);
+    expect(readBit()).toBe(0); // Lengths for the whole alphabet
+
+    const lengths: number[] = [];
+    while (lengths.length < alphabet) {
+      const symbol = readSymbol(lengthCodes, readBit);
+      if (symbol < 16) lengths.push(symbol);
+      else if (symbol === 16) lengths.push(...new Array(3 + readBits(2)).fill(lengths[lengths.length - 1] ?? 8));
+      else lengths.push(...new Array(symbol === 17 ? 3 + readBits(3) : 11 + readBits(7)).fill(0));
+    }
+    const used = lengths.filter(length => length > 0).length;
+    const codes = prefixCodes(lengths);
+    return used === 1 ? () => lengths.findIndex(length => length > 0) : () => readSymbol(codes, readBit);
+  };
+
+  const [green, red, blue, alpha, distance] = [256 + 24, 256, 256, 256, 40].map(readCode);
+  const prefixValue = (prefix: number) => {
+    if (prefix < 4) return prefix + 1;
+    const extraBits = (prefix - 2) >> 1;
+    return ((2 + (prefix & 1)) << extraBits) + readBits(extraBits) + 1;
+  };
+
+  const data = new Uint8Array(width * height * 4);
+  for (let pixel = 0; pixel < width * height;) {
+    const symbol = green();
+    if (symbol < 256) {
+      data.set([red(), symbol, blue(), alpha()], pixel * 4);
+      pixel++;
+      continue;
+    }
+    const length = prefixValue(symbol - 256);
+    expect(prefixValue(distance())).toBe(2); // The previous pixel
+    for (let i = 0; i < length; i++, pixel++) data.copyWithin(pixel * 4, (pixel - 1) * 4, pixel * 4);
+  }
+  return { width, height, data };
+}
+
+const spec = { width: 37, height: 23, seed: 'test', palette: ['#2F4F4F', '#228B22', '#8FBC8F'] };
+
+describe('Procedural images', () => {
+  test('renders opaque pixels in every style', () => {
+    for (const style of ['gradient', 'pattern', 'avatar'] as const) {
+      const image = renderProceduralImage({ ...spec, style, text: 'Ada Lovelace' });
+
+      expect(image.data).toHaveLength(37 * 23 * 4);
+      expect(image.data.filter((_, index) => index % 4 === 3).every(alpha => alpha === 255)).toBe(true);
+      expect(new Set(image.data).size).toBeGreaterThan(3);
+    }
+  });
+
+  test('same seed gives the same image, another seed a different one', () => {
+    const first = renderProceduralImage({ ...spec, style: 'pattern' });
+
+    expect(renderProceduralImage({ ...spec, style: 'pattern' }).data).toEqual(first.data);
+    expect(renderProceduralImage({ ...spec, style: 'pattern', seed: 'other' }).data).not.toEqual(first.data);
+    expect(() => renderProceduralImage({ ...spec, width: 0, style: 'gradient' })).toThrow('Invalid image dimensions: 0x23');
+    expect(() => renderProceduralImage({ ...spec, palette: ['green'], style: 'gradient' })).toThrow('Invalid color "green"');
+  });
+
+  test('initials and palettes', () => {
+    expect(initials('Ada Lovelace')).toBe('AL');
+    expect(initials('grace.hopper@navy.mil')).toBe('GH');
+    expect(initials('Émile Zola Jr')).toBe('EZ');
+    expect(initials('')).toBe('?');
+    expect(tintPalette('#4682B4')).toEqual(['#4682B4', '#99BAD6', '#2E5575']);
+  });
+
+  test('PNG decodes back to the exact pixels', () => {
+    const image = renderProceduralImage({ ...spec, style: 'avatar', text: 'Grace Hopper' });
+    image.data[3] = 128; // Alpha survives too
+    const png = encodePNG(image);
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(decodePNG(png)).toEqual(image);
+  });
+
+  test('JPEG decodes to the image within lossy error, WebP to the exact pixels', () => {
+    const image = renderProceduralImage({ ...spec, style: 'gradient' });
+
+    const jpeg = encodeJPEG(image, 70);
+    expect(jpeg.readUInt16BE(0)).toBe(0xffd8);
+    expect(jpeg.readUInt16BE(jpeg.length - 2)).toBe(0xffd9);
+    expect(encodeJPEG(image, 95).length).toBeGreaterThan(jpeg.length);
+
+    const decoded = decodeJPEG(jpeg);
+    expect(decoded).toMatchObject({ width: 37, height: 23 });
+    const error = decoded.data.reduce((sum, value, index) => sum + (index % 4 === 3 ? 0 : Math.abs(value - image.data[index])), 0);
+    expect(error / (37 * 23 * 3)).toBeLessThan(4);
+
+    const webp = encodeWebP(image);
+    expect(webp.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(webp.readUInt32LE(4)).toBe(webp.length - 8);
+    expect(webp.toString('ascii', 8, 16)).toBe('WEBPVP8L');
+    expect(webp[20]).toBe(0x2f);
+    expect(decodeWebP(webp)).toEqual(image);
+
+    const translucent = renderProceduralImage({ ...spec, style: 'avatar', text: 'Ada Lovelace' });
+    translucent.data[7] = 64;
+    expect(decodeWebP(encodeWebP(translucent))).toEqual(translucent);
+
+    expect(encodeImage(image, 'webp')).toEqual(webp);
+  });
+
+  describe('ImageGenerator', () => {
+    const env = { ...process.env };
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      delete process.env.UNSPLASH_ACCESS_KEY;
+      delete process.env.PIXABAY_API_KEY;
+      fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('network disabled'));
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+      process.env = { ...env };
+    });
+
+    const options: ImageGenerationOptions = {
+      domain: 'outdoor',
+      categories: ['outdoor-adventure', 'saas-tools'],
+      count: 2,
+      dimensions: { width: 64, height: 48 },
+      quality: 'medium',
+      searchTerms: [],
+      fallbackToMock: true,
+      rateLimitDelay: 0,
+      maxRetries: 1
+    };
+
+    test('reports the procedural provider as available', async () => {
+      const status = await new ImageGenerator({ seed: 'status' }).getProviderStatus();
+
+      expect(Object.keys(status)).toEqual(['procedural']);
+      expect(status.procedural.available).toBe(true);
+    });
+
+    test('generates deterministic images offline', async () => {
+      const generate = () => new ImageGenerator({ seed: 'offline' }).generateImages({ ...options, format: 'png' });
+
+      const images = await generate();
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(images).toHaveLength(2);
+      for (const image of images) {
+        expect(image.type).toBe('image/png');
+        expect(image.filename).toMatch(/^procedural-\w+-[0-9a-f]+\.png$/);
+        expect(image.metadata.source).toBe('procedural');
+        const decoded = decodePNG(Buffer.from(await image.blob.arrayBuffer()));
+        expect(decoded).toMatchObject({ width: 64, height: 48 });
+      }
+
+      const again = await generate();
+      expect(again.map(image => image.filename)).toEqual(images.map(image => image.filename));
+      expect(again[0].size).toBe(images[0].size);
+    });
+
+    test('renders avatars for people categories', async () => {
+      const [image] = await new ImageGenerator({ seed: 'avatars' }).generateImages({
+        ...options, categories: ['profile'], count: 1, format: 'jpeg'
+      });
+
+      expect(image.type).toBe('image/jpeg');
+      expect(decodeJPEG(Buffer.from(await image.blob.arrayBuffer()))).toMatchObject({ width: 64, height: 48 });
+      expect(image.filename).toMatch(/^procedural-avatar-/);
+      expect(image.altText).toMatch(/^Avatar with the initials of /);
+    });
+  });
+});
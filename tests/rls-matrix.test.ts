@@ -0,0 +1,240 @@
+/**
+ * Test suite for the RLS visibility matrix
+ * Verifies seeded rows are probed as anon, owner, tenant member and outsider
+ * inside rolled-back transactions, that rows reachable across tenants are
+ * reported as leaks and that the observed matrix is pinned as pgTAP tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RlsMatrixBuilder, renderRlsPgTap, writeRlsPgTap } from '../src/features/rls/rls-matrix';
+import { SeededInventory } from '../src/features/manifest/seeded-inventory';
+import { DATABASE_BACKEND } from '../src/core/database/database-backend';
+import { SeedRunManifest } from '../src/features/manifest/manifest-types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+const OWNER = '11111111-1111-4111-8111-111111111111';
+const MEMBER = '22222222-2222-4222-8222-222222222222';
+const OUTSIDER = '33333333-3333-4333-8333-333333333333';
+const TEAM = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+
+type Policy = (sub: string | undefined, row: Record<string, any>) => boolean;
+
+const TEAM_MEMBERS = new Set([OWNER, MEMBER]);
+const isMember: Policy = (sub, row) => row.account_id === TEAM ? TEAM_MEMBERS.has(sub!) : row.account_id === sub;
+const isAuthor: Policy = (sub, row) => row.user_id === sub;
+
+const DATABASE: Record<string, { primaryKey: string[]; rows: Record<string, any>[]; policies: Record<string, Policy | 'error'> }> = {
+  accounts_memberships: {
+    primaryKey: ['account_id', 'user_id'],
+    rows: [
+      { account_id: TEAM, user_id: OWNER },
+      { account_id: TEAM, user_id: MEMBER },
+      { account_id: OUTSIDER, user_id: OUTSIDER }
+    ],
+    policies: { select: isMember, insert: () => false, update: () => false, delete: () => false }
+  },
+  notes: {
+    primaryKey: ['id'],
+    rows: [{ id: 'note-1', account_id: TEAM, user_id: OWNER, body: 'Packing list' }],
+    policies: { select: isMember, insert: isAuthor, update: isAuthor, delete: isAuthor }
+  },
+  comments: {
+    primaryKey: ['id'],
+    rows: [{ id: 'comment-1', account_id: TEAM, user_id: OWNER, body: 'Nice setup' }],
+    policies: { select: sub => !!sub, insert: isAuthor, update: isAuthor, delete: 'error' }
+  }
+};
+
+function findTable(sql: string): string {
+  return Object.keys(DATABASE).find(table => sql.includes(`"${table}"`))!;
+}
+
+/**
+ * Direct backend that answers catalog queries from DATABASE and decides
+ * probes with its policies for the role and claims set in the transaction
+ */
+function createClient(options: { rolledBack?: boolean } = {}) {
+  const transactions: string[][] = [];
+
+  const backend: any = {
+    kind: 'postgres',
+    query: async (sql: string, params: any[] = []) => {
+      if (sql.includes('pg_attribute')) {
+        const table = DATABASE[params[0].replace(/"/g, '')];
+        return Object.keys(table.rows[0]).map(name => ({ name, primary_key: table.primaryKey.includes(name), insertable: true }));
+      }
+      if (sql.includes('to_jsonb')) {
+        const key = JSON.parse(sql.match(/'(\{.*\})'/)![1]);
+        const table = DATABASE[findTable(sql)];
+        const row = table.rows.find(candidate => table.primaryKey.every(column => candidate[column] === key[column]));
+        return row ? [{ row }] : [];
+      }
+      return [];
+    },
+    bulkInsert: async () => [],
+    close: async () => undefined
+  };
+
+  if (options.rolledBack !== false) {
+    backend.rolledBack = async (work: (query: any) => Promise<any>) => {
+      const statements: string[] = [];
+      let claims: Record<string, any> = {};
+      transactions.push(statements);
+
+      return work(async (sql: string, params: any[] = []) => {
+        statements.push(sql);
+        if (sql.includes('set_config')) {
+          claims = JSON.parse(params[1]);
+          return [{}];
+        }
+        if (sql.startsWith('SELECT pg_temp.supa_seed_rls_probe')) {
+          const statement: string = params[0];
+          const table = DATABASE[findTable(statement)];
+          const operation = statement.split(' ')[0].toLowerCase();
+          const policy = table.policies[operation];
+          if (policy === 'error') return [{ outcome: 'error: update or delete on table violates foreign key constraint' }];
+          return [{ outcome: policy(claims.sub, table.rows[0]) ? 'allowed' : 'denied' }];
+        }
+        return [];
+      });
+    };
+  }
+
+  const query = (table: string) => {
+    const chain: any = {
+      select: () => chain,
+      eq: () => chain,
+      in: async (column: string, ids: any[]) => ({ data: DATABASE[table].rows.filter(row => ids.includes(row[column])), error: null }),
+      // Tenant discovery reads information_schema, which PostgREST does not expose
+      then: (resolve: any) => resolve({ data: null, error: { message: `relation ${table} is not exposed` } })
+    };
+    return chain;
+  };
+
+  const client = {
+    [DATABASE_BACKEND]: backend,
+    from: query,
+    auth: {
+      admin: {
+        listUsers: async () => ({ data: { users: [OWNER, MEMBER, OUTSIDER].map(id => ({ id })) }, error: null })
+      }
+    }
+  };
+
+  return { client, transactions };
+}
+
+function manifest(): SeedRunManifest {
+  return {
+    version: 1,
+    runId: 'run-1',
+    status: 'completed',
+    startedAt: '2024-01-01T00:00:00.000Z',
+    supabaseUrl: 'http://127.0.0.1:54321',
+    seed: 'rls-matrix',
+    tables: Object.entries(DATABASE).map(([table, { primaryKey, rows }]) => ({
+      table,
+      primaryKey,
+      rows: rows.map(row => Object.fromEntries(primaryKey.map(column => [column, row[column]])))
+    })),
+    storageObjects: [],
+    authUserIds: [OWNER, MEMBER, OUTSIDER]
+  };
+}
+
+async function buildReport(options = {}) {
+  const { client, transactions } = createClient();
+  const seeded = await SeededInventory.load(client, [manifest()]);
+  const report = await new RlsMatrixBuilder(client, options).build(seeded);
+  return { report, transactions };
+}
+
+function cells(report: any, table: string): Record<string, string> {
+  const matrix = report.tables.find((entry: any) => entry.table === table);
+  const result: Record<string, string> = {};
+  for (const probe of matrix.probes) {
+    result[probe.persona] = (result[probe.persona] || '') + (probe.allowed === null ? '?' : probe.allowed ? 'Y' : 'N');
+  }
+  return result;
+}
+
+describe('RlsMatrixBuilder', () => {
+  test('probes each persona in its own rolled-back transaction as its role and user', async () => {
+    const { report, transactions } = await buildReport({ tables: ['notes'] });
+    const notes = report.tables[0];
+
+    expect(notes.users).toEqual({ owner: OWNER, member: MEMBER, outsider: OUTSIDER });
+    expect(notes.tenantColumn).toBe('account_id');
+    expect(notes.tenantId).toBe(TEAM);
+
+    // select, insert, update, delete
+    expect(cells(report, 'notes')).toEqual({ anon: 'NNNN', owner: 'YYYY', member: 'YNNN', outsider: 'NNNN' });
+    expect(report.leaks).toEqual([]);
+
+    expect(transactions).toHaveLength(16);
+    expect(transactions[0][0]).toContain('CREATE OR REPLACE FUNCTION pg_temp.supa_seed_rls_probe');
+    expect(notes.statements.insert).toContain('INSERT INTO "notes" ("id", "account_id", "user_id", "body") OVERRIDING SYSTEM VALUE');
+    expect(notes.statements.update).toBe(
+      'UPDATE "notes" SET "id" = "id" WHERE ("id") = (SELECT "id" FROM json_populate_record(NULL::"notes", \'{"id":"note-1"}\'))'
+    );
+  });
+
+  test('reports tenant rows other tenants can reach and leaves inconclusive probes open', async () => {
+    const { report } = await buildReport();
+
+    expect(report.tables.map(matrix => matrix.table)).toEqual(['accounts_memberships', 'notes', 'comments']);
+    expect(cells(report, 'comments')).toEqual({ anon: 'NNN?', owner: 'YYY?', member: 'YNN?', outsider: 'YNN?' });
+    expect(report.tables[2].probes.find(probe => probe.operation === 'delete')!.detail)
+      .toBe('update or delete on table violates foreign key constraint');
+
+    expect(report.leaks).toEqual([{
+      table: 'comments',
+      persona: 'outsider',
+      operations: ['select'],
+      tenantColumn: 'account_id',
+      tenantId: TEAM
+    }]);
+  });
+
+  test('renders the observed matrix as pgTAP tests', async () => {
+    const { report } = await buildReport({ tables: ['comments'] });
+    const sql = renderRlsPgTap(report.tables[0]);
+
+    expect(sql).toContain('SELECT plan(12);');
+    expect(sql).toContain(`set_config('request.jwt.claims', '{"sub":"${OUTSIDER}","role":"authenticated","aud":"authenticated"}', true);`);
+    expect(sql).toContain(
+      `SELECT is(pg_temp.supa_seed_rls_probe($probe$${report.tables[0].statements.select}$probe$), 'allowed', 'outsider can select comments');`
+    );
+    expect(sql).toContain("'anon cannot update comments'");
+    expect(sql).not.toContain('delete comments');
+    expect(sql.trim().split('\n').slice(-3)).toEqual(['RESET ROLE;', 'SELECT * FROM finish();', 'ROLLBACK;']);
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rls-matrix-'));
+    try {
+      const files = writeRlsPgTap(report, directory);
+      expect(files).toEqual([path.join(directory, 'rls_matrix_comments.test.sql')]);
+      expect(fs.readFileSync(files[0], 'utf8')).toBe(sql);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('needs a direct database connection', async () => {
+    const { client } = createClient({ rolledBack: false });
+    const seeded = await SeededInventory.load(client, [manifest()]);
+
+    await expect(new RlsMatrixBuilder(client).build(seeded)).rejects.toThrow('needs a direct database connection');
+  });
+});
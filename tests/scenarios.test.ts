@@ -0,0 +1,249 @@
+/**
+ * Test suite for scenario files
+ * Verifies that scenarios are validated up front, that users, teams,
+ * memberships and records are created with their references resolved, and
+ * that the alias mapping is exported
+ */
+
+import { faker } from '@faker-js/faker';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadScenario, parseScenario } from '../src/features/scenarios/scenario-loader';
+import { ScenarioSeeder, defaultAliasesPath, writeScenarioAliases } from '../src/features/scenarios/scenario-seeder';
+import { ScenarioAliases } from '../src/features/scenarios/scenario-types';
+import { resolveDomainPlugins } from '../src/features/generation/seeders/domain-plugins';
+import { loadConfiguration } from '../src/config';
+import { SqlCaptureClient } from '../src/features/output/sql-capture-client';
+import { SeedConfig, SeedContext } from '../src/core/types/types';
+import { SchemaAdapter } from '../src/core/schema-adapter';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+const config: SeedConfig = {
+  supabaseUrl: 'http://127.0.0.1:54321',
+  supabaseServiceKey: 'key',
+  environment: 'local',
+  userCount: 1,
+  setupsPerUser: 1,
+  imagesPerSetup: 0,
+  enableRealImages: false,
+  seed: 'scenario-test',
+  emailDomain: 'acme.test',
+  tables: { projects: { columns: { status: { value: 'active' } } } }
+};
+
+const e2eScenario = {
+  name: 'e2e',
+  password: 'e2e-password',
+  users: {
+    alice: { name: 'Alice Anders', password: 'alice-password' },
+    bob: { mfa: true }
+  },
+  teams: {
+    acme: { name: 'Acme', owner: 'alice', members: { bob: 'member' } }
+  },
+  records: {
+    projects: [
+      { alias: 'website', account_id: '@acme', name: 'Website', owner_slug: '@acme.slug' },
+      { alias: 'app', count: 2, account_id: '@acme', name: { generator: 'template:"App {{n}}"' }, note: '@@mention' }
+    ],
+    tasks: [
+      { project_id: '@website', assignee_id: '@bob', title: 'Launch' }
+    ]
+  }
+};
+
+function createContext(client: any): SeedContext {
+  return {
+    client,
+    config,
+    faker,
+    cache: new Map(),
+    stats: { usersCreated: 0, setupsCreated: 0, imagesUploaded: 0, startTime: new Date() }
+  };
+}
+
+describe('parseScenario', () => {
+  test('should report every invalid declaration at once', () => {
+    expect(() => parseScenario({
+      users: { alice: {}, 'bad alias': {} },
+      teams: { acme: { owner: 'carol', members: { dave: 'member' } } },
+      records: {
+        projects: [
+          { alias: 'alice', account_id: '@acme' },
+          { account_id: '@later', count: 0 },
+          { status: { generator: 'faker:no.such.method' } }
+        ],
+        tasks: [{ alias: 'later' }]
+      }
+    })).toThrow(new RegExp([
+      "users\\.bad alias: alias 'bad alias' may only contain",
+      "teams\\.acme\\.owner must name a declared user, got 'carol'",
+      "teams\\.acme\\.members: 'dave' is not a declared user",
+      "records\\.projects\\[0\\]: alias 'alice' is already declared",
+      "records\\.projects\\[1\\]\\.count must be a positive integer",
+      "records\\.projects\\[1\\]\\.account_id: 'later' is not declared before it is referenced",
+      'records\\.projects\\[2\\]\\.status: '
+    ].join('[\\s\\S]*')));
+  });
+
+  test('should alias counted records one by one', () => {
+    const scenario = parseScenario(e2eScenario);
+
+    expect(scenario.records.map(record => [record.table, record.alias, record.count])).toEqual([
+      ['projects', 'website', 1],
+      ['projects', 'app', 2],
+      ['tasks', undefined, 1]
+    ]);
+    expect(() => parseScenario({ records: { tasks: [{ project_id: '@app' }] } })).toThrow(/'app' is not declared/);
+  });
+});
+
+describe('ScenarioSeeder', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should create the declared users, teams, memberships and records', async () => {
+    const database = new SqlCaptureClient({ seed: 'scenario-database' });
+    const context = createContext(database);
+
+    await new ScenarioSeeder(context, parseScenario(e2eScenario)).seed();
+    const aliases: ScenarioAliases = context.cache.get('scenarioAliases');
+
+    const users = database.getRows('auth.users');
+    expect(users.map(user => user.email)).toEqual(['alice@acme.test', 'bob@acme.test']);
+    expect(aliases.users.alice).toEqual({ id: users[0].id, email: 'alice@acme.test', password: 'alice-password' });
+    expect(aliases.users.bob).toEqual(expect.objectContaining({ id: users[1].id, password: 'e2e-password' }));
+    expect(aliases.users.bob.mfaSecret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(database.getRows('auth.mfa_factors')).toEqual([
+      expect.objectContaining({ user_id: users[1].id, factor_type: 'totp', status: 'verified', secret: aliases.users.bob.mfaSecret })
+    ]);
+
+    const team = database.getRows('accounts').find(account => account.is_personal_account === false)!;
+    expect(team).toEqual(expect.objectContaining({ name: 'Acme', slug: 'acme', primary_owner_user_id: users[0].id }));
+    expect(aliases.teams.acme).toEqual({ id: team.id, slug: 'acme', name: 'Acme', table: 'accounts' });
+    const memberships = database.getRows('accounts_memberships');
+    expect(memberships.map(row => [row.user_id, row.account_id, row.account_role])).toEqual([
+      [users[0].id, team.id, 'owner'],
+      [users[1].id, team.id, 'member']
+    ]);
+
+    const projects = database.getRows('projects');
+    expect(projects.map(project => [project.name, project.account_id, project.status])).toEqual([
+      ['Website', team.id, 'active'],
+      ['App 1', team.id, 'active'],
+      ['App 2', team.id, 'active']
+    ]);
+    expect(projects[0].owner_slug).toBe('acme');
+    expect(projects[1].note).toBe('@mention');
+    expect(Object.keys(aliases.records)).toEqual(['website', 'app-1', 'app-2']);
+    expect(aliases.records['app-2'].id).toBe(projects[2].id);
+
+    expect(database.getRows('tasks')).toEqual([
+      expect.objectContaining({ project_id: projects[0].id, assignee_id: users[1].id, title: 'Launch' })
+    ]);
+    expect(context.cache.get('users').map((user: { email: string }) => user.email)).toEqual(['alice@acme.test', 'bob@acme.test']);
+  });
+
+  test('should leave out the slug when the team table has no slug column', async () => {
+    const database = new SqlCaptureClient({ seed: 'scenario-no-slug' });
+    const context = createContext(database);
+    jest.spyOn(SchemaAdapter.prototype, 'columnExists').mockImplementation(async (_table, column) => column !== 'slug');
+
+    const scenario = { users: { alice: {} }, teams: { acme: { name: 'Acme', owner: 'alice' } } };
+    await new ScenarioSeeder(context, parseScenario(scenario)).seed();
+
+    const team = database.getRows('accounts').find(account => account.is_personal_account === false)!;
+    expect(team).not.toHaveProperty('slug');
+    expect(context.cache.get('scenarioAliases').teams.acme).toEqual({ id: team.id, name: 'Acme', table: 'accounts' });
+
+    const slugged = { ...scenario, teams: { acme: { ...scenario.teams.acme, slug: 'acme-inc' } } };
+    await expect(new ScenarioSeeder(createContext(new SqlCaptureClient({ seed: 'scenario-no-slug' })), parseScenario(slugged)).seed())
+      .rejects.toThrow("Scenario team 'acme' declares a slug, but accounts has no slug column");
+  });
+
+  test('should stop at a user whose MFA factor cannot be written', async () => {
+    const database = new SqlCaptureClient({ seed: 'scenario-mfa' });
+    const context = createContext(database);
+    const from = database.from.bind(database);
+    jest.spyOn(database, 'from').mockImplementation(((table: string) => table === 'auth.mfa_factors'
+      ? { insert: () => ({ select: async () => ({ data: null, error: { message: 'relation "public.auth.mfa_factors" does not exist' } }) }) }
+      : from(table)) as any);
+
+    await expect(new ScenarioSeeder(context, parseScenario({ users: { bob: { mfa: true } } })).seed())
+      .rejects.toThrow("MFA factor for scenario user 'bob' (bob@acme.test) could not be created (set databaseUrl or SUPABASE_DB_URL");
+  });
+
+  test('should fill undeclared user fields from the alias and faker', async () => {
+    const database = new SqlCaptureClient({ seed: 'scenario-defaults' });
+    const context = createContext(database);
+
+    await new ScenarioSeeder(context, parseScenario({ users: { carol: {} } })).seed();
+
+    const [user] = database.getRows('auth.users');
+    expect(user.email).toBe('carol@acme.test');
+    expect(user.raw_user_meta_data.full_name).toEqual(expect.any(String));
+    expect(context.cache.get('scenarioAliases').users.carol.password).toBe('password123');
+  });
+});
+
+describe('scenario files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'supa-seed-scenario-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should load YAML and write aliases next to the scenario', () => {
+    const file = path.join(dir, 'e2e.yaml');
+    writeFileSync(file, [
+      'users:',
+      '  alice:',
+      '    email: alice@acme.test',
+      'teams:',
+      '  acme:',
+      '    owner: alice'
+    ].join('\n'));
+
+    const scenario = loadScenario(file);
+    expect(scenario.name).toBe('e2e');
+    expect(scenario.teams).toEqual([{ alias: 'acme', owner: 'alice' }]);
+
+    const aliasesFile = defaultAliasesPath(file);
+    expect(aliasesFile).toBe(path.join(dir, 'e2e.aliases.json'));
+    writeScenarioAliases({ scenario: 'e2e', users: {}, teams: {}, records: {} }, aliasesFile);
+    expect(JSON.parse(readFileSync(aliasesFile, 'utf-8')).scenario).toBe('e2e');
+  });
+
+  test('should resolve a scenario named in the config file from that file\'s directory', () => {
+    const configPath = path.join(dir, 'supa-seed.config.json');
+    writeFileSync(configPath, JSON.stringify({
+      supabaseUrl: 'http://127.0.0.1:54321',
+      supabaseServiceKey: 'key',
+      scenario: 'seed/e2e.yaml'
+    }));
+
+    expect(loadConfiguration(configPath).config.scenario).toBe(path.join(dir, 'seed', 'e2e.yaml'));
+  });
+
+  test('should not run the domain plugins unless they are enabled', () => {
+    expect(resolveDomainPlugins({ ...config, scenario: 'e2e.yaml' })).toEqual([]);
+    expect(resolveDomainPlugins({ ...config, scenario: 'e2e.yaml', seeders: { enabled: ['setups'] } })).toEqual(['setups']);
+  });
+});
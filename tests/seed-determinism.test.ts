@@ -0,0 +1,162 @@
+/**
+ * Test suite for deterministic seeding
+ * Verifies the seeded random/UUID/clock provider and the two-run determinism check
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SeedDeterminism, DETERMINISTIC_REFERENCE_DATE } from '../src/core/utils/seed-determinism';
+import { compareWithGolden, verifyDeterminism } from '../src/features/output/determinism-check';
+import { AssetSelectionEngine } from '../src/features/generation/assets/selection-strategies';
+import { LoadedAsset } from '../src/features/generation/assets/asset-loader';
+import { DOMAIN_PLUGINS, resolveDomainPlugins } from '../src/features/generation/seeders/domain-plugins';
+import { faker } from '@faker-js/faker';
+import { SeedConfig, SeedContext, SeedModule } from '../src/core/types/types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+const config: SeedConfig = {
+  supabaseUrl: 'http://127.0.0.1:54321',
+  supabaseServiceKey: 'offline',
+  environment: 'local',
+  userCount: 2,
+  setupsPerUser: 1,
+  imagesPerSetup: 0,
+  enableRealImages: false,
+  seed: 'determinism-test',
+  emailDomain: 'supaseed.test'
+};
+
+const runDomainSeeders = async (context: SeedContext) => {
+  for (const name of resolveDomainPlugins(config)) {
+    await new DOMAIN_PLUGINS[name](context).seed();
+  }
+};
+
+describe('SeedDeterminism', () => {
+  test('should repeat random values, UUIDs and time for the same seed when pinned', () => {
+    const draw = () => {
+      const determinism = new SeedDeterminism('abc', { pinned: true });
+      return [determinism.random(), determinism.random(), determinism.uuid(), determinism.uuid(), determinism.now()];
+    };
+
+    const first = draw();
+    expect(draw()).toEqual(first);
+    expect(first[2]).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(first[2]).not.toBe(first[3]);
+    expect(first[4]).toBe(DETERMINISTIC_REFERENCE_DATE.getTime());
+  });
+
+  test('should salt UUIDs and keep the wall clock when not pinned', () => {
+    const first = new SeedDeterminism('abc');
+    const second = new SeedDeterminism('abc');
+
+    expect(first.uuid()).not.toBe(second.uuid());
+    expect(first.random()).toBe(second.random());
+    expect(Math.abs(first.now() - Date.now())).toBeLessThan(1000);
+  });
+
+  test('should give forks independent streams', () => {
+    const root = new SeedDeterminism('abc', { pinned: true });
+    const assets = root.fork('assets');
+    const untouched = new SeedDeterminism('abc', { pinned: true }).fork('assets');
+
+    root.random();
+    root.uuid();
+    expect(assets.random()).toBe(untouched.random());
+    expect(assets.uuid()).toBe(untouched.uuid());
+  });
+});
+
+describe('AssetSelectionEngine', () => {
+  const assets: LoadedAsset[] = Array.from({ length: 10 }, (_, i) => ({
+    id: `asset-${i}`,
+    filePath: `assets/${i}.md`,
+    type: 'markdown',
+    metadata: {} as any,
+    fileSize: 100 + i,
+    lastModified: new Date(Date.UTC(2024, 0, i + 1)),
+    isValid: true
+  }));
+
+  test('should draw from the run provider when one is given', () => {
+    const select = () => {
+      const determinism = new SeedDeterminism('run-seed', { pinned: true }).fork('assets');
+      return AssetSelectionEngine.selectWeighted(assets, 3, { biases: { byAge: 'prefer_new' } }, {
+        random: () => determinism.random(),
+        now: determinism.now()
+      }).selected.map(asset => asset.id);
+    };
+
+    expect(select()).toEqual(select());
+  });
+
+  test('should take a seeder\'s selection options from the context determinism', () => {
+    class AssetSeeder extends SeedModule {
+      async seed(): Promise<void> {}
+
+      pick(): string[] {
+        const options = this.assetSelectionOptions({ preserveOrder: true });
+        return AssetSelectionEngine.selectRandom(assets, 3, options).selected.map(asset => asset.id);
+      }
+    }
+    const select = (seed: string) => new AssetSeeder({
+      config: { ...config, seed },
+      faker,
+      determinism: new SeedDeterminism(seed, { pinned: true })
+    } as any).pick();
+
+    expect(select('run-seed')).toEqual(select('run-seed'));
+    expect(select('other-seed')).not.toEqual(select('run-seed'));
+  });
+});
+
+describe('verifyDeterminism', () => {
+  test('should find no differences between two runs of the domain seeders', async () => {
+    const report = await verifyDeterminism(config, runDomainSeeders);
+
+    expect(report.differences).toEqual([]);
+    expect(report.deterministic).toBe(true);
+    expect(report.rows).toBeGreaterThan(0);
+    expect(report.sql).toContain('INSERT INTO "auth"."users"');
+  });
+
+  test('should report values that are not derived from the seed', async () => {
+    const report = await verifyDeterminism(config, async context => {
+      await context.client.from('events').insert([
+        { name: 'fixed', token: Math.random().toString(36) }
+      ]).select();
+    });
+
+    expect(report.deterministic).toBe(false);
+    expect(report.differences).toEqual([
+      expect.objectContaining({ table: 'events', row: 0, column: 'token' })
+    ]);
+  });
+});
+
+describe('compareWithGolden', () => {
+  test('should create, match and detect changes in a golden file', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'supa-seed-golden-')), 'seed.sql');
+
+    expect(compareWithGolden('a\nb\n', file).status).toBe('created');
+    expect(compareWithGolden('a\nb\n', file).status).toBe('matched');
+    expect(compareWithGolden('a\nc\n', file)).toEqual({
+      status: 'changed',
+      changedLines: [{ line: 2, expected: 'b', actual: 'c' }]
+    });
+    expect(compareWithGolden('a\nc\n', file, true).status).toBe('updated');
+    expect(fs.readFileSync(file, 'utf8')).toBe('a\nc\n');
+  });
+});
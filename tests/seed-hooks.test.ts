@@ -0,0 +1,260 @@
+/**
+ * Test suite for seed hooks
+ * Verifies SQL and function hooks run at their points of the run and around
+ * tables in the pipeline, that failures stop the run unless the hook is
+ * optional, and that SQL hooks end up in rendered SQL files
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { Writable } from 'stream';
+import os from 'os';
+import path from 'path';
+import { faker } from '@faker-js/faker';
+import { SeedHookRunner, validateHooks } from '../src/features/hooks/seed-hook-runner';
+import { TableSeedingPipeline } from '../src/features/generation/table-seeding-pipeline';
+import { generateSeedSql } from '../src/features/output/sql-seed-generator';
+import { DATABASE_BACKEND } from '../src/core/database/database-backend';
+import { PostgresBackend } from '../src/core/database/postgres-backend';
+import { Logger } from '../src/core/utils/logger';
+import { SeedConfig, SeedContext, SeedHooksConfig } from '../src/core/types/types';
+import { DatabaseColumn, DatabaseTable } from '../src/schema/schema-introspector';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+function column(name: string, type: string, overrides: Partial<DatabaseColumn> = {}): DatabaseColumn {
+  return { name, type, isNullable: false, defaultValue: null, isPrimaryKey: false, isForeignKey: false, ...overrides };
+}
+
+function table(name: string, columns: DatabaseColumn[]): DatabaseTable {
+  return { name, schema: 'public', columns, constraints: [], indexes: [], triggers: [], rowCount: 0, hasData: false };
+}
+
+const schema = {
+  tables: [
+    table('orders', [column('id', 'uuid', { isPrimaryKey: true, defaultValue: 'gen_random_uuid()' }), column('total', 'integer')]),
+    table('order_stats', [column('day', 'date', { isPrimaryKey: true }), column('orders', 'integer')])
+  ],
+  patterns: []
+};
+
+function createContext(client: any, hooks: SeedHooksConfig, overrides: Partial<SeedConfig> = {}): SeedContext {
+  return {
+    client,
+    config: {
+      supabaseUrl: 'http://127.0.0.1:54321',
+      supabaseServiceKey: 'key',
+      environment: 'local',
+      userCount: 1,
+      setupsPerUser: 1,
+      imagesPerSetup: 0,
+      enableRealImages: false,
+      seed: 'hooks-test',
+      hooks,
+      ...overrides
+    },
+    faker,
+    cache: new Map([['events', []]]),
+    stats: { usersCreated: 0, setupsCreated: 0, imagesUploaded: 0, startTime: new Date() }
+  };
+}
+
+function createMockClient() {
+  const queries: string[] = [];
+  const inserts: string[] = [];
+  const backend = {
+    kind: 'postgres',
+    query: async (sql: string) => {
+      queries.push(sql.trim());
+      if (sql.includes('broken')) throw new Error('relation "broken" does not exist');
+      return [];
+    },
+    bulkInsert: async (tableName: string, rows: Record<string, any>[]) => {
+      inserts.push(tableName);
+      return rows;
+    },
+    close: async () => undefined
+  };
+
+  return { client: { [DATABASE_BACKEND]: backend }, queries, inserts };
+}
+
+/**
+ * Fake pg pool with one connection that records every statement run on it
+ */
+function createFakePool() {
+  const statements: string[] = [];
+  const connection = {
+    query: jest.fn((statement: any): any => {
+      if (typeof statement === 'object') {
+        statements.push(statement.text);
+        return new Writable({ write: (_chunk, _encoding, callback) => callback() });
+      }
+      statements.push(statement.trim());
+      return Promise.resolve({ rows: statement.startsWith('INSERT') ? [{ id: 'order-1' }] : [] });
+    }),
+    release: jest.fn()
+  };
+  const pool: any = {
+    query: jest.fn(async () => ({ rows: [] })),
+    connect: jest.fn(async () => connection),
+    end: jest.fn(async () => undefined)
+  };
+  return { pool, statements };
+}
+
+describe('Seed hooks', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'supa-seed-hooks-'));
+    writeFileSync(path.join(dir, 'settings.sql'), "SELECT set_config('app.seeding', 'on', false);\n");
+    writeFileSync(path.join(dir, 'refresh.sql'), 'REFRESH MATERIALIZED VIEW order_totals;\n');
+    writeFileSync(path.join(dir, 'stats.sql'), 'SELECT backfill_order_stats();\n');
+    writeFileSync(path.join(dir, 'tenant.sql'), "SET app.tenant = 'acme';\n");
+    writeFileSync(path.join(dir, 'broken.sql'), 'SELECT * FROM broken;\n');
+    writeFileSync(path.join(dir, 'hooks.js'), [
+      'exports.record = (context, event) => { context.cache.get("events").push(event); };',
+      'exports.default = (context, event) => { context.cache.get("events").push({ ...event, default: true }); };',
+      'exports.fail = () => { throw new Error("edge function returned 500"); };'
+    ].join('\n'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('runs SQL files through the database backend and calls function hooks with the context', async () => {
+    const { client, queries } = createMockClient();
+    const context = createContext(client, {
+      beforeRun: [{ sql: './settings.sql' }, { function: './hooks.js' }],
+      afterTable: [{ function: './hooks.js#record', tables: ['orders'] }]
+    });
+    const runner = new SeedHookRunner(context, dir);
+
+    await runner.run('beforeRun');
+    await runner.run('afterTable', 'orders');
+    await runner.run('afterTable', 'order_stats');
+    await runner.run('afterRun');
+
+    expect(queries).toEqual(["SELECT set_config('app.seeding', 'on', false);"]);
+    expect(context.cache.get('events')).toEqual([
+      { point: 'beforeRun', table: undefined, default: true },
+      { point: 'afterTable', table: 'orders' }
+    ]);
+  });
+
+  test('stops on a failing hook unless it is optional', async () => {
+    const { client, queries } = createMockClient();
+    const runner = new SeedHookRunner(createContext(client, {
+      beforeRun: [{ sql: './broken.sql', optional: true }, { sql: './settings.sql' }],
+      afterRun: [{ function: './hooks.js#fail' }, { sql: './refresh.sql' }],
+      beforeTable: [{ function: './hooks.js#missing' }]
+    }), dir);
+
+    await runner.run('beforeRun');
+    expect(queries).toHaveLength(2);
+    expect(Logger.warn).toHaveBeenCalledWith(
+      'beforeRun hook ./broken.sql failed, continuing: relation "broken" does not exist'
+    );
+
+    await expect(runner.run('afterRun')).rejects.toThrow('afterRun hook ./hooks.js#fail failed: edge function returned 500');
+    expect(queries).toHaveLength(2);
+    await expect(runner.run('beforeTable', 'orders')).rejects.toThrow(
+      "beforeTable hook ./hooks.js#missing for orders failed: './hooks.js#missing' does not export a hook function named missing"
+    );
+  });
+
+  test('table hooks run around every table in the pipeline, including tables without rows', async () => {
+    const { client, queries, inserts } = createMockClient();
+    const context = createContext(client, {
+      beforeTable: [{ function: './hooks.js#record' }],
+      afterTable: [{ sql: './stats.sql', tables: ['orders'] }]
+    }, { tables: { orders: { count: 2 }, order_stats: { count: 0 } } });
+    context.hooks = new SeedHookRunner(context, dir);
+
+    const pipeline = new TableSeedingPipeline(context);
+    await pipeline.run(TableSeedingPipeline.createPlan(schema, []));
+
+    expect(context.cache.get('events')).toEqual([
+      { point: 'beforeTable', table: 'orders' },
+      { point: 'beforeTable', table: 'order_stats' }
+    ]);
+    expect(inserts).toEqual(['orders']);
+    expect(queries).toEqual(['SELECT backfill_order_stats();']);
+  });
+
+  test('settings a beforeTable hook makes apply to that table\'s inserts on a single connection', async () => {
+    const { pool, statements } = createFakePool();
+    const backend = new PostgresBackend(pool, { singleConnection: true });
+    const context = createContext({ [DATABASE_BACKEND]: backend }, {
+      beforeTable: [{ sql: './tenant.sql', tables: ['orders'] }]
+    }, { tables: { orders: { count: 1 }, order_stats: { count: 0 } } });
+    context.hooks = new SeedHookRunner(context, dir);
+
+    await new TableSeedingPipeline(context).run(TableSeedingPipeline.createPlan(schema, []));
+
+    const tenant = statements.indexOf("SET app.tenant = 'acme';");
+    const insert = statements.findIndex(statement => statement.startsWith('INSERT INTO "orders"'));
+    expect(tenant).toBeGreaterThanOrEqual(0);
+    expect(insert).toBeGreaterThan(tenant);
+    expect(pool.connect).toHaveBeenCalledTimes(1);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  test('renders SQL hooks into the SQL file at their place', async () => {
+    const hooks: SeedHooksConfig = {
+      beforeRun: [{ sql: './settings.sql' }],
+      afterTable: [{ sql: './stats.sql', tables: ['orders', 'order_stats'] }],
+      afterRun: [{ sql: './refresh.sql' }]
+    };
+    const config = createContext(null, hooks, { tables: { orders: { count: 1 }, order_stats: { count: 0 } } }).config;
+
+    const sql = await generateSeedSql(config, async context => {
+      context.hooks = new SeedHookRunner(context, dir);
+      await context.hooks.run('beforeRun');
+      await new TableSeedingPipeline(context).run(TableSeedingPipeline.createPlan(schema, []));
+      await context.hooks.run('afterRun');
+    });
+
+    expect(sql).toContain([
+      '-- beforeRun hook',
+      "SELECT set_config('app.seeding', 'on', false);",
+      '',
+      '-- Rows are inserted exactly as generated, without firing triggers or checking'
+    ].join('\n'));
+    expect(sql).toMatch(/-- Phase 1: orders\nINSERT INTO "orders" [^;]+;\n-- afterTable hook \(orders\)\nSELECT backfill_order_stats\(\);\n/);
+    expect(sql).toContain([
+      '-- afterTable hook (order_stats)',
+      'SELECT backfill_order_stats();',
+      '',
+      'SET session_replication_role = DEFAULT;',
+      '',
+      '-- afterRun hook',
+      'REFRESH MATERIALIZED VIEW order_totals;'
+    ].join('\n'));
+  });
+
+  test('validateHooks reports malformed entries', () => {
+    expect(validateHooks({
+      beforeRun: [{ sql: './a.sql', function: './b.ts' }, { tables: ['orders'], function: './b.ts' }],
+      afterTable: [{ sql: './c.sql', tables: 'orders' as any }, {}],
+      onError: [] as any
+    } as SeedHooksConfig)).toEqual([
+      'hooks.beforeRun[0]: needs exactly one of "sql" or "function"',
+      'hooks.beforeRun[1]: "tables" only applies to beforeTable and afterTable hooks',
+      'hooks.afterTable[0]: "tables" must be a list of table names',
+      'hooks.afterTable[1]: needs exactly one of "sql" or "function"',
+      'hooks.onError: unknown hook point (expected beforeRun, afterRun, beforeTable, afterTable)'
+    ]);
+    expect(validateHooks(undefined)).toEqual([]);
+  });
+});
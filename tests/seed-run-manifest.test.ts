@@ -0,0 +1,344 @@
+/**
+ * Test suite for Seed Run Manifest and Rollback
+ * Verifies that runs record exactly what they insert and roll back in dependency order
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import path from 'path';
+import { tmpdir } from 'os';
+import { SeedRunRecorder, ManifestStore } from '../src/features/manifest/run-manifest';
+import { createRecordingClient } from '../src/features/manifest/recording-client';
+import { RollbackManager } from '../src/features/manifest/rollback-manager';
+import { ForeignKeyRelationship } from '../src/schema/dependency-graph';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+class FakeQueryBuilder {
+  public selectCalls: Array<string | undefined> = [];
+
+  constructor(private response: { data: any; error: any }) {}
+
+  insert() { return this; }
+  upsert() { return this; }
+  select(columns?: string) { this.selectCalls.push(columns); return this; }
+  single() {
+    const data = Array.isArray(this.response.data) ? this.response.data[0] : this.response.data;
+    this.response = { ...this.response, data };
+    return this;
+  }
+  then(onFulfilled: (value: any) => any, onRejected?: (error: any) => any) {
+    return Promise.resolve(this.response).then(onFulfilled, onRejected);
+  }
+}
+
+function foreignKey(fromTable: string, toTable: string): ForeignKeyRelationship {
+  return {
+    constraintName: `${fromTable}_${toTable}_fkey`,
+    fromTable,
+    fromColumn: `${toTable}_id`,
+    toTable,
+    toColumn: 'id',
+    onDelete: 'NO ACTION',
+    onUpdate: 'NO ACTION',
+    isNullable: false,
+    isDeferrable: false,
+    schema: 'public'
+  };
+}
+
+describe('Seed Run Manifest', () => {
+  describe('SeedRunRecorder', () => {
+    test('should record rows keyed by id and skip duplicates', () => {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'test' });
+
+      recorder.recordRows('accounts', [{ id: 'a1', name: 'One' }, { id: 'a2', name: 'Two' }]);
+      recorder.recordRows('accounts', { id: 'a1', name: 'One again' });
+
+      const manifest = recorder.getManifest();
+      expect(manifest.tables).toHaveLength(1);
+      expect(manifest.tables[0].primaryKey).toEqual(['id']);
+      expect(manifest.tables[0].rows).toEqual([{ id: 'a1' }, { id: 'a2' }]);
+    });
+
+    test('should key rows without an id column by their scalar columns', () => {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'test' });
+
+      recorder.recordRows('setup_gear_items', [{ setup_id: 's1', gear_id: 'g1', meta: { a: 1 } }]);
+
+      const entry = recorder.getManifest().tables[0];
+      expect(entry.primaryKey).toEqual(['setup_id', 'gear_id']);
+      expect(entry.rows).toEqual([{ setup_id: 's1', gear_id: 'g1' }]);
+    });
+
+    test('should finish with a status and completion time', () => {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'test' });
+      const manifest = recorder.finish('completed');
+
+      expect(manifest.status).toBe('completed');
+      expect(manifest.completedAt).toBeDefined();
+      expect(manifest.runId).toMatch(/^run_\d{14}_[0-9a-f]{6}$/);
+    });
+  });
+
+  describe('Recording client', () => {
+    test('should record inserted rows, auth users and uploads', async () => {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'test' });
+      const builder = new FakeQueryBuilder({ data: [{ id: 'setup-1', title: 'Camp' }], error: null });
+      const client = {
+        from: jest.fn().mockReturnValue(builder),
+        auth: {
+          admin: {
+            createUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+            listUsers: jest.fn().mockResolvedValue({ data: { users: [] }, error: null })
+          }
+        },
+        storage: {
+          from: jest.fn().mockReturnValue({
+            upload: jest.fn().mockResolvedValue({ data: { path: 'u1/photo.png' }, error: null })
+          })
+        }
+      };
+
+      const recording = createRecordingClient(client, recorder);
+
+      const { data } = await recording.from('setups').insert({ title: 'Camp' }).select('id').single();
+      await recording.auth.admin.createUser({ email: 'a@b.test' });
+      await recording.auth.admin.listUsers();
+      await recording.storage.from('setup-images').upload('u1/photo.png', Buffer.from(''));
+
+      expect(data).toEqual({ id: 'setup-1', title: 'Camp' });
+      expect(builder.selectCalls).toEqual([undefined, 'id,*']);
+
+      const manifest = recorder.getManifest();
+      expect(manifest.tables).toEqual([{ table: 'setups', primaryKey: ['id'], rows: [{ id: 'setup-1' }] }]);
+      expect(manifest.authUserIds).toEqual(['user-1']);
+      expect(manifest.storageObjects).toEqual([{ bucket: 'setup-images', path: 'u1/photo.png' }]);
+    });
+
+    test('should keep the key columns in a caller\'s narrowed select', async () => {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'test' });
+      const builders = [
+        new FakeQueryBuilder({ data: [{ title: 'Camp', id: 'setup-1' }], error: null }),
+        new FakeQueryBuilder({ data: [{ id: 'setup-2', owner: { id: 'user-1' } }], error: null }),
+        new FakeQueryBuilder({ data: [{ id: 'setup-3', title: 'Lake' }], error: null })
+      ];
+      const client: any = { from: jest.fn(() => builders.shift()) };
+      const [narrowed, embedded, all] = builders;
+
+      const recording = createRecordingClient(client, recorder);
+      await recording.from('setups').insert({ title: 'Camp' }).select('title');
+      await recording.from('setups').insert({ title: 'Dune' }).select('owner:profiles(id)');
+      await recording.from('setups').insert({ title: 'Lake' }).select('*');
+
+      expect(narrowed.selectCalls).toEqual([undefined, 'title,*']);
+      expect(embedded.selectCalls).toEqual([undefined, 'owner:profiles(id),id']);
+      expect(all.selectCalls).toEqual([undefined, '*']);
+      expect(recorder.getManifest().tables[0].rows).toEqual([{ id: 'setup-1' }, { id: 'setup-2' }, { id: 'setup-3' }]);
+    });
+
+    test('should never ask a table without an id column for one', async () => {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'test' });
+      const builders = [
+        new FakeQueryBuilder({ data: [{ setup_id: 's1', gear_id: 'g1' }], error: null }),
+        new FakeQueryBuilder({ data: [{ gear_id: 'g2', setup_id: 's1' }], error: null })
+      ];
+      const client: any = { from: jest.fn(() => builders.shift()) };
+      const [first, second] = builders;
+
+      const recording = createRecordingClient(client, recorder);
+      await recording.from('setup_gear_items').insert({ setup_id: 's1', gear_id: 'g1' }).select('setup_id');
+      await recording.from('setup_gear_items').insert({ setup_id: 's1', gear_id: 'g2' }).select('gear_id');
+
+      expect(first.selectCalls).toEqual([undefined, 'setup_id,*']);
+      expect(second.selectCalls).toEqual([undefined, 'gear_id,setup_id']);
+      expect(recorder.getManifest().tables).toEqual([{
+        table: 'setup_gear_items',
+        primaryKey: ['setup_id', 'gear_id'],
+        rows: [{ setup_id: 's1', gear_id: 'g1' }, { setup_id: 's1', gear_id: 'g2' }]
+      }]);
+    });
+
+    test('should not record uploads that overwrote an existing object', async () => {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'test' });
+      const stored = new Set(['u1/existing.png']);
+      const bucket = {
+        exists: jest.fn(async (objectPath: string) => ({ data: stored.has(objectPath), error: null })),
+        upload: jest.fn(async (objectPath: string) => {
+          stored.add(objectPath);
+          return { data: { path: objectPath }, error: null };
+        })
+      };
+      const recording = createRecordingClient<any>({ storage: { from: jest.fn(() => bucket) } }, recorder);
+
+      await recording.storage.from('setup-images').upload('u1/existing.png', Buffer.from(''), { upsert: true });
+      await recording.storage.from('setup-images').upload('u1/new.png', Buffer.from(''), { upsert: true });
+
+      expect(recorder.getManifest().storageObjects).toEqual([{ bucket: 'setup-images', path: 'u1/new.png' }]);
+    });
+
+    test('should not record failed inserts or merging upserts', async () => {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'test' });
+      const client = {
+        from: jest.fn()
+          .mockReturnValueOnce(new FakeQueryBuilder({ data: null, error: { message: 'duplicate key' } }))
+          .mockReturnValueOnce(new FakeQueryBuilder({ data: [{ id: 'existing' }], error: null }))
+      };
+
+      const recording = createRecordingClient(client, recorder);
+      await recording.from('accounts').insert({ id: 'x' });
+      await recording.from('accounts').upsert({ id: 'existing' });
+
+      expect(recorder.getManifest().tables).toHaveLength(0);
+    });
+  });
+
+  describe('ManifestStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), 'supa-seed-runs-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should save, load and list manifests newest first', () => {
+      const store = new ManifestStore(directory);
+      const first = new SeedRunRecorder({ supabaseUrl: 'u', seed: 's', runId: 'run_a' }).finish('completed');
+      const second = new SeedRunRecorder({ supabaseUrl: 'u', seed: 's', runId: 'run_b' }).finish('completed');
+      first.startedAt = '2025-01-01T00:00:00.000Z';
+      second.startedAt = '2025-01-02T00:00:00.000Z';
+
+      store.save(first);
+      store.save(second);
+
+      expect(store.load('run_a').runId).toBe('run_a');
+      expect(store.list().map(m => m.runId)).toEqual(['run_b', 'run_a']);
+      expect(store.latest()?.runId).toBe('run_b');
+    });
+
+    test('should reject run ids that escape the runs directory', () => {
+      const store = new ManifestStore(directory);
+      expect(() => store.load('../secrets')).toThrow('Invalid run id');
+    });
+  });
+
+  describe('RollbackManager', () => {
+    // Rows whose key is in `gone` were already deleted, so the delete returns nothing for them
+    function createMockClient(gone: string[] = []) {
+      const calls: string[] = [];
+      const client: any = {
+        from: jest.fn((table: string) => ({
+          delete: () => ({
+            in: (column: string, values: any[]) => ({
+              select: jest.fn(async () => {
+                calls.push(`${table}:${column}:${values.join(',')}`);
+                return { data: values.filter(value => !gone.includes(value)).map(value => ({ [column]: value })), error: null };
+              })
+            }),
+            match: (row: Record<string, any>) => ({
+              select: jest.fn(async () => {
+                calls.push(`${table}:match:${JSON.stringify(row)}`);
+                return { data: [row], error: null };
+              })
+            })
+          })
+        })),
+        storage: {
+          from: jest.fn(() => ({
+            remove: jest.fn(async (paths: string[]) => {
+              calls.push(`storage:${paths.join(',')}`);
+              return { error: null };
+            })
+          }))
+        },
+        auth: {
+          admin: {
+            deleteUser: jest.fn(async (id: string) => {
+              calls.push(`auth:${id}`);
+              return { error: null };
+            })
+          }
+        }
+      };
+      return { client, calls };
+    }
+
+    function buildManifest() {
+      const recorder = new SeedRunRecorder({ supabaseUrl: 'u', seed: 's', runId: 'run_x' });
+      // Recorded out of dependency order on purpose
+      recorder.recordRows('setup_gear_items', [{ setup_id: 's1', gear_items_id: 'g1' }]);
+      recorder.recordRows('accounts', [{ id: 'a1' }]);
+      recorder.recordRows('setups', [{ id: 's1' }]);
+      recorder.recordRows('gear_items', [{ id: 'g1' }]);
+      recorder.recordStorageObject('setup-images', 'a1/s1.png');
+      recorder.recordAuthUser('a1');
+      return recorder.finish('completed');
+    }
+
+    test('should delete children before parents using the dependency graph', async () => {
+      const { client, calls } = createMockClient();
+      const manager = new RollbackManager(client);
+
+      const result = await manager.rollback(buildManifest(), {}, [
+        foreignKey('setups', 'accounts'),
+        foreignKey('setup_gear_items', 'setups'),
+        foreignKey('setup_gear_items', 'gear_items')
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.orderSource).toBe('dependency_graph');
+      const order = result.deletionOrder;
+      expect(order.indexOf('setup_gear_items')).toBeLessThan(order.indexOf('setups'));
+      expect(order.indexOf('setup_gear_items')).toBeLessThan(order.indexOf('gear_items'));
+      expect(order.indexOf('setups')).toBeLessThan(order.indexOf('accounts'));
+
+      expect(calls[0]).toBe('storage:a1/s1.png');
+      expect(calls[calls.length - 1]).toBe('auth:a1');
+      expect(calls).toContain('setup_gear_items:match:{"setup_id":"s1","gear_items_id":"g1"}');
+      expect(result.deletedRows).toEqual({ setup_gear_items: 1, setups: 1, gear_items: 1, accounts: 1 });
+    });
+
+    test('should only count rows the delete actually removed', async () => {
+      const { client, calls } = createMockClient(['s1']);
+      const manager = new RollbackManager(client);
+
+      const result = await manager.rollback(buildManifest(), {}, []);
+
+      expect(calls).toContain('setups:id:s1');
+      expect(result.deletedRows).toEqual({ setup_gear_items: 1, setups: 0, gear_items: 1, accounts: 1 });
+    });
+
+    test('should fall back to reverse insertion order without foreign keys', async () => {
+      const { client } = createMockClient();
+      const manager = new RollbackManager(client);
+
+      const { order, source } = await manager.resolveDeletionOrder(buildManifest(), []);
+
+      expect(source).toBe('insertion_order');
+      expect(order).toEqual(['gear_items', 'setups', 'accounts', 'setup_gear_items']);
+    });
+
+    test('should not delete anything in dry run mode', async () => {
+      const { client, calls } = createMockClient();
+      const manager = new RollbackManager(client);
+
+      const result = await manager.rollback(buildManifest(), { dryRun: true }, []);
+
+      expect(calls).toHaveLength(0);
+      expect(result.dryRun).toBe(true);
+      expect(result.authUsersDeleted).toBe(1);
+      expect(result.storageObjectsRemoved).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Test suite for SQL dump output
+ * Verifies that seeding can be captured offline and rendered as ordered, repeatable INSERTs
+ */
+
+import { SqlCaptureClient, SqlExpression } from '../src/features/output/sql-capture-client';
+import { SqlDumpRenderer } from '../src/features/output/sql-dump-renderer';
+import { generateSeedSql } from '../src/features/output/sql-seed-generator';
+import { DOMAIN_PLUGINS, resolveDomainPlugins } from '../src/features/generation/seeders/domain-plugins';
+import { SeedConfig, SeedContext } from '../src/core/types/types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+describe('SQL output', () => {
+  describe('SqlCaptureClient', () => {
+    test('should create auth.users and auth.identities rows for new users', async () => {
+      const capture = new SqlCaptureClient({ seed: 'test' });
+
+      const { data, error } = await capture.auth.admin.createUser({
+        email: 'Ada@Example.test',
+        password: 'secret',
+        email_confirm: true,
+        user_metadata: { full_name: 'Ada' }
+      });
+
+      expect(error).toBeNull();
+      const users = capture.getRows('auth.users');
+      const identities = capture.getRows('auth.identities');
+      expect(users).toHaveLength(1);
+      expect(users[0].id).toBe(data.user!.id);
+      expect(users[0].email).toBe('ada@example.test');
+      expect(users[0].encrypted_password).toBeInstanceOf(SqlExpression);
+      expect(identities[0]).toMatchObject({ user_id: data.user!.id, provider: 'email', provider_id: data.user!.id });
+
+      const duplicate = await capture.auth.admin.createUser({ email: 'ada@example.test' });
+      expect(duplicate.error).not.toBeNull();
+    });
+
+    test('should answer reads from captured rows like PostgREST', async () => {
+      const capture = new SqlCaptureClient({ seed: 'test' });
+
+      const { data: inserted } = await capture.from('accounts').insert({ email: 'a@b.test' }).select('id').single();
+      await capture.from('accounts').insert([{ id: 'x', email: 'c@d.test' }]);
+
+      expect(inserted.id).toMatch(/^[0-9a-f-]{36}$/);
+
+      const { data: found } = await capture.from('accounts').select('*').eq('email', 'c@d.test').single();
+      expect(found).toEqual({ id: 'x', email: 'c@d.test' });
+
+      const { data: missing, error } = await capture.from('accounts').select('*').eq('email', 'none').single();
+      expect(missing).toBeNull();
+      expect(error.code).toBe('PGRST116');
+
+      await capture.from('accounts').update({ email: 'e@f.test' }).eq('id', 'x');
+      const { data: matches } = await capture.from('accounts').select('*').like('email', '%@f.test');
+      expect(matches).toHaveLength(1);
+    });
+  });
+
+  describe('SqlDumpRenderer', () => {
+    test('should insert parents before children and auth tables first', () => {
+      const renderer = new SqlDumpRenderer({ seed: 'test' });
+      const phases = renderer.resolvePhases([
+        { table: 'comments', rows: [{ id: 'c1', setup_id: 's1' }] },
+        { table: 'setups', rows: [{ id: 's1', account_id: 'u1' }] },
+        { table: 'auth.users', rows: [{ id: 'u1' }] }
+      ]);
+
+      const order = phases.flat();
+      expect(order).toEqual(['auth.users', 'setups', 'comments']);
+    });
+
+    test('should render values and replace random ids and capture-time timestamps', () => {
+      const now = Date.now();
+      const render = (userId: string) => new SqlDumpRenderer({ seed: 'test', capturedBetween: [now, now] }).render([
+        { table: 'auth.users', rows: [{ id: userId, encrypted_password: new SqlExpression("crypt('x', gen_salt('bf'))") }] },
+        {
+          table: 'profiles',
+          rows: [{
+            id: userId,
+            name: "O'Neil",
+            tags: ['a', 'b'],
+            settings: { theme: 'dark' },
+            active: true,
+            created_at: new Date(now).toISOString(),
+            born_at: '1990-01-01T00:00:00.000Z'
+          }]
+        }
+      ]);
+
+      const first = render('6f1c1d5e-0c1a-4d6e-9d7a-2f3b4c5d6e7f');
+      const second = render('0a9b8c7d-6e5f-4a3b-8c2d-1e0f9a8b7c6d');
+
+      expect(first).toBe(second);
+      expect(first).toContain(`INSERT INTO "auth"."users" ("id", "encrypted_password") VALUES`);
+      expect(first).toContain(`crypt('x', gen_salt('bf'))`);
+      expect(first).toContain(`'O''Neil', '{"a","b"}', '{"theme":"dark"}', true, now(), '1990-01-01T00:00:00.000Z'`);
+      expect(first.indexOf('"auth"."users"')).toBeLessThan(first.indexOf('"profiles"'));
+    });
+  });
+
+  describe('generateSeedSql', () => {
+    const config: SeedConfig = {
+      supabaseUrl: 'http://127.0.0.1:54321',
+      supabaseServiceKey: 'offline',
+      environment: 'local',
+      userCount: 2,
+      setupsPerUser: 1,
+      imagesPerSetup: 0,
+      enableRealImages: false,
+      seed: 'sql-output-test',
+      emailDomain: 'supaseed.test'
+    };
+
+    const runSeeders = async (context: SeedContext) => {
+      for (const name of resolveDomainPlugins(config)) {
+        await new DOMAIN_PLUGINS[name](context).seed();
+      }
+    };
+
+    test('should produce identical SQL for the same seed', async () => {
+      const first = await generateSeedSql(config, runSeeders);
+      const second = await generateSeedSql(config, runSeeders);
+
+      expect(first).toBe(second);
+      expect(first).toContain('INSERT INTO "auth"."users"');
+      expect(first).toContain('INSERT INTO "auth"."identities"');
+      expect(first.indexOf('"auth"."users"')).toBeLessThan(first.indexOf('"auth"."identities"'));
+    });
+  });
+});
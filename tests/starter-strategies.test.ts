@@ -0,0 +1,175 @@
+/**
+ * Test suite for the starter kit strategies
+ * Verifies that Supastarter, with-supabase and Basejump are detected from
+ * their reference schemas and that users are created with the tenant rows
+ * each starter expects
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseSchemaSql } from '../src/features/integration/schema-sql';
+import { StrategyRegistry } from '../src/features/integration/strategy-registry';
+import { SeedingStrategy } from '../src/features/integration/strategy-interface';
+import { GenericStrategy } from '../src/features/integration/strategies/generic-strategy';
+import { SupastarterStrategy } from '../src/features/integration/strategies/supastarter-strategy';
+import { WithSupabaseStrategy } from '../src/features/integration/strategies/with-supabase-strategy';
+import { BasejumpStrategy } from '../src/features/integration/strategies/basejump-strategy';
+import { SqlCaptureClient } from '../src/features/output/sql-capture-client';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+function referenceSchema(file: string) {
+  return parseSchemaSql(readFileSync(path.join(__dirname, '..', file), 'utf-8'));
+}
+
+async function initialized<T extends SeedingStrategy>(strategy: T, client: SqlCaptureClient): Promise<T> {
+  await strategy.initialize(client as any);
+  return strategy;
+}
+
+describe('parseSchemaSql', () => {
+  test('should read tables, constraints, functions and triggers from a reference schema', () => {
+    const schema = referenceSchema('schema-basejump.sql');
+
+    expect(schema.tables.map(table => table.name)).toEqual([
+      'basejump.config', 'basejump.accounts', 'basejump.account_user', 'basejump.invitations'
+    ]);
+    const accounts = schema.tables.find(table => table.name === 'basejump.accounts')!;
+    expect(accounts.columns.find(column => column.name === 'personal_account')).toEqual({
+      name: 'personal_account', type: 'boolean', nullable: false, defaultValue: 'false'
+    });
+    expect(accounts.relationships).toContainEqual({
+      type: 'foreign_key', sourceColumn: 'primary_owner_user_id', targetTable: 'auth.users', targetColumn: 'id'
+    });
+    expect(schema.constraints).toContainEqual(expect.objectContaining({
+      name: 'basejump_accounts_slug_null_if_personal_account_true', table: 'basejump.accounts', type: 'check'
+    }));
+    expect(schema.functions.map(fn => [fn.schema, fn.name])).toContainEqual(['basejump', 'basejump.run_new_user_setup']);
+    expect(schema.functions.map(fn => [fn.schema, fn.name])).toContainEqual(['public', 'get_accounts']);
+    expect(schema.triggers).toContainEqual({
+      name: 'on_auth_user_created', event: 'INSERT', table: 'auth.users', function: 'basejump.run_new_user_setup'
+    });
+  });
+});
+
+describe('starter strategy detection', () => {
+  let registry: StrategyRegistry;
+
+  beforeAll(async () => {
+    registry = new StrategyRegistry(new SqlCaptureClient({ seed: 'starter-detection' }) as any);
+    await registry.registerAll([
+      new SupastarterStrategy(),
+      new BasejumpStrategy(),
+      new WithSupabaseStrategy(),
+      new GenericStrategy()
+    ]);
+  });
+
+  test.each([
+    ['schema-supastarter.sql', 'supastarter'],
+    ['schema-with-supabase.sql', 'with-supabase'],
+    ['schema-basejump.sql', 'basejump']
+  ])('should select the matching strategy for %s', async (file, expected) => {
+    const selection = await registry.selectStrategy(referenceSchema(file));
+
+    expect(selection.strategy.name).toBe(expected);
+    expect(selection.detection.confidence).toBe(1);
+    expect(selection.reason).toBe('best_match');
+  });
+
+  test('should treat a schema with nothing but auth as with-supabase', async () => {
+    const selection = await registry.selectStrategy({ tables: [], functions: [], triggers: [], constraints: [] });
+
+    expect(selection.strategy.name).toBe('with-supabase');
+    expect(selection.detection.detectedFeatures).toEqual(['auth_only', 'no_tenant_tables']);
+  });
+
+  test('should not claim the schemas of the other starters', async () => {
+    const basejump = new BasejumpStrategy();
+    const supastarter = new SupastarterStrategy();
+
+    expect((await basejump.detect(referenceSchema('schema-supastarter.sql'))).confidence).toBe(0);
+    expect((await supastarter.detect(referenceSchema('schema-basejump.sql'))).confidence).toBe(0);
+  });
+});
+
+describe('starter strategy user creation', () => {
+  test('should give Supastarter users a profile and a team they created', async () => {
+    const database = new SqlCaptureClient({ seed: 'supastarter-users' });
+    const strategy = await initialized(new SupastarterStrategy(), database);
+
+    const user = await strategy.createUser({ email: 'ada@acme.test', name: 'Ada Lovelace', username: 'ada' });
+
+    expect(database.getRows('auth.users')[0].raw_user_meta_data).toEqual(expect.objectContaining({ name: 'Ada Lovelace' }));
+    expect(database.getRows('user_profiles')).toEqual([
+      expect.objectContaining({ id: user.id, name: 'Ada Lovelace', username: 'ada' })
+    ]);
+    const [team] = database.getRows('teams');
+    expect(team.name).toBe("Ada Lovelace's Team");
+    expect(team.slug).toMatch(/^ada-lovelace-s-team-[0-9a-f]{8}$/);
+    expect(database.getRows('team_memberships')).toEqual([
+      { team_id: team.id, user_id: user.id, role: 'OWNER', is_creator: true }
+    ]);
+
+    const { modifiedData } = await strategy.handleConstraints('team_memberships', { role: 'member' });
+    expect(modifiedData.role).toBe('MEMBER');
+  });
+
+  test('should create with-supabase profiles from the quickstart metadata', async () => {
+    const database = new SqlCaptureClient({ seed: 'with-supabase-users' });
+    const strategy = await initialized(new WithSupabaseStrategy(), database);
+    await strategy.detect(referenceSchema('schema-with-supabase.sql'));
+
+    const user = await strategy.createUser({ email: 'al@acme.test', name: 'Al Smith', username: 'al' });
+
+    expect(database.getRows('auth.users')[0].raw_user_meta_data).toEqual(expect.objectContaining({ full_name: 'Al Smith' }));
+    expect(database.getRows('profiles')).toEqual([
+      expect.objectContaining({ id: user.id, full_name: 'Al Smith', username: null })
+    ]);
+  });
+
+  test('should add the owner membership to Basejump team accounts', async () => {
+    const database = new SqlCaptureClient({ seed: 'basejump-users' });
+    const strategy = await initialized(new BasejumpStrategy(), database);
+
+    const user = await strategy.createUser({ email: 'grace@acme.test', name: 'Grace Hopper' });
+    // The personal account is left to run_new_user_setup
+    expect(database.getRows('basejump.accounts')).toEqual([]);
+
+    const team = await strategy.createTeamAccount(user.id, { name: 'Acme', slug: 'acme' });
+
+    expect(database.getRows('basejump.accounts')).toEqual([
+      expect.objectContaining({ id: team.id, slug: 'acme', personal_account: false, primary_owner_user_id: user.id })
+    ]);
+    expect(database.getRows('basejump.account_user')).toEqual([
+      { account_id: team.id, user_id: user.id, account_role: 'owner' }
+    ]);
+
+    const personal = await strategy.handleConstraints('basejump.accounts', { personal_account: true, slug: 'grace' });
+    expect(personal.modifiedData.slug).toBeNull();
+  });
+
+  test('should ask for databaseUrl to write Basejump team accounts through PostgREST', async () => {
+    const client: any = { from: jest.fn(), rpc: jest.fn() };
+    const strategy = new BasejumpStrategy();
+    await strategy.initialize(client);
+
+    await expect(strategy.createTeamAccount('user-1', { name: 'Acme', slug: 'acme' })).rejects.toThrow(
+      'Cannot create Basejump account Acme: the basejump schema is not exposed through PostgREST, set databaseUrl to write it'
+    );
+    await expect(strategy.addAccountMember('account-1', 'user-1')).rejects.toThrow(
+      'Cannot add user-1 to Basejump account account-1: the basejump schema is not exposed through PostgREST, set databaseUrl to write it'
+    );
+    expect(client.from).not.toHaveBeenCalled();
+  });
+});
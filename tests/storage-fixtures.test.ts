@@ -0,0 +1,335 @@
+/**
+ * Test suite for storage fixtures
+ * Verifies local files are uploaded through batchUpload with templated paths
+ * and that the referencing rows and attachment tables are filled in
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { faker } from '@faker-js/faker';
+import { StorageFixtureSeeder } from '../src/features/generation/storage/storage-fixture-seeder';
+import { StorageIntegrationManager } from '../src/features/generation/storage/storage-integration-manager';
+import { SeedRunRecorder } from '../src/features/manifest/run-manifest';
+import { SeedConfig, SeedContext, StorageFixtureConfig } from '../src/core/types/types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+function createMockClient(tables: Record<string, Record<string, any>[]>, existing: string[] = []) {
+  const uploads: Array<{ bucket: string; path: string; contentType: string; upsert: boolean }> = [];
+  const updates: Array<{ table: string; values: Record<string, any>; keys: Record<string, any> }> = [];
+  const inserts: Array<{ table: string; rows: Record<string, any>[] }> = [];
+
+  const client: any = {
+    storage: {
+      from: (bucket: string) => ({
+        upload: async (objectPath: string, _body: Blob, options: { contentType: string; upsert: boolean }) => {
+          uploads.push({ bucket, path: objectPath, contentType: options.contentType, upsert: options.upsert });
+          if (existing.includes(objectPath) && !options.upsert) {
+            return { data: null, error: { message: 'The resource already exists' } };
+          }
+          return objectPath.includes('broken')
+            ? { data: null, error: { message: 'bucket not found' } }
+            : { data: { path: objectPath }, error: null };
+        },
+        getPublicUrl: (objectPath: string) => ({
+          data: { publicUrl: `http://127.0.0.1:54321/storage/v1/object/public/${bucket}/${objectPath}` }
+        }),
+        list: async () => ({ data: [], error: null })
+      })
+    },
+    from: (table: string) => ({
+      select: () => ({
+        limit: async (count: number) => ({ data: (tables[table] || []).slice(0, count), error: null }),
+        in: async (column: string, values: any[]) => ({
+          data: (tables[table] || []).filter(row => values.includes(row[column])),
+          error: null
+        })
+      }),
+      update: (values: Record<string, any>) => ({
+        match: async (keys: Record<string, any>) => {
+          updates.push({ table, values, keys });
+          return { data: null, error: null };
+        }
+      }),
+      insert: (rows: Record<string, any>[]) => ({
+        select: async () => {
+          inserts.push({ table, rows });
+          return { data: rows, error: null };
+        }
+      })
+    })
+  };
+
+  return { client, uploads, updates, inserts };
+}
+
+function createContext(client: any, fixtures: StorageFixtureConfig[], manifest?: SeedRunRecorder): SeedContext {
+  const config: SeedConfig = {
+    supabaseUrl: 'http://127.0.0.1:54321',
+    supabaseServiceKey: 'key',
+    environment: 'local',
+    userCount: 1,
+    setupsPerUser: 1,
+    imagesPerSetup: 0,
+    enableRealImages: false,
+    seed: 'storage-fixtures-test',
+    deterministic: true,
+    storage: { fixtures }
+  };
+
+  return {
+    client,
+    config,
+    faker,
+    cache: new Map(),
+    stats: { usersCreated: 0, setupsCreated: 0, imagesUploaded: 0, startTime: new Date() },
+    manifest
+  };
+}
+
+function seededRun(table: string, rows: Record<string, any>[]): SeedRunRecorder {
+  const manifest = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'storage-fixtures-test' });
+  manifest.recordRows(table, rows);
+  return manifest;
+}
+
+describe('Storage fixtures', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'supa-seed-fixtures-'));
+    fs.mkdirSync(path.join(dir, 'avatars', 'people'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'avatars', 'people', 'ada.png'), 'png-ada');
+    fs.writeFileSync(path.join(dir, 'avatars', 'people', 'grace.png'), 'png-grace');
+    fs.writeFileSync(path.join(dir, 'avatars', 'notes.txt'), 'not an avatar');
+    fs.mkdirSync(path.join(dir, 'gear'));
+    fs.writeFileSync(path.join(dir, 'gear', 'tent.jpg'), 'jpg-tent');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const accounts = [
+    { id: 'acc-1', name: 'Ada', picture_url: null },
+    { id: 'acc-2', name: 'Grace', picture_url: null }
+  ];
+
+  test('uploads a matching file per row and sets the avatar column to its public URL', async () => {
+    const { client, uploads, updates } = createMockClient({ accounts });
+    const fixture: StorageFixtureConfig = {
+      files: path.join(dir, 'avatars/**/*.png'),
+      bucket: 'account_image',
+      path: '{{id}}/{{uuid}}.{{file.ext}}',
+      table: 'accounts',
+      column: 'picture_url'
+    };
+    const context = createContext(client, [fixture], seededRun('accounts', accounts));
+
+    const result = await new StorageFixtureSeeder(context).seedFixture(fixture);
+
+    expect(result).toMatchObject({ rows: 2, uploaded: 2, errors: [] });
+    expect(context.stats.imagesUploaded).toBe(2);
+    expect(uploads).toHaveLength(2);
+    uploads.forEach((upload, index) => {
+      expect(upload.bucket).toBe('account_image');
+      expect(upload.path).toMatch(new RegExp(`^acc-${index + 1}/[0-9a-f-]{36}\\.png$`));
+      expect(upload.contentType).toBe('image/png');
+      expect(upload.upsert).toBe(false);
+    });
+    expect(updates).toEqual(uploads.map((upload, index) => ({
+      table: 'accounts',
+      values: { picture_url: `http://127.0.0.1:54321/storage/v1/object/public/account_image/${upload.path}` },
+      keys: { id: `acc-${index + 1}` }
+    })));
+  });
+
+  test('resolves file patterns from the config file\'s directory', async () => {
+    const { client, uploads } = createMockClient({ accounts });
+    const fixture: StorageFixtureConfig = {
+      files: 'gear/*.jpg',
+      bucket: 'setup-images',
+      path: '{{id}}/{{file.name}}.{{file.ext}}',
+      table: 'accounts',
+      column: 'picture_url'
+    };
+    const context = createContext(client, [fixture], seededRun('accounts', accounts));
+
+    const result = await new StorageFixtureSeeder(context, dir).seedFixture(fixture);
+
+    expect(result).toMatchObject({ rows: 2, uploaded: 2, errors: [] });
+    expect(uploads.map(upload => upload.path)).toEqual(['acc-1/tent.jpg', 'acc-2/tent.jpg']);
+  });
+
+  test('picks the same files and paths for the same seed', async () => {
+    const fixture: StorageFixtureConfig = {
+      files: path.join(dir, 'avatars/**/*.png'),
+      bucket: 'account_image',
+      path: '{{id}}/{{file.name}}-{{uuid}}.png',
+      table: 'accounts',
+      column: 'picture_url',
+      value: 'path'
+    };
+
+    const run = async () => {
+      const { client, uploads, updates } = createMockClient({ accounts });
+      await new StorageFixtureSeeder(createContext(client, [fixture], seededRun('accounts', accounts))).seedFixture(fixture);
+      return { paths: uploads.map(upload => upload.path), values: updates.map(update => update.values.picture_url) };
+    };
+
+    const first = await run();
+    expect(await run()).toEqual(first);
+    expect(first.values).toEqual(first.paths);
+  });
+
+  test('inserts attachment rows for the rows this run seeded', async () => {
+    const setups = [{ id: 'setup-1', account_id: 'acc-1' }, { id: 'setup-2', account_id: 'acc-2' }, { id: 'old', account_id: 'acc-1' }];
+    const { client, uploads, inserts, updates } = createMockClient({ setups });
+    const manifest = seededRun('setups', setups.slice(0, 2));
+    const fixture: StorageFixtureConfig = {
+      files: path.join(dir, 'gear/*.jpg'),
+      bucket: 'setup-images',
+      path: '{{account_id}}/{{id}}/{{n}}.jpg',
+      table: 'setups',
+      attachments: {
+        table: 'media_attachments',
+        values: { setup_id: '{{id}}', storage_path: '{{file.path}}', file_size: '{{file.size}}', alt_text: 'Photo of {{file.name}}' }
+      }
+    };
+
+    const result = await new StorageFixtureSeeder(createContext(client, [fixture], manifest)).seedFixture(fixture);
+
+    expect(result.errors).toEqual([]);
+    expect(uploads.map(upload => upload.path)).toEqual(['acc-1/setup-1/1.jpg', 'acc-2/setup-2/2.jpg']);
+    expect(updates).toEqual([]);
+    expect(inserts).toEqual([{
+      table: 'media_attachments',
+      rows: [
+        { setup_id: 'setup-1', storage_path: 'acc-1/setup-1/1.jpg', file_size: 8, alt_text: 'Photo of tent' },
+        { setup_id: 'setup-2', storage_path: 'acc-2/setup-2/2.jpg', file_size: 8, alt_text: 'Photo of tent' }
+      ]
+    }]);
+  });
+
+  test('only touches rows of this run, by auth user for trigger-filled tables', async () => {
+    const fixture: StorageFixtureConfig = {
+      files: path.join(dir, 'avatars/**/*.png'),
+      bucket: 'account_image',
+      path: '{{id}}/avatar.png',
+      table: 'accounts',
+      column: 'picture_url'
+    };
+
+    const before = createMockClient({ accounts });
+    const untouched = await new StorageFixtureSeeder(createContext(before.client, [fixture])).seedFixture(fixture);
+    expect(untouched.errors).toEqual(['accounts: this run seeded no rows to attach files to']);
+    expect(before.uploads).toEqual([]);
+    expect(before.updates).toEqual([]);
+
+    const triggered = createMockClient({ accounts });
+    const manifest = new SeedRunRecorder({ supabaseUrl: 'http://127.0.0.1:54321', seed: 'storage-fixtures-test' });
+    manifest.recordAuthUser('acc-2');
+    const result = await new StorageFixtureSeeder(createContext(triggered.client, [fixture], manifest)).seedFixture(fixture);
+    expect(result).toMatchObject({ rows: 1, errors: [] });
+    expect(triggered.updates.map(update => update.keys)).toEqual([{ id: 'acc-2' }]);
+  });
+
+  test('reports configuration problems without uploading', async () => {
+    const { client, uploads } = createMockClient({ accounts });
+    const seeder = new StorageFixtureSeeder(createContext(client, [], seededRun('accounts', accounts)));
+    const base = { files: path.join(dir, 'avatars/**/*.png'), bucket: 'account_image', path: '{{id}}.png', table: 'accounts' };
+
+    expect((await seeder.seedFixture(base)).errors).toEqual([
+      'accounts: storage fixture needs a "column" or "attachments" to reference the files'
+    ]);
+    expect((await seeder.seedFixture({ ...base, column: 'picture_url', files: path.join(dir, 'missing/*.png') })).errors).toEqual([
+      `accounts: no files match ${path.join(dir, 'missing/*.png')}`
+    ]);
+    expect((await seeder.seedFixture({ ...base, column: 'picture_url', path: '{{account_id}}/{{uuid}}.png' })).errors).toEqual([
+      'accounts: path template "{{account_id}}/{{uuid}}.png" uses unknown field {{account_id}}'
+    ]);
+    expect(uploads).toEqual([]);
+  });
+
+  test('leaves rows whose upload failed untouched', async () => {
+    const rows = [{ id: 'acc-1', name: 'broken' }, { id: 'acc-2', name: 'fine' }];
+    const { client, updates } = createMockClient({ accounts: rows });
+    const fixture: StorageFixtureConfig = {
+      files: path.join(dir, 'avatars/**/*.png'),
+      bucket: 'account_image',
+      path: '{{name}}/avatar.png',
+      table: 'accounts',
+      column: 'picture_url'
+    };
+
+    const result = await new StorageFixtureSeeder(createContext(client, [fixture], seededRun('accounts', rows))).seedFixture(fixture);
+
+    expect(result.uploaded).toBe(1);
+    expect(result.rows).toBe(1);
+    expect(result.errors).toEqual(['accounts: Storage upload failed: bucket not found']);
+    expect(updates.map(update => update.keys)).toEqual([{ id: 'acc-2' }]);
+  });
+
+  test('reports paths that are already taken unless the fixture overwrites them', async () => {
+    const fixture: StorageFixtureConfig = {
+      files: path.join(dir, 'gear/*.jpg'),
+      bucket: 'account_image',
+      path: '{{id}}/avatar.jpg',
+      table: 'accounts',
+      column: 'picture_url'
+    };
+
+    const kept = createMockClient({ accounts }, ['acc-1/avatar.jpg']);
+    const result = await new StorageFixtureSeeder(createContext(kept.client, [fixture], seededRun('accounts', accounts))).seedFixture(fixture);
+    expect(result).toMatchObject({ rows: 1, uploaded: 1 });
+    expect(result.errors).toEqual([
+      'accounts: acc-1/avatar.jpg already exists in account_image; set "overwrite": true to replace it'
+    ]);
+    expect(kept.updates.map(update => update.keys)).toEqual([{ id: 'acc-2' }]);
+
+    const replaced = createMockClient({ accounts }, ['acc-1/avatar.jpg']);
+    const overwriting = { ...fixture, overwrite: true };
+    const overwritten = await new StorageFixtureSeeder(createContext(replaced.client, [overwriting], seededRun('accounts', accounts)))
+      .seedFixture(overwriting);
+    expect(overwritten).toMatchObject({ rows: 2, uploaded: 2, errors: [] });
+    expect(replaced.uploads.every(upload => upload.upsert)).toBe(true);
+  });
+
+  test('batchUpload keeps explicit paths and results in input order', async () => {
+    const { client, uploads, inserts } = createMockClient({});
+    const manager = new StorageIntegrationManager(client, { bucketName: 'docs', respectRLS: false });
+    const file = (name: string) => ({
+      filename: name,
+      blob: new Blob([name]),
+      type: 'application/pdf',
+      size: name.length,
+      dimensions: { width: 0, height: 0 },
+      description: name,
+      altText: name,
+      metadata: { source: 'fixture' as const, tags: [], colors: [], generatedAt: '2026-01-01T00:00:00.000Z', category: 'docs' }
+    });
+    const names = ['a.pdf', 'b.pdf', 'c.pdf', 'broken.pdf', 'e.pdf'];
+
+    const result = await manager.batchUpload(names.map(file), 'docs', undefined, undefined, {
+      paths: names.map(name => `contracts/${name}`),
+      recordAttachments: false
+    });
+
+    expect(uploads.map(upload => upload.path)).toEqual(names.map(name => `contracts/${name}`));
+    expect(result.uploads.map(upload => upload.success)).toEqual([true, true, true, false, true]);
+    expect(result.uploads[4].publicUrl).toBe('http://127.0.0.1:54321/storage/v1/object/public/docs/contracts/e.pdf');
+    expect(result.successfulUploads).toBe(4);
+    expect(result.mediaAttachments).toEqual([]);
+    expect(inserts).toEqual([]);
+  });
+});
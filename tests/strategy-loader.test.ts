@@ -0,0 +1,163 @@
+/**
+ * Test suite for pluggable strategies
+ * Verifies that strategies listed under the `strategies` config key are loaded
+ * from local files and npm packages, validated against the interface and the
+ * strategy API version, and registered next to the built-in ones
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadStrategies, validateStrategy } from '../src/features/integration/strategy-loader';
+import { StrategyRegistry } from '../src/features/integration/strategy-registry';
+import { FrameworkAdapter } from '../src/features/integration/framework-adapter';
+import { loadConfiguration } from '../src/config';
+import { GenericStrategy } from '../src/features/integration/strategies/generic-strategy';
+import { SqlCaptureClient } from '../src/features/output/sql-capture-client';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+// The MakerKit strategy imports webhook modules this tree does not ship; FrameworkAdapter only needs one named makerkit
+jest.mock('../src/features/integration/strategies/makerkit-strategy', () => {
+  const { GenericStrategy } = jest.requireActual('../src/features/integration/strategies/generic-strategy');
+  return { MakerKitStrategy: class extends GenericStrategy { name = 'makerkit'; } };
+});
+
+function strategySource(name: string, options: { confidence?: number; apiVersion?: string; omit?: string[] } = {}): string {
+  const methods: Record<string, string> = {
+    initialize: 'async initialize(client) { this.client = client; }',
+    detect: `async detect() { return { framework: '${name}', confidence: ${options.confidence ?? 0.9}, detectedFeatures: [], recommendations: [] }; }`,
+    createUser: 'async createUser(data) { return { id: "u1", email: data.email, name: data.name, created_at: "" }; }',
+    handleConstraints: 'async handleConstraints(table, data) { return { success: true, originalData: data, modifiedData: data, appliedFixes: [], warnings: [], errors: [], bypassRequired: false }; }',
+    getRecommendations: 'getRecommendations() { return []; }',
+    supportsFeature: 'supportsFeature() { return false; }',
+    getPriority: 'getPriority() { return 50; }'
+  };
+  const body = Object.entries(methods)
+    .filter(([method]) => !options.omit?.includes(method))
+    .map(([, source]) => `  ${source}`)
+    .join('\n');
+
+  return [
+    'class Strategy {',
+    `  constructor() { this.name = '${name}';${options.apiVersion ? ` this.apiVersion = '${options.apiVersion}';` : ''} }`,
+    body,
+    '}'
+  ].join('\n');
+}
+
+describe('loadStrategies', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'supa-seed-strategies-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should load a strategy class from a local file', () => {
+    writeFileSync(path.join(dir, 'acme.js'), `${strategySource('acme', { apiVersion: '^1.0.0' })}\nmodule.exports = Strategy;`);
+
+    const [loaded] = loadStrategies('./acme.js', dir);
+
+    expect(loaded.source).toBe('./acme.js');
+    expect(loaded.strategy.name).toBe('acme');
+    expect(loaded.strategy.getPriority()).toBe(50);
+  });
+
+  test('should load every factory an npm package exports under its module-level apiVersion', () => {
+    const packageDir = path.join(dir, 'node_modules', 'supa-seed-strategy-foo');
+    mkdirSync(packageDir, { recursive: true });
+    writeFileSync(path.join(packageDir, 'package.json'), JSON.stringify({ name: 'supa-seed-strategy-foo', main: 'index.js' }));
+    writeFileSync(path.join(packageDir, 'index.js'), [
+      strategySource('foo'),
+      'exports.apiVersion = "^1.0.0";',
+      'exports.strategies = [() => new Strategy(), () => Object.assign(new Strategy(), { name: "foo-lite" })];'
+    ].join('\n'));
+
+    const loaded = loadStrategies('supa-seed-strategy-foo', dir);
+
+    expect(loaded.map(({ strategy }) => [strategy.name, strategy.apiVersion])).toEqual([['foo', '^1.0.0'], ['foo-lite', '^1.0.0']]);
+  });
+
+  test('should report everything wrong with an invalid strategy', () => {
+    writeFileSync(path.join(dir, 'broken.js'), `${strategySource('broken', { apiVersion: '^2.0.0', omit: ['createUser'] })}\nmodule.exports = new Strategy();`);
+
+    expect(() => loadStrategies('./broken.js', dir)).toThrow(new RegExp([
+      "Invalid strategy from '\\./broken\\.js'",
+      'createUser\\(\\) is required',
+      "apiVersion '\\^2\\.0\\.0' does not support the strategy API 1\\.0\\.0"
+    ].join('[\\s\\S]*')));
+    expect(validateStrategy({ ...new GenericStrategy(), detect: 'yes' })).toEqual(expect.arrayContaining([
+      'detect() is required',
+      expect.stringMatching(/^apiVersion is required/)
+    ]));
+  });
+
+  test('should explain missing files and packages', () => {
+    expect(() => loadStrategies('./nowhere.js', dir)).toThrow(/Strategy file '\.\/nowhere\.js' not found/);
+    expect(() => loadStrategies('supa-seed-strategy-missing', dir)).toThrow(/npm install supa-seed-strategy-missing/);
+  });
+});
+
+describe('StrategyRegistry.registerAll', () => {
+  test('should register config entries next to built-in strategies', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'supa-seed-registry-'));
+    try {
+      writeFileSync(path.join(dir, 'acme.js'), `${strategySource('acme', { apiVersion: '^1.0.0' })}\nmodule.exports = { default: Strategy };`);
+      writeFileSync(path.join(dir, 'generic.js'), `${strategySource('generic', { apiVersion: '1.x', confidence: 0 })}\nmodule.exports = Strategy;`);
+
+      const registry = new StrategyRegistry(new SqlCaptureClient({ seed: 'registry' }) as any, { baseDir: dir });
+      await registry.registerAll([new GenericStrategy(), './acme.js']);
+
+      expect(registry.getStrategies().map(strategy => strategy.name)).toEqual(['generic', 'acme']);
+      expect(registry.getStrategySource('generic')).toBe('built-in');
+      expect(registry.getStrategySource('acme')).toBe('./acme.js');
+
+      const selection = await registry.selectStrategy({ tables: [], functions: [], triggers: [], constraints: [] });
+      expect(selection.strategy.name).toBe('acme');
+
+      // A loaded strategy with a built-in name takes its place
+      await registry.registerAll(['./generic.js']);
+      expect(registry.getStrategySource('generic')).toBe('./generic.js');
+      expect(registry.getStrategies()).toHaveLength(2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('FrameworkAdapter strategies', () => {
+  test('should resolve config strategies from the config file directory', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'supa-seed-config-'));
+    try {
+      writeFileSync(path.join(dir, 'acme.js'), `${strategySource('acme', { apiVersion: '^1.0.0' })}\nmodule.exports = Strategy;`);
+      writeFileSync(path.join(dir, 'supa-seed.config.json'), JSON.stringify({
+        supabaseUrl: 'http://127.0.0.1:54321',
+        supabaseServiceKey: 'key',
+        strategies: ['./acme.js']
+      }));
+
+      const { config, baseDir } = loadConfiguration(path.join(dir, 'supa-seed.config.json'));
+      expect(baseDir).toBe(dir);
+
+      const adapter = new FrameworkAdapter(new SqlCaptureClient({ seed: 'adapter' }) as any, config, { baseDir });
+      await (adapter as any).registerStrategies();
+      expect(adapter.getAvailableStrategies()).toContain('acme');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Test suite for the Table-Driven Seeding Pipeline
+ * Verifies phase ordering, foreign key resolution and per-table counts
+ */
+
+import { faker } from '@faker-js/faker';
+import { TableSeedingPipeline } from '../src/features/generation/table-seeding-pipeline';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveDomainPlugins } from '../src/features/generation/seeders/domain-plugins';
+import { ConfigManager } from '../src/core/config/config-manager';
+import { loadConfiguration } from '../src/config';
+import { SeedConfig, SeedContext } from '../src/core/types/types';
+import { DatabaseColumn, DatabaseTable, TablePattern } from '../src/schema/schema-introspector';
+import { ForeignKeyRelationship } from '../src/schema/dependency-graph';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+// ConfigManager only needs the adapter for detection, which the tests stub
+jest.mock('../src/features/integration/framework-adapter', () => ({ FrameworkAdapter: jest.fn() }));
+
+function column(name: string, type: string, overrides: Partial<DatabaseColumn> = {}): DatabaseColumn {
+  return {
+    name,
+    type,
+    isNullable: false,
+    defaultValue: null,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    ...overrides
+  };
+}
+
+function table(name: string, columns: DatabaseColumn[]): DatabaseTable {
+  return { name, schema: 'public', columns, constraints: [], indexes: [], triggers: [], rowCount: 0, hasData: false };
+}
+
+function foreignKey(fromTable: string, fromColumn: string, toTable: string, isNullable = false): ForeignKeyRelationship {
+  return {
+    constraintName: `${fromTable}_${fromColumn}_fkey`,
+    fromTable,
+    fromColumn,
+    toTable,
+    toColumn: 'id',
+    onDelete: 'NO ACTION',
+    onUpdate: 'NO ACTION',
+    isNullable,
+    isDeferrable: false,
+    schema: 'public'
+  };
+}
+
+function pattern(name: string, suggestedRole: TablePattern['suggestedRole']): TablePattern {
+  return { name, confidence: 0.5, evidence: [], suggestedRole, columnMappings: {} };
+}
+
+function createMockClient(existing: Record<string, Record<string, any>[]> = {}) {
+  const inserts: Array<{ table: string; rows: Record<string, any>[] }> = [];
+  let nextId = 1;
+
+  const client: any = {
+    from: jest.fn((tableName: string) => ({
+      insert: (values: Record<string, any> | Record<string, any>[]) => {
+        const rows = (Array.isArray(values) ? values : [values]).map(row => ({ id: `${tableName}-${nextId++}`, ...row }));
+        inserts.push({ table: tableName, rows });
+        return { select: async () => ({ data: rows, error: null }) };
+      },
+      select: () => ({
+        limit: async () => ({ data: existing[tableName] || [], error: null })
+      })
+    }))
+  };
+
+  return { client, inserts };
+}
+
+function createContext(client: any, overrides: Partial<SeedConfig> = {}): SeedContext {
+  return {
+    client,
+    config: {
+      supabaseUrl: 'http://127.0.0.1:54321',
+      supabaseServiceKey: 'key',
+      environment: 'local',
+      userCount: 1,
+      setupsPerUser: 1,
+      imagesPerSetup: 0,
+      enableRealImages: false,
+      seed: 'pipeline-test',
+      ...overrides
+    },
+    faker,
+    cache: new Map(),
+    stats: { usersCreated: 0, setupsCreated: 0, imagesUploaded: 0, startTime: new Date() }
+  };
+}
+
+const schema = {
+  tables: [
+    table('comments', [
+      column('id', 'uuid', { isPrimaryKey: true, defaultValue: 'gen_random_uuid()' }),
+      column('post_id', 'uuid', { isForeignKey: true }),
+      column('body', 'text')
+    ]),
+    table('posts', [
+      column('id', 'uuid', { isPrimaryKey: true, defaultValue: 'gen_random_uuid()' }),
+      column('account_id', 'uuid', { isForeignKey: true }),
+      column('status', 'USER-DEFINED', { enumValues: ['draft', 'live'] }),
+      column('created_at', 'timestamp with time zone', { defaultValue: 'now()' })
+    ]),
+    table('accounts', [
+      column('id', 'uuid', { isPrimaryKey: true }),
+      column('email', 'text')
+    ])
+  ],
+  patterns: [pattern('accounts', 'user'), pattern('posts', 'content')]
+};
+
+const foreignKeys = [
+  foreignKey('comments', 'post_id', 'posts'),
+  foreignKey('posts', 'account_id', 'accounts')
+];
+
+describe('TableSeedingPipeline', () => {
+  test('should order phases so parents are seeded before children', () => {
+    const plan = TableSeedingPipeline.createPlan(schema, foreignKeys);
+    const order = plan.phases.flatMap(phase => phase.tables);
+
+    expect(order.indexOf('accounts')).toBeLessThan(order.indexOf('posts'));
+    expect(order.indexOf('posts')).toBeLessThan(order.indexOf('comments'));
+  });
+
+  test('should point foreign keys at existing and freshly inserted parent rows', async () => {
+    const { client, inserts } = createMockClient({ accounts: [{ id: 'acc-1' }, { id: 'acc-2' }] });
+    const pipeline = new TableSeedingPipeline(createContext(client, {
+      tables: { posts: { count: 4 }, comments: { count: 6 } }
+    }));
+
+    const result = await pipeline.run(TableSeedingPipeline.createPlan(schema, foreignKeys));
+
+    expect(result.rowsCreated).toEqual({ posts: 4, comments: 6 });
+    expect(inserts.map(insert => insert.table)).toEqual(['posts', 'comments']);
+
+    const posts = inserts[0].rows;
+    posts.forEach(post => {
+      expect(['acc-1', 'acc-2']).toContain(post.account_id);
+      expect(['draft', 'live']).toContain(post.status);
+      expect(post).not.toHaveProperty('created_at');
+    });
+
+    const postIds = posts.map(post => post.id);
+    inserts[1].rows.forEach(comment => expect(postIds).toContain(comment.post_id));
+  });
+
+  test('should leave user tables to plugins and honour default counts and exclusions', () => {
+    const { client } = createMockClient();
+    const pipeline = new TableSeedingPipeline(createContext(client, {
+      seeding: { mode: 'tables', defaultCount: 3, excludeTables: ['comments'] }
+    }));
+
+    expect(pipeline.resolveCount('accounts', 'user')).toBe(0);
+    expect(pipeline.resolveCount('posts', 'content')).toBe(3);
+    expect(pipeline.resolveCount('comments')).toBe(0);
+  });
+
+  test('should skip a table whose required parent has no rows', async () => {
+    const { client, inserts } = createMockClient();
+    const pipeline = new TableSeedingPipeline(createContext(client, { tables: { posts: { count: 2 } } }));
+
+    const result = await pipeline.run(TableSeedingPipeline.createPlan(schema, foreignKeys));
+
+    expect(inserts).toHaveLength(0);
+    expect(result.skippedTables).toContainEqual(
+      { table: 'posts', reason: 'no rows in accounts for required account_id' }
+    );
+  });
+
+  test('should seed a required reference to the same table from a root row that points at itself', async () => {
+    const { client, inserts } = createMockClient();
+    const categories = table('categories', [
+      column('id', 'uuid', { isPrimaryKey: true, defaultValue: 'gen_random_uuid()' }),
+      column('parent_id', 'uuid', { isForeignKey: true }),
+      column('name', 'text')
+    ]);
+    const pipeline = new TableSeedingPipeline(createContext(client, { tables: { categories: { count: 3 } } }));
+
+    const result = await pipeline.run(TableSeedingPipeline.createPlan(
+      { tables: [categories], patterns: [] },
+      [foreignKey('categories', 'parent_id', 'categories')]
+    ));
+
+    expect(result.rowsCreated).toEqual({ categories: 3 });
+    const [[root], rest] = inserts.map(insert => insert.rows);
+    expect(root.parent_id).toBe(root.id);
+    expect(root.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(rest).toHaveLength(2);
+    rest.forEach(row => expect(row.parent_id).toBe(root.id));
+  });
+
+  test('should not repeat composite primary keys in junction tables', () => {
+    const { client } = createMockClient();
+    const pipeline = new TableSeedingPipeline(createContext(client));
+    const junction = table('post_tags', [
+      column('post_id', 'uuid', { isPrimaryKey: true, isForeignKey: true }),
+      column('tag_id', 'uuid', { isPrimaryKey: true, isForeignKey: true })
+    ]);
+    const plan = TableSeedingPipeline.createPlan({ tables: [junction], patterns: [] }, []);
+
+    const rows = pipeline.generateRows(junction, 10, plan, new Map([
+      ['post_id', ['p1', 'p2']],
+      ['tag_id', ['t1', 't2']]
+    ]));
+
+    const keys = rows.map(row => `${row.post_id}:${row.tag_id}`);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(keys.length).toBeLessThanOrEqual(4);
+  });
+});
+
+describe('resolveDomainPlugins', () => {
+  const base = createContext(null).config;
+
+  test('should run every domain seeder by default', () => {
+    expect(resolveDomainPlugins(base)).toEqual(['auth', 'users', 'base-data', 'setups', 'gear', 'media']);
+  });
+
+  test('should keep only auth and users in table mode unless configured', () => {
+    expect(resolveDomainPlugins({ ...base, seeding: { mode: 'tables' } })).toEqual(['auth', 'users']);
+    expect(resolveDomainPlugins({
+      ...base,
+      seeding: { mode: 'tables' },
+      seeders: { enabled: ['users', 'media', 'unknown'], skip: ['media'] }
+    })).toEqual(['users']);
+  });
+
+  test('should run the seeders of an init-generated config after the ones they depend on', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'supa-seed-init-'));
+    try {
+      const configPath = join(dir, 'supa-seed.config.json');
+      const manager = new ConfigManager(configPath);
+      jest.spyOn(manager, 'detectAndSuggestConfig').mockResolvedValue({ suggestedConfig: {} } as any);
+      await manager.createConfig({} as any);
+
+      const { config } = loadConfiguration(configPath);
+
+      // init lists 'baseData' and puts gear before setups
+      expect(config.seeders?.enabled).toEqual(['auth', 'baseData', 'users', 'gear', 'setups', 'media']);
+      expect(resolveDomainPlugins(config)).toEqual(['auth', 'users', 'base-data', 'setups', 'gear', 'media']);
+      expect(resolveDomainPlugins({ ...config, seeders: { enabled: config.seeders!.enabled, skip: ['baseData'] } }))
+        .toEqual(['auth', 'users', 'setups', 'gear', 'media']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
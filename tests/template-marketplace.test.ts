@@ -0,0 +1,216 @@
+/**
+ * Test suite for the template marketplace
+ * Verifies that template packages are found in local, git and npm tarball
+ * repositories, validated before install, and pinned in the templates lockfile
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import * as tar from 'tar';
+import { TemplateMarketplace, parsePackageSpec, parseRepository, TEMPLATE_MANIFEST } from '../src/features/generation/template-marketplace';
+import { TemplateValidator } from '../src/features/generation/template-validator';
+import { Logger } from '../src/core/utils/logger';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+function writePackage(directory: string, manifest: Record<string, any>, files: Record<string, string> = {}): void {
+  mkdirSync(directory, { recursive: true });
+  writeFileSync(path.join(directory, TEMPLATE_MANIFEST), JSON.stringify({
+    name: 'Blog seeders',
+    description: 'Seeders for posts and comments',
+    author: 'Acme',
+    templates: [{ id: 'posts', name: 'Posts', description: 'Post seeder', file: 'posts.hbs' }],
+    ...manifest
+  }));
+  Object.entries({ 'posts.hbs': 'INSERT INTO {{table}} VALUES (1);', ...files })
+    .forEach(([file, content]) => writeFileSync(path.join(directory, file), content));
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@acme.test', ...args], { cwd, encoding: 'utf8', stdio: 'pipe' }).trim();
+}
+
+describe('TemplateMarketplace', () => {
+  let dir: string;
+  let installDirectory: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'supa-seed-marketplace-'));
+    installDirectory = path.join(dir, 'project', '.supa-seed', 'templates');
+
+    const registry = path.join(dir, 'registry');
+    writePackage(path.join(registry, 'blog-1.0.0'), { id: 'blog', version: '1.0.0', category: 'content', tags: ['blog'] });
+    writePackage(path.join(registry, 'blog-1.2.0'), { id: 'blog', version: '1.2.0', category: 'content', tags: ['blog'] });
+    writePackage(path.join(registry, 'shop'), {
+      id: 'shop',
+      version: '0.1.0',
+      name: 'Shop',
+      description: 'Products and orders',
+      author: 'Globex',
+      templates: [{ id: 'orders', name: 'Orders', category: 'commerce', content: '{{#each orders}}{{id}}{{/each}}' }]
+    });
+    writePackage(path.join(registry, 'broken'), {
+      id: 'broken',
+      version: 'latest',
+      templates: [{ id: 'posts', name: 'Posts', content: '{{#if draft}}unclosed' }]
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function marketplace(...urls: string[]): TemplateMarketplace {
+    return new TemplateMarketplace({
+      repositories: urls.length > 0 ? urls.map(url => parseRepository(url, path.basename(url))) : [{ name: 'registry', type: 'local', url: path.join(dir, 'registry') }],
+      directory: installDirectory
+    });
+  }
+
+  test('should search local repositories and skip invalid packages', async () => {
+    const all = await marketplace().search();
+    expect(all.map(pkg => `${pkg.id}@${pkg.version}`)).toEqual(['blog@1.2.0', 'blog@1.0.0', 'shop@0.1.0']);
+    expect(all[0].templates[0].content).toBe('INSERT INTO {{table}} VALUES (1);');
+
+    expect((await marketplace().search({ terms: 'ORDERS' })).map(pkg => pkg.id)).toEqual(['shop']);
+    expect((await marketplace().search({ category: 'commerce' })).map(pkg => pkg.id)).toEqual(['shop']);
+    expect((await marketplace().search({ author: 'acme', tags: ['blog'] })).map(pkg => pkg.version)).toEqual(['1.2.0', '1.0.0']);
+  });
+
+  test('should install the newest matching version, lock it and uninstall it', async () => {
+    const templates = marketplace();
+
+    const installed = await templates.install('blog@^1.0.0');
+    expect(installed).toEqual(expect.objectContaining({
+      id: 'blog',
+      version: '1.2.0',
+      repository: { name: 'registry', type: 'local', url: path.join(dir, 'registry') },
+      integrity: expect.stringMatching(/^sha256-/)
+    }));
+    expect(existsSync(path.join(installDirectory, 'blog', 'posts.hbs'))).toBe(true);
+    expect(JSON.parse(readFileSync(path.join(installDirectory, 'templates-lock.json'), 'utf8')).packages.blog.version).toBe('1.2.0');
+    expect(templates.getInstalled('blog')?.templates[0].content).toBe('INSERT INTO {{table}} VALUES (1);');
+
+    // A pinned range replaces the locked version, an unpinned one keeps it
+    expect((await templates.install('blog@1.0.0')).version).toBe('1.0.0');
+    expect((await templates.install('blog')).version).toBe('1.0.0');
+    expect(templates.list().map(entry => entry.id)).toEqual(['blog']);
+
+    expect(await templates.uninstall('blog')).toBe(true);
+    expect(await templates.uninstall('blog')).toBe(false);
+    expect(existsSync(path.join(installDirectory, 'blog'))).toBe(false);
+    expect(templates.list()).toEqual([]);
+  });
+
+  test('should explain why a package cannot be installed', async () => {
+    await expect(marketplace().install('broken')).rejects.toThrow(new RegExp([
+      "Invalid template package 'broken' in registry",
+      "version must be a semver version, got 'latest'",
+      "template 'posts': Parse error"
+    ].join('[\\s\\S]*')));
+    await expect(marketplace().install('blog@^2.0.0')).rejects.toThrow("Template package 'blog@^2.0.0' not found in registry");
+    await expect(marketplace().install('blog', { repository: 'elsewhere' })).rejects.toThrow("Unknown template repository 'elsewhere'");
+    expect(() => parsePackageSpec('../blog')).toThrow("Invalid template package id: '../blog'");
+  });
+
+  test('should verify installed and reinstalled packages against the lockfile integrity', async () => {
+    const templates = marketplace();
+    await templates.install('shop');
+
+    writeFileSync(path.join(installDirectory, 'shop', 'extra.hbs'), 'edited');
+    await expect(templates.install('shop')).rejects.toThrow('shop@0.1.0 has been modified since it was installed');
+    expect((await templates.install('shop', { force: true })).version).toBe('0.1.0');
+    expect(existsSync(path.join(installDirectory, 'shop', 'extra.hbs'))).toBe(false);
+
+    // The same version with different files in the repository
+    writeFileSync(path.join(dir, 'registry', 'shop', 'extra.hbs'), 'republished');
+    await expect(templates.install('shop', { force: true })).rejects.toThrow('shop@0.1.0 in registry does not match templates-lock.json');
+    expect(existsSync(path.join(installDirectory, 'shop', 'extra.hbs'))).toBe(false);
+
+    // Updating to another version takes its files as they are
+    writeFileSync(path.join(dir, 'registry', 'blog-1.2.0', 'extra.hbs'), 'new');
+    await templates.install('blog@1.0.0');
+    expect((await templates.install('blog@1.2.0')).version).toBe('1.2.0');
+  });
+
+  test('should reject package ids that collide with the lockfile', async () => {
+    writePackage(path.join(dir, 'registry', 'lock'), { id: 'templates-lock.json', version: '1.0.0' });
+
+    expect(() => parsePackageSpec('templates-lock.json')).toThrow("Reserved template package id: 'templates-lock.json'");
+    await expect(marketplace().uninstall('templates-lock.json')).rejects.toThrow('Reserved template package id');
+    expect((await marketplace().search()).map(pkg => pkg.id)).not.toContain('templates-lock.json');
+  });
+
+  test('should install from a bare git repository and record the commit', async () => {
+    const source = path.join(dir, 'shop-source');
+    writePackage(source, { id: 'shop', version: '2.0.0' });
+    git(source, 'init', '--quiet');
+    git(source, 'add', '.');
+    git(source, 'commit', '--quiet', '-m', 'Shop templates');
+    const commit = git(source, 'rev-parse', 'HEAD');
+    git(dir, 'clone', '--quiet', '--bare', source, 'shop.git');
+
+    const bare = path.join(dir, 'shop.git');
+    expect(parseRepository(bare).type).toBe('git');
+
+    const installed = await marketplace(`file://${bare}`).install('shop');
+    expect(installed.version).toBe('2.0.0');
+    expect(installed.resolved).toBe(`file://${bare}#${commit}`);
+    expect(existsSync(path.join(installDirectory, 'shop', '.git'))).toBe(false);
+  });
+
+  test('should never pass a repository URL to git as an option', async () => {
+    const marker = path.join(dir, 'pwned');
+    const templates = new TemplateMarketplace({
+      repositories: [{ name: 'evil', type: 'git', url: `--upload-pack=touch ${marker}` }],
+      directory: installDirectory
+    });
+
+    expect(await templates.search()).toEqual([]);
+    expect(Logger.warn).toHaveBeenCalledWith(
+      `Skipping template repository 'evil': Invalid URL for template repository 'evil': --upload-pack=touch ${marker}`
+    );
+    expect(existsSync(marker)).toBe(false);
+  });
+
+  test('should install from an npm tarball', async () => {
+    const source = path.join(dir, 'pack');
+    writePackage(path.join(source, 'package'), { id: 'blog', version: '3.0.0' });
+    const tarball = path.join(dir, 'supa-seed-templates-blog-3.0.0.tgz');
+    await tar.c({ gzip: true, file: tarball, cwd: source }, ['package']);
+
+    const templates = marketplace(tarball);
+    expect((await templates.search()).map(pkg => pkg.version)).toEqual(['3.0.0']);
+
+    const installed = await templates.install('blog');
+    expect(installed.repository.type).toBe('npm');
+    expect(installed.resolved).toMatch(/\.tgz#sha512-/);
+    expect(readFileSync(path.join(installDirectory, 'blog', 'posts.hbs'), 'utf8')).toBe('INSERT INTO {{table}} VALUES (1);');
+  });
+});
+
+describe('TemplateValidator', () => {
+  test('should run template test suites', () => {
+    const validator = new TemplateValidator();
+
+    expect(validator.runTests({
+      name: 'greetings',
+      tests: [
+        { name: 'renders', template: 'Hi {{name}}', context: { name: 'Ada' }, expected: 'Hi Ada' },
+        { name: 'mismatch', template: 'Hi {{name}}', context: { name: 'Al' }, expected: 'Hi Ada' }
+      ]
+    })).toEqual({ valid: false, errors: ['greetings › mismatch: expected "Hi Ada", got "Hi Al"'] });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Test suite for top-up seeding
+ * Verifies that earlier runs are counted from their manifests and that a
+ * top-up run only creates what is missing to reach the configured counts
+ */
+
+import { faker } from '@faker-js/faker';
+import { SeededInventory } from '../src/features/manifest/seeded-inventory';
+import { SeedRunRecorder } from '../src/features/manifest/run-manifest';
+import { createRecordingClient } from '../src/features/manifest/recording-client';
+import { SeedRunManifest } from '../src/features/manifest/manifest-types';
+import { SqlCaptureClient } from '../src/features/output/sql-capture-client';
+import { TableSeedingPipeline } from '../src/features/generation/table-seeding-pipeline';
+import { DOMAIN_PLUGINS, resolveDomainPlugins } from '../src/features/generation/seeders/domain-plugins';
+import { SeedConfig, SeedContext } from '../src/core/types/types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn(),
+    step: jest.fn()
+  }
+}));
+
+const baseConfig: SeedConfig = {
+  supabaseUrl: 'http://127.0.0.1:54321',
+  supabaseServiceKey: 'key',
+  environment: 'local',
+  userCount: 2,
+  setupsPerUser: 2,
+  imagesPerSetup: 0,
+  enableRealImages: false,
+  seed: 'top-up-test',
+  emailDomain: 'supaseed.test'
+};
+
+function manifest(runId: string, overrides: Partial<SeedRunManifest> = {}): SeedRunManifest {
+  return {
+    version: 1,
+    runId,
+    status: 'completed',
+    startedAt: '2025-01-01T00:00:00.000Z',
+    supabaseUrl: baseConfig.supabaseUrl,
+    seed: baseConfig.seed,
+    tables: [],
+    storageObjects: [],
+    authUserIds: [],
+    ...overrides
+  };
+}
+
+function createContext(client: any, config: SeedConfig, seeded?: SeededInventory): SeedContext {
+  return {
+    client,
+    config,
+    faker,
+    cache: new Map(),
+    stats: { usersCreated: 0, setupsCreated: 0, imagesUploaded: 0, startTime: new Date() },
+    seeded
+  };
+}
+
+/**
+ * Run the domain seeders against the capture client as if it were the
+ * database, recording what they insert like a real seed run does
+ */
+async function seedRun(database: SqlCaptureClient, config: SeedConfig, seeded?: SeededInventory): Promise<SeedRunManifest> {
+  const recorder = new SeedRunRecorder({ supabaseUrl: config.supabaseUrl, seed: config.seed });
+  const context = createContext(createRecordingClient(database, recorder), config, seeded);
+  for (const name of resolveDomainPlugins(config)) {
+    await new DOMAIN_PLUGINS[name](context).seed();
+  }
+  return recorder.finish('completed');
+}
+
+function setupsPerAccount(database: SqlCaptureClient): number[] {
+  const accountIds = database.getRows('auth.users').map(user => user.id);
+  const setups = database.getRows('setups');
+  return accountIds.map(id => setups.filter(setup => setup.account_id === id || setup.user_id === id).length);
+}
+
+describe('SeededInventory', () => {
+  test('should count rows and users of runs that were not rolled back and still exist', async () => {
+    const database = new SqlCaptureClient({ seed: 'inventory' });
+    const { data } = await database.auth.admin.createUser({ email: 'kept@supaseed.test' });
+    database.addRows('setups', [{ id: 's1', account_id: data.user!.id }]);
+
+    const seeded = await SeededInventory.load(database, [
+      manifest('run_a', {
+        tables: [{ table: 'setups', primaryKey: ['id'], rows: [{ id: 's1' }, { id: 's2' }] }],
+        authUserIds: [data.user!.id, 'deleted-user']
+      }),
+      manifest('run_b', {
+        status: 'rolled_back',
+        tables: [{ table: 'setups', primaryKey: ['id'], rows: [{ id: 's3' }] }]
+      })
+    ]);
+
+    expect(seeded.runIds).toEqual(['run_a']);
+    expect(seeded.authUserIds).toEqual([data.user!.id]);
+    expect(seeded.getRows('setups')).toEqual([{ id: 's1', account_id: data.user!.id }]);
+    expect(seeded.count('gear')).toBe(0);
+  });
+});
+
+describe('top-up seeding', () => {
+  test('should create only the missing users and setups', async () => {
+    const database = new SqlCaptureClient({ seed: 'top-up-database' });
+    const first = await seedRun(database, baseConfig);
+
+    expect(database.getRows('auth.users')).toHaveLength(2);
+
+    const config = { ...baseConfig, userCount: 3, topUp: true };
+    const seeded = await SeededInventory.load(database, [first]);
+    const second = await seedRun(database, config, seeded);
+
+    expect(second.authUserIds).toHaveLength(1);
+    expect(database.getRows('auth.users')).toHaveLength(3);
+    expect(setupsPerAccount(database)).toEqual([2, 2, 2]);
+
+    // Counts already reached: nothing more to create
+    const third = await seedRun(database, config, await SeededInventory.load(database, [first, second]));
+    expect(third.authUserIds).toEqual([]);
+    expect(database.getRows('auth.users')).toHaveLength(3);
+    expect(setupsPerAccount(database)).toEqual([2, 2, 2]);
+  });
+
+  test('should continue table pipeline rows from the seeded count', async () => {
+    const database = new SqlCaptureClient({ seed: 'pipeline' });
+    database.addRows('tags', [{ id: 't1', name: 'tag-1' }, { id: 't2', name: 'tag-2' }]);
+    const seeded = await SeededInventory.load(database, [
+      manifest('run_a', { tables: [{ table: 'tags', primaryKey: ['id'], rows: [{ id: 't1' }, { id: 't2' }] }] })
+    ]);
+
+    const config = { ...baseConfig, topUp: true, tables: { tags: { count: 5, columns: { name: 'template:"tag-{{n}}"' } } } };
+    const pipeline = new TableSeedingPipeline(createContext(database, config, seeded));
+    const plan = TableSeedingPipeline.createPlan({
+      tables: [{
+        name: 'tags',
+        schema: 'public',
+        columns: [
+          { name: 'id', type: 'uuid', isNullable: false, defaultValue: 'gen_random_uuid()', isPrimaryKey: true, isForeignKey: false },
+          { name: 'name', type: 'text', isNullable: false, defaultValue: null, isPrimaryKey: false, isForeignKey: false }
+        ],
+        constraints: [],
+        indexes: [],
+        triggers: [],
+        rowCount: 2,
+        hasData: true
+      }],
+      patterns: []
+    }, []);
+
+    const result = await pipeline.run(plan);
+
+    expect(result.rowsCreated).toEqual({ tags: 3 });
+    expect(database.getRows('tags').map(row => row.name)).toEqual(['tag-1', 'tag-2', 'tag-3', 'tag-4', 'tag-5']);
+  });
+});
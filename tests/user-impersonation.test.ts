@@ -0,0 +1,250 @@
+/**
+ * Test suite for impersonated writes
+ * Verifies rows a seeded user owns are inserted with a client acting as that
+ * user (minted JWT or password sign-in), that rows RLS refuses are recorded as
+ * violations with the table's policies, and that other rows keep using the
+ * service role
+ */
+
+import { createHmac } from 'crypto';
+import { faker } from '@faker-js/faker';
+import { UserImpersonator, isPolicyViolation } from '../src/features/rls/user-impersonator';
+import { TableSeedingPipeline } from '../src/features/generation/table-seeding-pipeline';
+import { DATABASE_BACKEND } from '../src/core/database/database-backend';
+import { LOCAL_JWT_SECRET, signJWT } from '../src/core/utils/crypto-utils';
+import { ImpersonationConfig, SeedContext } from '../src/core/types/types';
+import { DatabaseColumn, DatabaseTable } from '../src/schema/schema-introspector';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+const OWNER = '11111111-1111-4111-8111-111111111111';
+const OUTSIDER = '22222222-2222-4222-8222-222222222222';
+
+function column(name: string, type: string, overrides: Partial<DatabaseColumn> = {}): DatabaseColumn {
+  return { name, type, isNullable: false, defaultValue: null, isPrimaryKey: false, isForeignKey: false, ...overrides };
+}
+
+function decode(token: string): { header: any; payload: any; signature: string } {
+  const [header, payload, signature] = token.split('.');
+  return {
+    header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+    payload: JSON.parse(Buffer.from(payload, 'base64url').toString()),
+    signature
+  };
+}
+
+const RLS_ERROR = { code: '42501', message: 'new row violates row-level security policy' };
+
+/**
+ * Per-user clients whose inserts succeed for the owner and fail with
+ * `outsiderError` (an RLS refusal by default) for everyone else; the service
+ * role backend takes unowned rows
+ */
+function createHarness(impersonation: ImpersonationConfig, outsiderError: { code: string; message: string } = RLS_ERROR) {
+  const created: Array<{ key: string; token: string }> = [];
+  const userInserts: Array<{ token: string; table: string; rows: any[] }> = [];
+  const serviceInserts: Array<{ table: string; rows: any[] }> = [];
+  const signIns: any[] = [];
+
+  const factory = (_url: string, key: string, options: any) => {
+    const token = options.global?.headers?.Authorization?.replace('Bearer ', '');
+    if (token) created.push({ key, token });
+
+    return {
+      auth: {
+        signInWithPassword: async (credentials: any) => {
+          signIns.push(credentials);
+          return { data: { session: { access_token: `session-for-${credentials.email}` } }, error: null };
+        }
+      },
+      from: (table: string) => ({
+        insert: (rows: any[]) => ({
+          select: async () => {
+            userInserts.push({ token, table, rows });
+            const sub = token.startsWith('session-for-') ? null : decode(token).payload.sub;
+            if (sub === OUTSIDER || token === 'session-for-outsider@supaseed.test') {
+              return { data: null, error: { ...outsiderError, message: `${outsiderError.message} for table "${table}"` } };
+            }
+            return { data: rows.map((row, index) => ({ id: `${table}-${index}`, ...row })), error: null };
+          }
+        })
+      })
+    };
+  };
+
+  const backend = {
+    kind: 'postgres',
+    query: async (sql: string, params: any[]) =>
+      sql.includes('pg_policies') ? [{ policyname: `${params[0]}_insert_own` }] : [],
+    bulkInsert: async (table: string, rows: Record<string, any>[]) => {
+      serviceInserts.push({ table, rows });
+      return rows;
+    },
+    close: async () => undefined
+  };
+
+  const context: SeedContext = {
+    client: { [DATABASE_BACKEND]: backend } as any,
+    config: {
+      supabaseUrl: 'http://127.0.0.1:54321',
+      supabaseServiceKey: 'service-key',
+      environment: 'local',
+      userCount: 2,
+      setupsPerUser: 1,
+      imagesPerSetup: 0,
+      enableRealImages: false,
+      seed: 'impersonation-test',
+      testUserPassword: 'Seeded-Pass-1',
+      impersonation
+    },
+    faker,
+    cache: new Map<string, any>([['users', [
+      { id: OWNER, email: 'owner@supaseed.test', username: 'owner', name: 'Owner' },
+      { id: OUTSIDER, email: 'outsider@supaseed.test', username: 'outsider', name: 'Outsider' }
+    ]]]),
+    stats: { usersCreated: 0, setupsCreated: 0, imagesUploaded: 0, startTime: new Date() }
+  };
+  const impersonator = new UserImpersonator(context, { createClient: factory });
+  context.impersonation = impersonator;
+
+  return { context, impersonator, created, userInserts, serviceInserts, signIns };
+}
+
+describe('Impersonated writes', () => {
+  const originalEnv = { anon: process.env.SUPABASE_ANON_KEY, secret: process.env.SUPABASE_JWT_SECRET };
+
+  beforeEach(() => {
+    delete process.env.SUPABASE_ANON_KEY;
+    delete process.env.SUPABASE_JWT_SECRET;
+  });
+
+  afterAll(() => {
+    if (originalEnv.anon !== undefined) process.env.SUPABASE_ANON_KEY = originalEnv.anon;
+    if (originalEnv.secret !== undefined) process.env.SUPABASE_JWT_SECRET = originalEnv.secret;
+  });
+
+  test('signJWT produces HS256 tokens verifiable with the secret', () => {
+    const token = signJWT({ sub: OWNER, role: 'authenticated' }, 'secret-value');
+    const [header, payload, signature] = token.split('.');
+
+    expect(decode(token).header).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(signature).toBe(createHmac('sha256', 'secret-value').update(`${header}.${payload}`).digest('base64url'));
+  });
+
+  test('table pipeline inserts owned rows as their user and records RLS refusals', async () => {
+    const { context, impersonator, created, userInserts, serviceInserts } = createHarness({});
+    const table: DatabaseTable = {
+      name: 'notes',
+      schema: 'public',
+      columns: [column('id', 'uuid', { isPrimaryKey: true, defaultValue: 'gen_random_uuid()' }), column('user_id', 'uuid'), column('body', 'text')],
+      constraints: [],
+      indexes: [],
+      triggers: [],
+      rowCount: 0,
+      hasData: false
+    };
+    context.config.tables = { notes: { count: 6, columns: { user_id: { choices: { [OWNER]: 1, [OUTSIDER]: 1, unknown: 1 } } } } };
+
+    const result = await new TableSeedingPipeline(context).run(TableSeedingPipeline.createPlan({ tables: [table], patterns: [] }, []));
+
+    const owned = userInserts.filter(insert => decode(insert.token).payload.sub === OWNER).flatMap(insert => insert.rows);
+    const refused = userInserts.filter(insert => decode(insert.token).payload.sub === OUTSIDER).flatMap(insert => insert.rows);
+    const unowned = serviceInserts.flatMap(insert => insert.rows);
+
+    expect(owned.every(row => row.user_id === OWNER)).toBe(true);
+    expect(unowned.every(row => row.user_id === 'unknown')).toBe(true);
+    expect(owned.length + refused.length + unowned.length).toBe(6);
+    expect(result.rowsCreated.notes).toBe(owned.length + unowned.length);
+
+    expect(impersonator.violations).toEqual([expect.objectContaining({
+      table: 'notes',
+      userId: OUTSIDER,
+      email: 'outsider@supaseed.test',
+      policies: ['notes_insert_own'],
+      rows: refused.length
+    })]);
+    expect(impersonator.summarize()).toEqual([
+      `notes as outsider@supaseed.test: ${refused.length} row(s) refused (policies: notes_insert_own)`
+    ]);
+
+    // One client per user, with a token signed by the local stack's secret and a minted anon apikey
+    expect(created).toHaveLength(2);
+    const token = decode(created[0].token);
+    expect(token.payload).toMatchObject({ sub: OWNER, role: 'authenticated', aud: 'authenticated', email: 'owner@supaseed.test', aal: 'aal1' });
+    expect(created[0].token).toBe(signJWT(token.payload, LOCAL_JWT_SECRET));
+    expect(decode(created[0].key).payload).toMatchObject({ role: 'anon' });
+  });
+
+  test('table pipeline retries only the owner group that failed, not groups already stored', async () => {
+    const { context, impersonator, userInserts, serviceInserts } = createHarness({}, { code: '23505', message: 'duplicate key value violates unique constraint' });
+    const table: DatabaseTable = {
+      name: 'notes',
+      schema: 'public',
+      columns: [column('id', 'uuid', { isPrimaryKey: true, defaultValue: 'gen_random_uuid()' }), column('user_id', 'uuid'), column('body', 'text')],
+      constraints: [],
+      indexes: [],
+      triggers: [],
+      rowCount: 0,
+      hasData: false
+    };
+    context.config.tables = { notes: { count: 6, columns: { user_id: { choices: { [OWNER]: 1, [OUTSIDER]: 1 } } } } };
+
+    const result = await new TableSeedingPipeline(context).run(TableSeedingPipeline.createPlan({ tables: [table], patterns: [] }, []));
+
+    const ownerInserts = userInserts.filter(insert => decode(insert.token).payload.sub === OWNER);
+    const outsiderInserts = userInserts.filter(insert => decode(insert.token).payload.sub === OUTSIDER);
+    const outsiderRows = outsiderInserts[0].rows.length;
+
+    // The owner's group went in once; only the outsider's rows were retried, one at a time
+    expect(ownerInserts).toHaveLength(1);
+    expect(ownerInserts[0].rows.length + outsiderRows).toBe(6);
+    expect(outsiderInserts.slice(1).map(insert => insert.rows.length)).toEqual(Array(outsiderRows).fill(1));
+    expect(serviceInserts).toEqual([]);
+
+    expect(result.rowsCreated.notes).toBe(6 - outsiderRows);
+    expect(result.errors).toEqual([expect.stringContaining('notes: duplicate key value')]);
+    expect(impersonator.violations).toEqual([]);
+  });
+
+  test('sign-in mode uses the seeded password and needs an anon key', async () => {
+    const { impersonator, created, signIns } = createHarness({ auth: 'sign-in', anonKey: 'anon-key' });
+
+    await impersonator.clientFor('notes', OWNER);
+    await impersonator.clientFor('notes', OWNER);
+
+    expect(signIns).toEqual([{ email: 'owner@supaseed.test', password: 'Seeded-Pass-1' }]);
+    expect(created).toEqual([{ key: 'anon-key', token: 'session-for-owner@supaseed.test' }]);
+
+    const withoutKey = createHarness({ auth: 'sign-in' }).impersonator;
+    await expect(withoutKey.clientFor('notes', OWNER)).rejects.toThrow('needs impersonation.anonKey or SUPABASE_ANON_KEY');
+  });
+
+  test('tables and ownerColumns limit which rows are impersonated', async () => {
+    const { impersonator, serviceInserts, userInserts } = createHarness({ tables: ['notes'], ownerColumns: ['author'] });
+
+    expect(impersonator.ownerOf({ user_id: OWNER })).toBeUndefined();
+    expect(impersonator.ownerOf({ author: OWNER })).toBe(OWNER);
+    expect(await impersonator.clientFor('audit_log', OWNER)).toBeUndefined();
+
+    const fallback = async (rows: any[]) => rows;
+    await impersonator.insert('audit_log', [{ author: OWNER }], fallback);
+    expect(userInserts).toEqual([]);
+    expect(serviceInserts).toEqual([]);
+  });
+
+  test('isPolicyViolation recognises RLS errors', () => {
+    expect(isPolicyViolation({ code: '42501', message: 'permission denied' })).toBe(true);
+    expect(isPolicyViolation({ message: 'new row violates row-level security policy for table "notes"' })).toBe(true);
+    expect(isPolicyViolation({ code: '23505', message: 'duplicate key value' })).toBe(false);
+    expect(isPolicyViolation(null)).toBe(false);
+  });
+});
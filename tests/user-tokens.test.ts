@@ -0,0 +1,207 @@
+/**
+ * Test suite for user token minting
+ * Verifies access tokens for seeded users carry Supabase Auth's claims, are
+ * raised to aal2 by verified MFA factors, are signed with the project's JWT
+ * secret, and that users are found by email or scenario alias
+ */
+
+import { createHmac } from 'crypto';
+import { findSeededUser, mintUserToken } from '../src/auth/user-tokens';
+import { LOCAL_JWT_SECRET, generateTestJWT } from '../src/core/utils/crypto-utils';
+import { AuthUser, MFAFactor } from '../src/auth/auth-types';
+import { ScenarioAliases } from '../src/features/scenarios/scenario-types';
+
+// Mock Logger
+jest.mock('../src/core/utils/logger', () => ({
+  Logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    success: jest.fn()
+  }
+}));
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const NOW = 1_750_000_000;
+
+const authUser: AuthUser = {
+  id: USER_ID,
+  email: 'alice@supaseed.test',
+  emailConfirmed: true,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  userMetadata: { name: 'Alice' },
+  appMetadata: { provider: 'email', providers: ['email', 'github'], roles: ['admin'] },
+  role: 'authenticated',
+  aud: 'authenticated'
+};
+
+function factor(overrides: Partial<MFAFactor> = {}): MFAFactor {
+  return {
+    id: 'factor-1',
+    userId: USER_ID,
+    factorType: 'totp',
+    status: 'verified',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+function verify(token: string, secret: string): Record<string, any> {
+  const [header, payload, signature] = token.split('.');
+  expect(signature).toBe(createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url'));
+  return JSON.parse(Buffer.from(payload, 'base64url').toString());
+}
+
+/**
+ * Admin API returning users the way GoTrue does, factors included
+ */
+function createClient(pages: number) {
+  const users = Array.from({ length: pages * 1000 - 1 }, (_, index) => ({ id: `user-${index}`, email: `user${index}@supaseed.test` }));
+  users.push({
+    id: USER_ID,
+    email: 'Alice@supaseed.test',
+    email_confirmed_at: '2025-01-01T00:00:00.000Z',
+    created_at: '2025-01-01T00:00:00.000Z',
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: { name: 'Alice' },
+    role: 'authenticated',
+    aud: 'authenticated',
+    factors: [{ id: 'factor-1', factor_type: 'totp', status: 'verified', friendly_name: 'alice authenticator', created_at: 'now', updated_at: 'now' }],
+    identities: [{ identity_id: 'identity-1', provider: 'email', identity_data: { sub: USER_ID }, created_at: 'now', updated_at: 'now' }]
+  } as any);
+
+  const listUsers = jest.fn(async ({ page, perPage }: { page: number; perPage: number }) =>
+    ({ data: { users: users.slice((page - 1) * perPage, page * perPage) }, error: null }));
+  const getUserById = jest.fn(async (id: string) => {
+    const user = users.find(candidate => candidate.id === id);
+    return user ? { data: { user }, error: null } : { data: { user: null }, error: { status: 404, message: 'User not found' } };
+  });
+
+  return { client: { auth: { admin: { listUsers, getUserById } } } as any, listUsers, getUserById };
+}
+
+describe('mintUserToken', () => {
+  const originalSecret = process.env.SUPABASE_JWT_SECRET;
+
+  beforeEach(() => {
+    delete process.env.SUPABASE_JWT_SECRET;
+  });
+
+  afterAll(() => {
+    if (originalSecret !== undefined) process.env.SUPABASE_JWT_SECRET = originalSecret;
+  });
+
+  test('signs Supabase access token claims with the given secret', () => {
+    const token = mintUserToken(authUser, {
+      jwtSecret: 'project-secret',
+      supabaseUrl: 'https://abcdefghijklmnop.supabase.co/',
+      expiresIn: 600,
+      sessionId: 'session-1',
+      now: NOW
+    });
+
+    expect(verify(token.accessToken, 'project-secret')).toEqual({
+      aud: 'authenticated',
+      exp: NOW + 600,
+      iat: NOW,
+      iss: 'https://abcdefghijklmnop.supabase.co/auth/v1',
+      sub: USER_ID,
+      email: 'alice@supaseed.test',
+      phone: '',
+      app_metadata: { provider: 'email', providers: ['email', 'github'], roles: ['admin'] },
+      user_metadata: { name: 'Alice' },
+      role: 'authenticated',
+      aal: 'aal1',
+      amr: [{ method: 'password', timestamp: NOW }],
+      session_id: 'session-1',
+      is_anonymous: false
+    });
+    expect(token).toMatchObject({ tokenType: 'bearer', expiresIn: 600, expiresAt: NOW + 600, user: { id: USER_ID, email: 'alice@supaseed.test' } });
+  });
+
+  test('raises users with a verified factor to aal2', () => {
+    const totp = mintUserToken(authUser, { mfaFactors: [factor()], now: NOW });
+    expect(totp.claims.aal).toBe('aal2');
+    expect(totp.claims.amr).toEqual([{ method: 'password', timestamp: NOW }, { method: 'totp', timestamp: NOW }]);
+
+    const phone = mintUserToken(authUser, { mfaFactors: [factor({ factorType: 'phone' })], now: NOW });
+    expect(phone.claims.amr[1].method).toBe('mfa/phone');
+
+    const unverified = mintUserToken(authUser, {
+      mfaFactors: [factor({ status: 'unverified' }), factor({ userId: 'someone-else' })],
+      now: NOW
+    });
+    expect(unverified.claims.aal).toBe('aal1');
+    expect(unverified.claims.amr).toHaveLength(1);
+  });
+
+  test('records how the user signs in from their identities', () => {
+    const github = mintUserToken(authUser, { identities: [{ provider: 'github' }], now: NOW });
+    expect(github.claims.amr).toEqual([{ method: 'oauth', provider: 'github', timestamp: NOW }]);
+
+    const both = mintUserToken(authUser, { identities: [{ provider: 'github' }, { provider: 'email' }], now: NOW });
+    expect(both.claims.amr).toEqual([{ method: 'password', timestamp: NOW }]);
+
+    const invited = mintUserToken({ ...authUser, invitedAt: '2025-01-01T00:00:00.000Z' }, { now: NOW });
+    expect(invited.claims.amr).toEqual([{ method: 'otp', timestamp: NOW }]);
+
+    const fromMetadata = mintUserToken({ ...authUser, appMetadata: { provider: 'google', providers: ['google'] } }, { now: NOW });
+    expect(fromMetadata.claims.amr).toEqual([{ method: 'oauth', provider: 'google', timestamp: NOW }]);
+  });
+
+  test('defaults to SUPABASE_JWT_SECRET, then the local stack secret', () => {
+    verify(mintUserToken({ id: USER_ID }).accessToken, LOCAL_JWT_SECRET);
+
+    process.env.SUPABASE_JWT_SECRET = 'from-env';
+    verify(mintUserToken({ id: USER_ID }).accessToken, 'from-env');
+  });
+
+  test('generateTestJWT signs instead of hashing a placeholder', () => {
+    expect(verify(generateTestJWT({ sub: USER_ID }), LOCAL_JWT_SECRET)).toEqual({ sub: USER_ID });
+    expect(verify(generateTestJWT({ sub: USER_ID }, 'other'), 'other')).toEqual({ sub: USER_ID });
+  });
+});
+
+describe('findSeededUser', () => {
+  const aliases: ScenarioAliases = {
+    scenario: 'team-trial',
+    users: { alice: { id: USER_ID, email: 'alice@supaseed.test', password: 'pw', mfaSecret: 'SECRET' } },
+    teams: {},
+    records: {}
+  };
+
+  test('finds users by scenario alias with their MFA factors', async () => {
+    const { client, getUserById, listUsers } = createClient(1);
+
+    const found = await findSeededUser(client, 'alice', aliases);
+
+    expect(getUserById).toHaveBeenCalledWith(USER_ID);
+    expect(listUsers).not.toHaveBeenCalled();
+    expect(found.authUser).toMatchObject({ id: USER_ID, emailConfirmed: true, role: 'authenticated' });
+    expect(found.mfaFactors).toEqual([expect.objectContaining({ id: 'factor-1', userId: USER_ID, factorType: 'totp', status: 'verified' })]);
+    expect(found.identities).toEqual([expect.objectContaining({ id: 'identity-1', userId: USER_ID, provider: 'email' })]);
+    const { claims } = mintUserToken(found.authUser, { mfaFactors: found.mfaFactors, identities: found.identities, now: NOW });
+    expect(claims.aal).toBe('aal2');
+    expect(claims.amr[0]).toEqual({ method: 'password', timestamp: NOW });
+  });
+
+  test('pages through users to find an email, ignoring case', async () => {
+    const { client, listUsers } = createClient(2);
+
+    const found = await findSeededUser(client, 'alice@SUPASEED.test');
+
+    expect(found.authUser.id).toBe(USER_ID);
+    expect(listUsers).toHaveBeenCalledTimes(2);
+  });
+
+  test('reports unknown aliases and users', async () => {
+    const { client } = createClient(1);
+
+    await expect(findSeededUser(client, 'bob', aliases)).rejects.toThrow("No user with alias 'bob' in scenario team-trial");
+    await expect(findSeededUser(client, 'bob')).rejects.toThrow("'bob' is not an email and no scenario aliases are loaded");
+    await expect(findSeededUser(client, 'nobody@supaseed.test')).rejects.toThrow('User nobody@supaseed.test does not exist in this project');
+  });
+});